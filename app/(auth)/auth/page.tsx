@@ -11,6 +11,7 @@ import { useToast } from "@/hooks/use-toast";
 import { Building2 } from "lucide-react";
 import { useEffect } from "react";
 import Image from "next/image";
+import { getSafeRedirect } from "@/lib/route-access";
 
 export default function AuthPage() {
   const [isLoading, setIsLoading] = useState(false);
@@ -21,7 +22,7 @@ export default function AuthPage() {
   // Redirect if already logged in
   useEffect(() => {
     if (user) {
-      router.push("/dashboard");
+      router.push(getSafeRedirect(new URLSearchParams(window.location.search).get("redirectTo")));
     }
   }, [user, router]);
 
@@ -56,7 +57,8 @@ export default function AuthPage() {
     const email = formData.get("email") as string;
     const password = formData.get("password") as string;
 
-    const { error } = await signIn(email, password);
+    // middleware.ts sends people here with the page they were trying to open
+    const { error } = await signIn(email, password, new URLSearchParams(window.location.search).get("redirectTo") || undefined);
 
     if (error) {
       toast({
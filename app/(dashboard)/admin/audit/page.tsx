@@ -3,6 +3,7 @@
 import { useState, useEffect } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
+import { usePermissions } from '@/hooks/use-permissions';
 import { useRouter } from 'next/navigation';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -11,7 +12,8 @@ import {
   Home, 
   Shield, 
   RefreshCw,
-  Download
+  Download,
+  X
 } from 'lucide-react';
 import Link from 'next/link';
 import { AuditLogTable } from '@/components/audit/AuditLogTable';
@@ -22,9 +24,12 @@ import {
   AuditLog
 } from '@/lib/audit';
 
-export default function AuditPage() {
+// ?import_job=<id> shows the entries one import wrote (linked from /admin/imports)
+export default function AuditPage({ searchParams }: { searchParams: { import_job?: string } }) {
+  const importJobId = searchParams.import_job;
   const { user, profile, loading } = useAuth();
   const { toast } = useToast();
+  const { can } = usePermissions();
   const router = useRouter();
   const [logs, setLogs] = useState<AuditLog[]>([]);
   const [dataLoading, setDataLoading] = useState(true);
@@ -32,7 +37,7 @@ export default function AuditPage() {
   const [totalPages, setTotalPages] = useState(1);
   const [refreshing, setRefreshing] = useState(false);
 
-  const isAdmin = profile?.role === 'MASTER' || profile?.role === 'MANAGER';
+  const canViewAudit = can('audit.view');
   const ITEMS_PER_PAGE = 20;
 
   // Redirect if not authenticated
@@ -43,10 +48,10 @@ export default function AuditPage() {
   }, [user, loading, router]);
 
   useEffect(() => {
-    if (isAdmin) {
+    if (canViewAudit) {
       fetchAuditData();
     }
-  }, [isAdmin, currentPage]);
+  }, [canViewAudit, currentPage, importJobId]);
 
   const fetchAuditData = async () => {
     try {
@@ -61,6 +66,7 @@ export default function AuditPage() {
       const auditLogsPromise = getAuditLogs({
         limit: ITEMS_PER_PAGE,
         offset,
+        import_job_id: importJobId,
         order_by: 'created_at',
         order_direction: 'desc',
       });
@@ -114,6 +120,7 @@ export default function AuditPage() {
       // Fetch all audit logs for export (without pagination)
       const result = await getAuditLogs({
         limit: 10000, // Large limit to get all data
+        import_job_id: importJobId,
         order_by: 'created_at',
         order_direction: 'desc',
       });
@@ -210,7 +217,7 @@ export default function AuditPage() {
     return null;
   }
 
-  if (!isAdmin) {
+  if (!canViewAudit) {
     return (
       <div className="container mx-auto px-4 py-8">
         <div className="max-w-2xl mx-auto">
@@ -294,6 +301,24 @@ export default function AuditPage() {
             </div>
           </div>
 
+          {importJobId && (
+            <div className="mb-4 flex items-center justify-between gap-4 p-3 bg-blue-50 border border-blue-200 rounded-lg">
+              <p className="text-sm text-blue-800">
+                Showing the entries written by one import.{' '}
+                <Link href="/admin/imports" className="underline">
+                  Back to Import History
+                </Link>
+              </p>
+              <Link
+                href="/admin/audit"
+                className="flex items-center gap-1 text-sm font-medium text-blue-800 hover:text-blue-900"
+              >
+                <X className="h-4 w-4" />
+                Show all entries
+              </Link>
+            </div>
+          )}
+
           {/* Main Content */}
           <AuditLogTable
             logs={logs}
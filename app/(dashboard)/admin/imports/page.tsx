@@ -0,0 +1,199 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { usePermissions } from '@/hooks/use-permissions';
+import { useRouter } from 'next/navigation';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import {
+  ArrowLeft,
+  Home,
+  History,
+  RefreshCw,
+  Shield
+} from 'lucide-react';
+import Link from 'next/link';
+import { ImportHistoryTable } from '@/components/import/ImportHistoryTable';
+import { PageLoader } from '@/components/ui/loader';
+import { LoadingTimeout } from '@/components/ui/loading-timeout';
+import {
+  downloadImportJobFile,
+  getImportHistory,
+  type ImportHistoryEntry
+} from '@/lib/import-jobs';
+
+export default function ImportHistoryPage() {
+  const { user, loading } = useAuth();
+  const { toast } = useToast();
+  const { can } = usePermissions();
+  const router = useRouter();
+  const [jobs, setJobs] = useState<ImportHistoryEntry[]>([]);
+  const [dataLoading, setDataLoading] = useState(true);
+  const [currentPage, setCurrentPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const canRunImports = can('import.run');
+  const ITEMS_PER_PAGE = 20;
+
+  // Redirect if not authenticated
+  useEffect(() => {
+    if (!loading && !user) {
+      router.push("/auth");
+    }
+  }, [user, loading, router]);
+
+  useEffect(() => {
+    if (canRunImports) {
+      fetchHistory();
+    }
+  }, [canRunImports, currentPage]);
+
+  const fetchHistory = async () => {
+    try {
+      setDataLoading(true);
+      const result = await getImportHistory({
+        limit: ITEMS_PER_PAGE,
+        offset: (currentPage - 1) * ITEMS_PER_PAGE,
+      });
+
+      setJobs(result.data);
+      setTotalPages(Math.max(1, Math.ceil(result.totalCount / ITEMS_PER_PAGE)));
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to load import history',
+        variant: 'destructive',
+      });
+    } finally {
+      setDataLoading(false);
+    }
+  };
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    try {
+      await fetchHistory();
+    } finally {
+      setRefreshing(false);
+    }
+  };
+
+  const handleDownload = async (job: ImportHistoryEntry) => {
+    try {
+      await downloadImportJobFile(job);
+    } catch (error) {
+      toast({
+        title: 'Download Failed',
+        description: error instanceof Error ? error.message : 'Failed to download the file',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  // Show loading while checking authentication
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-slate-50 to-blue-50 flex items-center justify-center">
+        <LoadingTimeout timeout={15000}>
+          <PageLoader text="Authenticating..." />
+        </LoadingTimeout>
+      </div>
+    );
+  }
+
+  // Don't render anything if not authenticated (will redirect)
+  if (!user) {
+    return null;
+  }
+
+  if (!canRunImports) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-2xl mx-auto">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Shield className="h-5 w-5 text-red-500" />
+                Access Denied
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <p className="text-slate-600">
+                You do not have permission to view the import history.
+              </p>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-blue-50">
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-7xl mx-auto">
+          {/* Header */}
+          <div className="mb-8">
+            <div className="flex items-center gap-4 mb-6">
+              <Link
+                href="/admin/settings"
+                className="flex items-center gap-2 text-slate-600 hover:text-slate-900 transition-colors"
+              >
+                <ArrowLeft className="h-4 w-4" />
+                <span className="text-sm font-medium">Back to Settings</span>
+              </Link>
+              <div className="h-6 w-px bg-slate-300" />
+              <Link
+                href="/dashboard"
+                className="flex items-center gap-2 text-slate-600 hover:text-slate-900 transition-colors"
+              >
+                <Home className="h-4 w-4" />
+                <span className="text-sm font-medium">Dashboard</span>
+              </Link>
+            </div>
+
+            <div className="bg-white/80 backdrop-blur-sm rounded-2xl p-8 border border-slate-200 shadow-sm">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-3">
+                  <div className="p-3 bg-blue-100 rounded-xl">
+                    <History className="h-6 w-6 text-blue-600" />
+                  </div>
+                  <div>
+                    <h1 className="text-3xl font-bold text-slate-900">Import History</h1>
+                    <p className="text-slate-600 mt-1">
+                      Every import with its file, results, warnings and timings
+                    </p>
+                  </div>
+                </div>
+
+                <Button
+                  onClick={handleRefresh}
+                  disabled={refreshing}
+                  className="flex items-center gap-2"
+                >
+                  <RefreshCw className={`h-4 w-4 ${refreshing ? 'animate-spin' : ''}`} />
+                  Refresh
+                </Button>
+              </div>
+            </div>
+          </div>
+
+          {/* Main Content */}
+          <ImportHistoryTable
+            jobs={jobs}
+            loading={dataLoading}
+            onDownload={handleDownload}
+            pagination={{
+              page: currentPage,
+              totalPages,
+              onPageChange: setCurrentPage,
+            }}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,496 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { usePermissions } from '@/hooks/use-permissions';
+import { useRouter } from 'next/navigation';
+import { useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
+import {
+  ArrowLeft,
+  ArrowRight,
+  Home,
+  Shield,
+  RefreshCw,
+  ClipboardCheck,
+  CheckCircle,
+  XCircle,
+} from 'lucide-react';
+import Link from 'next/link';
+import { supabase } from '@/integrations/supabase/client';
+import { PageLoader } from '@/components/ui/loader';
+import { LoadingTimeout } from '@/components/ui/loading-timeout';
+import {
+  getAccountChangeRequests,
+  getRequestImpacts,
+  approveAccountChangeRequest,
+  rejectAccountChangeRequest,
+  AccountChangeRequest,
+  RequestImpact,
+  RequestStatus,
+} from '@/lib/requests';
+
+const formatCurrency = (amount: number) => {
+  const sign = amount < 0 ? '-' : '';
+  const value = Math.abs(amount);
+  return value >= 1_000_000
+    ? `${sign}$${(value / 1_000_000).toFixed(1)}M`
+    : value >= 1_000
+    ? `${sign}$${(value / 1_000).toFixed(0)}K`
+    : `${sign}$${value.toFixed(0)}`;
+};
+
+const formatStatus = (status: string | null) => {
+  if (!status) return 'Unassigned';
+  return status.replace(/_/g, ' ').replace(/\b\w/g, c => c.toUpperCase());
+};
+
+function HealthDot({ healthy }: { healthy: boolean }) {
+  return <div className={`w-2 h-2 rounded-full ${healthy ? 'bg-green-500' : 'bg-red-500'}`} />;
+}
+
+export default function RequestsPage() {
+  const { user, profile, loading } = useAuth();
+  const { toast } = useToast();
+  const { can } = usePermissions();
+  const router = useRouter();
+  const queryClient = useQueryClient();
+  const [statusFilter, setStatusFilter] = useState<RequestStatus>('pending');
+  const [requests, setRequests] = useState<AccountChangeRequest[]>([]);
+  const [impacts, setImpacts] = useState<Record<string, RequestImpact>>({});
+  const [dataLoading, setDataLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [decision, setDecision] = useState<{ request: AccountChangeRequest; action: 'approve' | 'reject' } | null>(null);
+  const [reviewNote, setReviewNote] = useState('');
+  const [deciding, setDeciding] = useState(false);
+
+  const canReview = can('request.review');
+
+  // Redirect if not authenticated
+  useEffect(() => {
+    if (!loading && !user) {
+      router.push('/auth');
+    }
+  }, [user, loading, router]);
+
+  const fetchRequests = useCallback(async () => {
+    try {
+      setDataLoading(true);
+      const data = await getAccountChangeRequests({ status: statusFilter });
+      setRequests(data);
+
+      // Impact is only meaningful while the request can still be decided
+      if (statusFilter === 'pending') {
+        setImpacts(await getRequestImpacts(data));
+      } else {
+        setImpacts({});
+      }
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to load change requests',
+        variant: 'destructive',
+      });
+    } finally {
+      setDataLoading(false);
+    }
+  }, [statusFilter, toast]);
+
+  useEffect(() => {
+    if (canReview) {
+      fetchRequests();
+    }
+  }, [canReview, fetchRequests]);
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    try {
+      await fetchRequests();
+    } finally {
+      setRefreshing(false);
+    }
+  };
+
+  // The other half of an account move, if it is still listed
+  const getPairedRequest = (request: AccountChangeRequest) =>
+    request.pair_id
+      ? requests.find(r => r.pair_id === request.pair_id && r.id !== request.id)
+      : undefined;
+
+  const closeDecision = () => {
+    setDecision(null);
+    setReviewNote('');
+  };
+
+  const handleDecision = async () => {
+    if (!decision) return;
+
+    const { request, action } = decision;
+    const impact = impacts[request.id];
+    const paired = getPairedRequest(request);
+    setDeciding(true);
+    try {
+      // The RPCs write the audit rows for every request they decide
+      if (action === 'approve') {
+        await approveAccountChangeRequest(request.id, reviewNote);
+
+        // Seller health depends on the must keep book - refresh the performance views
+        if (paired || (impact && impact.revenue_delta !== 0)) {
+          try {
+            await supabase.rpc('smart_refresh_performance_views');
+          } catch (refreshError) {
+            // Don't fail the approval if refresh fails
+          }
+        }
+
+        queryClient.invalidateQueries({ queryKey: ['unified-dashboard'], exact: false });
+        queryClient.invalidateQueries({ queryKey: ['manager-performance'] });
+        queryClient.invalidateQueries({ queryKey: ['sellerDetail', request.seller_id] });
+        queryClient.invalidateQueries({ queryKey: ['pendingRequests', request.seller_id] });
+        if (paired) {
+          queryClient.invalidateQueries({ queryKey: ['sellerDetail', paired.seller_id] });
+        }
+      } else {
+        await rejectAccountChangeRequest(request.id, reviewNote);
+        queryClient.invalidateQueries({ queryKey: ['pendingRequests', request.seller_id] });
+      }
+      if (paired) {
+        queryClient.invalidateQueries({ queryKey: ['pendingRequests', paired.seller_id] });
+      }
+
+      toast({
+        title: action === 'approve' ? 'Request Approved' : 'Request Rejected',
+        description: action === 'approve'
+          ? `${request.account?.name ?? 'Account'} moved to ${formatStatus(request.type === 'unassign' ? 'available' : request.requested_status)} for ${request.seller?.name ?? 'seller'}.`
+          : `No changes were made to ${request.account?.name ?? 'the account'}.`,
+      });
+
+      closeDecision();
+      await fetchRequests();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: `Failed to ${action} request: ${error instanceof Error ? error.message : (error as any)?.message || 'Unknown error'}`,
+        variant: 'destructive',
+      });
+    } finally {
+      setDeciding(false);
+    }
+  };
+
+  // Show loading while checking authentication
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-slate-50 to-blue-50 flex items-center justify-center">
+        <LoadingTimeout timeout={15000}>
+          <PageLoader text="Authenticating..." />
+        </LoadingTimeout>
+      </div>
+    );
+  }
+
+  // Don't render anything if not authenticated (will redirect)
+  if (!user) {
+    return null;
+  }
+
+  if (!canReview) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-2xl mx-auto">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Shield className="h-5 w-5 text-red-500" />
+                Access Denied
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <p className="text-slate-600">
+                You do not have permission to access change requests.
+                Your role does not include approving or rejecting requests.
+              </p>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-blue-50">
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-7xl mx-auto">
+          {/* Header */}
+          <div className="mb-8">
+            <div className="flex items-center gap-4 mb-6">
+              <Link
+                href="/dashboard"
+                className="flex items-center gap-2 text-slate-600 hover:text-slate-900 transition-colors"
+              >
+                <ArrowLeft className="h-4 w-4" />
+                <span className="text-sm font-medium">Back to Dashboard</span>
+              </Link>
+              <div className="h-6 w-px bg-slate-300" />
+              <Link
+                href="/dashboard"
+                className="flex items-center gap-2 text-slate-600 hover:text-slate-900 transition-colors"
+              >
+                <Home className="h-4 w-4" />
+                <span className="text-sm font-medium">Dashboard</span>
+              </Link>
+            </div>
+
+            <div className="bg-white/80 backdrop-blur-sm rounded-2xl p-8 border border-slate-200 shadow-sm">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-3">
+                  <div className="p-3 bg-blue-100 rounded-xl">
+                    <ClipboardCheck className="h-6 w-6 text-blue-600" />
+                  </div>
+                  <div>
+                    <h1 className="text-3xl font-bold text-slate-900">Change Requests</h1>
+                    <p className="text-slate-600 mt-1">
+                      Review account moves requested by managers
+                    </p>
+                  </div>
+                </div>
+
+                <Button
+                  onClick={handleRefresh}
+                  disabled={refreshing}
+                  className="flex items-center gap-2"
+                >
+                  <RefreshCw className={`h-4 w-4 ${refreshing ? 'animate-spin' : ''}`} />
+                  Refresh
+                </Button>
+              </div>
+            </div>
+          </div>
+
+          {/* Main Content */}
+          <Card className="bg-white/80 backdrop-blur-sm border-slate-200 shadow-sm">
+            <CardHeader className="pb-4">
+              <div className="flex items-center justify-between">
+                <div>
+                  <CardTitle className="text-lg">Approval Inbox</CardTitle>
+                  <CardDescription className="text-slate-600">
+                    Approving a request applies the relationship change immediately. Rejecting leaves the account untouched.
+                  </CardDescription>
+                </div>
+                <Tabs value={statusFilter} onValueChange={(value) => setStatusFilter(value as RequestStatus)}>
+                  <TabsList>
+                    <TabsTrigger value="pending">Pending</TabsTrigger>
+                    <TabsTrigger value="approved">Approved</TabsTrigger>
+                    <TabsTrigger value="rejected">Rejected</TabsTrigger>
+                  </TabsList>
+                </Tabs>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {dataLoading ? (
+                <PageLoader text="Loading requests..." />
+              ) : requests.length === 0 ? (
+                <div className="text-center py-12 text-slate-500">
+                  <ClipboardCheck className="h-10 w-10 mx-auto mb-3 text-slate-300" />
+                  <p>No {statusFilter} requests</p>
+                </div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Account</TableHead>
+                      <TableHead>Seller</TableHead>
+                      <TableHead>Change</TableHead>
+                      {statusFilter === 'pending' && <TableHead>Revenue Impact</TableHead>}
+                      {statusFilter === 'pending' && <TableHead>Health Impact</TableHead>}
+                      <TableHead>Requested By</TableHead>
+                      <TableHead className="w-[240px]">Justification</TableHead>
+                      <TableHead className="text-right">
+                        {statusFilter === 'pending' ? 'Actions' : 'Decision'}
+                      </TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {requests.map((request) => {
+                      const impact = impacts[request.id];
+                      const location = [request.account?.city, request.account?.state, request.account?.country]
+                        .filter(Boolean)
+                        .join(', ');
+
+                      return (
+                        <TableRow key={request.id}>
+                          <TableCell>
+                            <div className="font-medium text-slate-900">{request.account?.name ?? request.account_id}</div>
+                            <div className="text-xs text-slate-500">{location || 'No location'}</div>
+                          </TableCell>
+                          <TableCell>
+                            <Link href={`/sellers/${request.seller_id}`} className="font-medium text-blue-700 hover:underline">
+                              {request.seller?.name ?? request.seller_id}
+                            </Link>
+                            <div className="text-xs text-slate-500 capitalize">
+                              {[request.seller?.size, request.seller?.seniority_type].filter(Boolean).join(' · ')}
+                            </div>
+                          </TableCell>
+                          <TableCell>
+                            <Badge variant="outline" className="mb-1 capitalize">{request.type}</Badge>
+                            {request.pair_id && (
+                              <Badge variant="secondary" className="mb-1 ml-1">Move</Badge>
+                            )}
+                            <div className="flex items-center gap-1 text-xs text-slate-600">
+                              <span>{formatStatus(impact?.current_status ?? request.previous_status)}</span>
+                              <ArrowRight className="h-3 w-3" />
+                              <span className="font-medium text-slate-900">
+                                {formatStatus(request.type === 'unassign' ? 'available' : request.requested_status)}
+                              </span>
+                            </div>
+                          </TableCell>
+                          {statusFilter === 'pending' && (
+                            <TableCell>
+                              {impact ? (
+                                <>
+                                  <div className={`font-semibold ${impact.revenue_delta > 0 ? 'text-green-700' : impact.revenue_delta < 0 ? 'text-red-700' : 'text-slate-600'}`}>
+                                    {impact.revenue_delta > 0 ? '+' : ''}{formatCurrency(impact.revenue_delta)}
+                                  </div>
+                                  <div className="text-xs text-slate-500">
+                                    {formatCurrency(impact.revenue_before)} → {formatCurrency(impact.revenue_after)}
+                                  </div>
+                                </>
+                              ) : (
+                                <span className="text-xs text-slate-400">—</span>
+                              )}
+                            </TableCell>
+                          )}
+                          {statusFilter === 'pending' && (
+                            <TableCell>
+                              {impact ? (
+                                <div className="space-y-1 text-xs text-slate-600">
+                                  <div className="flex items-center gap-1.5">
+                                    <span className="w-14">Revenue</span>
+                                    <HealthDot healthy={impact.is_revenue_healthy_before} />
+                                    <ArrowRight className="h-3 w-3" />
+                                    <HealthDot healthy={impact.is_revenue_healthy_after} />
+                                  </div>
+                                  <div className="flex items-center gap-1.5">
+                                    <span className="w-14">Accounts</span>
+                                    <HealthDot healthy={impact.is_account_healthy_before} />
+                                    <ArrowRight className="h-3 w-3" />
+                                    <HealthDot healthy={impact.is_account_healthy_after} />
+                                    <span className="ml-1">({impact.accounts_before} → {impact.accounts_after})</span>
+                                  </div>
+                                </div>
+                              ) : (
+                                <span className="text-xs text-slate-400">—</span>
+                              )}
+                            </TableCell>
+                          )}
+                          <TableCell>
+                            <div className="text-sm text-slate-900">{request.requester?.name ?? 'Unknown'}</div>
+                            <div className="text-xs text-slate-500">{new Date(request.created_at).toLocaleString()}</div>
+                          </TableCell>
+                          <TableCell>
+                            <p className="text-sm text-slate-700 whitespace-pre-wrap break-words">{request.justification}</p>
+                            {request.review_note && (
+                              <p className="text-xs text-slate-500 mt-1 italic">Review: {request.review_note}</p>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {statusFilter === 'pending' ? (
+                              <div className="flex justify-end gap-2">
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() => setDecision({ request, action: 'reject' })}
+                                  className="flex items-center gap-1 text-red-700 border-red-200 hover:bg-red-50"
+                                >
+                                  <XCircle className="h-4 w-4" />
+                                  Reject
+                                </Button>
+                                <Button
+                                  size="sm"
+                                  onClick={() => setDecision({ request, action: 'approve' })}
+                                  className="flex items-center gap-1 bg-green-600 hover:bg-green-700 text-white"
+                                >
+                                  <CheckCircle className="h-4 w-4" />
+                                  Approve
+                                </Button>
+                              </div>
+                            ) : (
+                              <div className="text-xs text-slate-500">
+                                <Badge variant={request.status === 'approved' ? 'default' : 'destructive'} className="capitalize mb-1">
+                                  {request.status}
+                                </Badge>
+                                {request.reviewed_at && <div>{new Date(request.reviewed_at).toLocaleString()}</div>}
+                              </div>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+
+      {/* Approve / Reject Confirmation */}
+      <AlertDialog open={!!decision} onOpenChange={(open) => { if (!open && !deciding) closeDecision(); }}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle className="flex items-center gap-2">
+              {decision?.action === 'approve' ? (
+                <CheckCircle className="h-5 w-5 text-green-600" />
+              ) : (
+                <XCircle className="h-5 w-5 text-red-600" />
+              )}
+              {decision?.action === 'approve' ? 'Approve Request' : 'Reject Request'}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {decision?.action === 'approve'
+                ? `${decision?.request.account?.name ?? 'The account'} will be moved to ${formatStatus(decision?.request.type === 'unassign' ? 'available' : decision?.request.requested_status ?? null)} for ${decision?.request.seller?.name ?? 'the seller'}.`
+                : `The request from ${decision?.request.requester?.name ?? 'the manager'} will be closed without changing any relationships.`}
+              {decision && getPairedRequest(decision.request) && (
+                ` This request is part of an account move; the paired request for ${getPairedRequest(decision.request)?.seller?.name ?? 'the other seller'} is ${decision.action === 'approve' ? 'approved' : 'rejected'} with it.`
+              )}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="review-note">Note (optional)</Label>
+            <Textarea
+              id="review-note"
+              value={reviewNote}
+              onChange={(e) => setReviewNote(e.target.value)}
+              placeholder="Add context for the manager..."
+              rows={3}
+              disabled={deciding}
+            />
+          </div>
+          <AlertDialogFooter>
+            <AlertDialogCancel onClick={closeDecision} disabled={deciding}>
+              Cancel
+            </AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                handleDecision();
+              }}
+              disabled={deciding}
+              className={decision?.action === 'approve' ? 'bg-green-600 hover:bg-green-700 text-white' : 'bg-red-600 hover:bg-red-700 text-white'}
+            >
+              {deciding ? 'Saving...' : decision?.action === 'approve' ? 'Approve' : 'Reject'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -3,6 +3,7 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
+import { usePermissions } from '@/hooks/use-permissions';
 import { useRouter } from 'next/navigation';
 import { useQueryClient } from '@tanstack/react-query';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
@@ -11,28 +12,70 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Separator } from '@/components/ui/separator';
 import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
-import { Save, Settings, DollarSign, Building2, AlertTriangle, CheckCircle, ArrowLeft, Home, Shield, Upload, Download, Trash2, Database } from 'lucide-react';
+import { Save, Settings, DollarSign, Building2, AlertTriangle, CheckCircle, ArrowLeft, Home, Shield, Upload, Download, Trash2, Database, RotateCcw, Target, Timer, GitMerge, History } from 'lucide-react';
 import Link from 'next/link';
 import { supabase } from '@/integrations/supabase/client';
 import { logAuditEvent, createAuditLogData, AUDIT_ACTIONS, AUDIT_ENTITIES } from '@/lib/audit';
 import {
   downloadComprehensiveTemplate,
-  importComprehensiveData,
-  importComprehensiveDataAdd,
   downloadTemplate,
-  importSellersIndividual,
-  importAccountsIndividual,
-  validateSellersTemplate,
-  validateAccountsTemplate,
-  validateComprehensiveTemplate,
-  readSheet,
   exportCompleteAccountsWithAssignedSellers,
   exportComprehensiveData,
+  previewComprehensiveImport,
+  getComprehensiveImportState,
+  isResumableImport,
+  rollbackComprehensiveImport,
+  COMPREHENSIVE_IMPORT_STEP_LABELS,
+  type ImportDiff,
+  type ComprehensiveImportState,
 } from '@/lib/importers';
+import { ImportDiffPreview } from '@/components/import/ImportDiffPreview';
+import { ColumnMappingWizard } from '@/components/import/ColumnMappingWizard';
+import { MergeOptionsPanel } from '@/components/import/MergeOptionsPanel';
+import { ImportLockPanel } from '@/components/import/ImportLockPanel';
+import { LocationNormalizationPanel } from '@/components/import/LocationNormalizationPanel';
+import type { ConfirmedMatches } from '@/lib/name-matching';
+import { needsColumnMapping, type ColumnMapping } from '@/lib/column-mapping';
+import { DATA_FILE_FORMATS, DATA_FILE_FORMAT_LABELS, IMPORT_FILE_ACCEPT, type DataFileFormat } from '@/lib/file-formats';
+import { countIssues, downloadErrorReport, issuesFromImportResults, type ImportRowIssue } from '@/lib/import-errors';
+import { createDefaultMergeOptions, type MergeOptions } from '@/lib/import-merge';
+import type { ImportType, PreparedImport } from '@/lib/import-workbook';
+import { prepareImportFile } from '@/lib/prepare-import';
+import {
+  cancelImportJob,
+  getActiveImportJob,
+  getImportJob,
+  hashImportFile,
+  isImportJobFinished,
+  startImportJob,
+  type ImportJob,
+  type ImportJobType,
+} from '@/lib/import-jobs';
+import type { WorkBook } from 'xlsx';
 import { PageLoader } from '@/components/ui/loader';
+import {
+  DEFAULT_FIT_SCORE_SETTINGS,
+  FIT_FACTORS,
+  FIT_WEIGHT_KEYS,
+  getFitScoreSettings,
+  updateFitScoreSettings,
+  validateFitScoreSettings,
+  type FitScoreSettings,
+} from '@/lib/fit-score';
+import {
+  DEFAULT_SESSION_SETTINGS,
+  getSessionSettings,
+  updateSessionSettings,
+  validateSessionSettings,
+  type SessionSettings,
+} from '@/lib/sessions';
 import { useRealtimeSettings } from '@/hooks/use-realtime-settings';
 
+// How often a running import job is re-read
+const IMPORT_JOB_POLL_MS = 2000;
+
 interface RevenueRangeSettings {
   id?: string;
   size_type: 'midmarket' | 'enterprise';
@@ -55,6 +98,13 @@ interface AccountNumberSettings {
   max_accounts: number;
 }
 
+// A file mapped in the column mapping wizard: the original is uploaded with
+// its mapping, while the mapped workbook is only validated and previewed here
+interface MappedUpload {
+  original: File;
+  mapping: ColumnMapping;
+}
+
 interface AccountNumberSettingsState {
   midmarketJunior: AccountNumberSettings;
   midmarketSenior: AccountNumberSettings;
@@ -65,6 +115,7 @@ interface AccountNumberSettingsState {
 export default function AdminSettingsPage() {
   const { user, profile, loading: authLoading } = useAuth();
   const { toast } = useToast();
+  const { can } = usePermissions();
   const router = useRouter();
   const queryClient = useQueryClient();
   // Removed old threshold_settings state - now using dynamic threshold tables
@@ -116,18 +167,52 @@ export default function AdminSettingsPage() {
       max_accounts: 7,
     },
   });
+  const [fitScoreSettings, setFitScoreSettings] = useState<FitScoreSettings>(DEFAULT_FIT_SCORE_SETTINGS);
+  const [savedFitScoreSettings, setSavedFitScoreSettings] = useState<FitScoreSettings>(DEFAULT_FIT_SCORE_SETTINGS);
+  const [sessionSettings, setSessionSettings] = useState<SessionSettings>(DEFAULT_SESSION_SETTINGS);
+  const [savedSessionSettings, setSavedSessionSettings] = useState<SessionSettings>(DEFAULT_SESSION_SETTINGS);
+
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [comprehensiveImporting, setComprehensiveImporting] = useState(false);
   const [importResults, setImportResults] = useState<any>(null);
   const [showImportConfirmation, setShowImportConfirmation] = useState(false);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
-  const [importType, setImportType] = useState<'comprehensive' | 'sellers' | 'accounts' | 'comprehensive_add'>('comprehensive');
+  // Compared with the interrupted import's file_hash to tell whether it resumes
+  const [selectedFileHash, setSelectedFileHash] = useState<string | null>(null);
+  const [mappedUpload, setMappedUpload] = useState<MappedUpload | null>(null);
+  // The selected file parsed and validated by the import worker
+  const [preparedImport, setPreparedImport] = useState<PreparedImport | null>(null);
+  const [preparingFile, setPreparingFile] = useState(false);
+  const [importType, setImportType] = useState<ImportType>('comprehensive');
+  // Delete switch and field policies for MERGE mode
+  const [mergeOptions, setMergeOptions] = useState<MergeOptions>(createDefaultMergeOptions);
   const [showProgressModal, setShowProgressModal] = useState(false);
   const [showValidationModal, setShowValidationModal] = useState(false);
   const [validationErrors, setValidationErrors] = useState<string[]>([]);
   const [validationWarnings, setValidationWarnings] = useState<string[]>([]);
   const [exporting, setExporting] = useState(false);
+  const [exportFormat, setExportFormat] = useState<DataFileFormat>('xlsx');
+  const [importDiff, setImportDiff] = useState<ImportDiff | null>(null);
+  // File waiting in the column mapping wizard
+  const [mappingSource, setMappingSource] = useState<{
+    file: File;
+    workbook: WorkBook;
+    type: ImportType;
+  } | null>(null);
+  // Row-level issues in the selected file, for the downloadable error report
+  const [errorReport, setErrorReport] = useState<{
+    fileName: string;
+    workbook: WorkBook;
+    issues: ImportRowIssue[];
+  } | null>(null);
+  const [confirmedMatches, setConfirmedMatches] = useState<ConfirmedMatches>({});
+  const [previewing, setPreviewing] = useState(false);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const [importState, setImportState] = useState<ComprehensiveImportState | null>(null);
+  const [rollingBack, setRollingBack] = useState(false);
+  // Server-side import job shown in the progress modal
+  const [importJobId, setImportJobId] = useState<string | null>(null);
   const [importProgress, setImportProgress] = useState<{
     currentStep: string;
     totalSteps: number;
@@ -148,8 +233,39 @@ export default function AdminSettingsPage() {
   // File input refs for different import types
   const comprehensiveInputRef = useRef<HTMLInputElement>(null);
   const comprehensiveAddInputRef = useRef<HTMLInputElement>(null);
+  const comprehensiveMergeInputRef = useRef<HTMLInputElement>(null);
   const sellersInputRef = useRef<HTMLInputElement>(null);
   const accountsInputRef = useRef<HTMLInputElement>(null);
+  // Aborted by cancelImport to stop file parsing
+  const importAbortRef = useRef<AbortController | null>(null);
+
+  // Dry run the comprehensive import whenever the confirmation dialog opens
+  useEffect(() => {
+    if (!showImportConfirmation || !preparedImport || importType === 'sellers' || importType === 'accounts') {
+      return;
+    }
+
+    let cancelled = false;
+    setImportDiff(null);
+    setConfirmedMatches({});
+    setPreviewError(null);
+    setPreviewing(true);
+
+    (async () => {
+      try {
+        const diff = await previewComprehensiveImport(preparedImport.workbook, importType, mergeOptions);
+        if (!cancelled) setImportDiff(diff);
+      } catch (error) {
+        if (!cancelled) setPreviewError(error instanceof Error ? error.message : String(error));
+      } finally {
+        if (!cancelled) setPreviewing(false);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [showImportConfirmation, preparedImport, importType, mergeOptions]);
 
   // Fetch settings from database - wrapped in useCallback for real-time hook
   const fetchSettings = useCallback(async () => {
@@ -268,6 +384,24 @@ export default function AdminSettingsPage() {
 
         setAccountNumberSettings(newAccountNumberSettings);
       }
+
+      // Fetch fit score weights
+      try {
+        const fitSettings = await getFitScoreSettings();
+        setFitScoreSettings(fitSettings);
+        setSavedFitScoreSettings(fitSettings);
+      } catch (fitError) {
+        // Keep defaults if the fit score settings table is unavailable
+      }
+
+      // Fetch idle timeout
+      try {
+        const timeoutSettings = await getSessionSettings();
+        setSessionSettings(timeoutSettings);
+        setSavedSessionSettings(timeoutSettings);
+      } catch (sessionError) {
+        // Keep defaults if the session settings table is unavailable
+      }
     } catch (error) {
     } finally {
       setLoading(false);
@@ -277,24 +411,105 @@ export default function AdminSettingsPage() {
   // Enable real-time updates for settings - syncs across all admin users
   useRealtimeSettings(fetchSettings);
 
-  // Redirect non-MASTER users to dashboard
+  const canEditSettings = can('settings.edit');
+  const canRunImport = can('import.run');
+
+  // Redirect users without settings access to dashboard
   useEffect(() => {
-    if (!authLoading && (!user || !profile || profile.role !== 'MASTER')) {
+    if (!authLoading && (!user || !profile || !canEditSettings)) {
       router.push('/dashboard');
     }
-  }, [user, profile, authLoading, router]);
-
-  // Check if user is MASTER admin
-  const isMasterAdmin = profile?.role === 'MASTER';
+  }, [user, profile, authLoading, router, canEditSettings]);
 
   useEffect(() => {
-    if (isMasterAdmin) {
+    if (canEditSettings) {
       fetchSettings();
     }
-  }, [isMasterAdmin, fetchSettings]);
+  }, [canEditSettings, fetchSettings]);
+
+  // Load the last replace import state so interrupted imports can be resumed or rolled back
+  const loadImportState = useCallback(async () => {
+    try {
+      setImportState(await getComprehensiveImportState());
+    } catch (error) {
+      console.error('Error loading import state:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (canRunImport) {
+      loadImportState();
+    }
+  }, [canRunImport, loadImportState]);
+
+  // Pick up an import started in another tab or browser
+  useEffect(() => {
+    if (!canRunImport) {
+      return;
+    }
+
+    (async () => {
+      try {
+        const job = await getActiveImportJob();
+        if (job) {
+          setImportJobId(job.id);
+          setComprehensiveImporting(true);
+          setShowProgressModal(true);
+          applyImportJob(job);
+        }
+      } catch (error) {
+        console.error('Error loading active import job:', error);
+      }
+    })();
+  }, [canRunImport]);
+
+  // Follow the running import job until it finishes
+  useEffect(() => {
+    if (!importJobId) {
+      return;
+    }
+
+    let stopped = false;
+    const poll = async () => {
+      try {
+        const job = await getImportJob(importJobId);
+        if (stopped || !job) return;
+        applyImportJob(job);
+        if (isImportJobFinished(job)) {
+          stopped = true;
+          clearInterval(timer);
+          handleImportJobFinished(job);
+        }
+      } catch (error) {
+        console.error('Error loading import job:', error);
+      }
+    };
+
+    const timer = setInterval(poll, IMPORT_JOB_POLL_MS);
+    poll();
+
+    return () => {
+      stopped = true;
+      clearInterval(timer);
+    };
+  }, [importJobId]);
+
+  const resumableImport = isResumableImport(importState) ? importState : null;
+
+  // The server hashes the file it receives, which for a mapped file is the original
+  const uploadFile = mappedUpload?.original ?? selectedFile;
+  useEffect(() => {
+    setSelectedFileHash(null);
+    if (!uploadFile) return;
+    let cancelled = false;
+    hashImportFile(uploadFile)
+      .then(hash => { if (!cancelled) setSelectedFileHash(hash); })
+      .catch(() => {});
+    return () => { cancelled = true; };
+  }, [uploadFile]);
 
   const handleSave = async () => {
-    if (!isMasterAdmin) {
+    if (!canEditSettings) {
       toast({
         title: 'Access Denied',
         description: 'You do not have permission to modify settings.',
@@ -303,6 +518,26 @@ export default function AdminSettingsPage() {
       return;
     }
 
+    const fitValidationError = validateFitScoreSettings(fitScoreSettings);
+    if (fitValidationError) {
+      toast({
+        title: 'Invalid fit score weights',
+        description: fitValidationError,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const sessionValidationError = validateSessionSettings(sessionSettings);
+    if (sessionValidationError) {
+      toast({
+        title: 'Invalid idle timeout',
+        description: sessionValidationError,
+        variant: 'destructive',
+      });
+      return;
+    }
+
     setSaving(true);
     try {
       // Save revenue range settings
@@ -350,6 +585,41 @@ export default function AdminSettingsPage() {
         throw new Error(`Account number settings error: ${accountNumberResult.error.message}`);
       }
 
+      // Save fit score weights (only when changed - fit is recomputed on every account query)
+      const fitScoreChanged = FIT_WEIGHT_KEYS.some(key => fitScoreSettings[key] !== savedFitScoreSettings[key]) ||
+        fitScoreSettings.max_distance_km !== savedFitScoreSettings.max_distance_km;
+      if (fitScoreChanged && user?.id) {
+        await updateFitScoreSettings(fitScoreSettings, user.id);
+        await logAuditEvent(createAuditLogData(
+          user.id,
+          AUDIT_ACTIONS.UPDATE,
+          'FIT_SCORE_SETTINGS',
+          'fit_score_settings',
+          savedFitScoreSettings,
+          fitScoreSettings
+        ));
+        setSavedFitScoreSettings(fitScoreSettings);
+        queryClient.invalidateQueries({ queryKey: ["allAccountsWithAssignmentStatus"] });
+        queryClient.invalidateQueries({ queryKey: ["mapAvailableAccounts"] });
+        queryClient.invalidateQueries({ queryKey: ["fitContext"] });
+      }
+
+      // Save idle timeout (only when changed - open tabs pick it up on their next load)
+      const sessionSettingsChanged = sessionSettings.idle_timeout_minutes !== savedSessionSettings.idle_timeout_minutes ||
+        sessionSettings.warning_seconds !== savedSessionSettings.warning_seconds;
+      if (sessionSettingsChanged && user?.id) {
+        await updateSessionSettings(sessionSettings, user.id);
+        await logAuditEvent(createAuditLogData(
+          user.id,
+          AUDIT_ACTIONS.UPDATE,
+          'SESSION_SETTINGS',
+          'session_settings',
+          savedSessionSettings,
+          sessionSettings
+        ));
+        setSavedSessionSettings(sessionSettings);
+      }
+
       // Log audit events
       if (user?.id) {
         // Log revenue range settings audit
@@ -418,14 +688,58 @@ export default function AdminSettingsPage() {
   };
 
   // Handle file selection and show confirmation
-  async function handleFileSelection(file: File | null, type: 'comprehensive' | 'sellers' | 'accounts' | 'comprehensive_add') {
+  async function handleFileSelection(file: File | null, type: ImportType, mapped: MappedUpload | null = null) {
     if (!file) {
       return;
     }
-    
-    // Validate template first
+    setMappedUpload(mapped);
+
+    if (!canRunImport) {
+      toast({
+        title: 'Access Denied',
+        description: 'You do not have permission to import data.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    // Parse and validate in the import worker so large files don't freeze the page
     addProgressLog(`Validating ${type} template...`);
-    const validation = await validateTemplate(file, type);
+    const controller = new AbortController();
+    importAbortRef.current = controller;
+    let prepared: PreparedImport;
+    try {
+      setPreparingFile(true);
+      prepared = await prepareImportFile(file, type, addProgressLog, controller.signal);
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        setErrorReport(null);
+        setValidationErrors([`Failed to read file: ${error}`]);
+        setValidationWarnings([]);
+        setShowValidationModal(true);
+      }
+      return;
+    } finally {
+      if (importAbortRef.current === controller) {
+        importAbortRef.current = null;
+      }
+      setPreparingFile(false);
+    }
+
+    // Spreadsheets that aren't in template shape are mapped first
+    if (!mapped && needsColumnMapping(prepared.workbook, type)) {
+      setMappingSource({ file, workbook: prepared.workbook, type });
+      return;
+    }
+    
+    const validation = prepared.validation;
+    const rowIssues = prepared.issues;
+    setPreparedImport(prepared);
+    setErrorReport({ fileName: file.name, workbook: prepared.workbook, issues: rowIssues });
+    // Deleting is opted into for each file
+    if (type === 'comprehensive_merge') {
+      setMergeOptions(options => ({ ...options, deleteMissing: false }));
+    }
     
     if (!validation.isValid) {
       setValidationErrors(validation.errors);
@@ -434,18 +748,25 @@ export default function AdminSettingsPage() {
       return;
     }
     
+    const warnings = rowIssues.length > 0
+      ? [...validation.warnings, `${countIssues(rowIssues, 'error')} row errors and ${countIssues(rowIssues, 'warning')} row warnings - download the error report to see each row and cell`]
+      : validation.warnings;
+    
     // Show warnings if any, but handle ADD mode differently
-    if (validation.warnings.length > 0) {
+    if (warnings.length > 0) {
       // For ADD mode, if the only warning is about Managers sheet having only header row, proceed directly
-      if (type === 'comprehensive_add' && validation.warnings.length === 1 && 
-          validation.warnings[0].includes('Managers sheet has only header row')) {
+      if (type === 'comprehensive_add' && warnings.length === 1 && 
+          warnings[0].includes('Managers sheet has only header row')) {
         setSelectedFile(file);
         setImportType(type);
         setShowImportConfirmation(true);
         return;
       }
       
-      setValidationWarnings(validation.warnings);
+      // Kept for "Proceed Anyway"
+      setSelectedFile(file);
+      setImportType(type);
+      setValidationWarnings(warnings);
       setValidationErrors([]);
       setShowValidationModal(true);
       return;
@@ -455,182 +776,153 @@ export default function AdminSettingsPage() {
     setImportType(type);
     
     // For comprehensive imports, show confirmation dialog
-    if (type === 'comprehensive' || type === 'comprehensive_add') {
+    if (type === 'comprehensive' || type === 'comprehensive_add' || type === 'comprehensive_merge') {
       setShowImportConfirmation(true);
     } else {
       // For individual imports, proceed directly
-      handleIndividualImport(file, type);
+      handleIndividualImport(file, type, mapped);
     }
   }
 
   // Individual import handler (sellers or accounts)
-  async function handleIndividualImport(file: File, type: 'sellers' | 'accounts') {
+  function handleIndividualImport(file: File, type: 'sellers' | 'accounts', mapped: MappedUpload | null) {
+    startServerImport(file, type, {}, undefined, mapped);
+  }
+
+  // Comprehensive import handler
+  function handleComprehensiveImport() {
+    if (!selectedFile || importType === 'sellers' || importType === 'accounts') {
+      return;
+    }
+    startServerImport(selectedFile, importType, confirmedMatches, importType === 'comprehensive_merge' ? mergeOptions : undefined, mappedUpload);
+  }
+
+  // Upload the file as a server-side import job; the polling effect follows it from here
+  async function startServerImport(
+    file: File,
+    type: ImportJobType,
+    matches: ConfirmedMatches = {},
+    options?: MergeOptions,
+    mapped: MappedUpload | null = null
+  ) {
+    const upload = mapped?.original ?? file;
     try {
       setComprehensiveImporting(true);
       setImportResults(null);
+      setShowImportConfirmation(false);
       setShowProgressModal(true);
       resetProgress();
-      
-      updateProgressStep('Starting import...', 1, 4);
-      addProgressLog(`Importing ${type} data from ${file.name}`);
-      
-      const userId = profile?.id;
-      let results;
-      
-      updateProgressStep('Processing file...', 2, 4);
-      
-      if (type === 'sellers') {
-        await importSellersIndividual(file, userId, addProgressLog);
-        results = { sellers: { imported: 1, errors: [] } };
-      } else if (type === 'accounts') {
-        await importAccountsIndividual(file, userId, addProgressLog);
-        results = { accounts: { imported: 1, errors: [] } };
-      }
-      
-      updateProgressStep('Updating dashboard...', 3, 4);
-      setImportResults(results);
-      
-      // Invalidate dashboard queries to refresh UI with new data
-      try {
-        queryClient.invalidateQueries({ queryKey: ["unified-dashboard"] });
-        queryClient.invalidateQueries({ queryKey: ["unifiedDashboard"] });
-        queryClient.invalidateQueries({ queryKey: ["unified-dashboard"], exact: false });
-        queryClient.invalidateQueries({ queryKey: ["manager-performance"] });
-        addProgressLog('Dashboard queries invalidated successfully');
-      } catch (invalidateError) {
-        addProgressLog(`Warning: Error invalidating dashboard queries: ${invalidateError}`);
-        // Don't fail the import if invalidation fails
-      }
-      
-      updateProgressStep('Finalizing...', 4, 4);
-      setProgressComplete();
-      
-      toast({
-        title: `${type === 'sellers' ? 'Sellers' : 'Accounts'} Import Complete`,
-        description: `Successfully imported ${type} data. Dashboard will refresh automatically.`,
-        variant: "default",
-      });
+      addProgressLog(`Uploading ${upload.name}...`);
+
+      const job = await startImportJob(upload, type, matches, options, mapped?.mapping);
+      applyImportJob(job);
+      setImportJobId(job.id);
     } catch (e: any) {
+      setComprehensiveImporting(false);
       setProgressError(e?.message ?? String(e));
       toast({
-        title: `${type === 'sellers' ? 'Sellers' : 'Accounts'} Import Failed`,
+        title: `${importJobTitle(type)} Failed`,
         description: e?.message ?? String(e),
         variant: "destructive",
       });
     } finally {
-      setComprehensiveImporting(false);
       setSelectedFile(null);
+      setMappedUpload(null);
+      setPreparedImport(null);
     }
   }
 
-  // Comprehensive import handler
-  async function handleComprehensiveImport() {
-    if (!selectedFile) {
+  function importJobTitle(type: ImportJobType) {
+    if (type === 'sellers') return 'Sellers Import';
+    if (type === 'accounts') return 'Accounts Import';
+    const mode = type === 'comprehensive_add' ? 'Add Mode' : type === 'comprehensive_merge' ? 'Merge Mode' : 'Replace Mode';
+    return `Comprehensive Import (${mode})`;
+  }
+
+  // Show the job's progress and log in the progress modal
+  function applyImportJob(job: ImportJob) {
+    setImportType(job.import_type);
+    setImportProgress({
+      currentStep: job.current_step ?? (job.state === 'queued' ? 'Waiting for the running import to finish...' : ''),
+      totalSteps: job.total_steps,
+      currentStepNumber: job.step_number,
+      logs: (job.logs || []).map(entry => `${new Date(entry.at).toLocaleTimeString()}: ${entry.message}`),
+      isComplete: job.state === 'succeeded',
+      hasError: job.state === 'failed' || job.state === 'cancelled',
+      errorMessage: job.error ?? undefined,
+    });
+  }
+
+  function handleImportJobFinished(job: ImportJob) {
+    setImportJobId(null);
+    setComprehensiveImporting(false);
+    setImportResults(job.results);
+    loadImportState();
+
+    if (job.state !== 'succeeded') {
+      toast({
+        title: `${importJobTitle(job.import_type)} ${job.state === 'cancelled' ? 'Cancelled' : 'Failed'}`,
+        description: job.error ?? 'Unknown error',
+        variant: "destructive",
+      });
       return;
     }
-    
+
+    const results = job.results || {};
+    const totalImported = Object.values(results).reduce((sum: number, result: any) => sum + result.imported, 0);
+    const totalErrors = Object.values(results).reduce((sum: number, result: any) => sum + result.errors.length, 0);
+    // Merge imports also report updated and deleted records
+    const totalUpdated = Object.values(results).reduce((sum: number, result: any) => sum + (result.updated ?? 0), 0);
+    const totalDeleted = Object.values(results).reduce((sum: number, result: any) => sum + (result.deleted ?? 0), 0);
+
+    // The import ran on the server, so this page tells the rest of the app
+    window.dispatchEvent(new CustomEvent('import-completed', {
+      detail: { totalImported, totalErrors, timestamp: Date.now() }
+    }));
+
+    // Invalidate dashboard queries to refresh UI with new data
     try {
-      setComprehensiveImporting(true);
-      setImportResults(null);
-      setShowImportConfirmation(false);
-      setShowProgressModal(true);
-      resetProgress();
-      
-      const userId = profile?.id;
-      let results;
-      
-      const modeText = importType === 'comprehensive_add' ? 'Add Mode' : 'Replace Mode';
-      updateProgressStep(`Starting ${modeText} import...`, 1, 7);
-      addProgressLog(`Importing comprehensive data from ${selectedFile.name} (${modeText})`);
-      
-      updateProgressStep('Validating template...', 2, 7);
-      
-      // Validate template again for comprehensive imports
-      const validation = await validateTemplate(selectedFile, importType);
-      
-      if (!validation.isValid) {
-        setProgressError(`Template validation failed: ${validation.errors.join(', ')}`);
-        toast({
-          title: "Invalid Template",
-          description: `The Excel file doesn't match the expected template. ${validation.errors.join(', ')}`,
-          variant: "destructive",
-        });
-        return;
-      }
-      
-      updateProgressStep('Processing Excel file...', 3, 7);
-      
-      if (importType === 'comprehensive_add') {
-        results = await importComprehensiveDataAdd(selectedFile, userId, addProgressLog);
-      } else {
-        updateProgressStep('Deleting existing data...', 4, 7);
-        results = await importComprehensiveData(selectedFile, userId, addProgressLog);
-      }
-      
-      updateProgressStep('Importing new data...', 5, 7);
-      setImportResults(results);
-      
-      const totalImported = Object.values(results).reduce((sum: number, result: any) => sum + result.imported, 0);
-      const totalErrors = Object.values(results).reduce((sum: number, result: any) => sum + result.errors.length, 0);
-      
-      updateProgressStep('Refreshing dashboard...', 6, 7);
-      
-      // Invalidate dashboard queries to refresh UI with new data
-      try {
-        queryClient.invalidateQueries({ queryKey: ["unified-dashboard"] });
-        queryClient.invalidateQueries({ queryKey: ["unifiedDashboard"] });
-        queryClient.invalidateQueries({ queryKey: ["unified-dashboard"], exact: false });
-        queryClient.invalidateQueries({ queryKey: ["manager-performance"] });
-        addProgressLog('Dashboard queries invalidated successfully');
-      } catch (invalidateError) {
-        addProgressLog(`Warning: Error invalidating dashboard queries: ${invalidateError}`);
-        // Don't fail the import if invalidation fails
-      }
-      
-      updateProgressStep('Finalizing...', 7, 7);
-      setProgressComplete();
-      
+      queryClient.invalidateQueries({ queryKey: ["unified-dashboard"] });
+      queryClient.invalidateQueries({ queryKey: ["unifiedDashboard"] });
+      queryClient.invalidateQueries({ queryKey: ["unified-dashboard"], exact: false });
+      queryClient.invalidateQueries({ queryKey: ["manager-performance"] });
+    } catch (invalidateError) {
+      // Don't fail the import if invalidation fails
+    }
+
+    toast({
+      title: `${importJobTitle(job.import_type)} Complete`,
+      description: job.import_type === 'sellers' || job.import_type === 'accounts'
+        ? `Successfully imported ${job.import_type} data. Dashboard will refresh automatically.`
+        : job.import_type === 'comprehensive_merge'
+        ? `Added ${totalImported}, updated ${totalUpdated} and deleted ${totalDeleted} records with ${totalErrors} errors. Dashboard will refresh automatically.`
+        : `Imported ${totalImported} records with ${totalErrors} errors. Dashboard will refresh automatically.`,
+      variant: totalErrors > 0 ? "destructive" : "default",
+    });
+  }
+
+  // Restore the data backed up before an interrupted replace import
+  async function handleRollbackImport() {
+    try {
+      setRollingBack(true);
+      await rollbackComprehensiveImport('Rolled back from settings');
+
+      queryClient.invalidateQueries({ queryKey: ["unified-dashboard"], exact: false });
+      queryClient.invalidateQueries({ queryKey: ["manager-performance"] });
+
       toast({
-        title: `Comprehensive Import Complete (${modeText})`,
-        description: `Imported ${totalImported} records with ${totalErrors} errors. Dashboard will refresh automatically.`,
-        variant: totalErrors > 0 ? "destructive" : "default",
+        title: "Import Rolled Back",
+        description: "All data was restored to how it was before the interrupted import.",
       });
     } catch (e: any) {
-      setProgressError(e?.message ?? String(e));
       toast({
-        title: "Comprehensive Import Failed",
+        title: "Rollback Failed",
         description: e?.message ?? String(e),
         variant: "destructive",
       });
     } finally {
-      setComprehensiveImporting(false);
-      setSelectedFile(null);
-    }
-  }
-
-  // Template validation function
-  async function validateTemplate(file: File, type: 'sellers' | 'accounts' | 'comprehensive' | 'comprehensive_add'): Promise<{ isValid: boolean; errors: string[]; warnings: string[] }> {
-    try {
-      const wb = await readSheet(file);
-      
-      switch (type) {
-        case 'sellers':
-          return validateSellersTemplate(wb);
-        case 'accounts':
-          return validateAccountsTemplate(wb);
-        case 'comprehensive':
-          return validateComprehensiveTemplate(wb, 'comprehensive');
-        case 'comprehensive_add':
-          return validateComprehensiveTemplate(wb, 'comprehensive_add');
-        default:
-          return { isValid: false, errors: ['Unknown import type'], warnings: [] };
-      }
-    } catch (error) {
-      return { 
-        isValid: false, 
-        errors: [`Failed to read Excel file: ${error}`], 
-        warnings: [] 
-      };
+      setRollingBack(false);
+      loadImportState();
     }
   }
 
@@ -642,25 +934,6 @@ export default function AdminSettingsPage() {
     }));
   }
 
-  function updateProgressStep(step: string, stepNumber: number, totalSteps: number) {
-    setImportProgress(prev => ({
-      ...prev,
-      currentStep: step,
-      currentStepNumber: stepNumber,
-      totalSteps: totalSteps,
-    }));
-    addProgressLog(`Step ${stepNumber}/${totalSteps}: ${step}`);
-  }
-
-  function setProgressComplete() {
-    setImportProgress(prev => ({
-      ...prev,
-      isComplete: true,
-      currentStep: 'Import Complete',
-    }));
-    addProgressLog('✅ Import completed successfully');
-  }
-
   function setProgressError(error: string) {
     setImportProgress(prev => ({
       ...prev,
@@ -698,7 +971,7 @@ export default function AdminSettingsPage() {
 
   // Export handler for complete accounts
   const handleExportCompleteAccounts = async () => {
-    if (!isMasterAdmin) {
+    if (!canEditSettings) {
       toast({
         title: 'Access Denied',
         description: 'You do not have permission to export data.',
@@ -709,7 +982,7 @@ export default function AdminSettingsPage() {
 
     setExporting(true);
     try {
-      const result = await exportCompleteAccountsWithAssignedSellers();
+      const result = await exportCompleteAccountsWithAssignedSellers(exportFormat);
       
       if (result) {
         toast({
@@ -736,7 +1009,7 @@ export default function AdminSettingsPage() {
 
   // Export handler for comprehensive data (all tables)
   const handleExportComprehensiveData = async () => {
-    if (!isMasterAdmin) {
+    if (!canEditSettings) {
       toast({
         title: 'Access Denied',
         description: 'You do not have permission to export data.',
@@ -747,7 +1020,7 @@ export default function AdminSettingsPage() {
 
     setExporting(true);
     try {
-      const result = await exportComprehensiveData();
+      const result = await exportComprehensiveData(exportFormat);
       
       if (result) {
         toast({
@@ -772,10 +1045,38 @@ export default function AdminSettingsPage() {
     }
   };
 
-  // Cancel import
+  // Download the selected file annotated with its row-level issues
+  function handleDownloadErrorReport(extraIssues: ImportRowIssue[] = []) {
+    if (!errorReport) {
+      return;
+    }
+    const fileName = downloadErrorReport(errorReport.workbook, [...errorReport.issues, ...extraIssues], errorReport.fileName);
+    toast({
+      title: 'Error Report Downloaded',
+      description: `Fix the flagged cells in ${fileName} and upload it again.`,
+    });
+  }
+
+  // Cancel import - also stops file parsing and a running import job
   function cancelImport() {
+    importAbortRef.current?.abort();
+    if (importJobId) {
+      cancelImportJob(importJobId).catch((e: any) => {
+        toast({
+          title: 'Could Not Cancel Import',
+          description: e?.message ?? String(e),
+          variant: 'destructive',
+        });
+      });
+    }
     setShowImportConfirmation(false);
     setSelectedFile(null);
+    setMappedUpload(null);
+    setPreparedImport(null);
+    setImportDiff(null);
+    setErrorReport(null);
+    setConfirmedMatches({});
+    setPreviewError(null);
     if (comprehensiveInputRef.current) {
       comprehensiveInputRef.current.value = '';
     }
@@ -784,7 +1085,7 @@ export default function AdminSettingsPage() {
     }
   }
 
-  if (!isMasterAdmin) {
+  if (!canEditSettings) {
     return (
       <div className="container mx-auto px-4 py-8">
         <div className="max-w-2xl mx-auto">
@@ -818,7 +1119,7 @@ export default function AdminSettingsPage() {
   }
 
   // Show loading while checking authentication
-  if (authLoading || (!user || !profile || profile.role !== 'MASTER')) {
+  if (authLoading || (!user || !profile || !canEditSettings)) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-slate-50 to-blue-50 flex items-center justify-center">
         <PageLoader text="Authenticating..." />
@@ -1271,6 +1572,139 @@ export default function AdminSettingsPage() {
           </CardContent>
         </Card>
 
+        {/* Fit Score Weights */}
+        <Card className="bg-white/80 backdrop-blur-sm border-slate-200 shadow-sm hover:shadow-md transition-shadow">
+          <CardHeader className="pb-4">
+            <CardTitle className="flex items-center gap-3 text-lg">
+              <div className="p-2 bg-emerald-100 rounded-lg">
+                <Target className="h-5 w-5 text-emerald-600" />
+              </div>
+              Account Fit Score Weights
+            </CardTitle>
+            <CardDescription className="text-slate-600">
+              Control how much each factor contributes to an account&apos;s match percentage for a seller. Weights are relative to each other; hover a match badge on the seller page to see the breakdown.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
+              {FIT_FACTORS.map(({ weightKey: key, label, description: hint }) => {
+                const totalWeight = FIT_WEIGHT_KEYS.reduce((sum, k) => sum + (fitScoreSettings[k] || 0), 0);
+                const share = totalWeight > 0 ? Math.round((fitScoreSettings[key] / totalWeight) * 100) : 0;
+                return (
+                  <div key={key} className="bg-gradient-to-r from-emerald-50 to-teal-50 border border-emerald-200 rounded-xl p-4 space-y-2">
+                    <Label htmlFor={`fit-${key}`} className="text-sm font-medium text-slate-700">
+                      {label}
+                    </Label>
+                    <div className="flex items-center gap-3">
+                      <Input
+                        id={`fit-${key}`}
+                        type="number"
+                        min={0}
+                        value={fitScoreSettings[key]}
+                        onChange={(e) => {
+                          const numValue = parseFloat(e.target.value);
+                          setFitScoreSettings(prev => ({ ...prev, [key]: Number.isNaN(numValue) ? 0 : numValue }));
+                        }}
+                        className="flex-1 h-10"
+                      />
+                      <Badge variant="outline" className="whitespace-nowrap px-2 py-1 bg-emerald-50 text-emerald-700 border-emerald-200">
+                        {share}%
+                      </Badge>
+                    </div>
+                    <p className="text-xs text-slate-500">{hint}</p>
+                  </div>
+                );
+              })}
+            </div>
+
+            <div className="max-w-sm space-y-2">
+              <Label htmlFor="fit-max-distance" className="text-sm font-medium text-slate-700">
+                Distance cut-off (km)
+              </Label>
+              <Input
+                id="fit-max-distance"
+                type="number"
+                min={1}
+                value={fitScoreSettings.max_distance_km}
+                onChange={(e) => {
+                  const numValue = parseFloat(e.target.value);
+                  setFitScoreSettings(prev => ({ ...prev, max_distance_km: Number.isNaN(numValue) ? 0 : numValue }));
+                }}
+                className="h-10"
+              />
+              <p className="text-xs text-slate-500">
+                Geography score falls linearly from full at the seller&apos;s location to zero at this distance. Accounts or sellers without coordinates get half the distance score.
+              </p>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Idle Timeout */}
+        <Card className="bg-white/80 backdrop-blur-sm border-slate-200 shadow-sm hover:shadow-md transition-shadow">
+          <CardHeader className="pb-4">
+            <CardTitle className="flex items-center gap-3 text-lg">
+              <div className="p-2 bg-amber-100 rounded-lg">
+                <Timer className="h-5 w-5 text-amber-600" />
+              </div>
+              Idle Timeout
+            </CardTitle>
+            <CardDescription className="text-slate-600">
+              Users are signed out after this long without any keyboard, mouse or touch input. A countdown dialog lets them stay signed in first.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 max-w-2xl">
+              <div className="space-y-2">
+                <Label htmlFor="idle-timeout-minutes" className="text-sm font-medium text-slate-700">
+                  Idle timeout (minutes)
+                </Label>
+                <Input
+                  id="idle-timeout-minutes"
+                  type="number"
+                  min={5}
+                  max={1440}
+                  value={sessionSettings.idle_timeout_minutes}
+                  onChange={(e) => {
+                    const numValue = parseInt(e.target.value, 10);
+                    setSessionSettings(prev => ({ ...prev, idle_timeout_minutes: Number.isNaN(numValue) ? 0 : numValue }));
+                  }}
+                  className="h-10"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="idle-warning-seconds" className="text-sm font-medium text-slate-700">
+                  Warning countdown (seconds)
+                </Label>
+                <Input
+                  id="idle-warning-seconds"
+                  type="number"
+                  min={10}
+                  max={600}
+                  value={sessionSettings.warning_seconds}
+                  onChange={(e) => {
+                    const numValue = parseInt(e.target.value, 10);
+                    setSessionSettings(prev => ({ ...prev, warning_seconds: Number.isNaN(numValue) ? 0 : numValue }));
+                  }}
+                  className="h-10"
+                />
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* File being read by the import worker */}
+        {preparingFile && (
+          <div className="flex items-center justify-between gap-3 p-4 bg-blue-50 border border-blue-200 rounded-xl text-sm text-blue-800">
+            <div className="flex items-center gap-3">
+              <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600"></div>
+              Reading and validating the file...
+            </div>
+            <Button variant="outline" size="sm" onClick={cancelImport}>
+              Cancel
+            </Button>
+          </div>
+        )}
+
         {/* 1. UPDATE MODE - Individual Data Import */}
         <Card className="bg-white/80 backdrop-blur-sm border-slate-200 shadow-sm hover:shadow-md transition-shadow">
           <CardHeader className="pb-4">
@@ -1309,7 +1743,7 @@ export default function AdminSettingsPage() {
                   <Button
                     variant="outline"
                     onClick={() => sellersInputRef.current?.click()}
-                    disabled={comprehensiveImporting}
+                    disabled={comprehensiveImporting || preparingFile}
                     className="flex items-center gap-2"
                   >
                     <Upload className="h-4 w-4" />
@@ -1320,7 +1754,7 @@ export default function AdminSettingsPage() {
                 <input
                   ref={sellersInputRef}
                   type="file"
-                  accept=".xlsx"
+                  accept={IMPORT_FILE_ACCEPT}
                   className="hidden"
                   onChange={(e) => handleFileSelection(e.target.files?.[0] ?? null, 'sellers')}
                 />
@@ -1358,7 +1792,7 @@ export default function AdminSettingsPage() {
                   <Button
                     variant="outline"
                     onClick={() => accountsInputRef.current?.click()}
-                    disabled={comprehensiveImporting}
+                    disabled={comprehensiveImporting || preparingFile}
                     className="flex items-center gap-2"
                   >
                     <Upload className="h-4 w-4" />
@@ -1369,7 +1803,7 @@ export default function AdminSettingsPage() {
                 <input
                   ref={accountsInputRef}
                   type="file"
-                  accept=".xlsx"
+                  accept={IMPORT_FILE_ACCEPT}
                   className="hidden"
                   onChange={(e) => handleFileSelection(e.target.files?.[0] ?? null, 'accounts')}
                 />
@@ -1425,7 +1859,7 @@ export default function AdminSettingsPage() {
                   onClick={() => {
                     comprehensiveAddInputRef.current?.click();
                   }}
-                  disabled={comprehensiveImporting}
+                  disabled={comprehensiveImporting || preparingFile}
                   className="flex items-center gap-2"
                 >
                   <Upload className="h-4 w-4" />
@@ -1436,7 +1870,7 @@ export default function AdminSettingsPage() {
               <input
                 ref={comprehensiveAddInputRef}
                 type="file"
-                accept=".xlsx"
+                accept={IMPORT_FILE_ACCEPT}
                 className="hidden"
                 onChange={(e) => {
                   handleFileSelection(e.target.files?.[0] ?? null, 'comprehensive_add');
@@ -1459,20 +1893,120 @@ export default function AdminSettingsPage() {
           </CardContent>
         </Card>
 
-        {/* 3. REPLACE MODE - Complete Data Replacement */}
+        {/* 3. MERGE MODE - Update Existing Records */}
+        <Card className="bg-white/80 backdrop-blur-sm border-slate-200 shadow-sm hover:shadow-md transition-shadow">
+          <CardHeader className="pb-4">
+            <CardTitle className="flex items-center gap-3 text-lg">
+              <div className="p-2 bg-purple-100 rounded-lg">
+                <GitMerge className="h-5 w-5 text-purple-600" />
+              </div>
+              3. MERGE MODE - Update Existing Records
+            </CardTitle>
+            <CardDescription className="text-slate-600">
+              Update existing records field by field and add new ones. Rows are matched on external IDs, then names. Any of the template sheets can be left out.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="bg-gradient-to-r from-purple-50 to-violet-50 border border-purple-200 rounded-xl p-6">
+              <div className="flex items-center gap-3 mb-4">
+                <div className="p-2 bg-purple-100 rounded-lg">
+                  <Database className="h-5 w-5 text-purple-600" />
+                </div>
+                <div>
+                  <h3 className="text-lg font-semibold text-purple-900">Merge Data</h3>
+                  <p className="text-sm text-purple-700">Update changed fields such as tier, industry or revenue</p>
+                </div>
+              </div>
+              
+              <div className="flex gap-3 mb-4">
+                <Button
+                  onClick={() => downloadComprehensiveTemplate()}
+                  className="flex items-center gap-2 bg-purple-600 hover:bg-purple-700 text-white"
+                >
+                  <Download className="h-4 w-4" />
+                  Download Template
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={() => {
+                    comprehensiveMergeInputRef.current?.click();
+                  }}
+                  disabled={comprehensiveImporting || preparingFile}
+                  className="flex items-center gap-2"
+                >
+                  <Upload className="h-4 w-4" />
+                  {comprehensiveImporting ? "Importing..." : "Merge Data"}
+                </Button>
+              </div>
+              
+              <input
+                ref={comprehensiveMergeInputRef}
+                type="file"
+                accept={IMPORT_FILE_ACCEPT}
+                className="hidden"
+                onChange={(e) => {
+                  handleFileSelection(e.target.files?.[0] ?? null, 'comprehensive_merge');
+                }}
+              />
+              
+              <div className="text-sm text-purple-800">
+                <p className="font-medium mb-2">Before importing you choose:</p>
+                <ul className="list-disc list-inside space-y-1 text-xs">
+                  <li>Which fields the file may overwrite, fill in or never touch</li>
+                  <li>Whether relationship statuses changed in the app are kept</li>
+                  <li>Whether records missing from the file are deleted</li>
+                </ul>
+                <p className="mt-2 text-xs text-purple-700">
+                  <strong>Default:</strong> Book finalized and statuses changed in the app are kept, and nothing is deleted
+                </p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* 4. REPLACE MODE - Complete Data Replacement */}
         <Card className="bg-white/80 backdrop-blur-sm border-slate-200 shadow-sm hover:shadow-md transition-shadow">
           <CardHeader className="pb-4">
             <CardTitle className="flex items-center gap-3 text-lg">
               <div className="p-2 bg-red-100 rounded-lg">
                 <Upload className="h-5 w-5 text-red-600" />
               </div>
-              3. REPLACE MODE - Complete Data Replacement
+              4. REPLACE MODE - Complete Data Replacement
             </CardTitle>
             <CardDescription className="text-slate-600">
-              Import all data with a single Excel file containing multiple tabs. This will DELETE ALL existing data and replace it completely.
+              Import all data with a single Excel file containing multiple tabs, or a zip of CSV, TSV or JSON Lines files named after the tabs (accounts.csv, relationship_map.csv, ...). This will DELETE ALL existing data and replace it completely.
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-6">
+            {/* Interrupted import waiting to be resumed or rolled back */}
+            {resumableImport && (
+              <div className="bg-amber-50 border border-amber-200 rounded-xl p-4 flex items-start justify-between gap-4">
+                <div className="flex items-start gap-3">
+                  <AlertTriangle className="h-5 w-5 text-amber-600 mt-0.5 flex-shrink-0" />
+                  <div className="text-sm text-amber-800 space-y-1">
+                    <p className="font-semibold text-amber-900">Interrupted import: {resumableImport.file_name}</p>
+                    <p>
+                      {resumableImport.completed_steps.length} of {Object.keys(COMPREHENSIVE_IMPORT_STEP_LABELS).length} steps completed
+                      {resumableImport.current_step && `, stopped during ${COMPREHENSIVE_IMPORT_STEP_LABELS[resumableImport.current_step]}`}.
+                      Import the same file again to resume, or roll back to restore the data as it was before.
+                    </p>
+                    {resumableImport.last_error && (
+                      <p className="text-xs text-amber-700">Last error: {resumableImport.last_error}</p>
+                    )}
+                  </div>
+                </div>
+                <Button
+                  variant="outline"
+                  onClick={handleRollbackImport}
+                  disabled={rollingBack || comprehensiveImporting}
+                  className="flex items-center gap-2 border-amber-300 text-amber-800 hover:bg-amber-100"
+                >
+                  <RotateCcw className="h-4 w-4" />
+                  {rollingBack ? "Rolling back..." : "Roll Back"}
+                </Button>
+              </div>
+            )}
+
             {/* Comprehensive Import Section */}
             <div className="bg-gradient-to-r from-green-50 to-blue-50 border border-green-200 rounded-xl p-6">
               <div className="flex items-center gap-3 mb-4">
@@ -1496,7 +2030,7 @@ export default function AdminSettingsPage() {
                 <Button
                   variant="outline"
                   onClick={() => comprehensiveInputRef.current?.click()}
-                  disabled={comprehensiveImporting}
+                  disabled={comprehensiveImporting || preparingFile}
                   className="flex items-center gap-2"
                 >
                   <Upload className="h-4 w-4" />
@@ -1507,7 +2041,7 @@ export default function AdminSettingsPage() {
                 <input
                 ref={comprehensiveInputRef}
                 type="file"
-                accept=".xlsx"
+                accept={IMPORT_FILE_ACCEPT}
                 className="hidden"
                 onChange={(e) => handleFileSelection(e.target.files?.[0] ?? null, 'comprehensive')}
               />
@@ -1535,14 +2069,14 @@ export default function AdminSettingsPage() {
           </CardContent>
         </Card>
 
-        {/* 4. EXPORT MODE - Export Complete Accounts with Assigned Sellers */}
+        {/* 5. EXPORT MODE - Export Complete Accounts with Assigned Sellers */}
         <Card className="bg-white/80 backdrop-blur-sm border-slate-200 shadow-sm hover:shadow-md transition-shadow">
           <CardHeader className="pb-4">
             <CardTitle className="flex items-center gap-3 text-lg">
               <div className="p-2 bg-blue-100 rounded-lg">
                 <Download className="h-5 w-5 text-blue-600" />
               </div>
-              4. EXPORT MODE - Export Complete Accounts with Assigned Sellers
+              5. EXPORT MODE - Export Complete Accounts with Assigned Sellers
             </CardTitle>
             <CardDescription className="text-slate-600">
               Export the complete accounts table with all fields plus assigned seller information. Includes ALL accounts - those with assigned sellers (all statuses) and those without assigned sellers (blank seller columns).
@@ -1569,6 +2103,16 @@ export default function AdminSettingsPage() {
                   <Download className="h-4 w-4" />
                   {exporting ? "Exporting..." : "Export Complete Accounts"}
                 </Button>
+                <Select value={exportFormat} onValueChange={(value) => setExportFormat(value as DataFileFormat)} disabled={exporting}>
+                  <SelectTrigger className="w-44">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DATA_FILE_FORMATS.map(format => (
+                      <SelectItem key={format} value={format}>{DATA_FILE_FORMAT_LABELS[format]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
               </div>
               
               <div className="text-sm text-blue-800">
@@ -1587,14 +2131,14 @@ export default function AdminSettingsPage() {
           </CardContent>
         </Card>
 
-        {/* 5. COMPREHENSIVE EXPORT MODE - Export All Tables (Like Replace Mode) */}
+        {/* 6. COMPREHENSIVE EXPORT MODE - Export All Tables (Like Replace Mode) */}
         <Card className="bg-white/80 backdrop-blur-sm border-slate-200 shadow-sm hover:shadow-md transition-shadow">
           <CardHeader className="pb-4">
             <CardTitle className="flex items-center gap-3 text-lg">
               <div className="p-2 bg-green-100 rounded-lg">
                 <Download className="h-5 w-5 text-green-600" />
               </div>
-              5. COMPREHENSIVE EXPORT MODE - Export All Tables (Like Replace Mode)
+              6. COMPREHENSIVE EXPORT MODE - Export All Tables (Like Replace Mode)
             </CardTitle>
             <CardDescription className="text-slate-600">
               Export all data tables in separate sheets, matching the comprehensive import template structure. Includes Accounts, Sellers, Managers, Relationships, Manager Teams, Chat Messages, and Reference tables.
@@ -1621,6 +2165,16 @@ export default function AdminSettingsPage() {
                   <Download className="h-4 w-4" />
                   {exporting ? "Exporting..." : "Export All Tables"}
                 </Button>
+                <Select value={exportFormat} onValueChange={(value) => setExportFormat(value as DataFileFormat)} disabled={exporting}>
+                  <SelectTrigger className="w-44">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DATA_FILE_FORMATS.map(format => (
+                      <SelectItem key={format} value={format}>{DATA_FILE_FORMAT_LABELS[format]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
               </div>
               
               <div className="text-sm text-green-800">
@@ -1637,6 +2191,9 @@ export default function AdminSettingsPage() {
               <li><strong>State_Reference:</strong> State codes reference</li>
               <li><strong>Instructions:</strong> Export instructions and field descriptions</li>
             </ul>
+                <p className="mt-2 text-xs text-green-700">
+                  CSV, TSV and JSON Lines exports download as a zip with one file per table; the reference and instruction tabs are Excel only.
+                </p>
                 <p className="mt-2 text-xs text-green-700">
                   <strong>Perfect for:</strong> Complete data backup, migration, or creating a comprehensive import template
                 </p>
@@ -1645,6 +2202,10 @@ export default function AdminSettingsPage() {
           </CardContent>
         </Card>
 
+        {canRunImport && <ImportLockPanel />}
+
+        {canRunImport && <LocationNormalizationPanel />}
+
 
           {/* Combined Settings Preview Section */}
           <Card className="mt-8 bg-white/80 backdrop-blur-sm border-slate-200 shadow-sm">
@@ -1774,15 +2335,26 @@ export default function AdminSettingsPage() {
 
           {/* Action Buttons */}
           <div className="mt-8 flex justify-between">
-            <Link href="/admin/audit">
-              <Button 
-                variant="outline"
-                className="flex items-center gap-2 px-6 py-3 text-lg font-medium"
-              >
-                <Shield className="h-5 w-5" />
-                View Audit Trail
-              </Button>
-            </Link>
+            <div className="flex items-center gap-3">
+              <Link href="/admin/audit">
+                <Button 
+                  variant="outline"
+                  className="flex items-center gap-2 px-6 py-3 text-lg font-medium"
+                >
+                  <Shield className="h-5 w-5" />
+                  View Audit Trail
+                </Button>
+              </Link>
+              <Link href="/admin/imports">
+                <Button 
+                  variant="outline"
+                  className="flex items-center gap-2 px-6 py-3 text-lg font-medium"
+                >
+                  <History className="h-5 w-5" />
+                  Import History
+                </Button>
+              </Link>
+            </div>
             
             <Button 
               onClick={handleSave} 
@@ -1798,29 +2370,55 @@ export default function AdminSettingsPage() {
 
       {/* Import Confirmation Dialog */}
             <AlertDialog open={showImportConfirmation} onOpenChange={setShowImportConfirmation}>
-              <AlertDialogContent className="max-w-2xl">
+              <AlertDialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
                 <AlertDialogHeader>
                   <AlertDialogTitle className="flex items-center gap-3 text-xl">
                     {importType === 'comprehensive_add' ? (
                       <div className="p-2 bg-green-100 rounded-lg">
                         <Database className="h-6 w-6 text-green-600" />
                       </div>
+                    ) : importType === 'comprehensive_merge' ? (
+                      <div className="p-2 bg-purple-100 rounded-lg">
+                        <GitMerge className="h-6 w-6 text-purple-600" />
+                      </div>
                     ) : (
                       <div className="p-2 bg-red-100 rounded-lg">
                         <Trash2 className="h-6 w-6 text-red-600" />
                       </div>
                     )}
-                    {importType === 'comprehensive_add' ? 'Add New Data' : 'Data Import Warning'}
+                    {importType === 'comprehensive_add' ? 'Add New Data' : importType === 'comprehensive_merge' ? 'Merge Data' : 'Data Import Warning'}
                   </AlertDialogTitle>
                   <AlertDialogDescription className="text-base mt-4">
                     {importType === 'comprehensive_add' 
                       ? 'This import will ADD new data while preserving all existing records. New Excel data will be added to the database without affecting any current records. This is safe for incremental updates.'
+                      : importType === 'comprehensive_merge'
+                      ? 'This import will UPDATE the records the file matches and add the rest. Choose below which fields the file may change and whether records missing from the file are deleted.'
                       : 'This import will DELETE ALL existing data in the database. The new Excel data will completely replace all current records. This action cannot be undone.'
                     }
                   </AlertDialogDescription>
                   
                   <div className="mt-4">
-                    {importType === 'comprehensive_add' ? (
+                    {importType === 'comprehensive_merge' ? (
+                      <div className={`${mergeOptions.deleteMissing ? 'bg-red-50 border-red-200' : 'bg-purple-50 border-purple-200'} border rounded-lg p-4 mb-4`}>
+                        <div className="flex items-start gap-3">
+                          {mergeOptions.deleteMissing ? (
+                            <AlertTriangle className="h-5 w-5 text-red-600 mt-0.5 flex-shrink-0" />
+                          ) : (
+                            <CheckCircle className="h-5 w-5 text-purple-600 mt-0.5 flex-shrink-0" />
+                          )}
+                          <div>
+                            <p className={`font-semibold mb-2 ${mergeOptions.deleteMissing ? 'text-red-900' : 'text-purple-900'}`}>
+                              {mergeOptions.deleteMissing
+                                ? 'Records missing from the sheets in this file will be DELETED'
+                                : 'Records missing from the file are kept'}
+                            </p>
+                            <p className={`text-sm ${mergeOptions.deleteMissing ? 'text-red-800' : 'text-purple-800'}`}>
+                              A snapshot of current assignments is taken before the merge starts.
+                            </p>
+                          </div>
+                        </div>
+                      </div>
+                    ) : importType === 'comprehensive_add' ? (
                       <div className="bg-green-50 border border-green-200 rounded-lg p-4 mb-4">
                         <div className="flex items-start gap-3">
                           <CheckCircle className="h-5 w-5 text-green-600 mt-0.5 flex-shrink-0" />
@@ -1843,7 +2441,7 @@ export default function AdminSettingsPage() {
                               This import will DELETE ALL existing data in the database
                             </p>
                             <p className="text-red-800 text-sm">
-                              The new Excel data will completely replace all current records. This action cannot be undone.
+                              The new Excel data will completely replace all current records. Current data is backed up first and restored automatically if any step fails.
                             </p>
                           </div>
                         </div>
@@ -1853,26 +2451,34 @@ export default function AdminSettingsPage() {
                     <div className="space-y-3">
                       <h4 className="font-semibold text-slate-900 flex items-center gap-2">
                         <Database className="h-4 w-4" />
-                        {importType === 'comprehensive_add' ? 'Data that will be added:' : 'Data that will be deleted:'}
+                        {importType === 'comprehensive_add' ? 'Data that will be added:' : importType === 'comprehensive_merge' ? 'Merge options:' : 'Data that will be deleted:'}
                       </h4>
-                      <div className="grid grid-cols-1 md:grid-cols-2 gap-3 text-sm">
-                        <div className="flex items-center gap-2 p-2 bg-slate-50 rounded-lg">
-                          <div className={`w-2 h-2 rounded-full ${importType === 'comprehensive_add' ? 'bg-green-500' : 'bg-red-500'}`}></div>
-                          <span>All accounts and revenue data</span>
-                        </div>
-                        <div className="flex items-center gap-2 p-2 bg-slate-50 rounded-lg">
-                          <div className={`w-2 h-2 rounded-full ${importType === 'comprehensive_add' ? 'bg-green-500' : 'bg-red-500'}`}></div>
-                          <span>All sellers and assignments</span>
-                        </div>
-                        <div className="flex items-center gap-2 p-2 bg-slate-50 rounded-lg">
-                          <div className={`w-2 h-2 rounded-full ${importType === 'comprehensive_add' ? 'bg-green-500' : 'bg-red-500'}`}></div>
-                          <span>All managers and teams</span>
-                        </div>
-                        <div className="flex items-center gap-2 p-2 bg-slate-50 rounded-lg">
-                          <div className={`w-2 h-2 rounded-full ${importType === 'comprehensive_add' ? 'bg-green-500' : 'bg-red-500'}`}></div>
-                          <span>All account-seller relationships</span>
+                      {importType === 'comprehensive_merge' ? (
+                        <MergeOptionsPanel
+                          options={mergeOptions}
+                          onChange={setMergeOptions}
+                          disabled={comprehensiveImporting}
+                        />
+                      ) : (
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-3 text-sm">
+                          <div className="flex items-center gap-2 p-2 bg-slate-50 rounded-lg">
+                            <div className={`w-2 h-2 rounded-full ${importType === 'comprehensive_add' ? 'bg-green-500' : 'bg-red-500'}`}></div>
+                            <span>All accounts and revenue data</span>
+                          </div>
+                          <div className="flex items-center gap-2 p-2 bg-slate-50 rounded-lg">
+                            <div className={`w-2 h-2 rounded-full ${importType === 'comprehensive_add' ? 'bg-green-500' : 'bg-red-500'}`}></div>
+                            <span>All sellers and assignments</span>
+                          </div>
+                          <div className="flex items-center gap-2 p-2 bg-slate-50 rounded-lg">
+                            <div className={`w-2 h-2 rounded-full ${importType === 'comprehensive_add' ? 'bg-green-500' : 'bg-red-500'}`}></div>
+                            <span>All managers and teams</span>
+                          </div>
+                          <div className="flex items-center gap-2 p-2 bg-slate-50 rounded-lg">
+                            <div className={`w-2 h-2 rounded-full ${importType === 'comprehensive_add' ? 'bg-green-500' : 'bg-red-500'}`}></div>
+                            <span>All account-seller relationships</span>
+                          </div>
                         </div>
-                      </div>
+                      )}
                       
                       {selectedFile && (
                         <div className={`mt-4 p-3 border rounded-lg ${importType === 'comprehensive_add' ? 'bg-green-50 border-green-200' : 'bg-blue-50 border-blue-200'}`}>
@@ -1881,6 +2487,50 @@ export default function AdminSettingsPage() {
                           </p>
                         </div>
                       )}
+
+                      {importType === 'comprehensive' && resumableImport && selectedFileHash && (
+                        resumableImport.file_hash === selectedFileHash ? (
+                          <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg">
+                            <p className="text-sm text-amber-800">
+                              <strong>Resuming interrupted import.</strong>{' '}
+                              {resumableImport.completed_steps.length > 0
+                                ? `Already completed: ${resumableImport.completed_steps.map(step => COMPREHENSIVE_IMPORT_STEP_LABELS[step]).join(', ')}.`
+                                : 'No steps were completed yet.'}
+                            </p>
+                          </div>
+                        ) : (
+                          <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+                            <p className="text-sm text-red-800">
+                              An interrupted import of <strong>{resumableImport.file_name}</strong> is waiting. Import that file to resume it, or roll it back before importing a different file.
+                            </p>
+                          </div>
+                        )
+                      )}
+                    </div>
+
+                    {/* Dry-run diff against current data */}
+                    <div className="mt-6 space-y-3">
+                      <h4 className="font-semibold text-slate-900 flex items-center gap-2">
+                        <Database className="h-4 w-4" />
+                        Dry-Run Preview
+                      </h4>
+                      {previewing ? (
+                        <div className="flex items-center gap-3 p-4 bg-slate-50 border border-slate-200 rounded-lg text-sm text-slate-600">
+                          <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600"></div>
+                          Comparing the file with current data...
+                        </div>
+                      ) : previewError ? (
+                        <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+                          <p className="font-medium">Could not build the preview</p>
+                          <p className="text-xs mt-1">{previewError}</p>
+                        </div>
+                      ) : importDiff ? (
+                        <ImportDiffPreview
+                          diff={importDiff}
+                          confirmedMatches={confirmedMatches}
+                          onConfirmedMatchesChange={setConfirmedMatches}
+                        />
+                      ) : null}
                     </div>
                   </div>
                 </AlertDialogHeader>
@@ -1891,18 +2541,33 @@ export default function AdminSettingsPage() {
                   >
                     Cancel Import
                   </AlertDialogCancel>
+                  {errorReport && (errorReport.issues.length > 0 || (importDiff?.issues.length ?? 0) > 0) && (
+                    <Button
+                      variant="outline"
+                      onClick={() => handleDownloadErrorReport(importDiff?.issues)}
+                      className="flex items-center gap-2"
+                    >
+                      <Download className="h-4 w-4" />
+                      Download Error Report
+                    </Button>
+                  )}
                   <AlertDialogAction 
                     onClick={() => {
                       handleComprehensiveImport();
                     }}
-                    disabled={comprehensiveImporting}
-                    className={`flex items-center gap-2 ${importType === 'comprehensive_add' ? 'bg-green-600 hover:bg-green-700' : 'bg-red-600 hover:bg-red-700'} text-white`}
+                    disabled={comprehensiveImporting || previewing}
+                    className={`flex items-center gap-2 ${importType === 'comprehensive_add' ? 'bg-green-600 hover:bg-green-700' : importType === 'comprehensive_merge' && !mergeOptions.deleteMissing ? 'bg-purple-600 hover:bg-purple-700' : 'bg-red-600 hover:bg-red-700'} text-white`}
                   >
                     {comprehensiveImporting ? (
                       <>
                         <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
                         Importing...
                       </>
+                    ) : importType === 'comprehensive_merge' ? (
+                      <>
+                        <GitMerge className="h-4 w-4" />
+                        {mergeOptions.deleteMissing ? 'Yes, Merge & Delete Missing' : 'Yes, Merge Data'}
+                      </>
                     ) : importType === 'comprehensive_add' ? (
                       <>
                         <Database className="h-4 w-4" />
@@ -1963,7 +2628,7 @@ export default function AdminSettingsPage() {
               ) : (
                 <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 mb-4">
                   <p className="text-blue-800 font-medium">Import in progress...</p>
-                  <p className="text-blue-700 text-sm mt-2">Please wait while we process your data.</p>
+                  <p className="text-blue-700 text-sm mt-2">The import runs on the server - you can leave this page and come back to follow it.</p>
                 </div>
               )}
             </div>
@@ -2016,10 +2681,31 @@ export default function AdminSettingsPage() {
           </div>
 
           <AlertDialogFooter className="gap-3">
+            {importJobId && !importProgress.isComplete && !importProgress.hasError && (
+              <Button
+                variant="outline"
+                onClick={cancelImport}
+                className="flex items-center gap-2"
+              >
+                Cancel Import
+              </Button>
+            )}
+            {(importProgress.isComplete || importProgress.hasError) && errorReport &&
+              (errorReport.issues.length > 0 || issuesFromImportResults(importResults).length > 0) && (
+              <Button
+                variant="outline"
+                onClick={() => handleDownloadErrorReport(issuesFromImportResults(importResults))}
+                className="flex items-center gap-2"
+              >
+                <Download className="h-4 w-4" />
+                Download Error Report
+              </Button>
+            )}
             {(importProgress.isComplete || importProgress.hasError) && (
               <AlertDialogAction 
                 onClick={() => {
                   setShowProgressModal(false);
+                  setErrorReport(null);
                   resetProgress(); // Reset progress state for next import
                 }}
                 className="flex items-center gap-2"
@@ -2032,6 +2718,24 @@ export default function AdminSettingsPage() {
         </AlertDialogContent>
       </AlertDialog>
 
+      {/* Column Mapping Wizard */}
+      <ColumnMappingWizard
+        open={!!mappingSource}
+        workbook={mappingSource?.workbook ?? null}
+        fileName={mappingSource?.file.name ?? ''}
+        importType={mappingSource?.type ?? 'comprehensive'}
+        userId={profile?.id}
+        onCancel={() => {
+          setMappingSource(null);
+          resetProgress();
+        }}
+        onApply={(file, mapping) => {
+          if (!mappingSource) return;
+          setMappingSource(null);
+          handleFileSelection(file, mappingSource.type, { original: mappingSource.file, mapping });
+        }}
+      />
+
       {/* Template Validation Modal */}
       <AlertDialog open={showValidationModal} onOpenChange={setShowValidationModal}>
         <AlertDialogContent className="max-w-2xl">
@@ -2048,19 +2752,19 @@ export default function AdminSettingsPage() {
             </AlertDialogTitle>
             <AlertDialogDescription className="text-base mt-4">
               {validationErrors.length > 0 
-                ? 'The Excel file doesn\'t match the expected template. Please check the errors below and use the correct template format.'
-                : 'The Excel file has some warnings but can still be processed. Please review the warnings below.'
+                ? 'The file doesn\'t match the expected template. Please check the errors below and use the correct template format.'
+                : 'The file has some warnings but can still be processed. Please review the warnings below.'
               }
             </AlertDialogDescription>
             
             <div className="mt-4">
               {validationErrors.length > 0 ? (
                 <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-4">
-                  <p className="text-red-800 font-medium">The Excel file doesn't match the expected template:</p>
+                  <p className="text-red-800 font-medium">The file doesn't match the expected template:</p>
                 </div>
               ) : (
                 <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 mb-4">
-                  <p className="text-yellow-800 font-medium">The Excel file has some warnings but can still be processed:</p>
+                  <p className="text-yellow-800 font-medium">The file has some warnings but can still be processed:</p>
                 </div>
               )}
             </div>
@@ -2114,6 +2818,9 @@ export default function AdminSettingsPage() {
                 <li>• Download the correct template using the "Download Template" button</li>
                 <li>• Fill in your data using the template format</li>
                 <li>• Make sure all required columns are present</li>
+                {errorReport && errorReport.issues.length > 0 && (
+                  <li>• Or download the error report, fix the flagged cells and upload it again</li>
+                )}
                 <li>• Try uploading again</li>
               </ul>
             </div>
@@ -2126,18 +2833,26 @@ export default function AdminSettingsPage() {
             >
               Cancel
             </AlertDialogCancel>
+            {errorReport && errorReport.issues.length > 0 && (
+              <Button
+                variant="outline"
+                onClick={() => handleDownloadErrorReport()}
+                className="flex items-center gap-2"
+              >
+                <Download className="h-4 w-4" />
+                Download Error Report
+              </Button>
+            )}
             {validationErrors.length === 0 && validationWarnings.length > 0 && (
               <AlertDialogAction 
                 onClick={() => {
                   setShowValidationModal(false);
                   // Proceed with import despite warnings
-                  if (selectedFile) {
-                    setSelectedFile(selectedFile);
-                    setImportType(importType);
-                    if (importType === 'comprehensive' || importType === 'comprehensive_add') {
+                  if (preparedImport && selectedFile) {
+                    if (importType === 'comprehensive' || importType === 'comprehensive_add' || importType === 'comprehensive_merge') {
                       setShowImportConfirmation(true);
                     } else {
-                      handleIndividualImport(selectedFile, importType);
+                      handleIndividualImport(selectedFile, importType, mappedUpload);
                     }
                   }
                 }}
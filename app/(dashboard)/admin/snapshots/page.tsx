@@ -0,0 +1,671 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { usePermissions } from '@/hooks/use-permissions';
+import { useRouter } from 'next/navigation';
+import { useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
+import {
+  ArrowLeft,
+  ArrowRight,
+  Home,
+  Shield,
+  RefreshCw,
+  History,
+  Camera,
+  GitCompare,
+  RotateCcw,
+  Trash2,
+} from 'lucide-react';
+import Link from 'next/link';
+import { supabase } from '@/integrations/supabase/client';
+import { PageLoader } from '@/components/ui/loader';
+import { LoadingTimeout } from '@/components/ui/loading-timeout';
+import { useAudit } from '@/hooks/use-audit';
+import { AUDIT_ACTIONS, AUDIT_ENTITIES } from '@/lib/audit';
+import {
+  getBookSnapshots,
+  createBookSnapshot,
+  restoreBookSnapshot,
+  deleteBookSnapshot,
+  compareBookSnapshots,
+  LIVE_SNAPSHOT,
+  BookSnapshot,
+  SnapshotAccountChange,
+  SnapshotReason,
+  SnapshotSellerComparison,
+  SkippedSnapshotRecord,
+} from '@/lib/book-snapshots';
+
+const formatCurrency = (amount: number) => {
+  const sign = amount < 0 ? '-' : '';
+  const value = Math.abs(amount);
+  return value >= 1_000_000
+    ? `${sign}$${(value / 1_000_000).toFixed(1)}M`
+    : value >= 1_000
+    ? `${sign}$${(value / 1_000).toFixed(0)}K`
+    : `${sign}$${value.toFixed(0)}`;
+};
+
+const formatStatus = (status: string | null) => {
+  if (!status) return 'Unassigned';
+  return status.replace(/_/g, ' ').replace(/\b\w/g, c => c.toUpperCase());
+};
+
+// Toast suffix listing what a restore left out
+const describeSkipped = (skipped: SkippedSnapshotRecord[]) => {
+  if (skipped.length === 0) return '';
+  const relationships = skipped.reduce((sum, record) => sum + record.skipped_relationships, 0);
+  const names = skipped.slice(0, 5).map(record => record.record_name).join(', ');
+  const more = skipped.length > 5 ? ` and ${skipped.length - 5} more` : '';
+  return ` ${skipped.length} accounts and sellers no longer in live data were skipped with ${relationships} relationships: ${names}${more}.`;
+};
+
+const REASON_LABELS: Record<SnapshotReason, string> = {
+  manual: 'Manual',
+  import: 'Before import',
+  finalization: 'Before finalization',
+  restore: 'Before restore',
+  scenario: 'Before scenario promotion',
+};
+
+// Accounts listed per seller before collapsing into a count
+const MAX_LISTED_ACCOUNTS = 5;
+
+function AccountChangeList({ changes, tone }: { changes: SnapshotAccountChange[]; tone: 'green' | 'red' | 'amber' }) {
+  if (changes.length === 0) {
+    return <span className="text-xs text-slate-400">—</span>;
+  }
+
+  const toneClass = tone === 'green' ? 'text-green-800' : tone === 'red' ? 'text-red-800' : 'text-amber-800';
+
+  return (
+    <ul className={`space-y-0.5 text-xs ${toneClass}`}>
+      {changes.slice(0, MAX_LISTED_ACCOUNTS).map(change => (
+        <li key={change.account_id} className="truncate max-w-[220px]" title={change.account_name}>
+          {change.account_name}
+          {tone === 'amber' && (
+            <span className="text-slate-500"> ({formatStatus(change.status_before)} → {formatStatus(change.status_after)})</span>
+          )}
+        </li>
+      ))}
+      {changes.length > MAX_LISTED_ACCOUNTS && (
+        <li className="text-slate-500 italic">…and {changes.length - MAX_LISTED_ACCOUNTS} more</li>
+      )}
+    </ul>
+  );
+}
+
+export default function SnapshotsPage() {
+  const { user, profile, loading } = useAuth();
+  const { toast } = useToast();
+  const { can } = usePermissions();
+  const router = useRouter();
+  const queryClient = useQueryClient();
+  const { logCreate, logDelete, logEvent } = useAudit();
+  const [snapshots, setSnapshots] = useState<BookSnapshot[]>([]);
+  const [dataLoading, setDataLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [showCreateDialog, setShowCreateDialog] = useState(false);
+  const [snapshotName, setSnapshotName] = useState('');
+  const [snapshotDescription, setSnapshotDescription] = useState('');
+  const [creating, setCreating] = useState(false);
+  const [pendingAction, setPendingAction] = useState<{ snapshot: BookSnapshot; action: 'restore' | 'delete' } | null>(null);
+  const [actionRunning, setActionRunning] = useState(false);
+  const [compareFrom, setCompareFrom] = useState<string>('');
+  const [compareTo, setCompareTo] = useState<string>(LIVE_SNAPSHOT);
+  const [comparison, setComparison] = useState<SnapshotSellerComparison[] | null>(null);
+  const [comparing, setComparing] = useState(false);
+
+  const canManageSnapshots = can('snapshot.manage');
+
+  // Redirect if not authenticated
+  useEffect(() => {
+    if (!loading && !user) {
+      router.push('/auth');
+    }
+  }, [user, loading, router]);
+
+  const fetchSnapshots = useCallback(async () => {
+    try {
+      setDataLoading(true);
+      const data = await getBookSnapshots();
+      setSnapshots(data);
+      setCompareFrom(prev => prev || data[0]?.id || '');
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to load snapshots',
+        variant: 'destructive',
+      });
+    } finally {
+      setDataLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    if (canManageSnapshots) {
+      fetchSnapshots();
+    }
+  }, [canManageSnapshots, fetchSnapshots]);
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    try {
+      await fetchSnapshots();
+    } finally {
+      setRefreshing(false);
+    }
+  };
+
+  const snapshotLabel = (id: string) => {
+    if (id === LIVE_SNAPSHOT) return 'Live data';
+    const snapshot = snapshots.find(s => s.id === id);
+    return snapshot ? `${snapshot.name} (${new Date(snapshot.created_at).toLocaleString()})` : 'Unknown snapshot';
+  };
+
+  const runComparison = async (fromId: string, toId: string) => {
+    if (!fromId || !toId || fromId === toId) return;
+
+    setComparing(true);
+    try {
+      setComparison(await compareBookSnapshots(fromId, toId));
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: `Failed to compare snapshots: ${error instanceof Error ? error.message : (error as any)?.message || 'Unknown error'}`,
+        variant: 'destructive',
+      });
+    } finally {
+      setComparing(false);
+    }
+  };
+
+  const handleCompareWithLive = (snapshot: BookSnapshot) => {
+    setCompareFrom(snapshot.id);
+    setCompareTo(LIVE_SNAPSHOT);
+    runComparison(snapshot.id, LIVE_SNAPSHOT);
+  };
+
+  const closeCreateDialog = () => {
+    setShowCreateDialog(false);
+    setSnapshotName('');
+    setSnapshotDescription('');
+  };
+
+  const handleCreateSnapshot = async () => {
+    if (!snapshotName.trim()) return;
+
+    setCreating(true);
+    try {
+      const snapshot = await createBookSnapshot(snapshotName, 'manual', snapshotDescription);
+      await logCreate(AUDIT_ENTITIES.SNAPSHOT, snapshot.id, {
+        name: snapshot.name,
+        description: snapshot.description,
+        relationship_count: snapshot.relationship_count,
+      });
+
+      toast({
+        title: 'Snapshot Created',
+        description: `Saved ${snapshot.relationship_count} relationships across ${snapshot.seller_count} sellers.`,
+      });
+
+      closeCreateDialog();
+      await fetchSnapshots();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: `Failed to create snapshot: ${error instanceof Error ? error.message : (error as any)?.message || 'Unknown error'}`,
+        variant: 'destructive',
+      });
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handlePendingAction = async () => {
+    if (!pendingAction) return;
+
+    const { snapshot, action } = pendingAction;
+    setActionRunning(true);
+    try {
+      const auditData = {
+        name: snapshot.name,
+        reason: snapshot.reason,
+        created_at: snapshot.created_at,
+        relationship_count: snapshot.relationship_count,
+      };
+
+      let skipped: SkippedSnapshotRecord[] = [];
+      if (action === 'restore') {
+        skipped = await restoreBookSnapshot(snapshot.id);
+        await logEvent(AUDIT_ACTIONS.RESTORE, AUDIT_ENTITIES.SNAPSHOT, snapshot.id, null, {
+          ...auditData,
+          skipped_records: skipped,
+        });
+
+        // Health and totals come from the performance views
+        try {
+          await supabase.rpc('refresh_performance_views_simple');
+        } catch (refreshError) {
+          // Don't fail the restore if refresh fails
+        }
+
+        queryClient.invalidateQueries({ queryKey: ['unified-dashboard'], exact: false });
+        queryClient.invalidateQueries({ queryKey: ['manager-performance'] });
+        queryClient.invalidateQueries({ queryKey: ['sellerDetail'], exact: false });
+      } else {
+        await deleteBookSnapshot(snapshot.id);
+        await logDelete(AUDIT_ENTITIES.SNAPSHOT, snapshot.id, auditData);
+
+        if (compareFrom === snapshot.id) setCompareFrom('');
+        if (compareTo === snapshot.id) setCompareTo(LIVE_SNAPSHOT);
+      }
+
+      toast({
+        title: action === 'restore' ? 'Snapshot Restored' : 'Snapshot Deleted',
+        description: action === 'restore'
+          ? `Live assignments now match "${snapshot.name}". The previous state was saved as a snapshot.${describeSkipped(skipped)}`
+          : `"${snapshot.name}" was deleted.`,
+      });
+
+      setPendingAction(null);
+      setComparison(null);
+      await fetchSnapshots();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: `Failed to ${action} snapshot: ${error instanceof Error ? error.message : (error as any)?.message || 'Unknown error'}`,
+        variant: 'destructive',
+      });
+    } finally {
+      setActionRunning(false);
+    }
+  };
+
+  // Show loading while checking authentication
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-slate-50 to-blue-50 flex items-center justify-center">
+        <LoadingTimeout timeout={15000}>
+          <PageLoader text="Authenticating..." />
+        </LoadingTimeout>
+      </div>
+    );
+  }
+
+  // Don't render anything if not authenticated (will redirect)
+  if (!user) {
+    return null;
+  }
+
+  if (!canManageSnapshots) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-2xl mx-auto">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Shield className="h-5 w-5 text-red-500" />
+                Access Denied
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <p className="text-slate-600">
+                You do not have permission to access snapshots.
+                Your role does not include comparing and restoring book-of-business snapshots.
+              </p>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    );
+  }
+
+  const compareOptions = [
+    { id: LIVE_SNAPSHOT, label: 'Live data' },
+    ...snapshots.map(snapshot => ({ id: snapshot.id, label: snapshotLabel(snapshot.id) })),
+  ];
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-blue-50">
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-7xl mx-auto">
+          {/* Header */}
+          <div className="mb-8">
+            <div className="flex items-center gap-4 mb-6">
+              <Link
+                href="/dashboard"
+                className="flex items-center gap-2 text-slate-600 hover:text-slate-900 transition-colors"
+              >
+                <ArrowLeft className="h-4 w-4" />
+                <span className="text-sm font-medium">Back to Dashboard</span>
+              </Link>
+              <div className="h-6 w-px bg-slate-300" />
+              <Link
+                href="/dashboard"
+                className="flex items-center gap-2 text-slate-600 hover:text-slate-900 transition-colors"
+              >
+                <Home className="h-4 w-4" />
+                <span className="text-sm font-medium">Dashboard</span>
+              </Link>
+            </div>
+
+            <div className="bg-white/80 backdrop-blur-sm rounded-2xl p-8 border border-slate-200 shadow-sm">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-3">
+                  <div className="p-3 bg-blue-100 rounded-xl">
+                    <History className="h-6 w-6 text-blue-600" />
+                  </div>
+                  <div>
+                    <h1 className="text-3xl font-bold text-slate-900">Book Snapshots</h1>
+                    <p className="text-slate-600 mt-1">
+                      Point-in-time copies of every assignment, revenue figure and seller attribute
+                    </p>
+                  </div>
+                </div>
+
+                <div className="flex items-center gap-2">
+                  <Button
+                    variant="outline"
+                    onClick={handleRefresh}
+                    disabled={refreshing}
+                    className="flex items-center gap-2"
+                  >
+                    <RefreshCw className={`h-4 w-4 ${refreshing ? 'animate-spin' : ''}`} />
+                    Refresh
+                  </Button>
+                  <Button
+                    onClick={() => setShowCreateDialog(true)}
+                    className="flex items-center gap-2"
+                  >
+                    <Camera className="h-4 w-4" />
+                    Take Snapshot
+                  </Button>
+                </div>
+              </div>
+            </div>
+          </div>
+
+          {/* Snapshot list */}
+          <Card className="bg-white/80 backdrop-blur-sm border-slate-200 shadow-sm mb-8">
+            <CardHeader className="pb-4">
+              <CardTitle className="text-lg">Snapshots</CardTitle>
+              <CardDescription className="text-slate-600">
+                Snapshots are also taken automatically before every import and every book finalization.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {dataLoading ? (
+                <PageLoader text="Loading snapshots..." />
+              ) : snapshots.length === 0 ? (
+                <div className="text-center py-12 text-slate-500">
+                  <History className="h-10 w-10 mx-auto mb-3 text-slate-300" />
+                  <p>No snapshots yet</p>
+                </div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Name</TableHead>
+                      <TableHead>Trigger</TableHead>
+                      <TableHead>Created</TableHead>
+                      <TableHead className="text-right">Relationships</TableHead>
+                      <TableHead className="text-right">Accounts</TableHead>
+                      <TableHead className="text-right">Sellers</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {snapshots.map((snapshot) => (
+                      <TableRow key={snapshot.id}>
+                        <TableCell>
+                          <div className="font-medium text-slate-900">{snapshot.name}</div>
+                          {snapshot.description && (
+                            <div className="text-xs text-slate-500">{snapshot.description}</div>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant={snapshot.reason === 'manual' ? 'default' : 'secondary'}>
+                            {REASON_LABELS[snapshot.reason] ?? snapshot.reason}
+                          </Badge>
+                        </TableCell>
+                        <TableCell>
+                          <div className="text-sm text-slate-900">{new Date(snapshot.created_at).toLocaleString()}</div>
+                          <div className="text-xs text-slate-500">{snapshot.creator?.name ?? 'System'}</div>
+                        </TableCell>
+                        <TableCell className="text-right">{snapshot.relationship_count.toLocaleString()}</TableCell>
+                        <TableCell className="text-right">{snapshot.account_count.toLocaleString()}</TableCell>
+                        <TableCell className="text-right">{snapshot.seller_count.toLocaleString()}</TableCell>
+                        <TableCell className="text-right">
+                          <div className="flex justify-end gap-2">
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => handleCompareWithLive(snapshot)}
+                              disabled={comparing}
+                            >
+                              <GitCompare className="h-4 w-4 mr-1" />
+                              Compare
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => setPendingAction({ snapshot, action: 'restore' })}
+                            >
+                              <RotateCcw className="h-4 w-4 mr-1" />
+                              Restore
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                              onClick={() => setPendingAction({ snapshot, action: 'delete' })}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Comparison */}
+          <Card className="bg-white/80 backdrop-blur-sm border-slate-200 shadow-sm">
+            <CardHeader className="pb-4">
+              <CardTitle className="text-lg flex items-center gap-2">
+                <GitCompare className="h-5 w-5" />
+                Compare
+              </CardTitle>
+              <CardDescription className="text-slate-600">
+                Accounts each seller gained, lost or changed status between two points in time, with book revenue deltas.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="flex flex-wrap items-end gap-3">
+                <div className="space-y-1">
+                  <Label>From</Label>
+                  <Select value={compareFrom} onValueChange={setCompareFrom}>
+                    <SelectTrigger className="w-[320px]">
+                      <SelectValue placeholder="Select a snapshot" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {compareOptions.map(option => (
+                        <SelectItem key={option.id} value={option.id}>{option.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <ArrowRight className="h-4 w-4 text-slate-400 mb-3" />
+                <div className="space-y-1">
+                  <Label>To</Label>
+                  <Select value={compareTo} onValueChange={setCompareTo}>
+                    <SelectTrigger className="w-[320px]">
+                      <SelectValue placeholder="Select a snapshot" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {compareOptions.map(option => (
+                        <SelectItem key={option.id} value={option.id}>{option.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <Button
+                  onClick={() => runComparison(compareFrom, compareTo)}
+                  disabled={comparing || !compareFrom || !compareTo || compareFrom === compareTo}
+                >
+                  {comparing ? 'Comparing...' : 'Compare'}
+                </Button>
+              </div>
+
+              {comparing ? (
+                <PageLoader text="Comparing snapshots..." />
+              ) : comparison === null ? (
+                <p className="text-sm text-slate-500">Pick two snapshots to compare.</p>
+              ) : comparison.length === 0 ? (
+                <div className="text-center py-8 text-slate-500">
+                  <p>No differences between these snapshots</p>
+                </div>
+              ) : (
+                <>
+                  <p className="text-sm text-slate-600">
+                    {comparison.length} seller{comparison.length === 1 ? '' : 's'} changed between{' '}
+                    <strong>{snapshotLabel(compareFrom)}</strong> and <strong>{snapshotLabel(compareTo)}</strong>.
+                  </p>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Seller</TableHead>
+                        <TableHead>Gained</TableHead>
+                        <TableHead>Lost</TableHead>
+                        <TableHead>Status Changed</TableHead>
+                        <TableHead className="text-right">Book Revenue</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {comparison.map(row => (
+                        <TableRow key={row.seller_id}>
+                          <TableCell className="align-top">
+                            <Link href={`/sellers/${row.seller_id}`} className="font-medium text-blue-700 hover:underline">
+                              {row.seller_name}
+                            </Link>
+                            <div className="text-xs text-slate-500">
+                              {row.division ?? '—'} · {row.accounts_before} → {row.accounts_after} book accounts
+                            </div>
+                          </TableCell>
+                          <TableCell className="align-top">
+                            <AccountChangeList changes={row.gained} tone="green" />
+                          </TableCell>
+                          <TableCell className="align-top">
+                            <AccountChangeList changes={row.lost} tone="red" />
+                          </TableCell>
+                          <TableCell className="align-top">
+                            <AccountChangeList changes={row.changed} tone="amber" />
+                          </TableCell>
+                          <TableCell className="text-right align-top">
+                            <div className={`font-semibold ${row.revenue_delta > 0 ? 'text-green-700' : row.revenue_delta < 0 ? 'text-red-700' : 'text-slate-600'}`}>
+                              {row.revenue_delta > 0 ? '+' : ''}{formatCurrency(row.revenue_delta)}
+                            </div>
+                            <div className="text-xs text-slate-500">
+                              {formatCurrency(row.book_revenue_before)} → {formatCurrency(row.book_revenue_after)}
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+
+      {/* Create snapshot dialog */}
+      <Dialog open={showCreateDialog} onOpenChange={(open) => !open && closeCreateDialog()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Take Snapshot</DialogTitle>
+            <DialogDescription>
+              Saves every relationship, account revenue and seller attribute as they are right now.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="snapshot-name">Name</Label>
+              <Input
+                id="snapshot-name"
+                value={snapshotName}
+                onChange={(e) => setSnapshotName(e.target.value)}
+                placeholder="e.g. Q3 planning baseline"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="snapshot-description">Description (optional)</Label>
+              <Textarea
+                id="snapshot-description"
+                value={snapshotDescription}
+                onChange={(e) => setSnapshotDescription(e.target.value)}
+                rows={3}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={closeCreateDialog} disabled={creating}>
+              Cancel
+            </Button>
+            <Button onClick={handleCreateSnapshot} disabled={creating || !snapshotName.trim()}>
+              {creating ? 'Saving...' : 'Take Snapshot'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Restore / delete confirmation */}
+      <AlertDialog open={!!pendingAction} onOpenChange={(open) => !open && !actionRunning && setPendingAction(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {pendingAction?.action === 'restore' ? 'Restore Snapshot' : 'Delete Snapshot'}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingAction?.action === 'restore'
+                ? `Live relationships, revenues and seller attributes will be replaced with "${pendingAction?.snapshot.name}". The current state is snapshotted first so this can be undone. Accounts and sellers are matched by external ID, then by name; those that no longer match are skipped and listed afterwards.`
+                : `"${pendingAction?.snapshot.name}" will be permanently deleted.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={actionRunning}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                handlePendingAction();
+              }}
+              disabled={actionRunning}
+              className={pendingAction?.action === 'delete' ? 'bg-red-600 hover:bg-red-700' : undefined}
+            >
+              {actionRunning
+                ? (pendingAction?.action === 'restore' ? 'Restoring...' : 'Deleting...')
+                : (pendingAction?.action === 'restore' ? 'Restore' : 'Delete')}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,681 @@
+'use client';
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { usePermissions } from '@/hooks/use-permissions';
+import { useRouter } from 'next/navigation';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
+import { ArrowLeft, Home, Shield, RefreshCw, Users, UserPlus, Pencil, UserX, UserCheck, Search, Eye } from 'lucide-react';
+import Link from 'next/link';
+import { PageLoader } from '@/components/ui/loader';
+import { LoadingTimeout } from '@/components/ui/loading-timeout';
+import { DIVISIONS } from '@/lib/api/schemas';
+import { APP_ROLES, ROLE_LABELS, type AppRole } from '@/lib/permissions';
+import { isUserActive, type AdminUser, type UserDirectory } from '@/lib/user-admin';
+import { inviteUser, linkUserToManager, listUsers, setUserActive, updateUser } from '../../../actions/users';
+
+// Radix Select can't hold an empty value
+const NONE = '__none__';
+
+interface UserForm {
+  email: string;
+  name: string;
+  role: AppRole;
+  division: string;
+  seller_id: string;
+  manager_id: string;
+}
+
+const EMPTY_FORM: UserForm = {
+  email: '',
+  name: '',
+  role: 'MANAGER',
+  division: NONE,
+  seller_id: NONE,
+  manager_id: NONE,
+};
+
+const formatDate = (value: string | null) => value ? new Date(value).toLocaleString() : 'Never';
+
+const fromSelect = (value: string) => value === NONE ? null : value;
+
+export default function UsersPage() {
+  const { user, loading, startImpersonation } = useAuth();
+  const { toast } = useToast();
+  const { can } = usePermissions();
+  const router = useRouter();
+  const [directory, setDirectory] = useState<UserDirectory>({ users: [], managers: [], sellers: [] });
+  const [dataLoading, setDataLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [search, setSearch] = useState('');
+  const [showInviteDialog, setShowInviteDialog] = useState(false);
+  const [editingUser, setEditingUser] = useState<AdminUser | null>(null);
+  const [form, setForm] = useState<UserForm>(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+  const [pendingToggle, setPendingToggle] = useState<AdminUser | null>(null);
+  const [toggling, setToggling] = useState(false);
+  const [linkingUserId, setLinkingUserId] = useState<string | null>(null);
+
+  const [viewAsTarget, setViewAsTarget] = useState<AdminUser | null>(null);
+  const [startingViewAs, setStartingViewAs] = useState(false);
+
+  const canManageUsers = can('user.manage');
+  const canImpersonate = can('user.impersonate');
+
+  // Redirect if not authenticated
+  useEffect(() => {
+    if (!loading && !user) {
+      router.push('/auth');
+    }
+  }, [user, loading, router]);
+
+  const fetchUsers = useCallback(async () => {
+    try {
+      setDataLoading(true);
+      const result = await listUsers();
+      if (result.error !== null) throw new Error(result.error);
+      setDirectory(result.data);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: `Failed to load users: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        variant: 'destructive',
+      });
+    } finally {
+      setDataLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    if (canManageUsers) {
+      fetchUsers();
+    }
+  }, [canManageUsers, fetchUsers]);
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    try {
+      await fetchUsers();
+    } finally {
+      setRefreshing(false);
+    }
+  };
+
+  const managerNames = useMemo(
+    () => new Map(directory.managers.map(m => [m.id, m.name] as [string, string])),
+    [directory.managers]
+  );
+  const sellerNames = useMemo(
+    () => new Map(directory.sellers.map(s => [s.id, s.name] as [string, string])),
+    [directory.sellers]
+  );
+
+  const filteredUsers = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    if (!term) return directory.users;
+    return directory.users.filter(u =>
+      u.name.toLowerCase().includes(term) ||
+      u.email.toLowerCase().includes(term) ||
+      ROLE_LABELS[u.role]?.toLowerCase().includes(term)
+    );
+  }, [directory.users, search]);
+
+  const openInviteDialog = () => {
+    setForm(EMPTY_FORM);
+    setShowInviteDialog(true);
+  };
+
+  const openEditDialog = (target: AdminUser) => {
+    setForm({
+      email: target.email,
+      name: target.name,
+      role: target.role,
+      division: target.division ?? NONE,
+      seller_id: target.seller_id ?? NONE,
+      manager_id: target.manager_id ?? NONE,
+    });
+    setEditingUser(target);
+  };
+
+  const closeDialogs = () => {
+    setShowInviteDialog(false);
+    setEditingUser(null);
+    setForm(EMPTY_FORM);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const scope = {
+        division: fromSelect(form.division),
+        seller_id: fromSelect(form.seller_id),
+      };
+
+      const result = editingUser
+        ? await updateUser(editingUser.id, { name: form.name, role: form.role, ...scope })
+        : await inviteUser({
+            email: form.email,
+            name: form.name,
+            role: form.role,
+            ...scope,
+            manager_id: fromSelect(form.manager_id),
+          });
+      if (result.error !== null) throw new Error(result.error);
+
+      toast({
+        title: editingUser ? 'User Updated' : 'Invite Sent',
+        description: editingUser
+          ? `${form.name} is now ${ROLE_LABELS[form.role]}.`
+          : `${form.email} will get an email to set their password.`,
+      });
+
+      closeDialogs();
+      await fetchUsers();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleManagerLink = async (target: AdminUser, value: string) => {
+    setLinkingUserId(target.id);
+    try {
+      const result = await linkUserToManager(target.id, fromSelect(value));
+      if (result.error !== null) throw new Error(result.error);
+      await fetchUsers();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: `Failed to link manager: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        variant: 'destructive',
+      });
+    } finally {
+      setLinkingUserId(null);
+    }
+  };
+
+  const handleToggleActive = async () => {
+    if (!pendingToggle) return;
+
+    const activate = !isUserActive(pendingToggle);
+    setToggling(true);
+    try {
+      const result = await setUserActive(pendingToggle.id, activate);
+      if (result.error !== null) throw new Error(result.error);
+
+      toast({
+        title: activate ? 'User Reactivated' : 'User Deactivated',
+        description: activate
+          ? `${pendingToggle.name} can sign in again.`
+          : `${pendingToggle.name} can no longer sign in.`,
+      });
+
+      setPendingToggle(null);
+      await fetchUsers();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: 'destructive',
+      });
+    } finally {
+      setToggling(false);
+    }
+  };
+
+  const openViewAsDialog = (target: AdminUser) => {
+    setViewAsTarget(target);
+  };
+
+  const handleViewAs = async () => {
+    if (!viewAsTarget) return;
+
+    setStartingViewAs(true);
+    try {
+      await startImpersonation(viewAsTarget.id);
+      setViewAsTarget(null);
+      router.push('/dashboard');
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: `Failed to view as ${viewAsTarget.name}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        variant: 'destructive',
+      });
+    } finally {
+      setStartingViewAs(false);
+    }
+  };
+
+  // Show loading while checking authentication
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-slate-50 to-blue-50 flex items-center justify-center">
+        <LoadingTimeout timeout={15000}>
+          <PageLoader text="Authenticating..." />
+        </LoadingTimeout>
+      </div>
+    );
+  }
+
+  // Don't render anything if not authenticated (will redirect)
+  if (!user) {
+    return null;
+  }
+
+  if (!canManageUsers) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-2xl mx-auto">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Shield className="h-5 w-5 text-red-500" />
+                Access Denied
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <p className="text-slate-600">
+                You do not have permission to access user administration.
+                Your role does not include inviting users or changing roles.
+              </p>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    );
+  }
+
+  const dialogOpen = showInviteDialog || !!editingUser;
+  const formValid = !!form.name.trim()
+    && (!!editingUser || !!form.email.trim())
+    && (form.role !== 'DIVISION_LEAD' || form.division !== NONE)
+    && (form.role !== 'SELLER' || form.seller_id !== NONE);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-blue-50">
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-7xl mx-auto">
+          {/* Header */}
+          <div className="mb-8">
+            <div className="flex items-center gap-4 mb-6">
+              <Link
+                href="/dashboard"
+                className="flex items-center gap-2 text-slate-600 hover:text-slate-900 transition-colors"
+              >
+                <ArrowLeft className="h-4 w-4" />
+                <span className="text-sm font-medium">Back to Dashboard</span>
+              </Link>
+              <div className="h-6 w-px bg-slate-300" />
+              <Link
+                href="/dashboard"
+                className="flex items-center gap-2 text-slate-600 hover:text-slate-900 transition-colors"
+              >
+                <Home className="h-4 w-4" />
+                <span className="text-sm font-medium">Dashboard</span>
+              </Link>
+            </div>
+
+            <div className="bg-white/80 backdrop-blur-sm rounded-2xl p-8 border border-slate-200 shadow-sm">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-3">
+                  <div className="p-3 bg-blue-100 rounded-xl">
+                    <Users className="h-6 w-6 text-blue-600" />
+                  </div>
+                  <div>
+                    <h1 className="text-3xl font-bold text-slate-900">Users</h1>
+                    <p className="text-slate-600 mt-1">
+                      Invite users, assign roles, link manager records and deactivate accounts
+                    </p>
+                  </div>
+                </div>
+
+                <div className="flex items-center gap-2">
+                  <Button
+                    variant="outline"
+                    onClick={handleRefresh}
+                    disabled={refreshing}
+                    className="flex items-center gap-2"
+                  >
+                    <RefreshCw className={`h-4 w-4 ${refreshing ? 'animate-spin' : ''}`} />
+                    Refresh
+                  </Button>
+                  <Button onClick={openInviteDialog} className="flex items-center gap-2">
+                    <UserPlus className="h-4 w-4" />
+                    Invite User
+                  </Button>
+                </div>
+              </div>
+            </div>
+          </div>
+
+          <Card className="bg-white/80 backdrop-blur-sm border-slate-200 shadow-sm">
+            <CardHeader className="pb-4">
+              <div className="flex items-center justify-between gap-4">
+                <div>
+                  <CardTitle className="text-lg">All Users</CardTitle>
+                  <CardDescription className="text-slate-600">
+                    Every change here is recorded in the audit log.
+                  </CardDescription>
+                </div>
+                <div className="relative w-72">
+                  <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-slate-400" />
+                  <Input
+                    value={search}
+                    onChange={(e) => setSearch(e.target.value)}
+                    placeholder="Search name, email or role"
+                    className="pl-9"
+                  />
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {dataLoading ? (
+                <PageLoader text="Loading users..." />
+              ) : filteredUsers.length === 0 ? (
+                <div className="text-center py-12 text-slate-500">
+                  <Users className="h-10 w-10 mx-auto mb-3 text-slate-300" />
+                  <p>{search ? 'No users match your search' : 'No users yet'}</p>
+                </div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>User</TableHead>
+                      <TableHead>Role</TableHead>
+                      <TableHead>Manager Record</TableHead>
+                      <TableHead>Last Sign-in</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {filteredUsers.map((target) => {
+                      const active = isUserActive(target);
+                      const isSelf = target.id === user.id;
+
+                      return (
+                        <TableRow key={target.id} className={active ? undefined : 'opacity-60'}>
+                          <TableCell>
+                            <div className="font-medium text-slate-900">
+                              {target.name}
+                              {isSelf && <span className="ml-2 text-xs text-slate-500">(you)</span>}
+                            </div>
+                            <div className="text-xs text-slate-500">{target.email}</div>
+                          </TableCell>
+                          <TableCell>
+                            <Badge variant={target.role === 'MASTER' ? 'default' : 'secondary'}>
+                              {ROLE_LABELS[target.role] ?? target.role}
+                            </Badge>
+                            {target.role === 'DIVISION_LEAD' && (
+                              <div className="text-xs text-slate-500 mt-1">{target.division ?? 'No division'}</div>
+                            )}
+                            {target.role === 'SELLER' && (
+                              <div className="text-xs text-slate-500 mt-1">
+                                {(target.seller_id && sellerNames.get(target.seller_id)) ?? 'No seller linked'}
+                              </div>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            <Select
+                              value={target.manager_id ?? NONE}
+                              onValueChange={(value) => handleManagerLink(target, value)}
+                              disabled={linkingUserId === target.id}
+                            >
+                              <SelectTrigger className="w-[200px]">
+                                <SelectValue placeholder="Not linked" />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value={NONE}>Not linked</SelectItem>
+                                {directory.managers.map(manager => (
+                                  <SelectItem key={manager.id} value={manager.id}>
+                                    {manager.name}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </TableCell>
+                          <TableCell className="text-sm text-slate-700">{formatDate(target.last_sign_in_at)}</TableCell>
+                          <TableCell>
+                            {active ? (
+                              <Badge variant="outline" className="border-green-300 text-green-700">Active</Badge>
+                            ) : (
+                              <Badge variant="outline" className="border-red-300 text-red-700">Deactivated</Badge>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            <div className="flex justify-end gap-2">
+                              {canImpersonate && (
+                                <Button
+                                  size="sm"
+                                  variant="ghost"
+                                  onClick={() => openViewAsDialog(target)}
+                                  disabled={isSelf || !active}
+                                >
+                                  <Eye className="h-4 w-4 mr-1" />
+                                  View as
+                                </Button>
+                              )}
+                              <Button size="sm" variant="outline" onClick={() => openEditDialog(target)}>
+                                <Pencil className="h-4 w-4 mr-1" />
+                                Edit
+                              </Button>
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                className={active ? 'text-red-600 hover:text-red-700 hover:bg-red-50' : 'text-green-700 hover:text-green-800 hover:bg-green-50'}
+                                onClick={() => setPendingToggle(target)}
+                                disabled={isSelf}
+                              >
+                                {active ? <UserX className="h-4 w-4 mr-1" /> : <UserCheck className="h-4 w-4 mr-1" />}
+                                {active ? 'Deactivate' : 'Reactivate'}
+                              </Button>
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+
+      {/* Invite / edit dialog */}
+      <Dialog open={dialogOpen} onOpenChange={(open) => !open && !saving && closeDialogs()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingUser ? 'Edit User' : 'Invite User'}</DialogTitle>
+            <DialogDescription>
+              {editingUser
+                ? `Change ${editingUser.email}'s name, role and what their role is scoped to.`
+                : 'Sends an email with a link to set a password. The role applies from the first sign-in.'}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            {!editingUser && (
+              <div className="space-y-2">
+                <Label htmlFor="user-email">Email</Label>
+                <Input
+                  id="user-email"
+                  type="email"
+                  value={form.email}
+                  onChange={(e) => setForm(prev => ({ ...prev, email: e.target.value }))}
+                  placeholder="name@company.com"
+                />
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="user-name">Name</Label>
+              <Input
+                id="user-name"
+                value={form.name}
+                onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Role</Label>
+              <Select
+                value={form.role}
+                onValueChange={(value) => setForm(prev => ({ ...prev, role: value as AppRole }))}
+                disabled={editingUser?.id === user.id}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {APP_ROLES.map(role => (
+                    <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {form.role === 'DIVISION_LEAD' && (
+              <div className="space-y-2">
+                <Label>Division</Label>
+                <Select
+                  value={form.division}
+                  onValueChange={(value) => setForm(prev => ({ ...prev, division: value }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a division" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NONE} disabled>Select a division</SelectItem>
+                    {DIVISIONS.map(division => (
+                      <SelectItem key={division} value={division}>{division}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            {form.role === 'SELLER' && (
+              <div className="space-y-2">
+                <Label>Seller</Label>
+                <Select
+                  value={form.seller_id}
+                  onValueChange={(value) => setForm(prev => ({ ...prev, seller_id: value }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a seller" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NONE} disabled>Select a seller</SelectItem>
+                    {directory.sellers.map(seller => (
+                      <SelectItem key={seller.id} value={seller.id}>{seller.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            {!editingUser && (
+              <div className="space-y-2">
+                <Label>Manager record (optional)</Label>
+                <Select
+                  value={form.manager_id}
+                  onValueChange={(value) => setForm(prev => ({ ...prev, manager_id: value }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Not linked" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NONE}>Not linked</SelectItem>
+                    {directory.managers.map(manager => (
+                      <SelectItem key={manager.id} value={manager.id}>
+                        {manager.name}
+                        {manager.user_id ? ' (linked)' : ''}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            {editingUser?.manager_id && (
+              <p className="text-xs text-slate-500">
+                Linked to manager record {managerNames.get(editingUser.manager_id) ?? editingUser.manager_id}. Change it from the table.
+              </p>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={closeDialogs} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving || !formValid}>
+              {saving
+                ? (editingUser ? 'Saving...' : 'Sending...')
+                : (editingUser ? 'Save' : 'Send Invite')}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* View as confirmation */}
+      <Dialog open={!!viewAsTarget} onOpenChange={(open) => !open && !startingViewAs && setViewAsTarget(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>View as {viewAsTarget?.name}</DialogTitle>
+            <DialogDescription>
+              The dashboard, seller pages and permissions will show exactly what{' '}
+              {viewAsTarget ? ROLE_LABELS[viewAsTarget.role] ?? viewAsTarget.role : ''} {viewAsTarget?.name} sees.
+              The session is read-only. Starting and stopping are recorded in the audit log.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setViewAsTarget(null)} disabled={startingViewAs}>
+              Cancel
+            </Button>
+            <Button onClick={handleViewAs} disabled={startingViewAs}>
+              {startingViewAs ? 'Starting...' : 'Start Viewing'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Deactivate / reactivate confirmation */}
+      <AlertDialog open={!!pendingToggle} onOpenChange={(open) => !open && !toggling && setPendingToggle(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {pendingToggle && isUserActive(pendingToggle) ? 'Deactivate User' : 'Reactivate User'}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingToggle && isUserActive(pendingToggle)
+                ? `${pendingToggle.name} will be signed out and blocked from signing in, and their API tokens are revoked. Their history and manager link are kept.`
+                : `${pendingToggle?.name} will be able to sign in again with their existing role.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={toggling}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                handleToggleActive();
+              }}
+              disabled={toggling}
+              className={pendingToggle && isUserActive(pendingToggle) ? 'bg-red-600 hover:bg-red-700' : undefined}
+            >
+              {toggling
+                ? 'Saving...'
+                : (pendingToggle && isUserActive(pendingToggle) ? 'Deactivate' : 'Reactivate')}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
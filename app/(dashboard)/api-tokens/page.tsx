@@ -0,0 +1,388 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { useRouter } from 'next/navigation';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
+import { ArrowLeft, Home, KeyRound, Plus, Copy, Ban, FileCode } from 'lucide-react';
+import Link from 'next/link';
+import { PageLoader } from '@/components/ui/loader';
+import { LoadingTimeout } from '@/components/ui/loading-timeout';
+import { useAudit } from '@/hooks/use-audit';
+import { AUDIT_ACTIONS, AUDIT_ENTITIES } from '@/lib/audit';
+import { ApiToken, createApiToken, getApiTokens, isApiTokenActive, revokeApiToken } from '@/lib/api-tokens';
+
+const EXPIRY_OPTIONS = [
+  { value: '30', label: '30 days' },
+  { value: '90', label: '90 days' },
+  { value: '365', label: '1 year' },
+  { value: 'never', label: 'No expiry' },
+];
+
+const formatDate = (value: string | null) => value ? new Date(value).toLocaleString() : '—';
+
+export default function ApiTokensPage() {
+  const { user, profile, loading } = useAuth();
+  const { toast } = useToast();
+  const router = useRouter();
+  const { logCreate, logEvent } = useAudit();
+  const [tokens, setTokens] = useState<ApiToken[]>([]);
+  const [dataLoading, setDataLoading] = useState(true);
+  const [showCreateDialog, setShowCreateDialog] = useState(false);
+  const [tokenName, setTokenName] = useState('');
+  const [tokenExpiry, setTokenExpiry] = useState('90');
+  const [creating, setCreating] = useState(false);
+  const [createdToken, setCreatedToken] = useState<string | null>(null);
+  const [pendingRevoke, setPendingRevoke] = useState<ApiToken | null>(null);
+  const [revoking, setRevoking] = useState(false);
+
+  // Redirect if not authenticated
+  useEffect(() => {
+    if (!loading && !user) {
+      router.push('/auth');
+    }
+  }, [user, loading, router]);
+
+  const fetchTokens = useCallback(async () => {
+    if (!user?.id) return;
+    try {
+      setDataLoading(true);
+      setTokens(await getApiTokens(user.id));
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to load API tokens',
+        variant: 'destructive',
+      });
+    } finally {
+      setDataLoading(false);
+    }
+  }, [user?.id, toast]);
+
+  useEffect(() => {
+    fetchTokens();
+  }, [fetchTokens]);
+
+  const closeCreateDialog = () => {
+    setShowCreateDialog(false);
+    setTokenName('');
+    setTokenExpiry('90');
+    setCreatedToken(null);
+  };
+
+  const handleCreateToken = async () => {
+    if (!user?.id || !tokenName.trim()) return;
+
+    setCreating(true);
+    try {
+      const expiresAt = tokenExpiry === 'never'
+        ? null
+        : new Date(Date.now() + Number(tokenExpiry) * 24 * 60 * 60 * 1000).toISOString();
+      const { token, plaintext } = await createApiToken(user.id, tokenName, expiresAt);
+
+      await logCreate(AUDIT_ENTITIES.API_TOKEN, token.id, {
+        name: token.name,
+        token_prefix: token.token_prefix,
+        expires_at: token.expires_at,
+      });
+
+      setCreatedToken(plaintext);
+      await fetchTokens();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: `Failed to create token: ${error instanceof Error ? error.message : (error as any)?.message || 'Unknown error'}`,
+        variant: 'destructive',
+      });
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleCopyToken = async () => {
+    if (!createdToken) return;
+    try {
+      await navigator.clipboard.writeText(createdToken);
+      toast({ title: 'Copied', description: 'Token copied to the clipboard.' });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'Could not copy the token - select and copy it manually.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleRevokeToken = async () => {
+    if (!pendingRevoke) return;
+
+    setRevoking(true);
+    try {
+      await revokeApiToken(pendingRevoke.id);
+      await logEvent(AUDIT_ACTIONS.UPDATE, AUDIT_ENTITIES.API_TOKEN, pendingRevoke.id,
+        { revoked_at: null },
+        { name: pendingRevoke.name, revoked_at: new Date().toISOString() }
+      );
+
+      toast({
+        title: 'Token Revoked',
+        description: `"${pendingRevoke.name}" can no longer be used.`,
+      });
+
+      setPendingRevoke(null);
+      await fetchTokens();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: `Failed to revoke token: ${error instanceof Error ? error.message : (error as any)?.message || 'Unknown error'}`,
+        variant: 'destructive',
+      });
+    } finally {
+      setRevoking(false);
+    }
+  };
+
+  // Show loading while checking authentication
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-slate-50 to-blue-50 flex items-center justify-center">
+        <LoadingTimeout timeout={15000}>
+          <PageLoader text="Authenticating..." />
+        </LoadingTimeout>
+      </div>
+    );
+  }
+
+  // Don't render anything if not authenticated (will redirect)
+  if (!user) {
+    return null;
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-blue-50">
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-7xl mx-auto">
+          {/* Header */}
+          <div className="mb-8">
+            <div className="flex items-center gap-4 mb-6">
+              <Link
+                href="/dashboard"
+                className="flex items-center gap-2 text-slate-600 hover:text-slate-900 transition-colors"
+              >
+                <ArrowLeft className="h-4 w-4" />
+                <span className="text-sm font-medium">Back to Dashboard</span>
+              </Link>
+              <div className="h-6 w-px bg-slate-300" />
+              <Link
+                href="/dashboard"
+                className="flex items-center gap-2 text-slate-600 hover:text-slate-900 transition-colors"
+              >
+                <Home className="h-4 w-4" />
+                <span className="text-sm font-medium">Dashboard</span>
+              </Link>
+            </div>
+
+            <div className="bg-white/80 backdrop-blur-sm rounded-2xl p-8 border border-slate-200 shadow-sm">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-3">
+                  <div className="p-3 bg-blue-100 rounded-xl">
+                    <KeyRound className="h-6 w-6 text-blue-600" />
+                  </div>
+                  <div>
+                    <h1 className="text-3xl font-bold text-slate-900">API Tokens</h1>
+                    <p className="text-slate-600 mt-1">
+                      Personal tokens for the REST API. Calls made with a token act as you, with your {profile?.role} permissions.
+                    </p>
+                  </div>
+                </div>
+
+                <div className="flex items-center gap-2">
+                  <Button variant="outline" asChild className="flex items-center gap-2">
+                    <a href="/api/v1/openapi.json" target="_blank" rel="noreferrer">
+                      <FileCode className="h-4 w-4" />
+                      OpenAPI Spec
+                    </a>
+                  </Button>
+                  <Button
+                    onClick={() => setShowCreateDialog(true)}
+                    className="flex items-center gap-2"
+                  >
+                    <Plus className="h-4 w-4" />
+                    New Token
+                  </Button>
+                </div>
+              </div>
+            </div>
+          </div>
+
+          {/* Token list */}
+          <Card className="bg-white/80 backdrop-blur-sm border-slate-200 shadow-sm">
+            <CardHeader className="pb-4">
+              <CardTitle className="text-lg">Your Tokens</CardTitle>
+              <CardDescription className="text-slate-600">
+                Send a token as <code className="text-xs bg-slate-100 px-1 py-0.5 rounded">Authorization: Bearer &lt;token&gt;</code> to any <code className="text-xs bg-slate-100 px-1 py-0.5 rounded">/api/v1</code> endpoint.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {dataLoading ? (
+                <PageLoader text="Loading tokens..." />
+              ) : tokens.length === 0 ? (
+                <div className="text-center py-12 text-slate-500">
+                  <KeyRound className="h-10 w-10 mx-auto mb-3 text-slate-300" />
+                  <p>No API tokens yet</p>
+                </div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Name</TableHead>
+                      <TableHead>Token</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Created</TableHead>
+                      <TableHead>Last Used</TableHead>
+                      <TableHead>Expires</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {tokens.map((token) => {
+                      const active = isApiTokenActive(token);
+                      return (
+                        <TableRow key={token.id}>
+                          <TableCell className="font-medium text-slate-900">{token.name}</TableCell>
+                          <TableCell>
+                            <code className="text-xs text-slate-600">{token.token_prefix}…</code>
+                          </TableCell>
+                          <TableCell>
+                            {token.revoked_at ? (
+                              <Badge variant="destructive">Revoked</Badge>
+                            ) : active ? (
+                              <Badge variant="default">Active</Badge>
+                            ) : (
+                              <Badge variant="secondary">Expired</Badge>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-sm text-slate-600">{formatDate(token.created_at)}</TableCell>
+                          <TableCell className="text-sm text-slate-600">{token.last_used_at ? formatDate(token.last_used_at) : 'Never'}</TableCell>
+                          <TableCell className="text-sm text-slate-600">{token.expires_at ? formatDate(token.expires_at) : 'Never'}</TableCell>
+                          <TableCell className="text-right">
+                            {active && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => setPendingRevoke(token)}
+                                className="text-red-600 hover:text-red-700"
+                              >
+                                <Ban className="h-4 w-4 mr-1" />
+                                Revoke
+                              </Button>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+
+      {/* Create token dialog */}
+      <Dialog open={showCreateDialog} onOpenChange={(open) => !open && !creating && closeCreateDialog()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{createdToken ? 'Token Created' : 'New API Token'}</DialogTitle>
+            <DialogDescription>
+              {createdToken
+                ? 'Copy this token now - it is not stored and will not be shown again.'
+                : 'Name the token after the script or integration that will use it.'}
+            </DialogDescription>
+          </DialogHeader>
+          {createdToken ? (
+            <div className="flex items-center gap-2">
+              <Input value={createdToken} readOnly className="font-mono text-xs" onFocus={(e) => e.target.select()} />
+              <Button variant="outline" size="icon" onClick={handleCopyToken} aria-label="Copy token">
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="token-name">Name</Label>
+                <Input
+                  id="token-name"
+                  value={tokenName}
+                  onChange={(e) => setTokenName(e.target.value)}
+                  placeholder="e.g. CRM sync"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Expires</Label>
+                <Select value={tokenExpiry} onValueChange={setTokenExpiry}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {EXPIRY_OPTIONS.map(option => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            {createdToken ? (
+              <Button onClick={closeCreateDialog}>Done</Button>
+            ) : (
+              <>
+                <Button variant="outline" onClick={closeCreateDialog} disabled={creating}>
+                  Cancel
+                </Button>
+                <Button onClick={handleCreateToken} disabled={creating || !tokenName.trim()}>
+                  {creating ? 'Creating...' : 'Create Token'}
+                </Button>
+              </>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Revoke confirmation */}
+      <AlertDialog open={!!pendingRevoke} onOpenChange={(open) => !open && !revoking && setPendingRevoke(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Revoke Token</AlertDialogTitle>
+            <AlertDialogDescription>
+              {`Anything using "${pendingRevoke?.name}" will immediately get 401 responses. This can't be undone.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={revoking}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                handleRevokeToken();
+              }}
+              disabled={revoking}
+              className="bg-red-600 hover:bg-red-700"
+            >
+              {revoking ? 'Revoking...' : 'Revoke'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -5,12 +5,12 @@ import { AppHeader } from "@/components/layout/AppHeader";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Button } from "@/components/ui/button";
-import { Users, DollarSign, Briefcase, TrendingUp, Star } from "lucide-react";
+import { Users, DollarSign, Briefcase, TrendingUp, Star, FlaskConical, Map as MapIcon } from "lucide-react";
 import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { DivisionBadge } from "@/components/dashboard/DivisionBadge";
 import Link from "next/link";
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { useToast } from "@/hooks/use-toast";
 import { useRouter } from "next/navigation";
 import { Search, ChevronDown, X } from "lucide-react";
@@ -18,16 +18,24 @@ import { Input } from "@/components/ui/input";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Badge } from "@/components/ui/badge";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command";
 import { useAudit } from "@/hooks/use-audit";
+import { usePermissions } from "@/hooks/use-permissions";
 import { PageLoader, DataLoader } from "@/components/ui/loader";
 import { LoadingTimeout } from "@/components/ui/loading-timeout";
 import { 
   getUnifiedDashboardData,
-  getManagerDashboardData,
-  getMasterDashboardData
+  getScopedDashboardData
 } from "@/lib/unified-dashboard-query";
 import { getManagerPerformance } from "@/lib/optimized-queries";
+import { createBookSnapshot } from "@/lib/book-snapshots";
+import { applyScenarioToDashboard, getScenarioOverlay, getScenarios } from "@/lib/scenarios";
+import { BOOK_STATUSES, getHealthThresholds } from "@/lib/seller-health";
+import { formatDistance, getTravelBurden, TravelBurden } from "@/lib/geo";
+import { useActiveScenario } from "@/hooks/use-active-scenario";
+import { getAllAccountsWithAssignmentStatus, getStatusArray } from "@/lib/seller-detail-queries";
+import { AccountMap, MapPoint } from "@/components/map/AccountMap";
 import { useRealtimeDashboard } from "@/hooks/use-realtime-dashboard";
 
 // Professional Multi-Select Dropdown Component
@@ -151,10 +159,24 @@ function MultiSelectDropdown({
   );
 }
 
+// Travel burden bands by average distance (km) from the seller's home to their book
+const TRAVEL_BANDS = [
+  { value: "local", label: "Local (under 250 km)", maxKm: 250, color: "bg-green-500" },
+  { value: "regional", label: "Regional (250-1,000 km)", maxKm: 1000, color: "bg-amber-500" },
+  { value: "national", label: "Long distance (over 1,000 km)", maxKm: Infinity, color: "bg-red-500" },
+  { value: "unknown", label: "No location data", maxKm: null, color: "bg-slate-400" },
+];
+
+function getTravelBand(travelBurden: TravelBurden | null): string {
+  if (!travelBurden) return "unknown";
+  return TRAVEL_BANDS.find(band => band.maxKm !== null && travelBurden.averageKm < band.maxKm)?.value || "unknown";
+}
+
 // Import functionality moved to Settings page
 
 export default function DashboardPage() {
   const { profile, user, loading } = useAuth();
+  const { can, assertCan, scope } = usePermissions();
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const { logEvent } = useAudit();
@@ -197,6 +219,7 @@ export default function DashboardPage() {
   const [seniorityFilters, setSeniorityFilters] = useState<string[]>(["junior", "senior"]);
   const [divisionFilters, setDivisionFilters] = useState<string[]>(["ESG", "GDT", "GVC", "MSG_US"]);
   const [completionFilters, setCompletionFilters] = useState<string[]>(["completed", "not-completed"]);
+  const [travelFilters, setTravelFilters] = useState<string[]>(TRAVEL_BANDS.map(band => band.value));
   const [selectedManagers, setSelectedManagers] = useState<string[]>([]);
   const [managerFilters, setManagerFilters] = useState<string[]>([]);
   const [activeTab, setActiveTab] = useState<string>("enterprise");
@@ -275,13 +298,8 @@ export default function DashboardPage() {
   // Fetch unified dashboard data - replaces all 6 separate queries
   const { data: unifiedData = [], isLoading: unifiedDataLoading } = useQuery({
     queryKey: ["unified-dashboard", profile?.role, profile?.id],
-    queryFn: async () => {
-      if (profile?.role === "MANAGER") {
-        return await getManagerDashboardData(profile.id);
-      } else {
-        return await getMasterDashboardData();
-      }
-    },
+    queryFn: async () => await getScopedDashboardData(scope!),
+    enabled: !!scope,
     staleTime: 5 * 60 * 1000, // Cache for 5 minutes
   });
 
@@ -292,8 +310,59 @@ export default function DashboardPage() {
     staleTime: 5 * 60 * 1000, // Cache for 5 minutes
   });
 
+  // Scenario sandbox - recompute health for sellers the active scenario touches
+  const { activeScenarioId, activeScenario, setActiveScenarioId } = useActiveScenario();
+
+  const { data: draftScenarios = [] } = useQuery({
+    queryKey: ["scenarios", "draft"],
+    queryFn: () => getScenarios({ status: 'draft' }),
+    enabled: !!user,
+  });
+
+  const { data: scenarioOverlay } = useQuery({
+    queryKey: ["scenarioOverlay", activeScenarioId],
+    queryFn: () => getScenarioOverlay(activeScenarioId!),
+    enabled: !!activeScenarioId,
+  });
+
+  const { data: healthThresholds } = useQuery({
+    queryKey: ["healthThresholds"],
+    queryFn: getHealthThresholds,
+    enabled: !!activeScenarioId,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  // Seller home locations for the travel burden filter and the territory map
+  const { data: sellerLocations = [] } = useQuery({
+    queryKey: ["sellerLocations"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("sellers")
+        .select("id, name, city, state, country, lat, lng");
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: !!user,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const liveRows = Array.isArray(unifiedData) ? unifiedData : [];
+  const dashboardRows = activeScenarioId && scenarioOverlay && healthThresholds
+    ? applyScenarioToDashboard(liveRows, scenarioOverlay, healthThresholds)
+    : liveRows;
+
+  const sellerLocationById = new Map(sellerLocations.map(location => [location.id, location]));
+  const getSellerTravelBurden = (seller: any): TravelBurden | null => {
+    const home = sellerLocationById.get(seller.seller_id);
+    if (!home) return null;
+    const bookAccounts = (seller.relationships || [])
+      .filter((rel: any) => BOOK_STATUSES.includes(rel.relationship_status))
+      .map((rel: any) => ({ lat: rel.account_lat, lng: rel.account_lng }));
+    return getTravelBurden(home, bookAccounts);
+  };
+
   // Process unified data - all calculations are already done in the materialized view
-  const sellerRevenues = (Array.isArray(unifiedData) ? unifiedData : []).map((seller: any) => {
+  const sellerRevenues = dashboardRows.map((seller: any) => {
     return {
       id: seller.seller_id,
       name: seller.seller_name,
@@ -318,9 +387,76 @@ export default function DashboardPage() {
       mismatchType: seller.size_mismatch_type || '',
       hasIndustryMismatch: seller.has_industry_mismatch,
       industryMismatchedAccountCount: seller.industry_mismatch_count || 0,
+      scenarioChangeCount: seller.scenario_change_count || 0,
+      travelBurden: getSellerTravelBurden(seller),
     };
   });
 
+  // Territory map - seller home locations, or one seller's book plus nearby available accounts
+  const [mapSellerId, setMapSellerId] = useState<string>("all");
+
+  const { data: mapAvailableAccounts } = useQuery({
+    queryKey: ["mapAvailableAccounts", mapSellerId],
+    queryFn: () => getAllAccountsWithAssignmentStatus(mapSellerId, 1, 500, undefined, 'fit_percentage', 'desc', { assignment_status: 'available' }),
+    enabled: !!user && mapSellerId !== "all",
+  });
+
+  const mapSellerHome = mapSellerId !== "all"
+    ? sellerLocations.find(seller => seller.id === mapSellerId) || null
+    : null;
+
+  const mapPoints = useMemo<MapPoint[]>(() => {
+    const visibleSellerIds = new Set(dashboardRows.map((row: any) => row.seller_id));
+
+    if (mapSellerId === "all") {
+      return sellerLocations
+        .filter(seller => visibleSellerIds.has(seller.id))
+        .map(seller => ({
+          id: seller.id,
+          name: seller.name,
+          lat: seller.lat,
+          lng: seller.lng,
+          kind: 'seller' as const,
+          subtitle: [seller.city, seller.state, seller.country].filter(Boolean).join(', '),
+        }));
+    }
+
+    const row = dashboardRows.find((r: any) => r.seller_id === mapSellerId);
+    const kindFor = (status: string): MapPoint['kind'] | null =>
+      getStatusArray('must_keep').includes(status) ? 'must_keep'
+      : getStatusArray('for_discussion').includes(status) ? 'for_discussion'
+      : getStatusArray('to_be_peeled').includes(status) ? 'to_be_peeled'
+      : null;
+
+    const assigned: MapPoint[] = (row?.relationships || []).flatMap((rel: any) => {
+      const kind = kindFor(rel.relationship_status);
+      return kind ? [{
+        id: rel.account_id,
+        name: rel.account_name,
+        lat: rel.account_lat,
+        lng: rel.account_lng,
+        kind,
+        revenue: rel.total_account_revenue,
+        subtitle: [rel.account_city, rel.account_state, rel.account_country].filter(Boolean).join(', '),
+      }] : [];
+    });
+    const assignedIds = new Set(assigned.map(point => point.id));
+
+    const available: MapPoint[] = (mapAvailableAccounts?.accounts || [])
+      .filter((account: any) => !assignedIds.has(account.id))
+      .map((account: any) => ({
+        id: account.id,
+        name: account.name,
+        lat: account.lat,
+        lng: account.lng,
+        kind: 'available' as const,
+        revenue: account.total_revenue,
+        subtitle: account.fit_percentage != null ? `${Math.round(account.fit_percentage)}% fit` : undefined,
+      }));
+
+    return [...assigned, ...available];
+  }, [mapSellerId, sellerLocations, dashboardRows, mapAvailableAccounts]);
+
   // Filter sellers based on search query and all filters
   const filteredSellers = sellerRevenues.filter(seller => {
     // Text search filter
@@ -354,7 +490,10 @@ export default function DashboardPage() {
       managerFilters.length === 0 || 
       (seller.all_manager_ids && seller.all_manager_ids.some((managerId: string) => managerFilters.includes(managerId)));
     
-    return matchesSearch && matchesRevenueFilter && matchesAccountFilter && matchesSeniorityFilter && matchesDivisionFilter && matchesCompletionFilter && matchesManagerFilter;
+    // Travel burden filter - banded by average distance from home across the book
+    const matchesTravelFilter = travelFilters.includes(getTravelBand(seller.travelBurden));
+    
+    return matchesSearch && matchesRevenueFilter && matchesAccountFilter && matchesSeniorityFilter && matchesDivisionFilter && matchesCompletionFilter && matchesManagerFilter && matchesTravelFilter;
   });
 
   // Calculate KPIs by size using filtered sellers
@@ -407,7 +546,8 @@ export default function DashboardPage() {
     accountFilters.length < 2 ||
     seniorityFilters.length < 2 ||
     divisionFilters.length < 4 ||
-    completionFilters.length < 2;
+    completionFilters.length < 2 ||
+    travelFilters.length < TRAVEL_BANDS.length;
 
   // KPIs now automatically use filteredSellers, so they update with filters
   const displayEnterpriseKPIs = enterpriseKPIs;
@@ -443,9 +583,20 @@ export default function DashboardPage() {
   // Handle checkbox change for finalized status
   const handleFinalizedChange = async (sellerId: string, finalized: boolean) => {
     try {
+      assertCan("book.finalize");
+
       // Get seller info for audit log
       const seller = Array.isArray(unifiedData) ? unifiedData.find(s => s.seller_id === sellerId) : undefined;
       
+      // Snapshot the book as it was right before it is finalized
+      if (finalized) {
+        try {
+          await createBookSnapshot(`Before finalizing ${seller?.seller_name ?? 'seller'}`, 'finalization');
+        } catch (snapshotError) {
+          // Don't block finalization if the snapshot fails
+        }
+      }
+      
       const { error } = await supabase
         .from("sellers")
         .update({ book_finalized: finalized })
@@ -529,6 +680,51 @@ export default function DashboardPage() {
       <main className="container mx-auto p-6 space-y-6">
         {/* Data Import functionality moved to Settings page */}
 
+        {/* Scenario sandbox selector */}
+        <Card className={`shadow-card ${activeScenario ? 'border-violet-300 bg-violet-50/50' : ''}`}>
+          <CardContent className="py-4 flex flex-col md:flex-row md:items-center justify-between gap-4">
+            <div className="flex items-start gap-3">
+              <FlaskConical className={`h-5 w-5 mt-0.5 ${activeScenario ? 'text-violet-600' : 'text-muted-foreground'}`} />
+              <div className="text-sm">
+                {activeScenario ? (
+                  <>
+                    <p className="font-semibold text-violet-900">Viewing scenario: {activeScenario.name}</p>
+                    <p className="text-violet-800">
+                      Health indicators below include {scenarioOverlay?.changes.length ?? 0} sandbox change{scenarioOverlay?.changes.length === 1 ? '' : 's'} across {sellerRevenues.filter(seller => seller.scenarioChangeCount > 0).length} seller(s). Live data is unchanged.
+                    </p>
+                  </>
+                ) : (
+                  <>
+                    <p className="font-semibold">Live data</p>
+                    <p className="text-muted-foreground">Select a scenario to plan moves without changing live assignments.</p>
+                  </>
+                )}
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              <Select
+                value={activeScenarioId ?? 'live'}
+                onValueChange={(value) => setActiveScenarioId(value === 'live' ? null : value)}
+              >
+                <SelectTrigger className="w-[240px] bg-white">
+                  <SelectValue placeholder="Live data" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="live">Live data</SelectItem>
+                  {draftScenarios.map(scenario => (
+                    <SelectItem key={scenario.id} value={scenario.id}>
+                      {scenario.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Link href="/scenarios">
+                <Button variant="outline">Manage</Button>
+              </Link>
+            </div>
+          </CardContent>
+        </Card>
+
         {/* Search Bar */}
         <Card className="shadow-card">
           <CardHeader>
@@ -696,6 +892,19 @@ export default function DashboardPage() {
                     onSelectionChange={setCompletionFilters}
                   />
 
+                  {/* Travel Burden Filter */}
+                  <MultiSelectDropdown
+                    label="Travel Burden"
+                    placeholder="Select travel burden..."
+                    options={TRAVEL_BANDS.map(band => ({
+                      value: band.value,
+                      label: band.label,
+                      icon: <div className={`w-2 h-2 rounded-full ${band.color}`}></div>
+                    }))}
+                    selectedValues={travelFilters}
+                    onSelectionChange={setTravelFilters}
+                  />
+
                   {/* Manager Filter */}
                   <MultiSelectDropdown
                     label="Manager"
@@ -730,6 +939,9 @@ export default function DashboardPage() {
                       <span className="px-2 py-1 bg-slate-100 rounded text-slate-600">
                         Status: {completionFilters.length === 2 ? 'All' : completionFilters.includes('completed') ? 'Completed' : 'In Progress'}
                       </span>
+                      <span className="px-2 py-1 bg-slate-100 rounded text-slate-600">
+                        Travel: {travelFilters.length === TRAVEL_BANDS.length ? 'All' : `${travelFilters.length} selected`}
+                      </span>
                     </div>
                   </div>
                 </div>
@@ -753,10 +965,10 @@ export default function DashboardPage() {
 
         {/* KPI Tabs */}
         <Tabs value={activeTab} onValueChange={handleTabChange} className="w-full">
-          <TabsList className={`grid w-full ${profile?.role === "MASTER" ? "grid-cols-3" : "grid-cols-2"}`}>
+          <TabsList className={`grid w-full ${can("performance.view_managers") ? "grid-cols-3" : "grid-cols-2"}`}>
             <TabsTrigger value="enterprise">Enterprise</TabsTrigger>
             <TabsTrigger value="midmarket">Midmarket</TabsTrigger>
-            {profile?.role === "MASTER" && (
+            {can("performance.view_managers") && (
               <TabsTrigger value="managers">Managers</TabsTrigger>
             )}
           </TabsList>
@@ -857,6 +1069,13 @@ export default function DashboardPage() {
                               </Badge>
                             </div>
                           <div className="flex flex-col gap-1 mb-2">
+                            {/* Scenario flag - seller has sandbox changes in the active scenario */}
+                            {seller.scenarioChangeCount > 0 && (
+                              <div className="flex items-center gap-1 text-violet-700 font-bold text-[10px] bg-violet-50 px-1.5 py-0.5 rounded border border-violet-200 w-fit">
+                                <FlaskConical className="h-3 w-3" />
+                                <span>{seller.scenarioChangeCount} scenario change(s)</span>
+                              </div>
+                            )}
                             {/* Red Flag - positioned above seniority badge */}
                             {seller.hasSizeMismatch && seller.mismatchedAccountCount > 0 && (
                               <div className="flex items-center gap-1 text-red-600 font-bold text-[10px] bg-red-50 px-1.5 py-0.5 rounded border border-red-200 w-fit">
@@ -892,11 +1111,17 @@ export default function DashboardPage() {
                               </p>
                               <div className={`w-2 h-2 rounded-full ${seller.isRevenueHealthy ? 'bg-green-500' : 'bg-red-500'}`} />
                             </div>
+                            {seller.travelBurden && (
+                              <p className="text-xs text-muted-foreground">
+                                {formatDistance(seller.travelBurden.averageKm)} avg · {formatDistance(seller.travelBurden.maxKm)} max travel
+                              </p>
+                            )}
                           </div>
                           <div className="flex items-center space-x-2 pt-2 border-t">
                             <Checkbox
                               id={`finalized-${seller.id}`}
                               checked={finalizedSellers.has(seller.id)}
+                              disabled={!can("book.finalize")}
                               onCheckedChange={(checked) => 
                                 handleFinalizedChange(seller.id, checked as boolean)
                               }
@@ -1021,6 +1246,13 @@ export default function DashboardPage() {
                               </Badge>
                             </div>
                           <div className="flex flex-col gap-1 mb-2">
+                            {/* Scenario flag - seller has sandbox changes in the active scenario */}
+                            {seller.scenarioChangeCount > 0 && (
+                              <div className="flex items-center gap-1 text-violet-700 font-bold text-[10px] bg-violet-50 px-1.5 py-0.5 rounded border border-violet-200 w-fit">
+                                <FlaskConical className="h-3 w-3" />
+                                <span>{seller.scenarioChangeCount} scenario change(s)</span>
+                              </div>
+                            )}
                             {/* Red Flag - positioned above seniority badge */}
                             {seller.hasSizeMismatch && seller.mismatchedAccountCount > 0 && (
                               <div className="flex items-center gap-1 text-red-600 font-bold text-[10px] bg-red-50 px-1.5 py-0.5 rounded border border-red-200 w-fit">
@@ -1056,11 +1288,17 @@ export default function DashboardPage() {
                               </p>
                               <div className={`w-2 h-2 rounded-full ${seller.isRevenueHealthy ? 'bg-green-500' : 'bg-red-500'}`} />
                             </div>
+                            {seller.travelBurden && (
+                              <p className="text-xs text-muted-foreground">
+                                {formatDistance(seller.travelBurden.averageKm)} avg · {formatDistance(seller.travelBurden.maxKm)} max travel
+                              </p>
+                            )}
                           </div>
                           <div className="flex items-center space-x-2 pt-2 border-t">
                             <Checkbox
                               id={`finalized-${seller.id}`}
                               checked={finalizedSellers.has(seller.id)}
+                              disabled={!can("book.finalize")}
                               onCheckedChange={(checked) => 
                                 handleFinalizedChange(seller.id, checked as boolean)
                               }
@@ -1089,7 +1327,7 @@ export default function DashboardPage() {
             </Card>
           </TabsContent>
 
-          {profile?.role === "MASTER" && (
+          {can("performance.view_managers") && (
             <TabsContent value="managers" className="space-y-6">
             {/* Manager Performance Cards */}
             <Card className="shadow-card">
@@ -1183,6 +1421,56 @@ export default function DashboardPage() {
             </TabsContent>
           )}
         </Tabs>
+
+        {/* Territory Map */}
+        <Card className="shadow-card">
+          <CardHeader className="flex flex-col md:flex-row md:items-start justify-between gap-4 space-y-0">
+            <div className="space-y-1.5">
+              <CardTitle className="flex items-center gap-2">
+                <MapIcon className="h-5 w-5" />
+                Territory Map
+              </CardTitle>
+              <CardDescription>
+                {mapSellerHome
+                  ? `${mapSellerHome.name}'s accounts by status, with nearby available accounts`
+                  : 'Seller home locations. Pick a seller (or click a marker) to see their book.'}
+              </CardDescription>
+            </div>
+            <div className="flex items-center gap-2">
+              <Select value={mapSellerId} onValueChange={setMapSellerId}>
+                <SelectTrigger className="w-[240px]">
+                  <SelectValue placeholder="All sellers" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All sellers</SelectItem>
+                  {sellerRevenues
+                    .slice()
+                    .sort((a, b) => a.name.localeCompare(b.name))
+                    .map(seller => (
+                      <SelectItem key={seller.id} value={seller.id}>
+                        {seller.name}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+              {mapSellerHome && (
+                <Link href={`/sellers/${mapSellerHome.id}`}>
+                  <Button variant="outline">Open</Button>
+                </Link>
+              )}
+            </div>
+          </CardHeader>
+          <CardContent>
+            <AccountMap
+              key={mapSellerId}
+              home={mapSellerHome}
+              points={mapPoints}
+              onPointClick={(point) => {
+                if (point.kind === 'seller') setMapSellerId(point.id);
+              }}
+            />
+          </CardContent>
+        </Card>
       </main>
     </div>
   );
@@ -0,0 +1,584 @@
+'use client';
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { useRouter } from 'next/navigation';
+import { useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  ArrowLeft,
+  ArrowRight,
+  Home,
+  Shield,
+  Scale,
+  Sparkles,
+  Check,
+  CheckCheck,
+  FlaskConical,
+} from 'lucide-react';
+import Link from 'next/link';
+import { supabase } from '@/integrations/supabase/client';
+import { PageLoader } from '@/components/ui/loader';
+import { LoadingTimeout } from '@/components/ui/loading-timeout';
+import { useAudit } from '@/hooks/use-audit';
+import { usePermissions } from '@/hooks/use-permissions';
+import { useActiveScenario } from '@/hooks/use-active-scenario';
+import { AUDIT_ACTIONS, AUDIT_ENTITIES } from '@/lib/audit';
+import { getHealthThresholds } from '@/lib/seller-health';
+import { getScopedDashboardData, UnifiedDashboardData } from '@/lib/unified-dashboard-query';
+import {
+  generateRebalancePlan,
+  applyRebalanceSuggestion,
+  REBALANCE_TARGET_STATUS,
+  RebalanceApplyTarget,
+  RebalancePlan,
+  RebalanceSuggestion,
+} from '@/lib/rebalancing';
+
+const formatCurrency = (amount: number) => {
+  const sign = amount < 0 ? '-' : '';
+  const value = Math.abs(amount);
+  return value >= 1_000_000
+    ? `${sign}$${(value / 1_000_000).toFixed(1)}M`
+    : value >= 1_000
+    ? `${sign}$${(value / 1_000).toFixed(0)}K`
+    : `${sign}$${value.toFixed(0)}`;
+};
+
+const formatStatus = (status: string | null) => {
+  if (!status) return 'Unassigned';
+  return status.replace(/_/g, ' ').replace(/\b\w/g, c => c.toUpperCase());
+};
+
+const DIVISIONS = ['ESG', 'GDT', 'GVC', 'MSG_US'];
+
+type ScopeType = 'all' | 'division' | 'manager';
+
+export default function RebalancePage() {
+  const { user, loading } = useAuth();
+  const { toast } = useToast();
+  const router = useRouter();
+  const queryClient = useQueryClient();
+  const { logEvent, logCreate } = useAudit();
+  const { can, scope } = usePermissions();
+  const { activeScenarioId, activeScenario } = useActiveScenario();
+  const [rows, setRows] = useState<UnifiedDashboardData[]>([]);
+  const [dataLoading, setDataLoading] = useState(true);
+  const [scopeType, setScopeType] = useState<ScopeType>('all');
+  const [scopeValue, setScopeValue] = useState<string>('');
+  const [maxMoves, setMaxMoves] = useState('25');
+  const [plan, setPlan] = useState<RebalancePlan | null>(null);
+  const [planning, setPlanning] = useState(false);
+  const [progress, setProgress] = useState('');
+  const [appliedIds, setAppliedIds] = useState<Set<string>>(new Set());
+  const [applyingIds, setApplyingIds] = useState<Set<string>>(new Set());
+
+  const canView = can('rebalance.view');
+  // Only users who see every seller pick a division or manager to plan for
+  const seesAllSellers = scope?.type === 'all';
+
+  // Redirect if not authenticated
+  useEffect(() => {
+    if (!loading && !user) {
+      router.push('/auth');
+    }
+  }, [user, loading, router]);
+
+  const fetchRows = useCallback(async () => {
+    if (!scope) return;
+    try {
+      setDataLoading(true);
+      setRows(await getScopedDashboardData(scope));
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to load sellers',
+        variant: 'destructive',
+      });
+    } finally {
+      setDataLoading(false);
+    }
+  }, [scope, toast]);
+
+  useEffect(() => {
+    if (canView) {
+      fetchRows();
+    }
+  }, [canView, fetchRows]);
+
+  const managers = useMemo(() => {
+    const byId = new Map<string, string>();
+    rows.forEach(row => {
+      if (row.manager_id) byId.set(row.manager_id, row.manager_name || 'Unnamed manager');
+    });
+    return Array.from(byId.entries())
+      .map(([id, name]) => ({ id, name }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }, [rows]);
+
+  const scopedRows = useMemo(() => {
+    if (scopeType === 'division' && scopeValue) {
+      return rows.filter(row => row.division === scopeValue);
+    }
+    if (scopeType === 'manager' && scopeValue) {
+      return rows.filter(row =>
+        row.manager_id === scopeValue || ((row as any).all_manager_ids || []).includes(scopeValue)
+      );
+    }
+    return rows;
+  }, [rows, scopeType, scopeValue]);
+
+  const applyTarget: RebalanceApplyTarget | null = activeScenarioId
+    ? { type: 'scenario', scenarioId: activeScenarioId }
+    : can('relationship.assign')
+    ? { type: 'live' }
+    : can('relationship.request')
+    ? { type: 'request' }
+    : null;
+
+  const applyLabel = applyTarget?.type === 'scenario' ? 'Add to Scenario' : applyTarget?.type === 'request' ? 'Request' : 'Apply';
+
+  const handleGenerate = async () => {
+    setPlanning(true);
+    setPlan(null);
+    setAppliedIds(new Set());
+    try {
+      const thresholds = await getHealthThresholds();
+      const result = await generateRebalancePlan(scopedRows, thresholds, {
+        maxMoves: Math.max(1, parseInt(maxMoves, 10) || 25),
+        onProgress: setProgress,
+      });
+      setPlan(result);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: `Failed to build rebalancing plan: ${error instanceof Error ? error.message : (error as any)?.message || 'Unknown error'}`,
+        variant: 'destructive',
+      });
+    } finally {
+      setPlanning(false);
+      setProgress('');
+    }
+  };
+
+  const applySuggestions = async (suggestions: RebalanceSuggestion[]) => {
+    if (!applyTarget || suggestions.length === 0) return;
+
+    setApplyingIds(prev => new Set([...Array.from(prev), ...suggestions.map(s => s.id)]));
+    const applied: string[] = [];
+    try {
+      for (const suggestion of suggestions) {
+        await applyRebalanceSuggestion(suggestion, applyTarget);
+        applied.push(suggestion.id);
+
+        const auditData = {
+          account_id: suggestion.account_id,
+          account_name: suggestion.account_name,
+          from_seller_id: suggestion.from_seller_id,
+          from_seller_name: suggestion.from_seller_name,
+          to_seller_id: suggestion.to_seller_id,
+          to_seller_name: suggestion.to_seller_name,
+          status: REBALANCE_TARGET_STATUS,
+          reasons: suggestion.reasons,
+          source: 'rebalancing',
+        };
+
+        try {
+          if (applyTarget.type === 'live') {
+            await logEvent(AUDIT_ACTIONS.ASSIGN, AUDIT_ENTITIES.RELATIONSHIP, suggestion.account_id, { seller_id: suggestion.from_seller_id, status: suggestion.from_status }, auditData);
+          } else if (applyTarget.type === 'request') {
+            await logCreate(AUDIT_ENTITIES.REQUEST, suggestion.account_id, auditData);
+          }
+        } catch (auditError) {
+          // Don't fail the main operation for audit issues
+        }
+      }
+
+      toast({
+        title: applyTarget.type === 'scenario' ? 'Scenario Updated' : applyTarget.type === 'request' ? 'Requests Submitted' : 'Moves Applied',
+        description: applyTarget.type === 'scenario'
+          ? `${applied.length} move(s) added to "${activeScenario?.name}". Live data is unchanged.`
+          : applyTarget.type === 'request'
+          ? `${applied.length} move(s) sent to MASTER for approval.`
+          : `${applied.length} account(s) reassigned.`,
+      });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: `Applied ${applied.length} of ${suggestions.length} move(s): ${error instanceof Error ? error.message : (error as any)?.message || 'Unknown error'}`,
+        variant: 'destructive',
+      });
+    } finally {
+      setAppliedIds(prev => new Set([...Array.from(prev), ...applied]));
+      setApplyingIds(prev => {
+        const next = new Set(prev);
+        suggestions.forEach(s => next.delete(s.id));
+        return next;
+      });
+    }
+
+    if (applied.length === 0) return;
+
+    if (applyTarget.type === 'live') {
+      // Health and totals come from the performance views
+      try {
+        await supabase.rpc('smart_refresh_performance_views');
+      } catch (refreshError) {
+        // Not critical for the user action
+      }
+      queryClient.invalidateQueries({ queryKey: ['unified-dashboard'], exact: false });
+      queryClient.invalidateQueries({ queryKey: ['manager-performance'] });
+      queryClient.invalidateQueries({ queryKey: ['sellerDetail'], exact: false });
+    } else if (applyTarget.type === 'scenario') {
+      queryClient.invalidateQueries({ queryKey: ['scenarioOverlay', applyTarget.scenarioId] });
+      queryClient.invalidateQueries({ queryKey: ['scenario', applyTarget.scenarioId] });
+    } else {
+      queryClient.invalidateQueries({ queryKey: ['pendingRequests'], exact: false });
+    }
+  };
+
+  // Show loading while checking authentication
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-slate-50 to-blue-50 flex items-center justify-center">
+        <LoadingTimeout timeout={15000}>
+          <PageLoader text="Authenticating..." />
+        </LoadingTimeout>
+      </div>
+    );
+  }
+
+  // Don't render anything if not authenticated (will redirect)
+  if (!user) {
+    return null;
+  }
+
+  if (!canView) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-2xl mx-auto">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Shield className="h-5 w-5 text-red-500" />
+                Access Denied
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <p className="text-slate-600">
+                You do not have permission to rebalance territories.
+                Your role does not include generating rebalancing plans.
+              </p>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    );
+  }
+
+  const pendingSuggestions = (plan?.suggestions || []).filter(s => !appliedIds.has(s.id));
+  const changedSellers = (plan?.sellers || []).filter(s =>
+    s.revenue_before !== s.revenue_after || s.accounts_before !== s.accounts_after
+  );
+  const healthyBefore = (plan?.sellers || []).filter(s => s.healthy_before).length;
+  const healthyAfter = (plan?.sellers || []).filter(s => s.healthy_after).length;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-blue-50">
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-7xl mx-auto">
+          {/* Header */}
+          <div className="mb-8">
+            <div className="flex items-center gap-4 mb-6">
+              <Link
+                href="/dashboard"
+                className="flex items-center gap-2 text-slate-600 hover:text-slate-900 transition-colors"
+              >
+                <ArrowLeft className="h-4 w-4" />
+                <span className="text-sm font-medium">Back to Dashboard</span>
+              </Link>
+              <div className="h-6 w-px bg-slate-300" />
+              <Link
+                href="/dashboard"
+                className="flex items-center gap-2 text-slate-600 hover:text-slate-900 transition-colors"
+              >
+                <Home className="h-4 w-4" />
+                <span className="text-sm font-medium">Dashboard</span>
+              </Link>
+            </div>
+
+            <div className="bg-white/80 backdrop-blur-sm rounded-2xl p-8 border border-slate-200 shadow-sm">
+              <div className="flex items-center gap-3">
+                <div className="p-3 bg-blue-100 rounded-xl">
+                  <Scale className="h-6 w-6 text-blue-600" />
+                </div>
+                <div>
+                  <h1 className="text-3xl font-bold text-slate-900">Territory Rebalancing</h1>
+                  <p className="text-slate-600 mt-1">
+                    Suggested account moves that bring sellers into their healthy revenue and account ranges
+                  </p>
+                </div>
+              </div>
+            </div>
+          </div>
+
+          {/* Scope */}
+          <Card className="bg-white/80 backdrop-blur-sm border-slate-200 shadow-sm mb-8">
+            <CardHeader className="pb-4">
+              <CardTitle className="text-lg">Plan</CardTitle>
+              <CardDescription className="text-slate-600">
+                Must keep and original accounts are never moved. Moves prefer unassigned accounts and accounts marked to be peeled, then the best fit.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {activeScenario && (
+                <div className="bg-violet-50 border border-violet-200 rounded-lg p-3 flex items-center gap-2 text-sm text-violet-800">
+                  <FlaskConical className="h-4 w-4 text-violet-600" />
+                  The plan is based on live data. Applied moves go into scenario &quot;{activeScenario.name}&quot;.
+                </div>
+              )}
+
+              {dataLoading ? (
+                <PageLoader text="Loading sellers..." />
+              ) : (
+                <div className="flex flex-wrap items-end gap-3">
+                  {seesAllSellers && (
+                    <>
+                      <div className="space-y-1">
+                        <Label>Sellers</Label>
+                        <Select
+                          value={scopeType}
+                          onValueChange={(value) => {
+                            setScopeType(value as ScopeType);
+                            setScopeValue('');
+                          }}
+                        >
+                          <SelectTrigger className="w-[200px]">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="all">Everyone</SelectItem>
+                            <SelectItem value="division">A division</SelectItem>
+                            <SelectItem value="manager">A manager&apos;s team</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      {scopeType !== 'all' && (
+                        <div className="space-y-1">
+                          <Label>{scopeType === 'division' ? 'Division' : 'Manager'}</Label>
+                          <Select value={scopeValue} onValueChange={setScopeValue}>
+                            <SelectTrigger className="w-[240px]">
+                              <SelectValue placeholder={scopeType === 'division' ? 'Select a division' : 'Select a manager'} />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {scopeType === 'division'
+                                ? DIVISIONS.map(division => (
+                                    <SelectItem key={division} value={division}>{division}</SelectItem>
+                                  ))
+                                : managers.map(manager => (
+                                    <SelectItem key={manager.id} value={manager.id}>{manager.name}</SelectItem>
+                                  ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                      )}
+                    </>
+                  )}
+                  <div className="space-y-1">
+                    <Label htmlFor="max-moves">Max moves</Label>
+                    <Input
+                      id="max-moves"
+                      type="number"
+                      min={1}
+                      max={500}
+                      value={maxMoves}
+                      onChange={(e) => setMaxMoves(e.target.value)}
+                      className="w-[120px]"
+                    />
+                  </div>
+                  <Button
+                    onClick={handleGenerate}
+                    disabled={planning || scopedRows.length === 0 || (scopeType !== 'all' && !scopeValue)}
+                    className="flex items-center gap-2"
+                  >
+                    <Sparkles className="h-4 w-4" />
+                    {planning ? 'Planning...' : 'Suggest Moves'}
+                  </Button>
+                  <span className="text-sm text-slate-500 mb-2">
+                    {!seesAllSellers ? 'Your team' : `${scopedRows.length} seller${scopedRows.length === 1 ? '' : 's'} in scope`}
+                  </span>
+                </div>
+              )}
+
+              {planning && (
+                <PageLoader text={progress || 'Building plan...'} />
+              )}
+            </CardContent>
+          </Card>
+
+          {plan && (
+            <>
+              {/* Outcome */}
+              <Card className="bg-white/80 backdrop-blur-sm border-slate-200 shadow-sm mb-8">
+                <CardHeader className="pb-4">
+                  <CardTitle className="text-lg">Outcome</CardTitle>
+                  <CardDescription className="text-slate-600">
+                    {healthyBefore} of {plan.sellers.length} sellers are healthy today; {healthyAfter} would be after all {plan.suggestions.length} suggested move{plan.suggestions.length === 1 ? '' : 's'}.
+                  </CardDescription>
+                </CardHeader>
+                {changedSellers.length > 0 && (
+                  <CardContent>
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Seller</TableHead>
+                          <TableHead>Healthy Range</TableHead>
+                          <TableHead className="text-right">Book Revenue</TableHead>
+                          <TableHead className="text-right">Accounts</TableHead>
+                          <TableHead>Health</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {changedSellers.map(seller => (
+                          <TableRow key={seller.seller_id}>
+                            <TableCell>
+                              <Link href={`/sellers/${seller.seller_id}`} className="font-medium text-blue-700 hover:underline">
+                                {seller.seller_name}
+                              </Link>
+                            </TableCell>
+                            <TableCell className="text-xs text-slate-600">
+                              {formatCurrency(seller.threshold.min_revenue)}–{formatCurrency(seller.threshold.max_revenue)}, up to {seller.threshold.max_accounts} accounts
+                            </TableCell>
+                            <TableCell className="text-right text-sm">
+                              {formatCurrency(seller.revenue_before)} → {formatCurrency(seller.revenue_after)}
+                            </TableCell>
+                            <TableCell className="text-right text-sm">
+                              {seller.accounts_before} → {seller.accounts_after}
+                            </TableCell>
+                            <TableCell>
+                              <span className={`text-xs font-medium ${seller.healthy_before ? 'text-green-700' : 'text-red-700'}`}>
+                                {seller.healthy_before ? 'Healthy' : 'Unhealthy'}
+                              </span>
+                              <span className="text-slate-400 text-xs"> → </span>
+                              <span className={`text-xs font-medium ${seller.healthy_after ? 'text-green-700' : 'text-red-700'}`}>
+                                {seller.healthy_after ? 'Healthy' : 'Unhealthy'}
+                              </span>
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </CardContent>
+                )}
+              </Card>
+
+              {/* Suggestions */}
+              <Card className="bg-white/80 backdrop-blur-sm border-slate-200 shadow-sm">
+                <CardHeader className="pb-4">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <CardTitle className="text-lg">Suggested Moves</CardTitle>
+                      <CardDescription className="text-slate-600">
+                        {applyTarget?.type === 'request'
+                          ? 'Moves are sent to MASTER for approval, like any other manager change.'
+                          : 'Moves are listed in the order they were chosen; later ones assume the earlier ones were applied.'}
+                      </CardDescription>
+                    </div>
+                    <Button
+                      onClick={() => applySuggestions(pendingSuggestions)}
+                      disabled={pendingSuggestions.length === 0 || applyingIds.size > 0}
+                      className="flex items-center gap-2"
+                    >
+                      <CheckCheck className="h-4 w-4" />
+                      {applyLabel} All ({pendingSuggestions.length})
+                    </Button>
+                  </div>
+                </CardHeader>
+                <CardContent>
+                  {plan.suggestions.length === 0 ? (
+                    <div className="text-center py-12 text-slate-500">
+                      <Scale className="h-10 w-10 mx-auto mb-3 text-slate-300" />
+                      <p>No moves would improve balance for these sellers</p>
+                    </div>
+                  ) : (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Account</TableHead>
+                          <TableHead>Move</TableHead>
+                          <TableHead className="text-right">Fit</TableHead>
+                          <TableHead>Why</TableHead>
+                          <TableHead className="text-right">Action</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {plan.suggestions.map(suggestion => {
+                          const applied = appliedIds.has(suggestion.id);
+                          const applying = applyingIds.has(suggestion.id);
+                          return (
+                            <TableRow key={suggestion.id} className={applied ? 'opacity-60' : undefined}>
+                              <TableCell className="align-top">
+                                <div className="font-medium text-slate-900">{suggestion.account_name}</div>
+                                <div className="text-xs text-slate-500">{formatCurrency(suggestion.account_revenue)}</div>
+                              </TableCell>
+                              <TableCell className="align-top text-sm">
+                                <div className="flex items-center gap-1 flex-wrap">
+                                  <span className="text-slate-600">
+                                    {suggestion.from_seller_name ?? 'Unassigned'}
+                                    {suggestion.from_status && (
+                                      <span className="text-xs text-slate-400"> ({formatStatus(suggestion.from_status)})</span>
+                                    )}
+                                  </span>
+                                  <ArrowRight className="h-3 w-3 text-slate-400" />
+                                  <span className="font-medium text-slate-900">{suggestion.to_seller_name}</span>
+                                </div>
+                              </TableCell>
+                              <TableCell className="align-top text-right text-sm">
+                                {suggestion.fit_percentage !== null ? `${Math.round(suggestion.fit_percentage)}%` : '—'}
+                              </TableCell>
+                              <TableCell className="align-top">
+                                <ul className="space-y-0.5 text-xs text-slate-600 list-disc pl-4">
+                                  {suggestion.reasons.map(reason => (
+                                    <li key={reason}>{reason}</li>
+                                  ))}
+                                </ul>
+                              </TableCell>
+                              <TableCell className="align-top text-right">
+                                {applied ? (
+                                  <Badge variant="secondary" className="gap-1">
+                                    <Check className="h-3 w-3" />
+                                    Done
+                                  </Badge>
+                                ) : (
+                                  <Button
+                                    size="sm"
+                                    variant="outline"
+                                    onClick={() => applySuggestions([suggestion])}
+                                    disabled={applying || !applyTarget}
+                                  >
+                                    {applying ? 'Applying...' : applyLabel}
+                                  </Button>
+                                )}
+                              </TableCell>
+                            </TableRow>
+                          );
+                        })}
+                      </TableBody>
+                    </Table>
+                  )}
+                </CardContent>
+              </Card>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,722 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { useRouter } from 'next/navigation';
+import { useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
+import {
+  ArrowLeft,
+  Home,
+  Shield,
+  RefreshCw,
+  FlaskConical,
+  Plus,
+  GitCompare,
+  Rocket,
+  Trash2,
+  Play,
+} from 'lucide-react';
+import Link from 'next/link';
+import { supabase } from '@/integrations/supabase/client';
+import { PageLoader } from '@/components/ui/loader';
+import { LoadingTimeout } from '@/components/ui/loading-timeout';
+import { useAudit } from '@/hooks/use-audit';
+import { usePermissions } from '@/hooks/use-permissions';
+import { useActiveScenario } from '@/hooks/use-active-scenario';
+import { AUDIT_ACTIONS, AUDIT_ENTITIES } from '@/lib/audit';
+import { getHealthThresholds } from '@/lib/seller-health';
+import { getScopedDashboardData } from '@/lib/unified-dashboard-query';
+import {
+  getScenarios,
+  createScenario,
+  deleteScenario,
+  promoteScenario,
+  getScenarioOverlay,
+  getScenarioConflicts,
+  applyScenarioToDashboard,
+  compareScenarioToLive,
+  Scenario,
+  ScenarioConflict,
+  ScenarioOverlay,
+  ScenarioSellerImpact,
+} from '@/lib/scenarios';
+
+const formatCurrency = (amount: number) => {
+  const sign = amount < 0 ? '-' : '';
+  const value = Math.abs(amount);
+  return value >= 1_000_000
+    ? `${sign}$${(value / 1_000_000).toFixed(1)}M`
+    : value >= 1_000
+    ? `${sign}$${(value / 1_000).toFixed(0)}K`
+    : `${sign}$${value.toFixed(0)}`;
+};
+
+const formatStatus = (status: string | null) => {
+  if (!status) return 'Unassigned';
+  return status.replace(/_/g, ' ').replace(/\b\w/g, c => c.toUpperCase());
+};
+
+function HealthChange({ before, after }: { before: boolean; after: boolean }) {
+  const label = (healthy: boolean) => (healthy ? 'Healthy' : 'Unhealthy');
+  const tone = (healthy: boolean) => (healthy ? 'text-green-700' : 'text-red-700');
+
+  if (before === after) {
+    return <span className={`text-xs font-medium ${tone(after)}`}>{label(after)}</span>;
+  }
+
+  return (
+    <span className="text-xs font-medium">
+      <span className={tone(before)}>{label(before)}</span>
+      <span className="text-slate-400"> → </span>
+      <span className={tone(after)}>{label(after)}</span>
+    </span>
+  );
+}
+
+function CountChange({ before, after }: { before: number; after: number }) {
+  if (before === after) {
+    return <span className="text-sm text-slate-600">{after}</span>;
+  }
+
+  return (
+    <span className={`text-sm font-medium ${after < before ? 'text-green-700' : 'text-red-700'}`}>
+      {before} → {after}
+    </span>
+  );
+}
+
+export default function ScenariosPage() {
+  const { user, profile, loading } = useAuth();
+  const { toast } = useToast();
+  const router = useRouter();
+  const queryClient = useQueryClient();
+  const { logCreate, logDelete, logEvent } = useAudit();
+  const { can, assertCan, scope } = usePermissions();
+  const { activeScenarioId, setActiveScenarioId } = useActiveScenario();
+  const [scenarios, setScenarios] = useState<Scenario[]>([]);
+  const [dataLoading, setDataLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [showCreateDialog, setShowCreateDialog] = useState(false);
+  const [scenarioName, setScenarioName] = useState('');
+  const [scenarioDescription, setScenarioDescription] = useState('');
+  const [creating, setCreating] = useState(false);
+  const [pendingAction, setPendingAction] = useState<{ scenario: Scenario; action: 'promote' | 'delete' } | null>(null);
+  const [actionRunning, setActionRunning] = useState(false);
+  const [promoteConflicts, setPromoteConflicts] = useState<ScenarioConflict[] | null>(null);
+  const [comparedScenario, setComparedScenario] = useState<Scenario | null>(null);
+  const [comparison, setComparison] = useState<{ impact: ScenarioSellerImpact[]; overlay: ScenarioOverlay; sellerNames: Map<string, string> } | null>(null);
+  const [comparing, setComparing] = useState(false);
+
+  const canUseScenarios = can('scenario.edit');
+  const canPromote = can('scenario.promote');
+
+  // Redirect if not authenticated
+  useEffect(() => {
+    if (!loading && !user) {
+      router.push('/auth');
+    }
+  }, [user, loading, router]);
+
+  const fetchScenarios = useCallback(async () => {
+    try {
+      setDataLoading(true);
+      setScenarios(await getScenarios());
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to load scenarios',
+        variant: 'destructive',
+      });
+    } finally {
+      setDataLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    if (canUseScenarios) {
+      fetchScenarios();
+    }
+  }, [canUseScenarios, fetchScenarios]);
+
+  // Live assignments changed since a scenario change was made block promotion
+  useEffect(() => {
+    setPromoteConflicts(null);
+    if (pendingAction?.action !== 'promote') return;
+
+    let cancelled = false;
+    getScenarioConflicts(pendingAction.scenario.id)
+      .then(conflicts => {
+        if (!cancelled) setPromoteConflicts(conflicts);
+      })
+      .catch(() => {
+        // The promotion itself still refuses conflicting changes
+        if (!cancelled) setPromoteConflicts([]);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [pendingAction]);
+
+  const blockingConflicts = (promoteConflicts || []).filter(conflict => !conflict.missing);
+  const missingConflicts = (promoteConflicts || []).filter(conflict => conflict.missing);
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    try {
+      await fetchScenarios();
+    } finally {
+      setRefreshing(false);
+    }
+  };
+
+  const handleCompare = async (scenario: Scenario) => {
+    if (!scope) return;
+
+    setComparedScenario(scenario);
+    setComparing(true);
+    try {
+      const [liveRows, overlay, thresholds] = await Promise.all([
+        getScopedDashboardData(scope),
+        getScenarioOverlay(scenario.id),
+        getHealthThresholds(),
+      ]);
+
+      setComparison({
+        impact: compareScenarioToLive(liveRows, applyScenarioToDashboard(liveRows, overlay, thresholds)),
+        overlay,
+        sellerNames: new Map(liveRows.map(row => [row.seller_id, row.seller_name] as [string, string])),
+      });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: `Failed to compare scenario: ${error instanceof Error ? error.message : (error as any)?.message || 'Unknown error'}`,
+        variant: 'destructive',
+      });
+    } finally {
+      setComparing(false);
+    }
+  };
+
+  const handleOpen = (scenario: Scenario) => {
+    setActiveScenarioId(scenario.id);
+    router.push('/dashboard');
+  };
+
+  const closeCreateDialog = () => {
+    setShowCreateDialog(false);
+    setScenarioName('');
+    setScenarioDescription('');
+  };
+
+  const handleCreateScenario = async () => {
+    if (!scenarioName.trim()) return;
+
+    setCreating(true);
+    try {
+      const scenario = await createScenario(scenarioName, scenarioDescription);
+      await logCreate(AUDIT_ENTITIES.SCENARIO, scenario.id, {
+        name: scenario.name,
+        description: scenario.description,
+      });
+
+      toast({
+        title: 'Scenario Created',
+        description: `"${scenario.name}" is now active. Moves you make are saved to the scenario, not to live data.`,
+      });
+
+      closeCreateDialog();
+      setActiveScenarioId(scenario.id);
+      queryClient.invalidateQueries({ queryKey: ['scenarios'] });
+      await fetchScenarios();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: `Failed to create scenario: ${error instanceof Error ? error.message : (error as any)?.message || 'Unknown error'}`,
+        variant: 'destructive',
+      });
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handlePendingAction = async () => {
+    if (!pendingAction) return;
+
+    const { scenario, action } = pendingAction;
+    setActionRunning(true);
+    try {
+      const auditData = {
+        name: scenario.name,
+        owner_id: scenario.owner_id,
+        change_count: scenario.change_count ?? 0,
+      };
+
+      if (action === 'promote') {
+        assertCan('scenario.promote');
+        await promoteScenario(scenario.id);
+        await logEvent(AUDIT_ACTIONS.PROMOTE, AUDIT_ENTITIES.SCENARIO, scenario.id, null, auditData);
+
+        // Health and totals come from the performance views
+        try {
+          await supabase.rpc('refresh_performance_views_simple');
+        } catch (refreshError) {
+          // Don't fail the promotion if refresh fails
+        }
+
+        queryClient.invalidateQueries({ queryKey: ['unified-dashboard'], exact: false });
+        queryClient.invalidateQueries({ queryKey: ['manager-performance'] });
+        queryClient.invalidateQueries({ queryKey: ['sellerDetail'], exact: false });
+      } else {
+        await deleteScenario(scenario.id);
+        await logDelete(AUDIT_ENTITIES.SCENARIO, scenario.id, auditData);
+      }
+
+      if (activeScenarioId === scenario.id) {
+        setActiveScenarioId(null);
+      }
+      if (comparedScenario?.id === scenario.id) {
+        setComparedScenario(null);
+        setComparison(null);
+      }
+
+      toast({
+        title: action === 'promote' ? 'Scenario Promoted' : 'Scenario Deleted',
+        description: action === 'promote'
+          ? `Live assignments now include the changes from "${scenario.name}". The previous state was saved as a snapshot.`
+          : `"${scenario.name}" was deleted.`,
+      });
+
+      setPendingAction(null);
+      queryClient.invalidateQueries({ queryKey: ['scenarios'] });
+      queryClient.invalidateQueries({ queryKey: ['scenario'], exact: false });
+      await fetchScenarios();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: `Failed to ${action} scenario: ${error instanceof Error ? error.message : (error as any)?.message || 'Unknown error'}`,
+        variant: 'destructive',
+      });
+    } finally {
+      setActionRunning(false);
+    }
+  };
+
+  // Show loading while checking authentication
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-slate-50 to-blue-50 flex items-center justify-center">
+        <LoadingTimeout timeout={15000}>
+          <PageLoader text="Authenticating..." />
+        </LoadingTimeout>
+      </div>
+    );
+  }
+
+  // Don't render anything if not authenticated (will redirect)
+  if (!user) {
+    return null;
+  }
+
+  if (!canUseScenarios) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-2xl mx-auto">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Shield className="h-5 w-5 text-red-500" />
+                Access Denied
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <p className="text-slate-600">
+                You do not have permission to access scenarios.
+                Your role does not include planning territory changes in a sandbox.
+              </p>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-blue-50">
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-7xl mx-auto">
+          {/* Header */}
+          <div className="mb-8">
+            <div className="flex items-center gap-4 mb-6">
+              <Link
+                href="/dashboard"
+                className="flex items-center gap-2 text-slate-600 hover:text-slate-900 transition-colors"
+              >
+                <ArrowLeft className="h-4 w-4" />
+                <span className="text-sm font-medium">Back to Dashboard</span>
+              </Link>
+              <div className="h-6 w-px bg-slate-300" />
+              <Link
+                href="/dashboard"
+                className="flex items-center gap-2 text-slate-600 hover:text-slate-900 transition-colors"
+              >
+                <Home className="h-4 w-4" />
+                <span className="text-sm font-medium">Dashboard</span>
+              </Link>
+            </div>
+
+            <div className="bg-white/80 backdrop-blur-sm rounded-2xl p-8 border border-slate-200 shadow-sm">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-3">
+                  <div className="p-3 bg-violet-100 rounded-xl">
+                    <FlaskConical className="h-6 w-6 text-violet-600" />
+                  </div>
+                  <div>
+                    <h1 className="text-3xl font-bold text-slate-900">Scenarios</h1>
+                    <p className="text-slate-600 mt-1">
+                      Plan territory moves in a sandbox, compare them with live data and promote the ones you keep
+                    </p>
+                  </div>
+                </div>
+
+                <div className="flex items-center gap-2">
+                  <Button
+                    variant="outline"
+                    onClick={handleRefresh}
+                    disabled={refreshing}
+                    className="flex items-center gap-2"
+                  >
+                    <RefreshCw className={`h-4 w-4 ${refreshing ? 'animate-spin' : ''}`} />
+                    Refresh
+                  </Button>
+                  <Button
+                    onClick={() => setShowCreateDialog(true)}
+                    className="flex items-center gap-2"
+                  >
+                    <Plus className="h-4 w-4" />
+                    New Scenario
+                  </Button>
+                </div>
+              </div>
+            </div>
+          </div>
+
+          {/* Scenario list */}
+          <Card className="bg-white/80 backdrop-blur-sm border-slate-200 shadow-sm mb-8">
+            <CardHeader className="pb-4">
+              <CardTitle className="text-lg">Scenarios</CardTitle>
+              <CardDescription className="text-slate-600">
+                While a scenario is open, moves on the dashboard and seller pages are saved to it instead of live data.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {dataLoading ? (
+                <PageLoader text="Loading scenarios..." />
+              ) : scenarios.length === 0 ? (
+                <div className="text-center py-12 text-slate-500">
+                  <FlaskConical className="h-10 w-10 mx-auto mb-3 text-slate-300" />
+                  <p>No scenarios yet</p>
+                </div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Name</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Owner</TableHead>
+                      <TableHead>Last Edited</TableHead>
+                      <TableHead className="text-right">Changes</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {scenarios.map((scenario) => {
+                      const isOwner = scenario.owner_id === profile?.id;
+                      const isDraft = scenario.status === 'draft';
+
+                      return (
+                        <TableRow key={scenario.id}>
+                          <TableCell>
+                            <div className="font-medium text-slate-900 flex items-center gap-2">
+                              {scenario.name}
+                              {activeScenarioId === scenario.id && (
+                                <Badge className="bg-violet-100 text-violet-800 border-violet-200">Active</Badge>
+                              )}
+                            </div>
+                            {scenario.description && (
+                              <div className="text-xs text-slate-500">{scenario.description}</div>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            <Badge variant={isDraft ? 'secondary' : 'default'}>
+                              {isDraft ? 'Draft' : 'Promoted'}
+                            </Badge>
+                            {scenario.promoted_at && (
+                              <div className="text-xs text-slate-500 mt-1">{new Date(scenario.promoted_at).toLocaleString()}</div>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-sm text-slate-900">{scenario.owner?.name ?? 'Unknown'}</TableCell>
+                          <TableCell className="text-sm text-slate-900">{new Date(scenario.updated_at).toLocaleString()}</TableCell>
+                          <TableCell className="text-right">{(scenario.change_count ?? 0).toLocaleString()}</TableCell>
+                          <TableCell className="text-right">
+                            <div className="flex justify-end gap-2">
+                              {isDraft && isOwner && (
+                                <Button size="sm" variant="outline" onClick={() => handleOpen(scenario)}>
+                                  <Play className="h-4 w-4 mr-1" />
+                                  Open
+                                </Button>
+                              )}
+                              {isDraft && (
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() => handleCompare(scenario)}
+                                  disabled={comparing}
+                                >
+                                  <GitCompare className="h-4 w-4 mr-1" />
+                                  Compare
+                                </Button>
+                              )}
+                              {isDraft && canPromote && (
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() => setPendingAction({ scenario, action: 'promote' })}
+                                  disabled={(scenario.change_count ?? 0) === 0}
+                                >
+                                  <Rocket className="h-4 w-4 mr-1" />
+                                  Promote
+                                </Button>
+                              )}
+                              {isOwner && (
+                                <Button
+                                  size="sm"
+                                  variant="ghost"
+                                  className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                                  onClick={() => setPendingAction({ scenario, action: 'delete' })}
+                                >
+                                  <Trash2 className="h-4 w-4" />
+                                </Button>
+                              )}
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Comparison with live */}
+          <Card className="bg-white/80 backdrop-blur-sm border-slate-200 shadow-sm">
+            <CardHeader className="pb-4">
+              <CardTitle className="text-lg flex items-center gap-2">
+                <GitCompare className="h-5 w-5" />
+                Compare with Live
+              </CardTitle>
+              <CardDescription className="text-slate-600">
+                Book size, revenue, health and mismatch flags for every seller the scenario touches, live versus scenario.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              {comparing ? (
+                <PageLoader text="Comparing scenario..." />
+              ) : !comparison || !comparedScenario ? (
+                <p className="text-sm text-slate-500">Pick a scenario to compare with live data.</p>
+              ) : comparison.overlay.changes.length === 0 ? (
+                <div className="text-center py-8 text-slate-500">
+                  <p>&quot;{comparedScenario.name}&quot; has no changes yet</p>
+                </div>
+              ) : (
+                <>
+                  <p className="text-sm text-slate-600">
+                    <strong>{comparedScenario.name}</strong> changes {comparison.overlay.changes.length} relationship{comparison.overlay.changes.length === 1 ? '' : 's'} across {comparison.impact.length} seller{comparison.impact.length === 1 ? '' : 's'}.
+                  </p>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Seller</TableHead>
+                        <TableHead>Book Accounts</TableHead>
+                        <TableHead className="text-right">Book Revenue</TableHead>
+                        <TableHead>Revenue Health</TableHead>
+                        <TableHead>Account Health</TableHead>
+                        <TableHead>Size Mismatches</TableHead>
+                        <TableHead>Industry Mismatches</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {comparison.impact.map(row => {
+                        const revenueDelta = row.revenue_after - row.revenue_before;
+                        return (
+                          <TableRow key={row.seller_id}>
+                            <TableCell>
+                              <Link href={`/sellers/${row.seller_id}`} className="font-medium text-blue-700 hover:underline">
+                                {row.seller_name}
+                              </Link>
+                              <div className="text-xs text-slate-500">{row.change_count} change{row.change_count === 1 ? '' : 's'}</div>
+                            </TableCell>
+                            <TableCell>
+                              <CountChange before={row.accounts_before} after={row.accounts_after} />
+                            </TableCell>
+                            <TableCell className="text-right">
+                              <div className={`font-semibold ${revenueDelta > 0 ? 'text-green-700' : revenueDelta < 0 ? 'text-red-700' : 'text-slate-600'}`}>
+                                {revenueDelta > 0 ? '+' : ''}{formatCurrency(revenueDelta)}
+                              </div>
+                              <div className="text-xs text-slate-500">
+                                {formatCurrency(row.revenue_before)} → {formatCurrency(row.revenue_after)}
+                              </div>
+                            </TableCell>
+                            <TableCell>
+                              <HealthChange before={row.is_revenue_healthy_before} after={row.is_revenue_healthy_after} />
+                            </TableCell>
+                            <TableCell>
+                              <HealthChange before={row.is_account_healthy_before} after={row.is_account_healthy_after} />
+                            </TableCell>
+                            <TableCell>
+                              <CountChange before={row.size_mismatches_before} after={row.size_mismatches_after} />
+                            </TableCell>
+                            <TableCell>
+                              <CountChange before={row.industry_mismatches_before} after={row.industry_mismatches_after} />
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+
+                  <div>
+                    <h3 className="text-sm font-semibold text-slate-900 mb-2">Relationship Changes</h3>
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Account</TableHead>
+                          <TableHead>Seller</TableHead>
+                          <TableHead>Live</TableHead>
+                          <TableHead>Scenario</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {comparison.overlay.changes.map(change => (
+                          <TableRow key={`${change.account_id}:${change.seller_id}`}>
+                            <TableCell className="text-sm">{comparison.overlay.accounts.get(change.account_id)?.name ?? 'Deleted account'}</TableCell>
+                            <TableCell className="text-sm">{comparison.sellerNames.get(change.seller_id) ?? 'Other seller'}</TableCell>
+                            <TableCell className="text-sm text-slate-600">
+                              {formatStatus(comparison.overlay.liveStatuses.get(`${change.account_id}:${change.seller_id}`) ?? null)}
+                            </TableCell>
+                            <TableCell className="text-sm font-medium text-violet-800">{formatStatus(change.status)}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                </>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+
+      {/* Create scenario dialog */}
+      <Dialog open={showCreateDialog} onOpenChange={(open) => !open && closeCreateDialog()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>New Scenario</DialogTitle>
+            <DialogDescription>
+              Starts from live data. Nothing you change in the scenario affects live assignments until it is promoted.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="scenario-name">Name</Label>
+              <Input
+                id="scenario-name"
+                value={scenarioName}
+                onChange={(e) => setScenarioName(e.target.value)}
+                placeholder="e.g. Move Northeast MM to new hires"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="scenario-description">Description (optional)</Label>
+              <Textarea
+                id="scenario-description"
+                value={scenarioDescription}
+                onChange={(e) => setScenarioDescription(e.target.value)}
+                rows={3}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={closeCreateDialog} disabled={creating}>
+              Cancel
+            </Button>
+            <Button onClick={handleCreateScenario} disabled={creating || !scenarioName.trim()}>
+              {creating ? 'Creating...' : 'Create Scenario'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Promote / delete confirmation */}
+      <AlertDialog open={!!pendingAction} onOpenChange={(open) => !open && !actionRunning && setPendingAction(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {pendingAction?.action === 'promote' ? 'Promote Scenario' : 'Delete Scenario'}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingAction?.action === 'promote'
+                ? `The ${pendingAction?.scenario.change_count ?? 0} change(s) in "${pendingAction?.scenario.name}" will be applied to live assignments. A snapshot is taken first so this can be undone.`
+                : `"${pendingAction?.scenario.name}" and its changes will be permanently deleted. Live data is not affected.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          {pendingAction?.action === 'promote' && blockingConflicts.length > 0 && (
+            <div className="rounded-lg border border-red-200 bg-red-50 p-3 text-sm text-red-800">
+              <p className="font-medium">
+                {blockingConflicts.length} change(s) conflict with live assignments changed since they were made. Re-apply them in the scenario before promoting.
+              </p>
+              <ul className="mt-2 space-y-0.5 text-xs max-h-40 overflow-y-auto">
+                {blockingConflicts.map(conflict => (
+                  <li key={`${conflict.account_id}:${conflict.seller_id}`}>
+                    {conflict.account_name ?? 'Unknown account'} · {conflict.seller_name ?? 'Unknown seller'}: was {formatStatus(conflict.base_status)}, now {formatStatus(conflict.live_status)}, scenario {formatStatus(conflict.status)}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+          {pendingAction?.action === 'promote' && missingConflicts.length > 0 && (
+            <div className="rounded-lg border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800">
+              {missingConflicts.length} change(s) refer to accounts or sellers that no longer exist and will be skipped.
+            </div>
+          )}
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={actionRunning}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                handlePendingAction();
+              }}
+              disabled={actionRunning || (pendingAction?.action === 'promote' && (promoteConflicts === null || blockingConflicts.length > 0))}
+              className={pendingAction?.action === 'delete' ? 'bg-red-600 hover:bg-red-700' : undefined}
+            >
+              {actionRunning
+                ? (pendingAction?.action === 'promote' ? 'Promoting...' : 'Deleting...')
+                : (pendingAction?.action === 'promote' ? 'Promote' : 'Delete')}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -6,7 +6,10 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Checkbox } from "@/components/ui/checkbox";
-import { ArrowLeft, Loader2, Building2, LockIcon, DollarSign, Map, MapPin, Calendar, Search, Users, Target, TrendingUp, Globe, Briefcase, MessageCircle, ArrowUpDown, ArrowUp, ArrowDown, Shield } from "lucide-react";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ArrowLeft, Loader2, Building2, LockIcon, DollarSign, Map, MapPin, Route, Calendar, Search, Users, Target, TrendingUp, Globe, Briefcase, MessageCircle, ArrowUpDown, ArrowUp, ArrowDown, Shield, ClipboardCheck, FlaskConical } from "lucide-react";
 import React, { useEffect, useState, memo, useMemo, Suspense, lazy, useCallback } from "react";
 import { useAuth } from "@/contexts/AuthContext";
 import { useToast } from "@/hooks/use-toast";
@@ -20,6 +23,7 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { useQuery, useQueryClient } from "@tanstack/react-query";
 import Link from "next/link";
 import { useAudit } from "@/hooks/use-audit";
+import { usePermissions } from "@/hooks/use-permissions";
 import { DataLoader } from "@/components/ui/loader";
 import { SellerChat } from "@/components/seller/SellerChat";
 
@@ -31,15 +35,39 @@ import {
   getAssignedAccountsPaginated,
   getOriginalAccountsPaginated,
   getAccountFilterOptions,
+  getStatusArray,
   type SellerDetailData,
-  type AccountWithAssignment // NEW: Type for unified accounts
+  type AccountWithAssignment, // NEW: Type for unified accounts
+  type AccountSortField
 } from "@/lib/seller-detail-queries";
 
+// Import change request service (MANAGER moves need MASTER approval)
+import { createAccountChangeRequest, getPendingRequestAccountIds } from "@/lib/requests";
+import { AUDIT_ENTITIES } from "@/lib/audit";
+
+// Import snapshot service (books are snapshotted before finalization)
+import { createBookSnapshot } from "@/lib/book-snapshots";
+
+// Import scenario sandbox (what-if edits are kept out of live data)
+import { useActiveScenario } from "@/hooks/use-active-scenario";
+import {
+  applyScenarioToAccountPool,
+  applyScenarioToColumn,
+  getScenarioBookDelta,
+  getScenarioOverlay,
+  scenarioChangeKey,
+  setScenarioChange,
+} from "@/lib/scenarios";
+
 // Import server action for cache invalidation
 import { revalidateSellerData } from "../../../actions/revalidate";
 
 // Import chart components directly for better performance
 import { DivisionChart, StateChart, IndustryChart } from "@/components/charts/RevenueCharts";
+import { AccountMap, MapPoint } from "@/components/map/AccountMap";
+import { formatDistance, getTravelBurden } from "@/lib/geo";
+import { getFitContext, scoreAccountFit, toFitAccount, type FitContext } from "@/lib/fit-score";
+import { FitScoreBadge } from "@/components/seller/FitScoreBadge";
 
 type Account = {
   id: string;
@@ -72,6 +100,7 @@ type Account = {
   lng?: number | null;
   fitPercentage?: number;
   fit_percentage?: number; // NEW: From unified data structure
+  distance_km?: number | null; // Distance from the seller's home location
   // NEW: Assignment status fields
   assignment_status?: 'available' | 'must_keep' | 'for_discussion' | 'to_be_peeled' | 'pinned' | 'assigned' | 'up_for_debate' | 'approval_for_pinning' | 'approval_for_assigning' | 'peeled';
   assigned_seller_id?: string;
@@ -94,18 +123,21 @@ type Seller = {
 };
 
 
-// Note: Fit calculation is now handled by the database for better performance
-// The database uses a 4-criteria algorithm (Division, Geography, Industry, Size)
-// which is more efficient than the previous 5-criteria frontend approach
+// Note: The fit model lives in @/lib/fit-score (industry, size, division, revenue
+// headroom, geography). The accounts RPC mirrors it so it can sort by fit; cards
+// recompute it client-side to explain the score on hover.
 
 export default function SellerDetailPage() {
   const params = useParams();
   const id = params?.id as string;
-  const { profile, loading: authLoading } = useAuth();
+  const { profile, realProfile, loading: authLoading } = useAuth();
+  const { can, assertCan } = usePermissions();
+  // Read-only roles (VIEWER, SELLER) see the book without status dropdowns
+  const canChangeStatus = can("relationship.assign") || can("relationship.request");
   const { toast } = useToast();
   const router = useRouter();
   const queryClient = useQueryClient();
-  const { logPin, logUnpin, logEvent, logAssign, logUnassign, logUpdate } = useAudit();
+  const { logPin, logUnpin, logEvent, logAssign, logUnassign, logUpdate, logCreate } = useAudit();
   
   // Component mounted
   
@@ -156,7 +188,7 @@ export default function SellerDetailPage() {
   // Preserve tab state across re-renders by using sessionStorage
   useEffect(() => {
     const savedTab = sessionStorage.getItem(`seller-tab-${id}`);
-    if (savedTab && ["pinning", "exploration", "chat"].includes(savedTab)) {
+    if (savedTab && ["pinning", "exploration", "map", "chat"].includes(savedTab)) {
       setActiveTab(savedTab);
     }
   }, [id]);
@@ -199,6 +231,16 @@ export default function SellerDetailPage() {
   
   // Track recently moved accounts to ensure they're visible
   const [recentlyMovedAccounts, setRecentlyMovedAccounts] = useState<Set<string>>(new Set());
+
+  // MANAGER change request awaiting a justification before submission
+  const [changeRequestDraft, setChangeRequestDraft] = useState<{
+    accountId: string;
+    accountName: string;
+    previousStatus: string | null;
+    requestedStatus: string;
+  } | null>(null);
+  const [requestJustification, setRequestJustification] = useState("");
+  const [submittingRequest, setSubmittingRequest] = useState(false);
   
   // Thresholds for visual indicators (will be fetched from database)
   const [revenueThreshold, setRevenueThreshold] = useState(10_000_000); // Keep for backward compatibility
@@ -296,6 +338,7 @@ export default function SellerDetailPage() {
   const invalidateAllSellerQueries = useCallback(async () => {
     // Invalidate React Query cache (client-side)
     queryClient.invalidateQueries({ queryKey: ["sellerRevenue"] });
+    queryClient.invalidateQueries({ queryKey: ["fitContext", id] });
     queryClient.invalidateQueries({ queryKey: ["sellerDetail", id] });
     queryClient.invalidateQueries({ queryKey: ["originalAccounts", id] });
     queryClient.invalidateQueries({ queryKey: ["mustKeepAccounts", id] });
@@ -525,6 +568,17 @@ export default function SellerDetailPage() {
   // Handle finalized status change - memoized for performance
   const handleFinalizedChange = useCallback(async (finalized: boolean) => {
     try {
+      assertCan("book.finalize");
+
+      // Snapshot the book as it was right before it is finalized
+      if (finalized) {
+        try {
+          await createBookSnapshot(`Before finalizing ${seller?.name ?? 'seller'}`, 'finalization');
+        } catch (snapshotError) {
+          // Don't block finalization if the snapshot fails
+        }
+      }
+
       const { error } = await supabase
         .from("sellers")
         .update({ book_finalized: finalized })
@@ -574,7 +628,7 @@ export default function SellerDetailPage() {
         variant: "destructive",
       });
     }
-  }, [id, seller, logEvent, queryClient, toast]);
+  }, [id, seller, logEvent, queryClient, toast, assertCan]);
 
   // OPTIMIZED: Use optimized revenue query with better caching
   const { data: revenueData } = useQuery({
@@ -670,52 +724,39 @@ export default function SellerDetailPage() {
         return;
       }
 
-      if (profile.role === "MASTER") {
-        setAuthorized(true);
-        setChecking(false);
-        return;
-      }
+      // Same role-aware check the middleware runs, for the profile being
+      // rendered so "view as" follows the impersonated user's scope
+      const { data: allowed } = await (supabase as any).rpc("can_access_seller_as", {
+        p_profile_id: profile.id,
+        seller_id_param: id,
+      });
 
-      if (profile.role === "MANAGER") {
-        // Check if the seller exists and if the current manager is assigned to this seller
-        const { data: sellerManager } = await supabase
-          .from("seller_managers")
-          .select(`
-            seller_id,
-            managers!inner(user_id)
-          `)
-          .eq("seller_id", id)
-          .eq("managers.user_id", profile.id)
+      if (!allowed) {
+        // Check if seller exists at all
+        const { data: sellerExists } = await supabase
+          .from("sellers")
+          .select("id")
+          .eq("id", id)
           .maybeSingle();
 
-        if (!sellerManager) {
-          // Check if seller exists at all
-          const { data: sellerExists } = await supabase
-            .from("sellers")
-            .select("id")
-            .eq("id", id)
-            .maybeSingle();
-
-          if (!sellerExists) {
-            toast({
-              title: "Seller not found",
-              description: "The requested seller does not exist.",
-              variant: "destructive",
-            });
-          } else {
-            toast({
-              title: "Access denied",
-              description: "You do not manage this seller.",
-              variant: "destructive",
-            });
-          }
-          router.push("/dashboard");
-          return;
+        if (!sellerExists) {
+          toast({
+            title: "Seller not found",
+            description: "The requested seller does not exist.",
+            variant: "destructive",
+          });
+        } else {
+          toast({
+            title: "Access denied",
+            description: "This seller is outside your access.",
+            variant: "destructive",
+          });
         }
-
-        setAuthorized(true);
+        router.push("/dashboard");
+        return;
       }
 
+      setAuthorized(true);
       setChecking(false);
     })();
   }, [id, profile, router, toast, authLoading]);
@@ -736,7 +777,7 @@ export default function SellerDetailPage() {
   // Pagination state for available accounts
   const [availableAccountsPage, setAvailableAccountsPage] = useState(1);
   const [availableAccountsSearch, setAvailableAccountsSearch] = useState('');
-  const [availableAccountsSortBy, setAvailableAccountsSortBy] = useState<'fit_percentage' | 'name' | 'total_revenue'>('fit_percentage');
+  const [availableAccountsSortBy, setAvailableAccountsSortBy] = useState<AccountSortField>('fit_percentage');
   const [availableAccountsSortOrder, setAvailableAccountsSortOrder] = useState<'asc' | 'desc'>('desc');
   const [availableAccountsLimit, setAvailableAccountsLimit] = useState(50);
 
@@ -761,7 +802,7 @@ export default function SellerDetailPage() {
   const [originalSearch, setOriginalSearch] = useState('');
 
   // NEW UNIFIED APPROACH: Query for ALL accounts with assignment status (paginated)
-  const { data: allAccountsWithAssignmentStatus } = useQuery({
+  const { data: allAccountsWithAssignmentStatusLive } = useQuery({
     queryKey: ["allAccountsWithAssignmentStatus", id, availableAccountsPage, availableAccountsSearch, availableAccountsSortBy, availableAccountsSortOrder, availableAccountsLimit, filters.division, filters.size, filters.tier, filters.industry, filters.country, filters.state, filters.assignment_status],
     queryFn: () => getAllAccountsWithAssignmentStatus(
       id!,
@@ -779,21 +820,21 @@ export default function SellerDetailPage() {
 
 
   // OPTIMIZED: Query for must keep accounts (paginated) - WITH FILTERS AND SEARCH APPLIED
-  const { data: mustKeepPaginated } = useQuery({
+  const { data: mustKeepPaginatedLive } = useQuery({
     queryKey: ["mustKeepPaginated", id, mustKeepPage, mustKeepLimit, mustKeepSearch, filters.division, filters.size, filters.tier, filters.industry, filters.country, filters.state],
     queryFn: () => getAssignedAccountsPaginated(id!, 'must_keep', mustKeepPage, mustKeepLimit, mustKeepSearch || undefined, filters),
     enabled: !!id && authorized,
   });
 
   // OPTIMIZED: Query for for discussion accounts (paginated) - WITH FILTERS AND SEARCH APPLIED
-  const { data: forDiscussionPaginated } = useQuery({
+  const { data: forDiscussionPaginatedLive } = useQuery({
     queryKey: ["forDiscussionPaginated", id, forDiscussionPage, forDiscussionLimit, forDiscussionSearch, filters.division, filters.size, filters.tier, filters.industry, filters.country, filters.state],
     queryFn: () => getAssignedAccountsPaginated(id!, 'for_discussion', forDiscussionPage, forDiscussionLimit, forDiscussionSearch || undefined, filters),
     enabled: !!id && authorized,
   });
 
   // OPTIMIZED: Query for to be peeled accounts (paginated) - WITH FILTERS AND SEARCH APPLIED
-  const { data: toBePeeledPaginated } = useQuery({
+  const { data: toBePeeledPaginatedLive } = useQuery({
     queryKey: ["toBePeeledPaginated", id, toBePeeledPage, toBePeeledLimit, toBePeeledSearch, filters.division, filters.size, filters.tier, filters.industry, filters.country, filters.state],
     queryFn: () => getAssignedAccountsPaginated(id!, 'to_be_peeled', toBePeeledPage, toBePeeledLimit, toBePeeledSearch || undefined, filters),
     enabled: !!id && authorized,
@@ -806,6 +847,76 @@ export default function SellerDetailPage() {
     enabled: !!id && authorized,
   });
 
+  // Scenario sandbox: overlay the live columns with the active scenario's changes
+  const { activeScenarioId, activeScenario, setActiveScenarioId } = useActiveScenario();
+  const { data: scenarioOverlay } = useQuery({
+    queryKey: ["scenarioOverlay", activeScenarioId, id],
+    queryFn: () => getScenarioOverlay(activeScenarioId!, id),
+    enabled: !!id && authorized && !!activeScenarioId,
+  });
+  const activeOverlay = activeScenarioId ? scenarioOverlay : undefined;
+
+  const allAccountsWithAssignmentStatus = useMemo(
+    () => applyScenarioToAccountPool(allAccountsWithAssignmentStatusLive, activeOverlay, id),
+    [allAccountsWithAssignmentStatusLive, activeOverlay, id]
+  );
+  const mustKeepPaginated = useMemo(
+    () => applyScenarioToColumn(mustKeepPaginatedLive, activeOverlay, id, getStatusArray('must_keep'), mustKeepSearch),
+    [mustKeepPaginatedLive, activeOverlay, id, mustKeepSearch]
+  );
+  const forDiscussionPaginated = useMemo(
+    () => applyScenarioToColumn(forDiscussionPaginatedLive, activeOverlay, id, getStatusArray('for_discussion'), forDiscussionSearch),
+    [forDiscussionPaginatedLive, activeOverlay, id, forDiscussionSearch]
+  );
+  const toBePeeledPaginated = useMemo(
+    () => applyScenarioToColumn(toBePeeledPaginatedLive, activeOverlay, id, getStatusArray('to_be_peeled'), toBePeeledSearch),
+    [toBePeeledPaginatedLive, activeOverlay, id, toBePeeledSearch]
+  );
+
+  // Fit model inputs for this seller - used to explain each account's match score
+  const { data: fitContext } = useQuery({
+    queryKey: ["fitContext", id],
+    queryFn: () => getFitContext(id!),
+    enabled: !!id && authorized,
+    staleTime: 30 * 1000,
+  });
+
+  // Nearby available accounts for the map tab (best fits first)
+  const { data: mapAvailableAccounts } = useQuery({
+    queryKey: ["mapAvailableAccounts", id],
+    queryFn: () => getAllAccountsWithAssignmentStatus(id!, 1, 500, undefined, 'fit_percentage', 'desc', { assignment_status: 'available' }),
+    enabled: !!id && authorized && activeTab === "map",
+  });
+
+  const mapPoints = useMemo<MapPoint[]>(() => {
+    const toPoint = (account: Account, kind: MapPoint['kind']): MapPoint => ({
+      id: account.id,
+      name: account.name,
+      lat: account.lat,
+      lng: account.lng,
+      kind,
+      revenue: account.total_revenue,
+      subtitle: [account.city, account.state, account.country].filter(Boolean).join(', '),
+    });
+    const assignedIds = new Set([...mustKeepAccounts, ...forDiscussionAccounts, ...toBePeeledAccounts].map(a => a.id));
+    return [
+      ...mustKeepAccounts.map(a => toPoint(a, 'must_keep')),
+      ...forDiscussionAccounts.map(a => toPoint(a, 'for_discussion')),
+      ...toBePeeledAccounts.map(a => toPoint(a, 'to_be_peeled')),
+      ...((mapAvailableAccounts?.accounts || []) as Account[])
+        .filter(a => !assignedIds.has(a.id))
+        .map(a => toPoint(a, 'available')),
+    ];
+  }, [mustKeepAccounts, forDiscussionAccounts, toBePeeledAccounts, mapAvailableAccounts]);
+
+  // Accounts with a change request waiting for MASTER approval (MANAGER view)
+  const { data: pendingRequestAccountIds } = useQuery({
+    queryKey: ["pendingRequests", id],
+    queryFn: () => getPendingRequestAccountIds(id!),
+    enabled: !!id && authorized && can("relationship.request"),
+    staleTime: 30 * 1000,
+  });
+
   // Handle status change via dropdown selection - memoized for performance
   const handleStatusChange = useCallback(async (accountId: string, newStatus: string) => {
     // Cast to proper Account status type
@@ -859,7 +970,25 @@ export default function SellerDetailPage() {
     const isMovingBetweenColumns = isCurrentlyAssignedToThisSeller && isAssigning;
 
     try {
-      if (profile?.role === "MASTER") {
+      if (activeScenarioId) {
+        // Sandbox edit - recorded in the scenario, live data is untouched
+        await setScenarioChange({
+          scenarioId: activeScenarioId,
+          accountId,
+          sellerId: id,
+          status: status as string,
+          liveStatus: activeOverlay?.liveStatuses.get(scenarioChangeKey(accountId, id))
+            ?? (isCurrentlyAssignedToThisSeller ? ((account as any).status ?? null) : null),
+        });
+
+        queryClient.invalidateQueries({ queryKey: ["scenarioOverlay", activeScenarioId] });
+        queryClient.invalidateQueries({ queryKey: ["scenario", activeScenarioId] });
+
+        toast({
+          title: "Scenario updated",
+          description: `${account.name} moved to ${status?.replace('_', ' ') || status} in "${activeScenario?.name}". Live data is unchanged.`,
+        });
+      } else if (can("relationship.assign")) {
         if (isAssigning) {
           if (isMovingBetweenColumns) {
             // Update existing relationship
@@ -1088,173 +1217,100 @@ export default function SellerDetailPage() {
             description: `${account.name} has been unassigned from ${seller.name}`,
           });
         }
-      } else if (profile?.role === "MANAGER") {
-        // MANAGER users use the same optimized functions as MASTER users
-        if (isAssigning) {
-          if (isMovingBetweenColumns) {
-            // Update existing relationship
-            const { error } = await supabase
-              .from("relationship_maps")
-              .update({ 
-                status: status,
-                updated_at: new Date().toISOString()
-              })
-              .eq("account_id", accountId)
-              .eq("seller_id", id);
-
-            if (error) {
-              toast({
-                title: "Error",
-                description: `Failed to update account status: ${error.message}`,
-                variant: "destructive",
-              });
-              return;
-            }
-
-            // Log audit event for status change
-            try {
-              await logUpdate("relationship", accountId, { status: (account as any).status }, { status: status });
-            } catch (auditError) {
-              // Don't fail the main operation for audit issues
-            }
-
-            // Track this account as recently moved to ensure it's visible
-            setRecentlyMovedAccounts(prev => new Set([...Array.from(prev), accountId]));
-            
-            // Clear the recently moved flag after a delay
-            setTimeout(() => {
-              setRecentlyMovedAccounts(prev => {
-                const newSet = new Set(prev);
-                newSet.delete(accountId);
-                return newSet;
-              });
-            }, 3000); // Clear after 3 seconds
-
-            // Invalidate all seller-related queries
-            await invalidateAllSellerQueries();
-
-            toast({
-              title: "Account status updated",
-              description: `${account.name} status changed to ${status}`,
-            });
-          } else {
-            // Create new relationship
-            const { error } = await supabase
-              .from("relationship_maps")
-              .insert({
-                account_id: accountId,
-                seller_id: id,
-                status: status,
-                updated_at: new Date().toISOString()
-              });
-
-            if (error) {
-              toast({
-                title: "Error",
-                description: `Failed to assign account: ${error.message}`,
-                variant: "destructive",
-              });
-              return;
-            }
-
-            // Log audit event for assignment
-            try {
-              const auditData = {
-                status: status,
-                account_name: account.name,
-                seller_name: seller.name,
-              };
-              await logAssign(accountId, auditData);
-            } catch (auditError) {
-              // Don't fail the main operation for audit issues
-            }
-
-            // Track this account as recently moved to ensure it's visible
-            setRecentlyMovedAccounts(prev => new Set([...Array.from(prev), accountId]));
-            
-            // Clear the recently moved flag after a delay
-            setTimeout(() => {
-              setRecentlyMovedAccounts(prev => {
-                const newSet = new Set(prev);
-                newSet.delete(accountId);
-                return newSet;
-              });
-            }, 3000); // Clear after 3 seconds
+      } else if (can("relationship.request")) {
+        if ((pendingRequestAccountIds || []).includes(accountId)) {
+          toast({
+            title: "Request already pending",
+            description: `A change for ${account.name} is already waiting for MASTER approval.`,
+            variant: "destructive",
+          });
+          return;
+        }
 
-            // Invalidate all seller-related queries
-            await invalidateAllSellerQueries();
+        // MANAGER moves go through MASTER approval - collect a justification first
+        setChangeRequestDraft({
+          accountId,
+          accountName: account.name,
+          previousStatus: isCurrentlyAssignedToThisSeller ? ((account as any).status ?? null) : null,
+          requestedStatus: status as string,
+        });
+        setRequestJustification("");
+      } else {
+        toast({
+          title: "Read-only access",
+          description: "Your role can view this book but not change it.",
+          variant: "destructive",
+        });
+      }
+    } catch (error: any) {
+      toast({
+        title: "Unexpected Error",
+        description: `An unexpected error occurred: ${error?.message || 'Unknown error'}`,
+        variant: "destructive",
+      });
+    }
+  }, [seller, profile, id, toast, logUpdate, logAssign, queryClient, originalPaginated, mustKeepPaginated, forDiscussionPaginated, toBePeeledPaginated, allAccountsWithAssignmentStatus, pendingRequestAccountIds, activeScenarioId, activeScenario, activeOverlay, can]);
 
-            toast({
-              title: "Account assigned",
-              description: `${account.name} has been assigned to ${seller.name}`,
-            });
-          }
-        } else {
-          // Unassign account
-          const { error } = await supabase
-            .from("relationship_maps")
-            .delete()
-            .eq("account_id", accountId)
-            .eq("seller_id", id);
+  // Submit a MANAGER change request for MASTER approval
+  const handleSubmitChangeRequest = useCallback(async () => {
+    if (!changeRequestDraft || !profile || !seller) {
+      return;
+    }
 
-          if (error) {
-            toast({
-              title: "Error",
-              description: `Failed to unassign account: ${error.message}`,
-              variant: "destructive",
-            });
-            return;
-          }
+    if (!requestJustification.trim()) {
+      toast({
+        title: "Justification required",
+        description: "Please explain why this change is needed.",
+        variant: "destructive",
+      });
+      return;
+    }
 
-          // Track this account as recently moved to ensure it's visible
-          setRecentlyMovedAccounts(prev => new Set([...Array.from(prev), accountId]));
-          
-          // Clear the recently moved flag after a delay
-          setTimeout(() => {
-            setRecentlyMovedAccounts(prev => {
-              const newSet = new Set(prev);
-              newSet.delete(accountId);
-              return newSet;
-            });
-          }, 3000); // Clear after 3 seconds
+    setSubmittingRequest(true);
+    try {
+      const request = await createAccountChangeRequest({
+        account_id: changeRequestDraft.accountId,
+        seller_id: id,
+        requested_by: realProfile?.id ?? profile.id,
+        previous_status: changeRequestDraft.previousStatus,
+        requested_status: changeRequestDraft.requestedStatus,
+        justification: requestJustification,
+      });
 
-          // Invalidate all seller-related queries
-          await invalidateAllSellerQueries();
-          
-          // Refresh materialized view and revalidate dashboard if account was in must_keep
-          if ((account as any).status === 'must_keep') {
-            try {
-              await supabase.rpc('smart_refresh_performance_views');
-              queryClient.invalidateQueries({ queryKey: ["unifiedDashboard"] });
-              queryClient.invalidateQueries({ queryKey: ["unified-dashboard"], exact: false });
-              queryClient.invalidateQueries({ queryKey: ["manager-performance"] });
-              queryClient.invalidateQueries({ queryKey: ["sellerDetail", id] });
-            } catch (refreshError) {
-              // Don't throw error - this is not critical for the user action
-            }
-          }
+      // Log audit event for the new request
+      try {
+        await logCreate(AUDIT_ENTITIES.REQUEST, request.id, {
+          type: request.type,
+          account_id: request.account_id,
+          account_name: changeRequestDraft.accountName,
+          seller_id: id,
+          seller_name: seller.name,
+          previous_status: request.previous_status,
+          requested_status: request.requested_status,
+          justification: request.justification,
+        });
+      } catch (auditError) {
+        // Don't fail the main operation for audit issues
+      }
 
-          queryClient.invalidateQueries({ queryKey: ["allAccountsWithAssignmentStatus", id] });
-          queryClient.invalidateQueries({ queryKey: ["mustKeepPaginated", id] });
-          queryClient.invalidateQueries({ queryKey: ["forDiscussionPaginated", id] });
-          queryClient.invalidateQueries({ queryKey: ["toBePeeledPaginated", id] });
-          queryClient.invalidateQueries({ queryKey: ["originalPaginated", id] });
-          queryClient.invalidateQueries({ queryKey: ["sellerDetail", id] });
+      queryClient.invalidateQueries({ queryKey: ["pendingRequests", id] });
 
-          toast({
-            title: "Account unassigned",
-            description: `${account.name} has been unassigned from ${seller.name}`,
-          });
-        }
-      }
+      toast({
+        title: "Request submitted",
+        description: `Moving ${changeRequestDraft.accountName} to ${changeRequestDraft.requestedStatus.replace(/_/g, ' ')} is waiting for MASTER approval.`,
+      });
+      setChangeRequestDraft(null);
+      setRequestJustification("");
     } catch (error: any) {
       toast({
-        title: "Unexpected Error",
-        description: `An unexpected error occurred: ${error?.message || 'Unknown error'}`,
+        title: "Error",
+        description: `Failed to submit request: ${error?.message || 'Unknown error'}`,
         variant: "destructive",
       });
+    } finally {
+      setSubmittingRequest(false);
     }
-  }, [seller, profile, id, toast, logUpdate, logAssign, queryClient, originalPaginated, mustKeepPaginated, forDiscussionPaginated, toBePeeledPaginated, allAccountsWithAssignmentStatus]);
+  }, [changeRequestDraft, requestJustification, profile, seller, id, toast, logCreate, queryClient]);
 
   // Reset pagination when filters change - applies to all accounts
   useEffect(() => {
@@ -1646,8 +1702,12 @@ export default function SellerDetailPage() {
   }
 
 
-  const totalRevenue = revenueData ?? 0;
-  const totalAccounts = mustKeepAccounts.length;
+  const scenarioBookDelta = activeOverlay ? getScenarioBookDelta(activeOverlay, id) : { accounts: 0, revenue: 0 };
+  const totalRevenue = (revenueData ?? 0) + scenarioBookDelta.revenue;
+  const totalAccounts = mustKeepAccounts.length + scenarioBookDelta.accounts;
+
+  // Average and furthest distance from the seller's home across the book
+  const travelBurden = seller ? getTravelBurden(seller, mustKeepAccounts) : null;
   const statesCount = uniqueStates.size;
   
   // Calculate indicators using size-seniority based thresholds (same as dashboard)
@@ -1736,6 +1796,7 @@ export default function SellerDetailPage() {
                       id="header-book-finalized"
                       checked={isBookFinalized}
                       onCheckedChange={(checked) => handleFinalizedChange(checked as boolean)}
+                      disabled={!can("book.finalize")}
                       className="h-4 w-4"
                     />
                     <label 
@@ -1750,6 +1811,37 @@ export default function SellerDetailPage() {
             </div>
           </div>
 
+          {/* Scenario sandbox banner - metrics below include the scenario's changes */}
+          {activeScenario && (
+            <div className="bg-violet-50 border border-violet-200 rounded-xl p-4 mb-6 flex items-start justify-between gap-4">
+              <div className="flex items-start gap-3">
+                <FlaskConical className="h-5 w-5 text-violet-600 mt-0.5 flex-shrink-0" />
+                <div className="text-sm text-violet-800 space-y-1">
+                  <p className="font-semibold text-violet-900">Scenario: {activeScenario.name}</p>
+                  <p>
+                    Moves on this page are saved to the scenario only. {(activeOverlay?.changes || []).length} change{(activeOverlay?.changes || []).length === 1 ? '' : 's'} for this seller;
+                    book revenue and account health below reflect the scenario.
+                  </p>
+                </div>
+              </div>
+              <div className="flex items-center gap-2">
+                <Link href="/scenarios">
+                  <Button variant="outline" size="sm" className="border-violet-300 text-violet-800 hover:bg-violet-100">
+                    Compare with live
+                  </Button>
+                </Link>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setActiveScenarioId(null)}
+                  className="border-violet-300 text-violet-800 hover:bg-violet-100"
+                >
+                  Back to live
+                </Button>
+              </div>
+            </div>
+          )}
+
           {/* Compact Professional Seller Info Card */}
           {seller && (
             <div className="bg-gradient-to-br from-white via-slate-50 to-slate-100 rounded-2xl p-6 border border-slate-200/60 shadow-lg shadow-slate-200/20 mb-6 backdrop-blur-sm">
@@ -1888,6 +1980,24 @@ export default function SellerDetailPage() {
                       </div>
                       <span className="text-lg font-bold text-slate-900">{statesCount}</span>
                     </div>
+
+                    {/* Travel Burden */}
+                    <div className="col-span-2 group bg-white/70 backdrop-blur-sm rounded-lg p-3 border border-slate-200/60 shadow-sm hover:shadow-md transition-all duration-200 hover:border-orange-200">
+                      <div className="flex items-center gap-2 mb-1">
+                        <div className="p-1 bg-orange-100 rounded-md">
+                          <Route className="h-3.5 w-3.5 text-orange-600" />
+                        </div>
+                        <span className="text-xs font-semibold text-slate-600 uppercase tracking-wide">Travel Burden</span>
+                      </div>
+                      {travelBurden ? (
+                        <div className="flex items-baseline gap-3">
+                          <span className="text-lg font-bold text-slate-900">{formatDistance(travelBurden.averageKm)} avg</span>
+                          <span className="text-sm text-slate-600">{formatDistance(travelBurden.maxKm)} max</span>
+                        </div>
+                      ) : (
+                        <span className="text-sm text-slate-500">No located accounts</span>
+                      )}
+                    </div>
                   </div>
                 </div>
               </div>
@@ -1942,8 +2052,19 @@ export default function SellerDetailPage() {
                 </div>
                 
                 <CardDescription className="text-slate-600 mb-4">
-                  Use the dropdown selectors on each account to change their status. Changes are immediate for all users.
+                  {can("relationship.request")
+                    ? "Use the dropdown selectors on each account to request a status change. Requests are applied once a MASTER approves them."
+                    : "Use the dropdown selectors on each account to change their status. Changes are immediate for all users."}
                 </CardDescription>
+
+                {can("relationship.request") && (pendingRequestAccountIds?.length || 0) > 0 && (
+                  <div className="mb-4 flex items-center gap-2 text-sm text-blue-800 bg-blue-50 border border-blue-200 rounded-lg px-3 py-2">
+                    <ClipboardCheck className="h-4 w-4 text-blue-600" />
+                    <span>
+                      {pendingRequestAccountIds?.length} change {pendingRequestAccountIds?.length === 1 ? 'request is' : 'requests are'} waiting for MASTER approval
+                    </span>
+                  </div>
+                )}
                 
                 {/* Enhanced Protection Notice */}
                 <div className="bg-gradient-to-r from-amber-50 to-orange-50 border border-amber-200 rounded-xl p-4 shadow-sm">
@@ -2269,7 +2390,7 @@ export default function SellerDetailPage() {
               <DataLoader text="Loading account data..." />
             ) : (
               <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-                <TabsList className="grid w-full grid-cols-3 mb-6">
+                <TabsList className="grid w-full grid-cols-4 mb-6">
                   <TabsTrigger value="pinning" className="flex items-center gap-2">
                     <Target className="h-4 w-4" />
                     Account Pinning
@@ -2278,6 +2399,10 @@ export default function SellerDetailPage() {
                     <Search className="h-4 w-4" />
                     Account Exploration
                   </TabsTrigger>
+                  <TabsTrigger value="map" className="flex items-center gap-2">
+                    <Map className="h-4 w-4" />
+                    Map
+                  </TabsTrigger>
                   <TabsTrigger value="chat" className="flex items-center gap-2">
                     <MessageCircle className="h-4 w-4" />
                     Chat
@@ -2295,6 +2420,7 @@ export default function SellerDetailPage() {
                         totalCount={originalPaginated?.totalCount || 0}
                         emptyMessage="No original accounts"
                         isReadOnly
+                        fitContext={fitContext}
                         recentlyMovedAccounts={recentlyMovedAccounts}
                         paginationData={originalPaginated}
                         currentPage={originalPage}
@@ -2315,8 +2441,9 @@ export default function SellerDetailPage() {
                         accounts={(mustKeepPaginated?.accounts || []) as Account[]}
                         totalCount={mustKeepPaginated?.totalCount || 0}
                         emptyMessage="No accounts marked as must keep"
-                        userRole={profile?.role}
+                        userRole={canChangeStatus ? profile?.role : undefined}
                         onStatusChange={handleStatusChange}
+                        fitContext={fitContext}
                         recentlyMovedAccounts={recentlyMovedAccounts}
                         paginationData={mustKeepPaginated}
                         currentPage={mustKeepPage}
@@ -2337,8 +2464,9 @@ export default function SellerDetailPage() {
                         accounts={(forDiscussionPaginated?.accounts || []) as Account[]}
                         totalCount={forDiscussionPaginated?.totalCount || 0}
                         emptyMessage="No accounts for discussion"
-                        userRole={profile?.role}
+                        userRole={canChangeStatus ? profile?.role : undefined}
                         onStatusChange={handleStatusChange}
+                        fitContext={fitContext}
                         recentlyMovedAccounts={recentlyMovedAccounts}
                         paginationData={forDiscussionPaginated}
                         currentPage={forDiscussionPage}
@@ -2359,8 +2487,9 @@ export default function SellerDetailPage() {
                         accounts={(toBePeeledPaginated?.accounts || []) as Account[]}
                         totalCount={toBePeeledPaginated?.totalCount || 0}
                         emptyMessage="No accounts to be peeled"
-                        userRole={profile?.role}
+                        userRole={canChangeStatus ? profile?.role : undefined}
                         onStatusChange={handleStatusChange}
+                        fitContext={fitContext}
                         recentlyMovedAccounts={recentlyMovedAccounts}
                         paginationData={toBePeeledPaginated}
                         currentPage={toBePeeledPage}
@@ -2384,8 +2513,9 @@ export default function SellerDetailPage() {
                         accounts={allAccountsWithAssignmentStatus?.accounts || []}
                         totalCount={allAccountsWithAssignmentStatus?.totalCount || 0}
                         emptyMessage="No accounts found"
-                        userRole={profile?.role}
+                        userRole={canChangeStatus ? profile?.role : undefined}
                         onStatusChange={handleStatusChange}
+                        fitContext={fitContext}
                         recentlyMovedAccounts={recentlyMovedAccounts}
                         paginationData={allAccountsWithAssignmentStatus}
                         currentPage={availableAccountsPage}
@@ -2408,6 +2538,17 @@ export default function SellerDetailPage() {
                   </div>
                 </TabsContent>
                 
+                <TabsContent value="map" className="mt-0">
+                  <div className="rounded-xl border border-slate-200 shadow-lg bg-white p-4">
+                    <AccountMap
+                      home={seller ? { name: seller.name, lat: seller.lat, lng: seller.lng } : null}
+                      points={mapPoints}
+                      defaultRadiusKm={null}
+                      emptyMessage="This seller and their accounts have no location yet"
+                    />
+                  </div>
+                </TabsContent>
+                
                 <TabsContent value="chat" className="mt-0">
                   <SellerChat
                     sellerId={id}
@@ -2419,6 +2560,68 @@ export default function SellerDetailPage() {
           </CardContent>
         </Card>
       </main>
+
+      {/* MANAGER change request justification */}
+      <Dialog
+        open={!!changeRequestDraft}
+        onOpenChange={(open) => {
+          if (!open && !submittingRequest) {
+            setChangeRequestDraft(null);
+            setRequestJustification("");
+          }
+        }}
+      >
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <ClipboardCheck className="h-5 w-5 text-blue-600" />
+              Request Account Change
+            </DialogTitle>
+            <DialogDescription>
+              {changeRequestDraft?.requestedStatus === "available"
+                ? `Request to unassign ${changeRequestDraft?.accountName} from ${seller?.name}.`
+                : `Request to move ${changeRequestDraft?.accountName} to ${changeRequestDraft?.requestedStatus.replace(/_/g, ' ')} for ${seller?.name}.`}
+              {" "}A MASTER user will review it before anything changes.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="request-justification">Justification</Label>
+            <Textarea
+              id="request-justification"
+              value={requestJustification}
+              onChange={(e) => setRequestJustification(e.target.value)}
+              placeholder="Explain why this change is needed..."
+              rows={4}
+              disabled={submittingRequest}
+            />
+          </div>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => {
+                setChangeRequestDraft(null);
+                setRequestJustification("");
+              }}
+              disabled={submittingRequest}
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSubmitChangeRequest}
+              disabled={submittingRequest || !requestJustification.trim()}
+            >
+              {submittingRequest ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Submitting...
+                </>
+              ) : (
+                "Submit Request"
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
@@ -2439,6 +2642,7 @@ const AccountColumn = memo(function AccountColumn({
   searchQuery,
   onSearchChange,
   isExplorationMode = false,
+  fitContext,
 }: { 
   id: string;
   title: string;
@@ -2455,6 +2659,7 @@ const AccountColumn = memo(function AccountColumn({
   searchQuery?: string;
   onSearchChange?: (query: string) => void;
   isExplorationMode?: boolean;
+  fitContext?: FitContext | null;
 }) {
   return (
     <div className="flex flex-col transition-all duration-200 w-full min-w-0 bg-white">
@@ -2539,6 +2744,7 @@ const AccountColumn = memo(function AccountColumn({
                   onStatusChange={onStatusChange}
                   isRecentlyMoved={recentlyMovedAccounts?.has(account.id) || false}
                   isExplorationMode={isExplorationMode}
+                  fitContext={fitContext}
                 />
               ))}
             </>
@@ -2635,6 +2841,7 @@ const AccountTable = ({
   sortBy,
   sortOrder,
   onSortChange,
+  fitContext,
 }: { 
   id: string;
   title: string;
@@ -2651,9 +2858,10 @@ const AccountTable = ({
   searchQuery?: string;
   onSearchChange?: (query: string) => void;
   isExplorationMode?: boolean;
-  sortBy?: 'fit_percentage' | 'name' | 'total_revenue';
+  sortBy?: AccountSortField;
   sortOrder?: 'asc' | 'desc';
-  onSortChange?: (sortBy: 'fit_percentage' | 'name' | 'total_revenue', sortOrder: 'asc' | 'desc') => void;
+  onSortChange?: (sortBy: AccountSortField, sortOrder: 'asc' | 'desc') => void;
+  fitContext?: FitContext | null;
 }) => {
   // Format revenue helper
   const formatRevenue = (revenue: number) => {
@@ -2772,6 +2980,23 @@ const AccountTable = ({
                   <TableHead className="w-[100px]">Type</TableHead>
                   <TableHead className="w-[100px]">Tier</TableHead>
                   <TableHead className="w-[120px]">Location</TableHead>
+                  <TableHead className="w-[100px]">
+                    {onSortChange ? (
+                      <button
+                        onClick={() => onSortChange('distance_km', sortBy === 'distance_km' && sortOrder === 'asc' ? 'desc' : 'asc')}
+                        className="flex items-center gap-1 hover:text-blue-600 transition-colors"
+                      >
+                        Distance
+                        {sortBy === 'distance_km' ? (
+                          sortOrder === 'asc' ? <ArrowUp className="h-3 w-3" /> : <ArrowDown className="h-3 w-3" />
+                        ) : (
+                          <ArrowUpDown className="h-3 w-3 opacity-50" />
+                        )}
+                      </button>
+                    ) : (
+                      'Distance'
+                    )}
+                  </TableHead>
                   <TableHead className="w-[150px]">Industry</TableHead>
                   <TableHead className="w-[100px]">
                     {onSortChange ? (
@@ -2869,6 +3094,14 @@ const AccountTable = ({
                         </div>
                       </TableCell>
                       
+                      <TableCell>
+                        {account.distance_km != null ? (
+                          <span className="text-sm">{formatDistance(account.distance_km)}</span>
+                        ) : (
+                          <span className="text-sm text-slate-400">—</span>
+                        )}
+                      </TableCell>
+                      
                       <TableCell>
                         {account.industry && (
                           <div className="text-sm truncate max-w-[140px]" title={account.industry}>
@@ -2878,16 +3111,11 @@ const AccountTable = ({
                       </TableCell>
                       
                       <TableCell>
-                        {account.fit_percentage !== undefined && (
-                          <div className={cn(
-                            "text-sm font-semibold px-2 py-1 rounded",
-                            account.fit_percentage >= 80 && "bg-emerald-100 text-emerald-800",
-                            account.fit_percentage >= 60 && account.fit_percentage < 80 && "bg-amber-100 text-amber-800",
-                            account.fit_percentage < 60 && "bg-red-100 text-red-800"
-                          )}>
-                            {account.fit_percentage}%
-                          </div>
-                        )}
+                        <FitScoreBadge
+                          variant="cell"
+                          percentage={account.fit_percentage}
+                          breakdown={fitContext ? scoreAccountFit(toFitAccount(account, fitContext.sellerId), fitContext) : null}
+                        />
                       </TableCell>
                       
                       <TableCell>
@@ -3083,6 +3311,7 @@ const AccountCard = memo(function AccountCard({
   onStatusChange,
   isRecentlyMoved = false,
   isExplorationMode = false,
+  fitContext,
 }: { 
   account: Account; 
   isReadOnly?: boolean;
@@ -3090,6 +3319,7 @@ const AccountCard = memo(function AccountCard({
   onStatusChange?: (accountId: string, newStatus: string) => void;
   isRecentlyMoved?: boolean;
   isExplorationMode?: boolean;
+  fitContext?: FitContext | null;
 }) {
   // Memoize expensive calculations
   const formattedRevenue = useMemo(() => {
@@ -3122,6 +3352,11 @@ const AccountCard = memo(function AccountCard({
     return account.assignment_status;
   }, [account.assignment_status, account.status]);
 
+  const fitBreakdown = useMemo(
+    () => fitContext ? scoreAccountFit(toFitAccount(account, fitContext.sellerId), fitContext) : null,
+    [account, fitContext]
+  );
+
   // Memoize the status change handler
   const handleStatusChangeCallback = useCallback((newStatus: string) => {
     if (onStatusChange) {
@@ -3183,18 +3418,8 @@ const AccountCard = memo(function AccountCard({
                 {account.current_division}
               </Badge>
               
-              {/* Match Badge */}
-              {account.fit_percentage !== undefined && (
-                <div className={cn(
-                  "flex items-center gap-1 px-2 py-1 rounded-md text-xs font-semibold",
-                  account.fit_percentage >= 80 && "bg-emerald-50 text-emerald-700 border border-emerald-200",
-                  account.fit_percentage >= 60 && account.fit_percentage < 80 && "bg-amber-50 text-amber-700 border border-amber-200",
-                  account.fit_percentage < 60 && "bg-red-50 text-red-700 border border-red-200"
-                )}>
-                  <span>Match:</span>
-                  <span className="font-bold">{account.fit_percentage}%</span>
-                </div>
-              )}
+              {/* Match Badge - hover for the factor breakdown */}
+              <FitScoreBadge percentage={account.fit_percentage} breakdown={fitBreakdown} />
             </div>
           </div>
         </div>
@@ -0,0 +1,345 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { useRouter } from 'next/navigation';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
+import { ArrowLeft, Home, MonitorSmartphone, RefreshCw, Ban, LogOut } from 'lucide-react';
+import Link from 'next/link';
+import { PageLoader } from '@/components/ui/loader';
+import { LoadingTimeout } from '@/components/ui/loading-timeout';
+import { useAudit } from '@/hooks/use-audit';
+import { AUDIT_ACTIONS, AUDIT_ENTITIES, getAuditLogs, type AuditLog } from '@/lib/audit';
+import { describeUserAgent, getMySessions, revokeOtherSessions, revokeSession, type UserSession } from '@/lib/sessions';
+
+const ACTIVITY_LABELS: Record<string, string> = {
+  [AUDIT_ACTIONS.LOGIN]: 'Signed in',
+  [AUDIT_ACTIONS.LOGOUT]: 'Signed out',
+  [AUDIT_ACTIONS.LOGIN_FAILED]: 'Failed sign-in',
+  [AUDIT_ACTIONS.SESSION_REFRESH]: 'Session refreshed',
+  [AUDIT_ACTIONS.SESSION_REVOKE]: 'Session revoked',
+};
+
+const formatDate = (value: string | null) => value ? new Date(value).toLocaleString() : '—';
+
+export default function SessionsPage() {
+  const { user, loading } = useAuth();
+  const { toast } = useToast();
+  const router = useRouter();
+  const { logEvent } = useAudit();
+  const [sessions, setSessions] = useState<UserSession[]>([]);
+  const [activity, setActivity] = useState<AuditLog[]>([]);
+  const [dataLoading, setDataLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [pendingRevoke, setPendingRevoke] = useState<UserSession | 'others' | null>(null);
+  const [revoking, setRevoking] = useState(false);
+
+  // Redirect if not authenticated
+  useEffect(() => {
+    if (!loading && !user) {
+      router.push('/auth');
+    }
+  }, [user, loading, router]);
+
+  const fetchSessions = useCallback(async () => {
+    if (!user?.id) return;
+    try {
+      setDataLoading(true);
+      setSessions(await getMySessions());
+
+      try {
+        const { data } = await getAuditLogs({ entity: AUDIT_ENTITIES.SESSION, user_id: user.id, limit: 20 });
+        setActivity(data.filter(log => log.action !== AUDIT_ACTIONS.SESSION_REFRESH));
+      } catch (activityError) {
+        // Sign-in history is a nice-to-have; the session list still works without it
+      }
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to load sessions',
+        variant: 'destructive',
+      });
+    } finally {
+      setDataLoading(false);
+    }
+  }, [user?.id, toast]);
+
+  useEffect(() => {
+    fetchSessions();
+  }, [fetchSessions]);
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    try {
+      await fetchSessions();
+    } finally {
+      setRefreshing(false);
+    }
+  };
+
+  const handleRevoke = async () => {
+    if (!pendingRevoke) return;
+
+    setRevoking(true);
+    try {
+      if (pendingRevoke === 'others') {
+        const others = sessions.filter(s => !s.is_current);
+        await revokeOtherSessions();
+        await logEvent(AUDIT_ACTIONS.SESSION_REVOKE, AUDIT_ENTITIES.SESSION, undefined, null, {
+          scope: 'others',
+          session_ids: others.map(s => s.id),
+        });
+        toast({
+          title: 'Sessions Revoked',
+          description: `Signed out ${others.length} other session${others.length === 1 ? '' : 's'}.`,
+        });
+      } else {
+        await revokeSession(pendingRevoke.id);
+        await logEvent(AUDIT_ACTIONS.SESSION_REVOKE, AUDIT_ENTITIES.SESSION, pendingRevoke.id, null, {
+          user_agent: pendingRevoke.user_agent,
+          ip: pendingRevoke.ip,
+        });
+        toast({
+          title: 'Session Revoked',
+          description: `${describeUserAgent(pendingRevoke.user_agent)} has been signed out.`,
+        });
+      }
+
+      setPendingRevoke(null);
+      await fetchSessions();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: `Failed to revoke session: ${error instanceof Error ? error.message : (error as any)?.message || 'Unknown error'}`,
+        variant: 'destructive',
+      });
+    } finally {
+      setRevoking(false);
+    }
+  };
+
+  // Show loading while checking authentication
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-slate-50 to-blue-50 flex items-center justify-center">
+        <LoadingTimeout timeout={15000}>
+          <PageLoader text="Authenticating..." />
+        </LoadingTimeout>
+      </div>
+    );
+  }
+
+  // Don't render anything if not authenticated (will redirect)
+  if (!user) {
+    return null;
+  }
+
+  const otherSessionCount = sessions.filter(s => !s.is_current).length;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-blue-50">
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-7xl mx-auto">
+          {/* Header */}
+          <div className="mb-8">
+            <div className="flex items-center gap-4 mb-6">
+              <Link
+                href="/dashboard"
+                className="flex items-center gap-2 text-slate-600 hover:text-slate-900 transition-colors"
+              >
+                <ArrowLeft className="h-4 w-4" />
+                <span className="text-sm font-medium">Back to Dashboard</span>
+              </Link>
+              <div className="h-6 w-px bg-slate-300" />
+              <Link
+                href="/dashboard"
+                className="flex items-center gap-2 text-slate-600 hover:text-slate-900 transition-colors"
+              >
+                <Home className="h-4 w-4" />
+                <span className="text-sm font-medium">Dashboard</span>
+              </Link>
+            </div>
+
+            <div className="bg-white/80 backdrop-blur-sm rounded-2xl p-8 border border-slate-200 shadow-sm">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-3">
+                  <div className="p-3 bg-blue-100 rounded-xl">
+                    <MonitorSmartphone className="h-6 w-6 text-blue-600" />
+                  </div>
+                  <div>
+                    <h1 className="text-3xl font-bold text-slate-900">Active Sessions</h1>
+                    <p className="text-slate-600 mt-1">
+                      Browsers and devices currently signed in to your account
+                    </p>
+                  </div>
+                </div>
+
+                <div className="flex items-center gap-2">
+                  <Button
+                    variant="outline"
+                    onClick={handleRefresh}
+                    disabled={refreshing}
+                    className="flex items-center gap-2"
+                  >
+                    <RefreshCw className={`h-4 w-4 ${refreshing ? 'animate-spin' : ''}`} />
+                    Refresh
+                  </Button>
+                  <Button
+                    variant="destructive"
+                    onClick={() => setPendingRevoke('others')}
+                    disabled={otherSessionCount === 0}
+                    className="flex items-center gap-2"
+                  >
+                    <LogOut className="h-4 w-4" />
+                    Sign Out Other Sessions
+                  </Button>
+                </div>
+              </div>
+            </div>
+          </div>
+
+          {/* Session list */}
+          <Card className="bg-white/80 backdrop-blur-sm border-slate-200 shadow-sm mb-8">
+            <CardHeader className="pb-4">
+              <CardTitle className="text-lg">Sessions</CardTitle>
+              <CardDescription className="text-slate-600">
+                Revoke any session you don&apos;t recognise. It is signed out the next time it talks to the server.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {dataLoading ? (
+                <PageLoader text="Loading sessions..." />
+              ) : sessions.length === 0 ? (
+                <div className="text-center py-12 text-slate-500">
+                  <MonitorSmartphone className="h-10 w-10 mx-auto mb-3 text-slate-300" />
+                  <p>No active sessions</p>
+                </div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Device</TableHead>
+                      <TableHead>IP Address</TableHead>
+                      <TableHead>Signed In</TableHead>
+                      <TableHead>Last Active</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {sessions.map((session) => (
+                      <TableRow key={session.id}>
+                        <TableCell>
+                          <div className="flex items-center gap-2">
+                            <span className="font-medium text-slate-900">{describeUserAgent(session.user_agent)}</span>
+                            {session.is_current && <Badge variant="default">This browser</Badge>}
+                          </div>
+                          {session.user_agent && (
+                            <div className="text-xs text-slate-500 truncate max-w-md" title={session.user_agent}>
+                              {session.user_agent}
+                            </div>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-sm text-slate-600">{session.ip ?? '—'}</TableCell>
+                        <TableCell className="text-sm text-slate-600">{formatDate(session.created_at)}</TableCell>
+                        <TableCell className="text-sm text-slate-600">{formatDate(session.last_active_at)}</TableCell>
+                        <TableCell className="text-right">
+                          {!session.is_current && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => setPendingRevoke(session)}
+                              className="text-red-600 hover:text-red-700"
+                            >
+                              <Ban className="h-4 w-4 mr-1" />
+                              Revoke
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Sign-in history */}
+          {!dataLoading && activity.length > 0 && (
+            <Card className="bg-white/80 backdrop-blur-sm border-slate-200 shadow-sm">
+              <CardHeader className="pb-4">
+                <CardTitle className="text-lg">Recent Sign-in Activity</CardTitle>
+                <CardDescription className="text-slate-600">
+                  The last sign-ins, sign-outs and failed attempts on your account.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Event</TableHead>
+                      <TableHead>Device</TableHead>
+                      <TableHead>When</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {activity.map((log) => {
+                      const details = (log.after || {}) as Record<string, any>;
+                      return (
+                        <TableRow key={log.id}>
+                          <TableCell>
+                            <Badge variant={log.action === AUDIT_ACTIONS.LOGIN_FAILED ? 'destructive' : 'secondary'}>
+                              {ACTIVITY_LABELS[log.action] ?? log.action}
+                            </Badge>
+                            {details.reason && (
+                              <span className="ml-2 text-xs text-slate-500">{String(details.reason).replace(/_/g, ' ')}</span>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-sm text-slate-600">{describeUserAgent(details.user_agent ?? null)}</TableCell>
+                          <TableCell className="text-sm text-slate-600">{formatDate(log.created_at)}</TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </div>
+
+      {/* Revoke confirmation */}
+      <AlertDialog open={!!pendingRevoke} onOpenChange={(open) => !open && !revoking && setPendingRevoke(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {pendingRevoke === 'others' ? 'Sign Out Other Sessions' : 'Revoke Session'}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingRevoke === 'others'
+                ? `Every session except this browser (${otherSessionCount}) will be signed out.`
+                : `${describeUserAgent(pendingRevoke?.user_agent ?? null)} will be signed out.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={revoking}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                handleRevoke();
+              }}
+              disabled={revoking}
+              className="bg-red-600 hover:bg-red-700"
+            >
+              {revoking ? 'Revoking...' : 'Revoke'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+'use server'
+
+import { headers } from 'next/headers'
+import { getSupabaseAdmin } from '@/lib/api/supabase-admin'
+import { recordApiAudit } from '@/lib/api/audit'
+import { AUDIT_ACTIONS, AUDIT_ENTITIES } from '@/lib/audit'
+
+// Failed sign-ins recorded per email and per IP address within the window;
+// further attempts aren't audited until older ones fall out of it
+const FAILED_SIGN_IN_WINDOW_MINUTES = 15
+const MAX_FAILED_SIGN_INS_PER_EMAIL = 10
+const MAX_FAILED_SIGN_INS_PER_IP = 30
+
+async function countRecentFailedSignIns(field: 'email' | 'ip', value: string): Promise<number> {
+  const since = new Date(Date.now() - FAILED_SIGN_IN_WINDOW_MINUTES * 60 * 1000).toISOString()
+  const { count, error } = await (getSupabaseAdmin() as any)
+    .from('audit_logs')
+    .select('id', { count: 'exact', head: true })
+    .eq('action', AUDIT_ACTIONS.LOGIN_FAILED)
+    .eq('entity', AUDIT_ENTITIES.SESSION)
+    .eq(`after->>${field}`, value)
+    .gte('created_at', since)
+
+  if (error) throw error
+  return count ?? 0
+}
+
+/**
+ * Audit a failed password sign-in. There is no session to write with, so this
+ * runs server-side; attempts for emails without a profile aren't recorded
+ * because audit_logs rows must belong to a user. The reason comes from the
+ * profile rather than the caller, and recording is rate limited by email and IP.
+ */
+export async function recordFailedSignIn(email: string): Promise<void> {
+  try {
+    const normalizedEmail = email.trim().toLowerCase().slice(0, 255)
+    if (!normalizedEmail) return
+
+    const requestHeaders = headers()
+    const ip = requestHeaders.get('x-forwarded-for')?.split(',')[0].trim() || null
+
+    if (await countRecentFailedSignIns('email', normalizedEmail) >= MAX_FAILED_SIGN_INS_PER_EMAIL) return
+    if (ip && await countRecentFailedSignIns('ip', ip) >= MAX_FAILED_SIGN_INS_PER_IP) return
+
+    const { data: profile } = await (getSupabaseAdmin() as any)
+      .from('profiles')
+      .select('id, deactivated_at')
+      .eq('email', normalizedEmail)
+      .maybeSingle()
+
+    if (!profile) return
+
+    await recordApiAudit(profile.id, AUDIT_ACTIONS.LOGIN_FAILED, AUDIT_ENTITIES.SESSION, undefined, null, {
+      email: normalizedEmail,
+      reason: profile.deactivated_at ? 'account_deactivated' : 'invalid_credentials',
+      user_agent: requestHeaders.get('user-agent')?.slice(0, 512) ?? null,
+      ip,
+      at: new Date().toISOString(),
+    })
+  } catch (error) {
+    // Auditing must never block the sign-in form
+  }
+}
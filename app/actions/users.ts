@@ -0,0 +1,307 @@
+'use server'
+
+import { headers } from 'next/headers'
+import { ZodError } from 'zod'
+import { createSupabaseServerClient } from '@/integrations/supabase/server'
+import { getSupabaseAdmin } from '@/lib/api/supabase-admin'
+import { recordApiAudit } from '@/lib/api/audit'
+import { AUDIT_ACTIONS, AUDIT_ENTITIES } from '@/lib/audit'
+import { assertCan } from '@/lib/permissions'
+import {
+  userInviteSchema,
+  userUpdateSchema,
+  type AdminUser,
+  type UserActionResult,
+  type UserDirectory,
+} from '@/lib/user-admin'
+
+// Supabase has no permanent ban - a hundred years is close enough
+const DEACTIVATED_BAN_DURATION = '876000h'
+
+/**
+ * The signed-in user, who must hold user.manage
+ */
+async function getActingAdmin() {
+  const supabase = createSupabaseServerClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) {
+    throw new Error('Your session has expired - sign in again')
+  }
+
+  const { data: profile, error } = await supabase
+    .from('profiles')
+    .select('*')
+    .eq('id', user.id)
+    .maybeSingle()
+
+  if (error) throw error
+  assertCan(profile, 'user.manage')
+  return profile!
+}
+
+async function runAction<T>(action: () => Promise<T>): Promise<UserActionResult<T>> {
+  try {
+    return { data: await action(), error: null }
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return { data: null, error: error.issues[0]?.message || 'Invalid input' }
+    }
+    return { data: null, error: error instanceof Error ? error.message : (error as any)?.message || 'Unknown error' }
+  }
+}
+
+async function getProfile(id: string) {
+  const { data, error } = await (getSupabaseAdmin() as any)
+    .from('profiles')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle()
+
+  if (error) throw error
+  if (!data) throw new Error('User not found')
+  return data
+}
+
+async function getLinkedManagerId(userId: string): Promise<string | null> {
+  const { data, error } = await (getSupabaseAdmin() as any)
+    .from('managers')
+    .select('id')
+    .eq('user_id', userId)
+    .limit(1)
+
+  if (error) throw error
+  return data?.[0]?.id ?? null
+}
+
+/**
+ * Point a manager record at a user, unlinking any other manager records the
+ * user had - one profile maps to at most one manager
+ */
+async function setManagerLink(userId: string, managerId: string | null) {
+  const admin = getSupabaseAdmin() as any
+
+  const { error: unlinkError } = await admin
+    .from('managers')
+    .update({ user_id: null })
+    .eq('user_id', userId)
+  if (unlinkError) throw unlinkError
+
+  if (managerId) {
+    const { error } = await admin
+      .from('managers')
+      .update({ user_id: userId })
+      .eq('id', managerId)
+    if (error) throw error
+  }
+}
+
+/**
+ * Every profile with its last sign-in, manager link and the options the
+ * console needs for its selects
+ */
+export async function listUsers(): Promise<UserActionResult<UserDirectory>> {
+  return runAction(async () => {
+    await getActingAdmin()
+    const admin = getSupabaseAdmin() as any
+
+    const [profilesRes, managersRes, sellersRes] = await Promise.all([
+      admin.from('profiles').select('*').order('name', { ascending: true }),
+      admin.from('managers').select('id, name, user_id').order('name', { ascending: true }),
+      admin.from('sellers').select('id, name, division').order('name', { ascending: true }),
+    ])
+    if (profilesRes.error) throw profilesRes.error
+    if (managersRes.error) throw managersRes.error
+    if (sellersRes.error) throw sellersRes.error
+
+    // Last sign-in only lives on auth.users
+    const lastSignIn = new Map<string, string | null>()
+    const perPage = 1000
+    for (let page = 1; ; page++) {
+      const { data, error } = await admin.auth.admin.listUsers({ page, perPage })
+      if (error) throw error
+      data.users.forEach((u: { id: string; last_sign_in_at?: string | null }) => lastSignIn.set(u.id, u.last_sign_in_at ?? null))
+      if (data.users.length < perPage) break
+    }
+
+    const managerByUser = new Map<string, string>()
+    ;(managersRes.data || []).forEach((m: { id: string; user_id: string | null }) => {
+      if (m.user_id && !managerByUser.has(m.user_id)) managerByUser.set(m.user_id, m.id)
+    })
+
+    const users: AdminUser[] = (profilesRes.data || []).map((p: any) => ({
+      id: p.id,
+      name: p.name,
+      email: p.email,
+      role: p.role,
+      division: p.division ?? null,
+      seller_id: p.seller_id ?? null,
+      deactivated_at: p.deactivated_at ?? null,
+      created_at: p.created_at,
+      last_sign_in_at: lastSignIn.get(p.id) ?? null,
+      manager_id: managerByUser.get(p.id) ?? null,
+    }))
+
+    return {
+      users,
+      managers: managersRes.data || [],
+      sellers: sellersRes.data || [],
+    }
+  })
+}
+
+/**
+ * Send a Supabase invite email and create the profile with its role up front
+ */
+export async function inviteUser(input: unknown): Promise<UserActionResult<{ id: string }>> {
+  return runAction(async () => {
+    const actor = await getActingAdmin()
+    const values = userInviteSchema.parse(input)
+    const admin = getSupabaseAdmin() as any
+
+    const origin = headers().get('origin')
+    const { data, error } = await admin.auth.admin.inviteUserByEmail(values.email, {
+      data: { name: values.name },
+      redirectTo: origin ? `${origin}/auth` : undefined,
+    })
+    if (error) throw error
+
+    const profile = {
+      id: data.user.id,
+      email: values.email,
+      name: values.name,
+      role: values.role,
+      division: values.division ?? null,
+      seller_id: values.seller_id ?? null,
+      deactivated_at: null,
+    }
+
+    const { error: profileError } = await admin.from('profiles').upsert(profile, { onConflict: 'id' })
+    if (profileError) throw profileError
+
+    if (values.manager_id) {
+      await setManagerLink(profile.id, values.manager_id)
+    }
+
+    await recordApiAudit(actor.id, AUDIT_ACTIONS.INVITE, AUDIT_ENTITIES.USER, profile.id, null, {
+      ...profile,
+      manager_id: values.manager_id ?? null,
+    })
+
+    return { id: profile.id }
+  })
+}
+
+/**
+ * Change a user's name, role and role scope
+ */
+export async function updateUser(userId: string, input: unknown): Promise<UserActionResult> {
+  return runAction(async () => {
+    const actor = await getActingAdmin()
+    const values = userUpdateSchema.parse(input)
+    const before = await getProfile(userId)
+
+    // Keep at least the acting admin able to manage users
+    if (userId === actor.id && values.role !== before.role) {
+      throw new Error('You cannot change your own role')
+    }
+
+    const changes = {
+      name: values.name,
+      role: values.role,
+      division: values.role === 'DIVISION_LEAD' ? values.division ?? null : null,
+      seller_id: values.role === 'SELLER' ? values.seller_id ?? null : null,
+    }
+
+    const { error } = await (getSupabaseAdmin() as any)
+      .from('profiles')
+      .update(changes)
+      .eq('id', userId)
+    if (error) throw error
+
+    await recordApiAudit(
+      actor.id,
+      AUDIT_ACTIONS.UPDATE,
+      AUDIT_ENTITIES.USER,
+      userId,
+      { name: before.name, role: before.role, division: before.division ?? null, seller_id: before.seller_id ?? null },
+      changes
+    )
+
+    return null
+  })
+}
+
+/**
+ * Link a profile to a manager record (managers.user_id), or unlink it with null
+ */
+export async function linkUserToManager(userId: string, managerId: string | null): Promise<UserActionResult> {
+  return runAction(async () => {
+    const actor = await getActingAdmin()
+    await getProfile(userId)
+
+    const previousManagerId = await getLinkedManagerId(userId)
+    if (previousManagerId === managerId) return null
+
+    await setManagerLink(userId, managerId)
+
+    await recordApiAudit(
+      actor.id,
+      managerId ? AUDIT_ACTIONS.ASSIGN : AUDIT_ACTIONS.UNASSIGN,
+      AUDIT_ENTITIES.USER,
+      userId,
+      { manager_id: previousManagerId },
+      { manager_id: managerId }
+    )
+
+    return null
+  })
+}
+
+/**
+ * Deactivate (ban in auth, stamp deactivated_at) or reactivate a user.
+ * The profile stays so audit history keeps resolving.
+ */
+export async function setUserActive(userId: string, active: boolean): Promise<UserActionResult> {
+  return runAction(async () => {
+    const actor = await getActingAdmin()
+    if (userId === actor.id && !active) {
+      throw new Error('You cannot deactivate your own account')
+    }
+
+    const before = await getProfile(userId)
+    const admin = getSupabaseAdmin() as any
+
+    const { error: authError } = await admin.auth.admin.updateUserById(userId, {
+      ban_duration: active ? 'none' : DEACTIVATED_BAN_DURATION,
+    })
+    if (authError) throw authError
+
+    const deactivatedAt = active ? null : new Date().toISOString()
+    const { error } = await admin
+      .from('profiles')
+      .update({ deactivated_at: deactivatedAt })
+      .eq('id', userId)
+    if (error) throw error
+
+    // Tokens stay revoked on reactivation; the user creates new ones
+    if (!active) {
+      const { error: tokensError } = await admin
+        .from('api_tokens')
+        .update({ revoked_at: deactivatedAt })
+        .eq('user_id', userId)
+        .is('revoked_at', null)
+      if (tokensError) throw tokensError
+    }
+
+    await recordApiAudit(
+      actor.id,
+      active ? AUDIT_ACTIONS.REACTIVATE : AUDIT_ACTIONS.DEACTIVATE,
+      AUDIT_ENTITIES.USER,
+      userId,
+      { deactivated_at: before.deactivated_at ?? null },
+      { deactivated_at: deactivatedAt }
+    )
+
+    return null
+  })
+}
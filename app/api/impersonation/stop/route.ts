@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { recordApiAudit } from '@/lib/api/audit';
+import { ApiError, errorResponse, readJsonBody } from '@/lib/api/http';
+import { getSupabaseAdmin } from '@/lib/api/supabase-admin';
+import { AUDIT_ACTIONS, AUDIT_ENTITIES } from '@/lib/audit';
+import { can, PermissionError } from '@/lib/permissions';
+import { createSupabaseServerClient } from '@/integrations/supabase/server';
+
+const stopSchema = z.object({
+  profile_id: z.string().uuid(),
+  started_at: z.string().datetime({ offset: true }),
+  reason: z.string().trim().min(1).max(100),
+});
+
+/**
+ * POST /api/impersonation/stop - record the end of a "view as" session the
+ * browser could not log itself, e.g. because the page was closed. Sent with
+ * keepalive from the pagehide handler, so it only writes the audit row.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = createSupabaseServerClient();
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      throw new ApiError(401, 'unauthorized', 'Your session has expired - sign in again');
+    }
+
+    const { data: profile, error: profileError } = await supabase
+      .from('profiles')
+      .select('id, role')
+      .eq('id', user.id)
+      .maybeSingle();
+    if (profileError) throw profileError;
+    if (!can(profile, 'user.impersonate')) {
+      throw new ApiError(403, 'forbidden', new PermissionError('user.impersonate').message);
+    }
+
+    const { profile_id: profileId, started_at: startedAt, reason } = stopSchema.parse(await readJsonBody(request));
+    const { data: target, error } = await (getSupabaseAdmin() as any)
+      .from('profiles')
+      .select('name, role')
+      .eq('id', profileId)
+      .maybeSingle();
+    if (error) throw error;
+    if (!target) {
+      throw new ApiError(404, 'not_found', 'User not found');
+    }
+
+    const durationSeconds = Math.max(0, Math.round((Date.now() - new Date(startedAt).getTime()) / 1000));
+    await recordApiAudit(user.id, AUDIT_ACTIONS.IMPERSONATE_STOP, AUDIT_ENTITIES.USER, profileId, {
+      name: target.name,
+      role: target.role,
+      started_at: startedAt,
+    }, {
+      duration_seconds: durationSeconds,
+      reason,
+    });
+
+    return NextResponse.json({ data: { stopped: true } });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
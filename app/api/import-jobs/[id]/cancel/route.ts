@@ -0,0 +1,18 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { errorResponse } from '@/lib/api/http';
+import { getImportUser, requestImportJobCancel } from '@/lib/api/import-jobs';
+
+type RouteContext = { params: { id: string } };
+
+/**
+ * POST /api/import-jobs/:id/cancel - cancel a queued job, or ask a running
+ * one to stop before its next step
+ */
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    await getImportUser();
+    return NextResponse.json({ data: await requestImportJobCancel(params.id) });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiError, errorResponse } from '@/lib/api/http';
+import { getImportUser } from '@/lib/api/import-jobs';
+import { getSupabaseAdmin } from '@/lib/api/supabase-admin';
+import { IMPORT_FILE_RETENTION_DAYS, IMPORT_JOB_BUCKET } from '@/lib/import-jobs';
+
+type RouteContext = { params: { id: string } };
+
+/**
+ * GET /api/import-jobs/:id/file - the file a job imported, as uploaded
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    await getImportUser();
+    const admin = getSupabaseAdmin() as any;
+
+    const { data: job, error } = await admin
+      .from('import_jobs')
+      .select('file_name, storage_path, file_removed_at')
+      .eq('id', params.id)
+      .maybeSingle();
+    if (error) throw error;
+    if (!job) {
+      throw new ApiError(404, 'not_found', 'Import not found');
+    }
+    if (job.file_removed_at) {
+      throw new ApiError(410, 'file_removed', `Uploads are removed ${IMPORT_FILE_RETENTION_DAYS} days after the import`);
+    }
+
+    const { data: blob, error: downloadError } = await admin.storage.from(IMPORT_JOB_BUCKET).download(job.storage_path);
+    if (downloadError || !blob) {
+      throw new ApiError(404, 'file_not_found', 'The uploaded file is no longer stored');
+    }
+
+    return new NextResponse(await blob.arrayBuffer(), {
+      headers: {
+        'Content-Type': blob.type || 'application/octet-stream',
+        'Content-Disposition': `attachment; filename*=UTF-8''${encodeURIComponent(job.file_name)}`,
+      },
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
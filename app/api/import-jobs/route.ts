@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiError, errorResponse } from '@/lib/api/http';
+import { getImportUser, isImportJobType, processImportQueue, queueImportJob } from '@/lib/api/import-jobs';
+import { validateColumnMapping, type ColumnMapping } from '@/lib/column-mapping';
+import { parseMergeOptions } from '@/lib/import-merge';
+
+// Jobs run in this process after the response is sent
+export const runtime = 'nodejs';
+
+function readJsonObject(value: FormDataEntryValue | null, name: string): Record<string, any> {
+  if (typeof value !== 'string' || value === '') return {};
+  try {
+    const parsed = JSON.parse(value);
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) return parsed;
+  } catch {
+    // Reported below
+  }
+  throw new ApiError(400, 'invalid_body', `${name} must be a JSON object`);
+}
+
+/**
+ * POST /api/import-jobs - multipart upload (file, import_type,
+ * confirmed_matches, options, column_mapping) queued as a background import.
+ * options only applies to merge imports; column_mapping is the mapping from
+ * the column mapping wizard for files not in template shape.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getImportUser();
+    const form = await request.formData();
+
+    const file = form.get('file');
+    if (!(file instanceof File)) {
+      throw new ApiError(400, 'invalid_body', 'file is required');
+    }
+    const importType = form.get('import_type');
+    if (!isImportJobType(importType)) {
+      throw new ApiError(400, 'invalid_body', 'import_type must be comprehensive, comprehensive_add, comprehensive_merge, sellers or accounts');
+    }
+
+    const options = importType === 'comprehensive_merge'
+      ? parseMergeOptions(readJsonObject(form.get('options'), 'options'))
+      : {};
+    const columnMapping = readJsonObject(form.get('column_mapping'), 'column_mapping') as ColumnMapping;
+    const hasColumnMapping = Object.keys(columnMapping).length > 0;
+    if (hasColumnMapping) {
+      const mappingErrors = validateColumnMapping(columnMapping, importType);
+      if (mappingErrors.length > 0) {
+        throw new ApiError(400, 'invalid_body', `column_mapping is incomplete: ${mappingErrors.join(', ')}`);
+      }
+    }
+
+    const job = await queueImportJob(
+      file,
+      importType,
+      readJsonObject(form.get('confirmed_matches'), 'confirmed_matches'),
+      user.id,
+      options,
+      hasColumnMapping ? columnMapping : null
+    );
+    void processImportQueue();
+
+    return NextResponse.json({ data: job }, { status: 202 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { recordApiAudit } from '@/lib/api/audit';
+import { ApiError, errorResponse, readJsonBody } from '@/lib/api/http';
+import { getImportUser } from '@/lib/api/import-jobs';
+import { getSupabaseAdmin } from '@/lib/api/supabase-admin';
+import { AUDIT_ACTIONS, AUDIT_ENTITIES } from '@/lib/audit';
+import { IMPORT_LOCK_ID } from '@/lib/import-lock';
+
+const releaseSchema = z.object({
+  reason: z.string().trim().min(1).max(500),
+});
+
+/**
+ * POST /api/import-lock/release - release the import lock whoever holds it,
+ * e.g. after the importing browser or server crashed. Refused with 409 while
+ * an import job is still running; jobs that stopped reporting progress are
+ * failed (and a replace import rolled back) with the release. The reason, the
+ * lock as it was and whether it was stale are written to the audit log.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getImportUser();
+    const { reason } = releaseSchema.parse(await readJsonBody(request));
+    const admin = getSupabaseAdmin() as any;
+
+    const { data: before, error: readError } = await admin
+      .from('import_status')
+      .select('*')
+      .eq('id', IMPORT_LOCK_ID)
+      .maybeSingle();
+    if (readError) throw readError;
+
+    const { data: released, error: releaseError } = await admin.rpc('force_release_import_lock');
+    if (releaseError) {
+      if (releaseError.code === '55P03') {
+        throw new ApiError(409, 'import_running', releaseError.message);
+      }
+      throw releaseError;
+    }
+    const { was_stale: wasStale = false, failed_job_ids: failedJobIds = [] } = released?.[0] ?? {};
+
+    const { data: lock, error } = await admin
+      .from('import_status')
+      .select('*')
+      .eq('id', IMPORT_LOCK_ID)
+      .maybeSingle();
+    if (error) throw error;
+
+    await recordApiAudit(user.id, AUDIT_ACTIONS.IMPORT_LOCK_RELEASE, AUDIT_ENTITIES.IMPORT_LOCK, IMPORT_LOCK_ID, before, {
+      ...lock,
+      reason,
+      was_stale: wasStale,
+      failed_job_ids: failedJobIds,
+    });
+
+    return NextResponse.json({ data: lock });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateApiRequest, requireCapability } from '@/lib/api/auth';
+import { recordApiAudit } from '@/lib/api/audit';
+import { ApiError, errorResponse, readJsonBody } from '@/lib/api/http';
+import { ACCOUNT_FIELDS, accountUpdateSchema } from '@/lib/api/schemas';
+import { getSupabaseAdmin } from '@/lib/api/supabase-admin';
+import { AUDIT_ACTIONS, AUDIT_ENTITIES } from '@/lib/audit';
+
+type RouteContext = { params: { id: string } };
+
+async function getAccount(id: string) {
+  const { data, error } = await (getSupabaseAdmin() as any)
+    .from('accounts')
+    .select(ACCOUNT_FIELDS)
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) throw new ApiError(404, 'not_found', 'Account not found');
+  return data;
+}
+
+/**
+ * GET /api/v1/accounts/:id
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    await authenticateApiRequest(request);
+    return NextResponse.json({ data: await getAccount(params.id) });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+/**
+ * PATCH /api/v1/accounts/:id - needs import.run
+ */
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const user = await authenticateApiRequest(request);
+    requireCapability(user, 'import.run');
+
+    const changes = accountUpdateSchema.parse(await readJsonBody(request));
+    const before = await getAccount(params.id);
+
+    const { data, error } = await (getSupabaseAdmin() as any)
+      .from('accounts')
+      .update(changes)
+      .eq('id', params.id)
+      .select(ACCOUNT_FIELDS)
+      .single();
+
+    if (error) throw error;
+
+    await recordApiAudit(user.id, AUDIT_ACTIONS.UPDATE, AUDIT_ENTITIES.ACCOUNT, params.id, before, data);
+
+    return NextResponse.json({ data });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
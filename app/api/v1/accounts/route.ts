@@ -0,0 +1,42 @@
+import { NextRequest } from 'next/server';
+import { authenticateApiRequest } from '@/lib/api/auth';
+import { errorResponse, getPagination, paginated } from '@/lib/api/http';
+import { ACCOUNT_FIELDS } from '@/lib/api/schemas';
+import { getSupabaseAdmin } from '@/lib/api/supabase-admin';
+
+const FILTERS = ['current_division', 'size', 'tier', 'industry', 'country', 'state'] as const;
+
+/**
+ * GET /api/v1/accounts - list accounts, filterable by the columns in FILTERS
+ * and a name search
+ */
+export async function GET(request: NextRequest) {
+  try {
+    await authenticateApiRequest(request);
+    const { searchParams } = request.nextUrl;
+    const pagination = getPagination(searchParams);
+
+    let query = (getSupabaseAdmin() as any)
+      .from('accounts')
+      .select(ACCOUNT_FIELDS, { count: 'exact' })
+      .order('name', { ascending: true })
+      .range(pagination.from, pagination.to);
+
+    const search = searchParams.get('search');
+    if (search) {
+      query = query.ilike('name', `%${search}%`);
+    }
+
+    FILTERS.forEach(filter => {
+      const value = searchParams.get(filter);
+      if (value) query = query.eq(filter, value);
+    });
+
+    const { data, error, count } = await query;
+    if (error) throw error;
+
+    return paginated(data || [], count || 0, pagination);
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
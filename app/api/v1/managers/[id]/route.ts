@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateApiRequest, requireCapability, type ApiUser } from '@/lib/api/auth';
+import { recordApiAudit } from '@/lib/api/audit';
+import { ApiError, errorResponse, readJsonBody } from '@/lib/api/http';
+import { MANAGER_FIELDS, managerUpdateSchema } from '@/lib/api/schemas';
+import { getSupabaseAdmin } from '@/lib/api/supabase-admin';
+import { AUDIT_ACTIONS, AUDIT_ENTITIES } from '@/lib/audit';
+import { getDataScope } from '@/lib/permissions';
+
+type RouteContext = { params: { id: string } };
+
+async function getManager(user: ApiUser, id: string) {
+  const { data, error } = await (getSupabaseAdmin() as any)
+    .from('managers')
+    .select(MANAGER_FIELDS)
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data || (getDataScope(user).type !== 'all' && data.user_id !== user.id)) {
+    throw new ApiError(404, 'not_found', 'Manager not found');
+  }
+  return data;
+}
+
+/**
+ * GET /api/v1/managers/:id
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const user = await authenticateApiRequest(request);
+    return NextResponse.json({ data: await getManager(user, params.id) });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+/**
+ * PATCH /api/v1/managers/:id - needs import.run
+ */
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const user = await authenticateApiRequest(request);
+    requireCapability(user, 'import.run');
+
+    const changes = managerUpdateSchema.parse(await readJsonBody(request));
+    const before = await getManager(user, params.id);
+
+    const { data, error } = await (getSupabaseAdmin() as any)
+      .from('managers')
+      .update(changes)
+      .eq('id', params.id)
+      .select(MANAGER_FIELDS)
+      .single();
+
+    if (error) throw error;
+
+    await recordApiAudit(user.id, AUDIT_ACTIONS.UPDATE, AUDIT_ENTITIES.MANAGER, params.id, { name: before.name }, { name: data.name });
+
+    return NextResponse.json({ data });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest } from 'next/server';
+import { authenticateApiRequest } from '@/lib/api/auth';
+import { errorResponse, getPagination, paginated } from '@/lib/api/http';
+import { MANAGER_FIELDS } from '@/lib/api/schemas';
+import { getSupabaseAdmin } from '@/lib/api/supabase-admin';
+import { getDataScope } from '@/lib/permissions';
+
+/**
+ * GET /api/v1/managers - list managers with their sellers; tokens whose
+ * scope doesn't cover every seller only see their own manager records
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await authenticateApiRequest(request);
+    const { searchParams } = request.nextUrl;
+    const pagination = getPagination(searchParams);
+
+    let query = (getSupabaseAdmin() as any)
+      .from('managers')
+      .select(MANAGER_FIELDS, { count: 'exact' })
+      .order('name', { ascending: true })
+      .range(pagination.from, pagination.to);
+
+    if (getDataScope(user).type !== 'all') {
+      query = query.eq('user_id', user.id);
+    }
+
+    const search = searchParams.get('search');
+    if (search) {
+      query = query.ilike('name', `%${search}%`);
+    }
+
+    const { data, error, count } = await query;
+    if (error) throw error;
+
+    return paginated(data || [], count || 0, pagination);
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,10 @@
+import { NextResponse } from 'next/server';
+import { openApiDocument } from '@/lib/api/openapi';
+
+/**
+ * GET /api/v1/openapi.json - public, so API clients can discover the spec
+ * before they have a token
+ */
+export async function GET() {
+  return NextResponse.json(openApiDocument);
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { assertSellerVisible, authenticateApiRequest, type ApiUser } from '@/lib/api/auth';
+import { ApiError, errorResponse, readJsonBody } from '@/lib/api/http';
+import { setRelationshipStatus, statusChangeResponse } from '@/lib/api/relationships';
+import { RELATIONSHIP_FIELDS, relationshipStatusSchema } from '@/lib/api/schemas';
+import { getSupabaseAdmin } from '@/lib/api/supabase-admin';
+
+type RouteContext = { params: { id: string } };
+
+async function getRelationship(user: ApiUser, id: string) {
+  const { data, error } = await getSupabaseAdmin()
+    .from('relationship_maps')
+    .select(RELATIONSHIP_FIELDS)
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) throw new ApiError(404, 'not_found', 'Relationship not found');
+
+  await assertSellerVisible(user, data.seller_id);
+  return data;
+}
+
+/**
+ * GET /api/v1/relationships/:id
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const user = await authenticateApiRequest(request);
+    return NextResponse.json({ data: await getRelationship(user, params.id) });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+/**
+ * PATCH /api/v1/relationships/:id - change the status under the same rules as POST
+ */
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const user = await authenticateApiRequest(request);
+    const input = relationshipStatusSchema.parse(await readJsonBody(request));
+    const relationship = await getRelationship(user, params.id);
+
+    const result = await setRelationshipStatus(user, {
+      ...input,
+      account_id: relationship.account_id,
+      seller_id: relationship.seller_id,
+    });
+
+    return statusChangeResponse(result);
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
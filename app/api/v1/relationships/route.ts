@@ -0,0 +1,64 @@
+import { NextRequest } from 'next/server';
+import { authenticateApiRequest, getVisibleSellerIds } from '@/lib/api/auth';
+import { errorResponse, getPagination, paginated, readJsonBody } from '@/lib/api/http';
+import { setRelationshipStatus, statusChangeResponse } from '@/lib/api/relationships';
+import { RELATIONSHIP_FIELDS, relationshipCreateSchema } from '@/lib/api/schemas';
+import { getSupabaseAdmin } from '@/lib/api/supabase-admin';
+
+/**
+ * GET /api/v1/relationships - list relationship_maps rows, filterable by
+ * seller_id, account_id and status (comma separated)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await authenticateApiRequest(request);
+    const { searchParams } = request.nextUrl;
+    const pagination = getPagination(searchParams);
+
+    const sellerIds = await getVisibleSellerIds(user);
+    if (sellerIds && sellerIds.length === 0) {
+      return paginated([], 0, pagination);
+    }
+
+    let query = (getSupabaseAdmin() as any)
+      .from('relationship_maps')
+      .select(RELATIONSHIP_FIELDS, { count: 'exact' })
+      .order('updated_at', { ascending: false })
+      .range(pagination.from, pagination.to);
+
+    if (sellerIds) {
+      query = query.in('seller_id', sellerIds);
+    }
+
+    const sellerId = searchParams.get('seller_id');
+    if (sellerId) query = query.eq('seller_id', sellerId);
+
+    const accountId = searchParams.get('account_id');
+    if (accountId) query = query.eq('account_id', accountId);
+
+    const status = searchParams.get('status');
+    if (status) query = query.in('status', status.split(',').map(s => s.trim()).filter(Boolean));
+
+    const { data, error, count } = await query;
+    if (error) throw error;
+
+    return paginated(data || [], count || 0, pagination);
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+/**
+ * POST /api/v1/relationships - set an account's status for a seller,
+ * creating the relationship when the account comes from the available pool
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await authenticateApiRequest(request);
+    const input = relationshipCreateSchema.parse(await readJsonBody(request));
+
+    return statusChangeResponse(await setRelationshipStatus(user, input));
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
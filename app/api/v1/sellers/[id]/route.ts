@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { assertSellerVisible, authenticateApiRequest, requireCapability } from '@/lib/api/auth';
+import { recordApiAudit } from '@/lib/api/audit';
+import { ApiError, errorResponse, readJsonBody } from '@/lib/api/http';
+import { SELLER_FIELDS, sellerUpdateSchema } from '@/lib/api/schemas';
+import { getSupabaseAdmin } from '@/lib/api/supabase-admin';
+import { AUDIT_ACTIONS, AUDIT_ENTITIES } from '@/lib/audit';
+
+type RouteContext = { params: { id: string } };
+
+async function getSeller(id: string) {
+  const { data, error } = await (getSupabaseAdmin() as any)
+    .from('sellers')
+    .select(SELLER_FIELDS)
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) throw new ApiError(404, 'not_found', 'Seller not found');
+  return data;
+}
+
+/**
+ * GET /api/v1/sellers/:id
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const user = await authenticateApiRequest(request);
+    await assertSellerVisible(user, params.id);
+    return NextResponse.json({ data: await getSeller(params.id) });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+/**
+ * PATCH /api/v1/sellers/:id - needs import.run
+ */
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const user = await authenticateApiRequest(request);
+    requireCapability(user, 'import.run');
+
+    const changes = sellerUpdateSchema.parse(await readJsonBody(request));
+    const before = await getSeller(params.id);
+
+    const { data, error } = await (getSupabaseAdmin() as any)
+      .from('sellers')
+      .update(changes)
+      .eq('id', params.id)
+      .select(SELLER_FIELDS)
+      .single();
+
+    if (error) throw error;
+
+    await recordApiAudit(user.id, AUDIT_ACTIONS.UPDATE, AUDIT_ENTITIES.SELLER, params.id, before, data);
+
+    return NextResponse.json({ data });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,63 @@
+import { NextRequest } from 'next/server';
+import { authenticateApiRequest, getVisibleSellerIds } from '@/lib/api/auth';
+import { errorResponse, getPagination, paginated } from '@/lib/api/http';
+import { SELLER_FIELDS } from '@/lib/api/schemas';
+import { getSupabaseAdmin } from '@/lib/api/supabase-admin';
+
+const FILTERS = ['division', 'size', 'seniority_type', 'country', 'state'] as const;
+
+/**
+ * GET /api/v1/sellers - list sellers; scoped tokens only see their own sellers
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await authenticateApiRequest(request);
+    const { searchParams } = request.nextUrl;
+    const pagination = getPagination(searchParams);
+
+    let sellerIds = await getVisibleSellerIds(user);
+
+    const managerId = searchParams.get('manager_id');
+    if (managerId) {
+      const { data: links, error } = await getSupabaseAdmin()
+        .from('seller_managers')
+        .select('seller_id')
+        .eq('manager_id', managerId);
+      if (error) throw error;
+
+      const managed = (links || []).map(l => l.seller_id);
+      sellerIds = sellerIds ? sellerIds.filter(id => managed.includes(id)) : managed;
+    }
+
+    if (sellerIds && sellerIds.length === 0) {
+      return paginated([], 0, pagination);
+    }
+
+    let query = (getSupabaseAdmin() as any)
+      .from('sellers')
+      .select(SELLER_FIELDS, { count: 'exact' })
+      .order('name', { ascending: true })
+      .range(pagination.from, pagination.to);
+
+    if (sellerIds) {
+      query = query.in('id', sellerIds);
+    }
+
+    const search = searchParams.get('search');
+    if (search) {
+      query = query.ilike('name', `%${search}%`);
+    }
+
+    FILTERS.forEach(filter => {
+      const value = searchParams.get(filter);
+      if (value) query = query.eq(filter, value);
+    });
+
+    const { data, error, count } = await query;
+    if (error) throw error;
+
+    return paginated(data || [], count || 0, pagination);
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,22 @@
+import Link from "next/link";
+import { ShieldX } from "lucide-react";
+
+// Rendered by middleware.ts (status 403) when the signed-in user's role or
+// manager assignments don't cover the requested page
+export default function ForbiddenPage() {
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-background">
+      <div className="text-center max-w-md px-4">
+        <ShieldX className="h-10 w-10 mx-auto mb-4 text-red-500" />
+        <h1 className="mb-4 text-4xl font-bold">403</h1>
+        <p className="mb-2 text-xl text-muted-foreground">You don&apos;t have access to this page</p>
+        <p className="mb-6 text-sm text-muted-foreground">
+          Admin pages are limited to MASTER users, and managers can only open the sellers they manage.
+        </p>
+        <Link href="/dashboard" className="text-primary underline hover:text-primary/80">
+          Return to Dashboard
+        </Link>
+      </div>
+    </div>
+  );
+}
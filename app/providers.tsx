@@ -5,6 +5,9 @@ import { Toaster as Sonner } from "@/components/ui/sonner"
 import { TooltipProvider } from "@/components/ui/tooltip"
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query"
 import { AuthProvider } from "@/contexts/AuthContext"
+import { SessionTimeout } from "@/components/SessionTimeout"
+import { ImpersonationBanner } from "@/components/ImpersonationBanner"
+import { ImportStatusChecker } from "@/components/ImportStatusChecker"
 import { useImportCompletion } from "@/hooks/use-import-completion"
 import { useState } from "react"
 
@@ -21,6 +24,9 @@ export function Providers({ children }: { children: React.ReactNode }) {
       <TooltipProvider>
         <AuthProvider>
           <ImportCompletionListener />
+          <SessionTimeout />
+          <ImpersonationBanner />
+          <ImportStatusChecker />
           {children}
           <Toaster />
           <Sonner />
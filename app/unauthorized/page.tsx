@@ -0,0 +1,27 @@
+import Link from "next/link";
+import { ShieldAlert } from "lucide-react";
+import { getSafeRedirect } from "@/lib/route-access";
+
+// middleware.ts sends requests here when a session cookie no longer validates
+export default function UnauthorizedPage({ searchParams }: { searchParams: { redirectTo?: string } }) {
+  const redirectTo = getSafeRedirect(searchParams.redirectTo);
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-background">
+      <div className="text-center max-w-md px-4">
+        <ShieldAlert className="h-10 w-10 mx-auto mb-4 text-amber-500" />
+        <h1 className="mb-4 text-4xl font-bold">401</h1>
+        <p className="mb-2 text-xl text-muted-foreground">Your session has expired</p>
+        <p className="mb-6 text-sm text-muted-foreground">
+          Sign in again to continue where you left off.
+        </p>
+        <Link
+          href={`/auth?redirectTo=${encodeURIComponent(redirectTo)}`}
+          className="text-primary underline hover:text-primary/80"
+        >
+          Sign In
+        </Link>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,10 @@
+/**
+ * Runs once when the Next.js server starts. Import jobs queued or orphaned
+ * while no server was running are picked up here rather than on the next upload.
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') return;
+
+  const { startImportQueuePolling } = await import('@/lib/api/import-jobs');
+  startImportQueuePolling();
+}
@@ -1,10 +1,14 @@
 import { NextResponse } from 'next/server'
 import type { NextRequest } from 'next/server'
+import { createServerClient } from '@supabase/ssr'
+import type { Database } from '@/integrations/supabase/types'
+import { can, getDataScope } from '@/lib/permissions'
+import { getRouteRule, getSafeRedirect, isPublicRoute } from '@/lib/route-access'
 
 export async function middleware(request: NextRequest) {
   const { pathname } = request.nextUrl
-  
-  // Skip middleware for static files and API routes
+
+  // Skip middleware for static files and API routes (/api/v1 authenticates with API tokens)
   if (
     pathname.startsWith('/_next') ||
     pathname.startsWith('/api') ||
@@ -14,16 +18,100 @@ export async function middleware(request: NextRequest) {
     return NextResponse.next()
   }
 
-  // Simple route-based redirects without Supabase authentication
-  // This avoids Edge Runtime issues with Supabase
-  
-  // Define public routes that don't require authentication
-  const publicRoutes = ['/auth']
-  const isPublicRoute = publicRoutes.some(route => pathname.startsWith(route))
-  
-  // For now, allow all routes to pass through
-  // Authentication will be handled by the AuthContext in the app
-  return NextResponse.next()
+  let response = NextResponse.next({ request })
+
+  // Session lives in cookies written by the browser client; refreshed tokens are
+  // copied onto both the request (for this render) and the response
+  const supabase = createServerClient<Database>(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_PUBLISHABLE_KEY!,
+    {
+      cookies: {
+        getAll() {
+          return request.cookies.getAll()
+        },
+        setAll(cookiesToSet) {
+          cookiesToSet.forEach(({ name, value }) => request.cookies.set(name, value))
+          response = NextResponse.next({ request })
+          cookiesToSet.forEach(({ name, value, options }) => response.cookies.set(name, value, options))
+        },
+      },
+    }
+  )
+
+  // getUser() validates the JWT with Supabase Auth - never trust getSession() here
+  const { data: { user }, error } = await supabase.auth.getUser()
+  const hadSession = request.cookies.getAll().some(cookie => cookie.name.startsWith('sb-'))
+
+  // Keep cookie updates made while refreshing the session
+  const withCookies = (next: NextResponse) => {
+    response.cookies.getAll().forEach(cookie => next.cookies.set(cookie))
+    return next
+  }
+
+  if (isPublicRoute(pathname)) {
+    if (user && pathname.startsWith('/auth')) {
+      const destination = getSafeRedirect(request.nextUrl.searchParams.get('redirectTo'))
+      return withCookies(NextResponse.redirect(new URL(destination, request.url)))
+    }
+    return response
+  }
+
+  if (!user) {
+    // A session that no longer validates gets an explanation; no session goes straight to sign in
+    const target = new URL(hadSession && error ? '/unauthorized' : '/auth', request.url)
+    target.searchParams.set('redirectTo', `${pathname}${request.nextUrl.search}`)
+    return withCookies(NextResponse.redirect(target))
+  }
+
+  // The idle timeout holds on the server too, e.g. for a browser that was
+  // closed or asleep; touch_session ends and audits a session idle too long.
+  // Prefetches check the session without counting as activity
+  const isPrefetch = request.headers.has('next-router-prefetch') || request.headers.get('purpose') === 'prefetch'
+  const { data: sessionLive, error: sessionError } = await (supabase as any).rpc('touch_session', {
+    p_active: !isPrefetch,
+  })
+  if (!sessionError && sessionLive === false) {
+    await supabase.auth.signOut({ scope: 'local' })
+    const target = new URL('/auth', request.url)
+    target.searchParams.set('redirectTo', `${pathname}${request.nextUrl.search}`)
+    return withCookies(NextResponse.redirect(target))
+  }
+
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('*')
+    .eq('id', user.id)
+    .maybeSingle()
+
+  const forbidden = () => withCookies(NextResponse.rewrite(new URL('/forbidden', request.url), { status: 403 }))
+
+  // Signed in but never provisioned with a role, or deactivated in the user console
+  if (!profile || (profile as any).deactivated_at) {
+    return forbidden()
+  }
+
+  const match = getRouteRule(pathname)
+  if (match) {
+    if (match.malformed) {
+      return forbidden()
+    }
+
+    if (match.rule.capability && !can(profile, match.rule.capability)) {
+      return forbidden()
+    }
+
+    if (match.sellerId && getDataScope(profile).type !== 'all') {
+      const { data: allowed, error: accessError } = await (supabase as any).rpc('can_access_seller', {
+        seller_id_param: match.sellerId,
+      })
+      if (accessError || !allowed) {
+        return forbidden()
+      }
+    }
+  }
+
+  return response
 }
 
 export const config = {
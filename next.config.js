@@ -1,5 +1,9 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
+  experimental: {
+    // instrumentation.ts starts the import job queue
+    instrumentationHook: true,
+  },
   images: {
     // Configure image domains if needed
     domains: [],
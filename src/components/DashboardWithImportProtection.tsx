@@ -14,7 +14,7 @@ export function DashboardWithImportProtection({
   const [shouldRefresh, setShouldRefresh] = useState(true);
 
   useEffect(() => {
-    // Disable refresh during imports
+    // Disable refresh during imports; a stale lock doesn't count
     if (isImporting) {
       setShouldRefresh(false);
       console.log('🛑 Dashboard refresh disabled - import in progress');
@@ -41,23 +41,6 @@ export function DashboardWithImportProtection({
     return () => clearInterval(interval);
   }, [shouldRefresh, isImporting, refreshInterval]);
 
-  return (
-    <div>
-      {isImporting && (
-        <div className="bg-yellow-100 border-l-4 border-yellow-500 text-yellow-700 p-4 mb-4">
-          <div className="flex">
-            <div className="flex-shrink-0">
-              <div className="animate-spin rounded-full h-5 w-5 border-2 border-yellow-500 border-t-transparent"></div>
-            </div>
-            <div className="ml-3">
-              <p className="text-sm font-medium">
-                Import in progress - Dashboard refreshes disabled to prevent conflicts
-              </p>
-            </div>
-          </div>
-        </div>
-      )}
-      {children}
-    </div>
-  );
+  // ImportStatusChecker shows who is importing on every page
+  return <>{children}</>;
 }
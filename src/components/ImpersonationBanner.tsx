@@ -0,0 +1,53 @@
+'use client'
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Eye, X } from "lucide-react";
+import { useAuth } from "@/contexts/AuthContext";
+import { ROLE_LABELS } from "@/lib/permissions";
+import { Button } from "@/components/ui/button";
+
+/**
+ * Shown on every page while a MASTER is viewing the app as another user
+ */
+export function ImpersonationBanner() {
+  const { impersonation, stopImpersonation } = useAuth();
+  const [stopping, setStopping] = useState(false);
+  const router = useRouter();
+
+  if (!impersonation) return null;
+
+  const { profile } = impersonation;
+
+  const handleStop = async () => {
+    setStopping(true);
+    try {
+      await stopImpersonation();
+      router.push("/admin/users");
+    } finally {
+      setStopping(false);
+    }
+  };
+
+  return (
+    <div className="fixed bottom-4 left-1/2 z-[60] -translate-x-1/2">
+      <div className="flex items-center gap-3 rounded-full border border-amber-300 bg-amber-50 px-4 py-2 text-sm text-amber-900 shadow-lg">
+        <Eye className="h-4 w-4 shrink-0" />
+        <span>
+          Viewing as <span className="font-semibold">{profile.name || profile.email}</span> ({ROLE_LABELS[profile.role] ?? profile.role})
+          {" — read-only"}
+        </span>
+        <Button
+          size="sm"
+          variant="outline"
+          className="h-7 rounded-full border-amber-300 bg-white"
+          onClick={handleStop}
+          disabled={stopping}
+        >
+          <X className="mr-1 h-3 w-3" />
+          Stop
+        </Button>
+      </div>
+    </div>
+  );
+}
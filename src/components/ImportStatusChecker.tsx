@@ -1,88 +1,59 @@
-import { useEffect, useState } from 'react';
-import { supabase } from '@/integrations/supabase/client';
-
-interface ImportStatus {
-  id: string;
-  is_importing: boolean;
-  started_at: string;
-  user_id: string;
-}
-
+'use client'
+
+import Link from "next/link";
+import { formatDistanceToNow } from "date-fns";
+import { AlertTriangle, Loader2 } from "lucide-react";
+import { useAuth } from "@/contexts/AuthContext";
+import { usePermissions } from "@/hooks/use-permissions";
+import { useImportStatus } from "@/hooks/use-import-status";
+
+/**
+ * Shown on every page while an import holds the import lock: who is
+ * importing and how far along it is. A stale lock (no heartbeat) is shown
+ * as such, with a link to release it for users who run imports.
+ */
 export function ImportStatusChecker() {
-  const [importStatus, setImportStatus] = useState<ImportStatus | null>(null);
-  const [isImporting, setIsImporting] = useState(false);
-
-  useEffect(() => {
-    // Check import status on mount
-    checkImportStatus();
-
-    // Set up real-time subscription to import status
-    const channel = supabase
-      .channel('import_status_changes')
-      .on(
-        'postgres_changes',
-        {
-          event: '*',
-          schema: 'public',
-          table: 'import_status'
-        },
-        (payload) => {
-          console.log('Import status changed:', payload);
-          if (payload.new) {
-            const newStatus = payload.new as ImportStatus;
-            setImportStatus(newStatus);
-            setIsImporting(newStatus.is_importing);
-          } else {
-            setImportStatus(null);
-            setIsImporting(false);
-          }
-        }
-      )
-      .subscribe();
-
-    return () => {
-      supabase.removeChannel(channel);
-    };
-  }, []);
-
-  const checkImportStatus = async () => {
-    try {
-      const { data, error } = await supabase
-        .from('import_status')
-        .select('*')
-        .eq('id', 'current_import')
-        .single();
-
-      if (error && error.code !== 'PGRST116') {
-        console.error('Error checking import status:', error);
-        return;
-      }
-
-      if (data) {
-        setImportStatus(data);
-        setIsImporting(data.is_importing);
-      } else {
-        setImportStatus(null);
-        setIsImporting(false);
-      }
-    } catch (error) {
-      console.error('Error checking import status:', error);
-    }
-  };
-
-  // Don't render anything if not importing
-  if (!isImporting) {
-    return null;
+  const { user } = useAuth();
+  const { can } = usePermissions();
+  const { isImporting, isStale, importStatus } = useImportStatus();
+
+  if (!user || !importStatus || (!isImporting && !isStale)) return null;
+
+  const holder = importStatus.holder_name || "Someone";
+  const lastSeen = importStatus.heartbeat_at ?? importStatus.started_at;
+
+  if (isStale) {
+    return (
+      <div className="fixed top-4 left-1/2 z-[60] -translate-x-1/2">
+        <div className="flex items-center gap-3 rounded-full border border-amber-300 bg-amber-50 px-4 py-2 text-sm text-amber-900 shadow-lg">
+          <AlertTriangle className="h-4 w-4 shrink-0" />
+          <span>
+            The import started by <span className="font-semibold">{holder}</span> stopped responding{" "}
+            {formatDistanceToNow(new Date(lastSeen), { addSuffix: true })}
+          </span>
+          {can("import.run") && (
+            <Link href="/admin/settings#import-lock" className="font-medium underline">
+              Manage lock
+            </Link>
+          )}
+        </div>
+      </div>
+    );
   }
 
   return (
-    <div className="fixed top-4 right-4 bg-yellow-500 text-white px-4 py-2 rounded-lg shadow-lg z-50">
-      <div className="flex items-center space-x-2">
-        <div className="animate-spin rounded-full h-4 w-4 border-2 border-white border-t-transparent"></div>
-        <span className="font-medium">Import in Progress</span>
-      </div>
-      <div className="text-sm opacity-90 mt-1">
-        Dashboard refreshes disabled to prevent conflicts
+    <div className="fixed top-4 left-1/2 z-[60] -translate-x-1/2">
+      <div className="flex items-center gap-3 rounded-full border border-blue-300 bg-blue-50 px-4 py-2 text-sm text-blue-900 shadow-lg">
+        <Loader2 className="h-4 w-4 shrink-0 animate-spin" />
+        <span>
+          <span className="font-semibold">{holder}</span> is importing data
+          {importStatus.step_number && importStatus.total_steps
+            ? ` — step ${importStatus.step_number} of ${importStatus.total_steps}`
+            : ""}
+          {importStatus.progress_message && (
+            <span className="ml-1 text-blue-700">({importStatus.progress_message})</span>
+          )}
+        </span>
       </div>
     </div>
   );
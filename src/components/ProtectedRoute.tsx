@@ -2,15 +2,16 @@
 
 import { useRouter } from "next/navigation";
 import { useAuth } from "@/contexts/AuthContext";
+import { can, type Capability } from "@/lib/permissions";
 import { Loader2 } from "lucide-react";
 import { useEffect } from "react";
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
-  requireRole?: "MASTER" | "MANAGER";
+  requireCapability?: Capability;
 }
 
-export function ProtectedRoute({ children, requireRole }: ProtectedRouteProps) {
+export function ProtectedRoute({ children, requireCapability }: ProtectedRouteProps) {
   const { user, profile, loading } = useAuth();
   const router = useRouter();
 
@@ -21,12 +22,12 @@ export function ProtectedRoute({ children, requireRole }: ProtectedRouteProps) {
         return;
       }
 
-      if (requireRole && profile.role !== requireRole) {
+      if (requireCapability && !can(profile, requireCapability)) {
         router.push("/dashboard");
         return;
       }
     }
-  }, [user, profile, loading, requireRole, router]);
+  }, [user, profile, loading, requireCapability, router]);
 
   if (loading) {
     return (
@@ -40,7 +41,7 @@ export function ProtectedRoute({ children, requireRole }: ProtectedRouteProps) {
     return null; // Will redirect
   }
 
-  if (requireRole && profile.role !== requireRole) {
+  if (requireCapability && !can(profile, requireCapability)) {
     return null; // Will redirect
   }
 
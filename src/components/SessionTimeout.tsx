@@ -0,0 +1,84 @@
+'use client'
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import { useIdleTimeout } from "@/hooks/use-idle-timeout";
+import { DEFAULT_SESSION_SETTINGS, getSessionSettings, touchSession, type SessionSettings } from "@/lib/sessions";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+
+// Activity reaches the server's idle check at most this often
+const SESSION_HEARTBEAT_MS = 60 * 1000;
+
+/**
+ * Signs the user out after the idle period set in admin settings, with a
+ * countdown dialog first. Activity is also reported to the server, which
+ * ends sessions that go idle while no tab is open.
+ */
+export function SessionTimeout() {
+  const { user, signOut } = useAuth();
+  const [settings, setSettings] = useState<SessionSettings>(DEFAULT_SESSION_SETTINGS);
+  const userId = user?.id;
+  const lastHeartbeatRef = useRef(0);
+
+  const sendHeartbeat = useCallback(() => {
+    const now = Date.now();
+    if (now - lastHeartbeatRef.current < SESSION_HEARTBEAT_MS) return;
+    lastHeartbeatRef.current = now;
+
+    touchSession()
+      .then(live => {
+        // The server already ended and logged it
+        if (!live) signOut("idle_timeout", { audit: false });
+      })
+      .catch(() => {
+        // Try again with the next activity
+        lastHeartbeatRef.current = 0;
+      });
+  }, [signOut]);
+
+  useEffect(() => {
+    if (!userId) return;
+    getSessionSettings()
+      .then(setSettings)
+      .catch(() => {
+        // Keep the defaults if the settings can't be read
+      });
+  }, [userId]);
+
+  const { warning, secondsLeft, stayActive } = useIdleTimeout({
+    enabled: !!userId,
+    idleMs: settings.idle_timeout_minutes * 60 * 1000,
+    warningMs: settings.warning_seconds * 1000,
+    onTimeout: () => signOut("idle_timeout"),
+    onTimeoutElsewhere: () => signOut("idle_timeout", { audit: false }),
+    onActivity: userId ? sendHeartbeat : undefined,
+  });
+
+  if (!userId) return null;
+
+  return (
+    <AlertDialog open={warning}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Are you still there?</AlertDialogTitle>
+          <AlertDialogDescription>
+            You&apos;ve been inactive for a while. You&apos;ll be signed out in {secondsLeft} second{secondsLeft === 1 ? "" : "s"}.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel onClick={() => signOut()}>Sign Out</AlertDialogCancel>
+          <AlertDialogAction onClick={stayActive}>Stay Signed In</AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
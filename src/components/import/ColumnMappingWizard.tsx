@@ -0,0 +1,390 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import * as XLSX from 'xlsx';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { AlertTriangle, ArrowRight, Save, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import {
+  IMPORT_SHEET_FIELDS,
+  applyColumnMapping,
+  applyMappingProfile,
+  deleteMappingProfile,
+  getDistinctValues,
+  getImportSheets,
+  getMappingProfiles,
+  getSheetHeaders,
+  isAcceptedValue,
+  saveMappingProfile,
+  suggestColumnMapping,
+  suggestValueMappings,
+  validateColumnMapping,
+  workbookToFile,
+  type ColumnMapping,
+  type ImportField,
+  type ImportSheet,
+  type MappingImportType,
+  type MappingProfile,
+  type SheetMapping,
+} from '@/lib/column-mapping';
+
+interface ColumnMappingWizardProps {
+  open: boolean;
+  workbook: XLSX.WorkBook | null;
+  fileName: string;
+  importType: MappingImportType;
+  userId?: string;
+  onCancel: () => void;
+  // Called with the file rebuilt in template shape
+  // The mapped workbook as a file for validation and preview, and the mapping
+  // itself, which is uploaded with the original file
+  onApply: (file: File, mapping: ColumnMapping) => void;
+}
+
+// Radix Select can't hold an empty value
+const NONE = '__none__';
+
+// Distinct values listed per field before truncating
+const MAX_VALUES = 25;
+
+const fromSelect = (value: string) => value === NONE ? null : value;
+
+function ValueMappingList({
+  field,
+  values,
+  mapped,
+  onChange,
+}: {
+  field: ImportField;
+  values: string[];
+  mapped: Record<string, string>;
+  onChange: (value: string, target: string | null) => void;
+}) {
+  return (
+    <div className="space-y-1">
+      <p className="text-xs font-medium text-slate-700">{field.label} values</p>
+      <ul className="space-y-1">
+        {values.slice(0, MAX_VALUES).map(value => {
+          const unresolved = !mapped[value] && !isAcceptedValue(field, value);
+          return (
+            <li key={value} className="flex items-center gap-2 text-xs">
+              <span className={`w-40 truncate ${unresolved ? 'text-amber-700 font-medium' : 'text-slate-700'}`}>{value}</span>
+              <ArrowRight className="h-3 w-3 text-slate-400" />
+              <Select value={mapped[value] ?? NONE} onValueChange={target => onChange(value, fromSelect(target))}>
+                <SelectTrigger className="h-7 w-44 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE} className="text-xs">Keep as is</SelectItem>
+                  {field.values!.map(target => (
+                    <SelectItem key={target} value={target} className="text-xs">{target}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </li>
+          );
+        })}
+        {values.length > MAX_VALUES && (
+          <li className="text-xs text-slate-500 italic">…and {values.length - MAX_VALUES} more kept as they are</li>
+        )}
+      </ul>
+    </div>
+  );
+}
+
+function SheetMappingEditor({
+  workbook,
+  sheet,
+  mapping,
+  onChange,
+}: {
+  workbook: XLSX.WorkBook;
+  sheet: ImportSheet;
+  mapping: SheetMapping;
+  onChange: (mapping: SheetMapping) => void;
+}) {
+  const headers = useMemo(() => getSheetHeaders(workbook, mapping.source_sheet), [workbook, mapping.source_sheet]);
+  const fields = IMPORT_SHEET_FIELDS[sheet];
+
+  const setSourceSheet = (sourceSheet: string | null) => {
+    const columns: Record<string, string | null> = {};
+    const sourceHeaders = getSheetHeaders(workbook, sourceSheet);
+    // Keep columns the new sheet also has
+    fields.forEach(field => {
+      const header = mapping.columns[field.key];
+      columns[field.key] = header && sourceHeaders.indexOf(header) !== -1 ? header : null;
+    });
+    onChange({ source_sheet: sourceSheet, columns, values: suggestValueMappings(workbook, sheet, sourceSheet, columns) });
+  };
+
+  const setColumn = (field: string, header: string | null) => {
+    const columns = { ...mapping.columns, [field]: header };
+    onChange({ ...mapping, columns, values: suggestValueMappings(workbook, sheet, mapping.source_sheet, columns, mapping.values) });
+  };
+
+  const setValue = (field: string, value: string, target: string | null) => {
+    const fieldValues = { ...(mapping.values[field] || {}) };
+    if (target) {
+      fieldValues[value] = target;
+    } else {
+      delete fieldValues[value];
+    }
+    onChange({ ...mapping, values: { ...mapping.values, [field]: fieldValues } });
+  };
+
+  const valueFields = fields.filter(field => field.values && mapping.columns[field.key]);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-3">
+        <Label className="text-sm w-32">Source sheet</Label>
+        <Select value={mapping.source_sheet ?? NONE} onValueChange={value => setSourceSheet(fromSelect(value))}>
+          <SelectTrigger className="w-60">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NONE}>Not in this file</SelectItem>
+            {workbook.SheetNames.map(name => (
+              <SelectItem key={name} value={name}>{name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {mapping.source_sheet && (
+        <div className="bg-slate-50 border border-slate-200 rounded-lg p-3 space-y-2">
+          {fields.map(field => {
+            const header = mapping.columns[field.key];
+            const sample = header ? getDistinctValues(workbook, mapping.source_sheet, header)[0] : undefined;
+            return (
+              <div key={field.key} className="flex items-center gap-3 text-sm">
+                <span className="w-44 truncate text-slate-900">
+                  {field.label}
+                  {field.required && <span className="text-red-600"> *</span>}
+                </span>
+                <ArrowRight className="h-3 w-3 text-slate-400" />
+                <Select value={header ?? NONE} onValueChange={value => setColumn(field.key, fromSelect(value))}>
+                  <SelectTrigger className={`h-8 w-56 text-xs ${field.required && !header ? 'border-red-300' : ''}`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NONE} className="text-xs">Not mapped</SelectItem>
+                    {headers.map(option => (
+                      <SelectItem key={option} value={option} className="text-xs">{option}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {sample !== undefined && (
+                  <span className="text-xs text-slate-500 truncate">e.g. {sample}</span>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {mapping.source_sheet && valueFields.length > 0 && (
+        <div className="border border-slate-200 rounded-lg p-3 space-y-3 max-h-64 overflow-y-auto">
+          <p className="text-xs text-slate-600">
+            Translate values the import doesn&apos;t recognise. Highlighted values would fail the import as they are.
+          </p>
+          {valueFields.map(field => (
+            <ValueMappingList
+              key={field.key}
+              field={field}
+              values={getDistinctValues(workbook, mapping.source_sheet, mapping.columns[field.key])}
+              mapped={mapping.values[field.key] || {}}
+              onChange={(value, target) => setValue(field.key, value, target)}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Maps a non-template spreadsheet onto the import template, with saved
+ * profiles for files that arrive in the same shape every month
+ */
+export function ColumnMappingWizard({ open, workbook, fileName, importType, userId, onCancel, onApply }: ColumnMappingWizardProps) {
+  const { toast } = useToast();
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [profiles, setProfiles] = useState<MappingProfile[]>([]);
+  const [profileId, setProfileId] = useState<string>(NONE);
+  const [profileName, setProfileName] = useState('');
+  const [savingProfile, setSavingProfile] = useState(false);
+  const sheets = getImportSheets(importType);
+
+  useEffect(() => {
+    if (!open || !workbook) return;
+    setMapping(suggestColumnMapping(workbook, importType));
+    setProfileId(NONE);
+    setProfileName('');
+
+    getMappingProfiles(importType)
+      .then(setProfiles)
+      .catch(() => setProfiles([]));
+  }, [open, workbook, importType]);
+
+  const errors = validateColumnMapping(mapping, importType);
+
+  const loadProfile = (id: string) => {
+    setProfileId(id);
+    const profile = profiles.find(p => p.id === id);
+    if (!profile || !workbook) return;
+    setMapping(applyMappingProfile(workbook, importType, profile.mapping));
+    setProfileName(profile.name);
+  };
+
+  const handleSaveProfile = async () => {
+    if (!profileName.trim()) return;
+    setSavingProfile(true);
+    try {
+      const saved = await saveMappingProfile(profileName, importType, mapping, userId);
+      setProfiles(prev => [...prev.filter(p => p.id !== saved.id), saved].sort((a, b) => a.name.localeCompare(b.name)));
+      setProfileId(saved.id);
+      toast({ title: 'Mapping Saved', description: `"${saved.name}" can be loaded for the next import.` });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save mapping',
+        variant: 'destructive',
+      });
+    } finally {
+      setSavingProfile(false);
+    }
+  };
+
+  const handleDeleteProfile = async () => {
+    const profile = profiles.find(p => p.id === profileId);
+    if (!profile) return;
+    try {
+      await deleteMappingProfile(profile.id);
+      setProfiles(prev => prev.filter(p => p.id !== profile.id));
+      setProfileId(NONE);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to delete mapping',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleApply = () => {
+    if (!workbook || errors.length > 0) return;
+    onApply(workbookToFile(applyColumnMapping(workbook, mapping, importType), fileName), mapping);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={isOpen => !isOpen && onCancel()}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Map Columns</DialogTitle>
+          <DialogDescription>
+            {fileName} doesn&apos;t match the import template. Choose which columns feed each field; suggestions are filled in from the headers.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-end gap-3">
+          <div className="space-y-1">
+            <Label className="text-xs">Saved mapping</Label>
+            <div className="flex items-center gap-1">
+              <Select value={profileId} onValueChange={loadProfile}>
+                <SelectTrigger className="w-56 h-8 text-xs">
+                  <SelectValue placeholder="Load a saved mapping" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE} disabled className="text-xs">
+                    {profiles.length === 0 ? 'No saved mappings' : 'Load a saved mapping'}
+                  </SelectItem>
+                  {profiles.map(profile => (
+                    <SelectItem key={profile.id} value={profile.id} className="text-xs">{profile.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {profileId !== NONE && (
+                <Button variant="ghost" size="sm" onClick={handleDeleteProfile} title="Delete saved mapping">
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="mapping-profile-name" className="text-xs">Save as</Label>
+            <div className="flex items-center gap-1">
+              <Input
+                id="mapping-profile-name"
+                value={profileName}
+                onChange={e => setProfileName(e.target.value)}
+                placeholder="e.g. Finance monthly extract"
+                className="w-56 h-8 text-xs"
+              />
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleSaveProfile}
+                disabled={!profileName.trim() || savingProfile}
+                className="flex items-center gap-1"
+              >
+                <Save className="h-4 w-4" />
+                Save
+              </Button>
+            </div>
+          </div>
+        </div>
+
+        {workbook && sheets.length > 0 && (
+          <Tabs defaultValue={sheets[0]}>
+            <TabsList className="flex flex-wrap h-auto">
+              {sheets.map(sheet => {
+                const missing = IMPORT_SHEET_FIELDS[sheet].filter(field => field.required && !mapping[sheet]?.columns[field.key]).length;
+                return (
+                  <TabsTrigger key={sheet} value={sheet} className="text-xs">
+                    {sheet}
+                    {mapping[sheet]?.source_sheet && missing > 0 && (
+                      <Badge variant="destructive" className="ml-1 text-[10px] px-1">{missing}</Badge>
+                    )}
+                  </TabsTrigger>
+                );
+              })}
+            </TabsList>
+            {sheets.map(sheet => mapping[sheet] && (
+              <TabsContent key={sheet} value={sheet}>
+                <SheetMappingEditor
+                  workbook={workbook}
+                  sheet={sheet}
+                  mapping={mapping[sheet]!}
+                  onChange={next => setMapping(prev => ({ ...prev, [sheet]: next }))}
+                />
+              </TabsContent>
+            ))}
+          </Tabs>
+        )}
+
+        {errors.length > 0 && (
+          <ul className="space-y-1 text-xs text-amber-700">
+            {errors.map(error => (
+              <li key={error} className="flex items-center gap-1">
+                <AlertTriangle className="h-3 w-3" />
+                {error}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>Cancel</Button>
+          <Button onClick={handleApply} disabled={errors.length > 0}>Apply Mapping</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
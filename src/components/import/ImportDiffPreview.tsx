@@ -0,0 +1,325 @@
+'use client';
+
+import { useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowRight, AlertTriangle, Link2Off, HeartPulse, GitMerge } from 'lucide-react';
+import type { ImportDiff, ImportSheetDiff } from '@/lib/importers';
+import { MATCH_ENTITY_LABELS, matchKey, type ConfirmedMatches, type NearMiss } from '@/lib/name-matching';
+
+interface ImportDiffPreviewProps {
+  diff: ImportDiff;
+  confirmedMatches?: ConfirmedMatches;
+  onConfirmedMatchesChange?: (matches: ConfirmedMatches) => void;
+}
+
+// Long lists are truncated to keep the modal responsive
+const MAX_ROWS = 50;
+
+const formatCurrency = (amount: number) => {
+  return amount >= 1_000_000
+    ? `$${(amount / 1_000_000).toFixed(1)}M`
+    : amount >= 1_000
+    ? `$${(amount / 1_000).toFixed(0)}K`
+    : `$${amount.toFixed(0)}`;
+};
+
+const formatValue = (value: any) => {
+  if (value === null || value === undefined) return '—';
+  if (typeof value === 'number') return value.toLocaleString();
+  return String(value);
+};
+
+function HealthDot({ healthy }: { healthy: boolean }) {
+  return <div className={`w-2 h-2 rounded-full ${healthy ? 'bg-green-500' : 'bg-red-500'}`} />;
+}
+
+function KeyList({ keys, emptyText, tone }: { keys: string[]; emptyText: string; tone: 'green' | 'red' | 'slate' }) {
+  if (keys.length === 0) {
+    return <p className="text-xs text-slate-500 italic">{emptyText}</p>;
+  }
+
+  const toneClass = tone === 'green' ? 'text-green-800' : tone === 'red' ? 'text-red-800' : 'text-slate-700';
+
+  return (
+    <ul className={`space-y-1 text-xs ${toneClass}`}>
+      {keys.slice(0, MAX_ROWS).map(key => (
+        <li key={key} className="truncate">{key}</li>
+      ))}
+      {keys.length > MAX_ROWS && (
+        <li className="text-slate-500 italic">…and {keys.length - MAX_ROWS} more</li>
+      )}
+    </ul>
+  );
+}
+
+function SheetDiffDetails({ sheet }: { sheet: ImportSheetDiff }) {
+  const [section, setSection] = useState<'added' | 'removed' | 'changed' | 'skipped'>(
+    sheet.changed.length > 0 ? 'changed' : sheet.added.length > 0 ? 'added' : 'removed'
+  );
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-2">
+        {([
+          ['added', `+${sheet.added.length} added`, 'bg-green-100 text-green-800'],
+          ['removed', `-${sheet.removed.length} removed`, 'bg-red-100 text-red-800'],
+          ['changed', `~${sheet.changed.length} changed`, 'bg-amber-100 text-amber-800'],
+          ['skipped', `${sheet.skipped.length} skipped`, 'bg-slate-100 text-slate-700'],
+        ] as const).map(([value, label, className]) => (
+          <button
+            key={value}
+            type="button"
+            onClick={() => setSection(value)}
+            className={`px-2 py-1 rounded-md text-xs font-medium ${className} ${section === value ? 'ring-2 ring-offset-1 ring-slate-400' : ''}`}
+          >
+            {label}
+          </button>
+        ))}
+        <span className="px-2 py-1 text-xs text-slate-500">{sheet.unchanged} unchanged</span>
+      </div>
+
+      <div className="bg-slate-50 border border-slate-200 rounded-lg p-3 max-h-48 overflow-y-auto">
+        {section === 'added' && <KeyList keys={sheet.added} emptyText="No new rows" tone="green" />}
+        {section === 'removed' && <KeyList keys={sheet.removed} emptyText="No rows removed" tone="red" />}
+        {section === 'skipped' && (
+          <>
+            <p className="text-xs text-slate-500 mb-2">These rows reference names that won't exist after the import and will not be imported.</p>
+            <KeyList keys={sheet.skipped} emptyText="No rows skipped" tone="slate" />
+          </>
+        )}
+        {section === 'changed' && (
+          sheet.changed.length === 0 ? (
+            <p className="text-xs text-slate-500 italic">No rows changed</p>
+          ) : (
+            <ul className="space-y-2 text-xs">
+              {sheet.changed.slice(0, MAX_ROWS).map(row => (
+                <li key={row.key}>
+                  <p className="font-medium text-slate-900">{row.key}</p>
+                  {row.changes.map(change => (
+                    <div key={change.field} className="flex items-center gap-1 pl-3 text-slate-600">
+                      <span className="font-mono">{change.field}:</span>
+                      <span className="line-through text-red-700">{formatValue(change.before)}</span>
+                      <ArrowRight className="h-3 w-3" />
+                      <span className="text-green-700">{formatValue(change.after)}</span>
+                    </div>
+                  ))}
+                </li>
+              ))}
+              {sheet.changed.length > MAX_ROWS && (
+                <li className="text-slate-500 italic">…and {sheet.changed.length - MAX_ROWS} more</li>
+              )}
+            </ul>
+          )
+        )}
+      </div>
+    </div>
+  );
+}
+
+function NearMissRow({
+  nearMiss,
+  confirmedName,
+  onChange,
+}: {
+  nearMiss: NearMiss;
+  confirmedName: string | undefined;
+  onChange: (name: string | null) => void;
+}) {
+  const [selected, setSelected] = useState(confirmedName ?? nearMiss.candidates[0].name);
+
+  return (
+    <li className="flex flex-wrap items-center gap-2">
+      <Checkbox
+        checked={!!confirmedName}
+        onCheckedChange={checked => onChange(checked ? selected : null)}
+      />
+      <span className="font-medium text-slate-900 truncate max-w-[12rem]">{nearMiss.input_name}</span>
+      <span className="text-slate-500">
+        ({MATCH_ENTITY_LABELS[nearMiss.entity]}, {nearMiss.sheet}, {nearMiss.row_count} row{nearMiss.row_count === 1 ? '' : 's'})
+      </span>
+      <ArrowRight className="h-3 w-3" />
+      {nearMiss.candidates.length === 1 ? (
+        <span className="text-slate-900">
+          {nearMiss.candidates[0].name}{' '}
+          <span className="text-slate-500">{Math.round(nearMiss.candidates[0].score * 100)}%</span>
+        </span>
+      ) : (
+        <Select
+          value={selected}
+          onValueChange={value => {
+            setSelected(value);
+            if (confirmedName) onChange(value);
+          }}
+        >
+          <SelectTrigger className="h-7 w-auto min-w-[12rem] text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {nearMiss.candidates.map(candidate => (
+              <SelectItem key={candidate.name} value={candidate.name} className="text-xs">
+                {candidate.name} ({Math.round(candidate.score * 100)}%)
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+    </li>
+  );
+}
+
+export function ImportDiffPreview({ diff, confirmedMatches = {}, onConfirmedMatchesChange }: ImportDiffPreviewProps) {
+  const firstSheet = diff.sheets[0]?.sheet ?? '';
+
+  const setConfirmedMatch = (nearMiss: NearMiss, name: string | null) => {
+    if (!onConfirmedMatchesChange) return;
+    const key = matchKey(nearMiss.entity, nearMiss.input_name);
+    const next = { ...confirmedMatches };
+    if (name) {
+      next[key] = name;
+    } else {
+      delete next[key];
+    }
+    onConfirmedMatchesChange(next);
+  };
+
+  return (
+    <div className="space-y-4">
+      {diff.mode === 'comprehensive_add' && diff.sheets.some(s => s.changed.length > 0) && (
+        <p className="text-xs text-slate-600">
+          ADD mode keeps existing records as they are; changed rows below will not be updated.
+        </p>
+      )}
+      {diff.mode === 'comprehensive_merge' && (
+        <p className="text-xs text-slate-600">
+          MERGE mode lists only the fields the chosen policies let the file update. Blank cells keep the current values.
+        </p>
+      )}
+
+      {diff.sheets.length > 0 && (
+        <Tabs defaultValue={firstSheet}>
+          <TabsList className="flex flex-wrap h-auto">
+            {diff.sheets.map(sheet => (
+              <TabsTrigger key={sheet.sheet} value={sheet.sheet} className="text-xs">
+                {sheet.sheet}
+                {(sheet.added.length + sheet.removed.length + sheet.changed.length) > 0 && (
+                  <Badge variant="secondary" className="ml-1 text-[10px] px-1">
+                    {sheet.added.length + sheet.removed.length + sheet.changed.length}
+                  </Badge>
+                )}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+          {diff.sheets.map(sheet => (
+            <TabsContent key={sheet.sheet} value={sheet.sheet}>
+              <SheetDiffDetails sheet={sheet} />
+            </TabsContent>
+          ))}
+        </Tabs>
+      )}
+
+      {/* Near misses */}
+      {diff.nearMisses.length > 0 && (
+        <div className="space-y-2">
+          <h4 className="font-semibold text-slate-900 flex items-center gap-2 text-sm">
+            <GitMerge className="h-4 w-4 text-blue-600" />
+            Possible matches to confirm ({diff.nearMisses.length})
+          </h4>
+          <p className="text-xs text-slate-600">
+            These names don't match an existing record exactly. Tick the ones that are the same record; unticked rows are skipped.
+          </p>
+          <div className="bg-blue-50 border border-blue-200 rounded-lg p-3 max-h-48 overflow-y-auto">
+            <ul className="space-y-2 text-xs text-slate-700">
+              {diff.nearMisses.slice(0, MAX_ROWS).map(nearMiss => {
+                const key = matchKey(nearMiss.entity, nearMiss.input_name);
+                return (
+                  <NearMissRow
+                    key={`${nearMiss.sheet}-${key}`}
+                    nearMiss={nearMiss}
+                    confirmedName={confirmedMatches[key]}
+                    onChange={name => setConfirmedMatch(nearMiss, name)}
+                  />
+                );
+              })}
+              {diff.nearMisses.length > MAX_ROWS && (
+                <li className="text-slate-500 italic">…and {diff.nearMisses.length - MAX_ROWS} more</li>
+              )}
+            </ul>
+          </div>
+        </div>
+      )}
+
+      {/* Lost relationships */}
+      <div className="space-y-2">
+        <h4 className="font-semibold text-slate-900 flex items-center gap-2 text-sm">
+          <Link2Off className="h-4 w-4 text-red-600" />
+          Relationships that will be lost ({diff.lostRelationships.length})
+        </h4>
+        {diff.lostRelationships.length === 0 ? (
+          <p className="text-xs text-slate-500 italic">No existing relationships will be lost</p>
+        ) : (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-3 max-h-40 overflow-y-auto">
+            <ul className="space-y-1 text-xs text-red-800">
+              {diff.lostRelationships.slice(0, MAX_ROWS).map(rel => (
+                <li key={`${rel.account_name}-${rel.seller_name}-${rel.status}`} className="flex justify-between gap-2">
+                  <span className="truncate">{rel.account_name} → {rel.seller_name}</span>
+                  <span className="text-red-600 whitespace-nowrap">{rel.status.replace(/_/g, ' ')}</span>
+                </li>
+              ))}
+              {diff.lostRelationships.length > MAX_ROWS && (
+                <li className="text-red-600 italic">…and {diff.lostRelationships.length - MAX_ROWS} more</li>
+              )}
+            </ul>
+          </div>
+        )}
+      </div>
+
+      {/* Health flips */}
+      <div className="space-y-2">
+        <h4 className="font-semibold text-slate-900 flex items-center gap-2 text-sm">
+          <HeartPulse className="h-4 w-4 text-amber-600" />
+          Sellers whose health would change ({diff.healthFlips.length})
+        </h4>
+        {diff.healthFlips.length === 0 ? (
+          <p className="text-xs text-slate-500 italic">No seller health indicators change</p>
+        ) : (
+          <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 max-h-40 overflow-y-auto">
+            <ul className="space-y-2 text-xs text-slate-700">
+              {diff.healthFlips.slice(0, MAX_ROWS).map(flip => (
+                <li key={flip.seller_name} className="flex flex-wrap items-center gap-x-3 gap-y-1">
+                  <span className="font-medium text-slate-900 w-40 truncate">{flip.seller_name}</span>
+                  <span className="flex items-center gap-1">
+                    Revenue
+                    <HealthDot healthy={flip.is_revenue_healthy_before} />
+                    <ArrowRight className="h-3 w-3" />
+                    <HealthDot healthy={flip.is_revenue_healthy_after} />
+                    <span className="text-slate-500">({formatCurrency(flip.revenue_before)} → {formatCurrency(flip.revenue_after)})</span>
+                  </span>
+                  <span className="flex items-center gap-1">
+                    Accounts
+                    <HealthDot healthy={flip.is_account_healthy_before} />
+                    <ArrowRight className="h-3 w-3" />
+                    <HealthDot healthy={flip.is_account_healthy_after} />
+                    <span className="text-slate-500">({flip.accounts_before} → {flip.accounts_after})</span>
+                  </span>
+                </li>
+              ))}
+              {diff.healthFlips.length > MAX_ROWS && (
+                <li className="text-slate-500 italic">…and {diff.healthFlips.length - MAX_ROWS} more</li>
+              )}
+            </ul>
+          </div>
+        )}
+      </div>
+
+      {diff.sheets.some(s => s.skipped.length > 0) && (
+        <p className="text-xs text-amber-700 flex items-center gap-1">
+          <AlertTriangle className="h-3 w-3" />
+          Some rows reference unknown names and will be skipped. Check the "skipped" lists above.
+        </p>
+      )}
+    </div>
+  );
+}
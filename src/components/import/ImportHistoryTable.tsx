@@ -0,0 +1,283 @@
+'use client';
+
+import { Fragment, useState } from 'react';
+import Link from 'next/link';
+import { format } from 'date-fns';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ImportDebugPanel } from '@/components/debug/ImportDebugPanel';
+import {
+  Activity,
+  AlertTriangle,
+  ChevronDown,
+  ChevronLeft,
+  ChevronRight,
+  Download,
+  FileText,
+  Shield,
+} from 'lucide-react';
+import {
+  getImportJobDuration,
+  IMPORT_FILE_RETENTION_DAYS,
+  IMPORT_JOB_TYPE_LABELS,
+  IMPORT_RESULT_LABELS,
+  type ImportHistoryEntry,
+  type ImportJobState,
+} from '@/lib/import-jobs';
+import type { ImportDebugInfo } from '@/lib/importers';
+
+interface ImportHistoryTableProps {
+  jobs: ImportHistoryEntry[];
+  loading?: boolean;
+  onDownload: (job: ImportHistoryEntry) => void;
+  pagination?: {
+    page: number;
+    totalPages: number;
+    onPageChange: (page: number) => void;
+  };
+}
+
+const STATE_VARIANTS: Record<ImportJobState, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  queued: 'outline',
+  running: 'secondary',
+  succeeded: 'default',
+  failed: 'destructive',
+  cancelled: 'outline',
+};
+
+function formatDuration(ms: number | null) {
+  if (ms === null) return '-';
+  if (ms < 1000) return `${ms}ms`;
+  if (ms < 60000) return `${(ms / 1000).toFixed(1)}s`;
+  return `${Math.floor(ms / 60000)}m ${Math.round((ms % 60000) / 1000)}s`;
+}
+
+function formatFileSize(bytes: number) {
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)}KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)}MB`;
+}
+
+export function ImportHistoryTable({ jobs, loading = false, onDownload, pagination }: ImportHistoryTableProps) {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [debugInfo, setDebugInfo] = useState<ImportDebugInfo | null>(null);
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardContent className="p-0">
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Started</TableHead>
+                  <TableHead>User</TableHead>
+                  <TableHead>File</TableHead>
+                  <TableHead>Mode</TableHead>
+                  <TableHead>State</TableHead>
+                  <TableHead>Duration</TableHead>
+                  <TableHead className="text-right">Details</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {loading ? (
+                  <TableRow>
+                    <TableCell colSpan={7} className="text-center py-8 text-slate-500">
+                      Loading imports...
+                    </TableCell>
+                  </TableRow>
+                ) : jobs.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={7} className="text-center py-8 text-slate-500">
+                      No imports yet
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  jobs.map(job => {
+                    const expanded = expandedId === job.id;
+                    const results = job.results || {};
+                    return (
+                      <Fragment key={job.id}>
+                        <TableRow>
+                          <TableCell className="text-sm whitespace-nowrap">
+                            {format(new Date(job.created_at), 'MMM dd, yyyy HH:mm')}
+                          </TableCell>
+                          <TableCell>
+                            <div className="font-medium text-sm">{job.profiles?.name || 'Unknown User'}</div>
+                            <div className="text-xs text-slate-500">{job.profiles?.email || 'No email'}</div>
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex items-center gap-2 text-sm font-medium">
+                              <FileText className="h-4 w-4 text-slate-400" />
+                              {job.file_name}
+                            </div>
+                            <div className="text-xs text-slate-500">
+                              {formatFileSize(job.file_size)}
+                              {job.file_hash && (
+                                <span className="ml-2 font-mono" title={`SHA-256 ${job.file_hash}`}>
+                                  {job.file_hash.slice(0, 12)}
+                                </span>
+                              )}
+                              {job.column_mapping && (
+                                <span className="ml-2" title="Imported through a column mapping, which is kept with the original file">
+                                  columns mapped
+                                </span>
+                              )}
+                            </div>
+                          </TableCell>
+                          <TableCell>
+                            <Badge variant="outline">{IMPORT_JOB_TYPE_LABELS[job.import_type] ?? job.import_type}</Badge>
+                          </TableCell>
+                          <TableCell>
+                            <Badge variant={STATE_VARIANTS[job.state]}>{job.state}</Badge>
+                            {job.warnings?.length > 0 && (
+                              <span className="ml-2 inline-flex items-center gap-1 text-xs text-amber-700">
+                                <AlertTriangle className="h-3 w-3" />
+                                {job.warnings.length}
+                              </span>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-sm">{formatDuration(getImportJobDuration(job))}</TableCell>
+                          <TableCell className="text-right">
+                            <Button variant="ghost" size="sm" onClick={() => setExpandedId(expanded ? null : job.id)}>
+                              <ChevronDown className={`h-4 w-4 transition-transform ${expanded ? 'rotate-180' : ''}`} />
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+
+                        {expanded && (
+                          <TableRow className="bg-slate-50 hover:bg-slate-50">
+                            <TableCell colSpan={7}>
+                              <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 py-2">
+                                <div>
+                                  <p className="text-sm font-medium text-slate-900 mb-2">Records</p>
+                                  {Object.keys(results).length === 0 ? (
+                                    <p className="text-xs text-slate-500">No results recorded</p>
+                                  ) : (
+                                    <table className="w-full text-xs">
+                                      <thead>
+                                        <tr className="text-slate-500">
+                                          <th className="text-left font-normal pb-1">Entity</th>
+                                          <th className="text-right font-normal pb-1">Inserted</th>
+                                          <th className="text-right font-normal pb-1">Updated</th>
+                                          <th className="text-right font-normal pb-1">Failed</th>
+                                        </tr>
+                                      </thead>
+                                      <tbody>
+                                        {Object.keys(results).map(key => (
+                                          <tr key={key}>
+                                            <td className="py-0.5">{IMPORT_RESULT_LABELS[key] ?? key}</td>
+                                            <td className="text-right">{results[key].imported}</td>
+                                            <td className="text-right">{results[key].updated ?? '-'}</td>
+                                            <td className={`text-right ${results[key].errors?.length ? 'text-red-600' : ''}`}>
+                                              {results[key].errors?.length ?? 0}
+                                            </td>
+                                          </tr>
+                                        ))}
+                                      </tbody>
+                                    </table>
+                                  )}
+                                  {job.error && <p className="text-xs text-red-600 mt-2">{job.error}</p>}
+                                </div>
+
+                                <div>
+                                  <p className="text-sm font-medium text-slate-900 mb-2">Warnings</p>
+                                  {!job.warnings?.length ? (
+                                    <p className="text-xs text-slate-500">None</p>
+                                  ) : (
+                                    <ul className="space-y-1 max-h-40 overflow-y-auto">
+                                      {job.warnings.map((warning, index) => (
+                                        <li key={index} className="text-xs text-amber-800">{warning}</li>
+                                      ))}
+                                    </ul>
+                                  )}
+                                </div>
+
+                                <div>
+                                  <p className="text-sm font-medium text-slate-900 mb-2">Steps</p>
+                                  {!job.step_timings?.length ? (
+                                    <p className="text-xs text-slate-500">Not recorded</p>
+                                  ) : (
+                                    <ul className="space-y-1">
+                                      {job.step_timings.map((timing, index) => (
+                                        <li key={index} className="flex justify-between text-xs">
+                                          <span>{timing.step}</span>
+                                          <span className="text-slate-600">{formatDuration(timing.duration_ms)}</span>
+                                        </li>
+                                      ))}
+                                    </ul>
+                                  )}
+                                </div>
+                              </div>
+
+                              <div className="flex flex-wrap items-center gap-2 pt-3">
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  onClick={() => onDownload(job)}
+                                  disabled={!!job.file_removed_at}
+                                  title={job.file_removed_at ? `Uploads are removed ${IMPORT_FILE_RETENTION_DAYS} days after the import` : undefined}
+                                >
+                                  <Download className="h-4 w-4 mr-2" />
+                                  {job.file_removed_at ? 'File Removed' : 'Download File'}
+                                </Button>
+                                <Button variant="outline" size="sm" asChild>
+                                  <Link href={`/admin/audit?import_job=${job.id}`}>
+                                    <Shield className="h-4 w-4 mr-2" />
+                                    View Audit Logs
+                                  </Link>
+                                </Button>
+                                {job.debug_info && (
+                                  <Button variant="outline" size="sm" onClick={() => setDebugInfo(job.debug_info)}>
+                                    <Activity className="h-4 w-4 mr-2" />
+                                    Performance Details
+                                  </Button>
+                                )}
+                              </div>
+                            </TableCell>
+                          </TableRow>
+                        )}
+                      </Fragment>
+                    );
+                  })
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Pagination */}
+      {pagination && (
+        <div className="flex items-center justify-between">
+          <div className="text-sm text-slate-500">
+            Page {pagination.page} of {pagination.totalPages}
+          </div>
+          <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => pagination.onPageChange(pagination.page - 1)}
+              disabled={pagination.page <= 1}
+            >
+              <ChevronLeft className="h-4 w-4" />
+              Previous
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => pagination.onPageChange(pagination.page + 1)}
+              disabled={pagination.page >= pagination.totalPages}
+            >
+              Next
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <ImportDebugPanel debugInfo={debugInfo} isVisible={debugInfo !== null} onClose={() => setDebugInfo(null)} />
+    </div>
+  );
+}
@@ -0,0 +1,131 @@
+'use client';
+
+import { useState } from 'react';
+import { format, formatDistanceToNow } from 'date-fns';
+import { AlertTriangle, Lock, Unlock } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/use-toast';
+import { useImportStatus } from '@/hooks/use-import-status';
+import { forceReleaseImportLock } from '@/lib/import-lock';
+
+/**
+ * Inspect the import lock and force-release it, e.g. after the importing
+ * browser or server crashed. The reason goes to the audit log.
+ */
+export function ImportLockPanel() {
+  const { toast } = useToast();
+  const { isImporting, isStale, importStatus, checkImportStatus } = useImportStatus();
+  const [reason, setReason] = useState('');
+  const [releasing, setReleasing] = useState(false);
+
+  const locked = isImporting || isStale;
+
+  const handleRelease = async () => {
+    setReleasing(true);
+    try {
+      await forceReleaseImportLock(reason.trim());
+      setReason('');
+      await checkImportStatus();
+      toast({
+        title: 'Import Lock Released',
+        description: 'The release and its reason were written to the audit log.',
+      });
+    } catch (error) {
+      toast({
+        title: 'Release Failed',
+        description: error instanceof Error ? error.message : 'Failed to release the import lock',
+        variant: 'destructive',
+      });
+    } finally {
+      setReleasing(false);
+    }
+  };
+
+  return (
+    <Card id="import-lock" className="bg-white/80 backdrop-blur-sm border-slate-200 shadow-sm hover:shadow-md transition-shadow">
+      <CardHeader className="pb-4">
+        <CardTitle className="flex items-center gap-3 text-lg">
+          <div className="p-2 bg-slate-100 rounded-lg">
+            <Lock className="h-5 w-5 text-slate-600" />
+          </div>
+          Import Lock
+          {locked && (
+            <Badge variant={isStale ? 'destructive' : 'secondary'}>{isStale ? 'Stale' : 'Active'}</Badge>
+          )}
+        </CardTitle>
+        <CardDescription className="text-slate-600">
+          The running import holds the lock and sends a heartbeat while it works. A lock without a heartbeat for 2 minutes is stale and the next import takes it over.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!locked || !importStatus ? (
+          <p className="text-sm text-slate-600">No import holds the lock.</p>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3 text-sm">
+              <div>
+                <p className="text-slate-500">Held by</p>
+                <p className="font-medium text-slate-900">{importStatus.holder_name || importStatus.user_id || 'Unknown'}</p>
+              </div>
+              <div>
+                <p className="text-slate-500">Started</p>
+                <p className="font-medium text-slate-900">{format(new Date(importStatus.started_at), 'MMM dd, yyyy HH:mm')}</p>
+              </div>
+              <div>
+                <p className="text-slate-500">Last heartbeat</p>
+                <p className="font-medium text-slate-900">
+                  {importStatus.heartbeat_at
+                    ? formatDistanceToNow(new Date(importStatus.heartbeat_at), { addSuffix: true })
+                    : 'None'}
+                </p>
+              </div>
+              <div>
+                <p className="text-slate-500">Progress</p>
+                <p className="font-medium text-slate-900">
+                  {importStatus.step_number && importStatus.total_steps
+                    ? `Step ${importStatus.step_number} of ${importStatus.total_steps}`
+                    : '-'}
+                  {importStatus.progress_message && (
+                    <span className="block text-xs font-normal text-slate-600">{importStatus.progress_message}</span>
+                  )}
+                </p>
+              </div>
+            </div>
+
+            {!isStale && (
+              <div className="flex items-start gap-2 p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800">
+                <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                This import is still sending heartbeats. Releasing the lock lets another import start while it runs.
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="import-lock-reason">Reason</Label>
+              <Textarea
+                id="import-lock-reason"
+                value={reason}
+                onChange={event => setReason(event.target.value)}
+                placeholder="Why the lock is being released"
+                maxLength={500}
+                disabled={releasing}
+              />
+            </div>
+            <Button
+              variant="destructive"
+              onClick={handleRelease}
+              disabled={releasing || reason.trim() === ''}
+              className="flex items-center gap-2"
+            >
+              <Unlock className="h-4 w-4" />
+              {releasing ? 'Releasing...' : 'Force Release'}
+            </Button>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,114 @@
+'use client';
+
+import { useState } from 'react';
+import { Download, MapPin, Search, Wand2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { useImportStatus } from '@/hooks/use-import-status';
+import {
+  downloadLocationReport,
+  normalizeStoredLocations,
+  type LocationNormalizationResult,
+} from '@/lib/location-normalization';
+
+/**
+ * Normalize the locations of existing accounts and sellers on demand and
+ * download what could not be resolved
+ */
+export function LocationNormalizationPanel() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { isImporting } = useImportStatus();
+  const [running, setRunning] = useState<'check' | 'apply' | null>(null);
+  const [result, setResult] = useState<LocationNormalizationResult | null>(null);
+  const [applied, setApplied] = useState(false);
+
+  const run = async (apply: boolean) => {
+    setRunning(apply ? 'apply' : 'check');
+    try {
+      const next = await normalizeStoredLocations(apply, user?.id);
+      setResult(next);
+      setApplied(apply);
+      if (apply) {
+        toast({
+          title: 'Locations Normalized',
+          description: `Updated ${next.updated} of ${next.checked} records; ${next.unresolved.length} values could not be resolved.`,
+        });
+      }
+    } catch (error) {
+      toast({
+        title: apply ? 'Normalization Failed' : 'Check Failed',
+        description: error instanceof Error ? error.message : 'Failed to normalize locations',
+        variant: 'destructive',
+      });
+    } finally {
+      setRunning(null);
+    }
+  };
+
+  return (
+    <Card className="bg-white/80 backdrop-blur-sm border-slate-200 shadow-sm hover:shadow-md transition-shadow">
+      <CardHeader className="pb-4">
+        <CardTitle className="flex items-center gap-3 text-lg">
+          <div className="p-2 bg-teal-100 rounded-lg">
+            <MapPin className="h-5 w-5 text-teal-600" />
+          </div>
+          Location Normalization
+        </CardTitle>
+        <CardDescription className="text-slate-600">
+          Imports turn country and US state names into codes and place known cities from the bundled gazetteer. Run the same normalization over existing accounts and sellers; values it can't resolve are left as they are and listed in the report.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap gap-3">
+          <Button
+            variant="outline"
+            onClick={() => run(false)}
+            disabled={running !== null}
+            className="flex items-center gap-2"
+          >
+            <Search className="h-4 w-4" />
+            {running === 'check' ? 'Checking...' : 'Check Locations'}
+          </Button>
+          <Button
+            onClick={() => run(true)}
+            disabled={running !== null || isImporting}
+            className="flex items-center gap-2 bg-teal-600 hover:bg-teal-700 text-white"
+          >
+            <Wand2 className="h-4 w-4" />
+            {running === 'apply' ? 'Normalizing...' : 'Normalize Locations'}
+          </Button>
+        </div>
+
+        {isImporting && (
+          <p className="text-sm text-slate-600">Normalizing is unavailable while an import is running.</p>
+        )}
+
+        {result && (
+          <div className="bg-gradient-to-r from-teal-50 to-emerald-50 border border-teal-200 rounded-xl p-4 space-y-3">
+            <p className="text-sm text-teal-900">
+              {result.checked} accounts and sellers checked.{' '}
+              {applied
+                ? `${result.updated} were updated.`
+                : `${result.updated} would be updated.`}{' '}
+              {result.unresolved.length} values could not be resolved.
+            </p>
+            {result.unresolved.length > 0 && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => downloadLocationReport(result.unresolved)}
+                className="flex items-center gap-2"
+              >
+                <Download className="h-4 w-4" />
+                Download Report
+              </Button>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
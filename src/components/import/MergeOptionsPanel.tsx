@@ -0,0 +1,99 @@
+'use client';
+
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  MERGE_ENTITIES,
+  MERGE_ENTITY_LABELS,
+  MERGE_FIELDS,
+  MERGE_FIELD_LABELS,
+  MERGE_POLICY_LABELS,
+  mergePolicyOptions,
+  type MergeEntity,
+  type MergeFieldPolicy,
+  type MergeOptions,
+} from '@/lib/import-merge';
+
+interface MergeOptionsPanelProps {
+  options: MergeOptions;
+  onChange: (options: MergeOptions) => void;
+  disabled?: boolean;
+}
+
+export function MergeOptionsPanel({ options, onChange, disabled }: MergeOptionsPanelProps) {
+  const setPolicy = (entity: MergeEntity, field: string, policy: MergeFieldPolicy) => {
+    onChange({
+      ...options,
+      policies: {
+        ...options.policies,
+        [entity]: { ...options.policies[entity], [field]: policy },
+      },
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-start justify-between gap-4 p-3 bg-slate-50 border border-slate-200 rounded-lg">
+        <div>
+          <Label htmlFor="merge-delete-missing" className="font-medium text-slate-900">
+            Delete records missing from the file
+          </Label>
+          <p className="text-xs text-slate-600 mt-1">
+            Only for the sheets in the file. Accounts and sellers are deleted with their relationships.
+          </p>
+        </div>
+        <Switch
+          id="merge-delete-missing"
+          checked={options.deleteMissing}
+          onCheckedChange={checked => onChange({ ...options, deleteMissing: checked })}
+          disabled={disabled}
+        />
+      </div>
+
+      <div>
+        <p className="text-sm font-medium text-slate-900 mb-2">Field policies</p>
+        <Tabs defaultValue={MERGE_ENTITIES[0]}>
+          <TabsList className="flex flex-wrap h-auto">
+            {MERGE_ENTITIES.map(entity => (
+              <TabsTrigger key={entity} value={entity} className="text-xs">
+                {MERGE_ENTITY_LABELS[entity]}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+          {MERGE_ENTITIES.map(entity => (
+            <TabsContent key={entity} value={entity}>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                {MERGE_FIELDS[entity].map(field => (
+                  <div key={field} className="flex items-center justify-between gap-2 p-2 bg-slate-50 rounded-lg">
+                    <span className="text-xs text-slate-700">{MERGE_FIELD_LABELS[field] ?? field}</span>
+                    <Select
+                      value={options.policies[entity][field]}
+                      onValueChange={value => setPolicy(entity, field, value as MergeFieldPolicy)}
+                      disabled={disabled}
+                    >
+                      <SelectTrigger className="h-7 w-auto min-w-[10rem] text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {mergePolicyOptions(entity, field).map(policy => (
+                          <SelectItem key={policy} value={policy} className="text-xs">
+                            {MERGE_POLICY_LABELS[policy]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+            </TabsContent>
+          ))}
+        </Tabs>
+        <p className="text-xs text-slate-500 mt-2">
+          Blank cells never clear a value. Names follow the file for records matched on their external ID.
+        </p>
+      </div>
+    </div>
+  );
+}
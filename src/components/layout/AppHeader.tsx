@@ -1,6 +1,6 @@
 import { useAuth } from "@/contexts/AuthContext";
 import { Button } from "@/components/ui/button";
-import { Building2, LogOut, User, Settings } from "lucide-react";
+import { Building2, LogOut, User, Settings, ClipboardCheck, History, FlaskConical, Scale, KeyRound, Users, MonitorSmartphone } from "lucide-react";
 import Link from "next/link";
 import Image from "next/image";
 import {
@@ -12,9 +12,12 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { Badge } from "@/components/ui/badge";
+import { usePermissions } from "@/hooks/use-permissions";
+import { ROLE_LABELS } from "@/lib/permissions";
 
 export function AppHeader() {
   const { profile, signOut } = useAuth();
+  const { can } = usePermissions();
 
   return (
     <header className="sticky top-0 z-50 w-full border-b border-slate-200/60 bg-white/95 backdrop-blur-sm shadow-sm">
@@ -40,7 +43,62 @@ export function AppHeader() {
               Dashboard
             </Button>
           </Link>
-          {profile?.role === "MASTER" && (
+          {can("request.review") && (
+            <Link href="/admin/requests">
+              <Button 
+                variant="ghost" 
+                className="h-10 px-4 text-slate-700 hover:text-slate-900 hover:bg-slate-100 font-medium transition-colors duration-200"
+              >
+                <ClipboardCheck className="h-4 w-4 mr-2" />
+                Requests
+              </Button>
+            </Link>
+          )}
+          {can("scenario.edit") && (
+            <Link href="/scenarios">
+              <Button 
+                variant="ghost" 
+                className="h-10 px-4 text-slate-700 hover:text-slate-900 hover:bg-slate-100 font-medium transition-colors duration-200"
+              >
+                <FlaskConical className="h-4 w-4 mr-2" />
+                Scenarios
+              </Button>
+            </Link>
+          )}
+          {can("rebalance.view") && (
+            <Link href="/rebalance">
+              <Button 
+                variant="ghost" 
+                className="h-10 px-4 text-slate-700 hover:text-slate-900 hover:bg-slate-100 font-medium transition-colors duration-200"
+              >
+                <Scale className="h-4 w-4 mr-2" />
+                Rebalance
+              </Button>
+            </Link>
+          )}
+          {can("snapshot.manage") && (
+            <Link href="/admin/snapshots">
+              <Button 
+                variant="ghost" 
+                className="h-10 px-4 text-slate-700 hover:text-slate-900 hover:bg-slate-100 font-medium transition-colors duration-200"
+              >
+                <History className="h-4 w-4 mr-2" />
+                Snapshots
+              </Button>
+            </Link>
+          )}
+          {can("user.manage") && (
+            <Link href="/admin/users">
+              <Button 
+                variant="ghost" 
+                className="h-10 px-4 text-slate-700 hover:text-slate-900 hover:bg-slate-100 font-medium transition-colors duration-200"
+              >
+                <Users className="h-4 w-4 mr-2" />
+                Users
+              </Button>
+            </Link>
+          )}
+          {can("settings.edit") && (
             <Link href="/admin/settings">
               <Button 
                 variant="ghost" 
@@ -64,7 +122,7 @@ export function AppHeader() {
                   </div>
                   <div className="flex flex-col items-start">
                     <span className="text-sm font-medium">{profile?.name}</span>
-                    <span className="text-xs text-slate-500">{profile?.role}</span>
+                    <span className="text-xs text-slate-500">{profile && ROLE_LABELS[profile.role]}</span>
                   </div>
                 </Button>
               </DropdownMenuTrigger>
@@ -80,12 +138,24 @@ export function AppHeader() {
                   <div className="flex items-center justify-between w-full">
                     <span className="text-sm text-slate-600">Role</span>
                     <Badge variant={profile?.role === "MASTER" ? "default" : "secondary"} className="text-xs">
-                      {profile?.role}
+                      {profile && ROLE_LABELS[profile.role]}
                     </Badge>
                   </div>
                 </DropdownMenuItem>
+                <DropdownMenuItem asChild className="py-3 cursor-pointer">
+                  <Link href="/sessions">
+                    <MonitorSmartphone className="mr-3 h-4 w-4" />
+                    <span className="font-medium">Active Sessions</span>
+                  </Link>
+                </DropdownMenuItem>
+                <DropdownMenuItem asChild className="py-3 cursor-pointer">
+                  <Link href="/api-tokens">
+                    <KeyRound className="mr-3 h-4 w-4" />
+                    <span className="font-medium">API Tokens</span>
+                  </Link>
+                </DropdownMenuItem>
                 <DropdownMenuSeparator />
-                <DropdownMenuItem onClick={signOut} className="text-red-600 hover:text-red-700 hover:bg-red-50 py-3">
+                <DropdownMenuItem onClick={() => signOut()} className="text-red-600 hover:text-red-700 hover:bg-red-50 py-3">
                   <LogOut className="mr-3 h-4 w-4" />
                   <span className="font-medium">Sign Out</span>
                 </DropdownMenuItem>
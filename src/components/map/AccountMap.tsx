@@ -0,0 +1,392 @@
+'use client'
+
+import { memo, useMemo, useState } from 'react';
+import { Map, Minus, Plus, Maximize2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { clusterByDistance, distanceBetween, filterWithinRadius, hasCoordinates, GeoCluster } from "@/lib/geo";
+import { LAND_OUTLINES, REFERENCE_PLACES } from "@/lib/map-geometry";
+
+export type MapPointKind = 'seller' | 'must_keep' | 'for_discussion' | 'to_be_peeled' | 'available';
+
+export type MapPoint = {
+  id: string;
+  name: string;
+  lat: number | null | undefined;
+  lng: number | null | undefined;
+  kind: MapPointKind;
+  revenue?: number;
+  subtitle?: string;
+};
+
+type AccountMapProps = {
+  // Seller home location, centre of the radius filter
+  home?: { name: string; lat: number | null | undefined; lng: number | null | undefined } | null;
+  points: MapPoint[];
+  defaultRadiusKm?: number | null;
+  onPointClick?: (point: MapPoint) => void;
+  emptyMessage?: string;
+};
+
+const KIND_STYLES: Record<MapPointKind, { label: string; color: string }> = {
+  seller: { label: 'Seller', color: '#1e293b' },
+  must_keep: { label: 'Must Keep', color: '#16a34a' },
+  for_discussion: { label: 'For Discussion', color: '#f59e0b' },
+  to_be_peeled: { label: 'To be Peeled', color: '#dc2626' },
+  available: { label: 'Available', color: '#3b82f6' },
+};
+
+const RADIUS_OPTIONS = [50, 100, 250, 500, 1000, 2500];
+
+// Rendered width the marker sizes are designed for; the SVG scales with its container
+const BASE_WIDTH_PX = 800;
+const ASPECT = 2;
+const KM_PER_DEGREE = 111.32;
+
+const formatRevenue = (amount: number) => {
+  return amount >= 1_000_000
+    ? `$${(amount / 1_000_000).toFixed(1)}M`
+    : amount >= 1_000
+    ? `$${(amount / 1_000).toFixed(0)}K`
+    : `$${amount.toFixed(0)}`;
+};
+
+/**
+ * Offline account map: equirectangular projection over bundled land outlines,
+ * with a radius filter around the seller and distance-based clustering.
+ */
+const AccountMap = memo(({ home, points, defaultRadiusKm = null, onPointClick, emptyMessage }: AccountMapProps) => {
+  const [radiusKm, setRadiusKm] = useState<number | null>(defaultRadiusKm);
+  const [clustering, setClustering] = useState(true);
+  const [zoom, setZoom] = useState(1);
+  const [focus, setFocus] = useState<{ lat: number; lng: number } | null>(null);
+  const [hiddenKinds, setHiddenKinds] = useState<Set<MapPointKind>>(new Set());
+
+  const homeLocated = !!home && hasCoordinates(home);
+
+  const locatedPoints = useMemo(() => points.filter(hasCoordinates), [points]);
+
+  const visiblePoints = useMemo(() => {
+    const shown = locatedPoints.filter(point => !hiddenKinds.has(point.kind));
+    return homeLocated && radiusKm ? filterWithinRadius(shown, home!, radiusKm) : shown;
+  }, [locatedPoints, hiddenKinds, homeLocated, home, radiusKm]);
+
+  // Horizontal scale keeps shapes undistorted around the middle latitude
+  const projection = useMemo(() => {
+    const anchors = [...visiblePoints, ...(homeLocated ? [home!] : [])] as Array<{ lat: number; lng: number }>;
+    const lats = anchors.map(p => p.lat);
+    const lngs = anchors.map(p => p.lng);
+
+    let minLat = anchors.length ? Math.min(...lats) : -55;
+    let maxLat = anchors.length ? Math.max(...lats) : 75;
+    let minLng = anchors.length ? Math.min(...lngs) : -170;
+    let maxLng = anchors.length ? Math.max(...lngs) : 180;
+
+    if (homeLocated && radiusKm) {
+      const dLat = radiusKm / KM_PER_DEGREE;
+      const dLng = radiusKm / (KM_PER_DEGREE * Math.max(Math.cos((home!.lat as number) * Math.PI / 180), 0.1));
+      minLat = Math.min(minLat, (home!.lat as number) - dLat);
+      maxLat = Math.max(maxLat, (home!.lat as number) + dLat);
+      minLng = Math.min(minLng, (home!.lng as number) - dLng);
+      maxLng = Math.max(maxLng, (home!.lng as number) + dLng);
+    }
+
+    const midLat = (minLat + maxLat) / 2;
+    const xScale = Math.max(Math.cos(midLat * Math.PI / 180), 0.2);
+    const project = (lng: number, lat: number): [number, number] => [lng * xScale, -lat];
+
+    const [x0, y0] = project(minLng, maxLat);
+    const [x1, y1] = project(maxLng, minLat);
+    let width = Math.max(x1 - x0, 2) * 1.15;
+    let height = Math.max(y1 - y0, 1) * 1.15;
+    if (width / height > ASPECT) height = width / ASPECT;
+    else width = height * ASPECT;
+
+    const center = focus ? project(focus.lng, focus.lat) : [(x0 + x1) / 2, (y0 + y1) / 2];
+    width /= zoom;
+    height /= zoom;
+
+    return {
+      project,
+      xScale,
+      viewBox: { x: center[0] - width / 2, y: center[1] - height / 2, width, height },
+      unitsPerPx: width / BASE_WIDTH_PX,
+    };
+  }, [visiblePoints, homeLocated, home, radiusKm, zoom, focus]);
+
+  const { project, viewBox, unitsPerPx } = projection;
+
+  const clusters = useMemo<GeoCluster<MapPoint>[]>(() => {
+    const ordered = [...visiblePoints].sort((a, b) => (b.revenue || 0) - (a.revenue || 0));
+    // Roughly 24 screen pixels, converted to kilometres at the current zoom
+    const thresholdKm = clustering ? unitsPerPx * 24 * KM_PER_DEGREE / projection.xScale : 0;
+    return clusterByDistance(ordered, thresholdKm);
+  }, [visiblePoints, clustering, unitsPerPx, projection.xScale]);
+
+  const landPaths = useMemo(() => LAND_OUTLINES.map(outline => ({
+    name: outline.name,
+    d: outline.ring.map(([lng, lat], i) => {
+      const [x, y] = project(lng, lat);
+      return `${i === 0 ? 'M' : 'L'}${x.toFixed(3)},${y.toFixed(3)}`;
+    }).join(' ') + ' Z',
+  })), [project]);
+
+  const referenceLabels = useMemo(() => {
+    // Labels only once zoomed in far enough to read them
+    if (viewBox.width > 90) return [];
+    return REFERENCE_PLACES
+      .filter(place => viewBox.width > 30 ? place.kind === 'country' : true)
+      .map(place => ({ ...place, xy: project(place.lng, place.lat) }))
+      .filter(({ xy }) =>
+        xy[0] >= viewBox.x && xy[0] <= viewBox.x + viewBox.width &&
+        xy[1] >= viewBox.y && xy[1] <= viewBox.y + viewBox.height
+      );
+  }, [project, viewBox]);
+
+  const toggleKind = (kind: MapPointKind) => {
+    setHiddenKinds(prev => {
+      const next = new Set(prev);
+      if (next.has(kind)) next.delete(kind);
+      else next.add(kind);
+      return next;
+    });
+  };
+
+  const resetView = () => {
+    setZoom(1);
+    setFocus(null);
+  };
+
+  const handleClusterClick = (cluster: GeoCluster<MapPoint>) => {
+    if (cluster.items.length === 1) {
+      onPointClick?.(cluster.items[0]);
+      return;
+    }
+    setFocus({ lat: cluster.lat, lng: cluster.lng });
+    setZoom(z => Math.min(z * 3, 256));
+  };
+
+  const kindCounts = useMemo(() => {
+    const counts: Partial<Record<MapPointKind, number>> = {};
+    points.forEach(point => {
+      counts[point.kind] = (counts[point.kind] || 0) + 1;
+    });
+    return counts;
+  }, [points]);
+
+  const unlocatedCount = points.length - locatedPoints.length;
+
+  if (locatedPoints.length === 0 && !homeLocated) {
+    return (
+      <div className="flex flex-col items-center justify-center py-12 text-slate-500">
+        <Map className="h-12 w-12 mb-4 opacity-40" />
+        <p className="text-lg font-medium">No locations to map</p>
+        <p className="text-sm">{emptyMessage || 'Accounts and sellers need a state or country to appear on the map'}</p>
+      </div>
+    );
+  }
+
+  const homeXY = homeLocated ? project(home!.lng as number, home!.lat as number) : null;
+
+  return (
+    <div className="space-y-3">
+      {/* Controls */}
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex flex-wrap items-center gap-2">
+          {(Object.keys(KIND_STYLES) as MapPointKind[])
+            .filter(kind => kindCounts[kind])
+            .map(kind => (
+              <button
+                key={kind}
+                type="button"
+                onClick={() => toggleKind(kind)}
+                className={`flex items-center gap-1.5 rounded-full border px-2.5 py-1 text-xs font-medium transition-opacity ${
+                  hiddenKinds.has(kind) ? 'opacity-40' : ''
+                }`}
+              >
+                <span className="h-2.5 w-2.5 rounded-full" style={{ backgroundColor: KIND_STYLES[kind].color }} />
+                {KIND_STYLES[kind].label} ({kindCounts[kind]})
+              </button>
+            ))}
+        </div>
+        <div className="flex items-center gap-3">
+          {homeLocated && (
+            <Select
+              value={radiusKm ? String(radiusKm) : 'all'}
+              onValueChange={(value) => {
+                setRadiusKm(value === 'all' ? null : Number(value));
+                resetView();
+              }}
+            >
+              <SelectTrigger className="w-[150px] h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Any distance</SelectItem>
+                {RADIUS_OPTIONS.map(option => (
+                  <SelectItem key={option} value={String(option)}>Within {option.toLocaleString()} km</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <div className="flex items-center gap-2">
+            <Switch id="map-clustering" checked={clustering} onCheckedChange={setClustering} />
+            <Label htmlFor="map-clustering" className="text-xs">Cluster</Label>
+          </div>
+          <div className="flex items-center">
+            <Button variant="outline" size="icon" className="h-8 w-8 rounded-r-none" onClick={() => setZoom(z => Math.min(z * 2, 256))}>
+              <Plus className="h-3.5 w-3.5" />
+            </Button>
+            <Button variant="outline" size="icon" className="h-8 w-8 rounded-none border-x-0" onClick={() => setZoom(z => Math.max(z / 2, 1))}>
+              <Minus className="h-3.5 w-3.5" />
+            </Button>
+            <Button variant="outline" size="icon" className="h-8 w-8 rounded-l-none" onClick={resetView}>
+              <Maximize2 className="h-3.5 w-3.5" />
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      {/* Map */}
+      <div className="rounded-lg border border-slate-200 bg-sky-50 overflow-hidden">
+        <svg
+          viewBox={`${viewBox.x} ${viewBox.y} ${viewBox.width} ${viewBox.height}`}
+          className="w-full h-auto block"
+          style={{ aspectRatio: `${ASPECT}` }}
+          preserveAspectRatio="xMidYMid meet"
+          role="img"
+          aria-label="Account map"
+        >
+          {landPaths.map(path => (
+            <path
+              key={path.name}
+              d={path.d}
+              fill="#f1f5f9"
+              stroke="#cbd5e1"
+              strokeWidth={1}
+              vectorEffect="non-scaling-stroke"
+            />
+          ))}
+
+          {referenceLabels.map(place => (
+            <g key={`${place.kind}-${place.code}`} opacity={0.55}>
+              <circle cx={place.xy[0]} cy={place.xy[1]} r={1.5 * unitsPerPx} fill="#94a3b8" />
+              <text
+                x={place.xy[0] + 4 * unitsPerPx}
+                y={place.xy[1] + 3 * unitsPerPx}
+                fontSize={10 * unitsPerPx}
+                fill="#64748b"
+              >
+                {place.kind === 'state' ? place.code : place.name}
+              </text>
+            </g>
+          ))}
+
+          {homeXY && radiusKm && (
+            <ellipse
+              cx={homeXY[0]}
+              cy={homeXY[1]}
+              rx={radiusKm / (KM_PER_DEGREE * Math.max(Math.cos((home!.lat as number) * Math.PI / 180), 0.1)) * projection.xScale}
+              ry={radiusKm / KM_PER_DEGREE}
+              fill="#3b82f6"
+              fillOpacity={0.06}
+              stroke="#3b82f6"
+              strokeDasharray="4 4"
+              strokeWidth={1}
+              vectorEffect="non-scaling-stroke"
+            />
+          )}
+
+          {clusters.map(cluster => {
+            const [x, y] = project(cluster.lng, cluster.lat);
+            const byKind = cluster.items.reduce((counts, item) => {
+              counts[item.kind] = (counts[item.kind] || 0) + 1;
+              return counts;
+            }, {} as Partial<Record<MapPointKind, number>>);
+            const dominant = (Object.keys(byKind) as MapPointKind[]).sort((a, b) => (byKind[b] || 0) - (byKind[a] || 0))[0];
+            const isCluster = cluster.items.length > 1;
+            const radius = (isCluster ? Math.min(8 + Math.sqrt(cluster.items.length) * 3, 22) : 6) * unitsPerPx;
+            const revenue = cluster.items.reduce((sum, item) => sum + (item.revenue || 0), 0);
+            const single = cluster.items[0];
+            const distance = homeLocated ? distanceBetween(cluster, home!) : null;
+
+            const title = isCluster
+              ? `${cluster.items.length} locations (${(Object.keys(byKind) as MapPointKind[]).map(kind => `${byKind[kind]} ${KIND_STYLES[kind].label}`).join(', ')})` +
+                (revenue ? ` · ${formatRevenue(revenue)}` : '') + ' · click to zoom in'
+              : `${single.name} · ${KIND_STYLES[single.kind].label}` +
+                (single.revenue ? ` · ${formatRevenue(single.revenue)}` : '') +
+                (single.subtitle ? ` · ${single.subtitle}` : '') +
+                (distance !== null ? ` · ${Math.round(distance).toLocaleString()} km away` : '');
+
+            return (
+              <g
+                key={`${single.kind}-${single.id}`}
+                onClick={() => handleClusterClick(cluster)}
+                className={isCluster || onPointClick ? 'cursor-pointer' : undefined}
+              >
+                <title>{title}</title>
+                <circle
+                  cx={x}
+                  cy={y}
+                  r={radius}
+                  fill={KIND_STYLES[dominant].color}
+                  fillOpacity={isCluster ? 0.8 : 0.9}
+                  stroke="#ffffff"
+                  strokeWidth={1.5}
+                  vectorEffect="non-scaling-stroke"
+                />
+                {isCluster && (
+                  <text
+                    x={x}
+                    y={y + 3.5 * unitsPerPx}
+                    textAnchor="middle"
+                    fontSize={10 * unitsPerPx}
+                    fontWeight={700}
+                    fill="#ffffff"
+                    pointerEvents="none"
+                  >
+                    {cluster.items.length}
+                  </text>
+                )}
+              </g>
+            );
+          })}
+
+          {homeXY && (
+            <g>
+              <title>{`${home!.name} · home location`}</title>
+              <rect
+                x={homeXY[0] - 6 * unitsPerPx}
+                y={homeXY[1] - 6 * unitsPerPx}
+                width={12 * unitsPerPx}
+                height={12 * unitsPerPx}
+                transform={`rotate(45 ${homeXY[0]} ${homeXY[1]})`}
+                fill={KIND_STYLES.seller.color}
+                stroke="#ffffff"
+                strokeWidth={2}
+                vectorEffect="non-scaling-stroke"
+              />
+            </g>
+          )}
+        </svg>
+      </div>
+
+      <div className="flex flex-wrap justify-between gap-2 text-xs text-slate-500">
+        <span>
+          {visiblePoints.length.toLocaleString()} of {locatedPoints.length.toLocaleString()} mapped location{locatedPoints.length === 1 ? '' : 's'} shown
+          {homeLocated && radiusKm ? ` within ${radiusKm.toLocaleString()} km of ${home!.name}` : ''}
+        </span>
+        {unlocatedCount > 0 && (
+          <span>{unlocatedCount.toLocaleString()} without a location not shown</span>
+        )}
+      </div>
+    </div>
+  );
+});
+
+AccountMap.displayName = 'AccountMap';
+
+export { AccountMap };
+export default AccountMap;
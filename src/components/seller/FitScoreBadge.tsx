@@ -0,0 +1,77 @@
+import { HoverCard, HoverCardContent, HoverCardTrigger } from "@/components/ui/hover-card";
+import { cn } from "@/lib/utils";
+import type { FitBreakdown } from "@/lib/fit-score";
+
+type FitScoreBadgeProps = {
+  // Score from the accounts query, shown when there is no breakdown
+  percentage?: number;
+  breakdown?: FitBreakdown | null;
+  // "card" for account cards, "cell" for the exploration table
+  variant?: "card" | "cell";
+};
+
+export function FitScoreBadge({ percentage: storedPercentage, breakdown, variant = "card" }: FitScoreBadgeProps) {
+  const percentage = breakdown ? breakdown.percentage : storedPercentage;
+  if (percentage === undefined) return null;
+
+  const badge = variant === "card" ? (
+    <div className={cn(
+      "flex items-center gap-1 px-2 py-1 rounded-md text-xs font-semibold",
+      percentage >= 80 && "bg-emerald-50 text-emerald-700 border border-emerald-200",
+      percentage >= 60 && percentage < 80 && "bg-amber-50 text-amber-700 border border-amber-200",
+      percentage < 60 && "bg-red-50 text-red-700 border border-red-200",
+      breakdown && "cursor-help"
+    )}>
+      <span>Match:</span>
+      <span className="font-bold">{percentage}%</span>
+    </div>
+  ) : (
+    <div className={cn(
+      "text-sm font-semibold px-2 py-1 rounded w-fit",
+      percentage >= 80 && "bg-emerald-100 text-emerald-800",
+      percentage >= 60 && percentage < 80 && "bg-amber-100 text-amber-800",
+      percentage < 60 && "bg-red-100 text-red-800",
+      breakdown && "cursor-help"
+    )}>
+      {percentage}%
+    </div>
+  );
+
+  if (!breakdown) return badge;
+
+  return (
+    <HoverCard openDelay={150} closeDelay={50}>
+      <HoverCardTrigger asChild>{badge}</HoverCardTrigger>
+      <HoverCardContent className="w-80 pointer-events-auto" align="end">
+        <div className="space-y-3">
+          <div className="flex items-baseline justify-between">
+            <span className="text-sm font-semibold text-slate-900">Why {breakdown.percentage}% match</span>
+            <span className="text-xs text-slate-500">points / max</span>
+          </div>
+          <div className="space-y-2.5">
+            {breakdown.factors.map(factor => (
+              <div key={factor.key} className="space-y-1">
+                <div className="flex items-center justify-between text-xs">
+                  <span className="font-medium text-slate-700">{factor.label}</span>
+                  <span className="tabular-nums text-slate-600">
+                    {factor.points.toFixed(1)} / {factor.maxPoints.toFixed(1)}
+                  </span>
+                </div>
+                <div className="h-1.5 w-full rounded-full bg-slate-100 overflow-hidden">
+                  <div
+                    className={cn(
+                      "h-full rounded-full",
+                      factor.score >= 0.8 ? "bg-emerald-500" : factor.score >= 0.4 ? "bg-amber-500" : "bg-red-500"
+                    )}
+                    style={{ width: `${Math.round(factor.score * 100)}%` }}
+                  />
+                </div>
+                <p className="text-[11px] leading-snug text-slate-500">{factor.detail}</p>
+              </div>
+            ))}
+          </div>
+        </div>
+      </HoverCardContent>
+    </HoverCard>
+  );
+}
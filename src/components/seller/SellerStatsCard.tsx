@@ -1,6 +1,7 @@
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { Building2, DollarSign, MapPin, Calendar, Map } from "lucide-react";
+import { Building2, DollarSign, MapPin, Calendar, Map, Route } from "lucide-react";
+import { formatDistance, TravelBurden } from "@/lib/geo";
 
 type SellerStatsCardProps = {
   accountCount: number;
@@ -9,6 +10,7 @@ type SellerStatsCardProps = {
   tenure: string;
   division: string;
   statesCount: number;
+  travelBurden?: TravelBurden | null;
 };
 
 export function SellerStatsCard({
@@ -18,6 +20,7 @@ export function SellerStatsCard({
   tenure,
   division,
   statesCount,
+  travelBurden,
 }: SellerStatsCardProps) {
   const formatRevenue = (revenue: number) => {
     if (revenue >= 1_000_000) {
@@ -57,6 +60,22 @@ export function SellerStatsCard({
             </div>
           </div>
 
+          {/* Travel Burden */}
+          <div className="p-3 bg-slate-50 rounded-lg">
+            <div className="flex items-center gap-2 mb-1">
+              <Route className="h-4 w-4 text-orange-600" />
+              <span className="text-xs text-slate-600">Travel burden</span>
+            </div>
+            {travelBurden ? (
+              <div className="flex items-baseline justify-between gap-2">
+                <span className="text-base font-bold text-slate-900">{formatDistance(travelBurden.averageKm)} avg</span>
+                <span className="text-xs text-slate-600">{formatDistance(travelBurden.maxKm)} max</span>
+              </div>
+            ) : (
+              <span className="text-sm text-slate-500">No located accounts</span>
+            )}
+          </div>
+
           {/* Location and Tenure */}
           <div className="space-y-2 lg:space-y-3">
             <div className="flex items-center gap-3">
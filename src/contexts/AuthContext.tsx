@@ -1,24 +1,49 @@
 'use client'
 
-import { createContext, useContext, useEffect, useState, useRef } from "react";
+import { createContext, useContext, useEffect, useState } from "react";
 import { User, Session } from "@supabase/supabase-js";
 import { supabase } from "@/integrations/supabase/client";
 import { useRouter } from "next/navigation";
+import { getSafeRedirect, isPublicRoute } from "@/lib/route-access";
+import { assertCan, can, type AppRole } from "@/lib/permissions";
+import { AUDIT_ACTIONS, AUDIT_ENTITIES, createAuditLogData, logAuditEvent } from "@/lib/audit";
+import { logSessionEvent } from "@/lib/sessions";
+import { recordFailedSignIn } from "../../app/actions/sessions";
 
 interface Profile {
   id: string;
   email: string;
   name: string;
-  role: "MASTER" | "MANAGER";
+  role: AppRole;
+  // DIVISION_LEAD and SELLER scope, see src/lib/permissions.ts
+  division?: string | null;
+  seller_id?: string | null;
 }
 
+// Always read-only: only view capabilities are kept (see usePermissions),
+// since every write would still run under the MASTER's own session
+export interface Impersonation {
+  profile: Profile;
+  startedAt: string;
+}
+
+// Per tab, so other tabs keep the MASTER's own view
+const IMPERSONATION_KEY = "impersonation";
+
 interface AuthContextType {
   user: User | null;
   session: Session | null;
+  // The profile the app renders for - the impersonated user while "viewing as"
   profile: Profile | null;
+  // The signed-in user's own profile
+  realProfile: Profile | null;
+  impersonation: Impersonation | null;
+  startImpersonation: (profileId: string) => Promise<void>;
+  stopImpersonation: () => Promise<void>;
   loading: boolean;
-  signIn: (email: string, password: string) => Promise<{ error: any }>;
-  signOut: () => Promise<void>;
+  signIn: (email: string, password: string, redirectTo?: string) => Promise<{ error: any }>;
+  // reason is recorded on the logout audit entry, e.g. "idle_timeout"
+  signOut: (reason?: string, options?: { audit?: boolean }) => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -26,21 +51,22 @@ const AuthContext = createContext<AuthContextType | undefined>(undefined);
 export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [session, setSession] = useState<Session | null>(null);
-  const [profile, setProfile] = useState<Profile | null>(null);
+  const [realProfile, setRealProfile] = useState<Profile | null>(null);
+  const [impersonation, setImpersonation] = useState<Impersonation | null>(null);
   const [loading, setLoading] = useState(true);
   const router = useRouter();
-  const isAuthenticated = useRef(false);
 
   useEffect(() => {
     let mounted = true;
     let profileFetched = false;
-    
-    // Set a timeout to redirect to login if no session is established
-    const loadingTimeout = setTimeout(() => {
-      if (mounted && !isAuthenticated.current) {
-        router.push('/auth');
+
+    // middleware.ts already guards pages on the server; this only catches
+    // sessions that end while a page is open (sign out elsewhere, expiry)
+    const redirectToSignIn = () => {
+      if (!isPublicRoute(window.location.pathname)) {
+        router.push(`/auth?redirectTo=${encodeURIComponent(window.location.pathname + window.location.search)}`);
       }
-    }, 8000); // 8 second timeout
+    };
 
     // Set up auth state listener
     const { data: { subscription } } = supabase.auth.onAuthStateChange(
@@ -49,9 +75,15 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         
         setSession(session);
         setUser(session?.user ?? null);
-        
-        // Update authentication status
-        isAuthenticated.current = !!session?.user;
+
+        // Deferred: awaiting supabase calls inside this callback can deadlock the client
+        if (event === "TOKEN_REFRESHED" && session?.user) {
+          const refreshedUserId = session.user.id;
+          const accessToken = session.access_token;
+          setTimeout(() => {
+            logSessionEvent(refreshedUserId, AUDIT_ACTIONS.SESSION_REFRESH, accessToken);
+          }, 0);
+        }
         
         if (session?.user && !profileFetched) {
           // Fetch profile and wait for it before setting loading to false
@@ -69,23 +101,22 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
               if (error) {
                 // Still set loading to false even on error
               } else {
-                setProfile(profileData);
+                setRealProfile(profileData);
               }
               
               // Set loading to false AFTER profile is fetched (or failed)
               setLoading(false);
-              clearTimeout(loadingTimeout);
             });
         } else if (!session?.user) {
-          setProfile(null);
+          setRealProfile(null);
           profileFetched = false;
+          setLoading(false);
           // If no session, redirect to login
-          router.push('/auth');
+          redirectToSignIn();
           return;
         } else {
           // User exists but profile already fetched, set loading to false
           setLoading(false);
-          clearTimeout(loadingTimeout);
         }
       }
     );
@@ -96,7 +127,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         const { data: { session }, error } = await supabase.auth.getSession();
         
         if (error) {
-          router.push('/auth');
+          redirectToSignIn();
           return;
         }
         
@@ -105,9 +136,6 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         setSession(session);
         setUser(session?.user ?? null);
         
-        // Update authentication status
-        isAuthenticated.current = !!session?.user;
-        
         if (session?.user) {
           // Fetch profile and wait for it before setting loading to false
           
@@ -123,15 +151,14 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
           if (profileError) {
             // Still set loading to false even on error
           } else {
-            setProfile(profileData);
+            setRealProfile(profileData);
           }
         }
         
         // Set loading to false AFTER profile is fetched (or failed, or no user)
         setLoading(false);
-        clearTimeout(loadingTimeout);
       } catch (error) {
-        router.push('/auth');
+        redirectToSignIn();
         return;
       }
     };
@@ -140,31 +167,155 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
 
     return () => {
       mounted = false;
-      clearTimeout(loadingTimeout);
       subscription.unsubscribe();
     };
   }, []);
 
-  const signIn = async (email: string, password: string) => {
-    const { error } = await supabase.auth.signInWithPassword({
+  const fetchProfile = async (profileId: string): Promise<Profile> => {
+    const { data, error } = await supabase
+      .from("profiles")
+      .select("*")
+      .eq("id", profileId)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) throw new Error("User not found");
+    return data as Profile;
+  };
+
+  // Restore "view as" in this tab once the signed-in profile is known
+  useEffect(() => {
+    if (!realProfile) {
+      setImpersonation(null);
+      return;
+    }
+
+    const stored = window.sessionStorage.getItem(IMPERSONATION_KEY);
+    if (!stored || !can(realProfile, "user.impersonate")) return;
+
+    try {
+      const { profileId } = JSON.parse(stored);
+      fetchProfile(profileId)
+        .then(target => beginImpersonation(target, true))
+        .catch(() => window.sessionStorage.removeItem(IMPERSONATION_KEY));
+    } catch (error) {
+      window.sessionStorage.removeItem(IMPERSONATION_KEY);
+    }
+  }, [realProfile]);
+
+  // Leaving the page (closing the tab, reloading) ends the audited stretch;
+  // a reload resumes it with a new start entry. The request outlives the page.
+  useEffect(() => {
+    if (!impersonation) return;
+
+    const onPageHide = () => {
+      fetch("/api/impersonation/stop", {
+        method: "POST",
+        keepalive: true,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          profile_id: impersonation.profile.id,
+          started_at: impersonation.startedAt,
+          reason: "page_closed",
+        }),
+      }).catch(() => {});
+    };
+
+    window.addEventListener("pagehide", onPageHide);
+    return () => window.removeEventListener("pagehide", onPageHide);
+  }, [impersonation]);
+
+  const beginImpersonation = async (target: Profile, resumed: boolean) => {
+    const next: Impersonation = {
+      profile: target,
+      startedAt: new Date().toISOString(),
+    };
+
+    window.sessionStorage.setItem(IMPERSONATION_KEY, JSON.stringify({ profileId: target.id }));
+    setImpersonation(next);
+    if (!user) return;
+
+    await logAuditEvent(createAuditLogData(
+      user.id,
+      AUDIT_ACTIONS.IMPERSONATE_START,
+      AUDIT_ENTITIES.USER,
+      target.id,
+      null,
+      { name: target.name, email: target.email, role: target.role, read_only: true, ...(resumed ? { resumed: true } : {}) }
+    ));
+  };
+
+  const startImpersonation = async (profileId: string) => {
+    assertCan(realProfile, "user.impersonate");
+    if (!user || profileId === realProfile?.id) {
+      throw new Error("You cannot view the app as yourself");
+    }
+
+    await beginImpersonation(await fetchProfile(profileId), false);
+  };
+
+  const stopImpersonation = async () => {
+    window.sessionStorage.removeItem(IMPERSONATION_KEY);
+    if (!impersonation) return;
+
+    setImpersonation(null);
+    if (user) {
+      await logAuditEvent(createAuditLogData(
+        user.id,
+        AUDIT_ACTIONS.IMPERSONATE_STOP,
+        AUDIT_ENTITIES.USER,
+        impersonation.profile.id,
+        { name: impersonation.profile.name, role: impersonation.profile.role, started_at: impersonation.startedAt },
+        { duration_seconds: Math.round((Date.now() - new Date(impersonation.startedAt).getTime()) / 1000) }
+      ));
+    }
+  };
+
+  const signIn = async (email: string, password: string, redirectTo?: string) => {
+    const { data, error } = await supabase.auth.signInWithPassword({
       email,
       password,
     });
     
-    if (!error) {
-      router.push("/dashboard");
+    if (error) {
+      await recordFailedSignIn(email);
+    } else {
+      if (data.user) {
+        await logSessionEvent(data.user.id, AUDIT_ACTIONS.LOGIN, data.session?.access_token, { method: "password" });
+      }
+      router.push(getSafeRedirect(redirectTo));
     }
     
     return { error };
   };
 
-  const signOut = async () => {
+  // audit: false when the sign-out was already logged, e.g. by another tab
+  const signOut = async (reason?: string, { audit = true }: { audit?: boolean } = {}) => {
+    await stopImpersonation();
+
+    // Log while the session is still valid - audit_logs inserts need it
+    if (user && audit) {
+      await logSessionEvent(user.id, AUDIT_ACTIONS.LOGOUT, session?.access_token, reason ? { reason } : {});
+    }
     await supabase.auth.signOut();
     router.push("/auth");
   };
 
   return (
-    <AuthContext.Provider value={{ user, session, profile, loading, signIn, signOut }}>
+    <AuthContext.Provider
+      value={{
+        user,
+        session,
+        profile: impersonation?.profile ?? realProfile,
+        realProfile,
+        impersonation,
+        startImpersonation,
+        stopImpersonation,
+        loading,
+        signIn,
+        signOut,
+      }}
+    >
       {children}
     </AuthContext.Provider>
   );
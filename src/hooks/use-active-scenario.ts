@@ -0,0 +1,59 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { getScenario, Scenario } from '@/lib/scenarios';
+
+const STORAGE_KEY = 'activeScenarioId';
+const CHANGE_EVENT = 'active-scenario-changed';
+
+/**
+ * Hook for the scenario sandbox the user is currently working in.
+ * The selection is kept in localStorage so the dashboard and seller pages
+ * stay in the same scenario; null means live data.
+ */
+export function useActiveScenario() {
+  const [activeScenarioId, setActiveScenarioIdState] = useState<string | null>(null);
+
+  useEffect(() => {
+    const readStoredScenario = () => {
+      setActiveScenarioIdState(localStorage.getItem(STORAGE_KEY));
+    };
+
+    readStoredScenario();
+    window.addEventListener('storage', readStoredScenario);
+    window.addEventListener(CHANGE_EVENT, readStoredScenario);
+
+    return () => {
+      window.removeEventListener('storage', readStoredScenario);
+      window.removeEventListener(CHANGE_EVENT, readStoredScenario);
+    };
+  }, []);
+
+  const setActiveScenarioId = useCallback((scenarioId: string | null) => {
+    if (scenarioId) {
+      localStorage.setItem(STORAGE_KEY, scenarioId);
+    } else {
+      localStorage.removeItem(STORAGE_KEY);
+    }
+    window.dispatchEvent(new Event(CHANGE_EVENT));
+  }, []);
+
+  const { data: activeScenario, isFetched } = useQuery({
+    queryKey: ['scenario', activeScenarioId],
+    queryFn: () => getScenario(activeScenarioId!),
+    enabled: !!activeScenarioId,
+    staleTime: 30 * 1000,
+  });
+
+  // Drop selections for scenarios that were deleted or promoted meanwhile
+  useEffect(() => {
+    if (activeScenarioId && isFetched && (!activeScenario || activeScenario.status !== 'draft')) {
+      setActiveScenarioId(null);
+    }
+  }, [activeScenarioId, activeScenario, isFetched, setActiveScenarioId]);
+
+  return {
+    activeScenarioId: activeScenario?.status === 'draft' ? activeScenarioId : null,
+    activeScenario: (activeScenario?.status === 'draft' ? activeScenario : null) as Scenario | null,
+    setActiveScenarioId,
+  };
+}
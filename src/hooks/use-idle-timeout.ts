@@ -0,0 +1,118 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+// Shared across tabs so activity in one tab keeps the others alive
+const LAST_ACTIVITY_KEY = 'session:last-activity';
+// Set by the tab that signs out on timeout, to the last activity it timed out
+// on; the other tabs follow it without logging a second sign-out
+const IDLE_SIGN_OUT_KEY = 'session:idle-sign-out';
+const ACTIVITY_EVENTS = ['mousedown', 'mousemove', 'keydown', 'scroll', 'touchstart', 'wheel'];
+// Don't hit localStorage on every mousemove
+const ACTIVITY_WRITE_INTERVAL_MS = 5000;
+
+interface IdleTimeoutOptions {
+  enabled: boolean;
+  idleMs: number;
+  warningMs: number;
+  // Called in the one tab that signs out
+  onTimeout: () => void;
+  // Called in every other open tab
+  onTimeoutElsewhere: () => void;
+  // Called at most every few seconds while the user is active in this tab
+  onActivity?: () => void;
+}
+
+function readLastActivity(): number {
+  const stored = Number(window.localStorage.getItem(LAST_ACTIVITY_KEY));
+  return Number.isFinite(stored) && stored > 0 ? stored : Date.now();
+}
+
+/**
+ * Track user input across tabs and call onTimeout after idleMs without any,
+ * in one tab only. The warning flag turns on warningMs before that; once it
+ * is on, only stayActive() resets the clock so a stray mouse movement can't
+ * dismiss it.
+ */
+export function useIdleTimeout({ enabled, idleMs, warningMs, onTimeout, onTimeoutElsewhere, onActivity }: IdleTimeoutOptions) {
+  const [warning, setWarning] = useState(false);
+  const [secondsLeft, setSecondsLeft] = useState(0);
+  const lastWriteRef = useRef(0);
+  const warningRef = useRef(false);
+  const onTimeoutRef = useRef(onTimeout);
+  onTimeoutRef.current = onTimeout;
+  const onTimeoutElsewhereRef = useRef(onTimeoutElsewhere);
+  onTimeoutElsewhereRef.current = onTimeoutElsewhere;
+  const onActivityRef = useRef(onActivity);
+  onActivityRef.current = onActivity;
+
+  const markActive = useCallback(() => {
+    const now = Date.now();
+    lastWriteRef.current = now;
+    window.localStorage.setItem(LAST_ACTIVITY_KEY, String(now));
+    onActivityRef.current?.();
+  }, []);
+
+  const stayActive = useCallback(() => {
+    markActive();
+    warningRef.current = false;
+    setWarning(false);
+  }, [markActive]);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    markActive();
+
+    const handleActivity = () => {
+      if (warningRef.current) return;
+      if (Date.now() - lastWriteRef.current >= ACTIVITY_WRITE_INTERVAL_MS) {
+        markActive();
+      }
+    };
+
+    let timer = 0;
+    const stop = () => {
+      window.clearInterval(timer);
+      warningRef.current = false;
+      setWarning(false);
+    };
+
+    // Another tab timed out first
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key !== IDLE_SIGN_OUT_KEY || !event.newValue) return;
+      stop();
+      onTimeoutElsewhereRef.current();
+    };
+
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, handleActivity, { passive: true }));
+    window.addEventListener('storage', handleStorage);
+
+    timer = window.setInterval(() => {
+      const lastActivity = readLastActivity();
+      const idleFor = Date.now() - lastActivity;
+
+      if (idleFor >= idleMs) {
+        stop();
+        if (window.localStorage.getItem(IDLE_SIGN_OUT_KEY) === String(lastActivity)) {
+          onTimeoutElsewhereRef.current();
+        } else {
+          window.localStorage.setItem(IDLE_SIGN_OUT_KEY, String(lastActivity));
+          onTimeoutRef.current();
+        }
+        return;
+      }
+
+      const showWarning = idleFor >= idleMs - warningMs;
+      warningRef.current = showWarning;
+      setWarning(showWarning);
+      setSecondsLeft(Math.ceil((idleMs - idleFor) / 1000));
+    }, 1000);
+
+    return () => {
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, handleActivity));
+      window.removeEventListener('storage', handleStorage);
+      window.clearInterval(timer);
+    };
+  }, [enabled, idleMs, warningMs, markActive]);
+
+  return { warning, secondsLeft, stayActive };
+}
@@ -1,16 +1,19 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { supabase } from '@/integrations/supabase/client';
+import { getImportLock, IMPORT_LOCK_ID, isImportLockStale, type ImportLock } from '@/lib/import-lock';
 
-interface ImportStatus {
-  id: string;
-  is_importing: boolean;
-  started_at: string;
-  user_id: string;
-}
+// How often staleness is re-checked between realtime updates
+const STALE_CHECK_MS = 30 * 1000;
 
+/**
+ * The import lock, live. isImporting is only true while the lock has a
+ * recent heartbeat; a stale lock is reported separately.
+ */
 export function useImportStatus() {
-  const [isImporting, setIsImporting] = useState(false);
-  const [importStatus, setImportStatus] = useState<ImportStatus | null>(null);
+  const [importStatus, setImportStatus] = useState<ImportLock | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  // The banner and the settings page both follow the lock
+  const channelName = useRef(`import_status_changes_${Math.random().toString(36).slice(2)}`);
 
   useEffect(() => {
     // Check import status on mount
@@ -18,60 +21,45 @@ export function useImportStatus() {
 
     // Set up real-time subscription to import status
     const channel = supabase
-      .channel('import_status_changes')
+      .channel(channelName.current)
       .on(
         'postgres_changes',
         {
           event: '*',
           schema: 'public',
-          table: 'import_status'
+          table: 'import_status',
+          filter: `id=eq.${IMPORT_LOCK_ID}`
         },
         (payload) => {
-          console.log('Import status changed:', payload);
-          if (payload.new) {
-            const newStatus = payload.new as ImportStatus;
-            setImportStatus(newStatus);
-            setIsImporting(newStatus.is_importing);
-          } else {
-            setImportStatus(null);
-            setIsImporting(false);
-          }
+          setImportStatus(payload.new && 'id' in payload.new ? payload.new as ImportLock : null);
+          setNow(Date.now());
         }
       )
       .subscribe();
 
+    const interval = setInterval(() => setNow(Date.now()), STALE_CHECK_MS);
+
     return () => {
+      clearInterval(interval);
       supabase.removeChannel(channel);
     };
   }, []);
 
   const checkImportStatus = async () => {
     try {
-      const { data, error } = await supabase
-        .from('import_status')
-        .select('*')
-        .eq('id', 'current_import')
-        .single();
-
-      if (error && error.code !== 'PGRST116') {
-        console.error('Error checking import status:', error);
-        return;
-      }
-
-      if (data) {
-        setImportStatus(data);
-        setIsImporting(data.is_importing);
-      } else {
-        setImportStatus(null);
-        setIsImporting(false);
-      }
+      setImportStatus(await getImportLock());
+      setNow(Date.now());
     } catch (error) {
       console.error('Error checking import status:', error);
     }
   };
 
+  const isLocked = !!importStatus?.is_importing;
+  const isStale = isLocked && isImportLockStale(importStatus!, now);
+
   return {
-    isImporting,
+    isImporting: isLocked && !isStale,
+    isStale,
     importStatus,
     checkImportStatus
   };
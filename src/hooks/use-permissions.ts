@@ -0,0 +1,41 @@
+import { useCallback, useMemo } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  can,
+  getDataScope,
+  PermissionError,
+  VIEW_CAPABILITIES,
+  type Capability,
+  type DataScope,
+} from '@/lib/permissions';
+
+/**
+ * Capability checks for the signed-in user - the only way components should
+ * decide what to show or allow. While a MASTER is viewing as someone else
+ * these follow that user, minus anything that changes data: impersonation
+ * is always read-only.
+ */
+export function usePermissions() {
+  const { profile, impersonation } = useAuth();
+  const readOnly = !!impersonation;
+
+  // Memoized on the profile so callers can use these in effect and callback deps
+  const scope = useMemo<DataScope | null>(() => (profile ? getDataScope(profile) : null), [profile]);
+  const canDo = useCallback(
+    (capability: Capability) => can(profile, capability) && (!readOnly || VIEW_CAPABILITIES.includes(capability)),
+    [profile, readOnly]
+  );
+  const assertCanDo = useCallback((capability: Capability) => {
+    if (!canDo(capability)) {
+      throw new PermissionError(capability);
+    }
+  }, [canDo]);
+
+  return {
+    role: profile?.role ?? null,
+    scope,
+    readOnly,
+    can: canDo,
+    assertCan: assertCanDo,
+  };
+}
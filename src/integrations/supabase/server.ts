@@ -0,0 +1,30 @@
+import { cookies } from 'next/headers';
+import { createServerClient } from '@supabase/ssr';
+import type { Database } from './types';
+
+/**
+ * Cookie-session client for server actions and server components.
+ * Acts as the signed-in user (RLS applies), unlike getSupabaseAdmin().
+ */
+export function createSupabaseServerClient() {
+  const cookieStore = cookies();
+
+  return createServerClient<Database>(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_PUBLISHABLE_KEY!,
+    {
+      cookies: {
+        getAll() {
+          return cookieStore.getAll();
+        },
+        setAll(cookiesToSet) {
+          try {
+            cookiesToSet.forEach(({ name, value, options }) => cookieStore.set(name, value, options));
+          } catch {
+            // Server components can't set cookies; middleware.ts refreshes the session instead
+          }
+        },
+      },
+    }
+  );
+}
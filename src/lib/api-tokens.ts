@@ -0,0 +1,98 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export interface ApiToken {
+  id: string;
+  user_id: string;
+  name: string;
+  token_prefix: string;
+  last_used_at: string | null;
+  expires_at: string | null;
+  revoked_at: string | null;
+  created_at: string;
+}
+
+// Recognisable prefix so leaked tokens are easy to spot in logs and secret scanners
+const TOKEN_PREFIX = 'bain_';
+const TOKEN_SELECT = 'id, user_id, name, token_prefix, last_used_at, expires_at, revoked_at, created_at';
+
+const toHex = (bytes: Uint8Array) => Array.from(bytes).map(b => ('0' + b.toString(16)).slice(-2)).join('');
+
+/**
+ * sha256 hex digest - must match hashApiToken in src/lib/api/auth.ts
+ */
+export async function hashApiToken(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token));
+  return toHex(new Uint8Array(digest));
+}
+
+export function isApiTokenActive(token: ApiToken): boolean {
+  if (token.revoked_at) return false;
+  return !token.expires_at || new Date(token.expires_at).getTime() > Date.now();
+}
+
+/**
+ * Create a token for the user. The plaintext is only returned here - just
+ * its hash is stored, so it can't be shown again.
+ */
+export async function createApiToken(
+  userId: string,
+  name: string,
+  expiresAt: string | null
+): Promise<{ token: ApiToken; plaintext: string }> {
+  try {
+    const plaintext = TOKEN_PREFIX + toHex(crypto.getRandomValues(new Uint8Array(24)));
+
+    const { data, error } = await (supabase as any)
+      .from('api_tokens')
+      .insert({
+        user_id: userId,
+        name: name.trim(),
+        token_hash: await hashApiToken(plaintext),
+        token_prefix: plaintext.slice(0, TOKEN_PREFIX.length + 6),
+        expires_at: expiresAt,
+      })
+      .select(TOKEN_SELECT)
+      .single();
+
+    if (error) throw error;
+
+    return { token: data as ApiToken, plaintext };
+  } catch (error) {
+    throw error;
+  }
+}
+
+/**
+ * The user's tokens, newest first
+ */
+export async function getApiTokens(userId: string): Promise<ApiToken[]> {
+  try {
+    const { data, error } = await (supabase as any)
+      .from('api_tokens')
+      .select(TOKEN_SELECT)
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+
+    return (data || []) as ApiToken[];
+  } catch (error) {
+    throw error;
+  }
+}
+
+/**
+ * Revoke one of the user's tokens. Tokens can't be updated directly, so
+ * revoke_api_token is the only way to change one.
+ */
+export async function revokeApiToken(tokenId: string): Promise<void> {
+  try {
+    const { error } = await (supabase as any).rpc('revoke_api_token', {
+      p_token_id: tokenId,
+    });
+
+    if (error) throw error;
+  } catch (error) {
+    throw error;
+  }
+}
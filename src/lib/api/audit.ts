@@ -0,0 +1,24 @@
+import { createAuditLogData } from '@/lib/audit';
+import { getSupabaseAdmin } from '@/lib/api/supabase-admin';
+
+/**
+ * Server-side counterpart of logAuditEvent - the browser client has no
+ * session inside a route handler, so API writes are logged with the admin client
+ */
+export async function recordApiAudit(
+  userId: string,
+  action: string,
+  entity: string,
+  entityId: string | undefined,
+  before: any,
+  after: any
+): Promise<void> {
+  try {
+    const { error } = await getSupabaseAdmin()
+      .from('audit_logs')
+      .insert(createAuditLogData(userId, action, entity, entityId, before, after));
+    if (error) throw error;
+  } catch (error) {
+    // Don't fail the main operation for audit issues
+  }
+}
@@ -0,0 +1,133 @@
+import { createHash } from 'crypto';
+import { ApiError } from '@/lib/api/http';
+import { getSupabaseAdmin } from '@/lib/api/supabase-admin';
+import { can, getDataScope, PermissionError, type AppRole, type Capability } from '@/lib/permissions';
+
+export interface ApiUser {
+  id: string;
+  name: string;
+  email: string;
+  role: AppRole;
+  division: string | null;
+  seller_id: string | null;
+  tokenId: string;
+}
+
+/**
+ * sha256 hex digest - must match hashApiToken in src/lib/api-tokens.ts
+ */
+export function hashApiToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Resolve the bearer token on a request to the user it belongs to
+ */
+export async function authenticateApiRequest(request: Request): Promise<ApiUser> {
+  const header = request.headers.get('authorization') || '';
+  const match = header.match(/^Bearer\s+(\S+)$/i);
+  if (!match) {
+    throw new ApiError(401, 'unauthorized', 'Missing bearer token');
+  }
+
+  const admin = getSupabaseAdmin() as any;
+
+  const { data: token, error } = await admin
+    .from('api_tokens')
+    .select('id, user_id, expires_at, revoked_at')
+    .eq('token_hash', hashApiToken(match[1]))
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!token || token.revoked_at) {
+    throw new ApiError(401, 'unauthorized', 'Invalid or revoked API token');
+  }
+  if (token.expires_at && new Date(token.expires_at).getTime() <= Date.now()) {
+    throw new ApiError(401, 'unauthorized', 'API token has expired');
+  }
+
+  const { data: profile, error: profileError } = await admin
+    .from('profiles')
+    .select('id, name, email, role, division, seller_id, deactivated_at')
+    .eq('id', token.user_id)
+    .maybeSingle();
+
+  if (profileError) throw profileError;
+  if (!profile) {
+    throw new ApiError(401, 'unauthorized', 'API token owner no longer exists');
+  }
+  if (profile.deactivated_at) {
+    throw new ApiError(401, 'unauthorized', 'API token owner has been deactivated');
+  }
+
+  // Best effort - a failed timestamp update shouldn't fail the request
+  await admin
+    .from('api_tokens')
+    .update({ last_used_at: new Date().toISOString() })
+    .eq('id', token.id);
+
+  return {
+    id: profile.id,
+    name: profile.name,
+    email: profile.email,
+    role: profile.role,
+    division: profile.division ?? null,
+    seller_id: profile.seller_id ?? null,
+    tokenId: token.id,
+  };
+}
+
+export function requireCapability(user: ApiUser, capability: Capability): void {
+  if (!can(user, capability)) {
+    throw new ApiError(403, 'forbidden', new PermissionError(capability).message);
+  }
+}
+
+/**
+ * Seller ids a user may see, or null when their scope covers every seller.
+ * MANAGER users see the sellers linked to them through seller_managers,
+ * DIVISION_LEAD users their division and SELLER users their own book.
+ */
+export async function getVisibleSellerIds(user: ApiUser): Promise<string[] | null> {
+  const scope = getDataScope(user);
+  if (scope.type === 'all') return null;
+  if (scope.type === 'seller') return scope.sellerId ? [scope.sellerId] : [];
+
+  const admin = getSupabaseAdmin();
+
+  if (scope.type === 'division') {
+    if (!scope.division) return [];
+    const { data: sellers, error } = await (admin as any)
+      .from('sellers')
+      .select('id')
+      .eq('division', scope.division);
+
+    if (error) throw error;
+    return (sellers || []).map((s: { id: string }) => s.id);
+  }
+
+  const { data: managers, error } = await admin
+    .from('managers')
+    .select('id')
+    .eq('user_id', user.id);
+
+  if (error) throw error;
+  const managerIds = (managers || []).map(m => m.id);
+  if (managerIds.length === 0) return [];
+
+  const { data: links, error: linksError } = await admin
+    .from('seller_managers')
+    .select('seller_id')
+    .in('manager_id', managerIds);
+
+  if (linksError) throw linksError;
+  return Array.from(new Set((links || []).map(l => l.seller_id)));
+}
+
+export async function assertSellerVisible(user: ApiUser, sellerId: string): Promise<void> {
+  const visible = await getVisibleSellerIds(user);
+  if (visible && !visible.includes(sellerId)) {
+    // 404 rather than 403 so scoped users can't probe for other teams' sellers
+    throw new ApiError(404, 'not_found', 'Seller not found');
+  }
+}
@@ -0,0 +1,106 @@
+import { NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+
+/**
+ * Shared response helpers for the /api/v1 route handlers
+ */
+
+export class ApiError extends Error {
+  status: number;
+  code: string;
+  details?: unknown;
+
+  constructor(status: number, code: string, message: string, details?: unknown) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.code = code;
+    this.details = details;
+  }
+}
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 100;
+
+export interface Pagination {
+  page: number;
+  limit: number;
+  // Inclusive row range for supabase .range()
+  from: number;
+  to: number;
+}
+
+export interface PaginatedResponse<T> {
+  data: T[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+  };
+}
+
+function parsePositiveInt(value: string | null, name: string, fallback: number): number {
+  if (value === null || value === '') return fallback;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new ApiError(400, 'invalid_parameter', `${name} must be a positive integer`);
+  }
+  return parsed;
+}
+
+/**
+ * Read ?page= and ?limit= (capped at MAX_PAGE_SIZE)
+ */
+export function getPagination(searchParams: URLSearchParams): Pagination {
+  const page = parsePositiveInt(searchParams.get('page'), 'page', 1);
+  const limit = Math.min(parsePositiveInt(searchParams.get('limit'), 'limit', DEFAULT_PAGE_SIZE), MAX_PAGE_SIZE);
+  const from = (page - 1) * limit;
+  return { page, limit, from, to: from + limit - 1 };
+}
+
+export function paginated<T>(data: T[], total: number, pagination: Pagination): NextResponse {
+  const body: PaginatedResponse<T> = {
+    data,
+    pagination: {
+      page: pagination.page,
+      limit: pagination.limit,
+      total,
+      totalPages: Math.ceil(total / pagination.limit),
+    },
+  };
+  return NextResponse.json(body);
+}
+
+export async function readJsonBody(request: Request): Promise<unknown> {
+  try {
+    return await request.json();
+  } catch {
+    throw new ApiError(400, 'invalid_body', 'Request body must be valid JSON');
+  }
+}
+
+/**
+ * Turn anything a handler throws into a JSON error response
+ */
+export function errorResponse(error: unknown): NextResponse {
+  if (error instanceof ApiError) {
+    return NextResponse.json(
+      { error: { code: error.code, message: error.message, ...(error.details !== undefined && { details: error.details }) } },
+      { status: error.status }
+    );
+  }
+
+  if (error instanceof ZodError) {
+    return NextResponse.json(
+      { error: { code: 'invalid_body', message: 'Request body failed validation', details: error.flatten() } },
+      { status: 400 }
+    );
+  }
+
+  console.error('API request failed:', error);
+  return NextResponse.json(
+    { error: { code: 'internal_error', message: 'Something went wrong handling the request' } },
+    { status: 500 }
+  );
+}
@@ -0,0 +1,414 @@
+import { createHash, randomUUID } from 'crypto';
+import { createSupabaseServerClient } from '@/integrations/supabase/server';
+import { ApiError } from '@/lib/api/http';
+import { getSupabaseAdmin } from '@/lib/api/supabase-admin';
+import {
+  getCurrentDebugInfo,
+  importAccountsIndividual,
+  importComprehensiveData,
+  importComprehensiveDataAdd,
+  importComprehensiveDataMerge,
+  importSellersIndividual,
+  setImportClient,
+  takeImportDebugInfo,
+} from '@/lib/importers';
+import { applyColumnMapping, type ColumnMapping } from '@/lib/column-mapping';
+import { parseDataFile } from '@/lib/file-formats';
+import { countIssues } from '@/lib/import-errors';
+import { IMPORT_LOCK_HEARTBEAT_MS } from '@/lib/import-lock';
+import { parseMergeOptions, type MergeOptions } from '@/lib/import-merge';
+import { IMPORT_CANCELLED_MESSAGE, prepareImport, prepareImportWorkbook, throwIfCancelled } from '@/lib/import-workbook';
+import {
+  IMPORT_FILE_RETENTION_DAYS,
+  IMPORT_JOB_BUCKET,
+  IMPORT_JOB_TYPES,
+  type ImportJob,
+  type ImportJobLog,
+  type ImportJobStepTiming,
+  type ImportJobType,
+} from '@/lib/import-jobs';
+import { can, PermissionError } from '@/lib/permissions';
+import type { ConfirmedMatches } from '@/lib/name-matching';
+
+/**
+ * Server side of import jobs. Uploads are stored in the imports bucket and
+ * queued; processImportQueue runs them one at a time in this Node process
+ * with the service-role client, writing progress to the job row as it goes.
+ * It runs after every upload and, from startImportQueuePolling, when the
+ * server starts and every IMPORT_QUEUE_POLL_MS; claiming a job first fails
+ * jobs orphaned by a server that went away and rolls their imports back.
+ * Uploads are kept after the job ends, so the import history can offer the
+ * original file again, until IMPORT_FILE_RETENTION_DAYS have passed.
+ * importers.ts keeps its client and debug info in module state, which is why
+ * jobs never run side by side.
+ */
+
+// How often the running job's progress is saved and its cancel flag read
+const FLUSH_INTERVAL_MS = 2000;
+
+// Uploads removed per storage call
+const FILE_CLEANUP_BATCH_SIZE = 100;
+
+// How often the server looks for queued and orphaned jobs
+const IMPORT_QUEUE_POLL_MS = 30 * 1000;
+
+const STEPS = ['Downloading file', 'Reading and validating file', 'Importing data'];
+
+let queueRunning = false;
+let queuePollTimer: ReturnType<typeof setInterval> | null = null;
+
+export interface ImportUser {
+  id: string;
+  role: string;
+}
+
+/**
+ * The signed-in user behind a route handler request, who must hold import.run
+ */
+export async function getImportUser(): Promise<ImportUser> {
+  const supabase = createSupabaseServerClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    throw new ApiError(401, 'unauthorized', 'Your session has expired - sign in again');
+  }
+
+  const { data: profile, error } = await supabase
+    .from('profiles')
+    .select('id, role')
+    .eq('id', user.id)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!can(profile, 'import.run')) {
+    throw new ApiError(403, 'forbidden', new PermissionError('import.run').message);
+  }
+  return profile!;
+}
+
+export function isImportJobType(value: unknown): value is ImportJobType {
+  return typeof value === 'string' && (IMPORT_JOB_TYPES as string[]).indexOf(value) !== -1;
+}
+
+/**
+ * Store the upload and queue a job for it. A column mapping is stored with
+ * the job and applied when it runs, so the upload stays the user's file.
+ */
+export async function queueImportJob(
+  file: File,
+  importType: ImportJobType,
+  confirmedMatches: ConfirmedMatches,
+  userId: string,
+  options: Partial<MergeOptions> = {},
+  columnMapping: ColumnMapping | null = null
+): Promise<ImportJob> {
+  const admin = getSupabaseAdmin() as any;
+  const jobId = randomUUID();
+  const storagePath = `${jobId}/${file.name}`;
+  const data = Buffer.from(await file.arrayBuffer());
+
+  const { error: uploadError } = await admin.storage
+    .from(IMPORT_JOB_BUCKET)
+    .upload(storagePath, data, { contentType: file.type || 'application/octet-stream' });
+  if (uploadError) throw uploadError;
+
+  const { data: job, error } = await admin
+    .from('import_jobs')
+    .insert({
+      id: jobId,
+      import_type: importType,
+      file_name: file.name,
+      file_size: file.size,
+      file_hash: createHash('sha256').update(data).digest('hex'),
+      storage_path: storagePath,
+      confirmed_matches: confirmedMatches,
+      column_mapping: columnMapping,
+      options,
+      total_steps: STEPS.length,
+      created_by: userId,
+    })
+    .select('*')
+    .single();
+  if (error) {
+    await admin.storage.from(IMPORT_JOB_BUCKET).remove([storagePath]);
+    throw error;
+  }
+
+  return job as ImportJob;
+}
+
+/**
+ * Queued jobs are cancelled straight away; a running job stops before its
+ * next step (a replace import is rolled back)
+ */
+export async function requestImportJobCancel(jobId: string): Promise<ImportJob> {
+  const admin = getSupabaseAdmin() as any;
+  const now = new Date().toISOString();
+
+  const { data: queued, error: queuedError } = await admin
+    .from('import_jobs')
+    .update({ state: 'cancelled', error: IMPORT_CANCELLED_MESSAGE, finished_at: now, updated_at: now })
+    .eq('id', jobId)
+    .eq('state', 'queued')
+    .select('*')
+    .maybeSingle();
+  if (queuedError) throw queuedError;
+  if (queued) return queued as ImportJob;
+
+  const { data: running, error } = await admin
+    .from('import_jobs')
+    .update({ cancel_requested: true })
+    .eq('id', jobId)
+    .eq('state', 'running')
+    .select('*')
+    .maybeSingle();
+  if (error) throw error;
+  if (!running) {
+    throw new ApiError(409, 'not_running', 'This import has already finished');
+  }
+  return running as ImportJob;
+}
+
+/**
+ * Run queued jobs until none are left. Safe to call after every upload: a
+ * second call while the queue is running returns straight away.
+ */
+export async function processImportQueue(): Promise<void> {
+  if (queueRunning) return;
+  queueRunning = true;
+
+  try {
+    for (;;) {
+      const { data: job, error } = await (getSupabaseAdmin() as any).rpc('claim_import_job');
+      if (error) throw error;
+      // Nothing queued, or another server is running an import
+      if (!job?.id) break;
+      await runImportJob(job as ImportJob);
+    }
+
+    await removeExpiredImportFiles();
+  } catch (error) {
+    console.error('Import queue stopped:', error);
+  } finally {
+    queueRunning = false;
+  }
+}
+
+/**
+ * Run the queue now and every IMPORT_QUEUE_POLL_MS. Called once when the
+ * server starts (instrumentation.ts), so jobs queued or orphaned while no
+ * server was running don't wait for the next upload.
+ */
+export function startImportQueuePolling(): void {
+  if (queuePollTimer) return;
+  // Servers without the service-role key serve no imports
+  if (!process.env.SUPABASE_SERVICE_ROLE_KEY) return;
+
+  void processImportQueue();
+  queuePollTimer = setInterval(() => {
+    void processImportQueue();
+  }, IMPORT_QUEUE_POLL_MS);
+}
+
+/**
+ * Remove the uploads of jobs that finished more than
+ * IMPORT_FILE_RETENTION_DAYS ago. The job rows stay in the history.
+ */
+async function removeExpiredImportFiles(): Promise<void> {
+  const admin = getSupabaseAdmin() as any;
+  const cutoff = new Date(Date.now() - IMPORT_FILE_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  for (;;) {
+    const { data: jobs, error } = await admin
+      .from('import_jobs')
+      .select('id, storage_path')
+      .is('file_removed_at', null)
+      .lt('finished_at', cutoff)
+      .limit(FILE_CLEANUP_BATCH_SIZE);
+    if (error) throw error;
+    if (!jobs || jobs.length === 0) break;
+
+    const { error: removeError } = await admin.storage
+      .from(IMPORT_JOB_BUCKET)
+      .remove(jobs.map((job: { storage_path: string }) => job.storage_path));
+    if (removeError) throw removeError;
+
+    const { error: updateError } = await admin
+      .from('import_jobs')
+      .update({ file_removed_at: new Date().toISOString() })
+      .in('id', jobs.map((job: { id: string }) => job.id));
+    if (updateError) throw updateError;
+
+    if (jobs.length < FILE_CLEANUP_BATCH_SIZE) break;
+  }
+}
+
+async function runImportJob(job: ImportJob) {
+  const admin = getSupabaseAdmin() as any;
+  const controller = new AbortController();
+  const logs: ImportJobLog[] = [];
+  const stepTimings: ImportJobStepTiming[] = [];
+  let warnings: string[] = [];
+  const progress = { current_step: STEPS[0], step_number: 1 };
+  let flushing: Promise<void> = Promise.resolve();
+  let lastHeartbeat = 0;
+
+  const log = (message: string) => {
+    logs.push({ at: new Date().toISOString(), message });
+  };
+
+  const endStep = () => {
+    const last = stepTimings[stepTimings.length - 1];
+    if (!last || last.finished_at) return;
+    last.finished_at = new Date().toISOString();
+    last.duration_ms = new Date(last.finished_at).getTime() - new Date(last.started_at).getTime();
+  };
+
+  const setStep = (stepNumber: number) => {
+    endStep();
+    stepTimings.push({ step: STEPS[stepNumber - 1], started_at: new Date().toISOString(), finished_at: null, duration_ms: null });
+    progress.current_step = STEPS[stepNumber - 1];
+    progress.step_number = stepNumber;
+    log(`Step ${stepNumber}/${STEPS.length}: ${progress.current_step}`);
+  };
+
+  // Saves progress and picks up cancel requests; also the job's heartbeat
+  const flush = () => {
+    flushing = flushing.then(async () => {
+      try {
+        const { data, error } = await admin
+          .from('import_jobs')
+          .update({
+            ...progress,
+            logs,
+            warnings,
+            step_timings: stepTimings,
+            debug_info: getCurrentDebugInfo(),
+            updated_at: new Date().toISOString(),
+          })
+          .eq('id', job.id)
+          .eq('state', 'running')
+          .select('cancel_requested')
+          .maybeSingle();
+        if (error) throw error;
+        if (data?.cancel_requested && !controller.signal.aborted) {
+          log('Cancel requested - stopping before the next step');
+          controller.abort();
+        }
+        // Failed as orphaned after missing its progress updates
+        if (!data && !controller.signal.aborted) {
+          log('This job was stopped by the server - stopping before the next step');
+          controller.abort();
+        }
+
+        // Keeps the import lock from going stale and feeds the import banner
+        if (Date.now() - lastHeartbeat >= IMPORT_LOCK_HEARTBEAT_MS) {
+          lastHeartbeat = Date.now();
+          await admin.rpc('heartbeat_import_lock', {
+            user_id: job.created_by || '',
+            p_progress_message: logs.length > 0 ? logs[logs.length - 1].message : null,
+            p_step_number: progress.step_number,
+            p_total_steps: STEPS.length,
+          });
+        }
+      } catch (error) {
+        // Try again on the next tick
+      }
+    });
+    return flushing;
+  };
+
+  const timer = setInterval(flush, FLUSH_INTERVAL_MS);
+  const finish = async (fields: Partial<ImportJob>) => {
+    clearInterval(timer);
+    await flushing;
+    endStep();
+    const now = new Date().toISOString();
+    const { error } = await admin
+      .from('import_jobs')
+      .update({
+        ...progress,
+        ...fields,
+        logs,
+        warnings,
+        step_timings: stepTimings,
+        debug_info: takeImportDebugInfo(),
+        finished_at: now,
+        updated_at: now,
+      })
+      .eq('id', job.id)
+      .eq('state', 'running');
+    if (error) console.error('Could not save import job result:', error);
+  };
+
+  // Audit log entries written by the import point back to this job
+  setImportClient(admin, job.id);
+  try {
+    setStep(1);
+    const { data: blob, error: downloadError } = await admin.storage.from(IMPORT_JOB_BUCKET).download(job.storage_path);
+    if (downloadError) throw downloadError;
+
+    throwIfCancelled(controller.signal);
+    setStep(2);
+    const data = await blob.arrayBuffer();
+    let preparedFile;
+    if (job.column_mapping) {
+      log(`📖 Reading ${job.file_name} and applying its column mapping...`);
+      const mapped = applyColumnMapping(parseDataFile(job.file_name, data), job.column_mapping, job.import_type);
+      preparedFile = prepareImportWorkbook(job.file_name, job.file_size, mapped, job.import_type, log);
+    } else {
+      preparedFile = prepareImport(job.file_name, job.file_size, data, job.import_type, log);
+    }
+    const prepared = {
+      ...preparedFile,
+      fileHash: createHash('sha256').update(Buffer.from(data)).digest('hex'),
+    };
+    warnings = prepared.validation.warnings.slice();
+    const skippedRows = countIssues(prepared.issues, 'warning');
+    if (skippedRows > 0) {
+      warnings.push(`${skippedRows} row${skippedRows === 1 ? '' : 's'} skipped or imported with a value dropped`);
+    }
+    if (!prepared.validation.isValid) {
+      throw new Error(`Template validation failed: ${prepared.validation.errors.join(', ')}`);
+    }
+
+    throwIfCancelled(controller.signal);
+    setStep(3);
+    let results: Record<string, { imported: number; errors: any[] }>;
+    if (job.import_type === 'comprehensive') {
+      results = await importComprehensiveData(prepared, job.created_by ?? undefined, log, job.confirmed_matches, controller.signal);
+    } else if (job.import_type === 'comprehensive_add') {
+      results = await importComprehensiveDataAdd(prepared, job.created_by ?? undefined, log, job.confirmed_matches, controller.signal);
+    } else if (job.import_type === 'comprehensive_merge') {
+      results = await importComprehensiveDataMerge(
+        prepared,
+        job.created_by ?? undefined,
+        log,
+        job.confirmed_matches,
+        parseMergeOptions(job.options),
+        controller.signal
+      );
+    } else if (job.import_type === 'sellers') {
+      results = await importSellersIndividual(prepared, job.created_by ?? undefined, log);
+    } else {
+      results = await importAccountsIndividual(prepared, job.created_by ?? undefined, log);
+    }
+
+    log('✅ Import completed successfully');
+    await finish({ state: 'succeeded', results, current_step: 'Import Complete', step_number: STEPS.length });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : (error as any)?.message || String(error);
+    const cancelled = controller.signal.aborted;
+    log(`❌ Error: ${message}`);
+
+    // The comprehensive imports release the lock themselves; this covers
+    // failures before the import started and anything they missed
+    try {
+      await admin.rpc('release_import_lock', { user_id: job.created_by || '' });
+    } catch (lockError) {
+      console.error('Could not release import lock:', lockError);
+    }
+
+    await finish({ state: cancelled ? 'cancelled' : 'failed', error: message, current_step: cancelled ? 'Import Cancelled' : 'Import Failed' });
+  } finally {
+    setImportClient(null);
+  }
+}
@@ -0,0 +1,405 @@
+import { DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE } from '@/lib/api/http';
+import { API_RELATIONSHIP_STATUSES, DIVISIONS, SIZES } from '@/lib/api/schemas';
+
+/**
+ * OpenAPI 3 description of /api/v1, served from /api/v1/openapi.json
+ */
+
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+
+const idParam = (description: string) => ({
+  name: 'id',
+  in: 'path',
+  required: true,
+  description,
+  schema: { type: 'string', format: 'uuid' },
+});
+
+const queryParam = (name: string, description: string, schema: Record<string, unknown> = { type: 'string' }) => ({
+  name,
+  in: 'query',
+  required: false,
+  description,
+  schema,
+});
+
+const paginationParams = [
+  queryParam('page', 'Page number, starting at 1', { type: 'integer', minimum: 1, default: 1 }),
+  queryParam('limit', 'Items per page', { type: 'integer', minimum: 1, maximum: MAX_PAGE_SIZE, default: DEFAULT_PAGE_SIZE }),
+];
+
+const listResponse = (schema: string) => ({
+  description: 'A page of results',
+  content: {
+    'application/json': {
+      schema: {
+        type: 'object',
+        properties: {
+          data: { type: 'array', items: ref(schema) },
+          pagination: ref('Pagination'),
+        },
+      },
+    },
+  },
+});
+
+const itemResponse = (schema: string, description = 'The requested item') => ({
+  description,
+  content: {
+    'application/json': {
+      schema: { type: 'object', properties: { data: ref(schema) } },
+    },
+  },
+});
+
+const jsonBody = (schema: string) => ({
+  required: true,
+  content: { 'application/json': { schema: ref(schema) } },
+});
+
+const errorResponses = (...statuses: number[]) => {
+  const descriptions: Record<number, string> = {
+    400: 'Invalid parameters or body',
+    401: 'Missing, invalid, revoked or expired API token',
+    403: 'The token owner lacks the required role',
+    404: 'Not found, or not visible to the token owner',
+    409: 'Original account protection or an already pending request',
+  };
+  return statuses.reduce<Record<number, unknown>>((responses, status) => {
+    responses[status] = { description: descriptions[status], content: { 'application/json': { schema: ref('Error') } } };
+    return responses;
+  }, {});
+};
+
+const statusChangeResponses = {
+  200: {
+    description: 'Applied directly (relationship.assign) or already in the requested status',
+    content: {
+      'application/json': {
+        schema: {
+          type: 'object',
+          properties: {
+            outcome: { type: 'string', enum: ['applied', 'unchanged'] },
+            data: ref('Relationship'),
+          },
+        },
+      },
+    },
+  },
+  202: {
+    description: 'Change submitted as a request for MASTER approval (relationship.request)',
+    content: {
+      'application/json': {
+        schema: {
+          type: 'object',
+          properties: {
+            outcome: { type: 'string', enum: ['requested'] },
+            request: ref('ChangeRequest'),
+          },
+        },
+      },
+    },
+  },
+  ...errorResponses(400, 401, 404, 409),
+};
+
+const nullableString = { type: 'string', nullable: true };
+const nullableNumber = { type: 'number', nullable: true };
+
+export const openApiDocument = {
+  openapi: '3.0.3',
+  info: {
+    title: 'BAIN Dashboard API',
+    version: '1.0.0',
+    description:
+      'Read and update accounts, sellers, managers and relationships. Authenticate with a personal API token ' +
+      '(created on the API Tokens page) sent as `Authorization: Bearer <token>`. Requests act as the token owner: ' +
+      'MANAGER, DIVISION_LEAD and SELLER tokens only see the sellers in their scope, and relationship changes ' +
+      'without relationship.assign become requests for MASTER approval.',
+  },
+  servers: [{ url: '/api/v1' }],
+  security: [{ bearerAuth: [] }],
+  paths: {
+    '/accounts': {
+      get: {
+        summary: 'List accounts',
+        parameters: [
+          ...paginationParams,
+          queryParam('search', 'Case-insensitive name match'),
+          queryParam('current_division', 'Division', { type: 'string', enum: DIVISIONS }),
+          queryParam('size', 'Account size', { type: 'string', enum: SIZES }),
+          queryParam('tier', 'Tier'),
+          queryParam('industry', 'Industry'),
+          queryParam('country', 'Country'),
+          queryParam('state', 'State'),
+        ],
+        responses: { 200: listResponse('Account'), ...errorResponses(400, 401) },
+      },
+    },
+    '/accounts/{id}': {
+      parameters: [idParam('Account id')],
+      get: {
+        summary: 'Get an account',
+        responses: { 200: itemResponse('Account'), ...errorResponses(401, 404) },
+      },
+      patch: {
+        summary: 'Update an account (needs import.run)',
+        requestBody: jsonBody('AccountUpdate'),
+        responses: { 200: itemResponse('Account', 'The updated account'), ...errorResponses(400, 401, 403, 404) },
+      },
+    },
+    '/sellers': {
+      get: {
+        summary: 'List sellers',
+        parameters: [
+          ...paginationParams,
+          queryParam('search', 'Case-insensitive name match'),
+          queryParam('manager_id', 'Only sellers linked to this manager', { type: 'string', format: 'uuid' }),
+          queryParam('division', 'Division', { type: 'string', enum: DIVISIONS }),
+          queryParam('size', 'Seller size', { type: 'string', enum: SIZES }),
+          queryParam('seniority_type', 'Seniority'),
+          queryParam('country', 'Country'),
+          queryParam('state', 'State'),
+        ],
+        responses: { 200: listResponse('Seller'), ...errorResponses(400, 401) },
+      },
+    },
+    '/sellers/{id}': {
+      parameters: [idParam('Seller id')],
+      get: {
+        summary: 'Get a seller',
+        responses: { 200: itemResponse('Seller'), ...errorResponses(401, 404) },
+      },
+      patch: {
+        summary: 'Update a seller (needs import.run)',
+        requestBody: jsonBody('SellerUpdate'),
+        responses: { 200: itemResponse('Seller', 'The updated seller'), ...errorResponses(400, 401, 403, 404) },
+      },
+    },
+    '/managers': {
+      get: {
+        summary: 'List managers',
+        parameters: [...paginationParams, queryParam('search', 'Case-insensitive name match')],
+        responses: { 200: listResponse('Manager'), ...errorResponses(400, 401) },
+      },
+    },
+    '/managers/{id}': {
+      parameters: [idParam('Manager id')],
+      get: {
+        summary: 'Get a manager',
+        responses: { 200: itemResponse('Manager'), ...errorResponses(401, 404) },
+      },
+      patch: {
+        summary: 'Rename a manager (needs import.run)',
+        requestBody: jsonBody('ManagerUpdate'),
+        responses: { 200: itemResponse('Manager', 'The updated manager'), ...errorResponses(400, 401, 403, 404) },
+      },
+    },
+    '/relationships': {
+      get: {
+        summary: 'List account-seller relationships',
+        parameters: [
+          ...paginationParams,
+          queryParam('seller_id', 'Seller id', { type: 'string', format: 'uuid' }),
+          queryParam('account_id', 'Account id', { type: 'string', format: 'uuid' }),
+          queryParam('status', 'One or more statuses, comma separated'),
+        ],
+        responses: { 200: listResponse('Relationship'), ...errorResponses(400, 401) },
+      },
+      post: {
+        summary: "Set an account's status for a seller",
+        description:
+          'Assigns from the available pool, moves between columns or unassigns. Original accounts cannot be set ' +
+          'to available. Tokens without relationship.assign must include a justification and receive 202 with the pending request.',
+        requestBody: jsonBody('RelationshipCreate'),
+        responses: statusChangeResponses,
+      },
+    },
+    '/relationships/{id}': {
+      parameters: [idParam('Relationship id')],
+      get: {
+        summary: 'Get a relationship',
+        responses: { 200: itemResponse('Relationship'), ...errorResponses(401, 404) },
+      },
+      patch: {
+        summary: "Change a relationship's status",
+        description: 'Same rules as POST /relationships.',
+        requestBody: jsonBody('RelationshipStatusUpdate'),
+        responses: statusChangeResponses,
+      },
+    },
+  },
+  components: {
+    securitySchemes: {
+      bearerAuth: { type: 'http', scheme: 'bearer', description: 'Personal API token' },
+    },
+    schemas: {
+      Pagination: {
+        type: 'object',
+        properties: {
+          page: { type: 'integer' },
+          limit: { type: 'integer' },
+          total: { type: 'integer' },
+          totalPages: { type: 'integer' },
+        },
+      },
+      Error: {
+        type: 'object',
+        properties: {
+          error: {
+            type: 'object',
+            properties: {
+              code: { type: 'string' },
+              message: { type: 'string' },
+              details: {},
+            },
+          },
+        },
+      },
+      Account: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', format: 'uuid' },
+          name: { type: 'string' },
+          external_id: nullableString,
+          city: nullableString,
+          state: nullableString,
+          country: nullableString,
+          industry: nullableString,
+          size: { type: 'string', enum: SIZES },
+          tier: nullableString,
+          type: nullableString,
+          current_division: { type: 'string', enum: DIVISIONS },
+          lat: nullableNumber,
+          lng: nullableNumber,
+          created_at: { type: 'string', format: 'date-time' },
+        },
+      },
+      AccountUpdate: {
+        type: 'object',
+        additionalProperties: false,
+        properties: {
+          name: { type: 'string' },
+          city: nullableString,
+          state: nullableString,
+          country: nullableString,
+          industry: nullableString,
+          size: { type: 'string', enum: SIZES },
+          tier: nullableString,
+          type: nullableString,
+          current_division: { type: 'string', enum: DIVISIONS },
+          lat: { ...nullableNumber, minimum: -90, maximum: 90 },
+          lng: { ...nullableNumber, minimum: -180, maximum: 180 },
+        },
+      },
+      Seller: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', format: 'uuid' },
+          name: { type: 'string' },
+          external_id: nullableString,
+          city: nullableString,
+          state: nullableString,
+          country: nullableString,
+          division: { type: 'string', enum: DIVISIONS },
+          size: { type: 'string', enum: SIZES },
+          seniority_type: nullableString,
+          industry_specialty: nullableString,
+          tenure_months: { type: 'integer', nullable: true },
+          lat: nullableNumber,
+          lng: nullableNumber,
+          book_finalized: { type: 'boolean', nullable: true },
+          created_at: { type: 'string', format: 'date-time' },
+        },
+      },
+      SellerUpdate: {
+        type: 'object',
+        additionalProperties: false,
+        properties: {
+          name: { type: 'string' },
+          city: nullableString,
+          state: nullableString,
+          country: nullableString,
+          division: { type: 'string', enum: DIVISIONS },
+          size: { type: 'string', enum: SIZES },
+          seniority_type: nullableString,
+          industry_specialty: nullableString,
+          tenure_months: { type: 'integer', nullable: true, minimum: 0 },
+          lat: { ...nullableNumber, minimum: -90, maximum: 90 },
+          lng: { ...nullableNumber, minimum: -180, maximum: 180 },
+        },
+      },
+      Manager: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', format: 'uuid' },
+          name: { type: 'string' },
+          external_id: nullableString,
+          user_id: { type: 'string', format: 'uuid' },
+          created_at: { type: 'string', format: 'date-time' },
+          sellers: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                seller_id: { type: 'string', format: 'uuid' },
+                is_primary: { type: 'boolean' },
+              },
+            },
+          },
+        },
+      },
+      ManagerUpdate: {
+        type: 'object',
+        additionalProperties: false,
+        required: ['name'],
+        properties: { name: { type: 'string' } },
+      },
+      Relationship: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', format: 'uuid' },
+          account_id: { type: 'string', format: 'uuid' },
+          seller_id: { type: 'string', format: 'uuid' },
+          status: { type: 'string' },
+          updated_at: { type: 'string', format: 'date-time' },
+        },
+      },
+      RelationshipStatusUpdate: {
+        type: 'object',
+        additionalProperties: false,
+        required: ['status'],
+        properties: {
+          status: { type: 'string', enum: API_RELATIONSHIP_STATUSES },
+          justification: { type: 'string', description: 'Required for change requests' },
+        },
+      },
+      RelationshipCreate: {
+        type: 'object',
+        additionalProperties: false,
+        required: ['account_id', 'seller_id', 'status'],
+        properties: {
+          account_id: { type: 'string', format: 'uuid' },
+          seller_id: { type: 'string', format: 'uuid' },
+          status: { type: 'string', enum: API_RELATIONSHIP_STATUSES },
+          justification: { type: 'string', description: 'Required for change requests' },
+        },
+      },
+      ChangeRequest: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', format: 'uuid' },
+          type: { type: 'string', enum: ['pin', 'assign', 'unassign'] },
+          status: { type: 'string', enum: ['pending', 'approved', 'rejected'] },
+          account_id: { type: 'string', format: 'uuid' },
+          seller_id: { type: 'string', format: 'uuid' },
+          previous_status: nullableString,
+          requested_status: { type: 'string' },
+          justification: { type: 'string' },
+          requested_by: { type: 'string', format: 'uuid' },
+          created_at: { type: 'string', format: 'date-time' },
+        },
+      },
+    },
+  },
+};
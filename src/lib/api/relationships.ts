@@ -0,0 +1,176 @@
+import { NextResponse } from 'next/server';
+import { ApiError } from '@/lib/api/http';
+import { assertSellerVisible, requireCapability, type ApiUser } from '@/lib/api/auth';
+import { getSupabaseAdmin } from '@/lib/api/supabase-admin';
+import { recordApiAudit } from '@/lib/api/audit';
+import { RELATIONSHIP_FIELDS, type ApiRelationshipStatus } from '@/lib/api/schemas';
+import { AUDIT_ACTIONS, AUDIT_ENTITIES } from '@/lib/audit';
+import { can } from '@/lib/permissions';
+import { getRequestTypeForStatus } from '@/lib/requests';
+
+/**
+ * Relationship status changes made through the API.
+ * Mirrors handleStatusChange on the seller page: original accounts can't be
+ * unassigned, relationship.assign changes apply directly, and
+ * relationship.request changes become change requests waiting for MASTER approval.
+ */
+
+export interface StatusChangeInput {
+  account_id: string;
+  seller_id: string;
+  status: ApiRelationshipStatus;
+  // Required for change requests, ignored for direct assignments
+  justification?: string;
+}
+
+export type StatusChangeResult =
+  | { outcome: 'unchanged'; relationship: any }
+  | { outcome: 'applied'; relationship: any }
+  | { outcome: 'requested'; request: any };
+
+export async function setRelationshipStatus(user: ApiUser, input: StatusChangeInput): Promise<StatusChangeResult> {
+  const admin = getSupabaseAdmin();
+  const { account_id: accountId, seller_id: sellerId, status } = input;
+
+  await assertSellerVisible(user, sellerId);
+
+  const [accountResult, sellerResult, relationshipResult] = await Promise.all([
+    admin.from('accounts').select('id, name').eq('id', accountId).maybeSingle(),
+    admin.from('sellers').select('id, name').eq('id', sellerId).maybeSingle(),
+    admin
+      .from('relationship_maps')
+      .select(RELATIONSHIP_FIELDS)
+      .eq('account_id', accountId)
+      .eq('seller_id', sellerId)
+      .maybeSingle(),
+  ]);
+
+  if (accountResult.error) throw accountResult.error;
+  if (sellerResult.error) throw sellerResult.error;
+  if (relationshipResult.error) throw relationshipResult.error;
+  if (!accountResult.data) throw new ApiError(404, 'not_found', 'Account not found');
+  if (!sellerResult.data) throw new ApiError(404, 'not_found', 'Seller not found');
+
+  const account = accountResult.data;
+  const seller = sellerResult.data;
+  const existing = relationshipResult.data;
+  const currentStatus = existing && existing.status !== 'available' ? existing.status : null;
+
+  if ((currentStatus ?? 'available') === status) {
+    return { outcome: 'unchanged', relationship: existing };
+  }
+
+  // Prevent moving original accounts to available (they are immutable)
+  if (status === 'available') {
+    const { data: original, error } = await admin
+      .from('original_relationships')
+      .select('id')
+      .eq('account_id', accountId)
+      .eq('seller_id', sellerId)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (original) {
+      throw new ApiError(409, 'original_account', `Account "${account.name}" is an original account and cannot be unassigned.`);
+    }
+  }
+
+  if (!can(user, 'relationship.assign')) {
+    requireCapability(user, 'relationship.request');
+
+    const justification = input.justification?.trim();
+    if (!justification) {
+      throw new ApiError(400, 'justification_required', 'Change requests need a justification for MASTER approval');
+    }
+
+    const { data: request, error } = await (admin as any)
+      .from('requests')
+      .insert({
+        account_id: accountId,
+        seller_id: sellerId,
+        requested_by: user.id,
+        previous_status: currentStatus,
+        requested_status: status,
+        type: getRequestTypeForStatus(status),
+        justification,
+        status: 'pending',
+      })
+      .select('*')
+      .single();
+
+    if (error) {
+      // Unique partial index: one pending request per account/seller pair
+      if (error.code === '23505') {
+        throw new ApiError(409, 'request_pending', `A change for ${account.name} is already waiting for MASTER approval.`);
+      }
+      throw error;
+    }
+
+    await recordApiAudit(user.id, AUDIT_ACTIONS.CREATE, AUDIT_ENTITIES.REQUEST, request.id, null, {
+      type: request.type,
+      account_id: accountId,
+      account_name: account.name,
+      seller_id: sellerId,
+      seller_name: seller.name,
+      previous_status: request.previous_status,
+      requested_status: request.requested_status,
+      justification: request.justification,
+    });
+
+    return { outcome: 'requested', request };
+  }
+
+  const now = new Date().toISOString();
+  let relationship: any;
+
+  if (existing) {
+    const { data, error } = await admin
+      .from('relationship_maps')
+      .update({ status, updated_at: now })
+      .eq('id', existing.id)
+      .select(RELATIONSHIP_FIELDS)
+      .single();
+    if (error) throw error;
+    relationship = data;
+
+    await recordApiAudit(user.id, AUDIT_ACTIONS.UPDATE, AUDIT_ENTITIES.RELATIONSHIP, accountId, { status: existing.status }, { status });
+  } else {
+    const { data, error } = await admin
+      .from('relationship_maps')
+      .insert({ account_id: accountId, seller_id: sellerId, status, updated_at: now })
+      .select(RELATIONSHIP_FIELDS)
+      .single();
+    if (error) throw error;
+    relationship = data;
+
+    await recordApiAudit(user.id, AUDIT_ACTIONS.ASSIGN, AUDIT_ENTITIES.RELATIONSHIP, accountId, null, {
+      account_id: accountId,
+      seller_id: sellerId,
+      status,
+      last_actor_user_id: user.id,
+      account_name: account.name,
+      seller_name: seller.name,
+    });
+  }
+
+  // Book revenue views only depend on must_keep relationships
+  if (status === 'must_keep' || currentStatus === 'must_keep') {
+    try {
+      await admin.rpc('smart_refresh_performance_views');
+    } catch (refreshError) {
+      // Don't throw error - this is not critical for the change itself
+    }
+  }
+
+  return { outcome: 'applied', relationship };
+}
+
+/**
+ * 200 for applied/unchanged changes, 202 when a MANAGER request awaits approval
+ */
+export function statusChangeResponse(result: StatusChangeResult): NextResponse {
+  if (result.outcome === 'requested') {
+    return NextResponse.json({ outcome: result.outcome, request: result.request }, { status: 202 });
+  }
+  return NextResponse.json({ outcome: result.outcome, data: result.relationship });
+}
@@ -0,0 +1,64 @@
+import { z } from 'zod';
+
+/**
+ * Response field lists and request body schemas for the /api/v1 endpoints.
+ * Keep these in step with the component schemas in openapi.ts.
+ */
+
+export const ACCOUNT_FIELDS = 'id, name, external_id, city, state, country, industry, size, tier, type, current_division, lat, lng, created_at';
+export const SELLER_FIELDS = 'id, name, external_id, city, state, country, division, size, seniority_type, industry_specialty, tenure_months, lat, lng, book_finalized, created_at';
+export const MANAGER_FIELDS = 'id, name, external_id, user_id, created_at, sellers:seller_managers(seller_id, is_primary)';
+export const RELATIONSHIP_FIELDS = 'id, account_id, seller_id, status, updated_at';
+
+export const DIVISIONS = ['ESG', 'GDT', 'GVC', 'MSG_US', 'MIXED'] as const;
+export const SIZES = ['enterprise', 'midmarket', 'no_data'] as const;
+
+// Board columns a status change can target; legacy statuses are read-only
+export const API_RELATIONSHIP_STATUSES = ['must_keep', 'for_discussion', 'to_be_peeled', 'available'] as const;
+export type ApiRelationshipStatus = typeof API_RELATIONSHIP_STATUSES[number];
+
+const optionalText = z.string().trim().max(255).nullable().optional();
+const latitude = z.number().min(-90).max(90).nullable().optional();
+const longitude = z.number().min(-180).max(180).nullable().optional();
+
+export const accountUpdateSchema = z.object({
+  name: z.string().trim().min(1).max(255).optional(),
+  city: optionalText,
+  state: optionalText,
+  country: optionalText,
+  industry: optionalText,
+  size: z.enum(SIZES).optional(),
+  tier: optionalText,
+  type: optionalText,
+  current_division: z.enum(DIVISIONS).optional(),
+  lat: latitude,
+  lng: longitude,
+}).strict();
+
+export const sellerUpdateSchema = z.object({
+  name: z.string().trim().min(1).max(255).optional(),
+  city: optionalText,
+  state: optionalText,
+  country: optionalText,
+  division: z.enum(DIVISIONS).optional(),
+  size: z.enum(SIZES).optional(),
+  seniority_type: optionalText,
+  industry_specialty: optionalText,
+  tenure_months: z.number().int().min(0).nullable().optional(),
+  lat: latitude,
+  lng: longitude,
+}).strict();
+
+export const managerUpdateSchema = z.object({
+  name: z.string().trim().min(1).max(255),
+}).strict();
+
+export const relationshipStatusSchema = z.object({
+  status: z.enum(API_RELATIONSHIP_STATUSES),
+  justification: z.string().max(2000).optional(),
+}).strict();
+
+export const relationshipCreateSchema = relationshipStatusSchema.extend({
+  account_id: z.string().uuid(),
+  seller_id: z.string().uuid(),
+}).strict();
@@ -0,0 +1,29 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/integrations/supabase/types';
+
+/**
+ * Service-role client for the /api/v1 route handlers and server actions.
+ * Bypasses RLS, so every caller must scope its queries to the acting user -
+ * never import this from client components.
+ */
+
+let adminClient: SupabaseClient<Database> | null = null;
+
+export function getSupabaseAdmin(): SupabaseClient<Database> {
+  if (adminClient) return adminClient;
+
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !serviceRoleKey) {
+    throw new Error('NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY must be set to serve the API');
+  }
+
+  adminClient = createClient<Database>(url, serviceRoleKey, {
+    auth: {
+      persistSession: false,
+      autoRefreshToken: false,
+    },
+  });
+
+  return adminClient;
+}
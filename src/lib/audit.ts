@@ -51,6 +51,8 @@ export async function getAuditLogs(options: {
   entity_id?: string;
   user_id?: string;
   action?: string;
+  // Entries written by one import job
+  import_job_id?: string;
   limit?: number;
   offset?: number;
   order_by?: 'created_at' | 'action' | 'entity';
@@ -77,6 +79,11 @@ export async function getAuditLogs(options: {
     countQuery = countQuery.eq('action', options.action);
   }
 
+  if (options.import_job_id) {
+    // import_job_id isn't in the generated types yet
+    countQuery = (countQuery as any).eq('import_job_id', options.import_job_id);
+  }
+
   const { count: totalCount, error: countError } = await countQuery;
 
   if (countError) {
@@ -112,6 +119,10 @@ export async function getAuditLogs(options: {
     query = query.eq('action', options.action);
   }
 
+  if (options.import_job_id) {
+    query = (query as any).eq('import_job_id', options.import_job_id);
+  }
+
   if (options.order_by) {
     query = query.order(options.order_by, { ascending: options.order_direction === 'asc' });
   } else {
@@ -263,10 +274,22 @@ export const AUDIT_ACTIONS = {
   UNASSIGN: 'unassign',
   APPROVE: 'approve',
   REJECT: 'reject',
+  RESTORE: 'restore',
+  PROMOTE: 'promote',
   LOGIN: 'login',
   LOGOUT: 'logout',
+  LOGIN_FAILED: 'login_failed',
+  SESSION_REFRESH: 'session_refresh',
+  SESSION_REVOKE: 'session_revoke',
+  INVITE: 'invite',
+  DEACTIVATE: 'deactivate',
+  REACTIVATE: 'reactivate',
+  IMPERSONATE_START: 'impersonate_start',
+  IMPERSONATE_STOP: 'impersonate_stop',
   SETTINGS_UPDATE: 'settings_update',
   DATA_IMPORT: 'data_import',
+  IMPORT_LOCK_RELEASE: 'import_lock_release',
+  LOCATION_NORMALIZE: 'location_normalize',
   BOOK_FINALIZED: 'book_finalized',
   BOOK_UNFINALIZED: 'book_unfinalized',
 } as const;
@@ -279,7 +302,13 @@ export const AUDIT_ENTITIES = {
   ACCOUNT: 'account',
   RELATIONSHIP: 'relationship',
   REQUEST: 'request',
+  SNAPSHOT: 'snapshot',
+  SCENARIO: 'scenario',
   SETTINGS: 'settings',
   USER: 'user',
   MANAGER: 'manager',
+  API_TOKEN: 'api_token',
+  SESSION: 'session',
+  IMPORT_LOCK: 'import_lock',
+  LOCATION: 'location',
 } as const;
@@ -0,0 +1,392 @@
+import { supabase } from '@/integrations/supabase/client';
+import { BOOK_STATUSES, getAccountTotalRevenue } from '@/lib/seller-health';
+
+export type SnapshotReason = 'manual' | 'import' | 'finalization' | 'restore' | 'scenario';
+
+export interface BookSnapshot {
+  id: string;
+  name: string;
+  description: string | null;
+  reason: SnapshotReason;
+  relationship_count: number;
+  account_count: number;
+  seller_count: number;
+  created_by: string | null;
+  created_at: string;
+  creator?: {
+    id: string;
+    name: string;
+    email: string;
+  } | null;
+}
+
+// A snapshot account or seller a restore left out because it no longer
+// matches a single live record
+export interface SkippedSnapshotRecord {
+  record_type: 'account' | 'seller';
+  record_name: string;
+  // Snapshot relationships of the record, which weren't restored
+  skipped_relationships: number;
+}
+
+export interface SnapshotAccountChange {
+  account_id: string;
+  account_name: string;
+  status_before: string | null;
+  status_after: string | null;
+  revenue_before: number;
+  revenue_after: number;
+}
+
+export interface SnapshotSellerComparison {
+  seller_id: string;
+  seller_name: string;
+  division: string | null;
+  gained: SnapshotAccountChange[];
+  lost: SnapshotAccountChange[];
+  changed: SnapshotAccountChange[];
+  accounts_before: number;
+  accounts_after: number;
+  book_revenue_before: number;
+  book_revenue_after: number;
+  revenue_delta: number;
+}
+
+// Pseudo snapshot id for the current live data
+export const LIVE_SNAPSHOT = 'live';
+
+interface BookRecord {
+  name: string;
+  external_id: string | null;
+}
+
+interface BookState {
+  relationships: Map<string, string>;
+  accounts: Map<string, BookRecord & { revenue: number }>;
+  sellers: Map<string, BookRecord & { division: string | null }>;
+}
+
+const PAGE_SIZE = 1000;
+
+/**
+ * Fetch every row of a query in pages, PostgREST caps single responses
+ */
+async function fetchAllPages<T = any>(buildQuery: () => any): Promise<T[]> {
+  const rows: T[] = [];
+  let from = 0;
+
+  while (true) {
+    const { data, error } = await buildQuery().range(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+
+    rows.push(...((data || []) as T[]));
+    if (!data || data.length < PAGE_SIZE) break;
+    from += PAGE_SIZE;
+  }
+
+  return rows;
+}
+
+function relationshipKey(accountId: string, sellerId: string): string {
+  return `${accountId}:${sellerId}`;
+}
+
+function nameKey(name: string): string {
+  return name.trim().toLowerCase();
+}
+
+/**
+ * Map each record id of one state to the id of the same record in another,
+ * by external_id and then by a unique name, as restore_book_snapshot does.
+ * Replace imports recreate records with new ids, so ids alone don't match.
+ * Records without a counterpart keep their own id.
+ */
+function matchRecords(from: Map<string, BookRecord>, to: Map<string, BookRecord>): Map<string, string> {
+  const byExternalId = new Map<string, string>();
+  const byName = new Map<string, string | null>();
+  Array.from(to.entries()).forEach(([id, record]) => {
+    if (record.external_id) byExternalId.set(record.external_id, id);
+    const key = nameKey(record.name);
+    byName.set(key, byName.has(key) ? null : id);
+  });
+
+  const matches = new Map<string, string>();
+  Array.from(from.entries()).forEach(([id, record]) => {
+    const match = (record.external_id && byExternalId.get(record.external_id)) || byName.get(nameKey(record.name));
+    matches.set(id, match || id);
+  });
+  return matches;
+}
+
+/**
+ * Fetch all snapshots, newest first
+ */
+export async function getBookSnapshots(limit = 100): Promise<BookSnapshot[]> {
+  try {
+    const { data, error } = await (supabase as any)
+      .from('book_snapshots')
+      .select('*, creator:profiles!book_snapshots_created_by_fkey(id, name, email)')
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+    return (data || []) as BookSnapshot[];
+  } catch (error) {
+    throw error;
+  }
+}
+
+/**
+ * Snapshot relationship_maps, account revenues and seller attributes
+ */
+export async function createBookSnapshot(
+  name: string,
+  reason: SnapshotReason = 'manual',
+  description?: string
+): Promise<BookSnapshot> {
+  try {
+    const { data, error } = await (supabase as any).rpc('create_book_snapshot', {
+      p_name: name.trim(),
+      p_reason: reason,
+      p_description: description?.trim() || null,
+    });
+
+    if (error) throw error;
+    return data as BookSnapshot;
+  } catch (error) {
+    throw error;
+  }
+}
+
+/**
+ * Restore a snapshot over live data (snapshot.manage). The current state is
+ * snapshotted first so the restore can be undone. Returns the accounts and
+ * sellers that no longer match a live record and were skipped.
+ */
+export async function restoreBookSnapshot(snapshotId: string): Promise<SkippedSnapshotRecord[]> {
+  try {
+    const { data, error } = await (supabase as any).rpc('restore_book_snapshot', {
+      p_snapshot_id: snapshotId,
+    });
+
+    if (error) throw error;
+    return (data || []) as SkippedSnapshotRecord[];
+  } catch (error) {
+    throw error;
+  }
+}
+
+/**
+ * Delete a snapshot and its rows
+ */
+export async function deleteBookSnapshot(snapshotId: string): Promise<void> {
+  try {
+    const { error } = await (supabase as any)
+      .from('book_snapshots')
+      .delete()
+      .eq('id', snapshotId);
+
+    if (error) throw error;
+  } catch (error) {
+    throw error;
+  }
+}
+
+async function loadSnapshotState(snapshotId: string): Promise<BookState> {
+  const [relationships, accounts, sellers] = await Promise.all([
+    fetchAllPages<{ account_id: string; seller_id: string; status: string }>(() =>
+      (supabase as any)
+        .from('book_snapshot_relationships')
+        .select('account_id, seller_id, status')
+        .eq('snapshot_id', snapshotId)
+        .order('account_id')
+        .order('seller_id')
+    ),
+    fetchAllPages<any>(() =>
+      (supabase as any)
+        .from('book_snapshot_accounts')
+        .select('account_id, account_name, external_id, revenue_esg, revenue_gdt, revenue_gvc, revenue_msg_us')
+        .eq('snapshot_id', snapshotId)
+        .order('account_id')
+    ),
+    fetchAllPages<{ seller_id: string; name: string; external_id: string | null; division: string | null }>(() =>
+      (supabase as any)
+        .from('book_snapshot_sellers')
+        .select('seller_id, name, external_id, division')
+        .eq('snapshot_id', snapshotId)
+        .order('seller_id')
+    ),
+  ]);
+
+  return {
+    relationships: new Map(relationships.map(r => [relationshipKey(r.account_id, r.seller_id), r.status] as [string, string])),
+    accounts: new Map(accounts.map(a => [a.account_id, {
+      name: a.account_name,
+      external_id: a.external_id ?? null,
+      revenue: getAccountTotalRevenue(a),
+    }] as [string, BookRecord & { revenue: number }])),
+    sellers: new Map(sellers.map(s => [s.seller_id, {
+      name: s.name,
+      external_id: s.external_id ?? null,
+      division: s.division,
+    }] as [string, BookRecord & { division: string | null }])),
+  };
+}
+
+async function loadLiveState(): Promise<BookState> {
+  const [relationships, accounts, sellers] = await Promise.all([
+    fetchAllPages<{ account_id: string; seller_id: string; status: string }>(() =>
+      supabase
+        .from('relationship_maps')
+        .select('account_id, seller_id, status')
+        .order('id')
+    ),
+    fetchAllPages<any>(() =>
+      supabase
+        .from('accounts')
+        .select('id, name, external_id, account_revenues(revenue_esg, revenue_gdt, revenue_gvc, revenue_msg_us)')
+        .order('id')
+    ),
+    fetchAllPages<{ id: string; name: string; external_id: string | null; division: string | null }>(() =>
+      (supabase as any)
+        .from('sellers')
+        .select('id, name, external_id, division')
+        .order('id')
+    ),
+  ]);
+
+  return {
+    relationships: new Map(relationships.map(r => [relationshipKey(r.account_id, r.seller_id), r.status] as [string, string])),
+    accounts: new Map(accounts.map(a => {
+      const revenue = Array.isArray(a.account_revenues) ? a.account_revenues[0] : a.account_revenues;
+      return [a.id, {
+        name: a.name,
+        external_id: a.external_id ?? null,
+        revenue: getAccountTotalRevenue(revenue),
+      }] as [string, BookRecord & { revenue: number }];
+    })),
+    sellers: new Map(sellers.map(s => [s.id, {
+      name: s.name,
+      external_id: s.external_id ?? null,
+      division: s.division,
+    }] as [string, BookRecord & { division: string | null }])),
+  };
+}
+
+function loadBookState(source: string): Promise<BookState> {
+  return source === LIVE_SNAPSHOT ? loadLiveState() : loadSnapshotState(source);
+}
+
+/**
+ * Re-key a state's accounts, sellers and relationships by the matching ids
+ * of another state
+ */
+function rekeyBookState(state: BookState, target: BookState): BookState {
+  const accountIds = matchRecords(state.accounts, target.accounts);
+  const sellerIds = matchRecords(state.sellers, target.sellers);
+
+  return {
+    relationships: new Map(Array.from(state.relationships.entries()).map(([key, status]) => {
+      const [accountId, sellerId] = key.split(':');
+      return [
+        relationshipKey(accountIds.get(accountId) || accountId, sellerIds.get(sellerId) || sellerId),
+        status,
+      ] as [string, string];
+    })),
+    accounts: new Map(Array.from(state.accounts.entries()).map(([id, account]) =>
+      [accountIds.get(id) || id, account] as [string, BookRecord & { revenue: number }]
+    )),
+    sellers: new Map(Array.from(state.sellers.entries()).map(([id, seller]) =>
+      [sellerIds.get(id) || id, seller] as [string, BookRecord & { division: string | null }]
+    )),
+  };
+}
+
+/**
+ * Per seller, the accounts gained, lost or with a changed status between two
+ * snapshots (either side may be LIVE_SNAPSHOT), with book revenue deltas
+ */
+export async function compareBookSnapshots(fromId: string, toId: string): Promise<SnapshotSellerComparison[]> {
+  try {
+    const [loadedBefore, after] = await Promise.all([loadBookState(fromId), loadBookState(toId)]);
+    // Compare by the later state's ids, so records an import recreated match
+    const before = rekeyBookState(loadedBefore, after);
+    const comparisons = new Map<string, SnapshotSellerComparison>();
+
+    const getComparison = (sellerId: string) => {
+      let comparison = comparisons.get(sellerId);
+      if (!comparison) {
+        const seller = after.sellers.get(sellerId) || before.sellers.get(sellerId);
+        comparison = {
+          seller_id: sellerId,
+          seller_name: seller?.name || 'Deleted seller',
+          division: seller?.division ?? null,
+          gained: [],
+          lost: [],
+          changed: [],
+          accounts_before: 0,
+          accounts_after: 0,
+          book_revenue_before: 0,
+          book_revenue_after: 0,
+          revenue_delta: 0,
+        };
+        comparisons.set(sellerId, comparison);
+      }
+      return comparison;
+    };
+
+    const keys = new Set<string>();
+    Array.from(before.relationships.keys()).forEach(key => keys.add(key));
+    Array.from(after.relationships.keys()).forEach(key => keys.add(key));
+
+    Array.from(keys).forEach(key => {
+      const [accountId, sellerId] = key.split(':');
+      const statusBefore = before.relationships.get(key) ?? null;
+      const statusAfter = after.relationships.get(key) ?? null;
+      const accountBefore = before.accounts.get(accountId);
+      const accountAfter = after.accounts.get(accountId);
+      const comparison = getComparison(sellerId);
+
+      const inBookBefore = !!statusBefore && BOOK_STATUSES.includes(statusBefore);
+      const inBookAfter = !!statusAfter && BOOK_STATUSES.includes(statusAfter);
+      if (inBookBefore) {
+        comparison.accounts_before += 1;
+        comparison.book_revenue_before += accountBefore?.revenue || 0;
+      }
+      if (inBookAfter) {
+        comparison.accounts_after += 1;
+        comparison.book_revenue_after += accountAfter?.revenue || 0;
+      }
+
+      if (statusBefore === statusAfter) return;
+
+      const change: SnapshotAccountChange = {
+        account_id: accountId,
+        account_name: accountAfter?.name || accountBefore?.name || 'Deleted account',
+        status_before: statusBefore,
+        status_after: statusAfter,
+        revenue_before: accountBefore?.revenue || 0,
+        revenue_after: accountAfter?.revenue || 0,
+      };
+
+      if (!statusBefore) comparison.gained.push(change);
+      else if (!statusAfter) comparison.lost.push(change);
+      else comparison.changed.push(change);
+    });
+
+    return Array.from(comparisons.values())
+      .map(comparison => ({
+        ...comparison,
+        revenue_delta: comparison.book_revenue_after - comparison.book_revenue_before,
+      }))
+      .filter(comparison =>
+        comparison.gained.length > 0 ||
+        comparison.lost.length > 0 ||
+        comparison.changed.length > 0 ||
+        comparison.revenue_delta !== 0
+      )
+      .sort((a, b) => Math.abs(b.revenue_delta) - Math.abs(a.revenue_delta) || a.seller_name.localeCompare(b.seller_name));
+  } catch (error) {
+    throw error;
+  }
+}
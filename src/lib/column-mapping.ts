@@ -0,0 +1,463 @@
+import * as XLSX from 'xlsx';
+import { supabase } from '@/integrations/supabase/client';
+import { nameSimilarity, normalizeEntityName } from '@/lib/name-matching';
+
+/**
+ * Column mapping for spreadsheets that don't follow the import templates.
+ * A mapping says which source sheet and header feed each template field and
+ * how source values translate to the values the importers accept.
+ * applyColumnMapping turns the source workbook into a template-shaped one, so
+ * validation, preview and import run unchanged afterwards.
+ */
+
+export type MappingImportType = 'comprehensive' | 'comprehensive_add' | 'comprehensive_merge' | 'sellers' | 'accounts';
+
+export type ImportSheet = 'Accounts' | 'Sellers' | 'Managers' | 'Relationship_Map' | 'Manager_Team';
+
+export interface ImportField {
+  key: string;
+  label: string;
+  required?: boolean;
+  // Other header spellings worth suggesting, e.g. "Client" for account_name
+  aliases?: string[];
+  // Values the importers store; the first entries are offered in value mapping
+  values?: string[];
+  // Other raw values the importers already accept as they are
+  accepted?: string[];
+}
+
+const SIZE_VALUES = ['enterprise', 'midmarket', 'no_data'];
+const SIZE_ACCEPTED = ['Enterprise', 'ENTERPRISE', 'Midmarket', 'MIDMARKET', 'No data', 'No Data', 'NO_DATA', '-', 'N/A', 'Unknown'];
+const DIVISION_VALUES = ['ESG', 'GDT', 'GVC', 'MSG_US', 'Mixed'];
+const DIVISION_ACCEPTED = ['MSG US'];
+const STATUS_VALUES = ['original', 'must_keep', 'for_discussion', 'to_be_peeled'];
+const STATUS_ACCEPTED = ['Original', 'ORIGINAL', 'must keep', 'for discussion', 'to be peeled'];
+
+const LOCATION_FIELDS: ImportField[] = [
+  { key: 'state', label: 'State', aliases: ['province', 'region'] },
+  { key: 'city', label: 'City', aliases: ['town'] },
+  { key: 'country', label: 'Country', aliases: ['country code'] },
+];
+
+export const IMPORT_SHEET_FIELDS: Record<ImportSheet, ImportField[]> = {
+  Accounts: [
+    { key: 'account_name', label: 'Account name', required: true, aliases: ['account', 'client', 'client name', 'customer', 'customer name', 'company'] },
+    { key: 'account_external_id', label: 'Account external ID', aliases: ['account id', 'crm id', 'customer id', 'client id'] },
+    { key: 'industry', label: 'Industry', aliases: ['sector', 'vertical'] },
+    { key: 'size', label: 'Size', required: true, aliases: ['segment', 'account size'], values: SIZE_VALUES, accepted: SIZE_ACCEPTED },
+    { key: 'tier', label: 'Tier', aliases: ['account tier'] },
+    { key: 'type', label: 'Type', aliases: ['account type'] },
+    ...LOCATION_FIELDS,
+    { key: 'current_division', label: 'Current division', required: true, aliases: ['division', 'business unit', 'bu'], values: DIVISION_VALUES, accepted: DIVISION_ACCEPTED },
+    { key: 'revenue_ESG', label: 'Revenue ESG', aliases: ['esg revenue', 'esg'] },
+    { key: 'revenue_GDT', label: 'Revenue GDT', aliases: ['gdt revenue', 'gdt'] },
+    { key: 'revenue_GVC', label: 'Revenue GVC', aliases: ['gvc revenue', 'gvc'] },
+    { key: 'revenue_MSG_US', label: 'Revenue MSG US', aliases: ['msg us revenue', 'msg revenue', 'msg us'] },
+  ],
+  Sellers: [
+    { key: 'seller_name', label: 'Seller name', required: true, aliases: ['seller', 'rep', 'rep name', 'sales rep', 'account executive', 'employee name'] },
+    { key: 'seller_external_id', label: 'Seller external ID', aliases: ['seller id', 'employee id', 'rep id', 'hr id'] },
+    { key: 'division', label: 'Division', required: true, aliases: ['business unit', 'bu'], values: DIVISION_VALUES, accepted: DIVISION_ACCEPTED },
+    { key: 'size', label: 'Size', required: true, aliases: ['segment', 'coverage'], values: SIZE_VALUES, accepted: SIZE_ACCEPTED },
+    { key: 'industry_specialty', label: 'Industry specialty', aliases: ['industry', 'specialty', 'vertical'] },
+    ...LOCATION_FIELDS,
+    { key: 'hire_date', label: 'Hire date', aliases: ['start date', 'date hired'] },
+    { key: 'seniority_type', label: 'Seniority', aliases: ['seniority', 'level'], values: ['junior', 'senior'] },
+    { key: 'book_finalized', label: 'Book finalized', aliases: ['finalized'] },
+  ],
+  Managers: [
+    { key: 'manager_name', label: 'Manager name', required: true, aliases: ['manager', 'name'] },
+    { key: 'manager_email', label: 'Manager email', required: true, aliases: ['email', 'email address'] },
+    { key: 'manager_external_id', label: 'Manager external ID', aliases: ['manager id', 'employee id'] },
+  ],
+  Relationship_Map: [
+    { key: 'account_name', label: 'Account name', required: true, aliases: ['account', 'client', 'customer'] },
+    { key: 'seller_name', label: 'Seller name', required: true, aliases: ['seller', 'rep', 'owner', 'account owner'] },
+    { key: 'status', label: 'Status', aliases: ['assignment status'], values: STATUS_VALUES, accepted: STATUS_ACCEPTED },
+    { key: 'account_external_id', label: 'Account external ID', aliases: ['account id', 'crm id', 'customer id'] },
+    { key: 'seller_external_id', label: 'Seller external ID', aliases: ['seller id', 'employee id', 'rep id'] },
+  ],
+  Manager_Team: [
+    { key: 'manager_name', label: 'Manager name', required: true, aliases: ['manager'] },
+    { key: 'seller_name', label: 'Seller name', required: true, aliases: ['seller', 'rep', 'direct report'] },
+    { key: 'is_primary', label: 'Primary manager', aliases: ['primary'] },
+    { key: 'manager_external_id', label: 'Manager external ID', aliases: ['manager id'] },
+    { key: 'seller_external_id', label: 'Seller external ID', aliases: ['seller id', 'employee id'] },
+  ],
+};
+
+export interface SheetMapping {
+  // Sheet in the uploaded file, null when the file has nothing for it
+  source_sheet: string | null;
+  // Template field -> source header
+  columns: Record<string, string | null>;
+  // Template field -> source value -> importer value
+  values: Record<string, Record<string, string>>;
+}
+
+export type ColumnMapping = Partial<Record<ImportSheet, SheetMapping>>;
+
+export interface MappingProfile {
+  id: string;
+  name: string;
+  import_type: MappingImportType;
+  mapping: ColumnMapping;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Similarity a header needs before it is suggested for a field
+const COLUMN_MATCH_THRESHOLD = 0.75;
+
+export function getImportSheets(importType: MappingImportType): ImportSheet[] {
+  if (importType === 'sellers') return ['Sellers'];
+  if (importType === 'accounts') return ['Accounts'];
+  return ['Accounts', 'Sellers', 'Managers', 'Relationship_Map', 'Manager_Team'];
+}
+
+export function getSheetHeaders(wb: XLSX.WorkBook, sheetName: string | null): string[] {
+  const ws = sheetName ? wb.Sheets[sheetName] : undefined;
+  if (!ws || !ws['!ref']) return [];
+
+  // Read the first row's cells directly rather than parsing the whole sheet
+  const range = XLSX.utils.decode_range(ws['!ref']);
+  const headers: string[] = [];
+  for (let c = range.s.c; c <= range.e.c; c++) {
+    const cell = ws[XLSX.utils.encode_cell({ r: range.s.r, c })];
+    const header = cell ? String(cell.w ?? cell.v ?? '') : '';
+    if (header.trim()) headers.push(header);
+  }
+  return headers;
+}
+
+// Parsed rows per sheet; the wizard reads the same columns on every render
+const sheetRowsCache = new WeakMap<XLSX.WorkSheet, Record<string, any>[]>();
+
+function getSheetRows(wb: XLSX.WorkBook, sheetName: string | null): Record<string, any>[] {
+  const ws = sheetName ? wb.Sheets[sheetName] : undefined;
+  if (!ws) return [];
+  let rows = sheetRowsCache.get(ws);
+  if (!rows) {
+    rows = XLSX.utils.sheet_to_json<Record<string, any>>(ws, { defval: null, raw: true });
+    sheetRowsCache.set(ws, rows);
+  }
+  return rows;
+}
+
+/**
+ * Distinct non-blank values of one source column, most frequent first
+ */
+export function getDistinctValues(wb: XLSX.WorkBook, sheetName: string | null, header: string | null): string[] {
+  if (!header) return [];
+  const counts = new Map<string, number>();
+  getSheetRows(wb, sheetName).forEach(row => {
+    const value = row[header];
+    if (value === null || value === undefined || String(value).trim() === '') return;
+    counts.set(String(value), (counts.get(String(value)) || 0) + 1);
+  });
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .map(([value]) => value);
+}
+
+export function isAcceptedValue(field: ImportField, value: string): boolean {
+  if (!field.values) return true;
+  return field.values.indexOf(value) !== -1 || (field.accepted || []).indexOf(value) !== -1;
+}
+
+// "Mid-Market", "mid market" and "midmarket" all compare equal
+const compact = (value: string) => normalizeEntityName(value).replace(/ /g, '');
+
+function fieldMatchScore(header: string, field: ImportField): number {
+  const names = [field.key.replace(/_/g, ' '), field.label, ...(field.aliases || [])];
+  return names.reduce((best, name) => {
+    if (compact(header) === compact(name)) return 1;
+    return Math.max(best, nameSimilarity(header, name, COLUMN_MATCH_THRESHOLD));
+  }, 0);
+}
+
+/**
+ * Importer value a source value most likely means, or null
+ */
+export function suggestValue(field: ImportField, value: string): string | null {
+  if (!field.values || isAcceptedValue(field, value)) return null;
+
+  let best: string | null = null;
+  let bestScore = 0;
+  field.values.forEach(target => {
+    const score = compact(value) === compact(target) ? 1 : nameSimilarity(value, target.replace(/_/g, ' '), COLUMN_MATCH_THRESHOLD);
+    if (score >= COLUMN_MATCH_THRESHOLD && score > bestScore) {
+      best = target;
+      bestScore = score;
+    }
+  });
+  return best;
+}
+
+function suggestSourceSheet(wb: XLSX.WorkBook, sheet: ImportSheet, importType: MappingImportType): string | null {
+  if (wb.SheetNames.indexOf(sheet) !== -1) return sheet;
+  // Single-sheet imports read whatever the first sheet is
+  if (importType === 'sellers' || importType === 'accounts') return wb.SheetNames[0] ?? null;
+
+  let best: string | null = null;
+  let bestScore = 0;
+  wb.SheetNames.forEach(name => {
+    const score = compact(name) === compact(sheet) ? 1 : nameSimilarity(name, sheet.replace(/_/g, ' '), COLUMN_MATCH_THRESHOLD);
+    if (score > bestScore) {
+      best = name;
+      bestScore = score;
+    }
+  });
+  return best;
+}
+
+/**
+ * Best guess at the columns and values for one sheet. Each source header
+ * feeds at most one field, best matches first.
+ */
+export function suggestSheetMapping(wb: XLSX.WorkBook, sheet: ImportSheet, sourceSheet: string | null): SheetMapping {
+  const fields = IMPORT_SHEET_FIELDS[sheet];
+  const headers = getSheetHeaders(wb, sourceSheet);
+
+  const pairs: Array<{ field: string; header: string; score: number }> = [];
+  fields.forEach(field => {
+    headers.forEach(header => {
+      const score = fieldMatchScore(header, field);
+      if (score >= COLUMN_MATCH_THRESHOLD) pairs.push({ field: field.key, header, score });
+    });
+  });
+  pairs.sort((a, b) => b.score - a.score);
+
+  const columns: Record<string, string | null> = {};
+  const usedHeaders = new Set<string>();
+  fields.forEach(field => { columns[field.key] = null; });
+  pairs.forEach(pair => {
+    if (columns[pair.field] || usedHeaders.has(pair.header)) return;
+    columns[pair.field] = pair.header;
+    usedHeaders.add(pair.header);
+  });
+
+  return { source_sheet: sourceSheet, columns, values: suggestValueMappings(wb, sheet, sourceSheet, columns) };
+}
+
+export function suggestValueMappings(
+  wb: XLSX.WorkBook,
+  sheet: ImportSheet,
+  sourceSheet: string | null,
+  columns: Record<string, string | null>,
+  existing: Record<string, Record<string, string>> = {}
+): Record<string, Record<string, string>> {
+  const values: Record<string, Record<string, string>> = {};
+  IMPORT_SHEET_FIELDS[sheet].forEach(field => {
+    if (!field.values || !columns[field.key]) return;
+    const fieldValues: Record<string, string> = {};
+    getDistinctValues(wb, sourceSheet, columns[field.key]).forEach(value => {
+      const target = existing[field.key]?.[value] ?? suggestValue(field, value);
+      if (target) fieldValues[value] = target;
+    });
+    values[field.key] = fieldValues;
+  });
+  return values;
+}
+
+export function suggestColumnMapping(wb: XLSX.WorkBook, importType: MappingImportType): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  getImportSheets(importType).forEach(sheet => {
+    mapping[sheet] = suggestSheetMapping(wb, sheet, suggestSourceSheet(wb, sheet, importType));
+  });
+  return mapping;
+}
+
+/**
+ * Fit a saved profile to this file: saved columns and values win where the
+ * file still has them, suggestions fill the gaps
+ */
+export function applyMappingProfile(wb: XLSX.WorkBook, importType: MappingImportType, saved: ColumnMapping): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  getImportSheets(importType).forEach(sheet => {
+    const profileSheet = saved[sheet];
+    const sourceSheet = profileSheet?.source_sheet && wb.SheetNames.indexOf(profileSheet.source_sheet) !== -1
+      ? profileSheet.source_sheet
+      : suggestSourceSheet(wb, sheet, importType);
+    const suggested = suggestSheetMapping(wb, sheet, sourceSheet);
+    const headers = getSheetHeaders(wb, sourceSheet);
+
+    const columns = { ...suggested.columns };
+    Object.keys(profileSheet?.columns || {}).forEach(field => {
+      const header = profileSheet!.columns[field];
+      if (header === null || headers.indexOf(header) !== -1) columns[field] = header;
+    });
+
+    mapping[sheet] = {
+      source_sheet: sourceSheet,
+      columns,
+      values: suggestValueMappings(wb, sheet, sourceSheet, columns, profileSheet?.values),
+    };
+  });
+  return mapping;
+}
+
+// MERGE mode only needs the name columns rows are matched on
+function isRequiredField(field: ImportField, importType: MappingImportType): boolean {
+  return !!field.required && (importType !== 'comprehensive_merge' || field.key.endsWith('_name'));
+}
+
+/**
+ * Whether the file can go straight to validation. Files in template shape
+ * with values the importers accept skip the mapping step.
+ */
+export function needsColumnMapping(wb: XLSX.WorkBook, importType: MappingImportType): boolean {
+  const sheets = getImportSheets(importType);
+  // MERGE mode updates whichever template sheets the file has
+  const partial = importType === 'comprehensive_merge' && sheets.some(sheet => wb.Sheets[sheet]);
+  return sheets.some(sheet => {
+    const sourceSheet = importType === 'sellers' || importType === 'accounts' ? wb.SheetNames[0] : sheet;
+    if (partial && !wb.Sheets[sheet]) return false;
+    if (!sourceSheet || !wb.Sheets[sourceSheet]) return true;
+    if (importType === 'sellers' || importType === 'accounts') {
+      if (sourceSheet !== sheet) return true;
+    }
+
+    const headers = getSheetHeaders(wb, sourceSheet);
+    const fields = IMPORT_SHEET_FIELDS[sheet];
+    if (fields.some(field => isRequiredField(field, importType) && headers.indexOf(field.key) === -1)) return true;
+
+    return fields.some(field =>
+      field.values && headers.indexOf(field.key) !== -1 &&
+      getDistinctValues(wb, sourceSheet, field.key).some(value => !isAcceptedValue(field, value))
+    );
+  });
+}
+
+/**
+ * Problems that stop a mapping from being applied
+ */
+export function validateColumnMapping(mapping: ColumnMapping, importType: MappingImportType): string[] {
+  const errors: string[] = [];
+  getImportSheets(importType).forEach(sheet => {
+    const sheetMapping = mapping[sheet];
+    // ADD mode allows an empty Managers sheet and MERGE mode any subset of
+    // sheets, so those may be left unmapped
+    if (!sheetMapping?.source_sheet) {
+      if (!(importType === 'comprehensive_add' && sheet === 'Managers') && importType !== 'comprehensive_merge') {
+        errors.push(`${sheet}: choose a sheet from the file`);
+      }
+      return;
+    }
+    const missing = IMPORT_SHEET_FIELDS[sheet]
+      .filter(field => isRequiredField(field, importType) && !sheetMapping.columns[field.key])
+      .map(field => field.label);
+    if (missing.length > 0) {
+      errors.push(`${sheet}: map ${missing.join(', ')}`);
+    }
+  });
+  return errors;
+}
+
+/**
+ * Rebuild the file in template shape. Sheets the mapping doesn't cover (e.g.
+ * Chat_Messages) are copied across untouched.
+ */
+export function applyColumnMapping(wb: XLSX.WorkBook, mapping: ColumnMapping, importType: MappingImportType): XLSX.WorkBook {
+  const out = XLSX.utils.book_new();
+  const sheets = getImportSheets(importType);
+
+  sheets.forEach(sheet => {
+    const sheetMapping = mapping[sheet];
+    // An empty sheet would tell a merge that deletes missing records to delete them all
+    if (importType === 'comprehensive_merge' && !sheetMapping?.source_sheet) return;
+    const fields = IMPORT_SHEET_FIELDS[sheet].filter(field => sheetMapping?.columns[field.key]);
+    const header = (sheetMapping ? fields : IMPORT_SHEET_FIELDS[sheet].filter(field => field.required)).map(field => field.key);
+
+    const rows = getSheetRows(wb, sheetMapping?.source_sheet ?? null).map(row => fields.map(field => {
+      const value = row[sheetMapping!.columns[field.key]!];
+      if (value === null || value === undefined) return null;
+      const mapped = sheetMapping!.values[field.key]?.[String(value)];
+      return mapped !== undefined ? mapped : value;
+    }));
+
+    XLSX.utils.book_append_sheet(out, XLSX.utils.aoa_to_sheet([header, ...rows]), sheet);
+  });
+
+  if (importType !== 'sellers' && importType !== 'accounts') {
+    const used = new Set(sheets.map(sheet => mapping[sheet]?.source_sheet).filter(Boolean));
+    wb.SheetNames
+      .filter(name => !used.has(name) && out.SheetNames.indexOf(name) === -1)
+      .forEach(name => XLSX.utils.book_append_sheet(out, wb.Sheets[name], name));
+  }
+
+  return out;
+}
+
+/**
+ * Workbook as an .xlsx File, so the mapped data goes through the normal import
+ */
+export function workbookToFile(wb: XLSX.WorkBook, fileName: string): File {
+  const data = XLSX.write(wb, { bookType: 'xlsx', type: 'array' });
+  const name = fileName.replace(/\.[^.]+$/, '') + '.xlsx';
+  return new File([data], name, {
+    type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  });
+}
+
+// ========== Saved mapping profiles ==========
+
+export async function getMappingProfiles(importType?: MappingImportType): Promise<MappingProfile[]> {
+  try {
+    let query = (supabase as any)
+      .from('import_mapping_profiles')
+      .select('*')
+      .order('name');
+
+    if (importType) {
+      query = query.eq('import_type', importType);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return (data || []) as MappingProfile[];
+  } catch (error) {
+    throw error;
+  }
+}
+
+/**
+ * Save a mapping under a name, replacing a profile with the same name
+ */
+export async function saveMappingProfile(name: string, importType: MappingImportType, mapping: ColumnMapping, userId?: string): Promise<MappingProfile> {
+  try {
+    const { data, error } = await (supabase as any)
+      .from('import_mapping_profiles')
+      .upsert(
+        {
+          name: name.trim(),
+          import_type: importType,
+          mapping,
+          created_by: userId ?? null,
+          updated_at: new Date().toISOString(),
+        },
+        { onConflict: 'name,import_type' }
+      )
+      .select('*')
+      .single();
+
+    if (error) throw error;
+    return data as MappingProfile;
+  } catch (error) {
+    throw error;
+  }
+}
+
+export async function deleteMappingProfile(id: string): Promise<void> {
+  try {
+    const { error } = await (supabase as any)
+      .from('import_mapping_profiles')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+  } catch (error) {
+    throw error;
+  }
+}
@@ -0,0 +1,230 @@
+import * as XLSX from 'xlsx';
+
+/**
+ * Reading and writing import data in formats other than Excel.
+ * CSV, TSV and JSON Lines files hold one entity each; the file name says
+ * which (accounts.csv -> Accounts sheet). A zip of such files reads as one
+ * workbook, so everything downstream keeps working with named sheets.
+ */
+
+export type DataFileFormat = 'xlsx' | 'csv' | 'tsv' | 'jsonl';
+
+export const DATA_FILE_FORMATS: DataFileFormat[] = ['xlsx', 'csv', 'tsv', 'jsonl'];
+
+export const DATA_FILE_FORMAT_LABELS: Record<DataFileFormat, string> = {
+  xlsx: 'Excel (.xlsx)',
+  csv: 'CSV',
+  tsv: 'TSV',
+  jsonl: 'JSON Lines',
+};
+
+// For file inputs
+export const IMPORT_FILE_ACCEPT = '.xlsx,.xls,.csv,.tsv,.txt,.json,.jsonl,.ndjson,.zip';
+
+// Reference and help sheets that only make sense in a workbook
+const WORKBOOK_ONLY_SHEETS = ['Instructions', 'Country_Reference', 'State_Reference'];
+
+// Checked in order, so manager_team.csv doesn't land in Managers
+const SHEET_NAME_PATTERNS: Array<[string, string[]]> = [
+  ['Relationship_Map', ['relationshipmap', 'relmap']],
+  ['Manager_Team', ['managerteam', 'mgrteam']],
+  ['Original_Relationships', ['originalrelationships']],
+  ['Chat_Messages', ['chatmessages']],
+  ['Accounts', ['accounts']],
+  ['Sellers', ['sellers']],
+  ['Managers', ['managers']],
+];
+
+const extensionOf = (fileName: string) => {
+  const match = /\.([^./\\]+)$/.exec(fileName);
+  return match ? match[1].toLowerCase() : '';
+};
+
+const baseNameOf = (fileName: string) => fileName.replace(/^.*[\\/]/, '').replace(/\.[^.]+$/, '');
+
+/**
+ * Template sheet a per-entity file belongs to, e.g. "Manager Team 2026-10.csv"
+ * -> Manager_Team. Unrecognised names keep their own name.
+ */
+export function sheetNameForFile(fileName: string): string {
+  const baseName = baseNameOf(fileName);
+  const compact = baseName.toLowerCase().replace(/[^a-z]/g, '');
+  const match = SHEET_NAME_PATTERNS.find(([, patterns]) => patterns.some(pattern => compact.indexOf(pattern) !== -1));
+  // Excel caps sheet names at 31 characters
+  return match ? match[0] : baseName.slice(0, 31) || 'Sheet1';
+}
+
+// A double holds 15 significant decimal digits exactly
+const MAX_EXACT_DIGITS = 15;
+
+// Text files carry no types: numbers and booleans are recovered, while values
+// like "00123", "01/15/22" or IDs too long for a number stay as written
+function parseTextValue(value: string): string | number | boolean | null {
+  const trimmed = value.trim();
+  if (trimmed === '') return null;
+  if (/^-?(0|[1-9]\d*)(\.\d+)?$/.test(trimmed)) {
+    const [whole, fraction = ''] = trimmed.replace(/^-/, '').split('.');
+    const significant = (whole + fraction.replace(/0+$/, '')).replace(/^0+/, '');
+    return significant.length > MAX_EXACT_DIGITS ? value : Number(trimmed);
+  }
+  if (/^true$/i.test(trimmed)) return true;
+  if (/^false$/i.test(trimmed)) return false;
+  return value;
+}
+
+function parseDelimited(text: string, delimiter: ',' | '\t'): XLSX.WorkSheet {
+  const parsed = XLSX.read(text, { type: 'string', raw: true, FS: delimiter } as XLSX.ParsingOptions);
+  const rows = XLSX.utils.sheet_to_json<any[]>(parsed.Sheets[parsed.SheetNames[0]], { header: 1, raw: true, defval: null, blankrows: false });
+  const [header = [], ...body] = rows;
+  return XLSX.utils.aoa_to_sheet([
+    header,
+    ...body.map(row => row.map(cell => cell === null ? null : parseTextValue(String(cell)))),
+  ]);
+}
+
+function parseJson(text: string, fileName: string): XLSX.WorkSheet {
+  const trimmed = text.trim();
+  let records: any[];
+
+  // A .json file may hold one array; anything else is read line by line
+  if (trimmed.charAt(0) === '[') {
+    records = JSON.parse(trimmed);
+  } else {
+    records = trimmed.split(/\r?\n/).filter(line => line.trim() !== '').map((line, index) => {
+      try {
+        return JSON.parse(line);
+      } catch (error) {
+        throw new Error(`${fileName} line ${index + 1} is not valid JSON`);
+      }
+    });
+  }
+
+  const rows = records.map((record, index) => {
+    if (!record || typeof record !== 'object' || Array.isArray(record)) {
+      throw new Error(`${fileName} record ${index + 1} is not an object`);
+    }
+    const row: Record<string, any> = {};
+    Object.keys(record).forEach(key => {
+      const value = record[key];
+      row[key] = value !== null && typeof value === 'object' ? JSON.stringify(value) : value;
+    });
+    return row;
+  });
+
+  return XLSX.utils.json_to_sheet(rows);
+}
+
+function decodeText(data: Uint8Array): string {
+  // Strip the BOM Excel puts on UTF-8 CSVs
+  return new TextDecoder('utf-8').decode(data).replace(/^\uFEFF/, '');
+}
+
+function appendSheet(wb: XLSX.WorkBook, ws: XLSX.WorkSheet, name: string) {
+  if (wb.SheetNames.indexOf(name) !== -1) {
+    throw new Error(`More than one file maps to the ${name} sheet`);
+  }
+  XLSX.utils.book_append_sheet(wb, ws, name);
+}
+
+function addFileToWorkbook(wb: XLSX.WorkBook, fileName: string, data: Uint8Array) {
+  switch (extensionOf(fileName)) {
+    case 'xlsx':
+    case 'xls': {
+      const book = XLSX.read(data, { type: 'array' });
+      book.SheetNames.forEach(name => appendSheet(wb, book.Sheets[name], name));
+      break;
+    }
+    case 'csv':
+    case 'txt':
+      appendSheet(wb, parseDelimited(decodeText(data), ','), sheetNameForFile(fileName));
+      break;
+    case 'tsv':
+      appendSheet(wb, parseDelimited(decodeText(data), '\t'), sheetNameForFile(fileName));
+      break;
+    case 'json':
+    case 'jsonl':
+    case 'ndjson':
+      appendSheet(wb, parseJson(decodeText(data), fileName), sheetNameForFile(fileName));
+      break;
+    default:
+      throw new Error(`Unsupported file type: ${fileName}`);
+  }
+}
+
+/**
+ * Parse an uploaded file of any supported format into a workbook
+ */
+export function parseDataFile(fileName: string, data: ArrayBuffer): XLSX.WorkBook {
+  const bytes = new Uint8Array(data);
+  const wb = XLSX.utils.book_new();
+
+  if (extensionOf(fileName) !== 'zip') {
+    addFileToWorkbook(wb, fileName, bytes);
+    return wb;
+  }
+
+  const zip = XLSX.CFB.read(bytes, { type: 'array' });
+  zip.FileIndex.forEach((entry: any, index: number) => {
+    const path: string = zip.FullPaths[index];
+    // Skip folders, macOS metadata and the library's own placeholder entry
+    if (entry.type !== 2 || !entry.content || /(^|\/)(__MACOSX|\.)|\u0001/.test(path)) return;
+    addFileToWorkbook(wb, entry.name, new Uint8Array(entry.content));
+  });
+
+  if (wb.SheetNames.length === 0) {
+    throw new Error(`${fileName} has no CSV, TSV, JSON or Excel files in it`);
+  }
+  return wb;
+}
+
+function sheetToText(ws: XLSX.WorkSheet, format: Exclude<DataFileFormat, 'xlsx'>): string {
+  if (format === 'jsonl') {
+    return XLSX.utils.sheet_to_json(ws, { defval: null, raw: true })
+      .map(row => JSON.stringify(row))
+      .join('\n') + '\n';
+  }
+  return XLSX.utils.sheet_to_csv(ws, { FS: format === 'tsv' ? '\t' : ',', blankrows: false });
+}
+
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = window.URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  window.URL.revokeObjectURL(url);
+}
+
+/**
+ * Download a workbook in the chosen format and return the file name.
+ * Text formats hold one sheet per file, so workbooks with several data
+ * sheets download as a zip of them.
+ */
+export function downloadWorkbook(wb: XLSX.WorkBook, baseName: string, format: DataFileFormat = 'xlsx'): string {
+  if (format === 'xlsx') {
+    const excelBuffer = XLSX.write(wb, { bookType: 'xlsx', type: 'array' });
+    const fileName = `${baseName}.xlsx`;
+    downloadBlob(new Blob([excelBuffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' }), fileName);
+    return fileName;
+  }
+
+  const encoder = new TextEncoder();
+  const sheets = wb.SheetNames.filter(name => WORKBOOK_ONLY_SHEETS.indexOf(name) === -1);
+  const mimeType = format === 'jsonl' ? 'application/x-ndjson' : format === 'tsv' ? 'text/tab-separated-values' : 'text/csv';
+
+  if (sheets.length === 1) {
+    const fileName = `${baseName}.${format}`;
+    downloadBlob(new Blob([sheetToText(wb.Sheets[sheets[0]], format)], { type: `${mimeType};charset=utf-8` }), fileName);
+    return fileName;
+  }
+
+  const zip = XLSX.CFB.utils.cfb_new();
+  sheets.forEach(name => {
+    XLSX.CFB.utils.cfb_add(zip, `${name}.${format}`, encoder.encode(sheetToText(wb.Sheets[name], format)));
+  });
+  const fileName = `${baseName}_${format}.zip`;
+  downloadBlob(new Blob([XLSX.CFB.write(zip, { fileType: 'zip', type: 'array' })], { type: 'application/zip' }), fileName);
+  return fileName;
+}
@@ -0,0 +1,347 @@
+import { supabase } from '@/integrations/supabase/client';
+import { distanceKm, formatDistance, hasCoordinates } from '@/lib/geo';
+import { BOOK_STATUSES } from '@/lib/seller-health';
+
+/**
+ * Account fit model
+ * Blends named factors into fit_percentage and explains the result. The
+ * get_all_accounts_with_assignment_status RPC implements the same formula so
+ * server-side sorting agrees with what the UI shows - keep the two in sync.
+ */
+
+export type FitFactorKey = 'industry' | 'size' | 'division' | 'revenue' | 'geography';
+
+export interface FitScoreSettings {
+  industry_weight: number;
+  size_weight: number;
+  division_weight: number;
+  revenue_weight: number;
+  distance_weight: number;
+  // Accounts this far (or further) from the seller score zero on geography
+  max_distance_km: number;
+}
+
+export type FitWeightKey = Exclude<keyof FitScoreSettings, 'max_distance_km'>;
+
+export interface FitFactor {
+  key: FitFactorKey;
+  label: string;
+  weightKey: FitWeightKey;
+  description: string;
+}
+
+export const FIT_FACTORS: FitFactor[] = [
+  { key: 'industry', label: 'Industry', weightKey: 'industry_weight', description: "Account industry matches the seller's specialty" },
+  { key: 'size', label: 'Size', weightKey: 'size_weight', description: 'Account size matches the seller (midmarket/enterprise)' },
+  { key: 'division', label: 'Division', weightKey: 'division_weight', description: "Account division matches the seller's division" },
+  { key: 'revenue', label: 'Revenue fit', weightKey: 'revenue_weight', description: "Account revenue fits within the seller's remaining revenue headroom" },
+  { key: 'geography', label: 'Geography', weightKey: 'distance_weight', description: "Closer to the seller's home location scores higher" },
+];
+
+export const FIT_WEIGHT_KEYS: FitWeightKey[] = FIT_FACTORS.map(factor => factor.weightKey);
+
+export const DEFAULT_FIT_SCORE_SETTINGS: FitScoreSettings = {
+  industry_weight: 25,
+  size_weight: 25,
+  division_weight: 30,
+  revenue_weight: 15,
+  distance_weight: 20,
+  max_distance_km: 1500,
+};
+
+// Score used when a factor can't be evaluated (missing data) - neither rewarded nor punished
+const NEUTRAL_SCORE = 0.5;
+
+export interface FitSeller {
+  division: string | null;
+  size: string | null;
+  industry_specialty: string | null;
+  lat?: number | null;
+  lng?: number | null;
+  book_revenue: number;
+  // Upper revenue threshold for the seller's size/seniority, null if not configured
+  max_revenue: number | null;
+}
+
+export interface FitAccount {
+  industry: string | null;
+  size: string | null;
+  current_division: string | null;
+  total_revenue: number;
+  lat?: number | null;
+  lng?: number | null;
+  // Already counted in the seller's book revenue
+  in_book?: boolean;
+}
+
+export interface FitContext {
+  sellerId: string;
+  seller: FitSeller;
+  settings: FitScoreSettings;
+}
+
+export interface FitFactorResult {
+  key: FitFactorKey;
+  label: string;
+  // 0..1
+  score: number;
+  weight: number;
+  // Percentage points this factor adds to the final score
+  points: number;
+  // Points available if the factor scored 1
+  maxPoints: number;
+  detail: string;
+}
+
+export interface FitBreakdown {
+  percentage: number;
+  factors: FitFactorResult[];
+}
+
+const formatRevenue = (amount: number) => {
+  return amount >= 1_000_000
+    ? `$${(amount / 1_000_000).toFixed(1)}M`
+    : amount >= 1_000
+    ? `$${(amount / 1_000).toFixed(0)}K`
+    : `$${amount.toFixed(0)}`;
+};
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+function scoreFactor(key: FitFactorKey, account: FitAccount, seller: FitSeller, settings: FitScoreSettings): { score: number; detail: string } {
+  switch (key) {
+    case 'industry': {
+      const specialty = seller.industry_specialty && seller.industry_specialty !== '-' ? seller.industry_specialty : null;
+      if (!account.industry || !specialty) {
+        return { score: 0, detail: !account.industry ? 'Account has no industry' : 'Seller has no industry specialty' };
+      }
+      const matches = specialty.toLowerCase().includes(account.industry.toLowerCase());
+      return {
+        score: matches ? 1 : 0,
+        detail: matches
+          ? `${account.industry} matches specialty (${specialty})`
+          : `${account.industry} is outside specialty (${specialty})`,
+      };
+    }
+    case 'size': {
+      const matches = !!account.size && account.size === seller.size;
+      return {
+        score: matches ? 1 : 0,
+        detail: matches
+          ? `${capitalize(account.size!)} account for a ${seller.size} seller`
+          : `${account.size ? capitalize(account.size) : 'Unknown size'} account for a ${seller.size || 'unknown size'} seller`,
+      };
+    }
+    case 'division': {
+      const matches = !!account.current_division && account.current_division === seller.division;
+      return {
+        score: matches ? 1 : 0,
+        detail: matches
+          ? `${account.current_division} matches seller division`
+          : `${account.current_division || 'No division'} vs seller's ${seller.division || 'unknown'} division`,
+      };
+    }
+    case 'revenue': {
+      if (seller.max_revenue === null) {
+        return { score: NEUTRAL_SCORE, detail: 'No revenue range configured for this seller type' };
+      }
+      // Accounts already in the book are counted in book_revenue, so give their share back
+      const headroom = seller.max_revenue - seller.book_revenue + (account.in_book ? account.total_revenue : 0);
+      if (headroom <= 0) {
+        return { score: 0, detail: `Seller is ${formatRevenue(-headroom)} over their ${formatRevenue(seller.max_revenue)} maximum` };
+      }
+      if (account.total_revenue <= headroom) {
+        return { score: 1, detail: `${formatRevenue(account.total_revenue)} fits within ${formatRevenue(headroom)} headroom` };
+      }
+      return {
+        score: headroom / account.total_revenue,
+        detail: `${formatRevenue(account.total_revenue)} exceeds ${formatRevenue(headroom)} headroom`,
+      };
+    }
+    case 'geography': {
+      if (!hasCoordinates(account) || !hasCoordinates(seller)) {
+        return { score: NEUTRAL_SCORE, detail: !hasCoordinates(seller) ? 'Seller has no location' : 'Account has no location' };
+      }
+      const distance = distanceKm(seller.lat, seller.lng, account.lat, account.lng);
+      return {
+        score: Math.max(0, 1 - distance / settings.max_distance_km),
+        detail: `${formatDistance(distance)} from seller (zero at ${formatDistance(settings.max_distance_km)})`,
+      };
+    }
+    default:
+      return { score: 0, detail: '' };
+  }
+}
+
+/**
+ * Score an account for a seller and explain each factor's contribution
+ */
+export function scoreAccountFit(account: FitAccount, context: FitContext): FitBreakdown {
+  const { seller, settings } = context;
+  const totalWeight = FIT_WEIGHT_KEYS.reduce((sum, key) => sum + settings[key], 0);
+
+  const factors = FIT_FACTORS.map(factor => {
+    const weight = settings[factor.weightKey];
+    const maxPoints = totalWeight > 0 ? (100 * weight) / totalWeight : 0;
+    const { score, detail } = scoreFactor(factor.key, account, seller, settings);
+    return {
+      key: factor.key,
+      label: factor.label,
+      score,
+      weight,
+      points: maxPoints * score,
+      maxPoints,
+      detail,
+    };
+  });
+
+  return {
+    percentage: Math.round(factors.reduce((sum, factor) => sum + factor.points, 0)),
+    factors,
+  };
+}
+
+function isBookStatus(status: string | null | undefined): boolean {
+  return !!status && BOOK_STATUSES.includes(status);
+}
+
+/**
+ * Adapt a seller page account (column card or exploration row) to the fit model
+ */
+export function toFitAccount(account: {
+  industry: string | null;
+  size: string | null;
+  current_division: string | null;
+  total_revenue: number;
+  lat?: number | null;
+  lng?: number | null;
+  status?: string;
+  assignment_status?: string;
+  assigned_seller_id?: string;
+}, sellerId: string): FitAccount {
+  // Exploration rows say who holds the account; column cards are always this seller's
+  const inBook = account.assigned_seller_id !== undefined
+    ? account.assigned_seller_id === sellerId && isBookStatus(account.assignment_status)
+    : isBookStatus(account.status);
+
+  return {
+    industry: account.industry,
+    size: account.size,
+    current_division: account.current_division,
+    total_revenue: account.total_revenue || 0,
+    lat: account.lat,
+    lng: account.lng,
+    in_book: inBook,
+  };
+}
+
+export async function getFitScoreSettings(): Promise<FitScoreSettings> {
+  try {
+    const { data, error } = await (supabase as any)
+      .from('fit_score_settings')
+      .select('industry_weight, size_weight, division_weight, revenue_weight, distance_weight, max_distance_km')
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) return { ...DEFAULT_FIT_SCORE_SETTINGS };
+
+    return {
+      industry_weight: Number(data.industry_weight),
+      size_weight: Number(data.size_weight),
+      division_weight: Number(data.division_weight),
+      revenue_weight: Number(data.revenue_weight),
+      distance_weight: Number(data.distance_weight),
+      max_distance_km: Number(data.max_distance_km),
+    };
+  } catch (error) {
+    throw error;
+  }
+}
+
+/**
+ * Everything scoreAccountFit needs to know about a seller
+ */
+export async function getFitContext(sellerId: string): Promise<FitContext> {
+  try {
+    const [settings, sellerResult, revenueResult] = await Promise.all([
+      getFitScoreSettings(),
+      supabase
+        .from('sellers')
+        .select('division, size, seniority_type, industry_specialty, lat, lng')
+        .eq('id', sellerId)
+        .single(),
+      supabase
+        .from('seller_revenue_view')
+        .select('seller_total_revenue')
+        .eq('seller_id', sellerId)
+        .maybeSingle(),
+    ]);
+
+    if (sellerResult.error) throw sellerResult.error;
+    const seller = sellerResult.data;
+
+    let maxRevenue: number | null = null;
+    if (seller.size && seller.seniority_type) {
+      const { data: range, error: rangeError } = await supabase
+        .from('revenue_range_settings')
+        .select('max_revenue')
+        .eq('size_type', seller.size)
+        .eq('seniority_type', seller.seniority_type)
+        .maybeSingle();
+      if (rangeError) throw rangeError;
+      maxRevenue = range ? Number(range.max_revenue) : null;
+    }
+
+    return {
+      sellerId,
+      settings,
+      seller: {
+        division: seller.division,
+        size: seller.size,
+        industry_specialty: seller.industry_specialty,
+        lat: seller.lat,
+        lng: seller.lng,
+        book_revenue: Number(revenueResult.data?.seller_total_revenue || 0),
+        max_revenue: maxRevenue,
+      },
+    };
+  } catch (error) {
+    throw error;
+  }
+}
+
+/**
+ * Validation message for a settings draft, null when it can be saved
+ */
+export function validateFitScoreSettings(settings: FitScoreSettings): string | null {
+  if (FIT_WEIGHT_KEYS.some(key => !Number.isFinite(settings[key]) || settings[key] < 0)) {
+    return 'Weights must be zero or greater';
+  }
+  if (FIT_WEIGHT_KEYS.reduce((sum, key) => sum + settings[key], 0) <= 0) {
+    return 'At least one weight must be greater than zero';
+  }
+  if (!Number.isFinite(settings.max_distance_km) || settings.max_distance_km <= 0) {
+    return 'Maximum distance must be greater than zero';
+  }
+  return null;
+}
+
+export async function updateFitScoreSettings(settings: FitScoreSettings, updatedBy: string): Promise<void> {
+  try {
+    const validationError = validateFitScoreSettings(settings);
+    if (validationError) throw new Error(validationError);
+
+    const { error } = await (supabase as any)
+      .from('fit_score_settings')
+      .update({
+        ...settings,
+        updated_by: updatedBy,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', true);
+
+    if (error) throw error;
+  } catch (error) {
+    throw error;
+  }
+}
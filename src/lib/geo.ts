@@ -0,0 +1,108 @@
+/**
+ * Geographic helpers for accounts and sellers (lat/lng in degrees)
+ */
+
+export interface GeoPoint {
+  lat?: number | null;
+  lng?: number | null;
+}
+
+export interface GeoCluster<T> {
+  lat: number;
+  lng: number;
+  items: T[];
+}
+
+const EARTH_RADIUS_KM = 6371;
+
+export function hasCoordinates(point: GeoPoint): point is { lat: number; lng: number } {
+  return typeof point.lat === 'number' && typeof point.lng === 'number' &&
+    !Number.isNaN(point.lat) && !Number.isNaN(point.lng);
+}
+
+/**
+ * Great-circle distance in kilometres (haversine)
+ */
+export function distanceKm(lat1: number, lng1: number, lat2: number, lng2: number): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(lat2 - lat1);
+  const dLng = toRad(lng2 - lng1);
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLng / 2) ** 2;
+  return EARTH_RADIUS_KM * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+/**
+ * Distance between two points, null if either has no coordinates
+ */
+export function distanceBetween(a: GeoPoint, b: GeoPoint): number | null {
+  if (!hasCoordinates(a) || !hasCoordinates(b)) return null;
+  return distanceKm(a.lat, a.lng, b.lat, b.lng);
+}
+
+/**
+ * Points within radiusKm of center. Points without coordinates are dropped.
+ */
+export function filterWithinRadius<T extends GeoPoint>(points: T[], center: GeoPoint, radiusKm: number): T[] {
+  if (!hasCoordinates(center)) return points.filter(hasCoordinates);
+  return points.filter(point => {
+    const distance = distanceBetween(point, center);
+    return distance !== null && distance <= radiusKm;
+  });
+}
+
+/**
+ * Greedy distance clustering: each point joins the first cluster whose
+ * centre is within thresholdKm, otherwise it starts a new one. Pass points
+ * in priority order (e.g. revenue descending) so big accounts anchor clusters.
+ */
+export function clusterByDistance<T extends GeoPoint>(points: T[], thresholdKm: number): GeoCluster<T>[] {
+  const clusters: GeoCluster<T>[] = [];
+
+  points.forEach(point => {
+    if (!hasCoordinates(point)) return;
+
+    const cluster = thresholdKm > 0
+      ? clusters.find(c => distanceKm(c.lat, c.lng, point.lat, point.lng) <= thresholdKm)
+      : undefined;
+
+    if (cluster) {
+      const count = cluster.items.length;
+      cluster.lat = (cluster.lat * count + point.lat) / (count + 1);
+      cluster.lng = (cluster.lng * count + point.lng) / (count + 1);
+      cluster.items.push(point);
+    } else {
+      clusters.push({ lat: point.lat, lng: point.lng, items: [point] });
+    }
+  });
+
+  return clusters;
+}
+
+export interface TravelBurden {
+  averageKm: number;
+  maxKm: number;
+  // Accounts that could be measured (both ends have coordinates)
+  measuredCount: number;
+}
+
+/**
+ * Average and maximum distance from a seller's home to the accounts in their
+ * book. Null when the seller or none of the accounts have coordinates.
+ */
+export function getTravelBurden(home: GeoPoint, accounts: GeoPoint[]): TravelBurden | null {
+  const distances = accounts
+    .map(account => distanceBetween(home, account))
+    .filter((distance): distance is number => distance !== null);
+
+  if (distances.length === 0) return null;
+
+  return {
+    averageKm: distances.reduce((sum, distance) => sum + distance, 0) / distances.length,
+    maxKm: Math.max(...distances),
+    measuredCount: distances.length,
+  };
+}
+
+export function formatDistance(km: number): string {
+  return km >= 100 ? `${Math.round(km).toLocaleString()} km` : `${km.toFixed(1)} km`;
+}
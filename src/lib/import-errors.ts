@@ -0,0 +1,159 @@
+import * as XLSX from 'xlsx';
+import { downloadWorkbook } from '@/lib/file-formats';
+
+/**
+ * Row-level import problems and the annotated error report.
+ * The report is a copy of the uploaded workbook with a comment on every
+ * offending cell and an Errors sheet linking to them, so the admin can fix
+ * the file and upload it again. (The community xlsx build can't write cell
+ * fills, so comments mark the cells.)
+ */
+
+export type ImportIssueSeverity = 'error' | 'warning';
+
+export interface ImportRowIssue {
+  sheet: string;
+  // Spreadsheet row number (header is row 1), null for sheet-wide problems
+  row: number | null;
+  column: string | null;
+  value: any;
+  reason: string;
+  severity: ImportIssueSeverity;
+}
+
+const ERRORS_SHEET = 'Errors';
+const COMMENT_AUTHOR = 'Import';
+
+// Import result keys -> template sheets
+const RESULT_SHEETS: Record<string, string> = {
+  accounts: 'Accounts',
+  sellers: 'Sellers',
+  managers: 'Managers',
+  relationships: 'Relationship_Map',
+  managerTeams: 'Manager_Team',
+  chatMessages: 'Chat_Messages',
+};
+
+/**
+ * Spreadsheet row number of the index-th record sheet_to_json returned
+ */
+export function sheetRowNumber(ws: XLSX.WorkSheet | undefined, index: number): number {
+  const headerRow = ws?.['!ref'] ? XLSX.utils.decode_range(ws['!ref']).s.r : 0;
+  return headerRow + index + 2;
+}
+
+export function countIssues(issues: ImportRowIssue[], severity: ImportIssueSeverity): number {
+  return issues.filter(issue => issue.severity === severity).length;
+}
+
+/**
+ * Errors reported after an import ran (failed batches, rows the database
+ * refused) as sheet-wide issues
+ */
+export function issuesFromImportResults(results: Record<string, { errors?: any[] }> | null | undefined): ImportRowIssue[] {
+  if (!results) return [];
+  const issues: ImportRowIssue[] = [];
+  Object.keys(results).forEach(key => {
+    (results[key]?.errors || []).forEach(error => {
+      issues.push({
+        sheet: RESULT_SHEETS[key] ?? key,
+        row: null,
+        column: null,
+        value: null,
+        reason: typeof error === 'string' ? error : error?.error?.message ?? error?.message ?? JSON.stringify(error),
+        severity: 'error',
+      });
+    });
+  });
+  return issues;
+}
+
+function columnIndex(ws: XLSX.WorkSheet, column: string | null): number | null {
+  if (!column || !ws['!ref']) return null;
+  const range = XLSX.utils.decode_range(ws['!ref']);
+  for (let c = range.s.c; c <= range.e.c; c++) {
+    const cell = ws[XLSX.utils.encode_cell({ r: range.s.r, c })];
+    if (cell && String(cell.w ?? cell.v) === column) return c;
+  }
+  return null;
+}
+
+function issueAddress(ws: XLSX.WorkSheet | undefined, issue: ImportRowIssue): string | null {
+  if (!ws || issue.row === null) return null;
+  const range = ws['!ref'] ? XLSX.utils.decode_range(ws['!ref']) : null;
+  const c = columnIndex(ws, issue.column) ?? range?.s.c ?? 0;
+  return XLSX.utils.encode_cell({ r: issue.row - 1, c });
+}
+
+const describe = (issue: ImportRowIssue) => `${issue.severity === 'error' ? 'Error' : 'Warning'}: ${issue.reason}`;
+
+/**
+ * Copy of the workbook with issue comments on the offending cells and an
+ * Errors sheet listing every issue. The source workbook isn't modified.
+ */
+export function buildErrorReportWorkbook(source: XLSX.WorkBook, issues: ImportRowIssue[]): XLSX.WorkBook {
+  const report = XLSX.utils.book_new();
+  const sheets: Record<string, XLSX.WorkSheet> = {};
+  source.SheetNames.forEach(name => {
+    sheets[name] = { ...source.Sheets[name] };
+    XLSX.utils.book_append_sheet(report, sheets[name], name);
+  });
+
+  // One comment per cell, listing every issue on it
+  const notes = new Map<string, { sheet: string; address: string; lines: string[] }>();
+  issues.forEach(issue => {
+    const address = issueAddress(sheets[issue.sheet], issue);
+    if (!address) return;
+    const key = `${issue.sheet}!${address}`;
+    const note = notes.get(key) ?? { sheet: issue.sheet, address, lines: [] };
+    note.lines.push(describe(issue));
+    notes.set(key, note);
+  });
+
+  notes.forEach(({ sheet, address, lines }) => {
+    const ws = sheets[sheet];
+    // Blank cells get a stub so the value stays blank on re-upload
+    const cell: XLSX.CellObject = ws[address] ? { ...ws[address] } : { t: 'z' };
+    cell.c = [{ a: COMMENT_AUTHOR, t: lines.join('\n') }];
+    ws[address] = cell;
+  });
+
+  const errorsSheetName = report.SheetNames.indexOf(ERRORS_SHEET) === -1 ? ERRORS_SHEET : `Import_${ERRORS_SHEET}`;
+  const sorted = issues.slice().sort((a, b) =>
+    (a.severity === b.severity ? 0 : a.severity === 'error' ? -1 : 1) ||
+    a.sheet.localeCompare(b.sheet) ||
+    (a.row ?? 0) - (b.row ?? 0)
+  );
+  const errorsWs = XLSX.utils.aoa_to_sheet([
+    ['severity', 'sheet', 'row', 'column', 'value', 'reason'],
+    ...sorted.map(issue => [
+      issue.severity,
+      issue.sheet,
+      issue.row,
+      issue.column,
+      issue.value === null || issue.value === undefined ? null : String(issue.value),
+      issue.reason,
+    ]),
+  ]);
+
+  // Link each row number to its cell
+  sorted.forEach((issue, index) => {
+    const address = issueAddress(sheets[issue.sheet], issue);
+    const cell = errorsWs[XLSX.utils.encode_cell({ r: index + 1, c: 2 })];
+    if (address && cell) {
+      cell.l = { Target: `#'${issue.sheet.replace(/'/g, "''")}'!${address}`, Tooltip: 'Go to cell' };
+    }
+  });
+  errorsWs['!cols'] = [{ wch: 9 }, { wch: 18 }, { wch: 6 }, { wch: 20 }, { wch: 24 }, { wch: 80 }];
+  XLSX.utils.book_append_sheet(report, errorsWs, errorsSheetName);
+
+  return report;
+}
+
+/**
+ * Download the annotated report as <file>_errors.xlsx
+ */
+export function downloadErrorReport(source: XLSX.WorkBook, issues: ImportRowIssue[], fileName: string): string {
+  const baseName = fileName.replace(/\.[^.]+$/, '');
+  return downloadWorkbook(buildErrorReportWorkbook(source, issues), `${baseName}_errors`, 'xlsx');
+}
@@ -0,0 +1,236 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { ColumnMapping } from '@/lib/column-mapping';
+import { downloadBlob } from '@/lib/file-formats';
+import type { ImportDebugInfo } from '@/lib/importers';
+import type { MergeOptions } from '@/lib/import-merge';
+import type { ImportType } from '@/lib/import-workbook';
+import type { ConfirmedMatches } from '@/lib/name-matching';
+
+/**
+ * Imports run as background jobs on the server (src/lib/api/import-jobs.ts),
+ * so closing the tab doesn't stop them or leave the import lock behind. The
+ * settings page starts a job and follows its row; any browser signed in with
+ * import.run can pick up a running job. Finished jobs are the import history
+ * (/admin/imports).
+ */
+
+export type ImportJobType = ImportType;
+
+export type ImportJobState = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export const IMPORT_JOB_TYPES: ImportJobType[] = ['comprehensive', 'comprehensive_add', 'comprehensive_merge', 'sellers', 'accounts'];
+
+export const IMPORT_JOB_TYPE_LABELS: Record<ImportJobType, string> = {
+  comprehensive: 'Replace',
+  comprehensive_add: 'Add',
+  comprehensive_merge: 'Merge',
+  sellers: 'Sellers',
+  accounts: 'Accounts',
+};
+
+// Import result keys
+export const IMPORT_RESULT_LABELS: Record<string, string> = {
+  managers: 'Managers',
+  accounts: 'Accounts',
+  sellers: 'Sellers',
+  relationships: 'Relationships',
+  managerTeams: 'Manager Teams',
+  chatMessages: 'Chat Messages',
+};
+
+// Uploads of jobs that finished longer ago are removed from the bucket
+export const IMPORT_FILE_RETENTION_DAYS = 90;
+
+// Private storage bucket holding the upload of every import
+export const IMPORT_JOB_BUCKET = 'imports';
+
+export interface ImportJobLog {
+  at: string;
+  message: string;
+}
+
+export interface ImportJobStepTiming {
+  step: string;
+  started_at: string;
+  finished_at: string | null;
+  duration_ms: number | null;
+}
+
+export interface ImportJob {
+  id: string;
+  import_type: ImportJobType;
+  state: ImportJobState;
+  file_name: string;
+  file_size: number;
+  // SHA-256 of the upload, hex encoded
+  file_hash: string | null;
+  storage_path: string;
+  // Set once the upload was removed after IMPORT_FILE_RETENTION_DAYS
+  file_removed_at: string | null;
+  confirmed_matches: ConfirmedMatches;
+  // Applied on the server to the original upload; null for template-shaped files
+  column_mapping: ColumnMapping | null;
+  // Merge imports only
+  options: Partial<MergeOptions>;
+  current_step: string | null;
+  step_number: number;
+  total_steps: number;
+  logs: ImportJobLog[];
+  warnings: string[];
+  step_timings: ImportJobStepTiming[];
+  results: Record<string, { imported: number; updated?: number; deleted?: number; errors: any[] }> | null;
+  debug_info: ImportDebugInfo | null;
+  error: string | null;
+  cancel_requested: boolean;
+  created_by: string | null;
+  created_at: string;
+  started_at: string | null;
+  finished_at: string | null;
+  updated_at: string;
+}
+
+// A history entry with the user who started it
+export type ImportHistoryEntry = ImportJob & {
+  profiles: { name: string; email: string } | null;
+};
+
+export function isImportJobFinished(job: Pick<ImportJob, 'state'>): boolean {
+  return job.state === 'succeeded' || job.state === 'failed' || job.state === 'cancelled';
+}
+
+// Run time in milliseconds, up to now for a running job
+export function getImportJobDuration(job: Pick<ImportJob, 'started_at' | 'finished_at'>): number | null {
+  if (!job.started_at) return null;
+  const end = job.finished_at ? new Date(job.finished_at).getTime() : Date.now();
+  return end - new Date(job.started_at).getTime();
+}
+
+/**
+ * SHA-256 of a file, hex encoded - matches import_jobs.file_hash
+ */
+export async function hashImportFile(file: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+  return Array.from(new Uint8Array(digest)).map(b => ('0' + b.toString(16)).slice(-2)).join('');
+}
+
+async function readJobResponse(response: Response): Promise<ImportJob> {
+  const body = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(body?.error?.message || `Request failed with status ${response.status}`);
+  }
+  return body.data as ImportJob;
+}
+
+/**
+ * Upload a file and queue it for import. Files mapped in the column mapping
+ * wizard are uploaded as they are, with the mapping for the server to apply.
+ */
+export async function startImportJob(
+  file: File,
+  importType: ImportJobType,
+  confirmedMatches: ConfirmedMatches = {},
+  mergeOptions?: MergeOptions,
+  columnMapping?: ColumnMapping
+): Promise<ImportJob> {
+  try {
+    const form = new FormData();
+    form.append('file', file);
+    form.append('import_type', importType);
+    form.append('confirmed_matches', JSON.stringify(confirmedMatches));
+    if (mergeOptions) {
+      form.append('options', JSON.stringify(mergeOptions));
+    }
+    if (columnMapping) {
+      form.append('column_mapping', JSON.stringify(columnMapping));
+    }
+
+    const response = await fetch('/api/import-jobs', { method: 'POST', body: form });
+    return await readJobResponse(response);
+  } catch (error) {
+    throw error;
+  }
+}
+
+export async function cancelImportJob(jobId: string): Promise<ImportJob> {
+  try {
+    const response = await fetch(`/api/import-jobs/${jobId}/cancel`, { method: 'POST' });
+    return await readJobResponse(response);
+  } catch (error) {
+    throw error;
+  }
+}
+
+export async function getImportJob(jobId: string): Promise<ImportJob | null> {
+  try {
+    const { data, error } = await (supabase as any)
+      .from('import_jobs')
+      .select('*')
+      .eq('id', jobId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data as ImportJob | null;
+  } catch (error) {
+    throw error;
+  }
+}
+
+/**
+ * Every import, newest first
+ */
+export async function getImportHistory(options: {
+  limit?: number;
+  offset?: number;
+} = {}): Promise<{ data: ImportHistoryEntry[]; totalCount: number }> {
+  try {
+    const limit = options.limit ?? 20;
+    const offset = options.offset ?? 0;
+    const { data, error, count } = await (supabase as any)
+      .from('import_jobs')
+      .select('*, profiles:created_by (name, email)', { count: 'exact' })
+      .order('created_at', { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (error) throw error;
+    return { data: (data || []) as ImportHistoryEntry[], totalCount: count || 0 };
+  } catch (error) {
+    throw error;
+  }
+}
+
+/**
+ * Save the file a job imported
+ */
+export async function downloadImportJobFile(job: Pick<ImportJob, 'id' | 'file_name'>): Promise<void> {
+  try {
+    const response = await fetch(`/api/import-jobs/${job.id}/file`);
+    if (!response.ok) {
+      const body = await response.json().catch(() => null);
+      throw new Error(body?.error?.message || `Request failed with status ${response.status}`);
+    }
+
+    downloadBlob(await response.blob(), job.file_name);
+  } catch (error) {
+    throw error;
+  }
+}
+
+/**
+ * The running job, or the oldest queued one
+ */
+export async function getActiveImportJob(): Promise<ImportJob | null> {
+  try {
+    const { data, error } = await (supabase as any)
+      .from('import_jobs')
+      .select('*')
+      .in('state', ['queued', 'running'])
+      .order('state', { ascending: false })
+      .order('created_at', { ascending: true })
+      .limit(1);
+
+    if (error) throw error;
+    return (data?.[0] as ImportJob) ?? null;
+  } catch (error) {
+    throw error;
+  }
+}
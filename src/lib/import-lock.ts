@@ -0,0 +1,69 @@
+import { supabase } from '@/integrations/supabase/client';
+
+/**
+ * The import lock (import_status row 'current_import') is held by the
+ * running import, which sends a heartbeat with its progress. A lock without
+ * a heartbeat for IMPORT_LOCK_STALE_AFTER_MS is stale: its import stopped
+ * without releasing it, and the next import takes it over.
+ */
+
+export const IMPORT_LOCK_ID = 'current_import';
+
+// Matches is_import_lock_stale() in the database
+export const IMPORT_LOCK_STALE_AFTER_MS = 2 * 60 * 1000;
+
+// How often a running import sends a heartbeat
+export const IMPORT_LOCK_HEARTBEAT_MS = 15 * 1000;
+
+export interface ImportLock {
+  id: string;
+  is_importing: boolean;
+  started_at: string;
+  user_id: string | null;
+  updated_at: string;
+  heartbeat_at: string | null;
+  holder_name: string | null;
+  progress_message: string | null;
+  step_number: number | null;
+  total_steps: number | null;
+}
+
+export function isImportLockStale(lock: ImportLock, now: number = Date.now()): boolean {
+  const lastSeen = new Date(lock.heartbeat_at ?? lock.started_at).getTime();
+  return now - lastSeen > IMPORT_LOCK_STALE_AFTER_MS;
+}
+
+export async function getImportLock(): Promise<ImportLock | null> {
+  try {
+    const { data, error } = await (supabase as any)
+      .from('import_status')
+      .select('id, is_importing, started_at, user_id, updated_at, heartbeat_at, holder_name, progress_message, step_number, total_steps')
+      .eq('id', IMPORT_LOCK_ID)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data as ImportLock | null;
+  } catch (error) {
+    throw error;
+  }
+}
+
+/**
+ * Release the lock whoever holds it. The reason is written to the audit log.
+ */
+export async function forceReleaseImportLock(reason: string): Promise<ImportLock | null> {
+  try {
+    const response = await fetch('/api/import-lock/release', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ reason }),
+    });
+    const body = await response.json().catch(() => null);
+    if (!response.ok) {
+      throw new Error(body?.error?.message || `Request failed with status ${response.status}`);
+    }
+    return body.data as ImportLock | null;
+  } catch (error) {
+    throw error;
+  }
+}
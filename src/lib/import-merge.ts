@@ -0,0 +1,178 @@
+/**
+ * MERGE mode: each row in the file updates the record it matches (external
+ * ID first, then name) field by field, and unmatched rows are inserted.
+ * Every field follows a policy, so values people maintain in the app, like
+ * book_finalized or a relationship status changed since the last import, can
+ * be protected from the file. Records missing from the file are only deleted
+ * when the admin asks for it.
+ */
+
+export type MergeFieldPolicy = 'overwrite' | 'fill_empty' | 'keep' | 'keep_manual';
+
+export type MergeEntity = 'managers' | 'accounts' | 'sellers' | 'relationships' | 'manager_team';
+
+export type MergeFieldPolicies = Record<MergeEntity, Record<string, MergeFieldPolicy>>;
+
+export interface MergeOptions {
+  // Delete records of the sheets in the file that the file doesn't contain
+  deleteMissing: boolean;
+  policies: MergeFieldPolicies;
+}
+
+export const MERGE_ENTITIES: MergeEntity[] = ['managers', 'accounts', 'sellers', 'relationships', 'manager_team'];
+
+export const MERGE_ENTITY_LABELS: Record<MergeEntity, string> = {
+  managers: 'Managers',
+  accounts: 'Accounts',
+  sellers: 'Sellers',
+  relationships: 'Relationship Map',
+  manager_team: 'Manager Team',
+};
+
+// Template sheet each entity comes from
+export const MERGE_ENTITY_SHEETS: Record<MergeEntity, string> = {
+  managers: 'Managers',
+  accounts: 'Accounts',
+  sellers: 'Sellers',
+  relationships: 'Relationship_Map',
+  manager_team: 'Manager_Team',
+};
+
+export const MERGE_POLICY_LABELS: Record<MergeFieldPolicy, string> = {
+  overwrite: 'Overwrite',
+  fill_empty: 'Fill blanks only',
+  keep: 'Never overwrite',
+  keep_manual: 'Keep changes made in the app',
+};
+
+// Fields a merge can update. Names follow the file, and rows are keyed on them.
+export const MERGE_FIELDS: Record<MergeEntity, string[]> = {
+  managers: ['external_id', 'manager_email'],
+  accounts: [
+    'external_id', 'industry', 'size', 'tier', 'type', 'state', 'city', 'country', 'lat', 'lng', 'current_division',
+    'revenue_esg', 'revenue_gdt', 'revenue_gvc', 'revenue_msg_us',
+  ],
+  sellers: [
+    'external_id', 'division', 'size', 'industry_specialty', 'state', 'city', 'country', 'lat', 'lng',
+    'tenure_months', 'seniority_type', 'book_finalized',
+  ],
+  relationships: ['status'],
+  manager_team: ['is_primary'],
+};
+
+export const MERGE_FIELD_LABELS: Record<string, string> = {
+  external_id: 'External ID',
+  manager_email: 'Email',
+  industry: 'Industry',
+  size: 'Size',
+  tier: 'Tier',
+  type: 'Type',
+  state: 'State',
+  city: 'City',
+  country: 'Country',
+  lat: 'Latitude',
+  lng: 'Longitude',
+  current_division: 'Division',
+  division: 'Division',
+  revenue_esg: 'Revenue ESG',
+  revenue_gdt: 'Revenue GDT',
+  revenue_gvc: 'Revenue GVC',
+  revenue_msg_us: 'Revenue MSG US',
+  industry_specialty: 'Industry specialty',
+  tenure_months: 'Tenure',
+  seniority_type: 'Seniority',
+  book_finalized: 'Book finalized',
+  status: 'Status',
+  is_primary: 'Primary manager',
+};
+
+// Only relationship statuses record what the last import wrote (imported_status)
+export function mergePolicyOptions(entity: MergeEntity, field: string): MergeFieldPolicy[] {
+  if (entity === 'relationships' && field === 'status') {
+    return ['overwrite', 'keep_manual', 'keep'];
+  }
+  return ['overwrite', 'fill_empty', 'keep'];
+}
+
+export function createDefaultMergeOptions(): MergeOptions {
+  const policies = {} as MergeFieldPolicies;
+  MERGE_ENTITIES.forEach(entity => {
+    policies[entity] = {};
+    MERGE_FIELDS[entity].forEach(field => {
+      policies[entity][field] = 'overwrite';
+    });
+  });
+  // Finalized books are signed off in the app
+  policies.sellers.book_finalized = 'keep';
+  policies.relationships.status = 'keep_manual';
+  return { deleteMissing: false, policies };
+}
+
+function isBlank(value: any): boolean {
+  return value === null || value === undefined || (typeof value === 'string' && value.trim() === '');
+}
+
+function mergeValuesEqual(current: any, incoming: any): boolean {
+  if (isBlank(current) || isBlank(incoming)) return isBlank(current) && isBlank(incoming);
+  if (typeof current === 'number' || typeof incoming === 'number') return Number(current) === Number(incoming);
+  return String(current).trim() === String(incoming).trim();
+}
+
+/**
+ * Whether a file value replaces the current one under a policy. Blank cells
+ * never clear data. changedInApp marks values edited since the last import.
+ */
+export function shouldMergeField(policy: MergeFieldPolicy | undefined, current: any, incoming: any, changedInApp = false): boolean {
+  if (isBlank(incoming) || mergeValuesEqual(current, incoming)) return false;
+  switch (policy ?? 'overwrite') {
+    case 'keep':
+      return false;
+    case 'fill_empty':
+      return isBlank(current);
+    case 'keep_manual':
+      return !changedInApp;
+    default:
+      return true;
+  }
+}
+
+/**
+ * The fields of an existing record a file row changes, following the
+ * entity's policies. Fields outside MERGE_FIELDS (names) always follow the file.
+ */
+export function mergeChanges(
+  entity: MergeEntity,
+  current: Record<string, any>,
+  incoming: Record<string, any>,
+  policies: MergeFieldPolicies,
+  changedInApp = false
+): Record<string, any> {
+  const changes: Record<string, any> = {};
+  Object.keys(incoming).forEach(field => {
+    if (shouldMergeField(policies[entity]?.[field], current[field], incoming[field], changedInApp)) {
+      changes[field] = incoming[field];
+    }
+  });
+  return changes;
+}
+
+/**
+ * Merge options as stored on an import job, over the defaults. Unknown
+ * fields and policies a field doesn't offer are ignored.
+ */
+export function parseMergeOptions(value: unknown): MergeOptions {
+  const options = createDefaultMergeOptions();
+  if (!value || typeof value !== 'object') return options;
+
+  const raw = value as { deleteMissing?: unknown; policies?: Record<string, Record<string, unknown>> };
+  options.deleteMissing = raw.deleteMissing === true;
+  MERGE_ENTITIES.forEach(entity => {
+    MERGE_FIELDS[entity].forEach(field => {
+      const policy = raw.policies?.[entity]?.[field];
+      if ((mergePolicyOptions(entity, field) as unknown[]).indexOf(policy) !== -1) {
+        options.policies[entity][field] = policy as MergeFieldPolicy;
+      }
+    });
+  });
+  return options;
+}
@@ -0,0 +1,553 @@
+import * as XLSX from "xlsx";
+import { parseDataFile } from "@/lib/file-formats";
+import { sheetRowNumber, type ImportIssueSeverity, type ImportRowIssue } from "@/lib/import-errors";
+import { getLocationChanges, normalizeLocation } from "@/lib/locations";
+
+/**
+ * Reading, validating and preparing import files. Nothing here touches the
+ * database or the DOM, so it runs in the import Web Worker
+ * (import-workbook.worker.ts) as well as on the main thread.
+ */
+
+export type ImportType = 'comprehensive' | 'comprehensive_add' | 'comprehensive_merge' | 'sellers' | 'accounts';
+
+// An uploaded file read into rows, ready for the database import
+export interface PreparedImport {
+  fileName: string;
+  fileSize: number;
+  importType: ImportType;
+  workbook: XLSX.WorkBook;
+  sheetNames: string[];
+  // Rows of every sheet the import reads, keyed by sheet name
+  rows: Record<string, any[]>;
+  validation: ValidationResult;
+  issues: ImportRowIssue[];
+  // SHA-256 of the file, hex encoded. Set on the server, where a replace
+  // import resumes an interrupted import of the same content.
+  fileHash?: string;
+}
+
+// Messages between prepareImportFile and the worker
+export interface ImportWorkerRequest {
+  fileName: string;
+  fileSize: number;
+  data: ArrayBuffer;
+  importType: ImportType;
+}
+
+export type ImportWorkerMessage =
+  | { type: 'progress'; message: string }
+  | { type: 'done'; prepared: PreparedImport }
+  | { type: 'error'; message: string };
+
+export const IMPORT_CANCELLED_MESSAGE = "Import cancelled";
+
+// Sheets each import type reads
+const IMPORT_SHEETS: Record<ImportType, string[]> = {
+  comprehensive: ["Managers", "Accounts", "Sellers", "Relationship_Map", "Manager_Team", "Chat_Messages"],
+  comprehensive_add: ["Managers", "Accounts", "Sellers", "Relationship_Map", "Manager_Team"],
+  comprehensive_merge: ["Managers", "Accounts", "Sellers", "Relationship_Map", "Manager_Team"],
+  sellers: ["Sellers"],
+  accounts: ["Accounts"],
+};
+
+export function sheetToJson<T = any>(wb: XLSX.WorkBook, name?: string): T[] {
+  const sheetName = name ?? wb.SheetNames[0];
+  const ws = wb.Sheets[sheetName];
+  return XLSX.utils.sheet_to_json<T>(ws, { defval: null, raw: true });
+}
+
+// Status map for relationship_maps table (original is handled separately)
+export const statusMap: Record<string, string> = {
+  // Primary statuses (user-friendly names with spaces)
+  "must keep": "must_keep",
+  "for discussion": "for_discussion",
+  "to be peeled": "to_be_peeled",
+  
+  // Database enum values (underscore format)
+  "must_keep": "must_keep",
+  "for_discussion": "for_discussion",
+  "to_be_peeled": "to_be_peeled",
+};
+
+// Calculate tenure months from hire date
+export function calculateTenureMonths(hireDate: string | Date | number): number | null {
+  if (!hireDate) return null;
+  
+  try {
+    let hire: Date;
+    
+    // Handle different input types
+    if (typeof hireDate === 'string') {
+      // Handle mm/dd/yy format specifically
+      if (hireDate.includes('/')) {
+        const parts = hireDate.split('/');
+        if (parts.length === 3) {
+          const month = parseInt(parts[0], 10);
+          const day = parseInt(parts[1], 10);
+          let year = parseInt(parts[2], 10);
+          
+          // Convert 2-digit year to 4-digit year
+          if (year < 100) {
+            // Assume years 00-30 are 2000-2030, years 31-99 are 1931-1999
+            year += year <= 30 ? 2000 : 1900;
+          }
+          
+          hire = new Date(year, month - 1, day); // month is 0-indexed in Date constructor
+        } else {
+          hire = new Date(hireDate);
+        }
+      } else {
+        hire = new Date(hireDate);
+      }
+    } else if (typeof hireDate === 'number') {
+      // Handle Excel serial number dates (days since 1900-01-01)
+      // Excel serial numbers for dates are typically > 1 (1900-01-01 = 1)
+      if (hireDate > 1 && hireDate < 100000) {
+        // This looks like an Excel serial number
+        const excelEpoch = new Date(1900, 0, 1); // January 1, 1900
+        hire = new Date(excelEpoch.getTime() + (hireDate - 2) * 24 * 60 * 60 * 1000);
+      } else {
+        // Treat as timestamp
+        hire = new Date(hireDate);
+      }
+    } else if (hireDate instanceof Date) {
+      // Already a Date object
+      hire = hireDate;
+    } else {
+      // Fallback to Date constructor
+      hire = new Date(hireDate);
+    }
+    
+    const now = new Date();
+    
+    // Check if the date is valid
+    if (isNaN(hire.getTime())) return null;
+    
+    // Calculate the difference in months
+    const yearDiff = now.getFullYear() - hire.getFullYear();
+    const monthDiff = now.getMonth() - hire.getMonth();
+    const totalMonths = yearDiff * 12 + monthDiff;
+    
+    // Ensure non-negative result
+    return Math.max(0, totalMonths);
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * Stop between import steps once the admin cancelled
+ */
+export function throwIfCancelled(signal?: AbortSignal) {
+  if (signal?.aborted) {
+    throw new Error(IMPORT_CANCELLED_MESSAGE);
+  }
+}
+
+// ========== Template Validation ==========
+export interface ValidationResult {
+  isValid: boolean;
+  errors: string[];
+  warnings: string[];
+}
+
+// Country and state values normalizeLocation can't resolve; names and
+// aliases ("United States", "Calif.") are fine
+function findLocationDiscrepancies(data: any[][], headers: string[], prefix = ""): string[] {
+  const discrepancies: string[] = [];
+  const countryIndex = headers.indexOf("country");
+  const stateIndex = headers.indexOf("state");
+
+  for (let i = 1; i < data.length; i++) {
+    const row = data[i] || [];
+    const { issues } = normalizeLocation({
+      country: countryIndex === -1 ? null : row[countryIndex],
+      state: stateIndex === -1 ? null : row[stateIndex],
+    });
+    issues.forEach(issue => {
+      const label = issue.field === "country" ? "Country" : "State";
+      discrepancies.push(`${prefix}Row ${i + 1}: ${label} '${issue.value}' not recognised`);
+    });
+  }
+
+  return discrepancies;
+}
+
+// Validate individual sellers template
+export function validateSellersTemplate(wb: XLSX.WorkBook): ValidationResult {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  
+  if (!wb.SheetNames.includes("Sellers")) {
+    errors.push("Missing 'Sellers' sheet");
+    return { isValid: false, errors, warnings };
+  }
+  
+  const ws = wb.Sheets["Sellers"];
+  const data = XLSX.utils.sheet_to_json(ws, { header: 1 });
+  
+  if (data.length < 2) {
+    errors.push("Sellers sheet must have at least a header row and one data row");
+    return { isValid: false, errors, warnings };
+  }
+  
+  const headers = data[0] as string[];
+  const requiredColumns = ["seller_name", "division", "size"];
+  const missingColumns = requiredColumns.filter(col => !headers.includes(col));
+  
+  if (missingColumns.length > 0) {
+    errors.push(`Missing required columns: ${missingColumns.join(", ")}`);
+  }
+  
+  // Check for unexpected columns
+  const expectedColumns = ["seller_name", "seller_external_id", "division", "size", "industry_specialty", "state", "city", "country", "hire_date", "seniority_type"];
+  const unexpectedColumns = headers.filter(h => !expectedColumns.includes(h));
+  
+  if (unexpectedColumns.length > 0) {
+    warnings.push(`Unexpected columns found: ${unexpectedColumns.join(", ")}`);
+  }
+  
+  // Country and state values the location normalization can't resolve
+  warnings.push(...findLocationDiscrepancies(data as any[][], headers));
+  
+  return { isValid: errors.length === 0, errors, warnings };
+}
+
+// Validate individual accounts template
+export function validateAccountsTemplate(wb: XLSX.WorkBook): ValidationResult {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  
+  if (!wb.SheetNames.includes("Accounts")) {
+    errors.push("Missing 'Accounts' sheet");
+    return { isValid: false, errors, warnings };
+  }
+  
+  const ws = wb.Sheets["Accounts"];
+  const data = XLSX.utils.sheet_to_json(ws, { header: 1 });
+  
+  if (data.length < 2) {
+    errors.push("Accounts sheet must have at least a header row and one data row");
+    return { isValid: false, errors, warnings };
+  }
+  
+  const headers = data[0] as string[];
+  const requiredColumns = ["account_name", "size", "current_division"];
+  const missingColumns = requiredColumns.filter(col => !headers.includes(col));
+  
+  if (missingColumns.length > 0) {
+    errors.push(`Missing required columns: ${missingColumns.join(", ")}`);
+  }
+  
+  // Check for unexpected columns
+  const expectedColumns = ["account_name", "account_external_id", "industry", "size", "tier", "type", "state", "city", "country", "current_division", "revenue_ESG", "revenue_GDT", "revenue_GVC", "revenue_MSG_US"];
+  const unexpectedColumns = headers.filter(h => !expectedColumns.includes(h));
+  
+  if (unexpectedColumns.length > 0) {
+    warnings.push(`Unexpected columns found: ${unexpectedColumns.join(", ")}`);
+  }
+  
+  // Country and state values the location normalization can't resolve
+  warnings.push(...findLocationDiscrepancies(data as any[][], headers));
+  
+  return { isValid: errors.length === 0, errors, warnings };
+}
+
+// Validate comprehensive template
+export function validateComprehensiveTemplate(
+  wb: XLSX.WorkBook,
+  mode: 'comprehensive' | 'comprehensive_add' | 'comprehensive_merge' = 'comprehensive'
+): ValidationResult {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  
+  const requiredSheets = ["Accounts", "Sellers", "Managers", "Relationship_Map", "Manager_Team"];
+  const missingSheets = requiredSheets.filter(sheet => !wb.SheetNames.includes(sheet));
+  
+  // MERGE mode updates whichever sheets the file has
+  if (mode === 'comprehensive_merge') {
+    if (missingSheets.length === requiredSheets.length) {
+      errors.push(`File has none of the template sheets: ${requiredSheets.join(", ")}`);
+    }
+  } else if (missingSheets.length > 0) {
+    errors.push(`Missing required sheets: ${missingSheets.join(", ")}`);
+  }
+  
+  // Validate each sheet if it exists
+  for (const sheetName of requiredSheets) {
+    if (wb.SheetNames.includes(sheetName)) {
+      const ws = wb.Sheets[sheetName];
+      const data = XLSX.utils.sheet_to_json(ws, { header: 1 });
+      
+      // For ADD mode, Managers sheet can have only header row (no data rows) 
+      // since managers might already exist in the database
+      if (data.length < 2) {
+        if (mode === 'comprehensive_add' && sheetName === 'Managers') {
+          warnings.push(`${sheetName} sheet has only header row - this is allowed in ADD mode if managers already exist in the database`);
+        } else if (mode === 'comprehensive_merge') {
+          warnings.push(`${sheetName} sheet has only header row - nothing is merged from it`);
+        } else {
+          errors.push(`${sheetName} sheet must have at least a header row and one data row`);
+        }
+        continue;
+      }
+      
+      const headers = data[0] as string[];
+      
+      // Define required columns for each sheet
+      let requiredColumns: string[] = [];
+      switch (sheetName) {
+        case "Accounts":
+          requiredColumns = ["account_name", "size", "current_division"];
+          break;
+        case "Sellers":
+          requiredColumns = ["seller_name", "division", "size"];
+          break;
+        case "Managers":
+          requiredColumns = ["manager_name", "manager_email"];
+          break;
+        case "Relationship_Map":
+          requiredColumns = ["account_name", "seller_name"];
+          break;
+        case "Manager_Team":
+          requiredColumns = ["manager_name", "seller_name"];
+          // is_primary is optional - defaults to true if not provided
+          break;
+      }
+      
+      // MERGE mode only needs the name columns rows are matched on
+      if (mode === 'comprehensive_merge') {
+        requiredColumns = requiredColumns.filter(col => col.endsWith("_name"));
+      }
+      
+      const missingColumns = requiredColumns.filter(col => !headers.includes(col));
+      if (missingColumns.length > 0) {
+        errors.push(`${sheetName} sheet missing required columns: ${missingColumns.join(", ")}`);
+      }
+      
+      // Check for country and state discrepancies in Accounts and Sellers sheets
+      if ((sheetName === "Accounts" || sheetName === "Sellers") && (headers.includes("country") || headers.includes("state"))) {
+        warnings.push(...findLocationDiscrepancies(data as any[][], headers, `${sheetName} `));
+      }
+    }
+  }
+  
+  return { isValid: errors.length === 0, errors, warnings };
+}
+
+// ========== Row-level Issues ==========
+// Values the import size and division maps accept as they are
+const IMPORT_DIVISIONS = ["ESG", "GDT", "GVC", "MSG US", "MSG_US", "Mixed"];
+const IMPORT_SIZES = ["enterprise", "Enterprise", "ENTERPRISE", "midmarket", "Midmarket", "MIDMARKET", "no_data", "No data", "No Data", "NO_DATA", "-", "", "N/A", "Unknown"];
+const REVENUE_COLUMNS = ["revenue_ESG", "revenue_GDT", "revenue_GVC", "revenue_MSG_US"];
+
+const isBlank = (value: any) => value === null || value === undefined || String(value).trim() === "";
+
+/**
+ * Every row the import would reject or change, with its sheet, row number,
+ * column and value. Errors fail the import; warnings are rows that are
+ * skipped or imported with a value dropped.
+ */
+export function findImportRowIssues(wb: XLSX.WorkBook, importType: ImportType): ImportRowIssue[] {
+  const issues: ImportRowIssue[] = [];
+  // MERGE rows may leave fields blank to keep the current values
+  const merge = importType === 'comprehensive_merge';
+  const checkBlank = (value: any) => !(merge && isBlank(value));
+
+  const sheets = importType === 'sellers' ? ["Sellers"]
+    : importType === 'accounts' ? ["Accounts"]
+    : ["Accounts", "Sellers", "Managers", "Relationship_Map", "Manager_Team"];
+
+  sheets.forEach(sheet => {
+    const ws = wb.Sheets[sheet];
+    if (!ws) return;
+
+    const seenNames = new Map<string, number>();
+    sheetToJson<Record<string, any>>(wb, sheet).forEach((r, index) => {
+      const row = sheetRowNumber(ws, index);
+      const add = (severity: ImportIssueSeverity, column: string | null, reason: string) => {
+        issues.push({ sheet, row, column, value: column ? r[column] ?? null : null, reason, severity });
+      };
+      const requireName = (column: string) => {
+        if (isBlank(r[column])) {
+          add("warning", column, `No ${column}; the row is skipped`);
+          return false;
+        }
+        return true;
+      };
+      const checkDuplicate = (column: string) => {
+        const firstRow = seenNames.get(r[column]);
+        if (firstRow !== undefined) {
+          add("warning", column, `Duplicate of row ${firstRow}; only the first row is imported`);
+        } else {
+          seenNames.set(r[column], row);
+        }
+      };
+      // Values normalization can't resolve are imported as they are
+      const checkLocation = () => {
+        normalizeLocation(r).issues.forEach(issue => {
+          add("warning", issue.field, `${issue.reason}; no coordinates are set from it`);
+        });
+      };
+
+      switch (sheet) {
+        case "Accounts":
+          if (!requireName("account_name")) return;
+          checkDuplicate("account_name");
+          if (checkBlank(r.current_division) && !IMPORT_DIVISIONS.includes(r.current_division)) {
+            add("error", "current_division", `Invalid division. Use ESG, GDT, GVC, MSG_US or Mixed`);
+          }
+          if (checkBlank(r.size) && !IMPORT_SIZES.includes(r.size)) {
+            add("error", "size", `Invalid size. Use enterprise, midmarket or no_data`);
+          }
+          REVENUE_COLUMNS.forEach(column => {
+            if (!isBlank(r[column]) && isNaN(Number(r[column]))) {
+              add("error", column, "Revenue must be a number");
+            }
+          });
+          checkLocation();
+          break;
+
+        case "Sellers":
+          if (!requireName("seller_name")) return;
+          checkDuplicate("seller_name");
+          if (checkBlank(r.division) && !IMPORT_DIVISIONS.includes(r.division)) {
+            add("error", "division", `Invalid division. Use ESG, GDT, GVC, MSG_US or Mixed`);
+          }
+          if (checkBlank(r.size) && !IMPORT_SIZES.includes(r.size)) {
+            add("error", "size", `Invalid size. Use enterprise, midmarket or no_data`);
+          }
+          if (!isBlank(r.seniority_type) && !["junior", "senior"].includes(r.seniority_type)) {
+            add("warning", "seniority_type", "Seniority should be junior or senior");
+          }
+          if (!isBlank(r.hire_date) && calculateTenureMonths(r.hire_date) === null) {
+            add("warning", "hire_date", "Hire date could not be read (use MM/DD/YY); tenure is left blank");
+          }
+          checkLocation();
+          break;
+
+        case "Managers":
+          if (!requireName("manager_name")) return;
+          checkDuplicate("manager_name");
+          if (merge && isBlank(r.manager_email)) {
+            add("warning", "manager_email", "No manager_email; the manager is only merged if it already exists");
+          } else if (isBlank(r.manager_email) || !String(r.manager_email).includes("@")) {
+            add("error", "manager_email", "A valid manager_email is required to link the manager to a user");
+          }
+          break;
+
+        case "Relationship_Map": {
+          if (!requireName("account_name") || !requireName("seller_name")) return;
+          const status = isBlank(r.status) ? "" : String(r.status);
+          if (status && status.toLowerCase() !== "original" && !statusMap[status]) {
+            add("error", "status", "Invalid status. Use original, must_keep, for_discussion or to_be_peeled");
+          }
+          break;
+        }
+
+        case "Manager_Team":
+          if (!requireName("manager_name") || !requireName("seller_name")) return;
+          if (!isBlank(r.is_primary) && typeof r.is_primary !== "boolean") {
+            add("warning", "is_primary", "is_primary should be TRUE or FALSE");
+          }
+          break;
+      }
+    });
+  });
+
+  return issues;
+}
+
+// Validate a workbook against the template of its import type
+export function validateImportWorkbook(wb: XLSX.WorkBook, importType: ImportType): ValidationResult {
+  switch (importType) {
+    case 'sellers':
+      return validateSellersTemplate(wb);
+    case 'accounts':
+      return validateAccountsTemplate(wb);
+    case 'comprehensive':
+    case 'comprehensive_add':
+    case 'comprehensive_merge':
+      return validateComprehensiveTemplate(wb, importType);
+    default:
+      return { isValid: false, errors: ['Unknown import type'], warnings: [] };
+  }
+}
+
+// Sheets whose rows carry a city, state, country and coordinates
+const LOCATION_SHEETS = ["Accounts", "Sellers"];
+
+/**
+ * Rewrite rows with normalized locations (see getLocationChanges). Returns
+ * how many rows changed.
+ */
+export function normalizeLocationRows(rows: any[]): number {
+  let changed = 0;
+  rows.forEach(row => {
+    const changes = getLocationChanges(row);
+    if (Object.keys(changes).length > 0) {
+      Object.assign(row, changes);
+      changed++;
+    }
+  });
+  return changed;
+}
+
+/**
+ * Parse, validate and convert an uploaded file to rows. Rows are only
+ * prepared for files that pass validation.
+ */
+export function prepareImport(
+  fileName: string,
+  fileSize: number,
+  data: ArrayBuffer,
+  importType: ImportType,
+  onProgress?: (message: string) => void
+): PreparedImport {
+  onProgress?.(`📖 Reading ${fileName}...`);
+  return prepareImportWorkbook(fileName, fileSize, parseDataFile(fileName, data), importType, onProgress);
+}
+
+/**
+ * prepareImport for a workbook that is already parsed, e.g. one rebuilt by
+ * a column mapping
+ */
+export function prepareImportWorkbook(
+  fileName: string,
+  fileSize: number,
+  workbook: XLSX.WorkBook,
+  importType: ImportType,
+  onProgress?: (message: string) => void
+): PreparedImport {
+  onProgress?.(`📊 Available sheets: ${workbook.SheetNames.join(', ')}`);
+
+  onProgress?.(`🔎 Validating ${importType} template...`);
+  const validation = validateImportWorkbook(workbook, importType);
+  const issues = validation.isValid ? findImportRowIssues(workbook, importType) : [];
+
+  const rows: Record<string, any[]> = {};
+  if (validation.isValid) {
+    IMPORT_SHEETS[importType]
+      .filter(name => workbook.SheetNames.indexOf(name) !== -1)
+      .forEach(name => {
+        rows[name] = sheetToJson(workbook, name);
+        onProgress?.(`📋 ${name}: ${rows[name].length} rows`);
+        if (LOCATION_SHEETS.indexOf(name) !== -1) {
+          const normalized = normalizeLocationRows(rows[name]);
+          if (normalized > 0) onProgress?.(`📍 ${name}: normalized the location of ${normalized} rows`);
+        }
+      });
+  }
+
+  return {
+    fileName,
+    fileSize,
+    importType,
+    workbook,
+    sheetNames: workbook.SheetNames,
+    rows,
+    validation,
+    issues,
+  };
+}
@@ -0,0 +1,24 @@
+import { prepareImport, type ImportWorkerMessage, type ImportWorkerRequest } from "@/lib/import-workbook";
+
+/**
+ * Web Worker that parses and validates import files off the main thread.
+ * Started by prepareImportFile in src/lib/prepare-import.ts; cancelling
+ * terminates it.
+ */
+
+const worker = self as unknown as {
+  onmessage: ((event: MessageEvent<ImportWorkerRequest>) => void) | null;
+  postMessage(message: ImportWorkerMessage): void;
+};
+
+worker.onmessage = (event) => {
+  const { fileName, fileSize, data, importType } = event.data;
+  try {
+    const prepared = prepareImport(fileName, fileSize, data, importType, message => {
+      worker.postMessage({ type: 'progress', message });
+    });
+    worker.postMessage({ type: 'done', prepared });
+  } catch (error) {
+    worker.postMessage({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};
@@ -1,6 +1,61 @@
 import * as XLSX from "xlsx";
-import { supabase } from "@/integrations/supabase/client";
-import { logAuditEvent, createAuditLogData, AUDIT_ACTIONS, AUDIT_ENTITIES } from "@/lib/audit";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { supabase as browserClient } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { createAuditLogData, AUDIT_ACTIONS, AUDIT_ENTITIES, type AuditLogInsert } from "@/lib/audit";
+import { BOOK_STATUSES, evaluateSellerHealth, getAccountTotalRevenue, getHealthThresholds } from "@/lib/seller-health";
+import type { BookSnapshot } from "@/lib/book-snapshots";
+import { downloadWorkbook, type DataFileFormat } from "@/lib/file-formats";
+import { sheetRowNumber, type ImportRowIssue } from "@/lib/import-errors";
+import { calculateTenureMonths, normalizeLocationRows, sheetToJson, statusMap, throwIfCancelled, type PreparedImport } from "@/lib/import-workbook";
+import {
+  getAvailableCountryCodes,
+  getAvailableStateCodes,
+  getCountryCoordinates,
+  getCountryReferenceData,
+  getStateCoordinates,
+  getStateReferenceData,
+} from "@/lib/locations";
+import {
+  collectNearMisses,
+  createNameMatcher,
+  normalizeExternalId,
+  type ConfirmedMatches,
+  type MatchCandidate,
+  type NearMiss,
+} from "@/lib/name-matching";
+import {
+  createDefaultMergeOptions,
+  mergeChanges,
+  shouldMergeField,
+  type MergeEntity,
+  type MergeFieldPolicies,
+  type MergeOptions,
+} from "@/lib/import-merge";
+
+// ========== Import Client ==========
+// The signed-in browser session by default. Server import jobs swap in the
+// service-role client while they run (see src/lib/api/import-jobs.ts).
+let supabase: SupabaseClient<Database> = browserClient;
+// Job whose audit log entries are being written, for the import history
+let importJobId: string | null = null;
+
+export function setImportClient(client: SupabaseClient<Database> | null, jobId: string | null = null) {
+  supabase = client ?? browserClient;
+  importJobId = client ? jobId : null;
+}
+
+// Audit through the import client, so server-run imports are logged too
+async function logAuditEvent(auditData: AuditLogInsert) {
+  try {
+    const { error } = await (supabase as any)
+      .from("audit_logs")
+      .insert(importJobId ? { ...auditData, import_job_id: importJobId } : auditData);
+    if (error) throw error;
+  } catch (error) {
+    // Don't fail the import for audit issues
+  }
+}
 
 // ========== Progress Callback Interface ==========
 export interface ImportProgressCallback {
@@ -32,6 +87,8 @@ export interface ImportDebugInfo {
 
 // Global debug info for the current import
 let currentDebugInfo: ImportDebugInfo | null = null;
+// Kept after the import finishes, for takeImportDebugInfo
+let lastDebugInfo: ImportDebugInfo | null = null;
 
 // ========== Debugging Utilities ==========
 function createDebugInfo(): ImportDebugInfo {
@@ -129,6 +186,7 @@ function finalizeDebugInfo(): ImportDebugInfo | null {
     
     const debugInfo = currentDebugInfo;
     currentDebugInfo = null;
+    lastDebugInfo = debugInfo;
     return debugInfo;
   }
   return null;
@@ -139,266 +197,24 @@ export function getCurrentDebugInfo(): ImportDebugInfo | null {
   return currentDebugInfo;
 }
 
-// ========== Template Validation ==========
-export interface ValidationResult {
-  isValid: boolean;
-  errors: string[];
-  warnings: string[];
-}
-
-// Validate individual sellers template
-export function validateSellersTemplate(wb: XLSX.WorkBook): ValidationResult {
-  const errors: string[] = [];
-  const warnings: string[] = [];
-  
-  if (!wb.SheetNames.includes("Sellers")) {
-    errors.push("Missing 'Sellers' sheet");
-    return { isValid: false, errors, warnings };
-  }
-  
-  const ws = wb.Sheets["Sellers"];
-  const data = XLSX.utils.sheet_to_json(ws, { header: 1 });
-  
-  if (data.length < 2) {
-    errors.push("Sellers sheet must have at least a header row and one data row");
-    return { isValid: false, errors, warnings };
-  }
-  
-  const headers = data[0] as string[];
-  const requiredColumns = ["seller_name", "division", "size"];
-  const missingColumns = requiredColumns.filter(col => !headers.includes(col));
-  
-  if (missingColumns.length > 0) {
-    errors.push(`Missing required columns: ${missingColumns.join(", ")}`);
-  }
-  
-  // Check for unexpected columns
-  const expectedColumns = ["seller_name", "division", "size", "industry_specialty", "state", "city", "country", "hire_date", "seniority_type"];
-  const unexpectedColumns = headers.filter(h => !expectedColumns.includes(h));
-  
-  if (unexpectedColumns.length > 0) {
-    warnings.push(`Unexpected columns found: ${unexpectedColumns.join(", ")}`);
-  }
-  
-  // Validate country and state codes and check for discrepancies
-  const availableCountryCodes = getAvailableCountryCodes();
-  const availableStateCodes = getAvailableStateCodes();
-  const locationDiscrepancies: string[] = [];
-  
-  for (let i = 1; i < data.length; i++) {
-    const row = data[i] as any[];
-    const rowNum = i + 1;
-    
-    if (row[headers.indexOf("country")]) {
-      const country = row[headers.indexOf("country")].toString().trim();
-      if (country && country !== "N/A" && country !== "No data" && !availableCountryCodes.includes(country)) {
-        locationDiscrepancies.push(`Row ${rowNum}: Country '${country}' not found in mapping`);
-      }
-    }
-    
-    if (row[headers.indexOf("state")]) {
-      const state = row[headers.indexOf("state")].toString().trim();
-      const stateUpper = state.toUpperCase();
-      if (state && state !== "N/A" && state !== "No data" && stateUpper !== "WI" && state !== "Distributed" && !availableStateCodes.includes(stateUpper)) {
-        locationDiscrepancies.push(`Row ${rowNum}: State '${state}' not found in mapping`);
-      }
-    }
-  }
-  
-  if (locationDiscrepancies.length > 0) {
-    warnings.push(...locationDiscrepancies);
-  }
-  
-  return { isValid: errors.length === 0, errors, warnings };
-}
-
-// Validate individual accounts template
-export function validateAccountsTemplate(wb: XLSX.WorkBook): ValidationResult {
-  const errors: string[] = [];
-  const warnings: string[] = [];
-  
-  if (!wb.SheetNames.includes("Accounts")) {
-    errors.push("Missing 'Accounts' sheet");
-    return { isValid: false, errors, warnings };
-  }
-  
-  const ws = wb.Sheets["Accounts"];
-  const data = XLSX.utils.sheet_to_json(ws, { header: 1 });
-  
-  if (data.length < 2) {
-    errors.push("Accounts sheet must have at least a header row and one data row");
-    return { isValid: false, errors, warnings };
-  }
-  
-  const headers = data[0] as string[];
-  const requiredColumns = ["account_name", "size", "current_division"];
-  const missingColumns = requiredColumns.filter(col => !headers.includes(col));
-  
-  if (missingColumns.length > 0) {
-    errors.push(`Missing required columns: ${missingColumns.join(", ")}`);
-  }
-  
-  // Check for unexpected columns
-  const expectedColumns = ["account_name", "industry", "size", "tier", "type", "state", "city", "country", "current_division", "revenue_ESG", "revenue_GDT", "revenue_GVC", "revenue_MSG_US"];
-  const unexpectedColumns = headers.filter(h => !expectedColumns.includes(h));
-  
-  if (unexpectedColumns.length > 0) {
-    warnings.push(`Unexpected columns found: ${unexpectedColumns.join(", ")}`);
-  }
-  
-  // Validate country and state codes and check for discrepancies
-  const availableCountryCodes = getAvailableCountryCodes();
-  const availableStateCodes = getAvailableStateCodes();
-  const locationDiscrepancies: string[] = [];
-  
-  for (let i = 1; i < data.length; i++) {
-    const row = data[i] as any[];
-    const rowNum = i + 1;
-    
-    if (row[headers.indexOf("country")]) {
-      const country = row[headers.indexOf("country")].toString().trim();
-      if (country && country !== "N/A" && country !== "No data" && !availableCountryCodes.includes(country)) {
-        locationDiscrepancies.push(`Row ${rowNum}: Country '${country}' not found in mapping`);
-      }
-    }
-    
-    if (row[headers.indexOf("state")]) {
-      const state = row[headers.indexOf("state")].toString().trim();
-      const stateUpper = state.toUpperCase();
-      if (state && state !== "N/A" && state !== "No data" && stateUpper !== "WI" && state !== "Distributed" && !availableStateCodes.includes(stateUpper)) {
-        locationDiscrepancies.push(`Row ${rowNum}: State '${state}' not found in mapping`);
-      }
-    }
-  }
-  
-  if (locationDiscrepancies.length > 0) {
-    warnings.push(...locationDiscrepancies);
-  }
-  
-  return { isValid: errors.length === 0, errors, warnings };
-}
-
-// Validate comprehensive template
-export function validateComprehensiveTemplate(wb: XLSX.WorkBook, mode: 'comprehensive' | 'comprehensive_add' = 'comprehensive'): ValidationResult {
-  const errors: string[] = [];
-  const warnings: string[] = [];
-  
-  const requiredSheets = ["Accounts", "Sellers", "Managers", "Relationship_Map", "Manager_Team"];
-  const missingSheets = requiredSheets.filter(sheet => !wb.SheetNames.includes(sheet));
-  
-  if (missingSheets.length > 0) {
-    errors.push(`Missing required sheets: ${missingSheets.join(", ")}`);
-  }
-  
-  // Get available country codes for validation
-  const availableCountryCodes = getAvailableCountryCodes();
-  
-  // Validate each sheet if it exists
-  for (const sheetName of requiredSheets) {
-    if (wb.SheetNames.includes(sheetName)) {
-      const ws = wb.Sheets[sheetName];
-      const data = XLSX.utils.sheet_to_json(ws, { header: 1 });
-      
-      // For ADD mode, Managers sheet can have only header row (no data rows) 
-      // since managers might already exist in the database
-      if (data.length < 2) {
-        if (mode === 'comprehensive_add' && sheetName === 'Managers') {
-          warnings.push(`${sheetName} sheet has only header row - this is allowed in ADD mode if managers already exist in the database`);
-        } else {
-          errors.push(`${sheetName} sheet must have at least a header row and one data row`);
-        }
-        continue;
-      }
-      
-      const headers = data[0] as string[];
-      
-      // Define required columns for each sheet
-      let requiredColumns: string[] = [];
-      switch (sheetName) {
-        case "Accounts":
-          requiredColumns = ["account_name", "size", "current_division"];
-          break;
-        case "Sellers":
-          requiredColumns = ["seller_name", "division", "size"];
-          break;
-        case "Managers":
-          requiredColumns = ["manager_name", "manager_email"];
-          break;
-        case "Relationship_Map":
-          requiredColumns = ["account_name", "seller_name"];
-          break;
-        case "Manager_Team":
-          requiredColumns = ["manager_name", "seller_name"];
-          // is_primary is optional - defaults to true if not provided
-          break;
-      }
-      
-      const missingColumns = requiredColumns.filter(col => !headers.includes(col));
-      if (missingColumns.length > 0) {
-        errors.push(`${sheetName} sheet missing required columns: ${missingColumns.join(", ")}`);
-      }
-      
-      // Check for country and state discrepancies in Accounts and Sellers sheets
-      if ((sheetName === "Accounts" || sheetName === "Sellers") && (headers.includes("country") || headers.includes("state"))) {
-        const availableStateCodes = getAvailableStateCodes();
-        const locationDiscrepancies: string[] = [];
-        
-        for (let i = 1; i < data.length; i++) {
-          const row = data[i] as any[];
-          const rowNum = i + 1;
-          
-          if (row[headers.indexOf("country")]) {
-            const country = row[headers.indexOf("country")].toString().trim();
-            if (country && country !== "N/A" && country !== "No data" && !availableCountryCodes.includes(country)) {
-              locationDiscrepancies.push(`${sheetName} Row ${rowNum}: Country '${country}' not found in mapping`);
-            }
-          }
-          
-          if (row[headers.indexOf("state")]) {
-            const state = row[headers.indexOf("state")].toString().trim();
-            const stateUpper = state.toUpperCase();
-            if (state && state !== "N/A" && state !== "No data" && stateUpper !== "WI" && state !== "Distributed" && !availableStateCodes.includes(stateUpper)) {
-              locationDiscrepancies.push(`${sheetName} Row ${rowNum}: State '${state}' not found in mapping`);
-            }
-          }
-        }
-        
-        if (locationDiscrepancies.length > 0) {
-          warnings.push(...locationDiscrepancies);
-        }
-      }
-    }
-  }
-  
-  return { isValid: errors.length === 0, errors, warnings };
-}
-
-// Helpers
-export function readSheet(file: File) {
-  return new Promise<XLSX.WorkBook>((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onload = () => {
-      try {
-        const wb = XLSX.read(reader.result, { type: "binary" });
-        resolve(wb);
-      } catch (e) {
-        reject(e);
-      }
-    };
-    reader.onerror = reject;
-    reader.readAsBinaryString(file);
-  });
+/**
+ * Debug info of the import that just ran (finished or not), cleared so the
+ * next import starts fresh
+ */
+export function takeImportDebugInfo(): ImportDebugInfo | null {
+  const debugInfo = currentDebugInfo ?? lastDebugInfo;
+  currentDebugInfo = null;
+  lastDebugInfo = null;
+  return debugInfo;
 }
 
-function sheetToJson<T = any>(wb: XLSX.WorkBook, name?: string): T[] {
-  const sheetName = name ?? wb.SheetNames[0];
-  const ws = wb.Sheets[sheetName];
-  return XLSX.utils.sheet_to_json<T>(ws, { defval: null, raw: true });
-}
+// File the rows came from, for audit logs
+type ImportSource = Pick<PreparedImport, "fileName" | "fileSize">;
 
 // ========== Accounts.xlsx ==========
 type AccountRow = {
   account_name: string;
+  account_external_id?: string | null;
   industry: string | null;
   size: "enterprise" | "midmarket";
   tier: string | null;
@@ -426,9 +242,49 @@ function chunk<T>(array: T[], size: number): T[][] {
   return chunks;
 }
 
-export async function importAccounts(file: File, userId?: string) {
-  const wb = await readSheet(file);
-  const rows = sheetToJson<AccountRow>(wb);
+// Drop rows whose external ID is already taken
+async function withoutExistingExternalIds<T extends { external_id: string | null }>(
+  table: "accounts" | "sellers",
+  rows: T[]
+): Promise<T[]> {
+  if (!rows.some(r => r.external_id)) return rows;
+
+  const existing = await fetchAllRows<{ external_id: string | null }>(table, "external_id");
+  const known = new Set(existing.map(r => r.external_id).filter(Boolean));
+  return rows.filter(r => !r.external_id || !known.has(r.external_id));
+}
+
+// Existing record as the name matcher sees it
+type MatchedRecord = MatchCandidate & { id: string };
+
+// Rename records whose external ID arrives under a new name, so the
+// name-keyed upsert that follows updates them instead of adding a duplicate
+async function renameByExternalId(
+  table: "accounts" | "sellers",
+  rows: Array<{ name: string; external_id: string | null }>
+) {
+  const incoming = new Map<string, string>();
+  rows.forEach(r => {
+    if (r.external_id && !incoming.has(r.external_id)) incoming.set(r.external_id, r.name);
+  });
+  if (incoming.size === 0) return;
+
+  const existing = await fetchAllRows<{ id: string; name: string; external_id: string | null }>(table, "id,name,external_id");
+  const renames = existing.filter(r => r.external_id && incoming.has(r.external_id) && incoming.get(r.external_id) !== r.name);
+
+  for (const record of renames) {
+    const { error } = await (supabase as any)
+      .from(table)
+      .update({ name: incoming.get(record.external_id!) })
+      .eq("id", record.id);
+
+    if (error) {
+      throw new Error(`Failed to rename "${record.name}" to "${incoming.get(record.external_id!)}" (external ID ${record.external_id}): ${error.message}`);
+    }
+  }
+}
+
+export async function importAccounts(rows: AccountRow[], source: ImportSource, userId?: string) {
 
   if (rows.length === 0) throw new Error("Accounts.xlsx is empty");
 
@@ -506,6 +362,7 @@ export async function importAccounts(file: File, userId?: string) {
       
       return {
         name: r.account_name,
+        external_id: normalizeExternalId(r.account_external_id),
         industry: r.industry,
         size: normalizedSize as any,
         tier: r.tier,
@@ -529,6 +386,8 @@ export async function importAccounts(file: File, userId?: string) {
   }
 
 
+  await renameByExternalId("accounts", uniqueAccounts);
+
   // Batch upsert accounts
   const accountChunks = chunk(uniqueAccounts, BATCH_SIZE);
   const allAccounts: Array<{ id: string; name: string }> = [];
@@ -597,8 +456,8 @@ export async function importAccounts(file: File, userId?: string) {
       {
         import_type: 'accounts',
         records_count: uniqueAccounts.length,
-        file_name: file.name,
-        file_size: file.size,
+        file_name: source.fileName,
+        file_size: source.fileSize,
         revenue_records_count: uniqueRevenues.length,
       }
     );
@@ -617,6 +476,7 @@ export async function importAccounts(file: File, userId?: string) {
 // ========== Sellers.xlsx ==========
 type SellerRow = {
   seller_name: string;
+  seller_external_id?: string | null;
   division: "ESG" | "GDT" | "GVC" | "MSG US";
   size: "enterprise" | "midmarket";
   industry_specialty: string | null;
@@ -630,9 +490,7 @@ type SellerRow = {
   book_finalized?: boolean | null;
 };
 
-export async function importSellers(file: File, userId?: string) {
-  const wb = await readSheet(file);
-  const rows = sheetToJson<SellerRow>(wb);
+export async function importSellers(rows: SellerRow[], source: ImportSource, userId?: string) {
 
   if (rows.length === 0) throw new Error("Sellers.xlsx is empty");
 
@@ -711,6 +569,7 @@ export async function importSellers(file: File, userId?: string) {
 
       return {
         name: r.seller_name,
+        external_id: normalizeExternalId(r.seller_external_id),
         division: normalizedDivision as any,
         size: normalizedSize as any,
         industry_specialty: r.industry_specialty,
@@ -727,6 +586,8 @@ export async function importSellers(file: File, userId?: string) {
     });
 
 
+  await renameByExternalId("sellers", sellersToUpsert);
+
   // Batch upsert sellers
   const sellerChunks = chunk(sellersToUpsert, BATCH_SIZE);
 
@@ -757,8 +618,8 @@ export async function importSellers(file: File, userId?: string) {
       {
         import_type: 'sellers',
         records_count: sellersToUpsert.length,
-        file_name: file.name,
-        file_size: file.size,
+        file_name: source.fileName,
+        file_size: source.fileSize,
       }
     );
     
@@ -777,25 +638,12 @@ export async function importSellers(file: File, userId?: string) {
 type RelRow = {
   account_name: string;
   seller_name: string;
+  account_external_id?: string | null;
+  seller_external_id?: string | null;
   status: "original" | "must keep" | "for discussion" | "to be peeled";
 };
 
-// Status map for relationship_maps table (original is handled separately)
-const statusMap: Record<string, string> = {
-  // Primary statuses (user-friendly names with spaces)
-  "must keep": "must_keep",
-  "for discussion": "for_discussion",
-  "to be peeled": "to_be_peeled",
-  
-  // Database enum values (underscore format)
-  "must_keep": "must_keep",
-  "for_discussion": "for_discussion",
-  "to_be_peeled": "to_be_peeled",
-};
-
-export async function importRelationshipMap(file: File, userId?: string) {
-  const wb = await readSheet(file);
-  const rows = sheetToJson<RelRow>(wb);
+export async function importRelationshipMap(rows: RelRow[], source: ImportSource, userId?: string, confirmedMatches: ConfirmedMatches = {}) {
 
   if (rows.length === 0) throw new Error("RelationshipMap.xlsx is empty");
 
@@ -806,122 +654,25 @@ export async function importRelationshipMap(file: File, userId?: string) {
     }
   }
 
-  // Prefetch accounts, sellers, and profiles
-
-  // Fetch all accounts with pagination to get all 7714+ records
-  let allAccounts: any[] = [];
-  let from = 0;
-  const limit = 1000;
-  let hasMore = true;
-  
-  while (hasMore) {
-    const { data, error } = await supabase
-      .from("accounts")
-      .select("id,name")
-      .range(from, from + limit - 1);
-    
-    if (error) throw new Error(`Failed to fetch accounts: ${error.message}`);
-    
-    if (data && data.length > 0) {
-      allAccounts = allAccounts.concat(data);
-      from += limit;
-    } else {
-      hasMore = false;
-    }
-    
-    // Safety check to prevent infinite loop
-    if (from > 10000) {
-      break;
-    }
-  }
-  
-  
-  const [sellersRes, profilesRes] = await Promise.all([
-    supabase.from("sellers").select("id,name"),
-    supabase.from("profiles").select("id,email"),
+  // Match on external IDs first, then names
+  const [allAccounts, allSellers] = await Promise.all([
+    fetchAllRows<MatchedRecord>("accounts", "id,name,external_id"),
+    fetchAllRows<MatchedRecord>("sellers", "id,name,external_id"),
   ]);
 
-  if (sellersRes.error) throw new Error(`Failed to fetch sellers: ${sellersRes.error.message}`);
-  if (profilesRes.error) throw new Error(`Failed to fetch profiles: ${profilesRes.error.message}`);
-
-  
-  // Debug: Check if Cannon account is in the raw data
-  const cannonInRawData = allAccounts.find(a => a.name === "Cannon Instrument Company");
-  if (cannonInRawData) {
-  }
-
-  const accountMap = new Map(allAccounts.map(a => [a.name, a.id]));
-  const sellerMap = new Map(sellersRes.data?.map(s => [s.name, s.id]) ?? []);
-  const profileMap = new Map(profilesRes.data?.map(p => [p.email.toLowerCase(), p.id]) ?? []);
-
-  
-  // Debug: Check if specific account exists
-  const cannonAccount = accountMap.get("Cannon Instrument Company");
-  if (cannonAccount) {
-  }
+  const accountMatcher = createNameMatcher("account", allAccounts, confirmedMatches);
+  const sellerMatcher = createNameMatcher("seller", allSellers, confirmedMatches);
+  const unmatched: string[] = [];
 
   // Prepare relationship data - separate original from active relationships
   const allRelationships = rows
     .filter(r => r.account_name && r.seller_name)
     .map(r => {
-      // Try exact match first
-      let accountId = accountMap.get(r.account_name);
-      let sellerId = sellerMap.get(r.seller_name);
-      
-      // If not found, try case-insensitive match
-      if (!accountId) {
-        const exactAccount = Array.from(accountMap.keys()).find(name => 
-          name.toLowerCase() === r.account_name.toLowerCase()
-        );
-        if (exactAccount) {
-          accountId = accountMap.get(exactAccount);
-        }
-      }
-      
-      if (!sellerId) {
-        const exactSeller = Array.from(sellerMap.keys()).find(name => 
-          name.toLowerCase() === r.seller_name.toLowerCase()
-        );
-        if (exactSeller) {
-          sellerId = sellerMap.get(exactSeller);
-        }
-      }
+      const accountId = accountMatcher.match(r.account_name, r.account_external_id)?.id;
+      const sellerId = sellerMatcher.match(r.seller_name, r.seller_external_id)?.id;
 
       if (!accountId || !sellerId) {
-        
-        // Show similar names for debugging
-        if (!accountId) {
-          const similarAccounts = Array.from(accountMap.keys()).filter(name => 
-            name.toLowerCase().includes(r.account_name.toLowerCase()) || 
-            r.account_name.toLowerCase().includes(name.toLowerCase())
-          );
-          if (similarAccounts.length > 0) {
-          }
-          
-          // Check for exact match with different case
-          const exactMatch = Array.from(accountMap.keys()).find(name => 
-            name.toLowerCase() === r.account_name.toLowerCase()
-          );
-          if (exactMatch) {
-          }
-          
-          // Check for extra spaces or characters
-          const trimmedMatch = Array.from(accountMap.keys()).find(name => 
-            name.trim().toLowerCase() === r.account_name.trim().toLowerCase()
-          );
-          if (trimmedMatch) {
-          }
-        }
-        
-        if (!sellerId) {
-          const similarSellers = Array.from(sellerMap.keys()).filter(name => 
-            name.toLowerCase().includes(r.seller_name.toLowerCase()) || 
-            r.seller_name.toLowerCase().includes(name.toLowerCase())
-          );
-          if (similarSellers.length > 0) {
-          }
-        }
-        
+        unmatched.push(relationshipKey(r.account_name, r.seller_name));
         return null;
       }
 
@@ -959,7 +710,8 @@ export async function importRelationshipMap(file: File, userId?: string) {
       relationshipsToUpsert.map(({ account_id, seller_id, status }) => ({
         account_id,
         seller_id,
-        status
+        status,
+        imported_status: status // Lets MERGE mode tell app changes from imported statuses
       })),
       RELATIONSHIP_BATCH_SIZE
     );
@@ -967,7 +719,7 @@ export async function importRelationshipMap(file: File, userId?: string) {
     for (let i = 0; i < relationshipChunks.length; i++) {
       console.log(`🔍 Processing relationship_maps batch ${i + 1}/${relationshipChunks.length} (${relationshipChunks[i].length} records)`);
       
-      const { error } = await supabase
+      const { error } = await (supabase as any)
         .from("relationship_maps")
         .upsert(relationshipChunks[i], { 
           onConflict: "account_id,seller_id",
@@ -1035,8 +787,9 @@ export async function importRelationshipMap(file: File, userId?: string) {
         import_type: 'relationship_map',
         records_count: relationshipsToUpsert.length,
         original_count: originalRelationships.length,
-        file_name: file.name,
-        file_size: file.size,
+        unmatched_count: unmatched.length,
+        file_name: source.fileName,
+        file_size: source.fileSize,
       }
     );
     
@@ -1048,12 +801,11 @@ export async function importRelationshipMap(file: File, userId?: string) {
 type ManagerRow = {
   manager_name: string;
   manager_email: string;
+  manager_external_id?: string | null;
   user_id?: string;
 };
 
-export async function importManagers(file: File, userId?: string) {
-  const wb = await readSheet(file);
-  const rows = sheetToJson<ManagerRow>(wb);
+export async function importManagers(rows: ManagerRow[], source: ImportSource, userId?: string) {
 
   if (rows.length === 0) throw new Error("Managers.xlsx is empty");
 
@@ -1083,6 +835,7 @@ export async function importManagers(file: File, userId?: string) {
       }
       return {
         name: r.manager_name,
+        external_id: normalizeExternalId(r.manager_external_id),
         user_id: userId,
       };
     });
@@ -1126,8 +879,8 @@ export async function importManagers(file: File, userId?: string) {
       {
         import_type: 'managers',
         records_count: uniqueManagers.length,
-        file_name: file.name,
-        file_size: file.size,
+        file_name: source.fileName,
+        file_size: source.fileSize,
       }
     );
     
@@ -1146,6 +899,8 @@ export async function importManagers(file: File, userId?: string) {
 type ManagerTeamRow = {
   manager_name: string;
   seller_name: string;
+  manager_external_id?: string | null;
+  seller_external_id?: string | null;
   is_primary?: boolean;
 };
 
@@ -1159,9 +914,7 @@ type ChatMessageRow = {
   updated_at: string;
 };
 
-export async function importManagerTeam(file: File, userId?: string) {
-  const wb = await readSheet(file);
-  const rows = sheetToJson<ManagerTeamRow>(wb);
+export async function importManagerTeam(rows: ManagerTeamRow[], source: ImportSource, userId?: string, confirmedMatches: ConfirmedMatches = {}) {
 
   if (rows.length === 0) throw new Error("ManagerTeam.xlsx is empty");
 
@@ -1172,43 +925,14 @@ export async function importManagerTeam(file: File, userId?: string) {
     }
   }
 
-  // Prefetch managers and sellers
-
-  // Fetch all sellers with pagination to get all records
-  let allSellers: any[] = [];
-  let from = 0;
-  const limit = 1000;
-  let hasMore = true;
-  
-  while (hasMore) {
-    const { data, error } = await supabase
-      .from("sellers")
-      .select("id,name")
-      .range(from, from + limit - 1);
-    
-    if (error) throw new Error(`Failed to fetch sellers: ${error.message}`);
-    
-    if (data && data.length > 0) {
-      allSellers = allSellers.concat(data);
-      from += limit;
-    } else {
-      hasMore = false;
-    }
-    
-    // Safety check to prevent infinite loop
-    if (from > 10000) {
-      break;
-    }
-  }
-  
-
-  const managersRes = await supabase.from("managers").select("id,name");
-
-  if (managersRes.error) throw new Error(`Failed to fetch managers: ${managersRes.error.message}`);
-
-  const managerMap = new Map(managersRes.data?.map(m => [m.name.toLowerCase(), m.id]) ?? []);
-  const sellerMap = new Map(allSellers.map(s => [s.name, s.id]));
+  // Match on external IDs first, then names
+  const [allSellers, allManagers] = await Promise.all([
+    fetchAllRows<MatchedRecord>("sellers", "id,name,external_id"),
+    fetchAllRows<MatchedRecord>("managers", "id,name,external_id"),
+  ]);
 
+  const managerMatcher = createNameMatcher("manager", allManagers, confirmedMatches);
+  const sellerMatcher = createNameMatcher("seller", allSellers, confirmedMatches);
 
   // Collect missing managers and sellers for reporting
   const missingManagers = new Set<string>();
@@ -1218,8 +942,8 @@ export async function importManagerTeam(file: File, userId?: string) {
   for (const r of rows) {
     if (!r.manager_name || !r.seller_name) continue;
 
-    const managerId = managerMap.get(r.manager_name.toLowerCase());
-    const sellerId = sellerMap.get(r.seller_name);
+    const managerId = managerMatcher.match(r.manager_name, r.manager_external_id)?.id;
+    const sellerId = sellerMatcher.match(r.seller_name, r.seller_external_id)?.id;
 
     if (!managerId) {
       missingManagers.add(r.manager_name);
@@ -1228,22 +952,6 @@ export async function importManagerTeam(file: File, userId?: string) {
 
     if (!sellerId) {
       missingSellers.add(r.seller_name);
-      
-      // Show similar seller names for debugging
-      const similarSellers = Array.from(sellerMap.keys()).filter(name => 
-        name.toLowerCase().includes(r.seller_name.toLowerCase()) || 
-        r.seller_name.toLowerCase().includes(name.toLowerCase())
-      );
-      if (similarSellers.length > 0) {
-      }
-      
-      // Check for exact match with different case
-      const exactMatch = Array.from(sellerMap.keys()).find(name => 
-        name.toLowerCase() === r.seller_name.toLowerCase()
-      );
-      if (exactMatch) {
-      }
-      
       continue;
     }
 
@@ -1325,9 +1033,10 @@ export async function importManagerTeam(file: File, userId?: string) {
       {
         import_type: 'manager_team',
         records_count: totalImported,
-        file_name: file.name,
-        file_size: file.size,
+        file_name: source.fileName,
+        file_size: source.fileSize,
         assignments_count: updates.length,
+        unmatched_sellers: Array.from(missingSellers),
       }
     );
     
@@ -1336,9 +1045,7 @@ export async function importManagerTeam(file: File, userId?: string) {
 }
 
 // ========== Chat Messages Import ==========
-export async function importChatMessages(file: File, userId?: string) {
-  const wb = await readSheet(file);
-  const rows = sheetToJson<ChatMessageRow>(wb);
+export async function importChatMessages(rows: ChatMessageRow[], source: ImportSource, userId?: string) {
   
   if (rows.length === 0) {
     throw new Error("No chat message data found in file");
@@ -1439,8 +1146,8 @@ export async function importChatMessages(file: File, userId?: string) {
       null,
       {
         import_type: 'chat_messages',
-        file_name: file.name,
-        file_size: file.size,
+        file_name: source.fileName,
+        file_size: source.fileSize,
         imported_count: imported,
         error_count: errors.length
       }
@@ -1461,21 +1168,52 @@ export async function importChatMessages(file: File, userId?: string) {
   };
 }
 
+// ========== Pre-Import Snapshot ==========
+
+// A failed snapshot is reported but does not block the import
+async function snapshotBeforeImport(fileName: string, onProgress?: ImportProgressCallback) {
+  try {
+    onProgress?.("📸 Taking a snapshot of current assignments...");
+    // Called through the import client rather than createBookSnapshot, which
+    // always uses the browser session
+    const { data: snapshot, error } = await (supabase as any).rpc('create_book_snapshot', {
+      p_name: `Before import of ${fileName}`,
+      p_reason: 'import',
+      p_description: null,
+    });
+    if (error) throw error;
+    onProgress?.(`✅ Snapshot saved: ${(snapshot as BookSnapshot).relationship_count} relationships`);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : (error as any)?.message || String(error);
+    onProgress?.(`⚠️ Could not take a pre-import snapshot: ${message}`);
+  }
+}
+
 // ========== ADD Mode Import Functions (Insert New Records, Keep Existing) ==========
 
-// ADD Mode: Import new data without deleting existing records
-export async function importComprehensiveDataAdd(file: File, userId?: string, onProgress?: ImportProgressCallback) {
+// ADD Mode: Import new data without deleting existing records.
+// Cancelling stops before the next sheet; sheets already added are kept.
+export async function importComprehensiveDataAdd(
+  prepared: PreparedImport,
+  userId?: string,
+  onProgress?: ImportProgressCallback,
+  confirmedMatches: ConfirmedMatches = {},
+  signal?: AbortSignal
+) {
   onProgress?.("🚀 Starting ADD MODE comprehensive import...");
   onProgress?.(`⏰ Start Time: ${new Date().toISOString()}`);
   
-  const wb = await readSheet(file);
+  await snapshotBeforeImport(prepared.fileName, onProgress);
+  
+  const sheetNames = prepared.sheetNames;
   const results: any = {};
 
   try {
     // 1. Import Managers (ADD mode - no deletion)
+    throwIfCancelled(signal);
     onProgress?.("📋 Processing Managers sheet...");
-    if (wb.SheetNames.includes("Managers")) {
-      const managerRows = sheetToJson<ManagerRow>(wb, "Managers");
+    if (sheetNames.includes("Managers")) {
+      const managerRows = (prepared.rows["Managers"] ?? []) as ManagerRow[];
       if (managerRows.length > 0) {
         const { imported, errors } = await importManagersAdd(managerRows, userId);
         results.managers = { imported, errors };
@@ -1486,8 +1224,9 @@ export async function importComprehensiveDataAdd(file: File, userId?: string, on
     }
 
     // 2. Import Accounts (ADD mode - no deletion)
-    if (wb.SheetNames.includes("Accounts")) {
-      const accountRows = sheetToJson<AccountRow>(wb, "Accounts");
+    throwIfCancelled(signal);
+    if (sheetNames.includes("Accounts")) {
+      const accountRows = (prepared.rows["Accounts"] ?? []) as AccountRow[];
       if (accountRows.length > 0) {
         const { imported, errors } = await importAccountsAdd(accountRows, userId);
         results.accounts = { imported, errors };
@@ -1496,8 +1235,9 @@ export async function importComprehensiveDataAdd(file: File, userId?: string, on
     }
 
     // 3. Import Sellers (ADD mode - no deletion)
-    if (wb.SheetNames.includes("Sellers")) {
-      const sellerRows = sheetToJson<SellerRow>(wb, "Sellers");
+    throwIfCancelled(signal);
+    if (sheetNames.includes("Sellers")) {
+      const sellerRows = (prepared.rows["Sellers"] ?? []) as SellerRow[];
       if (sellerRows.length > 0) {
         const { imported, errors } = await importSellersAdd(sellerRows, userId);
         results.sellers = { imported, errors };
@@ -1506,20 +1246,25 @@ export async function importComprehensiveDataAdd(file: File, userId?: string, on
     }
 
     // 4. Import Relationship Maps (ADD mode - no deletion)
-    if (wb.SheetNames.includes("Relationship_Map")) {
-      const relRows = sheetToJson<RelRow>(wb, "Relationship_Map");
+    throwIfCancelled(signal);
+    if (sheetNames.includes("Relationship_Map")) {
+      const relRows = (prepared.rows["Relationship_Map"] ?? []) as RelRow[];
       if (relRows.length > 0) {
-        const { imported, errors } = await importRelationshipMapAdd(relRows, userId);
+        const { imported, errors, skipped } = await importRelationshipMapAdd(relRows, userId, confirmedMatches);
         results.relationships = { imported, errors };
+        if (skipped.length > 0) {
+          onProgress?.(`⚠️ Relationships: ${skipped.length} row(s) skipped - no matching account or seller`);
+        }
       }
     } else {
     }
 
     // 5. Import Manager Team assignments (ADD mode - no deletion)
-    if (wb.SheetNames.includes("Manager_Team")) {
-      const mgrTeamRows = sheetToJson<ManagerTeamRow>(wb, "Manager_Team");
+    throwIfCancelled(signal);
+    if (sheetNames.includes("Manager_Team")) {
+      const mgrTeamRows = (prepared.rows["Manager_Team"] ?? []) as ManagerTeamRow[];
       if (mgrTeamRows.length > 0) {
-        const { imported, errors } = await importManagerTeamAdd(mgrTeamRows, userId);
+        const { imported, errors } = await importManagerTeamAdd(mgrTeamRows, userId, confirmedMatches);
         results.manager_assignments = { imported, errors };
       }
     } else {
@@ -1545,8 +1290,8 @@ export async function importComprehensiveDataAdd(file: File, userId?: string, on
         null,
         {
           import_type: 'comprehensive_add',
-          file_name: file.name,
-          file_size: file.size,
+          file_name: prepared.fileName,
+          file_size: prepared.fileSize,
           results: results
         }
       );
@@ -1577,6 +1322,7 @@ async function importManagersAdd(rows: ManagerRow[], userId?: string) {
     .filter(r => r.manager_name && r.user_id)
     .map(r => ({
       name: r.manager_name,
+      external_id: normalizeExternalId(r.manager_external_id),
       user_id: r.user_id!,
     }));
 
@@ -1698,6 +1444,7 @@ async function importAccountsAdd(rows: AccountRow[], userId?: string) {
       
       return {
         name: r.account_name,
+        external_id: normalizeExternalId(r.account_external_id),
         industry: r.industry,
         size: normalizedSize as any,
         tier: r.tier,
@@ -1717,7 +1464,10 @@ async function importAccountsAdd(rows: AccountRow[], userId?: string) {
   );
 
 
-  const accountChunks = chunk(uniqueAccounts, BATCH_SIZE);
+  // A known external ID is an existing account - ADD mode leaves it as it is
+  const newAccounts = await withoutExistingExternalIds("accounts", uniqueAccounts);
+
+  const accountChunks = chunk(newAccounts, BATCH_SIZE);
   const allAccounts: Array<{ id: string; name: string }> = [];
   let imported = 0;
   const errors: any[] = [];
@@ -1865,6 +1615,7 @@ async function importSellersAdd(rows: SellerRow[], userId?: string) {
 
       return {
         name: r.seller_name,
+        external_id: normalizeExternalId(r.seller_external_id),
         division: normalizedDivision as any,
         size: normalizedSize as any,
         industry_specialty: r.industry_specialty,
@@ -1881,7 +1632,10 @@ async function importSellersAdd(rows: SellerRow[], userId?: string) {
     });
 
 
-  const sellerChunks = chunk(sellersToInsert, BATCH_SIZE);
+  // A known external ID is an existing seller - ADD mode leaves it as it is
+  const newSellers = await withoutExistingExternalIds("sellers", sellersToInsert);
+
+  const sellerChunks = chunk(newSellers, BATCH_SIZE);
   let imported = 0;
   const errors: any[] = [];
 
@@ -1920,7 +1674,7 @@ async function importSellersAdd(rows: SellerRow[], userId?: string) {
 }
 
 // ADD Mode: Import relationships without deleting existing ones
-async function importRelationshipMapAdd(rows: RelRow[], userId?: string) {
+async function importRelationshipMapAdd(rows: RelRow[], userId?: string, confirmedMatches: ConfirmedMatches = {}) {
   const required = ["account_name", "seller_name"];
   for (const r of required) {
     if (!(rows[0] as any)?.[r]) {
@@ -1931,65 +1685,33 @@ async function importRelationshipMapAdd(rows: RelRow[], userId?: string) {
   // Get all accounts and sellers for mapping (fetch fresh data with pagination)
   console.log("🔄 Fetching fresh account and seller data for relationship mapping...");
   
-  // Fetch all accounts with pagination to avoid 1000 row limit
-  let allAccounts: any[] = [];
-  let from = 0;
-  const limit = 1000;
-  
-  while (true) {
-    const { data: accountsBatch, error: accountsError } = await supabase
-      .from("accounts")
-      .select("id,name")
-      .range(from, from + limit - 1);
-    
-    if (accountsError) {
-      throw new Error(`Failed to fetch accounts: ${accountsError.message}`);
-    }
-    
-    if (!accountsBatch || accountsBatch.length === 0) break;
-    
-    allAccounts.push(...accountsBatch);
-    from += limit;
-    
-    if (accountsBatch.length < limit) break; // Last batch
-  }
-  
-  // Fetch all sellers (should be under 1000)
-  const { data: sellers, error: sellersError } = await supabase.from("sellers").select("id,name");
-  
-  if (sellersError) {
-    throw new Error(`Failed to fetch sellers: ${sellersError.message}`);
-  }
-  
-  if (!sellers) {
-    throw new Error("Failed to fetch sellers for relationship mapping");
-  }
+  const [allAccounts, sellers] = await Promise.all([
+    fetchAllRows<MatchedRecord>("accounts", "id,name,external_id"),
+    fetchAllRows<MatchedRecord>("sellers", "id,name,external_id"),
+  ]);
   
   console.log(`📊 Fresh data fetched - Accounts: ${allAccounts.length}, Sellers: ${sellers.length}`);
 
-  const accountMap = new Map(allAccounts.map(a => [a.name, a.id]));
-  const sellerMap = new Map(sellers.map(s => [s.name, s.id]));
+  // External IDs first, then names; near misses only once confirmed in the preview
+  const accountMatcher = createNameMatcher("account", allAccounts, confirmedMatches);
+  const sellerMatcher = createNameMatcher("seller", sellers, confirmedMatches);
+  const skipped: string[] = [];
 
   // Map relationships - separate original from active relationships
   const allRelationships = rows
     .filter(r => r.account_name && r.seller_name)
     .map(r => {
-      const accountId = accountMap.get(r.account_name);
-      const sellerId = sellerMap.get(r.seller_name);
+      const accountId = accountMatcher.match(r.account_name, r.account_external_id)?.id;
+      const sellerId = sellerMatcher.match(r.seller_name, r.seller_external_id)?.id;
       
       if (!accountId || !sellerId) {
         if (!accountId) {
           console.log(`❌ Account NOT FOUND: "${r.account_name}"`);
-          // Show first few available account names for debugging
-          const availableAccounts = Array.from(accountMap.keys()).slice(0, 5);
-          console.log(`   Available accounts (first 5): ${availableAccounts.join(', ')}`);
         }
         if (!sellerId) {
           console.log(`❌ Seller NOT FOUND: "${r.seller_name}"`);
-          // Show first few available seller names for debugging
-          const availableSellers = Array.from(sellerMap.keys()).slice(0, 5);
-          console.log(`   Available sellers (first 5): ${availableSellers.join(', ')}`);
         }
+        skipped.push(relationshipKey(r.account_name, r.seller_name));
         return null;
       }
 
@@ -2021,7 +1743,7 @@ async function importRelationshipMapAdd(rows: RelRow[], userId?: string) {
   console.log(`  🔗 Valid relationships found: ${allRelationships.length}`);
   console.log(`  📝 Original relationships: ${originalRelationships.length}`);
   console.log(`  📝 Active relationships (must_keep, etc.): ${relationshipsToInsert.length}`);
-  console.log(`  ❌ Filtered out (name mismatches): ${rows.length - allRelationships.length}`);
+  console.log(`  ❌ Filtered out (no matching account or seller): ${skipped.length}`);
 
   // Insert active relationships (exclude is_original field from database insert)
   let imported = 0;
@@ -2032,13 +1754,14 @@ async function importRelationshipMapAdd(rows: RelRow[], userId?: string) {
       relationshipsToInsert.map(({ account_id, seller_id, status }) => ({
         account_id,
         seller_id,
-        status
+        status,
+        imported_status: status
       })),
       RELATIONSHIP_BATCH_SIZE
     );
 
     for (let i = 0; i < relChunks.length; i++) {
-      const { error } = await supabase
+      const { error } = await (supabase as any)
         .from("relationship_maps")
         .insert(relChunks[i]);
 
@@ -2097,6 +1820,7 @@ async function importRelationshipMapAdd(rows: RelRow[], userId?: string) {
         import_type: 'relationships_add',
         records_count: imported,
         original_relationships_count: originalRelationships.length,
+        unmatched_count: skipped.length,
         operation: 'insert',
       }
     );
@@ -2104,11 +1828,11 @@ async function importRelationshipMapAdd(rows: RelRow[], userId?: string) {
     await logAuditEvent(auditData);
   }
 
-  return { imported, errors };
+  return { imported, errors, skipped };
 }
 
 // ADD Mode: Import manager team assignments without deleting existing ones
-async function importManagerTeamAdd(rows: ManagerTeamRow[], userId?: string) {
+async function importManagerTeamAdd(rows: ManagerTeamRow[], userId?: string, confirmedMatches: ConfirmedMatches = {}) {
   const required = ["manager_name", "seller_name"];
   for (const r of required) {
     if (!(rows[0] as any)?.[r]) {
@@ -2117,21 +1841,19 @@ async function importManagerTeamAdd(rows: ManagerTeamRow[], userId?: string) {
   }
 
   // Get all managers and sellers for mapping
-  const { data: managers } = await supabase.from("managers").select("id,name");
-  const { data: sellers } = await supabase.from("sellers").select("id,name");
-
-  if (!managers || !sellers) {
-    throw new Error("Failed to fetch managers or sellers for team assignment");
-  }
+  const [managers, sellers] = await Promise.all([
+    fetchAllRows<MatchedRecord>("managers", "id,name,external_id"),
+    fetchAllRows<MatchedRecord>("sellers", "id,name,external_id"),
+  ]);
 
-  const managerMap = new Map(managers.map(m => [m.name, m.id]));
-  const sellerMap = new Map(sellers.map(s => [s.name, s.id]));
+  const managerMatcher = createNameMatcher("manager", managers, confirmedMatches);
+  const sellerMatcher = createNameMatcher("seller", sellers, confirmedMatches);
 
   const updates = rows
     .filter(r => r.manager_name && r.seller_name)
     .map(r => ({
-      seller_id: sellerMap.get(r.seller_name),
-      manager_id: managerMap.get(r.manager_name),
+      seller_id: sellerMatcher.match(r.seller_name, r.seller_external_id)?.id,
+      manager_id: managerMatcher.match(r.manager_name, r.manager_external_id)?.id,
       is_primary: r.is_primary ?? true // Use Excel value or default to true
     }))
     .filter(u => u.seller_id && u.manager_id);
@@ -2192,40 +1914,843 @@ async function importManagerTeamAdd(rows: ManagerTeamRow[], userId?: string) {
   return { imported, errors };
 }
 
-// ========== Individual Import Functions (Upsert Operations) ==========
+// ========== MERGE Mode Import Functions (Update Matched Records, Insert New) ==========
 
-// Individual Sellers Import (Upsert - preserves existing relationships)
-export async function importSellersIndividual(file: File, userId?: string, onProgress?: ImportProgressCallback) {
-  const wb = await readSheet(file);
-  const rows = sheetToJson<SellerRow>(wb);
+type MergeResult = { imported: number; updated: number; deleted: number; errors: any[] };
 
-  if (rows.length === 0) throw new Error("Sellers file is empty");
+// Lat/lng from the state or country when the row has none, as in ADD mode
+function mergeCoordinates(r: { state: string | null; country: string | null; latitude: number | null; longitude: number | null }) {
+  let lat = r.latitude;
+  let lng = r.longitude;
 
-  const required = ["seller_name", "division", "size"];
-  for (const r of required) {
-    if (!(rows[0] as any)?.[r]) {
-      throw new Error(`Sellers file missing required column: ${r}`);
+  if (!lat || !lng) {
+    if (r.state && r.state !== "N/A" && r.state !== "No data" && r.state.toUpperCase() !== "WI" && r.state !== "Distributed") {
+      const stateCoords = getStateCoordinates(r.state.toUpperCase());
+      if (stateCoords) {
+        lat = lat || stateCoords.latitude;
+        lng = lng || stateCoords.longitude;
+      }
+    }
+
+    if (r.country && r.country !== "N/A" && r.country !== "No data" && (!lat || !lng)) {
+      const countryCoords = getCountryCoordinates(r.country);
+      if (countryCoords) {
+        lat = lat || countryCoords.latitude;
+        lng = lng || countryCoords.longitude;
+      }
     }
   }
 
-  const divisionMap: Record<string, string> = {
-    "ESG": "ESG",
-    "GDT": "GDT",
-    "GVC": "GVC",
-    "MSG US": "MSG_US",
-    "MSG_US": "MSG_US",
-    "Mixed": "MIXED",
-  };
+  return { lat: lat ?? null, lng: lng ?? null };
+}
 
-  const sizeMap: Record<string, string> = {
-    "enterprise": "enterprise",
-    "Enterprise": "enterprise",
-    "ENTERPRISE": "enterprise",
-    "midmarket": "midmarket", 
-    "Midmarket": "midmarket",
-    "MIDMARKET": "midmarket",
-    "no_data": "no_data",
-    "No data": "no_data",
+// Changes a merge makes to a matched record. The name only follows the file
+// when the record was matched on its external ID.
+function mergeRecordChanges(
+  entity: MergeEntity,
+  current: Record<string, any>,
+  incoming: Record<string, any>,
+  policies: MergeFieldPolicies
+): Record<string, any> {
+  const changes = mergeChanges(entity, current, incoming, policies);
+  if ("name" in changes && !(current.external_id && current.external_id === incoming.external_id)) {
+    delete changes.name;
+  }
+  return changes;
+}
+
+// Delete rows by a column in batches, collecting failures
+async function deleteRowsIn(table: string, column: string, values: string[], errors: any[]): Promise<number> {
+  let deleted = 0;
+  const valueChunks = chunk(values, RELATIONSHIP_BATCH_SIZE);
+
+  for (let i = 0; i < valueChunks.length; i++) {
+    const { error } = await (supabase as any)
+      .from(table)
+      .delete()
+      .in(column, valueChunks[i]);
+
+    if (error) {
+      errors.push({ table, batch: i + 1, error: `Failed to delete from ${table}: ${error.message}` });
+    } else {
+      deleted += valueChunks[i].length;
+    }
+  }
+
+  return deleted;
+}
+
+// MERGE Mode: update the records the file matches field by field, following
+// the merge policies, and insert the rest. Only sheets with rows are merged;
+// with deleteMissing, their records the file doesn't list are deleted.
+// Cancelling stops before the next sheet; sheets already merged are kept.
+export async function importComprehensiveDataMerge(
+  prepared: PreparedImport,
+  userId?: string,
+  onProgress?: ImportProgressCallback,
+  confirmedMatches: ConfirmedMatches = {},
+  options: MergeOptions = createDefaultMergeOptions(),
+  signal?: AbortSignal
+) {
+  onProgress?.("🚀 Starting MERGE MODE comprehensive import...");
+  onProgress?.(`⏰ Start Time: ${new Date().toISOString()}`);
+  onProgress?.(options.deleteMissing
+    ? "🗑️ Records missing from the file will be deleted"
+    : "📌 Records missing from the file will be kept");
+
+  await snapshotBeforeImport(prepared.fileName, onProgress);
+
+  const rowsOf = <T>(sheet: string) => (prepared.rows[sheet] ?? []) as T[];
+  const hasRows = (sheet: string) => prepared.sheetNames.includes(sheet) && rowsOf(sheet).length > 0;
+  const { policies } = options;
+  const results: any = {};
+
+  try {
+    // 1. Managers
+    throwIfCancelled(signal);
+    let managerIds: Set<string> | null = null;
+    if (hasRows("Managers")) {
+      onProgress?.("📋 Merging Managers sheet...");
+      const { keep, ...result } = await importManagersMerge(rowsOf<ManagerRow>("Managers"), policies, confirmedMatches);
+      managerIds = keep;
+      results.managers = result;
+      onProgress?.(`✅ Managers: ${result.imported} added, ${result.updated} updated, ${result.errors.length} errors`);
+    }
+
+    // 2. Accounts
+    throwIfCancelled(signal);
+    let accountIds: Set<string> | null = null;
+    if (hasRows("Accounts")) {
+      onProgress?.("📋 Merging Accounts sheet...");
+      const { keep, ...result } = await importAccountsMerge(rowsOf<AccountRow>("Accounts"), policies, confirmedMatches);
+      accountIds = keep;
+      results.accounts = result;
+      onProgress?.(`✅ Accounts: ${result.imported} added, ${result.updated} updated, ${result.errors.length} errors`);
+    }
+
+    // 3. Sellers
+    throwIfCancelled(signal);
+    let sellerIds: Set<string> | null = null;
+    if (hasRows("Sellers")) {
+      onProgress?.("📋 Merging Sellers sheet...");
+      const { keep, ...result } = await importSellersMerge(rowsOf<SellerRow>("Sellers"), policies, confirmedMatches);
+      sellerIds = keep;
+      results.sellers = result;
+      onProgress?.(`✅ Sellers: ${result.imported} added, ${result.updated} updated, ${result.errors.length} errors`);
+    }
+
+    // 4. Relationship Maps
+    throwIfCancelled(signal);
+    let relationshipKeys: { active: Set<string>; original: Set<string> } | null = null;
+    if (hasRows("Relationship_Map")) {
+      onProgress?.("📋 Merging Relationship_Map sheet...");
+      const { keep, skipped, ...result } = await importRelationshipMapMerge(rowsOf<RelRow>("Relationship_Map"), policies, confirmedMatches);
+      relationshipKeys = keep;
+      results.relationships = result;
+      onProgress?.(`✅ Relationships: ${result.imported} added, ${result.updated} updated, ${result.errors.length} errors`);
+      if (skipped.length > 0) {
+        onProgress?.(`⚠️ Relationships: ${skipped.length} row(s) skipped - no matching account or seller`);
+      }
+    }
+
+    // 5. Manager Team assignments
+    throwIfCancelled(signal);
+    let teamKeys: Set<string> | null = null;
+    if (hasRows("Manager_Team")) {
+      onProgress?.("📋 Merging Manager_Team sheet...");
+      const { keep, ...result } = await importManagerTeamMerge(rowsOf<ManagerTeamRow>("Manager_Team"), policies, confirmedMatches);
+      teamKeys = keep;
+      results.manager_assignments = result;
+      onProgress?.(`✅ Manager Team: ${result.imported} added, ${result.updated} updated, ${result.errors.length} errors`);
+    }
+
+    // 6. Records missing from the file, children before parents
+    if (options.deleteMissing) {
+      throwIfCancelled(signal);
+      onProgress?.("🗑️ Deleting records missing from the file...");
+
+      if (relationshipKeys && results.relationships) {
+        const keys = relationshipKeys;
+        const errors = results.relationships.errors;
+        const [relationships, originals] = await Promise.all([
+          fetchAllRows<{ id: string; account_id: string; seller_id: string }>("relationship_maps", "id,account_id,seller_id"),
+          fetchAllRows<{ id: string; account_id: string; seller_id: string }>("original_relationships", "id,account_id,seller_id"),
+        ]);
+        results.relationships.deleted =
+          await deleteRowsIn("relationship_maps", "id", relationships.filter(r => !keys.active.has(`${r.account_id}:${r.seller_id}`)).map(r => r.id), errors) +
+          await deleteRowsIn("original_relationships", "id", originals.filter(r => !keys.original.has(`${r.account_id}:${r.seller_id}`)).map(r => r.id), errors);
+      }
+
+      if (teamKeys && results.manager_assignments) {
+        const keys = teamKeys;
+        const links = await fetchAllRows<{ id: string; seller_id: string; manager_id: string }>("seller_managers", "id,seller_id,manager_id");
+        results.manager_assignments.deleted = await deleteRowsIn(
+          "seller_managers",
+          "id",
+          links.filter(l => !keys.has(`${l.manager_id}:${l.seller_id}`)).map(l => l.id),
+          results.manager_assignments.errors
+        );
+      }
+
+      if (sellerIds && results.sellers) {
+        const keep = sellerIds;
+        const errors = results.sellers.errors;
+        const missing = (await fetchAllRows<{ id: string }>("sellers", "id")).map(s => s.id).filter(id => !keep.has(id));
+        if (missing.length > 0) {
+          await deleteRowsIn("seller_managers", "seller_id", missing, errors);
+          await deleteRowsIn("relationship_maps", "seller_id", missing, errors);
+          await deleteRowsIn("original_relationships", "seller_id", missing, errors);
+          results.sellers.deleted = await deleteRowsIn("sellers", "id", missing, errors);
+        }
+      }
+
+      if (accountIds && results.accounts) {
+        const keep = accountIds;
+        const errors = results.accounts.errors;
+        const missing = (await fetchAllRows<{ id: string }>("accounts", "id")).map(a => a.id).filter(id => !keep.has(id));
+        if (missing.length > 0) {
+          await deleteRowsIn("account_revenues", "account_id", missing, errors);
+          await deleteRowsIn("relationship_maps", "account_id", missing, errors);
+          await deleteRowsIn("original_relationships", "account_id", missing, errors);
+          results.accounts.deleted = await deleteRowsIn("accounts", "id", missing, errors);
+        }
+      }
+
+      if (managerIds && results.managers) {
+        const keep = managerIds;
+        const errors = results.managers.errors;
+        const missing = (await fetchAllRows<{ id: string }>("managers", "id")).map(m => m.id).filter(id => !keep.has(id));
+        if (missing.length > 0) {
+          const missingChunks = chunk(missing, RELATIONSHIP_BATCH_SIZE);
+          for (let i = 0; i < missingChunks.length; i++) {
+            const { error } = await supabase
+              .from("sellers")
+              .update({ manager_id: null })
+              .in("manager_id", missingChunks[i]);
+            if (error) errors.push({ batch: i + 1, error: `Failed to unassign sellers: ${error.message}` });
+          }
+          await deleteRowsIn("seller_managers", "manager_id", missing, errors);
+          results.managers.deleted = await deleteRowsIn("managers", "id", missing, errors);
+        }
+      }
+
+      Object.keys(results).forEach(key => {
+        if (results[key].deleted > 0) {
+          onProgress?.(`🗑️ ${key}: ${results[key].deleted} deleted`);
+        }
+      });
+    }
+
+    // Refresh materialized views to update dashboard data
+    onProgress?.("🔄 Refreshing materialized views after MERGE import...");
+    try {
+      await supabase.rpc('smart_refresh_performance_views');
+      onProgress?.("✅ Materialized views refreshed successfully");
+    } catch (refreshError) {
+      onProgress?.(`❌ Error refreshing materialized views: ${refreshError}`);
+      // Don't fail the import if refresh fails
+    }
+
+    // Log comprehensive audit event
+    if (userId) {
+      const auditData = createAuditLogData(
+        userId,
+        'data_import',
+        'COMPREHENSIVE_MERGE',
+        undefined,
+        null,
+        {
+          import_type: 'comprehensive_merge',
+          file_name: prepared.fileName,
+          file_size: prepared.fileSize,
+          delete_missing: options.deleteMissing,
+          policies: options.policies,
+          results: results
+        }
+      );
+
+      await logAuditEvent(auditData);
+    }
+
+    return results;
+  } catch (error) {
+    throw error;
+  }
+}
+
+// MERGE Mode: update managers matched on external ID or name, insert new ones
+async function importManagersMerge(rows: ManagerRow[], policies: MergeFieldPolicies, confirmedMatches: ConfirmedMatches) {
+  const [existing, profiles] = await Promise.all([
+    fetchAllRows<MatchedRecord & { user_id: string }>("managers", "id,name,external_id,user_id"),
+    fetchAllRows<{ id: string; email: string }>("profiles", "id,email"),
+  ]);
+
+  const profileIds = new Map(profiles.map(p => [p.email.toLowerCase(), p.id]));
+  const profileEmails = new Map(profiles.map(p => [p.id, p.email.toLowerCase()]));
+  const matcher = createNameMatcher("manager", existing, confirmedMatches);
+  const result: MergeResult = { imported: 0, updated: 0, deleted: 0, errors: [] };
+  const keep = new Set<string>();
+  const managersToInsert: Array<{ name: string; external_id: string | null; user_id: string }> = [];
+  const seenNames = new Set<string>();
+
+  for (const r of rows) {
+    if (!r.manager_name) continue;
+    const incoming = {
+      name: r.manager_name,
+      external_id: normalizeExternalId(r.manager_external_id),
+      manager_email: r.manager_email ? String(r.manager_email).trim().toLowerCase() : null,
+    };
+    const current = matcher.match(r.manager_name, r.manager_external_id) as (MatchedRecord & { user_id: string }) | null;
+
+    if (current) {
+      if (keep.has(current.id)) continue;
+      keep.add(current.id);
+
+      const { manager_email, ...changes } = mergeRecordChanges(
+        "managers",
+        { ...current, manager_email: profileEmails.get(current.user_id) ?? null },
+        incoming,
+        policies
+      );
+      if (manager_email) {
+        const profileId = profileIds.get(manager_email);
+        if (profileId) {
+          changes.user_id = profileId;
+        } else {
+          result.errors.push({ row: r.manager_name, error: `Manager email not found in profiles: ${manager_email}` });
+        }
+      }
+      if (Object.keys(changes).length === 0) continue;
+
+      const { error } = await (supabase as any)
+        .from("managers")
+        .update(changes)
+        .eq("id", current.id);
+
+      if (error) {
+        result.errors.push({ row: r.manager_name, error: error.message });
+      } else {
+        result.updated++;
+      }
+    } else {
+      if (seenNames.has(r.manager_name)) continue;
+      seenNames.add(r.manager_name);
+
+      const profileId = incoming.manager_email ? profileIds.get(incoming.manager_email) : undefined;
+      if (!profileId) {
+        result.errors.push({ row: r.manager_name, error: `Manager email not found in profiles: ${r.manager_email ?? "(blank)"}` });
+        continue;
+      }
+      managersToInsert.push({ name: incoming.name, external_id: incoming.external_id, user_id: profileId });
+    }
+  }
+
+  const managerChunks = chunk(managersToInsert, BATCH_SIZE);
+  for (let i = 0; i < managerChunks.length; i++) {
+    const { data, error } = await supabase
+      .from("managers")
+      .insert(managerChunks[i])
+      .select("id");
+
+    if (error) {
+      result.errors.push({ batch: i + 1, error });
+    } else {
+      data?.forEach(m => keep.add(m.id));
+      result.imported += managerChunks[i].length;
+    }
+  }
+
+  return { ...result, keep };
+}
+
+// MERGE Mode: update accounts and their revenue field by field, insert new ones
+async function importAccountsMerge(rows: AccountRow[], policies: MergeFieldPolicies, confirmedMatches: ConfirmedMatches) {
+  const divisionMap: Record<string, string> = {
+    "ESG": "ESG",
+    "GDT": "GDT",
+    "GVC": "GVC",
+    "MSG US": "MSG_US",
+    "MSG_US": "MSG_US",
+    "Mixed": "MIXED",
+  };
+
+  const sizeMap: Record<string, string> = {
+    "enterprise": "enterprise",
+    "Enterprise": "enterprise",
+    "ENTERPRISE": "enterprise",
+    "midmarket": "midmarket",
+    "Midmarket": "midmarket",
+    "MIDMARKET": "midmarket",
+    "no_data": "no_data",
+    "No data": "no_data",
+    "No Data": "no_data",
+    "NO_DATA": "no_data",
+    "-": "no_data",
+    "N/A": "no_data",
+    "Unknown": "no_data",
+  };
+
+  const [existing, revenues] = await Promise.all([
+    fetchAllRows<MatchedRecord & Record<string, any>>("accounts", "id,name,external_id,industry,size,tier,type,state,city,country,lat,lng,current_division"),
+    fetchAllRows<Record<string, any>>("account_revenues", "account_id,revenue_esg,revenue_gdt,revenue_gvc,revenue_msg_us"),
+  ]);
+
+  const revenueByAccountId = new Map(revenues.map(r => [r.account_id as string, r]));
+  const matcher = createNameMatcher("account", existing, confirmedMatches);
+  const result: MergeResult = { imported: 0, updated: 0, deleted: 0, errors: [] };
+  const keep = new Set<string>();
+  const accountsToInsert: any[] = [];
+  const revenuesToInsert = new Map<string, Record<string, number>>();
+
+  for (const r of rows) {
+    if (!r.account_name) continue;
+
+    const division = r.current_division ? divisionMap[r.current_division] : null;
+    const size = r.size ? sizeMap[r.size] : null;
+    if (division === undefined || size === undefined) {
+      result.errors.push({ row: r.account_name, error: division === undefined ? `Invalid division: ${r.current_division}` : `Invalid size: ${r.size}` });
+      continue;
+    }
+
+    const { lat, lng } = mergeCoordinates(r);
+    const incoming = {
+      name: r.account_name,
+      external_id: normalizeExternalId(r.account_external_id),
+      industry: r.industry,
+      size,
+      tier: r.tier,
+      type: r.type,
+      state: r.state,
+      city: r.city,
+      country: r.country,
+      lat,
+      lng,
+      current_division: division,
+    };
+    const incomingRevenue = {
+      revenue_esg: r.revenue_ESG ?? null,
+      revenue_gdt: r.revenue_GDT ?? null,
+      revenue_gvc: r.revenue_GVC ?? null,
+      revenue_msg_us: r.revenue_MSG_US ?? null,
+    };
+    const current = matcher.match(r.account_name, r.account_external_id);
+
+    if (current) {
+      if (keep.has(current.id)) continue;
+      keep.add(current.id);
+
+      let updated = false;
+      const changes = mergeRecordChanges("accounts", current, incoming, policies);
+      if (Object.keys(changes).length > 0) {
+        const { error } = await (supabase as any)
+          .from("accounts")
+          .update(changes)
+          .eq("id", current.id);
+
+        if (error) {
+          result.errors.push({ row: r.account_name, error: error.message });
+        } else {
+          updated = true;
+        }
+      }
+
+      const currentRevenue = revenueByAccountId.get(current.id);
+      const revenueChanges = mergeChanges("accounts", currentRevenue ?? {}, incomingRevenue, policies);
+      if (Object.keys(revenueChanges).length > 0) {
+        const { error } = currentRevenue
+          ? await supabase.from("account_revenues").update(revenueChanges).eq("account_id", current.id)
+          : await supabase.from("account_revenues").insert({
+              account_id: current.id,
+              revenue_esg: 0,
+              revenue_gdt: 0,
+              revenue_gvc: 0,
+              revenue_msg_us: 0,
+              ...revenueChanges,
+            });
+
+        if (error) {
+          result.errors.push({ row: r.account_name, error: `Revenue: ${error.message}` });
+        } else {
+          updated = true;
+        }
+      }
+
+      if (updated) result.updated++;
+    } else {
+      if (revenuesToInsert.has(r.account_name)) continue;
+      if (!division) {
+        result.errors.push({ row: r.account_name, error: "New accounts need a current_division" });
+        continue;
+      }
+
+      accountsToInsert.push({ ...incoming, size: size ?? "no_data" });
+      revenuesToInsert.set(r.account_name, {
+        revenue_esg: r.revenue_ESG ?? 0,
+        revenue_gdt: r.revenue_GDT ?? 0,
+        revenue_gvc: r.revenue_GVC ?? 0,
+        revenue_msg_us: r.revenue_MSG_US ?? 0,
+      });
+    }
+  }
+
+  const accountChunks = chunk(accountsToInsert, BATCH_SIZE);
+  const insertedAccounts: Array<{ id: string; name: string }> = [];
+
+  for (let i = 0; i < accountChunks.length; i++) {
+    const { data, error } = await supabase
+      .from("accounts")
+      .insert(accountChunks[i])
+      .select("id,name");
+
+    if (error) {
+      result.errors.push({ batch: i + 1, error });
+    } else {
+      if (data) insertedAccounts.push(...data);
+      result.imported += accountChunks[i].length;
+    }
+  }
+
+  insertedAccounts.forEach(a => keep.add(a.id));
+  const revenueChunks = chunk(
+    insertedAccounts.map(a => ({ account_id: a.id, ...revenuesToInsert.get(a.name)! })),
+    BATCH_SIZE
+  );
+
+  for (let i = 0; i < revenueChunks.length; i++) {
+    const { error } = await supabase
+      .from("account_revenues")
+      .insert(revenueChunks[i]);
+
+    if (error) {
+      result.errors.push({ batch: i + 1, error });
+    }
+  }
+
+  return { ...result, keep };
+}
+
+// MERGE Mode: update sellers field by field, insert new ones. Manager
+// assignments come from the Manager_Team sheet and are left alone here.
+async function importSellersMerge(rows: SellerRow[], policies: MergeFieldPolicies, confirmedMatches: ConfirmedMatches) {
+  const divisionMap: Record<string, string> = {
+    "ESG": "ESG",
+    "GDT": "GDT",
+    "GVC": "GVC",
+    "MSG US": "MSG_US",
+    "MSG_US": "MSG_US",
+    "Mixed": "MIXED",
+  };
+
+  const sizeMap: Record<string, string> = {
+    "enterprise": "enterprise",
+    "Enterprise": "enterprise",
+    "ENTERPRISE": "enterprise",
+    "midmarket": "midmarket",
+    "Midmarket": "midmarket",
+    "MIDMARKET": "midmarket",
+    "no_data": "no_data",
+    "No data": "no_data",
+    "No Data": "no_data",
+    "NO_DATA": "no_data",
+    "-": "midmarket",
+    "N/A": "midmarket",
+    "Unknown": "midmarket",
+  };
+
+  const existing = await fetchAllRows<MatchedRecord & Record<string, any>>(
+    "sellers",
+    "id,name,external_id,division,size,industry_specialty,state,city,country,lat,lng,tenure_months,seniority_type,book_finalized"
+  );
+
+  const matcher = createNameMatcher("seller", existing, confirmedMatches);
+  const result: MergeResult = { imported: 0, updated: 0, deleted: 0, errors: [] };
+  const keep = new Set<string>();
+  const sellersToInsert: any[] = [];
+  const seenNames = new Set<string>();
+
+  for (const r of rows) {
+    if (!r.seller_name) continue;
+
+    const division = r.division ? divisionMap[r.division] : null;
+    const size = r.size ? sizeMap[r.size] : null;
+    if (division === undefined || size === undefined) {
+      result.errors.push({ row: r.seller_name, error: division === undefined ? `Invalid division: ${r.division}` : `Invalid size: ${r.size}` });
+      continue;
+    }
+
+    const { lat, lng } = mergeCoordinates(r);
+    const incoming = {
+      name: r.seller_name,
+      external_id: normalizeExternalId(r.seller_external_id),
+      division,
+      size,
+      industry_specialty: r.industry_specialty,
+      state: r.state,
+      city: r.city,
+      country: r.country,
+      lat,
+      lng,
+      tenure_months: r.hire_date ? calculateTenureMonths(r.hire_date) : null,
+      seniority_type: r.seniority_type || null,
+      book_finalized: r.book_finalized ?? null,
+    };
+    const current = matcher.match(r.seller_name, r.seller_external_id);
+
+    if (current) {
+      if (keep.has(current.id)) continue;
+      keep.add(current.id);
+
+      const changes = mergeRecordChanges("sellers", current, incoming, policies);
+      if (Object.keys(changes).length === 0) continue;
+
+      const { error } = await (supabase as any)
+        .from("sellers")
+        .update(changes)
+        .eq("id", current.id);
+
+      if (error) {
+        result.errors.push({ row: r.seller_name, error: error.message });
+      } else {
+        result.updated++;
+      }
+    } else {
+      if (seenNames.has(r.seller_name)) continue;
+      seenNames.add(r.seller_name);
+      if (!division) {
+        result.errors.push({ row: r.seller_name, error: "New sellers need a division" });
+        continue;
+      }
+
+      sellersToInsert.push({
+        ...incoming,
+        size: size ?? "midmarket",
+        manager_id: null, // Will be assigned later via ManagerTeam import
+        book_finalized: incoming.book_finalized || false,
+      });
+    }
+  }
+
+  const sellerChunks = chunk(sellersToInsert, BATCH_SIZE);
+  for (let i = 0; i < sellerChunks.length; i++) {
+    const { data, error } = await supabase
+      .from("sellers")
+      .insert(sellerChunks[i])
+      .select("id");
+
+    if (error) {
+      result.errors.push({ batch: i + 1, error });
+    } else {
+      data?.forEach(s => keep.add(s.id));
+      result.imported += sellerChunks[i].length;
+    }
+  }
+
+  return { ...result, keep };
+}
+
+// MERGE Mode: update relationship statuses per policy, insert new relationships
+async function importRelationshipMapMerge(rows: RelRow[], policies: MergeFieldPolicies, confirmedMatches: ConfirmedMatches) {
+  const [accounts, sellers, relationships] = await Promise.all([
+    fetchAllRows<MatchedRecord>("accounts", "id,name,external_id"),
+    fetchAllRows<MatchedRecord>("sellers", "id,name,external_id"),
+    fetchAllRows<{ account_id: string; seller_id: string; status: string; imported_status: string | null }>(
+      "relationship_maps",
+      "account_id,seller_id,status,imported_status"
+    ),
+  ]);
+
+  const accountMatcher = createNameMatcher("account", accounts, confirmedMatches);
+  const sellerMatcher = createNameMatcher("seller", sellers, confirmedMatches);
+  const currentByKey = new Map(relationships.map(r => [`${r.account_id}:${r.seller_id}`, r]));
+  const result: MergeResult = { imported: 0, updated: 0, deleted: 0, errors: [] };
+  const keep = { active: new Set<string>(), original: new Set<string>() };
+  const skipped: string[] = [];
+  const relationshipsToInsert: Array<{ account_id: string; seller_id: string; status: any; imported_status: any }> = [];
+  const originalRelationships: Array<{ account_id: string; seller_id: string }> = [];
+
+  for (const r of rows) {
+    if (!r.account_name || !r.seller_name) continue;
+
+    const accountId = accountMatcher.match(r.account_name, r.account_external_id)?.id;
+    const sellerId = sellerMatcher.match(r.seller_name, r.seller_external_id)?.id;
+    if (!accountId || !sellerId) {
+      skipped.push(relationshipKey(r.account_name, r.seller_name));
+      continue;
+    }
+
+    const key = `${accountId}:${sellerId}`;
+    if ((r.status || "").toLowerCase() === "original") {
+      if (!keep.original.has(key)) {
+        keep.original.add(key);
+        originalRelationships.push({ account_id: accountId, seller_id: sellerId });
+      }
+      continue;
+    }
+
+    const status = statusMap[r.status || "must_keep"];
+    if (!status) {
+      result.errors.push({ row: relationshipKey(r.account_name, r.seller_name), error: `Invalid status: ${r.status}` });
+      continue;
+    }
+    if (keep.active.has(key)) continue;
+    keep.active.add(key);
+
+    const current = currentByKey.get(key);
+    if (!current) {
+      relationshipsToInsert.push({ account_id: accountId, seller_id: sellerId, status, imported_status: status });
+      continue;
+    }
+
+    // Statuses without an imported_status were set in the app
+    const changedInApp = current.imported_status !== current.status;
+    const changes = mergeChanges("relationships", current, { status }, policies, changedInApp);
+    // Once the file agrees with a status changed in the app, it counts as imported again
+    const update = changes.status
+      ? { status: changes.status, imported_status: changes.status }
+      : current.status === status && changedInApp ? { imported_status: status } : null;
+    if (!update) continue;
+
+    const { error } = await (supabase as any)
+      .from("relationship_maps")
+      .update(update)
+      .eq("account_id", accountId)
+      .eq("seller_id", sellerId);
+
+    if (error) {
+      result.errors.push({ row: relationshipKey(r.account_name, r.seller_name), error: error.message });
+    } else if (changes.status) {
+      result.updated++;
+    }
+  }
+
+  const relChunks = chunk(relationshipsToInsert, RELATIONSHIP_BATCH_SIZE);
+  for (let i = 0; i < relChunks.length; i++) {
+    const { error } = await (supabase as any)
+      .from("relationship_maps")
+      .insert(relChunks[i]);
+
+    if (error) {
+      result.errors.push({ batch: i + 1, error: `Batch ${i + 1} failed: ${error.message}` });
+    } else {
+      result.imported += relChunks[i].length;
+    }
+  }
+
+  const snapshotChunks = chunk(originalRelationships, RELATIONSHIP_BATCH_SIZE);
+  for (let i = 0; i < snapshotChunks.length; i++) {
+    const { error } = await supabase
+      .from("original_relationships")
+      .upsert(snapshotChunks[i], {
+        onConflict: "account_id,seller_id",
+        ignoreDuplicates: false
+      });
+
+    if (error) {
+      result.errors.push({ batch: i + 1, error: `Failed to add original relationships batch ${i + 1}: ${error.message}` });
+    }
+  }
+
+  return { ...result, keep, skipped };
+}
+
+// MERGE Mode: add missing manager team links, update is_primary per policy
+async function importManagerTeamMerge(rows: ManagerTeamRow[], policies: MergeFieldPolicies, confirmedMatches: ConfirmedMatches) {
+  const [managers, sellers, links] = await Promise.all([
+    fetchAllRows<MatchedRecord>("managers", "id,name,external_id"),
+    fetchAllRows<MatchedRecord>("sellers", "id,name,external_id"),
+    fetchAllRows<{ id: string; seller_id: string; manager_id: string; is_primary: boolean | null }>(
+      "seller_managers",
+      "id,seller_id,manager_id,is_primary"
+    ),
+  ]);
+
+  const managerMatcher = createNameMatcher("manager", managers, confirmedMatches);
+  const sellerMatcher = createNameMatcher("seller", sellers, confirmedMatches);
+  const currentByKey = new Map(links.map(l => [`${l.manager_id}:${l.seller_id}`, l]));
+  const result: MergeResult = { imported: 0, updated: 0, deleted: 0, errors: [] };
+  const keep = new Set<string>();
+
+  for (const r of rows) {
+    if (!r.manager_name || !r.seller_name) continue;
+
+    const managerId = managerMatcher.match(r.manager_name, r.manager_external_id)?.id;
+    const sellerId = sellerMatcher.match(r.seller_name, r.seller_external_id)?.id;
+    if (!managerId || !sellerId) continue;
+
+    const key = `${managerId}:${sellerId}`;
+    if (keep.has(key)) continue;
+    keep.add(key);
+
+    const current = currentByKey.get(key);
+    if (current) {
+      const changes = mergeChanges("manager_team", current, { is_primary: r.is_primary ?? null }, policies);
+      if (Object.keys(changes).length === 0) continue;
+
+      const { error } = await (supabase as any)
+        .from("seller_managers")
+        .update(changes)
+        .eq("id", current.id);
+
+      if (error) {
+        result.errors.push({ seller_id: sellerId, manager_id: managerId, error });
+      } else {
+        result.updated++;
+      }
+    } else {
+      const { error } = await supabase
+        .from("seller_managers")
+        .insert({
+          seller_id: sellerId,
+          manager_id: managerId,
+          is_primary: r.is_primary ?? true // Use Excel value or default to true
+        });
+
+      if (error) {
+        result.errors.push({ seller_id: sellerId, manager_id: managerId, error });
+      } else {
+        result.imported++;
+      }
+    }
+  }
+
+  return { ...result, keep };
+}
+
+// ========== Individual Import Functions (Upsert Operations) ==========
+
+// Individual Sellers Import (Upsert - preserves existing relationships)
+export async function importSellersIndividual(prepared: PreparedImport, userId?: string, onProgress?: ImportProgressCallback) {
+  await snapshotBeforeImport(prepared.fileName, onProgress);
+  
+  const rows = (prepared.rows["Sellers"] ?? []) as SellerRow[];
+
+  if (rows.length === 0) throw new Error("Sellers file is empty");
+
+  const required = ["seller_name", "division", "size"];
+  for (const r of required) {
+    if (!(rows[0] as any)?.[r]) {
+      throw new Error(`Sellers file missing required column: ${r}`);
+    }
+  }
+
+  const divisionMap: Record<string, string> = {
+    "ESG": "ESG",
+    "GDT": "GDT",
+    "GVC": "GVC",
+    "MSG US": "MSG_US",
+    "MSG_US": "MSG_US",
+    "Mixed": "MIXED",
+  };
+
+  const sizeMap: Record<string, string> = {
+    "enterprise": "enterprise",
+    "Enterprise": "enterprise",
+    "ENTERPRISE": "enterprise",
+    "midmarket": "midmarket", 
+    "Midmarket": "midmarket",
+    "MIDMARKET": "midmarket",
+    "no_data": "no_data",
+    "No data": "no_data",
     "No Data": "no_data",
     "NO_DATA": "no_data",
     "-": "midmarket",
@@ -2250,6 +2775,7 @@ export async function importSellersIndividual(file: File, userId?: string, onPro
 
       return {
         name: r.seller_name,
+        external_id: normalizeExternalId(r.seller_external_id),
         division: normalizedDivision as any,
         size: normalizedSize as any,
         industry_specialty: r.industry_specialty,
@@ -2265,6 +2791,8 @@ export async function importSellersIndividual(file: File, userId?: string, onPro
     });
 
 
+  await renameByExternalId("sellers", sellersToUpsert);
+
   // Batch upsert sellers (preserves existing manager_id and relationships)
   const sellerChunks = chunk(sellersToUpsert, BATCH_SIZE);
 
@@ -2295,20 +2823,23 @@ export async function importSellersIndividual(file: File, userId?: string, onPro
       {
         import_type: 'sellers_individual',
         records_count: sellersToUpsert.length,
-        file_name: file.name,
-        file_size: file.size,
+        file_name: prepared.fileName,
+        file_size: prepared.fileSize,
         operation: 'upsert',
       }
     );
     
     await logAuditEvent(auditData);
   }
+
+  return { sellers: { imported: sellersToUpsert.length, errors: [] as any[] } };
 }
 
 // Individual Accounts Import (Upsert - preserves existing relationships)
-export async function importAccountsIndividual(file: File, userId?: string, onProgress?: ImportProgressCallback) {
-  const wb = await readSheet(file);
-  const rows = sheetToJson<AccountRow>(wb);
+export async function importAccountsIndividual(prepared: PreparedImport, userId?: string, onProgress?: ImportProgressCallback) {
+  await snapshotBeforeImport(prepared.fileName, onProgress);
+  
+  const rows = (prepared.rows["Accounts"] ?? []) as AccountRow[];
 
   if (rows.length === 0) throw new Error("Accounts file is empty");
 
@@ -2361,6 +2892,7 @@ export async function importAccountsIndividual(file: File, userId?: string, onPr
       
       return {
         name: r.account_name,
+        external_id: normalizeExternalId(r.account_external_id),
         industry: r.industry,
         size: normalizedSize as any,
         tier: r.tier,
@@ -2378,7 +2910,12 @@ export async function importAccountsIndividual(file: File, userId?: string, onPr
   const uniqueAccounts = accountsToUpsert.filter((account, index, self) => 
     index === self.findIndex(a => a.name === account.name)
   );
+  const errors: any[] = accountsToUpsert
+    .filter((account, index, self) => index !== self.findIndex(a => a.name === account.name))
+    .map(account => ({ row: account.name, error: "Duplicate account name, only the first row was imported" }));
+
 
+  await renameByExternalId("accounts", uniqueAccounts);
 
   // Batch upsert accounts (preserves existing relationships)
   const accountChunks = chunk(uniqueAccounts, BATCH_SIZE);
@@ -2444,8 +2981,8 @@ export async function importAccountsIndividual(file: File, userId?: string, onPr
       {
         import_type: 'accounts_individual',
         records_count: uniqueAccounts.length,
-        file_name: file.name,
-        file_size: file.size,
+        file_name: prepared.fileName,
+        file_size: prepared.fileSize,
         revenue_records_count: uniqueRevenues.length,
         operation: 'upsert',
       }
@@ -2453,148 +2990,8 @@ export async function importAccountsIndividual(file: File, userId?: string, onPr
     
     await logAuditEvent(auditData);
   }
-}
-
-// ========== Country & State Mapping ==========
-import countryMap from '../../countrymap.json';
-import countryIso from '../../countryiso.json';
-import stateMap from '../../statemap.json';
 
-interface CountryMapping {
-  country: string;
-  latitude: number;
-  longitude: number;
-}
-
-interface CountryIso {
-  Name: string;
-  Code: string;
-}
-
-interface StateMapping {
-  state: string;
-  latitude: number;
-  longitude: number;
-  name: string;
-}
-
-// Get country mapping for lat/lng lookup
-export function getCountryCoordinates(countryCode: string): { latitude: number; longitude: number } | null {
-  const mapping = (countryMap as CountryMapping[]).find(c => c.country === countryCode);
-  return mapping ? { latitude: mapping.latitude, longitude: mapping.longitude } : null;
-}
-
-// Get state mapping for lat/lng lookup
-export function getStateCoordinates(stateCode: string): { latitude: number; longitude: number } | null {
-  const mapping = (stateMap as StateMapping[]).find(s => s.state === stateCode);
-  return mapping ? { latitude: mapping.latitude, longitude: mapping.longitude } : null;
-}
-
-// Get all available country codes for dropdown
-export function getAvailableCountryCodes(): string[] {
-  const countryCodes = (countryMap as CountryMapping[]).map(c => c.country);
-  return ["N/A", ...countryCodes]; // Add "N/A" option
-}
-
-// Get all available state codes for dropdown
-export function getAvailableStateCodes(): string[] {
-  const stateCodes = (stateMap as StateMapping[]).map(s => s.state);
-  return ["N/A", ...stateCodes]; // Add "N/A" option
-}
-
-// Get country reference data for template
-export function getCountryReferenceData(): Array<{country_name: string, country_code: string}> {
-  const countryData = (countryIso as CountryIso[]).map(c => ({
-    country_name: c.Name,
-    country_code: c.Code
-  }));
-  
-  // Add "No data" option at the beginning
-  return [
-    { country_name: "No data", country_code: "N/A" },
-    ...countryData
-  ];
-}
-
-// Get state reference data for template
-export function getStateReferenceData(): Array<{state_name: string, state_code: string}> {
-  const stateData = (stateMap as StateMapping[]).map(s => ({
-    state_name: s.name,
-    state_code: s.state
-  }));
-  
-  // Add "No data" option at the beginning
-  return [
-    { state_name: "No data", state_code: "N/A" },
-    ...stateData
-  ];
-}
-
-
-// Calculate tenure months from hire date
-export function calculateTenureMonths(hireDate: string | Date | number): number | null {
-  if (!hireDate) return null;
-  
-  try {
-    let hire: Date;
-    
-    // Handle different input types
-    if (typeof hireDate === 'string') {
-      // Handle mm/dd/yy format specifically
-      if (hireDate.includes('/')) {
-        const parts = hireDate.split('/');
-        if (parts.length === 3) {
-          const month = parseInt(parts[0], 10);
-          const day = parseInt(parts[1], 10);
-          let year = parseInt(parts[2], 10);
-          
-          // Convert 2-digit year to 4-digit year
-          if (year < 100) {
-            // Assume years 00-30 are 2000-2030, years 31-99 are 1931-1999
-            year += year <= 30 ? 2000 : 1900;
-          }
-          
-          hire = new Date(year, month - 1, day); // month is 0-indexed in Date constructor
-        } else {
-          hire = new Date(hireDate);
-        }
-      } else {
-        hire = new Date(hireDate);
-      }
-    } else if (typeof hireDate === 'number') {
-      // Handle Excel serial number dates (days since 1900-01-01)
-      // Excel serial numbers for dates are typically > 1 (1900-01-01 = 1)
-      if (hireDate > 1 && hireDate < 100000) {
-        // This looks like an Excel serial number
-        const excelEpoch = new Date(1900, 0, 1); // January 1, 1900
-        hire = new Date(excelEpoch.getTime() + (hireDate - 2) * 24 * 60 * 60 * 1000);
-      } else {
-        // Treat as timestamp
-        hire = new Date(hireDate);
-      }
-    } else if (hireDate instanceof Date) {
-      // Already a Date object
-      hire = hireDate;
-    } else {
-      // Fallback to Date constructor
-      hire = new Date(hireDate);
-    }
-    
-    const now = new Date();
-    
-    // Check if the date is valid
-    if (isNaN(hire.getTime())) return null;
-    
-    // Calculate the difference in months
-    const yearDiff = now.getFullYear() - hire.getFullYear();
-    const monthDiff = now.getMonth() - hire.getMonth();
-    const totalMonths = yearDiff * 12 + monthDiff;
-    
-    // Ensure non-negative result
-    return Math.max(0, totalMonths);
-  } catch (error) {
-    return null;
-  }
+  return { accounts: { imported: uniqueAccounts.length, errors } };
 }
 
 // ========== Template Generation ==========
@@ -2609,6 +3006,7 @@ export function downloadTemplate(type: "accounts" | "sellers" | "managers" | "re
       templateData = [
         {
           account_name: "Example Corp",
+          account_external_id: "CRM-0001", // Optional - stable ID from your CRM
           industry: "Technology",
           size: "enterprise",
           tier: "Tier 1",
@@ -2631,6 +3029,7 @@ export function downloadTemplate(type: "accounts" | "sellers" | "managers" | "re
       templateData = [
         {
           seller_name: "John Smith",
+          seller_external_id: "EMP-1001", // Optional - stable ID from your HR system
           division: "ESG",
           size: "enterprise",
           industry_specialty: "Financial Services",
@@ -2649,7 +3048,8 @@ export function downloadTemplate(type: "accounts" | "sellers" | "managers" | "re
       templateData = [
         {
           manager_name: "Jane Manager",
-          manager_email: "jane.manager@company.com"
+          manager_email: "jane.manager@company.com",
+          manager_external_id: "EMP-2001" // Optional - stable ID from your HR system
         }
       ];
       filename = "Managers_Template.xlsx";
@@ -2661,7 +3061,9 @@ export function downloadTemplate(type: "accounts" | "sellers" | "managers" | "re
         {
           account_name: "Example Corp",
           seller_name: "John Smith",
-          status: "original"
+          status: "original",
+          account_external_id: "CRM-0001", // Optional - matched before names
+          seller_external_id: "EMP-1001"
         },
         {
           account_name: "Tech Solutions Inc",
@@ -2688,7 +3090,9 @@ export function downloadTemplate(type: "accounts" | "sellers" | "managers" | "re
         {
           manager_name: "Jane Manager",
           seller_name: "John Smith",
-          is_primary: true
+          is_primary: true,
+          manager_external_id: "EMP-2001", // Optional - matched before names
+          seller_external_id: "EMP-1001"
         }
       ];
       filename = "ManagerTeam_Template.xlsx";
@@ -2719,7 +3123,8 @@ export function downloadTemplate(type: "accounts" | "sellers" | "managers" | "re
     const noteRow = [
       "NOTE: account_name and seller_name are used for user-friendly imports.",
       "The system automatically maps these names to the corresponding UUIDs in the database.",
-      "Make sure account and seller names match exactly with existing records."
+      "Optional account_external_id / seller_external_id columns are matched first, so renamed records still link.",
+      "Names that only nearly match are listed in the import preview for confirmation."
     ];
     XLSX.utils.sheet_add_aoa(ws, [noteRow], { origin: -1 });
   }
@@ -2728,7 +3133,7 @@ export function downloadTemplate(type: "accounts" | "sellers" | "managers" | "re
     const noteRow = [
       "NOTE: manager_name and seller_name are used for user-friendly imports.",
       "The system automatically maps these names to the corresponding UUIDs in the database.",
-      "Make sure manager and seller names match exactly with existing records.",
+      "Optional manager_external_id / seller_external_id columns are matched first, so renamed records still link.",
       "is_primary column: Set to TRUE for the primary manager, FALSE for secondary managers.",
       "If not specified, defaults to TRUE (primary manager)."
     ];
@@ -2765,6 +3170,7 @@ export function downloadComprehensiveTemplate() {
   const accountsData = [
     {
       account_name: "Example Corp",
+      account_external_id: "CRM-0001", // Optional - stable ID from your CRM
       industry: "Technology",
       size: "enterprise",
       tier: "Tier 1",
@@ -2780,6 +3186,7 @@ export function downloadComprehensiveTemplate() {
     },
     {
       account_name: "Tech Solutions Inc",
+      account_external_id: "CRM-0002",
       industry: "Financial Services",
       size: "midmarket",
       tier: "Tier 2",
@@ -2802,6 +3209,7 @@ export function downloadComprehensiveTemplate() {
   const sellersData = [
     {
       seller_name: "John Smith",
+      seller_external_id: "EMP-1001", // Optional - stable ID from your HR system
       division: "ESG",
       size: "enterprise",
       industry_specialty: "Financial Services",
@@ -2814,6 +3222,7 @@ export function downloadComprehensiveTemplate() {
     },
     {
       seller_name: "Sarah Johnson",
+      seller_external_id: "EMP-1002",
       division: "GDT",
       size: "midmarket",
       industry_specialty: "Technology",
@@ -2833,11 +3242,13 @@ export function downloadComprehensiveTemplate() {
   const managersData = [
     {
       manager_name: "Jane Manager",
-      manager_email: "jane.manager@company.com"
+      manager_email: "jane.manager@company.com",
+      manager_external_id: "EMP-2001" // Optional - stable ID from your HR system
     },
     {
       manager_name: "Mike Director",
-      manager_email: "mike.director@company.com"
+      manager_email: "mike.director@company.com",
+      manager_external_id: "EMP-2002"
     }
   ];
   
@@ -2849,7 +3260,9 @@ export function downloadComprehensiveTemplate() {
     {
       account_name: "Example Corp",
       seller_name: "John Smith",
-      status: "original"
+      status: "original",
+      account_external_id: "CRM-0001", // Optional - matched before names
+      seller_external_id: "EMP-1001"
     },
     {
       account_name: "Tech Solutions Inc",
@@ -2876,7 +3289,9 @@ export function downloadComprehensiveTemplate() {
     {
       manager_name: "Jane Manager",
       seller_name: "John Smith",
-      is_primary: true
+      is_primary: true,
+      manager_external_id: "EMP-2001", // Optional - matched before names
+      seller_external_id: "EMP-1001"
     },
     {
       manager_name: "Mike Director",
@@ -2954,7 +3369,11 @@ export function downloadComprehensiveTemplate() {
     [""],
     ["IMPORTANT NOTES:"],
     ["• Manager emails must match existing user profiles"],
-    ["• Account and seller names must match exactly between tabs"],
+    ["• account_external_id, seller_external_id, manager_external_id (optional): stable IDs from your CRM/HR system"],
+    ["  - When present they are matched before names, so a renamed record keeps its relationships"],
+    ["  - A record's name is updated when its external ID arrives with a new name"],
+    ["• Names without an external ID match ignoring case, spacing and punctuation"],
+    ["• Names that only nearly match are listed in the import preview; confirm them there or the rows are skipped"],
     ["• Use ISO country codes (e.g., 'US', 'CA', 'GB') or 'N/A' for no data - see Country_Reference tab"],
     ["• Use state codes (e.g., 'CA', 'NY', 'TX') or 'N/A' for no data - see State_Reference tab"],
     ["• Use hire_date in MM/DD/YY format (e.g., '01/15/22') - tenure_months calculated automatically"],
@@ -2981,9 +3400,108 @@ export function downloadComprehensiveTemplate() {
   XLSX.writeFile(wb, "BAIN_Data_Import_Template.xlsx");
 }
 
+// ========== Import State (Rollback & Resume) ==========
+
+export type ComprehensiveImportStep =
+  | 'managers'
+  | 'accounts'
+  | 'sellers'
+  | 'relationships'
+  | 'manager_teams'
+  | 'chat_messages';
+
+export interface ComprehensiveImportState {
+  state: 'idle' | 'running' | 'interrupted' | 'completed' | 'rolled_back';
+  file_name: string | null;
+  file_size: number | null;
+  file_hash: string | null;
+  completed_steps: ComprehensiveImportStep[];
+  current_step: ComprehensiveImportStep | null;
+  backup_taken_at: string | null;
+  last_error: string | null;
+  updated_at: string;
+}
+
+export const COMPREHENSIVE_IMPORT_STEP_LABELS: Record<ComprehensiveImportStep, string> = {
+  managers: 'Managers',
+  accounts: 'Accounts',
+  sellers: 'Sellers',
+  relationships: 'Relationship Map',
+  manager_teams: 'Manager Teams',
+  chat_messages: 'Chat Messages',
+};
+
+/**
+ * Latest replace-mode import state, null if no replace import has run yet
+ */
+export async function getComprehensiveImportState(): Promise<ComprehensiveImportState | null> {
+  try {
+    const { data, error } = await (supabase as any)
+      .from('import_status')
+      .select('state, file_name, file_size, file_hash, completed_steps, current_step, backup_taken_at, last_error, updated_at')
+      .eq('id', 'comprehensive_import')
+      .maybeSingle();
+
+    if (error) throw error;
+    return data as ComprehensiveImportState | null;
+  } catch (error) {
+    throw error;
+  }
+}
+
+/**
+ * An import that stopped with its backup still in place can be resumed or rolled back
+ */
+export function isResumableImport(state: ComprehensiveImportState | null): boolean {
+  return !!state && (state.state === 'running' || state.state === 'interrupted') && !!state.backup_taken_at;
+}
+
+/**
+ * Restore the data backed up before the last replace import
+ */
+export async function rollbackComprehensiveImport(reason?: string): Promise<void> {
+  try {
+    const { error } = await (supabase as any).rpc('rollback_comprehensive_import', {
+      p_error: reason ?? null,
+    });
+
+    if (error) throw error;
+
+    // Restored rows are not in the materialized views yet
+    await supabase.rpc('refresh_performance_views_simple');
+  } catch (error) {
+    throw error;
+  }
+}
+
+async function recordImportStep(step: ComprehensiveImportStep, completed = false) {
+  const { error } = await (supabase as any).rpc('record_comprehensive_import_step', {
+    p_step: step,
+    p_completed: completed,
+  });
+
+  if (error) {
+    throw new Error(`Failed to record import progress: ${error.message}`);
+  }
+}
+
+// Dropped connections are resumable; anything else is rolled back
+function isNetworkError(error: unknown): boolean {
+  // Node has a navigator without onLine, so only an explicit false counts
+  if (typeof navigator !== 'undefined' && navigator.onLine === false) return true;
+  const message = error instanceof Error ? error.message : String(error);
+  return /failed to fetch|networkerror|network request failed|load failed/i.test(message);
+}
+
 // ========== Comprehensive Import Function ==========
 
-export async function importComprehensiveData(file: File, userId?: string, onProgress?: ImportProgressCallback) {
+export async function importComprehensiveData(
+  prepared: PreparedImport,
+  userId?: string,
+  onProgress?: ImportProgressCallback,
+  confirmedMatches: ConfirmedMatches = {},
+  signal?: AbortSignal
+) {
   // Initialize debugging
   currentDebugInfo = createDebugInfo();
   const debugStartTime = Date.now();
@@ -3007,19 +3525,29 @@ export async function importComprehensiveData(file: File, userId?: string, onPro
   }
   
   onProgress?.("🚀 Starting Comprehensive Data Import");
-  onProgress?.(`📁 File: ${file.name}, Size: ${file.size} bytes`);
+  onProgress?.(`📁 File: ${prepared.fileName}, Size: ${prepared.fileSize} bytes`);
   onProgress?.(`👤 User ID: ${userId}`);
   onProgress?.(`⏰ Start Time: ${new Date().toISOString()}`);
   
-  // Debug: File reading step
-  const fileReadStep = startStep("File Reading", undefined);
-  logMemoryUsage();
+  // Resumed imports keep the snapshot taken before the interrupted run
+  let resumingImport = false;
+  try {
+    const previousImport = await getComprehensiveImportState();
+    resumingImport = isResumableImport(previousImport) &&
+      !!prepared.fileHash &&
+      previousImport?.file_hash === prepared.fileHash;
+  } catch (error) {
+    console.log('Could not read previous import state:', error);
+  }
   
-  const wb = await readSheet(file);
-  endStep(fileReadStep, 0);
+  if (!resumingImport) {
+    await snapshotBeforeImport(prepared.fileName, onProgress);
+  }
   
-  onProgress?.(`📊 Available sheets: ${wb.SheetNames.join(', ')}`);
-  onProgress?.(`📋 Sheet count: ${wb.SheetNames.length}`);
+  // The file was parsed and validated in the import worker
+  const sheetNames = prepared.sheetNames;
+  onProgress?.(`📊 Available sheets: ${sheetNames.join(', ')}`);
+  onProgress?.(`📋 Sheet count: ${sheetNames.length}`);
   
   const results = {
     accounts: { imported: 0, errors: [] as string[] },
@@ -3030,14 +3558,49 @@ export async function importComprehensiveData(file: File, userId?: string, onPro
     chatMessages: { imported: 0, errors: [] as string[] }
   };
   
+  // Set once the pre-import backup exists, so failures can be rolled back
+  let backupReady = false;
+  
   try {
+    // Back up current data, or pick up an interrupted import of the same file
+    onProgress?.("💾 Backing up current data before replacing it...");
+    const { data: importState, error: beginError } = await (supabase as any).rpc('begin_comprehensive_import', {
+      p_file_name: prepared.fileName,
+      p_file_size: prepared.fileSize,
+      p_file_hash: prepared.fileHash ?? null,
+    });
+    
+    if (beginError) {
+      throw new Error(`Could not start import: ${beginError.message}`);
+    }
+    
+    backupReady = true;
+    const completedSteps: ComprehensiveImportStep[] = importState?.completed_steps || [];
+    
+    if (completedSteps.length > 0) {
+      onProgress?.(`⏯️ Resuming interrupted import - ${completedSteps.length} step(s) already completed`);
+    } else {
+      onProgress?.("✅ Backup created - any failure will restore it automatically");
+    }
+    
+    const skipCompletedStep = (step: ComprehensiveImportStep) => {
+      if (!completedSteps.includes(step)) return false;
+      onProgress?.(`⏭️ ${COMPREHENSIVE_IMPORT_STEP_LABELS[step]} already imported - skipping`);
+      return true;
+    };
+    
+    throwIfCancelled(signal);
+    
     // 1. Import Managers first (required for sellers)
-    if (wb.SheetNames.includes("Managers")) {
+    if (skipCompletedStep('managers')) {
+      // Done in the interrupted run
+    } else if (sheetNames.includes("Managers")) {
       const managersStep = startStep("Managers Import", undefined);
       logConnectionPoolStatus("Starting managers import");
       logMemoryUsage();
       
       try {
+        await recordImportStep('managers');
         onProgress?.("🗑️ Truncating managers table...");
         const truncateStart = Date.now();
         
@@ -3055,26 +3618,14 @@ export async function importComprehensiveData(file: File, userId?: string, onPro
         }
 
         onProgress?.("📊 Processing managers data...");
-        const managersData = sheetToJson<ManagerRow>(wb, "Managers");
+        const managersData = (prepared.rows["Managers"] ?? []) as ManagerRow[];
         onProgress?.(`📋 Found ${managersData.length} managers to import`);
         
         if (managersData.length > 0) {
-          onProgress?.("📁 Creating temporary file for managers...");
-          const tempFileStart = Date.now();
-          
-          // Create a temporary file for managers import
-          const tempWb = XLSX.utils.book_new();
-          const tempWs = XLSX.utils.json_to_sheet(managersData);
-          XLSX.utils.book_append_sheet(tempWb, tempWs, "Managers");
-          const tempFile = new File([XLSX.write(tempWb, { bookType: 'xlsx', type: 'array' })], "temp_managers.xlsx");
-          
-          const tempFileDuration = Date.now() - tempFileStart;
-          onProgress?.(`⏱️ Temp file created in ${tempFileDuration}ms`);
-          
           onProgress?.("💾 Importing managers to database...");
           const importStart = Date.now();
           
-          await importManagers(tempFile, userId);
+          await importManagers(managersData, prepared, userId);
           results.managers.imported = managersData.length;
           
           const importDuration = Date.now() - importStart;
@@ -3086,24 +3637,33 @@ export async function importComprehensiveData(file: File, userId?: string, onPro
           onProgress?.("⚠️ No manager data found in Managers sheet");
           endStep(managersStep, 0);
         }
+        
+        await recordImportStep('managers', true);
       } catch (error) {
         const errorMsg = `Manager import failed: ${error}`;
         results.managers.errors.push(errorMsg);
         logError(errorMsg, "Managers Import");
         endStep(managersStep, 0, [errorMsg]);
         onProgress?.(`❌ Managers import failed: ${error}`);
+        throw new Error(errorMsg);
       }
     } else {
       onProgress?.("⚠️ No Managers sheet found in Excel file");
     }
     
+    throwIfCancelled(signal);
+    
     // 2. Import Accounts
-    if (wb.SheetNames.includes("Accounts")) {
+    if (skipCompletedStep('accounts')) {
+      // Done in the interrupted run
+    } else if (sheetNames.includes("Accounts")) {
       const accountsStep = startStep("Accounts Import", undefined);
       logConnectionPoolStatus("Starting accounts import");
       logMemoryUsage();
       
       try {
+        await recordImportStep('accounts');
+        
         // Skip index dropping - the real bottleneck was concurrent processes, not indexes
         onProgress?.("⚡ Skipping account index optimization - process management is the key");
 
@@ -3154,25 +3714,14 @@ export async function importComprehensiveData(file: File, userId?: string, onPro
         onProgress?.(`⏱️ Truncate completed in ${truncateDuration}ms`);
 
         onProgress?.("📊 Processing accounts data...");
-        const accountsData = sheetToJson<AccountRow>(wb, "Accounts");
+        const accountsData = (prepared.rows["Accounts"] ?? []) as AccountRow[];
         onProgress?.(`📋 Found ${accountsData.length} accounts to import`);
         
         if (accountsData.length > 0) {
-          onProgress?.("📁 Creating temporary file for accounts...");
-          const tempFileStart = Date.now();
-          
-          const tempWb = XLSX.utils.book_new();
-          const tempWs = XLSX.utils.json_to_sheet(accountsData);
-          XLSX.utils.book_append_sheet(tempWb, tempWs, "Accounts");
-          const tempFile = new File([XLSX.write(tempWb, { bookType: 'xlsx', type: 'array' })], "temp_accounts.xlsx");
-          
-          const tempFileDuration = Date.now() - tempFileStart;
-          onProgress?.(`⏱️ Temp file created in ${tempFileDuration}ms`);
-          
           onProgress?.("💾 Importing accounts to database...");
           const importStart = Date.now();
           
-          await importAccounts(tempFile, userId);
+          await importAccounts(accountsData, prepared, userId);
           results.accounts.imported = accountsData.length;
           
           const importDuration = Date.now() - importStart;
@@ -3187,24 +3736,32 @@ export async function importComprehensiveData(file: File, userId?: string, onPro
           onProgress?.("⚠️ No account data found in Accounts sheet");
           endStep(accountsStep, 0);
         }
+        
+        await recordImportStep('accounts', true);
       } catch (error) {
         const errorMsg = `Account import failed: ${error}`;
         results.accounts.errors.push(errorMsg);
         logError(errorMsg, "Accounts Import");
         endStep(accountsStep, 0, [errorMsg]);
         onProgress?.(`❌ Accounts import failed: ${error}`);
+        throw new Error(errorMsg);
       }
     } else {
       onProgress?.("⚠️ No Accounts sheet found in Excel file");
     }
     
+    throwIfCancelled(signal);
+    
     // 3. Import Sellers
-    if (wb.SheetNames.includes("Sellers")) {
+    if (skipCompletedStep('sellers')) {
+      // Done in the interrupted run
+    } else if (sheetNames.includes("Sellers")) {
       const sellersStep = startStep("Sellers Import", undefined);
       logConnectionPoolStatus("Starting sellers import");
       logMemoryUsage();
       
       try {
+        await recordImportStep('sellers');
         onProgress?.("🗑️ Truncating sellers table...");
         const truncateStart = Date.now();
         
@@ -3222,25 +3779,14 @@ export async function importComprehensiveData(file: File, userId?: string, onPro
         }
 
         onProgress?.("📊 Processing sellers data...");
-        const sellersData = sheetToJson<SellerRow>(wb, "Sellers");
+        const sellersData = (prepared.rows["Sellers"] ?? []) as SellerRow[];
         onProgress?.(`📋 Found ${sellersData.length} sellers to import`);
         
         if (sellersData.length > 0) {
-          onProgress?.("📁 Creating temporary file for sellers...");
-          const tempFileStart = Date.now();
-          
-          const tempWb = XLSX.utils.book_new();
-          const tempWs = XLSX.utils.json_to_sheet(sellersData);
-          XLSX.utils.book_append_sheet(tempWb, tempWs, "Sellers");
-          const tempFile = new File([XLSX.write(tempWb, { bookType: 'xlsx', type: 'array' })], "temp_sellers.xlsx");
-          
-          const tempFileDuration = Date.now() - tempFileStart;
-          onProgress?.(`⏱️ Temp file created in ${tempFileDuration}ms`);
-          
           onProgress?.("💾 Importing sellers to database...");
           const importStart = Date.now();
           
-          await importSellers(tempFile, userId);
+          await importSellers(sellersData, prepared, userId);
           results.sellers.imported = sellersData.length;
           
           const importDuration = Date.now() - importStart;
@@ -3252,20 +3798,29 @@ export async function importComprehensiveData(file: File, userId?: string, onPro
           onProgress?.("⚠️ No seller data found in Sellers sheet");
           endStep(sellersStep, 0);
         }
+        
+        await recordImportStep('sellers', true);
       } catch (error) {
         const errorMsg = `Seller import failed: ${error}`;
         results.sellers.errors.push(errorMsg);
         logError(errorMsg, "Sellers Import");
         endStep(sellersStep, 0, [errorMsg]);
         onProgress?.(`❌ Sellers import failed: ${error}`);
+        throw new Error(errorMsg);
       }
     } else {
       onProgress?.("⚠️ No Sellers sheet found in Excel file");
     }
     
+    throwIfCancelled(signal);
+    
     // 4. Import Relationship Map
-    if (wb.SheetNames.includes("Relationship_Map")) {
+    if (skipCompletedStep('relationships')) {
+      // Done in the interrupted run
+    } else if (sheetNames.includes("Relationship_Map")) {
       try {
+        await recordImportStep('relationships');
+        
         // Truncate relationship_maps and original_relationships tables first
         
         // Delete original_relationships first (foreign key constraint)
@@ -3291,41 +3846,54 @@ export async function importComprehensiveData(file: File, userId?: string, onPro
         // Skip index dropping - the real bottleneck was concurrent processes, not indexes
         onProgress?.("⚡ Skipping index optimization - process management is the key");
 
-        const relationshipData = sheetToJson<RelRow>(wb, "Relationship_Map");
+        const relationshipData = (prepared.rows["Relationship_Map"] ?? []) as RelRow[];
         
         if (relationshipData.length > 0) {
           // Direct bulk insert without batch processing (indexes already dropped)
           onProgress?.("🚀 Performing optimized bulk insert (indexes dropped)...");
           
-          try {
-            // Use the existing optimized import function but with bulk processing
-            onProgress?.(`📊 Processing ${relationshipData.length} relationships with bulk insert...`);
-            
-            // Call the existing optimized function but ensure it uses bulk processing
-            const relationshipResult = await importRelationshipMapAdd(relationshipData, userId);
-            results.relationships.imported = relationshipResult.imported;
-            results.relationships.errors.push(...relationshipResult.errors);
-            
-            onProgress?.(`✅ Relationships processed: ${relationshipResult.imported} imported, ${relationshipResult.errors.length} errors`);
-
-          } catch (error) {
-            results.relationships.errors.push(`Bulk relationship import failed: ${error}`);
-            onProgress?.(`❌ Relationship import failed: ${error}`);
+          // Use the existing optimized import function but with bulk processing
+          onProgress?.(`📊 Processing ${relationshipData.length} relationships with bulk insert...`);
+          
+          // Call the existing optimized function but ensure it uses bulk processing
+          const relationshipResult = await importRelationshipMapAdd(relationshipData, userId, confirmedMatches);
+          results.relationships.imported = relationshipResult.imported;
+          results.relationships.errors.push(...relationshipResult.errors);
+          
+          onProgress?.(`✅ Relationships processed: ${relationshipResult.imported} imported, ${relationshipResult.errors.length} errors`);
+          if (relationshipResult.skipped.length > 0) {
+            onProgress?.(`⚠️ ${relationshipResult.skipped.length} relationship row(s) skipped - no matching account or seller`);
+          }
+          
+          // A partially inserted relationship map is not kept
+          if (relationshipResult.errors.length > 0) {
+            throw new Error(`${relationshipResult.errors.length} relationship batch(es) failed`);
           }
           
           // Skip index recreation - indexes are kept for query performance
           onProgress?.("⚡ Keeping indexes for optimal query performance");
         } else {
         }
+        
+        await recordImportStep('relationships', true);
       } catch (error) {
-        results.relationships.errors.push(`Relationship import failed: ${error}`);
+        const errorMsg = `Relationship import failed: ${error}`;
+        results.relationships.errors.push(errorMsg);
+        onProgress?.(`❌ Relationship import failed: ${error}`);
+        throw new Error(errorMsg);
       }
     } else {
     }
     
+    throwIfCancelled(signal);
+    
     // 5. Import Manager Teams
-    if (wb.SheetNames.includes("Manager_Team")) {
+    if (skipCompletedStep('manager_teams')) {
+      // Done in the interrupted run
+    } else if (sheetNames.includes("Manager_Team")) {
       try {
+        await recordImportStep('manager_teams');
+        
         // Reset all seller manager_id fields to null first
         const { error: resetError } = await supabase
           .from("sellers")
@@ -3336,31 +3904,36 @@ export async function importComprehensiveData(file: File, userId?: string, onPro
           throw new Error(`Failed to reset seller manager assignments: ${resetError.message}`);
         }
 
-        const managerTeamData = sheetToJson<ManagerTeamRow>(wb, "Manager_Team");
+        const managerTeamData = (prepared.rows["Manager_Team"] ?? []) as ManagerTeamRow[];
         
         if (managerTeamData.length > 0) {
-          const tempWb = XLSX.utils.book_new();
-          const tempWs = XLSX.utils.json_to_sheet(managerTeamData);
-          XLSX.utils.book_append_sheet(tempWb, tempWs, "ManagerTeam");
-          const tempFile = new File([XLSX.write(tempWb, { bookType: 'xlsx', type: 'array' })], "temp_manager_teams.xlsx");
-          
-          await importManagerTeam(tempFile, userId);
+          await importManagerTeam(managerTeamData, prepared, userId, confirmedMatches);
           results.managerTeams.imported = managerTeamData.length;
         } else {
         }
+        
+        await recordImportStep('manager_teams', true);
       } catch (error) {
-        results.managerTeams.errors.push(`Manager team import failed: ${error}`);
+        const errorMsg = `Manager team import failed: ${error}`;
+        results.managerTeams.errors.push(errorMsg);
+        onProgress?.(`❌ Manager team import failed: ${error}`);
+        throw new Error(errorMsg);
       }
     } else {
     }
     
+    throwIfCancelled(signal);
+    
     // 6. Import Chat Messages
-    if (wb.SheetNames.includes("Chat_Messages")) {
+    if (skipCompletedStep('chat_messages')) {
+      // Done in the interrupted run
+    } else if (sheetNames.includes("Chat_Messages")) {
       const chatMessagesStep = startStep("Chat Messages Import", undefined);
       logConnectionPoolStatus("Starting chat messages import");
       logMemoryUsage();
       
       try {
+        await recordImportStep('chat_messages');
         onProgress?.("🗑️ Truncating chat messages table...");
         const truncateStart = Date.now();
         
@@ -3378,26 +3951,14 @@ export async function importComprehensiveData(file: File, userId?: string, onPro
         }
 
         onProgress?.("📊 Processing chat messages data...");
-        const chatMessagesData = sheetToJson<ChatMessageRow>(wb, "Chat_Messages");
+        const chatMessagesData = (prepared.rows["Chat_Messages"] ?? []) as ChatMessageRow[];
         onProgress?.(`📋 Found ${chatMessagesData.length} chat messages to import`);
         
         if (chatMessagesData.length > 0) {
-          onProgress?.("📁 Creating temporary file for chat messages...");
-          const tempFileStart = Date.now();
-          
-          // Create a temporary file for chat messages import
-          const tempWb = XLSX.utils.book_new();
-          const tempWs = XLSX.utils.json_to_sheet(chatMessagesData);
-          XLSX.utils.book_append_sheet(tempWb, tempWs, "Chat_Messages");
-          const tempFile = new File([XLSX.write(tempWb, { bookType: 'xlsx', type: 'array' })], "temp_chat_messages.xlsx");
-          
-          const tempFileDuration = Date.now() - tempFileStart;
-          onProgress?.(`⏱️ Temp file created in ${tempFileDuration}ms`);
-          
           onProgress?.("💾 Importing chat messages to database...");
           const importStart = Date.now();
           
-          await importChatMessages(tempFile, userId);
+          await importChatMessages(chatMessagesData, prepared, userId);
           results.chatMessages.imported = chatMessagesData.length;
           
           const importDuration = Date.now() - importStart;
@@ -3409,17 +3970,32 @@ export async function importComprehensiveData(file: File, userId?: string, onPro
           onProgress?.("⚠️ No chat message data found in Chat_Messages sheet");
           endStep(chatMessagesStep, 0);
         }
+        
+        await recordImportStep('chat_messages', true);
       } catch (error) {
         const errorMsg = `Chat messages import failed: ${error}`;
         results.chatMessages.errors.push(errorMsg);
         logError(errorMsg, "Chat Messages Import");
         endStep(chatMessagesStep, 0, [errorMsg]);
         onProgress?.(`❌ Chat messages import failed: ${error}`);
+        throw new Error(errorMsg);
       }
     } else {
       onProgress?.("⚠️ No Chat_Messages sheet found in Excel file");
     }
     
+    throwIfCancelled(signal);
+    
+    // Every step succeeded - the backup is no longer needed
+    const { error: finishError } = await (supabase as any).rpc('finish_comprehensive_import');
+    
+    if (finishError) {
+      throw new Error(`Failed to finalize import: ${finishError.message}`);
+    }
+    
+    backupReady = false;
+    onProgress?.("🧹 Import committed - backup removed");
+    
     // Release import lock first so materialized views can refresh
     try {
       const { data: lockReleased, error } = await supabase.rpc('release_import_lock', {
@@ -3473,8 +4049,8 @@ export async function importComprehensiveData(file: File, userId?: string, onPro
           null,
           {
             import_type: 'comprehensive',
-            file_name: file.name,
-            file_size: file.size,
+            file_name: prepared.fileName,
+            file_size: prepared.fileSize,
             results: results
           }
         );
@@ -3551,6 +4127,31 @@ export async function importComprehensiveData(file: File, userId?: string, onPro
     return results;
     
   } catch (error) {
+    let failure = error instanceof Error ? error : new Error(String(error));
+    
+    if (backupReady) {
+      if (isNetworkError(error)) {
+        // Keep the backup and completed steps so the same file can resume
+        onProgress?.("📡 Connection lost - import the same file again to resume from the last completed step");
+        try {
+          await (supabase as any).rpc('interrupt_comprehensive_import', { p_error: failure.message });
+        } catch (interruptError) {
+          console.log('Could not mark import as interrupted:', interruptError);
+        }
+        failure = new Error(`${failure.message}. The import was interrupted and can be resumed by importing the same file again.`);
+      } else {
+        onProgress?.("⏪ Rolling back to the data as it was before the import...");
+        try {
+          await rollbackComprehensiveImport(failure.message);
+          onProgress?.("✅ Rollback complete - existing data was restored");
+          failure = new Error(`${failure.message}. All changes were rolled back.`);
+        } catch (rollbackError) {
+          onProgress?.(`❌ Rollback failed: ${rollbackError}`);
+          failure = new Error(`${failure.message}. Rollback failed (${rollbackError}); the backup was kept and can be restored from the settings page.`);
+        }
+      }
+    }
+    
     // Trigger refresh event even on error
     try {
       if (typeof window !== 'undefined') {
@@ -3582,8 +4183,613 @@ export async function importComprehensiveData(file: File, userId?: string, onPro
     } catch (clearError) {
       console.log('Could not release import lock on error:', clearError);
     }
-    throw error;
+    throw failure;
+  }
+}
+
+// ========== DRY RUN PREVIEW ==========
+
+export interface ImportFieldChange {
+  field: string;
+  before: any;
+  after: any;
+}
+
+export interface ImportRowChange {
+  key: string;
+  changes: ImportFieldChange[];
+}
+
+export interface ImportSheetDiff {
+  sheet: string;
+  added: string[];
+  removed: string[];
+  changed: ImportRowChange[];
+  unchanged: number;
+  skipped: string[]; // Rows that reference accounts, sellers or managers that won't exist
+}
+
+export interface ImportLostRelationship {
+  account_name: string;
+  seller_name: string;
+  status: string;
+}
+
+export interface ImportHealthFlip {
+  seller_name: string;
+  revenue_before: number;
+  revenue_after: number;
+  accounts_before: number;
+  accounts_after: number;
+  is_revenue_healthy_before: boolean;
+  is_revenue_healthy_after: boolean;
+  is_account_healthy_before: boolean;
+  is_account_healthy_after: boolean;
+}
+
+export interface ImportDiff {
+  mode: 'comprehensive' | 'comprehensive_add' | 'comprehensive_merge';
+  sheets: ImportSheetDiff[];
+  lostRelationships: ImportLostRelationship[];
+  healthFlips: ImportHealthFlip[];
+  // Names that only resemble existing ones - imported once confirmed
+  nearMisses: NearMiss[];
+  // Skipped rows with their row numbers, for the error report
+  issues: ImportRowIssue[];
+}
+
+const previewDivisionMap: Record<string, string> = {
+  "ESG": "ESG",
+  "GDT": "GDT",
+  "GVC": "GVC",
+  "MSG US": "MSG_US",
+  "MSG_US": "MSG_US",
+  "Mixed": "MIXED",
+};
+
+// Same outcome as the import size maps: unknown values fall back per sheet
+function normalizePreviewSize(value: any, fallback: string): string {
+  const size = String(value ?? '').trim().toLowerCase().replace(' ', '_');
+  return ["enterprise", "midmarket", "no_data"].includes(size) ? size : fallback;
+}
+
+// Fetch every row of a table, paging past the 1000 row API limit
+async function fetchAllRows<T = any>(table: string, columns: string): Promise<T[]> {
+  const rows: T[] = [];
+  const limit = 1000;
+  let from = 0;
+
+  while (true) {
+    const { data, error } = await (supabase as any)
+      .from(table)
+      .select(columns)
+      .range(from, from + limit - 1);
+
+    if (error) {
+      throw new Error(`Failed to fetch ${table}: ${error.message}`);
+    }
+
+    if (!data || data.length === 0) break;
+    rows.push(...data);
+    if (data.length < limit) break;
+    from += limit;
+  }
+
+  return rows;
+}
+
+// Treat null, undefined and empty strings alike so blank cells don't show as changes
+function normalizePreviewValue(value: any): any {
+  if (value === undefined || value === null) return null;
+  if (typeof value === 'string') {
+    const trimmed = value.trim();
+    if (trimmed === '') return null;
+    if (trimmed.toLowerCase() === 'true') return true;
+    if (trimmed.toLowerCase() === 'false') return false;
+    return trimmed;
+  }
+  return value;
+}
+
+function previewValuesEqual(before: any, after: any): boolean {
+  const a = normalizePreviewValue(before);
+  const b = normalizePreviewValue(after);
+  if (a === null || b === null) return a === b;
+  if (typeof a === 'number' || typeof b === 'number') return Number(a) === Number(b);
+  return a === b;
+}
+
+// What a MERGE import does with a sheet's records
+interface PreviewMerge {
+  entity: MergeEntity;
+  options: MergeOptions;
+  changedInApp?: (before: Record<string, any>) => boolean;
+}
+
+function diffRecords(
+  sheet: string,
+  current: Map<string, Record<string, any>>,
+  incoming: Map<string, Record<string, any>>,
+  fields: string[],
+  mode: ImportDiff['mode'],
+  merge?: PreviewMerge
+): ImportSheetDiff {
+  const diff: ImportSheetDiff = { sheet, added: [], removed: [], changed: [], unchanged: 0, skipped: [] };
+
+  incoming.forEach((after, key) => {
+    const before = current.get(key);
+    if (!before) {
+      diff.added.push(key);
+      return;
+    }
+
+    // MERGE mode only lists the fields its policies let the file change;
+    // names change only for records matched on their external ID
+    const merges = (field: string) => !merge || (field === 'name'
+      ? Boolean(before.external_id) && before.external_id === after.external_id
+      : shouldMergeField(merge.options.policies[merge.entity]?.[field], before[field], after[field], merge.changedInApp?.(before)));
+
+    const changes = fields
+      .filter(field => !previewValuesEqual(before[field], after[field]) && merges(field))
+      .map(field => ({
+        field,
+        before: normalizePreviewValue(before[field]),
+        after: normalizePreviewValue(after[field]),
+      }));
+
+    if (changes.length > 0) {
+      diff.changed.push({ key, changes });
+    } else {
+      diff.unchanged++;
+    }
+  });
+
+  // ADD mode never deletes existing records, MERGE mode only when asked to
+  if (mode === 'comprehensive' || merge?.options.deleteMissing) {
+    current.forEach((_, key) => {
+      if (!incoming.has(key)) {
+        diff.removed.push(key);
+      }
+    });
+  }
+
+  return diff;
+}
+
+// Current records whose external ID arrives under a different name: id -> new name
+function findExternalIdRenames(
+  current: Array<{ id: string; name: string; external_id?: string | null }>,
+  incoming: MatchCandidate[]
+): Map<string, string> {
+  const incomingNames = new Map<string, string>();
+  incoming.forEach(r => {
+    const externalId = normalizeExternalId(r.external_id);
+    if (externalId && r.name && !incomingNames.has(externalId)) incomingNames.set(externalId, r.name);
+  });
+
+  const renames = new Map<string, string>();
+  current.forEach(record => {
+    const newName = record.external_id ? incomingNames.get(record.external_id) : undefined;
+    if (newName && newName !== record.name) renames.set(record.id, newName);
+  });
+  return renames;
+}
+
+function relationshipKey(accountName: string, sellerName: string): string {
+  return `${accountName} → ${sellerName}`;
+}
+
+/**
+ * Dry run for comprehensive imports
+ * Parses the workbook and diffs it against current data without writing anything
+ */
+export async function previewComprehensiveImport(
+  wb: XLSX.WorkBook,
+  mode: ImportDiff['mode'] = 'comprehensive',
+  mergeOptions: MergeOptions = createDefaultMergeOptions()
+): Promise<ImportDiff> {
+  const isMerge = mode === 'comprehensive_merge';
+  const deleteMissing = isMerge && mergeOptions.deleteMissing;
+  // MERGE mode skips sheets without rows
+  const has = (sheet: string) => wb.SheetNames.includes(sheet) && (!isMerge || sheetToJson(wb, sheet).length > 0);
+  const mergeFor = (entity: MergeEntity, changedInApp?: PreviewMerge['changedInApp']): PreviewMerge | undefined =>
+    isMerge ? { entity, options: mergeOptions, changedInApp } : undefined;
+  // Statuses without an imported_status were set in the app
+  const statusChangedInApp = (row: Record<string, any>) => row.imported_status !== row.status;
+
+  // Current data
+  const [accounts, revenues, sellers, managers, profiles, relationships, originals, sellerManagers, thresholds] = await Promise.all([
+    fetchAllRows<any>("accounts", "id,name,external_id,industry,size,tier,type,state,city,country,current_division"),
+    fetchAllRows<any>("account_revenues", "account_id,revenue_esg,revenue_gdt,revenue_gvc,revenue_msg_us"),
+    fetchAllRows<any>("sellers", "id,name,external_id,division,size,industry_specialty,state,city,country,seniority_type,book_finalized"),
+    fetchAllRows<any>("managers", "id,name,external_id,user_id"),
+    fetchAllRows<any>("profiles", "id,email"),
+    fetchAllRows<any>("relationship_maps", "account_id,seller_id,status,imported_status"),
+    fetchAllRows<any>("original_relationships", "account_id,seller_id"),
+    fetchAllRows<any>("seller_managers", "seller_id,manager_id,is_primary"),
+    getHealthThresholds(),
+  ]);
+
+  const accountRows = has("Accounts") ? sheetToJson<AccountRow>(wb, "Accounts").filter(r => r.account_name) : [];
+  const sellerRows = has("Sellers") ? sheetToJson<SellerRow>(wb, "Sellers").filter(r => r.seller_name) : [];
+  // Compare the locations the import will write
+  normalizeLocationRows(accountRows);
+  normalizeLocationRows(sellerRows);
+  const managerRows = has("Managers") ? sheetToJson<ManagerRow>(wb, "Managers").filter(r => r.manager_name) : [];
+
+  // Replace mode re-creates records under their new names; ADD mode keeps the existing ones
+  const accountRenames = mode === 'comprehensive'
+    ? findExternalIdRenames(accounts, accountRows.map(r => ({ name: r.account_name, external_id: r.account_external_id })))
+    : new Map<string, string>();
+  const sellerRenames = mode === 'comprehensive'
+    ? findExternalIdRenames(sellers, sellerRows.map(r => ({ name: r.seller_name, external_id: r.seller_external_id })))
+    : new Map<string, string>();
+
+  const accountNames = new Map<string, string>(accounts.map(a => [a.id, accountRenames.get(a.id) ?? a.name]));
+  const sellerNames = new Map<string, string>(sellers.map(s => [s.id, sellerRenames.get(s.id) ?? s.name]));
+  const managerNames = new Map<string, string>(managers.map(m => [m.id, m.name]));
+  const profileEmails = new Map<string, string>(profiles.map(p => [p.id, p.email]));
+  const revenueByAccountId = new Map<string, any>(revenues.map(r => [r.account_id, r]));
+  const accountNameByExternalId = new Map<string, string>(accounts.filter(a => a.external_id).map(a => [a.external_id, a.name]));
+  const sellerNameByExternalId = new Map<string, string>(sellers.filter(s => s.external_id).map(s => [s.external_id, s.name]));
+
+  // In ADD mode a known external ID under a new name still means the existing record;
+  // MERGE mode matches rows to existing records like the import does
+  const currentMatchers = {
+    account: createNameMatcher("account", accounts),
+    seller: createNameMatcher("seller", sellers),
+    manager: createNameMatcher("manager", managers),
+  };
+  const incomingKey = (name: string, externalId: unknown, existingByExternalId: Map<string, string>, entity: keyof typeof currentMatchers) => {
+    if (isMerge) return currentMatchers[entity].match(name, externalId)?.name ?? name;
+    const id = normalizeExternalId(externalId);
+    return (mode === 'comprehensive_add' && id && existingByExternalId.get(id)) || name;
+  };
+
+  const sheets: ImportSheetDiff[] = [];
+
+  // Managers
+  if (has("Managers")) {
+    const current = new Map<string, Record<string, any>>(managers.map(m => [
+      m.name,
+      { manager_email: profileEmails.get(m.user_id)?.toLowerCase() ?? null, external_id: m.external_id },
+    ]));
+    const incoming = new Map<string, Record<string, any>>();
+    managerRows.forEach(r => {
+      const key = incomingKey(r.manager_name, r.manager_external_id, new Map(), 'manager');
+      if (!incoming.has(key)) {
+        incoming.set(key, {
+          manager_email: r.manager_email ? String(r.manager_email).toLowerCase() : null,
+          external_id: normalizeExternalId(r.manager_external_id),
+        });
+      }
+    });
+    sheets.push(diffRecords("Managers", current, incoming, ["manager_email", "external_id"], mode, mergeFor('managers')));
+  }
+
+  // Accounts (revenue columns are compared alongside the account fields)
+  const accountFields = ["name", "external_id", "industry", "size", "tier", "type", "state", "city", "country", "current_division", "revenue_esg", "revenue_gdt", "revenue_gvc", "revenue_msg_us"];
+  const currentAccounts = new Map<string, Record<string, any>>(accounts.map(a => {
+    const revenue = revenueByAccountId.get(a.id);
+    return [accountNames.get(a.id)!, {
+      ...a,
+      revenue_esg: Number(revenue?.revenue_esg) || 0,
+      revenue_gdt: Number(revenue?.revenue_gdt) || 0,
+      revenue_gvc: Number(revenue?.revenue_gvc) || 0,
+      revenue_msg_us: Number(revenue?.revenue_msg_us) || 0,
+    }];
+  }));
+  const incomingAccounts = new Map<string, Record<string, any>>();
+  if (has("Accounts")) {
+    accountRows.forEach(r => {
+      const key = incomingKey(r.account_name, r.account_external_id, accountNameByExternalId, 'account');
+      if (incomingAccounts.has(key)) return;
+      // Blank MERGE cells keep the current values
+      incomingAccounts.set(key, {
+        name: r.account_name,
+        external_id: normalizeExternalId(r.account_external_id),
+        industry: r.industry,
+        size: isMerge && !r.size ? null : normalizePreviewSize(r.size, 'no_data'),
+        tier: r.tier,
+        type: r.type,
+        state: r.state,
+        city: r.city,
+        country: r.country,
+        current_division: previewDivisionMap[r.current_division] ?? r.current_division,
+        revenue_esg: r.revenue_ESG ?? (isMerge ? null : 0),
+        revenue_gdt: r.revenue_GDT ?? (isMerge ? null : 0),
+        revenue_gvc: r.revenue_GVC ?? (isMerge ? null : 0),
+        revenue_msg_us: r.revenue_MSG_US ?? (isMerge ? null : 0),
+      });
+    });
+    sheets.push(diffRecords("Accounts", currentAccounts, incomingAccounts, accountFields, mode, mergeFor('accounts')));
+  }
+
+  // Sellers
+  const sellerFields = ["name", "external_id", "division", "size", "industry_specialty", "state", "city", "country", "seniority_type", "book_finalized"];
+  const currentSellers = new Map<string, Record<string, any>>(sellers.map(s => [sellerNames.get(s.id)!, s]));
+  const incomingSellers = new Map<string, Record<string, any>>();
+  if (has("Sellers")) {
+    sellerRows.forEach(r => {
+      const key = incomingKey(r.seller_name, r.seller_external_id, sellerNameByExternalId, 'seller');
+      if (incomingSellers.has(key)) return;
+      incomingSellers.set(key, {
+        name: r.seller_name,
+        external_id: normalizeExternalId(r.seller_external_id),
+        division: previewDivisionMap[r.division] ?? r.division,
+        size: isMerge && !r.size ? null : normalizePreviewSize(r.size, 'midmarket'),
+        industry_specialty: r.industry_specialty,
+        state: r.state,
+        city: r.city,
+        country: r.country,
+        seniority_type: r.seniority_type || null,
+        book_finalized: isMerge ? r.book_finalized ?? null : r.book_finalized || false,
+      });
+    });
+    sheets.push(diffRecords("Sellers", currentSellers, incomingSellers, sellerFields, mode, mergeFor('sellers')));
+  }
+
+  // Records that will exist once the import finishes, for matching relationship rows
+  const finalRecords = (current: Map<string, Record<string, any>>, incoming: Map<string, Record<string, any>>, replaced: boolean) => {
+    const records = new Map<string, MatchCandidate>();
+    if (!replaced) {
+      current.forEach((record, name) => records.set(name, { name, external_id: record.external_id }));
+    }
+    incoming.forEach((record, name) => {
+      if (!records.has(name)) records.set(name, { name, external_id: record.external_id });
+    });
+    return Array.from(records.values());
+  };
+
+  const recordsReplaced = (sheet: string) => (mode === 'comprehensive' || deleteMissing) && has(sheet);
+  const finalAccounts = finalRecords(currentAccounts, incomingAccounts, recordsReplaced("Accounts"));
+  const finalSellers = finalRecords(currentSellers, incomingSellers, recordsReplaced("Sellers"));
+  const finalSellerNames = new Set<string>(finalSellers.map(s => s.name));
+  const accountMatcher = createNameMatcher("account", finalAccounts);
+  const sellerMatcher = createNameMatcher("seller", finalSellers);
+  const nearMisses: NearMiss[] = [];
+  const issues: ImportRowIssue[] = [];
+  const skippedRowIssue = (sheet: string, workbook: XLSX.WorkBook, index: number, kind: string, name: string): ImportRowIssue => ({
+    sheet,
+    row: sheetRowNumber(workbook.Sheets[sheet], index),
+    column: `${kind}_name`,
+    value: name,
+    reason: `No ${kind} named "${name}" after the import; the row is skipped`,
+    severity: "warning",
+  });
+
+  // Relationship_Map - active relationships and original relationships are tracked separately
+  const currentActive = new Map<string, Record<string, any>>();
+  relationships.forEach(r => {
+    const accountName = accountNames.get(r.account_id);
+    const sellerName = sellerNames.get(r.seller_id);
+    if (accountName && sellerName) {
+      currentActive.set(relationshipKey(accountName, sellerName), { account_name: accountName, seller_name: sellerName, status: r.status, imported_status: r.imported_status });
+    }
+  });
+  const currentOriginal = new Map<string, Record<string, any>>();
+  originals.forEach(r => {
+    const accountName = accountNames.get(r.account_id);
+    const sellerName = sellerNames.get(r.seller_id);
+    if (accountName && sellerName) {
+      currentOriginal.set(`${relationshipKey(accountName, sellerName)} (original)`, { account_name: accountName, seller_name: sellerName, status: 'original' });
+    }
+  });
+
+  const incomingActive = new Map<string, Record<string, any>>();
+  const incomingOriginal = new Map<string, Record<string, any>>();
+  const skippedRelationships: string[] = [];
+  // Replace mode wipes relationships in the Accounts step, so a missing sheet means none survive
+  const relationshipsReplaced = mode === 'comprehensive' && (has("Relationship_Map") || has("Accounts"));
+
+  if (has("Relationship_Map")) {
+    const unmatchedAccounts: string[] = [];
+    const unmatchedSellers: string[] = [];
+
+    sheetToJson<RelRow>(wb, "Relationship_Map")
+      .forEach((r, index) => {
+        if (!r.account_name || !r.seller_name) return;
+        const account = accountMatcher.match(r.account_name, r.account_external_id);
+        const seller = sellerMatcher.match(r.seller_name, r.seller_external_id);
+        if (!account || !seller) {
+          if (!account) unmatchedAccounts.push(r.account_name);
+          if (!seller) unmatchedSellers.push(r.seller_name);
+          skippedRelationships.push(relationshipKey(r.account_name, r.seller_name));
+          issues.push(skippedRowIssue("Relationship_Map", wb, index, !account ? "account" : "seller", !account ? r.account_name : r.seller_name));
+          return;
+        }
+        const key = relationshipKey(account.name, seller.name);
+        const isOriginal = (r.status || "").toLowerCase() === "original";
+        const status = isOriginal ? 'original' : statusMap[r.status || "must_keep"] ?? r.status;
+        const row = { account_name: account.name, seller_name: seller.name, status };
+        if (isOriginal) {
+          incomingOriginal.set(`${key} (original)`, row);
+        } else if (!incomingActive.has(key)) {
+          incomingActive.set(key, row);
+        }
+      });
+
+    nearMisses.push(
+      ...collectNearMisses("account", "Relationship_Map", accountMatcher, unmatchedAccounts),
+      ...collectNearMisses("seller", "Relationship_Map", sellerMatcher, unmatchedSellers)
+    );
+
+    const relationshipDiff = diffRecords(
+      "Relationship_Map",
+      new Map([...Array.from(currentActive.entries()), ...Array.from(currentOriginal.entries())]),
+      new Map([...Array.from(incomingActive.entries()), ...Array.from(incomingOriginal.entries())]),
+      ["status"],
+      mode,
+      mergeFor('relationships', statusChangedInApp)
+    );
+    relationshipDiff.skipped = skippedRelationships;
+    sheets.push(relationshipDiff);
+  }
+
+  // Manager_Team
+  if (has("Manager_Team")) {
+    const current = new Map<string, Record<string, any>>();
+    sellerManagers.forEach(sm => {
+      const managerName = managerNames.get(sm.manager_id);
+      const sellerName = sellerNames.get(sm.seller_id);
+      if (managerName && sellerName) {
+        current.set(relationshipKey(managerName, sellerName), { is_primary: sm.is_primary });
+      }
+    });
+    const finalManagers = new Map<string, MatchCandidate>();
+    if (!recordsReplaced("Managers")) {
+      managers.forEach(m => finalManagers.set(m.name, { name: m.name, external_id: m.external_id }));
+    }
+    managerRows.forEach(r => {
+      if (!finalManagers.has(r.manager_name)) {
+        finalManagers.set(r.manager_name, { name: r.manager_name, external_id: normalizeExternalId(r.manager_external_id) });
+      }
+    });
+    const managerMatcher = createNameMatcher("manager", Array.from(finalManagers.values()));
+    const unmatchedManagers: string[] = [];
+    const unmatchedSellers: string[] = [];
+
+    const incoming = new Map<string, Record<string, any>>();
+    const skipped: string[] = [];
+    sheetToJson<ManagerTeamRow>(wb, "Manager_Team")
+      .forEach((r, index) => {
+        if (!r.manager_name || !r.seller_name) return;
+        const manager = managerMatcher.match(r.manager_name, r.manager_external_id);
+        const seller = sellerMatcher.match(r.seller_name, r.seller_external_id);
+        if (!manager || !seller) {
+          if (!manager) unmatchedManagers.push(r.manager_name);
+          if (!seller) unmatchedSellers.push(r.seller_name);
+          skipped.push(relationshipKey(r.manager_name, r.seller_name));
+          issues.push(skippedRowIssue("Manager_Team", wb, index, !manager ? "manager" : "seller", !manager ? r.manager_name : r.seller_name));
+          return;
+        }
+        incoming.set(relationshipKey(manager.name, seller.name), { is_primary: r.is_primary ?? (isMerge ? null : true) });
+      });
+
+    nearMisses.push(
+      ...collectNearMisses("manager", "Manager_Team", managerMatcher, unmatchedManagers),
+      ...collectNearMisses("seller", "Manager_Team", sellerMatcher, unmatchedSellers)
+    );
+
+    const teamDiff = diffRecords("Manager_Team", current, incoming, ["is_primary"], mode, mergeFor('manager_team'));
+    teamDiff.skipped = skipped;
+    sheets.push(teamDiff);
+  }
+
+  // Relationships that will be gone after the import
+  const lostRelationships: ImportLostRelationship[] = [];
+  if (relationshipsReplaced) {
+    currentActive.forEach((row, key) => {
+      if (!incomingActive.has(key)) {
+        lostRelationships.push({ account_name: row.account_name, seller_name: row.seller_name, status: row.status });
+      }
+    });
+    if (has("Relationship_Map")) {
+      currentOriginal.forEach((row, key) => {
+        if (!incomingOriginal.has(key)) {
+          lostRelationships.push({ account_name: row.account_name, seller_name: row.seller_name, status: 'original' });
+        }
+      });
+    }
+  } else if (deleteMissing) {
+    // MERGE mode deletes relationships missing from the sheet and those of deleted accounts and sellers
+    const recordDeleted = (row: Record<string, any>) =>
+      (has("Accounts") && !incomingAccounts.has(row.account_name)) || (has("Sellers") && !incomingSellers.has(row.seller_name));
+    currentActive.forEach((row, key) => {
+      if ((has("Relationship_Map") && !incomingActive.has(key)) || recordDeleted(row)) {
+        lostRelationships.push({ account_name: row.account_name, seller_name: row.seller_name, status: row.status });
+      }
+    });
+    currentOriginal.forEach((row, key) => {
+      if ((has("Relationship_Map") && !incomingOriginal.has(key)) || recordDeleted(row)) {
+        lostRelationships.push({ account_name: row.account_name, seller_name: row.seller_name, status: 'original' });
+      }
+    });
   }
+
+  // Seller books before and after, for revenue/health flips
+  const accountRevenueAfter = (accountName: string) => {
+    const incoming = incomingAccounts.get(accountName);
+    const current = currentAccounts.get(accountName);
+    // Replace mode overwrites revenue; ADD mode only inserts revenue for new accounts;
+    // MERGE mode updates it per policy
+    if (incoming && current && isMerge) {
+      return getAccountTotalRevenue({ ...current, ...mergeChanges('accounts', current, incoming, mergeOptions.policies) });
+    }
+    if (incoming && (mode === 'comprehensive' || !current)) {
+      return getAccountTotalRevenue(incoming);
+    }
+    return getAccountTotalRevenue(currentAccounts.get(accountName));
+  };
+
+  const booksBefore = new Map<string, { revenue: number; accounts: number }>();
+  currentActive.forEach(row => {
+    if (!BOOK_STATUSES.includes(row.status)) return;
+    const book = booksBefore.get(row.seller_name) || { revenue: 0, accounts: 0 };
+    book.revenue += getAccountTotalRevenue(currentAccounts.get(row.account_name));
+    book.accounts += 1;
+    booksBefore.set(row.seller_name, book);
+  });
+
+  const lostKeys = new Set(lostRelationships.map(r => relationshipKey(r.account_name, r.seller_name)));
+  const mergedActive = () => {
+    const active = new Map(Array.from(currentActive.entries()).filter(([key]) => !lostKeys.has(key)));
+    incomingActive.forEach((row, key) => {
+      const before = currentActive.get(key);
+      if (!before) {
+        active.set(key, row);
+      } else if (shouldMergeField(mergeOptions.policies.relationships.status, before.status, row.status, statusChangedInApp(before))) {
+        active.set(key, { ...before, status: row.status });
+      }
+    });
+    return active;
+  };
+  const activeAfter = relationshipsReplaced
+    ? incomingActive
+    : isMerge
+    ? mergedActive()
+    : new Map([...Array.from(incomingActive.entries()), ...Array.from(currentActive.entries())]);
+  const booksAfter = new Map<string, { revenue: number; accounts: number }>();
+  activeAfter.forEach(row => {
+    if (!BOOK_STATUSES.includes(row.status)) return;
+    const book = booksAfter.get(row.seller_name) || { revenue: 0, accounts: 0 };
+    book.revenue += accountRevenueAfter(row.account_name);
+    book.accounts += 1;
+    booksAfter.set(row.seller_name, book);
+  });
+
+  const healthFlips: ImportHealthFlip[] = [];
+  currentSellers.forEach((seller, sellerName) => {
+    if (!finalSellerNames.has(sellerName)) return;
+
+    const incoming = incomingSellers.get(sellerName);
+    const sellerAfter = !incoming
+      ? seller
+      : isMerge
+      ? { ...seller, ...mergeChanges('sellers', seller, incoming, mergeOptions.policies) }
+      : mode === 'comprehensive' ? incoming : seller;
+    const before = booksBefore.get(sellerName) || { revenue: 0, accounts: 0 };
+    const after = booksAfter.get(sellerName) || { revenue: 0, accounts: 0 };
+    const healthBefore = evaluateSellerHealth(thresholds, seller.size, seller.seniority_type, before.revenue, before.accounts);
+    const healthAfter = evaluateSellerHealth(thresholds, sellerAfter.size, sellerAfter.seniority_type, after.revenue, after.accounts);
+
+    if (healthBefore.is_revenue_healthy !== healthAfter.is_revenue_healthy ||
+        healthBefore.is_account_healthy !== healthAfter.is_account_healthy) {
+      healthFlips.push({
+        seller_name: sellerName,
+        revenue_before: before.revenue,
+        revenue_after: after.revenue,
+        accounts_before: before.accounts,
+        accounts_after: after.accounts,
+        is_revenue_healthy_before: healthBefore.is_revenue_healthy,
+        is_revenue_healthy_after: healthAfter.is_revenue_healthy,
+        is_account_healthy_before: healthBefore.is_account_healthy,
+        is_account_healthy_after: healthAfter.is_account_healthy,
+      });
+    }
+  });
+
+  return { mode, sheets, lostRelationships, healthFlips, nearMisses, issues };
 }
 
 // ========== EXPORT FUNCTIONS ==========
@@ -3592,7 +4798,7 @@ export async function importComprehensiveData(file: File, userId?: string, onPro
  * Export comprehensive data with all tables (like replace mode template)
  * This exports all data tables in separate sheets, matching the comprehensive import template structure
  */
-export async function exportComprehensiveData() {
+export async function exportComprehensiveData(format: DataFileFormat = 'xlsx') {
   try {
     const wb = XLSX.utils.book_new();
     
@@ -3615,9 +4821,6 @@ export async function exportComprehensiveData() {
         const duplicates = sheetNames.filter((name, index) => sheetNames.indexOf(name) !== index);
         const uniqueDuplicates = Array.from(new Set(duplicates));
         console.log('Duplicate account names in Excel sheet:', uniqueDuplicates);
-        
-        const westfallCount = sheetNames.filter(name => name === "Westfall Local Schools").length;
-        console.log(`"Westfall Local Schools" appears ${westfallCount} times in Excel sheet`);
       }
       
       XLSX.utils.book_append_sheet(wb, accountsWs, "Accounts");
@@ -3782,19 +4985,8 @@ export async function exportComprehensiveData() {
     const instructionsWs = XLSX.utils.json_to_sheet(instructionsData);
     XLSX.utils.book_append_sheet(wb, instructionsWs, "Instructions");
     
-    // Generate Excel file
-    const excelBuffer = XLSX.write(wb, { bookType: 'xlsx', type: 'array' });
-    
-    // Create blob and download
-    const blob = new Blob([excelBuffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
-    const url = window.URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = `Complete_Data_Export_${new Date().toISOString().split('T')[0]}.xlsx`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    window.URL.revokeObjectURL(url);
+    // Generate and download the file
+    const filename = downloadWorkbook(wb, `Complete_Data_Export_${new Date().toISOString().split('T')[0]}`, format);
     
     // Final summary
     console.log('✅ Comprehensive export completed successfully');
@@ -3807,7 +4999,7 @@ export async function exportComprehensiveData() {
     console.log(`   • Original_Relationships: ${originalRelationshipsData?.length || 0} records`);
     console.log(`   • Chat_Messages: ${chatMessagesData?.length || 0} records`);
     
-    return { exported: 'all_tables', filename: link.download };
+    return { exported: 'all_tables', filename };
     
   } catch (error) {
     throw error;
@@ -3826,11 +5018,12 @@ async function exportAccountsTable() {
     
     while (hasMore) {
       console.log(`Fetching accounts batch from ${from} to ${from + limit - 1}`);
-      const { data: accountsBatch, error } = await supabase
+      const { data: accountsBatch, error } = await (supabase as any)
         .from('accounts')
         .select(`
           id,
           name,
+          external_id,
           industry,
           size,
           tier,
@@ -3856,12 +5049,6 @@ async function exportAccountsTable() {
       if (accountsBatch && accountsBatch.length > 0) {
         console.log(`Fetched ${accountsBatch.length} accounts in this batch`);
         
-        // Check for "Westfall Local Schools" specifically
-        const westfallAccounts = accountsBatch.filter(acc => acc.name === "Westfall Local Schools");
-        if (westfallAccounts.length > 0) {
-          console.log(`Found ${westfallAccounts.length} "Westfall Local Schools" accounts in this batch:`, westfallAccounts.map(acc => acc.id));
-        }
-        
         allAccounts = allAccounts.concat(accountsBatch);
         from += limit;
         // If we got fewer records than the limit, we've reached the end
@@ -3885,16 +5072,13 @@ async function exportAccountsTable() {
       const duplicates = accountNames.filter((name, index) => accountNames.indexOf(name) !== index);
       const uniqueDuplicates = Array.from(new Set(duplicates));
       console.log('Duplicate account names:', uniqueDuplicates);
-      
-      // Check specifically for "Westfall Local Schools"
-      const westfallCount = accountNames.filter(name => name === "Westfall Local Schools").length;
-      console.log(`"Westfall Local Schools" appears ${westfallCount} times`);
     }
 
     const transformedAccounts = allAccounts.map((account: any) => {
       const revenue = account.account_revenues;
       return {
         account_name: account.name,
+        account_external_id: account.external_id || '',
         industry: account.industry,
         size: account.size,
         tier: account.tier,
@@ -3920,10 +5104,6 @@ async function exportAccountsTable() {
       const duplicates = transformedNames.filter((name, index) => transformedNames.indexOf(name) !== index);
       const uniqueDuplicates = Array.from(new Set(duplicates));
       console.log('Duplicate account names in transformed data:', uniqueDuplicates);
-      
-      // Check specifically for "Westfall Local Schools" in transformed data
-      const westfallCount = transformedNames.filter(name => name === "Westfall Local Schools").length;
-      console.log(`"Westfall Local Schools" appears ${westfallCount} times in transformed data`);
     }
     
     return transformedAccounts;
@@ -3946,10 +5126,11 @@ async function exportSellersTable() {
     
     while (hasMore) {
       console.log(`Fetching sellers batch from ${from} to ${from + limit - 1}`);
-      const { data: sellersBatch, error } = await supabase
+      const { data: sellersBatch, error } = await (supabase as any)
         .from('sellers')
         .select(`
           name,
+          external_id,
           division,
           size,
           industry_specialty,
@@ -3993,6 +5174,7 @@ async function exportSellersTable() {
       const manager = seller.managers;
       return {
         seller_name: seller.name,
+        seller_external_id: seller.external_id || '',
         division: seller.division,
         size: seller.size,
         industry_specialty: seller.industry_specialty,
@@ -4026,10 +5208,11 @@ async function exportManagersTable() {
     
     while (hasMore) {
       console.log(`Fetching managers batch from ${from} to ${from + limit - 1}`);
-      const { data: managersBatch, error } = await supabase
+      const { data: managersBatch, error } = await (supabase as any)
         .from('managers')
         .select(`
           name,
+          external_id,
           user_id,
           profiles (
             email
@@ -4059,7 +5242,8 @@ async function exportManagersTable() {
     console.log(`Total managers fetched: ${allManagers.length}`);
     const result = allManagers.map((manager: any) => ({
       manager_name: manager.name,
-      manager_email: manager.profiles?.email || ''
+      manager_email: manager.profiles?.email || '',
+      manager_external_id: manager.external_id || ''
     }));
     console.log(`Mapped ${result.length} managers for export`);
     return result;
@@ -4082,15 +5266,17 @@ async function exportRelationshipMapTable() {
     
     while (hasMore) {
       console.log(`Fetching relationships batch from ${from} to ${from + limit - 1}`);
-      const { data: relationshipsBatch, error } = await supabase
+      const { data: relationshipsBatch, error } = await (supabase as any)
         .from('relationship_maps')
         .select(`
           status,
           accounts (
-            name
+            name,
+            external_id
           ),
           sellers (
-            name
+            name,
+            external_id
           )
         `)
         .range(from, from + limit - 1)
@@ -4135,6 +5321,8 @@ async function exportRelationshipMapTable() {
     const result = allRelationships.map((relationship: any) => ({
       account_name: relationship.accounts?.name || '',
       seller_name: relationship.sellers?.name || '',
+      account_external_id: relationship.accounts?.external_id || '',
+      seller_external_id: relationship.sellers?.external_id || '',
       status: relationship.status
     }));
     console.log(`Mapped ${result.length} relationships for export`);
@@ -4158,15 +5346,17 @@ async function exportManagerTeamTable() {
     
     while (hasMore) {
       console.log(`Fetching manager teams batch from ${from} to ${from + limit - 1}`);
-      const { data: managerTeamsBatch, error } = await supabase
+      const { data: managerTeamsBatch, error } = await (supabase as any)
         .from('seller_managers')
         .select(`
           is_primary,
           managers (
-            name
+            name,
+            external_id
           ),
           sellers (
-            name
+            name,
+            external_id
           )
         `)
         .range(from, from + limit - 1)
@@ -4194,6 +5384,8 @@ async function exportManagerTeamTable() {
     const result = allManagerTeams.map((team: any) => ({
       manager_name: team.managers?.name || '',
       seller_name: team.sellers?.name || '',
+      manager_external_id: team.managers?.external_id || '',
+      seller_external_id: team.sellers?.external_id || '',
       is_primary: team.is_primary
     }));
     console.log(`Mapped ${result.length} manager teams for export`);
@@ -4423,7 +5615,7 @@ async function exportChatMessagesTable() {
  * This exports all account fields plus the assigned seller information for all relationship statuses
  * Includes accounts without assigned sellers (with blank seller/manager columns)
  */
-export async function exportCompleteAccountsWithAssignedSellers() {
+export async function exportCompleteAccountsWithAssignedSellers(format: DataFileFormat = 'xlsx') {
   try {
     
     // Get ALL accounts with pagination to handle 1000+ records
@@ -4588,21 +5780,10 @@ export async function exportCompleteAccountsWithAssignedSellers() {
     // Add worksheet to workbook
     XLSX.utils.book_append_sheet(wb, ws, "Accounts_With_Assigned_Sellers");
     
-    // Generate Excel file
-    const excelBuffer = XLSX.write(wb, { bookType: 'xlsx', type: 'array' });
-    
-    // Create blob and download
-    const blob = new Blob([excelBuffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
-    const url = window.URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = `Complete_Accounts_With_Assigned_Sellers_${new Date().toISOString().split('T')[0]}.xlsx`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    window.URL.revokeObjectURL(url);
+    // Generate and download the file
+    const filename = downloadWorkbook(wb, `Complete_Accounts_With_Assigned_Sellers_${new Date().toISOString().split('T')[0]}`, format);
     
-    return { exported: exportData.length, filename: link.download };
+    return { exported: exportData.length, filename };
     
   } catch (error) {
     throw error;
@@ -0,0 +1,148 @@
+import * as XLSX from 'xlsx';
+import { supabase } from '@/integrations/supabase/client';
+import { AUDIT_ACTIONS, AUDIT_ENTITIES, createAuditLogData, logAuditEvent } from '@/lib/audit';
+import { downloadWorkbook } from '@/lib/file-formats';
+import { getLocationChanges, normalizeLocation, type LocationField } from '@/lib/locations';
+
+/**
+ * Normalizing the locations already stored on accounts and sellers, the same
+ * way imports normalize the rows of a file (src/lib/locations.ts), and the
+ * report of values it could not resolve.
+ */
+
+export type LocationEntity = 'account' | 'seller';
+
+export interface UnresolvedLocation {
+  entity: LocationEntity;
+  id: string;
+  name: string;
+  field: LocationField;
+  value: string;
+  reason: string;
+}
+
+export interface LocationNormalizationResult {
+  checked: number;
+  // Rows that changed, or would change on a dry run
+  updated: number;
+  unresolved: UnresolvedLocation[];
+}
+
+interface StoredLocation {
+  id: string;
+  name: string;
+  city: string | null;
+  state: string | null;
+  country: string | null;
+  lat: number | null;
+  lng: number | null;
+}
+
+const PAGE_SIZE = 1000;
+// Row updates sent at once
+const UPDATE_CONCURRENCY = 20;
+
+const ENTITY_TABLES: Record<LocationEntity, 'accounts' | 'sellers'> = {
+  account: 'accounts',
+  seller: 'sellers',
+};
+
+async function fetchStoredLocations(table: 'accounts' | 'sellers'): Promise<StoredLocation[]> {
+  const rows: StoredLocation[] = [];
+  let from = 0;
+
+  while (true) {
+    const { data, error } = await supabase
+      .from(table)
+      .select('id, name, city, state, country, lat, lng')
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+
+    rows.push(...((data || []) as StoredLocation[]));
+    if (!data || data.length < PAGE_SIZE) break;
+    from += PAGE_SIZE;
+  }
+
+  return rows;
+}
+
+/**
+ * Check every account and seller location; with apply, write the normalized
+ * codes and coordinates back. Unresolved values are left as they are.
+ */
+export async function normalizeStoredLocations(apply: boolean, userId?: string): Promise<LocationNormalizationResult> {
+  try {
+    const result: LocationNormalizationResult = { checked: 0, updated: 0, unresolved: [] };
+    const updates: Array<{ table: 'accounts' | 'sellers'; id: string; changes: Record<string, any> }> = [];
+
+    for (const entity of ['account', 'seller'] as LocationEntity[]) {
+      const table = ENTITY_TABLES[entity];
+      const rows = await fetchStoredLocations(table);
+      result.checked += rows.length;
+
+      rows.forEach(row => {
+        const input = { city: row.city, state: row.state, country: row.country, latitude: row.lat, longitude: row.lng };
+        normalizeLocation(input).issues.forEach(issue => {
+          result.unresolved.push({ entity, id: row.id, name: row.name, ...issue });
+        });
+
+        const { latitude, longitude, ...fields } = getLocationChanges(input);
+        const changes: Record<string, any> = { ...fields };
+        if (latitude !== undefined) changes.lat = latitude;
+        if (longitude !== undefined) changes.lng = longitude;
+        if (Object.keys(changes).length > 0) {
+          updates.push({ table, id: row.id, changes });
+        }
+      });
+    }
+
+    result.updated = updates.length;
+    if (!apply || updates.length === 0) return result;
+
+    for (let i = 0; i < updates.length; i += UPDATE_CONCURRENCY) {
+      const batch = updates.slice(i, i + UPDATE_CONCURRENCY);
+      const responses = await Promise.all(
+        batch.map(update => (supabase as any).from(update.table).update(update.changes).eq('id', update.id))
+      );
+      const failed = responses.find(response => response.error);
+      if (failed) throw failed.error;
+    }
+
+    if (userId) {
+      await logAuditEvent(createAuditLogData(
+        userId,
+        AUDIT_ACTIONS.LOCATION_NORMALIZE,
+        AUDIT_ENTITIES.LOCATION,
+        undefined,
+        null,
+        {
+          accounts_updated: updates.filter(update => update.table === 'accounts').length,
+          sellers_updated: updates.filter(update => update.table === 'sellers').length,
+          unresolved: result.unresolved.length,
+        }
+      ));
+    }
+
+    return result;
+  } catch (error) {
+    throw error;
+  }
+}
+
+/**
+ * Save the unresolved values as a spreadsheet to fix at the source
+ */
+export function downloadLocationReport(unresolved: UnresolvedLocation[]): string {
+  const ws = XLSX.utils.json_to_sheet(unresolved.map(entry => ({
+    Type: entry.entity === 'account' ? 'Account' : 'Seller',
+    Name: entry.name,
+    Field: entry.field,
+    Value: entry.value,
+    Reason: entry.reason,
+    ID: entry.id,
+  })));
+  const wb = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(wb, ws, 'Unresolved_Locations');
+  return downloadWorkbook(wb, `unresolved_locations_${new Date().toISOString().split('T')[0]}`, 'xlsx');
+}
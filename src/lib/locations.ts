@@ -0,0 +1,468 @@
+import cityGazetteer from '../../citygazetteer.json';
+import countryMap from '../../countrymap.json';
+import countryIso from '../../countryiso.json';
+import stateMap from '../../statemap.json';
+
+/**
+ * Country and state reference data for imports: codes, coordinates and the
+ * reference sheets in the templates, and the normalization that turns the
+ * place names people type into codes and coordinates. Has no database
+ * access, so the import worker can use it too.
+ */
+
+interface CountryMapping {
+  country: string;
+  latitude: number;
+  longitude: number;
+}
+
+interface CountryIso {
+  Name: string;
+  Code: string;
+}
+
+interface StateMapping {
+  state: string;
+  latitude: number;
+  longitude: number;
+  name: string;
+}
+
+interface GazetteerCity {
+  city: string;
+  // US state code, null outside the US
+  state: string | null;
+  country: string;
+  latitude: number;
+  longitude: number;
+  aliases?: string[];
+}
+
+// Get country mapping for lat/lng lookup
+export function getCountryCoordinates(countryCode: string): { latitude: number; longitude: number } | null {
+  const mapping = (countryMap as CountryMapping[]).find(c => c.country === countryCode);
+  return mapping ? { latitude: mapping.latitude, longitude: mapping.longitude } : null;
+}
+
+// Get state mapping for lat/lng lookup
+export function getStateCoordinates(stateCode: string): { latitude: number; longitude: number } | null {
+  const mapping = (stateMap as StateMapping[]).find(s => s.state === stateCode);
+  return mapping ? { latitude: mapping.latitude, longitude: mapping.longitude } : null;
+}
+
+// Get all available country codes for dropdown
+export function getAvailableCountryCodes(): string[] {
+  const countryCodes = (countryMap as CountryMapping[]).map(c => c.country);
+  return ["N/A", ...countryCodes]; // Add "N/A" option
+}
+
+// Get all available state codes for dropdown
+export function getAvailableStateCodes(): string[] {
+  const stateCodes = (stateMap as StateMapping[]).map(s => s.state);
+  return ["N/A", ...stateCodes]; // Add "N/A" option
+}
+
+// Get country reference data for template
+export function getCountryReferenceData(): Array<{country_name: string, country_code: string}> {
+  const countryData = (countryIso as CountryIso[]).map(c => ({
+    country_name: c.Name,
+    country_code: c.Code
+  }));
+  
+  // Add "No data" option at the beginning
+  return [
+    { country_name: "No data", country_code: "N/A" },
+    ...countryData
+  ];
+}
+
+// Get state reference data for template
+export function getStateReferenceData(): Array<{state_name: string, state_code: string}> {
+  const stateData = (stateMap as StateMapping[]).map(s => ({
+    state_name: s.name,
+    state_code: s.state
+  }));
+  
+  // Add "No data" option at the beginning
+  return [
+    { state_name: "No data", state_code: "N/A" },
+    ...stateData
+  ];
+}
+
+// ========== Normalization ==========
+
+// Values that say there is no single location rather than naming a place
+const NO_LOCATION_VALUES = ['n/a', 'na', 'no data', 'none', 'unknown', '-', 'distributed', 'remote', 'global', 'various', 'multiple'];
+
+// Names and codes people use that countryiso.json doesn't list
+const COUNTRY_ALIASES: Record<string, string> = {
+  'usa': 'US',
+  'us of a': 'US',
+  'united states of america': 'US',
+  'america': 'US',
+  'uk': 'GB',
+  'great britain': 'GB',
+  'britain': 'GB',
+  'england': 'GB',
+  'scotland': 'GB',
+  'wales': 'GB',
+  'northern ireland': 'GB',
+  'south korea': 'KR',
+  'korea': 'KR',
+  'north korea': 'KP',
+  'russia': 'RU',
+  'vietnam': 'VN',
+  'iran': 'IR',
+  'syria': 'SY',
+  'laos': 'LA',
+  'bolivia': 'BO',
+  'venezuela': 'VE',
+  'tanzania': 'TZ',
+  'moldova': 'MD',
+  'macedonia': 'MK',
+  'north macedonia': 'MK',
+  'taiwan': 'TW',
+  'brunei': 'BN',
+  'czechia': 'CZ',
+  'holland': 'NL',
+  'the netherlands': 'NL',
+  'uae': 'AE',
+  'emirates': 'AE',
+  'ivory coast': 'CI',
+  'dr congo': 'CD',
+  'drc': 'CD',
+  'democratic republic of the congo': 'CD',
+  'republic of the congo': 'CG',
+  'vatican': 'VA',
+  'vatican city': 'VA',
+  'micronesia': 'FM',
+  'palestine': 'PS',
+  'burma': 'MM',
+  'turkiye': 'TR',
+  'kosovo': 'XK',
+  'macau': 'MO',
+  'ksa': 'SA',
+  'saudi': 'SA',
+  'prc': 'CN',
+  'mainland china': 'CN',
+  'deutschland': 'DE',
+  'espana': 'ES',
+  'brasil': 'BR',
+  // ISO alpha-3 codes seen in CRM exports
+  'can': 'CA',
+  'mex': 'MX',
+  'gbr': 'GB',
+  'deu': 'DE',
+  'fra': 'FR',
+  'esp': 'ES',
+  'ita': 'IT',
+  'nld': 'NL',
+  'che': 'CH',
+  'irl': 'IE',
+  'ind': 'IN',
+  'chn': 'CN',
+  'jpn': 'JP',
+  'aus': 'AU',
+  'bra': 'BR',
+};
+
+// Common abbreviations of US state names (AP style)
+const STATE_ALIASES: Record<string, string> = {
+  'ala': 'AL',
+  'ariz': 'AZ',
+  'ark': 'AR',
+  'calif': 'CA',
+  'cal': 'CA',
+  'colo': 'CO',
+  'conn': 'CT',
+  'del': 'DE',
+  'fla': 'FL',
+  'ill': 'IL',
+  'ind': 'IN',
+  'kan': 'KS',
+  'kans': 'KS',
+  'mass': 'MA',
+  'mich': 'MI',
+  'minn': 'MN',
+  'miss': 'MS',
+  'mont': 'MT',
+  'neb': 'NE',
+  'nebr': 'NE',
+  'nev': 'NV',
+  'okla': 'OK',
+  'ore': 'OR',
+  'oreg': 'OR',
+  'penn': 'PA',
+  'penna': 'PA',
+  'tenn': 'TN',
+  'tex': 'TX',
+  'wash': 'WA',
+  'wis': 'WI',
+  'wisc': 'WI',
+  'wyo': 'WY',
+  'washington dc': 'DC',
+  'washington d c': 'DC',
+  'd c': 'DC',
+};
+
+/**
+ * Lower case, accents and punctuation removed, St./Ft. spelled out
+ */
+function locationKey(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[.'’]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+    .replace(/^st /, 'saint ')
+    .replace(/^ft /, 'fort ');
+}
+
+let countryIndex: Map<string, string> | null = null;
+let stateIndex: Map<string, string> | null = null;
+let cityIndex: Map<string, GazetteerCity[]> | null = null;
+
+function getCountryIndex(): Map<string, string> {
+  if (countryIndex) return countryIndex;
+  countryIndex = new Map();
+  const index = countryIndex;
+  (countryMap as CountryMapping[]).forEach(c => index.set(c.country.toLowerCase(), c.country));
+  (countryIso as CountryIso[]).forEach(c => {
+    index.set(c.Code.toLowerCase(), c.Code);
+    index.set(locationKey(c.Name), c.Code);
+    // "Korea, Republic of" is also written "Republic of Korea"
+    const comma = c.Name.indexOf(',');
+    if (comma !== -1) {
+      index.set(locationKey(`${c.Name.slice(comma + 1)} ${c.Name.slice(0, comma)}`), c.Code);
+    }
+  });
+  Object.keys(COUNTRY_ALIASES).forEach(alias => index.set(alias, COUNTRY_ALIASES[alias]));
+  return index;
+}
+
+function getStateIndex(): Map<string, string> {
+  if (stateIndex) return stateIndex;
+  stateIndex = new Map();
+  const index = stateIndex;
+  (stateMap as StateMapping[]).forEach(s => {
+    index.set(s.state.toLowerCase(), s.state);
+    index.set(locationKey(s.name), s.state);
+  });
+  Object.keys(STATE_ALIASES).forEach(alias => index.set(alias, STATE_ALIASES[alias]));
+  return index;
+}
+
+function getCityIndex(): Map<string, GazetteerCity[]> {
+  if (cityIndex) return cityIndex;
+  cityIndex = new Map();
+  const index = cityIndex;
+  (cityGazetteer as GazetteerCity[]).forEach(city => {
+    [city.city, ...(city.aliases || [])].forEach(name => {
+      const key = locationKey(name);
+      const cities = index.get(key) || [];
+      // Aliases can differ only in accents ("Zürich")
+      if (cities.indexOf(city) === -1) index.set(key, [...cities, city]);
+    });
+  });
+  return index;
+}
+
+export function isNoLocation(value: unknown): boolean {
+  return typeof value === 'string' && NO_LOCATION_VALUES.indexOf(value.trim().toLowerCase()) !== -1;
+}
+
+/**
+ * ISO code for a country code, name or alias ("United States", "USA", "UK")
+ */
+export function resolveCountryCode(value: unknown): string | null {
+  if (value === null || value === undefined) return null;
+  const text = String(value).trim();
+  if (!text || isNoLocation(text)) return null;
+  const index = getCountryIndex();
+  return index.get(text.toLowerCase()) ?? index.get(locationKey(text)) ?? null;
+}
+
+/**
+ * US state code for a code, name or abbreviation ("California", "Calif.")
+ */
+export function resolveStateCode(value: unknown): string | null {
+  if (value === null || value === undefined) return null;
+  const text = String(value).trim();
+  if (!text || isNoLocation(text)) return null;
+  const index = getStateIndex();
+  return index.get(text.toLowerCase()) ?? index.get(locationKey(text)) ?? null;
+}
+
+// Gazetteer cities a name can refer to, narrowed by country and state when known
+function findCityMatches(value: unknown, countryCode?: string | null, stateCode?: string | null): GazetteerCity[] {
+  if (value === null || value === undefined) return [];
+  const text = String(value).trim();
+  if (!text || isNoLocation(text)) return [];
+
+  let matches = getCityIndex().get(locationKey(text)) || [];
+  if (countryCode) matches = matches.filter(city => city.country === countryCode);
+  if (stateCode) {
+    const inState = matches.filter(city => city.state === stateCode);
+    if (inState.length > 0 || countryCode === 'US') matches = inState;
+  }
+  return matches;
+}
+
+/**
+ * The gazetteer city a name refers to, null when it is unknown or ambiguous
+ * (Portland without a state)
+ */
+export function findCity(value: unknown, countryCode?: string | null, stateCode?: string | null): GazetteerCity | null {
+  const matches = findCityMatches(value, countryCode, stateCode);
+  return matches.length === 1 ? matches[0] : null;
+}
+
+export type LocationPrecision = 'file' | 'city' | 'state' | 'country';
+
+export type LocationField = 'city' | 'state' | 'country';
+
+export interface LocationInput {
+  city?: unknown;
+  state?: unknown;
+  country?: unknown;
+  latitude?: unknown;
+  longitude?: unknown;
+}
+
+export interface LocationIssue {
+  field: LocationField;
+  value: string;
+  reason: string;
+}
+
+export interface NormalizedLocation {
+  city: string | null;
+  state: string | null;
+  country: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  precision: LocationPrecision | null;
+  // Values that could not be resolved; they are kept as they were
+  issues: LocationIssue[];
+}
+
+function textOrNull(value: unknown): string | null {
+  if (value === null || value === undefined) return null;
+  const text = String(value).trim();
+  return text === '' ? null : text;
+}
+
+function coordinate(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const number = Number(value);
+  return isNaN(number) || number === 0 ? null : number;
+}
+
+function isSamePoint(latitude: number, longitude: number, point: { latitude: number; longitude: number } | null): boolean {
+  return !!point && Math.abs(point.latitude - latitude) < 0.0001 && Math.abs(point.longitude - longitude) < 0.0001;
+}
+
+/**
+ * Country and US state as ISO codes and the most precise coordinates known:
+ * the row's own, then the gazetteer city, then the state or country
+ * centroid. Coordinates equal to a centroid were filled in by an earlier
+ * import, so a known city replaces them.
+ */
+export function normalizeLocation(input: LocationInput): NormalizedLocation {
+  const issues: LocationIssue[] = [];
+  let city = textOrNull(input.city);
+  let state = textOrNull(input.state);
+  let country = textOrNull(input.country);
+
+  const countryCode = resolveCountryCode(country);
+  if (countryCode) {
+    country = countryCode;
+  } else if (country && !isNoLocation(country)) {
+    issues.push({ field: 'country', value: country, reason: 'Unknown country' });
+  }
+
+  // Only US states are in the reference data
+  let stateCode: string | null = null;
+  if (!countryCode || countryCode === 'US') {
+    stateCode = resolveStateCode(state);
+    if (stateCode) {
+      state = stateCode;
+      if (!country) country = 'US';
+    } else if (state && !isNoLocation(state)) {
+      issues.push({ field: 'state', value: state, reason: 'Unknown US state' });
+    }
+  }
+
+  const knownCountry = countryCode ?? (stateCode ? 'US' : null);
+  const cityMatches = findCityMatches(city, knownCountry, stateCode);
+  const gazetteerCity = cityMatches.length === 1 ? cityMatches[0] : null;
+  if (gazetteerCity) {
+    city = gazetteerCity.city;
+    if (!country) country = gazetteerCity.country;
+    if (!state && gazetteerCity.state) state = gazetteerCity.state;
+  } else if (cityMatches.length > 1) {
+    issues.push({ field: 'city', value: city!, reason: 'City name matches several places; add the state or country' });
+  } else if (city && !isNoLocation(city)) {
+    issues.push({ field: 'city', value: city, reason: 'City not in the gazetteer' });
+  }
+
+  const stateCentroid = stateCode ? getStateCoordinates(stateCode) : null;
+  const countryCentroid = knownCountry ? getCountryCoordinates(knownCountry) : null;
+
+  let latitude = coordinate(input.latitude);
+  let longitude = coordinate(input.longitude);
+  let precision: LocationPrecision | null = null;
+
+  if (latitude !== null && longitude !== null) {
+    const fromCentroid = isSamePoint(latitude, longitude, stateCentroid) || isSamePoint(latitude, longitude, countryCentroid);
+    if (!fromCentroid || !gazetteerCity) {
+      return { city, state, country, latitude, longitude, precision: 'file', issues };
+    }
+  }
+
+  if (gazetteerCity) {
+    latitude = gazetteerCity.latitude;
+    longitude = gazetteerCity.longitude;
+    precision = 'city';
+  } else if (stateCentroid) {
+    latitude = stateCentroid.latitude;
+    longitude = stateCentroid.longitude;
+    precision = 'state';
+  } else if (countryCentroid) {
+    latitude = countryCentroid.latitude;
+    longitude = countryCentroid.longitude;
+    precision = 'country';
+  } else {
+    latitude = null;
+    longitude = null;
+  }
+
+  return { city, state, country, latitude, longitude, precision, issues };
+}
+
+export type LocationChanges = Partial<Pick<NormalizedLocation, 'city' | 'state' | 'country' | 'latitude' | 'longitude'>>;
+
+/**
+ * The fields normalizeLocation changes. Filled-in values are replaced by
+ * their normalized form and coordinates are set when the row has none of
+ * its own; blank fields stay blank, so a MERGE keeps the current value.
+ */
+export function getLocationChanges(input: LocationInput): LocationChanges {
+  const location = normalizeLocation(input);
+  const changes: LocationChanges = {};
+  (['city', 'state', 'country'] as const).forEach(field => {
+    const current = textOrNull(input[field]);
+    if (current !== null && location[field] !== null && location[field] !== current) {
+      changes[field] = location[field];
+    }
+  });
+  if (location.precision && location.precision !== 'file') {
+    if (location.latitude !== coordinate(input.latitude)) changes.latitude = location.latitude;
+    if (location.longitude !== coordinate(input.longitude)) changes.longitude = location.longitude;
+  }
+  return changes;
+}
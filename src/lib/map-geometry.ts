@@ -0,0 +1,156 @@
+import countryMap from '../../countrymap.json';
+import stateMap from '../../statemap.json';
+
+/**
+ * Bundled base geometry for the offline account map.
+ * Coarse land outlines ([lng, lat] rings) are enough for orientation at the
+ * zoom levels we use; country and US state centroids come from the same JSON
+ * files the importers use to geocode accounts.
+ */
+
+export type LngLat = [number, number];
+
+export interface LandOutline {
+  name: string;
+  ring: LngLat[];
+}
+
+export interface ReferencePlace {
+  code: string;
+  name: string;
+  lat: number;
+  lng: number;
+  kind: 'country' | 'state';
+}
+
+export const LAND_OUTLINES: LandOutline[] = [
+  {
+    name: 'North America',
+    ring: [
+      [-168, 66], [-162, 70], [-156, 71.3], [-140, 69.6], [-128, 70], [-115, 68], [-95, 72], [-85, 70],
+      [-80, 73], [-70, 67], [-62, 60], [-56, 52], [-66, 45], [-70, 43], [-74, 40], [-76, 35], [-81, 31],
+      [-80, 25], [-83, 29], [-90, 30], [-97, 27], [-98, 21], [-95, 18], [-90, 21], [-87, 21], [-88, 16],
+      [-84, 11], [-80, 8], [-78, 8], [-83, 8], [-86, 12], [-92, 14], [-96, 16], [-105, 20], [-110, 24],
+      [-115, 30], [-117, 32.5], [-121, 35], [-124, 40], [-124, 46], [-125, 49], [-130, 54], [-135, 58],
+      [-140, 60], [-150, 61], [-155, 58], [-165, 55], [-158, 59], [-165, 62],
+    ],
+  },
+  {
+    name: 'Greenland',
+    ring: [
+      [-73, 78], [-60, 82], [-30, 83.5], [-20, 81], [-18, 77], [-22, 70], [-32, 68], [-40, 65], [-43, 60],
+      [-48, 61], [-52, 65], [-55, 70], [-58, 75], [-68, 77],
+    ],
+  },
+  {
+    name: 'South America',
+    ring: [
+      [-78, 8], [-72, 12], [-62, 10.5], [-52, 5], [-50, 0], [-44, -2], [-35, -5], [-35, -9], [-39, -14],
+      [-41, -22], [-48, -26], [-53, -34], [-58, -38], [-63, -41], [-65, -45], [-68, -50], [-69, -52],
+      [-68, -55], [-72, -53], [-75, -47], [-73, -40], [-72, -30], [-71, -20], [-76, -14], [-81, -5],
+      [-80, -1], [-80, 3], [-77, 7],
+    ],
+  },
+  {
+    name: 'Eurasia',
+    ring: [
+      [-9, 43], [-2, 43.5], [-1.5, 46.5], [-4.5, 48.5], [2, 51], [5, 53], [8, 54], [8, 57], [10.5, 57.5],
+      [10.5, 54.5], [13, 54.5], [21, 55], [21, 57], [24, 59.5], [28, 60], [22, 60.5], [21, 63], [25, 65.5],
+      [21, 65], [17, 62], [19, 60], [16, 56], [12.5, 56], [11, 58.5], [8, 58], [5, 59], [5, 62], [10, 64],
+      [14, 67], [18, 69.5], [25, 71], [31, 70], [40, 67.5], [44, 68.5], [54, 68.5], [60, 69.5], [68, 69],
+      [73, 72], [80, 73.5], [87, 75], [100, 76], [113, 73.5], [130, 71], [140, 72.5], [150, 71], [160, 70],
+      [170, 69.5], [180, 68], [180, 65], [172, 64], [179, 62.5], [170, 60], [163, 59], [163, 57], [156, 51],
+      [156, 57], [162, 61], [154, 59.5], [143, 59], [137, 54], [141, 52], [141, 48], [135, 43], [130, 42.5],
+      [129, 37], [126.5, 34.5], [126, 38], [125, 40], [121, 40], [122, 37], [119, 35], [121.5, 32], [122, 29],
+      [119, 25], [114, 22], [109, 21.5], [106, 20], [108, 16], [109, 12], [105, 8.5], [103, 10.5], [100, 13],
+      [100, 8], [103.5, 1.5], [101, 3], [98, 8], [98.5, 13], [97, 17], [94, 16], [92, 22], [90, 22], [87, 21],
+      [80, 15.5], [80, 10], [77, 8], [74, 14], [73, 19], [72.5, 21], [68.5, 23], [66.5, 25], [62, 25],
+      [57, 25.5], [56.5, 27], [52, 27.5], [48, 30], [50, 26], [51.5, 24], [56, 26], [56.5, 24], [59.5, 22.5],
+      [56, 18], [52, 16], [45, 13], [43, 13.5], [39, 21], [35, 28], [34.5, 29.5], [32.5, 30], [34, 31.5],
+      [35, 33], [36, 36], [32, 36.5], [28, 37], [26, 39.5], [26.5, 40.5], [23, 40.5], [24, 38], [22, 37],
+      [21, 39], [19.5, 41.5], [13.5, 45.5], [12.5, 44], [16, 41.5], [18.5, 40], [16, 38], [15.5, 40], [12, 42],
+      [10, 44], [7.5, 43.8], [3, 43], [3, 42], [0, 39], [-1, 37.5], [-5.5, 36], [-9, 37],
+    ],
+  },
+  {
+    name: 'Great Britain',
+    ring: [
+      [-5, 50], [1.5, 51], [1.7, 53], [0, 53.5], [-1.5, 55.5], [-2, 57.5], [-3, 58.6], [-5, 58.6], [-6, 57],
+      [-5, 55.5], [-3, 54.5], [-4.5, 53.3], [-4, 51.7], [-5.5, 50],
+    ],
+  },
+  {
+    name: 'Ireland',
+    ring: [[-6, 52], [-6, 54], [-7.5, 55.2], [-10, 54], [-10, 52], [-8, 51.5]],
+  },
+  {
+    name: 'Africa',
+    ring: [
+      [-17, 21], [-17, 15], [-17, 12], [-13, 8], [-8, 4.5], [-2, 5], [5, 6], [9, 4], [9.5, 2], [9, -1],
+      [12, -5], [13, -12], [12, -17], [15, -27], [18, -32], [18.5, -34.5], [20, -35], [25, -34], [28, -33],
+      [32, -29], [33, -26], [35.5, -24], [35, -20], [37, -17.5], [40.5, -15], [40, -10], [39, -6], [40, -3],
+      [41.5, -1], [43, 1], [47, 5], [51, 10.5], [51, 12], [45, 10.5], [43, 12], [39, 16], [37, 21], [35, 24],
+      [33, 28], [32.5, 30], [30, 31], [25, 32], [20, 30.5], [20, 32], [15, 32.5], [11, 34], [10.5, 37],
+      [8, 37], [3, 36.8], [-1, 35.5], [-6, 36], [-9, 32], [-10, 29.5], [-13, 27.5],
+    ],
+  },
+  {
+    name: 'Madagascar',
+    ring: [[49, -12], [50.5, -15.5], [49.5, -18], [48, -24], [47, -25], [44, -24.5], [43.5, -21], [44.5, -16], [47, -14]],
+  },
+  {
+    name: 'Japan',
+    ring: [
+      [130, 31], [132, 34], [135, 34], [140, 35], [141, 38], [142, 40], [141.5, 42], [145, 43.5], [142, 45.5],
+      [140, 42], [140, 40], [138.5, 37.5], [136, 36], [133, 35.5], [130, 33.5],
+    ],
+  },
+  {
+    name: 'Sumatra',
+    ring: [[95, 5.5], [98, 4], [102, 1], [106, -5.8], [104, -5.5], [101, -3], [98, 0], [95.5, 3]],
+  },
+  {
+    name: 'Borneo',
+    ring: [[109, -1], [109.5, 2], [113, 3], [116, 6.5], [119, 5], [118, 1], [116.5, -2], [116, -4], [111, -3], [110, -2]],
+  },
+  {
+    name: 'New Guinea',
+    ring: [
+      [131, -1], [135, -3.5], [138, -1.5], [141, -2.5], [146, -5], [150, -10.5], [147, -10], [143, -9],
+      [138, -8], [135, -4.5], [132.5, -4],
+    ],
+  },
+  {
+    name: 'Australia',
+    ring: [
+      [113, -22], [114, -26], [115, -34], [118, -35], [124, -34], [129, -31.5], [134, -32.5], [138, -35],
+      [140, -38], [144, -38.5], [147, -38], [150, -37.5], [151.5, -33], [153.5, -28], [153, -25], [150, -22],
+      [146, -19], [145.5, -15], [143, -11], [141.5, -13], [141.5, -17], [139, -17], [136, -15], [137, -12],
+      [132, -11.5], [130, -13], [127, -14], [124, -16.5], [121, -19.5], [117, -20.5],
+    ],
+  },
+  {
+    name: 'New Zealand',
+    ring: [
+      [172.7, -34.5], [174.5, -36.5], [178.5, -37.7], [177, -39.5], [175, -41.5], [173, -41], [172.5, -43.5],
+      [170.5, -46], [167, -46.5], [168, -44], [171, -42], [172.5, -40.5], [174.5, -39.5], [174, -37],
+    ],
+  },
+];
+
+export const REFERENCE_PLACES: ReferencePlace[] = [
+  ...(countryMap as Array<{ country: string; latitude: number; longitude: number }>).map(c => ({
+    code: c.country,
+    name: c.country,
+    lat: c.latitude,
+    lng: c.longitude,
+    kind: 'country' as const,
+  })),
+  ...(stateMap as Array<{ state: string; latitude: number; longitude: number; name: string }>).map(s => ({
+    code: s.state,
+    name: s.name,
+    lat: s.latitude,
+    lng: s.longitude,
+    kind: 'state' as const,
+  })),
+];
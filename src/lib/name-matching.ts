@@ -0,0 +1,212 @@
+/**
+ * Matching imported rows to accounts, sellers and managers.
+ * A row's external ID (e.g. a CRM account ID) is the primary key. Without one,
+ * names match exactly or after normalizing case, spacing and punctuation.
+ * Anything merely similar is a near miss: the import preview lists it and it
+ * is only used once an admin confirms it.
+ */
+
+export type MatchEntity = 'account' | 'seller' | 'manager';
+
+export const MATCH_ENTITY_LABELS: Record<MatchEntity, string> = {
+  account: 'Account',
+  seller: 'Seller',
+  manager: 'Manager',
+};
+
+export interface MatchCandidate {
+  name: string;
+  external_id?: string | null;
+}
+
+export interface NearMissCandidate {
+  name: string;
+  score: number;
+}
+
+/**
+ * A name in the file that only resembles existing names
+ */
+export interface NearMiss {
+  entity: MatchEntity;
+  sheet: string;
+  input_name: string;
+  // Rows in the sheet that use this name
+  row_count: number;
+  candidates: NearMissCandidate[];
+}
+
+// Admin-confirmed near misses: matchKey(entity, name in file) -> existing name
+export type ConfirmedMatches = Record<string, string>;
+
+// Similarity (0-1) a name needs to be offered as a near miss
+export const FUZZY_MATCH_THRESHOLD = 0.8;
+const MAX_CANDIDATES = 3;
+
+export function normalizeEntityName(name: unknown): string {
+  return String(name ?? '')
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+export function normalizeExternalId(value: unknown): string | null {
+  if (value === null || value === undefined) return null;
+  const id = String(value).trim();
+  return id === '' ? null : id;
+}
+
+export function matchKey(entity: MatchEntity, name: string): string {
+  return `${entity}:${normalizeEntityName(name)}`;
+}
+
+// Edit distance, giving up once it is certain to exceed maxDistance
+function boundedLevenshtein(a: string, b: string, maxDistance: number): number {
+  if (Math.abs(a.length - b.length) > maxDistance) return maxDistance + 1;
+
+  let previous = new Array<number>(b.length + 1);
+  let current = new Array<number>(b.length + 1);
+  for (let j = 0; j <= b.length; j++) previous[j] = j;
+
+  for (let i = 1; i <= a.length; i++) {
+    current[0] = i;
+    let rowMin = current[0];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a.charCodeAt(i - 1) === b.charCodeAt(j - 1) ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (current[j] < rowMin) rowMin = current[j];
+    }
+    if (rowMin > maxDistance) return maxDistance + 1;
+    const swap = previous;
+    previous = current;
+    current = swap;
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * Similarity of two names from 0 to 1, after normalizing both
+ */
+export function nameSimilarity(a: string, b: string, threshold = 0): number {
+  const x = normalizeEntityName(a);
+  const y = normalizeEntityName(b);
+  if (!x || !y) return 0;
+  if (x === y) return 1;
+
+  const longest = Math.max(x.length, y.length);
+  const maxDistance = Math.floor(longest * (1 - threshold));
+  const distance = boundedLevenshtein(x, y, maxDistance);
+  return distance > maxDistance ? 0 : 1 - distance / longest;
+}
+
+export interface NameMatcher<T extends MatchCandidate> {
+  /**
+   * Record for a row, or null when nothing matches without review.
+   * An external ID that matches wins; a name match whose record carries a
+   * different external ID is refused.
+   */
+  match(name: string | null | undefined, externalId?: unknown): T | null;
+  /**
+   * Closest records by name, best first, for rows match() couldn't place
+   */
+  nearMisses(name: string): NearMissCandidate[];
+}
+
+export function createNameMatcher<T extends MatchCandidate>(
+  entity: MatchEntity,
+  records: T[],
+  confirmed: ConfirmedMatches = {}
+): NameMatcher<T> {
+  const byExternalId = new Map<string, T>();
+  const byName = new Map<string, T>();
+  const byNormalizedName = new Map<string, T[]>();
+  const nearMissCache = new Map<string, NearMissCandidate[]>();
+
+  records.forEach(record => {
+    const externalId = normalizeExternalId(record.external_id);
+    if (externalId && !byExternalId.has(externalId)) byExternalId.set(externalId, record);
+    if (!byName.has(record.name)) byName.set(record.name, record);
+
+    const normalized = normalizeEntityName(record.name);
+    byNormalizedName.set(normalized, [...(byNormalizedName.get(normalized) || []), record]);
+  });
+
+  const findByName = (name: string): T | null => {
+    const exact = byName.get(name);
+    if (exact) return exact;
+
+    // Two records that only differ in spacing or case are ambiguous
+    const normalized = byNormalizedName.get(normalizeEntityName(name));
+    if (normalized && normalized.length === 1) return normalized[0];
+
+    const confirmedName = confirmed[matchKey(entity, name)];
+    return confirmedName ? byName.get(confirmedName) ?? null : null;
+  };
+
+  return {
+    match(name, externalId) {
+      const id = normalizeExternalId(externalId);
+      if (id) {
+        const record = byExternalId.get(id);
+        if (record) return record;
+      }
+
+      if (!name) return null;
+      const record = findByName(String(name));
+      if (!record) return null;
+
+      const recordExternalId = normalizeExternalId(record.external_id);
+      if (id && recordExternalId && recordExternalId !== id) return null;
+      return record;
+    },
+
+    nearMisses(name) {
+      const normalized = normalizeEntityName(name);
+      const cached = nearMissCache.get(normalized);
+      if (cached) return cached;
+
+      const scores = new Map<string, number>();
+      records.forEach(record => {
+        const score = nameSimilarity(name, record.name, FUZZY_MATCH_THRESHOLD);
+        if (score >= FUZZY_MATCH_THRESHOLD && score > (scores.get(record.name) ?? 0)) {
+          scores.set(record.name, score);
+        }
+      });
+
+      const candidates = Array.from(scores.entries())
+        .map(([candidateName, score]) => ({ name: candidateName, score }))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, MAX_CANDIDATES);
+
+      nearMissCache.set(normalized, candidates);
+      return candidates;
+    },
+  };
+}
+
+/**
+ * Group a sheet's unmatched names into near misses for review
+ */
+export function collectNearMisses<T extends MatchCandidate>(
+  entity: MatchEntity,
+  sheet: string,
+  matcher: NameMatcher<T>,
+  unmatchedNames: string[]
+): NearMiss[] {
+  const counts = new Map<string, number>();
+  unmatchedNames.forEach(name => counts.set(name, (counts.get(name) || 0) + 1));
+
+  const nearMisses: NearMiss[] = [];
+  counts.forEach((rowCount, name) => {
+    const candidates = matcher.nearMisses(name);
+    if (candidates.length > 0) {
+      nearMisses.push({ entity, sheet, input_name: name, row_count: rowCount, candidates });
+    }
+  });
+
+  return nearMisses;
+}
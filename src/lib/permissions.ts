@@ -0,0 +1,140 @@
+/**
+ * Role permission matrix.
+ * Every UI gate and data mutation asks can()/assertCan() for a capability
+ * instead of comparing role names. public.role_permissions mirrors
+ * ROLE_CAPABILITIES for RLS and RPCs (public.has_permission) - keep the two in sync.
+ */
+
+export type AppRole = 'MASTER' | 'MANAGER' | 'DIVISION_LEAD' | 'SELLER' | 'VIEWER';
+
+export const APP_ROLES: AppRole[] = ['MASTER', 'MANAGER', 'DIVISION_LEAD', 'SELLER', 'VIEWER'];
+
+export const ROLE_LABELS: Record<AppRole, string> = {
+  MASTER: 'Master',
+  MANAGER: 'Manager',
+  DIVISION_LEAD: 'Division Lead',
+  SELLER: 'Seller',
+  VIEWER: 'Viewer',
+};
+
+export type Capability =
+  // Move accounts between sellers and columns directly
+  | 'relationship.assign'
+  // Propose relationship changes for MASTER approval
+  | 'relationship.request'
+  | 'request.review'
+  | 'book.finalize'
+  | 'scenario.edit'
+  | 'scenario.promote'
+  | 'rebalance.view'
+  | 'snapshot.manage'
+  | 'settings.edit'
+  | 'import.run'
+  | 'audit.view'
+  | 'performance.view_managers'
+  // Invite users, change roles, link managers, deactivate accounts
+  | 'user.manage'
+  // "View as" another user to see their dashboard and permissions
+  | 'user.impersonate';
+
+export const CAPABILITY_LABELS: Record<Capability, string> = {
+  'relationship.assign': 'Assign and unassign accounts',
+  'relationship.request': 'Request account changes',
+  'request.review': 'Approve or reject requests',
+  'book.finalize': 'Finalize seller books',
+  'scenario.edit': 'Create and edit scenarios',
+  'scenario.promote': 'Promote scenarios to live data',
+  'rebalance.view': 'Generate rebalancing plans',
+  'snapshot.manage': 'Take and restore snapshots',
+  'settings.edit': 'Edit settings',
+  'import.run': 'Import data',
+  'audit.view': 'View the audit log',
+  'performance.view_managers': 'View manager performance',
+  'user.manage': 'Manage users',
+  'user.impersonate': 'View the app as another user',
+};
+
+// Capabilities that only show data - the only ones kept during read-only impersonation
+export const VIEW_CAPABILITIES: Capability[] = ['rebalance.view', 'audit.view', 'performance.view_managers'];
+
+export const ROLE_CAPABILITIES: Record<AppRole, Capability[]> = {
+  MASTER: [
+    'relationship.assign',
+    'request.review',
+    'book.finalize',
+    'scenario.edit',
+    'scenario.promote',
+    'rebalance.view',
+    'snapshot.manage',
+    'settings.edit',
+    'import.run',
+    'audit.view',
+    'performance.view_managers',
+    'user.manage',
+    'user.impersonate',
+  ],
+  MANAGER: ['relationship.request', 'book.finalize', 'scenario.edit', 'rebalance.view', 'audit.view'],
+  DIVISION_LEAD: ['relationship.request', 'book.finalize', 'scenario.edit', 'rebalance.view', 'audit.view'],
+  SELLER: [],
+  // Read-only finance access across every seller
+  VIEWER: ['audit.view', 'performance.view_managers'],
+};
+
+export interface PermissionSubject {
+  id: string;
+  role: AppRole;
+  // DIVISION_LEAD scope
+  division?: string | null;
+  // SELLER scope
+  seller_id?: string | null;
+}
+
+/**
+ * Which sellers a user's data is limited to
+ */
+export type DataScope =
+  | { type: 'all' }
+  | { type: 'manager'; userId: string }
+  | { type: 'division'; division: string | null }
+  | { type: 'seller'; sellerId: string | null };
+
+export class PermissionError extends Error {
+  capability: Capability;
+
+  constructor(capability: Capability) {
+    super(`You do not have permission to ${CAPABILITY_LABELS[capability].toLowerCase()}`);
+    this.name = 'PermissionError';
+    this.capability = capability;
+  }
+}
+
+export function isAppRole(value: unknown): value is AppRole {
+  return typeof value === 'string' && (APP_ROLES as string[]).includes(value);
+}
+
+export function can(subject: PermissionSubject | { role: string } | null | undefined, capability: Capability): boolean {
+  if (!subject || !isAppRole(subject.role)) return false;
+  return ROLE_CAPABILITIES[subject.role].includes(capability);
+}
+
+export function assertCan(subject: PermissionSubject | { role: string } | null | undefined, capability: Capability): void {
+  if (!can(subject, capability)) {
+    throw new PermissionError(capability);
+  }
+}
+
+export function getDataScope(subject: PermissionSubject): DataScope {
+  switch (subject.role) {
+    case 'MASTER':
+    case 'VIEWER':
+      return { type: 'all' };
+    case 'MANAGER':
+      return { type: 'manager', userId: subject.id };
+    case 'DIVISION_LEAD':
+      return { type: 'division', division: subject.division ?? null };
+    case 'SELLER':
+      return { type: 'seller', sellerId: subject.seller_id ?? null };
+    default:
+      return { type: 'seller', sellerId: null };
+  }
+}
@@ -0,0 +1,64 @@
+import {
+  IMPORT_CANCELLED_MESSAGE,
+  prepareImport,
+  type ImportType,
+  type ImportWorkerMessage,
+  type ImportWorkerRequest,
+  type PreparedImport,
+} from "@/lib/import-workbook";
+
+/**
+ * Read, validate and convert an import file to rows in a Web Worker, so
+ * large workbooks don't freeze the page. Aborting the signal stops the
+ * worker. Falls back to the main thread where workers aren't available.
+ */
+export async function prepareImportFile(
+  file: File,
+  importType: ImportType,
+  onProgress?: (message: string) => void,
+  signal?: AbortSignal
+): Promise<PreparedImport> {
+  const data = await file.arrayBuffer();
+  if (signal?.aborted) {
+    throw new Error(IMPORT_CANCELLED_MESSAGE);
+  }
+
+  if (typeof Worker === 'undefined') {
+    return prepareImport(file.name, file.size, data, importType, onProgress);
+  }
+
+  return new Promise<PreparedImport>((resolve, reject) => {
+    const worker = new Worker(new URL('./import-workbook.worker.ts', import.meta.url));
+
+    const finish = () => {
+      worker.terminate();
+      signal?.removeEventListener('abort', onAbort);
+    };
+    const onAbort = () => {
+      finish();
+      reject(new Error(IMPORT_CANCELLED_MESSAGE));
+    };
+    signal?.addEventListener('abort', onAbort);
+
+    worker.onmessage = (event: MessageEvent<ImportWorkerMessage>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress?.(message.message);
+      } else if (message.type === 'done') {
+        finish();
+        resolve(message.prepared);
+      } else {
+        finish();
+        reject(new Error(message.message));
+      }
+    };
+    worker.onerror = (event) => {
+      finish();
+      reject(new Error(`Could not read ${file.name}: ${event.message}`));
+    };
+
+    const request: ImportWorkerRequest = { fileName: file.name, fileSize: file.size, data, importType };
+    // The file buffer is moved to the worker rather than copied
+    worker.postMessage(request, [data]);
+  });
+}
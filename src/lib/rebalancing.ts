@@ -0,0 +1,462 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { UnifiedDashboardData } from '@/lib/unified-dashboard-query';
+import { getAllAccountsWithAssignmentStatus } from '@/lib/seller-detail-queries';
+import { createMoveRequests } from '@/lib/requests';
+import { setScenarioChange } from '@/lib/scenarios';
+import { distanceKm } from '@/lib/geo';
+import {
+  BOOK_STATUSES,
+  evaluateSellerHealth,
+  getSellerThreshold,
+  HealthThreshold,
+  HealthThresholds,
+} from '@/lib/seller-health';
+
+/**
+ * Territory rebalancing recommender
+ * Proposes account moves that bring sellers into their healthy revenue and
+ * account-count ranges. Must keep and original relationships are never moved.
+ */
+
+// Status a rebalanced account gets in the receiving seller's book
+export const REBALANCE_TARGET_STATUS = 'must_keep';
+
+// Relationship statuses that are never moved away from their seller
+const LOCKED_STATUSES = ['must_keep', 'available'];
+
+// Accounts per receiver fetched with fit scores, best fit first
+const FIT_LOOKUP_LIMIT = 500;
+
+const IN_CHUNK_SIZE = 200;
+
+export interface RebalanceSuggestion {
+  id: string;
+  account_id: string;
+  account_name: string;
+  account_revenue: number;
+  from_seller_id: string | null;
+  from_seller_name: string | null;
+  from_status: string | null;
+  to_seller_id: string;
+  to_seller_name: string;
+  // Receiver's current status for the account, null if unrelated today
+  to_current_status: string | null;
+  fit_percentage: number | null;
+  score: number;
+  reasons: string[];
+}
+
+export interface RebalanceSellerSummary {
+  seller_id: string;
+  seller_name: string;
+  threshold: HealthThreshold;
+  revenue_before: number;
+  revenue_after: number;
+  accounts_before: number;
+  accounts_after: number;
+  healthy_before: boolean;
+  healthy_after: boolean;
+}
+
+export interface RebalancePlan {
+  suggestions: RebalanceSuggestion[];
+  sellers: RebalanceSellerSummary[];
+}
+
+export type RebalanceApplyTarget =
+  | { type: 'live' }
+  | { type: 'scenario'; scenarioId: string }
+  | { type: 'request' };
+
+interface SellerState {
+  id: string;
+  name: string;
+  size: string;
+  seniority: string;
+  industry: string | null;
+  lat: number | null;
+  lng: number | null;
+  threshold: HealthThreshold;
+  revenue: number;
+  accounts: number;
+}
+
+interface CandidateAccount {
+  id: string;
+  name: string;
+  revenue: number;
+  size: string | null;
+  industry: string | null;
+  lat: number | null;
+  lng: number | null;
+}
+
+interface MoveCandidate {
+  account: CandidateAccount;
+  receiver: SellerState;
+  donor: SellerState | null;
+  fromStatus: string | null;
+  receiverStatus: string | null;
+  reduction: number;
+  fit: number | null;
+  score: number;
+}
+
+interface Holding {
+  seller_id: string;
+  status: string;
+}
+
+function chunkIds(ids: string[]): string[][] {
+  const chunks: string[][] = [];
+  for (let i = 0; i < ids.length; i += IN_CHUNK_SIZE) {
+    chunks.push(ids.slice(i, i + IN_CHUNK_SIZE));
+  }
+  return chunks;
+}
+
+const formatCurrency = (amount: number) =>
+  amount >= 1_000_000 ? `$${(amount / 1_000_000).toFixed(1)}M` : `$${(amount / 1_000).toFixed(0)}K`;
+
+const formatStatus = (status: string) => status.replace(/_/g, ' ');
+
+/**
+ * Distance from the healthy range: revenue gap relative to the minimum plus
+ * accounts over the cap. Zero means healthy.
+ */
+function imbalance(threshold: HealthThreshold, revenue: number, accounts: number): number {
+  const revenueGap = revenue < threshold.min_revenue
+    ? threshold.min_revenue - revenue
+    : revenue > threshold.max_revenue
+    ? revenue - threshold.max_revenue
+    : 0;
+  return revenueGap / Math.max(threshold.min_revenue, 1) + Math.max(0, accounts - threshold.max_accounts);
+}
+
+function isHealthy(seller: SellerState): boolean {
+  return imbalance(seller.threshold, seller.revenue, seller.accounts) === 0;
+}
+
+// Moving accounts other sellers are working on costs more than handing out the pool
+function churnPenalty(fromStatus: string | null): number {
+  if (!fromStatus) return 0;
+  if (BOOK_STATUSES.includes(fromStatus)) return 15;
+  if (fromStatus === 'to_be_peeled' || fromStatus === 'peeled') return 2;
+  return 8;
+}
+
+function isSizeMismatch(sellerSize: string, accountSize: string | null): boolean {
+  return (sellerSize === 'enterprise' && accountSize === 'midmarket') ||
+    (sellerSize === 'midmarket' && accountSize === 'enterprise');
+}
+
+function isIndustryMatch(specialty: string | null, industry: string | null): boolean {
+  if (!specialty || specialty === '-' || !industry) return false;
+  return specialty.trim().toLowerCase() === industry.trim().toLowerCase();
+}
+
+/**
+ * Build a rebalancing plan for the given sellers (rows from the dashboard
+ * view). Accounts only move between sellers in scope or out of the
+ * unassigned pool. Moves are picked greedily by how much they reduce the
+ * total distance from healthy ranges, then by fit, with a penalty for churn.
+ */
+export async function generateRebalancePlan(
+  rows: UnifiedDashboardData[],
+  thresholds: HealthThresholds,
+  options: { maxMoves?: number; onProgress?: (message: string) => void } = {}
+): Promise<RebalancePlan> {
+  try {
+    const maxMoves = options.maxMoves ?? 50;
+    const sellerIds = rows.map(row => row.seller_id);
+
+    // Seller locations and original (locked) relationships
+    const locations = new Map<string, { lat: number | null; lng: number | null }>();
+    const originals = new Set<string>();
+    for (const ids of chunkIds(sellerIds)) {
+      const [sellersResult, originalsResult] = await Promise.all([
+        supabase.from('sellers').select('id, lat, lng').in('id', ids),
+        supabase.from('original_relationships').select('account_id, seller_id').in('seller_id', ids),
+      ]);
+      if (sellersResult.error) throw sellersResult.error;
+      if (originalsResult.error) throw originalsResult.error;
+
+      (sellersResult.data || []).forEach(seller => locations.set(seller.id, { lat: seller.lat, lng: seller.lng }));
+      (originalsResult.data || []).forEach(rel => originals.add(`${rel.account_id}:${rel.seller_id}`));
+    }
+
+    const sellers = new Map<string, SellerState>();
+    const accounts = new Map<string, CandidateAccount>();
+    const holdings = new Map<string, Holding[]>();
+
+    rows.forEach(row => {
+      sellers.set(row.seller_id, {
+        id: row.seller_id,
+        name: row.seller_name,
+        size: row.size,
+        seniority: row.seniority_type,
+        industry: row.industry_specialty,
+        lat: locations.get(row.seller_id)?.lat ?? null,
+        lng: locations.get(row.seller_id)?.lng ?? null,
+        threshold: getSellerThreshold(thresholds, row.size, row.seniority_type),
+        revenue: Number(row.total_revenue || 0),
+        accounts: Number(row.account_count || 0),
+      });
+
+      (row.relationships || []).forEach(rel => {
+        if (!rel.account_id) return;
+        accounts.set(rel.account_id, {
+          id: rel.account_id,
+          name: rel.account_name,
+          revenue: Number(rel.total_account_revenue || 0),
+          size: rel.account_size,
+          industry: rel.account_industry,
+          lat: rel.account_lat,
+          lng: rel.account_lng,
+        });
+        const list = holdings.get(rel.account_id) || [];
+        list.push({ seller_id: row.seller_id, status: rel.relationship_status });
+        holdings.set(rel.account_id, list);
+      });
+    });
+
+    const initial = new Map(Array.from(sellers.values()).map(seller => [seller.id, { ...seller }] as [string, SellerState]));
+
+    // Only sellers with room to take accounts need fit scores
+    const receivers = Array.from(sellers.values()).filter(seller =>
+      seller.accounts < seller.threshold.max_accounts && seller.revenue < seller.threshold.max_revenue
+    );
+
+    const fitScores = new Map<string, Map<string, number>>();
+    const poolAccounts = new Set<string>();
+    for (let i = 0; i < receivers.length; i++) {
+      const receiver = receivers[i];
+      options.onProgress?.(`Scoring fit for ${receiver.name} (${i + 1}/${receivers.length})`);
+
+      const result = await getAllAccountsWithAssignmentStatus(receiver.id, 1, FIT_LOOKUP_LIMIT, undefined, 'fit_percentage', 'desc');
+      const fits = new Map<string, number>();
+      result.accounts.forEach(account => {
+        fits.set(account.id, Number(account.fit_percentage || 0));
+        if (account.assignment_status === 'available' && !holdings.has(account.id)) {
+          poolAccounts.add(account.id);
+          if (!accounts.has(account.id)) {
+            accounts.set(account.id, {
+              id: account.id,
+              name: account.name,
+              revenue: Number(account.total_revenue || 0),
+              size: account.size,
+              industry: account.industry,
+              lat: account.lat,
+              lng: account.lng,
+            });
+          }
+        }
+      });
+      fitScores.set(receiver.id, fits);
+    }
+
+    options.onProgress?.('Choosing moves');
+
+    const moved = new Set<string>();
+    const suggestions: RebalanceSuggestion[] = [];
+
+    while (suggestions.length < maxMoves) {
+      // Assigned inside the candidate callback, so TS must not narrow it to null
+      let best = null as MoveCandidate | null;
+
+      for (const receiver of receivers) {
+        if (receiver.accounts >= receiver.threshold.max_accounts) continue;
+        const fits = fitScores.get(receiver.id);
+        const receiverBefore = imbalance(receiver.threshold, receiver.revenue, receiver.accounts);
+
+        const consider = (account: CandidateAccount, donor: SellerState | null, fromStatus: string | null) => {
+          const receiverHolding = (holdings.get(account.id) || []).find(h => h.seller_id === receiver.id);
+          if (receiverHolding && BOOK_STATUSES.includes(receiverHolding.status)) return;
+
+          const receiverAfter = imbalance(receiver.threshold, receiver.revenue + account.revenue, receiver.accounts + 1);
+          let reduction = receiverBefore - receiverAfter;
+
+          if (donor && fromStatus && BOOK_STATUSES.includes(fromStatus)) {
+            reduction += imbalance(donor.threshold, donor.revenue, donor.accounts) -
+              imbalance(donor.threshold, donor.revenue - account.revenue, donor.accounts - 1);
+          }
+          if (reduction <= 0.01) return;
+
+          const fit = fits?.get(account.id) ?? null;
+          let score = reduction * 100 + (fit ?? 0) * 0.3 - churnPenalty(fromStatus);
+          if (isIndustryMatch(receiver.industry, account.industry)) score += 5;
+          if (isSizeMismatch(receiver.size, account.size)) score -= 15;
+          if (score <= 0) return;
+
+          if (!best || score > best.score) {
+            best = {
+              account,
+              receiver,
+              donor,
+              fromStatus,
+              receiverStatus: receiverHolding?.status ?? null,
+              reduction,
+              fit,
+              score,
+            };
+          }
+        };
+
+        Array.from(poolAccounts).forEach(accountId => {
+          if (moved.has(accountId)) return;
+          const account = accounts.get(accountId);
+          if (account) consider(account, null, null);
+        });
+
+        Array.from(holdings.entries()).forEach(([accountId, list]) => {
+          if (moved.has(accountId)) return;
+          const account = accounts.get(accountId);
+          if (!account) return;
+
+          list.forEach(holding => {
+            if (holding.seller_id === receiver.id) return;
+            if (LOCKED_STATUSES.includes(holding.status)) return;
+            if (originals.has(`${accountId}:${holding.seller_id}`)) return;
+            consider(account, sellers.get(holding.seller_id) || null, holding.status);
+          });
+        });
+      }
+
+      if (!best) break;
+
+      const choice = best;
+      const { account, receiver, donor, fromStatus } = choice;
+      const reasons: string[] = [];
+
+      const receiverRevenueBefore = receiver.revenue;
+      receiver.revenue += account.revenue;
+      receiver.accounts += 1;
+      reasons.push(
+        `Takes ${receiver.name} from ${formatCurrency(receiverRevenueBefore)} to ${formatCurrency(receiver.revenue)} ` +
+        `(healthy range ${formatCurrency(receiver.threshold.min_revenue)}–${formatCurrency(receiver.threshold.max_revenue)})` +
+        (isHealthy(receiver) ? ', now healthy' : '')
+      );
+
+      if (donor && fromStatus && BOOK_STATUSES.includes(fromStatus)) {
+        const donorRevenueBefore = donor.revenue;
+        const donorAccountsBefore = donor.accounts;
+        donor.revenue -= account.revenue;
+        donor.accounts -= 1;
+        if (donorAccountsBefore > donor.threshold.max_accounts) {
+          reasons.push(`Brings ${donor.name} from ${donorAccountsBefore} to ${donor.accounts} accounts (cap ${donor.threshold.max_accounts})`);
+        } else {
+          reasons.push(`Brings ${donor.name} from ${formatCurrency(donorRevenueBefore)} down to ${formatCurrency(donor.revenue)}`);
+        }
+      } else if (donor && fromStatus) {
+        reasons.push(`${donor.name} has it as ${formatStatus(fromStatus)}, outside their book`);
+      } else {
+        reasons.push('Currently unassigned');
+      }
+
+      reasons.push(choice.fit !== null
+        ? `${Math.round(choice.fit)}% fit for ${receiver.name}`
+        : `Not among ${receiver.name}'s top fit matches`);
+
+      if (isIndustryMatch(receiver.industry, account.industry)) {
+        reasons.push(`Matches ${receiver.name}'s ${account.industry} specialty`);
+      }
+      if (isSizeMismatch(receiver.size, account.size)) {
+        reasons.push(`Size mismatch: ${account.size} account for a ${receiver.size} seller`);
+      }
+      if (receiver.lat != null && receiver.lng != null && account.lat != null && account.lng != null) {
+        reasons.push(`${Math.round(distanceKm(receiver.lat, receiver.lng, account.lat, account.lng))} km from ${receiver.name}`);
+      }
+
+      moved.add(account.id);
+      suggestions.push({
+        id: `${account.id}:${receiver.id}`,
+        account_id: account.id,
+        account_name: account.name,
+        account_revenue: account.revenue,
+        from_seller_id: donor?.id ?? null,
+        from_seller_name: donor?.name ?? null,
+        from_status: fromStatus,
+        to_seller_id: receiver.id,
+        to_seller_name: receiver.name,
+        to_current_status: choice.receiverStatus,
+        fit_percentage: choice.fit,
+        score: Math.round(choice.score * 10) / 10,
+        reasons,
+      });
+    }
+
+    const summaries: RebalanceSellerSummary[] = Array.from(sellers.values()).map(seller => {
+      const before = initial.get(seller.id)!;
+      const healthBefore = evaluateSellerHealth(thresholds, before.size, before.seniority, before.revenue, before.accounts);
+      const healthAfter = evaluateSellerHealth(thresholds, seller.size, seller.seniority, seller.revenue, seller.accounts);
+      return {
+        seller_id: seller.id,
+        seller_name: seller.name,
+        threshold: seller.threshold,
+        revenue_before: before.revenue,
+        revenue_after: seller.revenue,
+        accounts_before: before.accounts,
+        accounts_after: seller.accounts,
+        healthy_before: healthBefore.is_revenue_healthy && healthBefore.is_account_healthy,
+        healthy_after: healthAfter.is_revenue_healthy && healthAfter.is_account_healthy,
+      };
+    });
+
+    return { suggestions, sellers: summaries };
+  } catch (error) {
+    throw error;
+  }
+}
+
+/**
+ * Apply one suggestion: directly (MASTER), into a scenario, or as change
+ * requests for MASTER approval (MANAGER)
+ */
+export async function applyRebalanceSuggestion(
+  suggestion: RebalanceSuggestion,
+  target: RebalanceApplyTarget
+): Promise<void> {
+  try {
+    if (target.type === 'scenario') {
+      await setScenarioChange({
+        scenarioId: target.scenarioId,
+        accountId: suggestion.account_id,
+        sellerId: suggestion.to_seller_id,
+        status: REBALANCE_TARGET_STATUS,
+        liveStatus: suggestion.to_current_status,
+      });
+      if (suggestion.from_seller_id) {
+        await setScenarioChange({
+          scenarioId: target.scenarioId,
+          accountId: suggestion.account_id,
+          sellerId: suggestion.from_seller_id,
+          status: 'available',
+          liveStatus: suggestion.from_status,
+        });
+      }
+      return;
+    }
+
+    if (target.type === 'request') {
+      await createMoveRequests({
+        account_id: suggestion.account_id,
+        from_seller_id: suggestion.from_seller_id,
+        to_seller_id: suggestion.to_seller_id,
+        requested_status: REBALANCE_TARGET_STATUS,
+        justification: `Rebalancing suggestion: ${suggestion.reasons.join('; ')}`,
+      });
+      return;
+    }
+
+    // Both sides of the move in one transaction
+    const { error } = await (supabase as any).rpc('move_account_relationship', {
+      p_account_id: suggestion.account_id,
+      p_from_seller_id: suggestion.from_seller_id,
+      p_to_seller_id: suggestion.to_seller_id,
+      p_status: REBALANCE_TARGET_STATUS,
+    });
+    if (error) throw error;
+  } catch (error) {
+    throw error;
+  }
+}
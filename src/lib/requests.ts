@@ -0,0 +1,333 @@
+import { supabase } from '@/integrations/supabase/client';
+import { BOOK_STATUSES, evaluateSellerHealth, getAccountTotalRevenue, getHealthThresholds } from '@/lib/seller-health';
+
+export type RequestType = 'pin' | 'assign' | 'unassign';
+export type RequestStatus = 'pending' | 'approved' | 'rejected';
+
+export interface AccountChangeRequest {
+  id: string;
+  type: RequestType;
+  status: RequestStatus;
+  account_id: string;
+  seller_id: string;
+  previous_status: string | null;
+  requested_status: string;
+  justification: string;
+  requested_by: string;
+  // Shared by the two requests of an account move, which are decided together
+  pair_id: string | null;
+  reviewed_by: string | null;
+  review_note: string | null;
+  reviewed_at: string | null;
+  created_at: string;
+  account?: {
+    id: string;
+    name: string;
+    city: string | null;
+    state: string | null;
+    country: string | null;
+    industry: string | null;
+    size: string | null;
+  } | null;
+  seller?: {
+    id: string;
+    name: string;
+    division: string;
+    size: string;
+    seniority_type: string | null;
+  } | null;
+  requester?: {
+    id: string;
+    name: string;
+    email: string;
+  } | null;
+}
+
+export interface AccountChangeRequestInsert {
+  account_id: string;
+  seller_id: string;
+  requested_by: string;
+  previous_status?: string | null;
+  requested_status: string;
+  justification: string;
+}
+
+export interface RequestImpact {
+  account_revenue: number;
+  revenue_delta: number;
+  revenue_before: number;
+  revenue_after: number;
+  accounts_before: number;
+  accounts_after: number;
+  current_status: string | null;
+  is_revenue_healthy_before: boolean;
+  is_revenue_healthy_after: boolean;
+  is_account_healthy_before: boolean;
+  is_account_healthy_after: boolean;
+}
+
+const REQUEST_SELECT = `
+  *,
+  account:accounts(id, name, city, state, country, industry, size),
+  seller:sellers(id, name, division, size, seniority_type),
+  requester:profiles!requests_requested_by_fkey(id, name, email)
+`;
+
+/**
+ * Map a target relationship status to the request type a manager submits for it
+ */
+export function getRequestTypeForStatus(status: string): RequestType {
+  if (status === 'available') return 'unassign';
+  if (status === 'must_keep' || status === 'pinned') return 'pin';
+  return 'assign';
+}
+
+/**
+ * Submit a change request for MASTER approval
+ */
+export async function createAccountChangeRequest(
+  requestData: AccountChangeRequestInsert
+): Promise<AccountChangeRequest> {
+  try {
+    const { data, error } = await (supabase as any)
+      .from('requests')
+      .insert({
+        ...requestData,
+        type: getRequestTypeForStatus(requestData.requested_status),
+        justification: requestData.justification.trim(),
+        status: 'pending',
+      })
+      .select(REQUEST_SELECT)
+      .single();
+
+    if (error) {
+      // Unique partial index: one pending request per account/seller pair
+      if (error.code === '23505') {
+        throw new Error('A request for this account is already waiting for approval');
+      }
+      throw error;
+    }
+
+    return data as AccountChangeRequest;
+  } catch (error) {
+    throw error;
+  }
+}
+
+/**
+ * Submit an account move as two paired requests: the receiving seller gets
+ * requestedStatus and the donor releases the account. Approving or
+ * rejecting either request decides both.
+ */
+export async function createMoveRequests(move: {
+  account_id: string;
+  from_seller_id: string | null;
+  to_seller_id: string;
+  requested_status: string;
+  justification: string;
+}): Promise<AccountChangeRequest[]> {
+  try {
+    const { data, error } = await (supabase as any).rpc('create_move_requests', {
+      p_account_id: move.account_id,
+      p_from_seller_id: move.from_seller_id,
+      p_to_seller_id: move.to_seller_id,
+      p_status: move.requested_status,
+      p_justification: move.justification,
+    });
+
+    if (error) {
+      if (error.code === '23505') {
+        throw new Error('A request for this account is already waiting for approval');
+      }
+      throw error;
+    }
+
+    return (data || []) as AccountChangeRequest[];
+  } catch (error) {
+    throw error;
+  }
+}
+
+/**
+ * Fetch change requests, newest first
+ */
+export async function getAccountChangeRequests(options: {
+  status?: RequestStatus;
+  sellerId?: string;
+  limit?: number;
+} = {}): Promise<AccountChangeRequest[]> {
+  try {
+    let query = (supabase as any)
+      .from('requests')
+      .select(REQUEST_SELECT)
+      .order('created_at', { ascending: false })
+      .limit(options.limit ?? 200);
+
+    if (options.status) {
+      query = query.eq('status', options.status);
+    }
+
+    if (options.sellerId) {
+      query = query.eq('seller_id', options.sellerId);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+
+    return (data || []) as AccountChangeRequest[];
+  } catch (error) {
+    throw error;
+  }
+}
+
+/**
+ * Get the ids of accounts with a pending request for a seller
+ */
+export async function getPendingRequestAccountIds(sellerId: string): Promise<string[]> {
+  try {
+    const { data, error } = await (supabase as any)
+      .from('requests')
+      .select('account_id')
+      .eq('seller_id', sellerId)
+      .eq('status', 'pending');
+
+    if (error) throw error;
+
+    return (data || []).map((row: { account_id: string }) => row.account_id);
+  } catch (error) {
+    throw error;
+  }
+}
+
+/**
+ * Project the revenue and health effect of each request on its seller's book
+ */
+export async function getRequestImpacts(
+  requests: AccountChangeRequest[]
+): Promise<Record<string, RequestImpact>> {
+  if (requests.length === 0) return {};
+
+  try {
+    const sellerIds = Array.from(new Set(requests.map(r => r.seller_id)));
+
+    const [relationshipsResult, thresholds] = await Promise.all([
+      supabase
+        .from('relationship_maps')
+        .select('account_id, seller_id, status')
+        .in('seller_id', sellerIds),
+      getHealthThresholds(),
+    ]);
+
+    if (relationshipsResult.error) throw relationshipsResult.error;
+    const relationships = relationshipsResult.data || [];
+
+    // Current relationship statuses per seller
+    const relationshipStatus = new Map<string, string>();
+    relationships.forEach(r => {
+      relationshipStatus.set(`${r.seller_id}:${r.account_id}`, r.status);
+    });
+
+    // Revenue for the requested accounts plus every account already in the seller books
+    const accountIds = Array.from(new Set([
+      ...requests.map(r => r.account_id),
+      ...relationships.filter(r => BOOK_STATUSES.includes(r.status)).map(r => r.account_id),
+    ]));
+
+    const { data: revenues, error: revenuesError } = await supabase
+      .from('account_revenues')
+      .select('account_id, revenue_esg, revenue_gdt, revenue_gvc, revenue_msg_us')
+      .in('account_id', accountIds);
+
+    if (revenuesError) throw revenuesError;
+
+    const accountRevenue = new Map<string, number>();
+    (revenues || []).forEach(r => {
+      accountRevenue.set(r.account_id, getAccountTotalRevenue(r));
+    });
+
+    const sellerBooks = new Map<string, { revenue: number; accounts: number }>();
+    sellerIds.forEach(sellerId => sellerBooks.set(sellerId, { revenue: 0, accounts: 0 }));
+    relationships.forEach(r => {
+      if (!BOOK_STATUSES.includes(r.status)) return;
+      const book = sellerBooks.get(r.seller_id);
+      if (!book) return;
+      book.revenue += accountRevenue.get(r.account_id) || 0;
+      book.accounts += 1;
+    });
+
+    const impacts: Record<string, RequestImpact> = {};
+
+    requests.forEach(request => {
+      const book = sellerBooks.get(request.seller_id) || { revenue: 0, accounts: 0 };
+      const currentStatus = relationshipStatus.get(`${request.seller_id}:${request.account_id}`) ?? null;
+      const revenue = accountRevenue.get(request.account_id) || 0;
+
+      const inBookBefore = currentStatus !== null && BOOK_STATUSES.includes(currentStatus);
+      const inBookAfter = request.type !== 'unassign' && BOOK_STATUSES.includes(request.requested_status);
+      const direction = inBookAfter === inBookBefore ? 0 : inBookAfter ? 1 : -1;
+
+      const revenueAfter = book.revenue + direction * revenue;
+      const accountsAfter = book.accounts + direction;
+      const healthBefore = evaluateSellerHealth(thresholds, request.seller?.size, request.seller?.seniority_type, book.revenue, book.accounts);
+      const healthAfter = evaluateSellerHealth(thresholds, request.seller?.size, request.seller?.seniority_type, revenueAfter, accountsAfter);
+
+      impacts[request.id] = {
+        account_revenue: revenue,
+        revenue_delta: direction * revenue,
+        revenue_before: book.revenue,
+        revenue_after: revenueAfter,
+        accounts_before: book.accounts,
+        accounts_after: accountsAfter,
+        current_status: currentStatus,
+        is_revenue_healthy_before: healthBefore.is_revenue_healthy,
+        is_revenue_healthy_after: healthAfter.is_revenue_healthy,
+        is_account_healthy_before: healthBefore.is_account_healthy,
+        is_account_healthy_after: healthAfter.is_account_healthy,
+      };
+    });
+
+    return impacts;
+  } catch (error) {
+    throw error;
+  }
+}
+
+/**
+ * Approve a request; the relationship change and the decision are applied in one transaction
+ */
+export async function approveAccountChangeRequest(
+  requestId: string,
+  reviewNote?: string
+): Promise<AccountChangeRequest> {
+  try {
+    const { data, error } = await (supabase as any).rpc('approve_account_change_request', {
+      p_request_id: requestId,
+      p_review_note: reviewNote?.trim() || null,
+    });
+
+    if (error) throw error;
+    return data as AccountChangeRequest;
+  } catch (error) {
+    throw error;
+  }
+}
+
+/**
+ * Reject a request without touching the relationship
+ */
+export async function rejectAccountChangeRequest(
+  requestId: string,
+  reviewNote?: string
+): Promise<AccountChangeRequest> {
+  try {
+    const { data, error } = await (supabase as any).rpc('reject_account_change_request', {
+      p_request_id: requestId,
+      p_review_note: reviewNote?.trim() || null,
+    });
+
+    if (error) throw error;
+    return data as AccountChangeRequest;
+  } catch (error) {
+    throw error;
+  }
+}
@@ -0,0 +1,88 @@
+import type { Capability } from '@/lib/permissions';
+
+/**
+ * Server-enforced page access rules.
+ * middleware.ts checks every page request against these before rendering, so
+ * the client-side AuthContext checks are a convenience rather than the only gate.
+ */
+
+// Reachable without a session
+export const PUBLIC_ROUTES = ['/auth', '/unauthorized', '/forbidden'];
+
+export interface RouteRule {
+  pattern: RegExp;
+  // Capability needed for the route; any signed-in user when omitted
+  capability?: Capability;
+  // Capture group in pattern holding a seller id the user must have access to
+  sellerIdGroup?: number;
+}
+
+export const ROUTE_RULES: RouteRule[] = [
+  { pattern: /^\/admin\/requests(\/|$)/, capability: 'request.review' },
+  { pattern: /^\/admin\/settings(\/|$)/, capability: 'settings.edit' },
+  { pattern: /^\/admin\/snapshots(\/|$)/, capability: 'snapshot.manage' },
+  { pattern: /^\/admin\/audit(\/|$)/, capability: 'audit.view' },
+  { pattern: /^\/admin\/users(\/|$)/, capability: 'user.manage' },
+  { pattern: /^\/admin\/imports(\/|$)/, capability: 'import.run' },
+  // Any other admin page
+  { pattern: /^\/admin(\/|$)/, capability: 'settings.edit' },
+  { pattern: /^\/scenarios(\/|$)/, capability: 'scenario.edit' },
+  { pattern: /^\/rebalance(\/|$)/, capability: 'rebalance.view' },
+  { pattern: /^\/sellers\/([^/]+)/, sellerIdGroup: 1 },
+];
+
+export function isPublicRoute(pathname: string): boolean {
+  return PUBLIC_ROUTES.some(route => pathname === route || pathname.startsWith(`${route}/`));
+}
+
+// Null for malformed escapes such as "%E0%A4%A", which decodeURIComponent throws on
+function decodePathSegment(segment: string): string | null {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The rule a path falls under. malformed is set when the seller id in the
+ * path can't be decoded; such paths are refused rather than checked.
+ */
+export function getRouteRule(pathname: string): { rule: RouteRule; sellerId: string | null; malformed: boolean } | null {
+  for (const rule of ROUTE_RULES) {
+    const match = pathname.match(rule.pattern);
+    if (match) {
+      const sellerId = rule.sellerIdGroup ? decodePathSegment(match[rule.sellerIdGroup]) : null;
+      return {
+        rule,
+        sellerId,
+        malformed: !!rule.sellerIdGroup && sellerId === null,
+      };
+    }
+  }
+  return null;
+}
+
+// Any origin works: relative paths only need one to resolve against
+const REDIRECT_BASE_ORIGIN = 'http://localhost';
+
+/**
+ * Only allow same-site paths as post-login destinations. Browsers treat a
+ * backslash like a slash, so "/\evil.com" would leave the site.
+ */
+export function getSafeRedirect(value: string | null | undefined, fallback = '/dashboard'): string {
+  if (!value || !value.startsWith('/') || value.startsWith('//') || /[\\\u0000-\u001f\u007f]/.test(value)) {
+    return fallback;
+  }
+
+  let url: URL;
+  try {
+    url = new URL(value, REDIRECT_BASE_ORIGIN);
+  } catch {
+    return fallback;
+  }
+  if (url.origin !== REDIRECT_BASE_ORIGIN) return fallback;
+
+  const path = `${url.pathname}${url.search}${url.hash}`;
+  return isPublicRoute(path) ? fallback : path;
+}
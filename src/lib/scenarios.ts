@@ -0,0 +1,559 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { UnifiedDashboardData } from '@/lib/unified-dashboard-query';
+import { BOOK_STATUSES, evaluateSellerHealth, getAccountTotalRevenue, HealthThresholds } from '@/lib/seller-health';
+
+/**
+ * Scenario sandbox
+ * A scenario is an overlay of relationship changes on top of live
+ * relationship_maps. Nothing here writes live data except promoteScenario.
+ */
+
+export type ScenarioStatus = 'draft' | 'promoted';
+
+export interface Scenario {
+  id: string;
+  name: string;
+  description: string | null;
+  owner_id: string;
+  status: ScenarioStatus;
+  promoted_by: string | null;
+  promoted_at: string | null;
+  created_at: string;
+  updated_at: string;
+  owner?: {
+    id: string;
+    name: string;
+    email: string;
+  } | null;
+  change_count?: number;
+}
+
+export interface ScenarioChange {
+  scenario_id: string;
+  account_id: string;
+  seller_id: string;
+  status: string;
+  base_status: string | null;
+  updated_at: string;
+}
+
+// A change whose live relationship moved since it was made, or whose
+// account or seller no longer exists (missing)
+export interface ScenarioConflict {
+  account_id: string;
+  seller_id: string;
+  account_name: string | null;
+  seller_name: string | null;
+  status: string;
+  base_status: string | null;
+  live_status: string | null;
+  missing: boolean;
+}
+
+export interface ScenarioAccount {
+  id: string;
+  name: string;
+  city: string | null;
+  state: string | null;
+  country: string | null;
+  industry: string | null;
+  size: string | null;
+  tier: string | null;
+  type: string | null;
+  current_division: string;
+  lat: number | null;
+  lng: number | null;
+  total_revenue: number;
+  revenue_breakdown: {
+    esg: number;
+    gdt: number;
+    gvc: number;
+    msg_us: number;
+  };
+}
+
+export interface ScenarioOverlay {
+  changes: ScenarioChange[];
+  accounts: Map<string, ScenarioAccount>;
+  // Current live status per `${account_id}:${seller_id}`, missing if no relationship
+  liveStatuses: Map<string, string>;
+}
+
+export interface ScenarioSellerImpact {
+  seller_id: string;
+  seller_name: string;
+  change_count: number;
+  accounts_before: number;
+  accounts_after: number;
+  revenue_before: number;
+  revenue_after: number;
+  is_revenue_healthy_before: boolean;
+  is_revenue_healthy_after: boolean;
+  is_account_healthy_before: boolean;
+  is_account_healthy_after: boolean;
+  size_mismatches_before: number;
+  size_mismatches_after: number;
+  industry_mismatches_before: number;
+  industry_mismatches_after: number;
+}
+
+const SCENARIO_SELECT = `
+  *,
+  owner:profiles!scenarios_owner_id_fkey(id, name, email),
+  scenario_changes(count)
+`;
+
+// Keeps .in() filters well under the URL length limit
+const IN_CHUNK_SIZE = 200;
+
+export function scenarioChangeKey(accountId: string, sellerId: string): string {
+  return `${accountId}:${sellerId}`;
+}
+
+function chunkIds(ids: string[]): string[][] {
+  const chunks: string[][] = [];
+  for (let i = 0; i < ids.length; i += IN_CHUNK_SIZE) {
+    chunks.push(ids.slice(i, i + IN_CHUNK_SIZE));
+  }
+  return chunks;
+}
+
+function toScenario(row: any): Scenario {
+  const { scenario_changes, ...scenario } = row;
+  return {
+    ...scenario,
+    change_count: Array.isArray(scenario_changes) ? scenario_changes[0]?.count ?? 0 : 0,
+  };
+}
+
+/**
+ * Fetch scenarios visible to the current user (own scenarios, or all for MASTER)
+ */
+export async function getScenarios(options: { status?: ScenarioStatus } = {}): Promise<Scenario[]> {
+  try {
+    let query = (supabase as any)
+      .from('scenarios')
+      .select(SCENARIO_SELECT)
+      .order('updated_at', { ascending: false });
+
+    if (options.status) {
+      query = query.eq('status', options.status);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+
+    return (data || []).map(toScenario);
+  } catch (error) {
+    throw error;
+  }
+}
+
+/**
+ * Fetch a single scenario, null if it does not exist or is not visible
+ */
+export async function getScenario(scenarioId: string): Promise<Scenario | null> {
+  try {
+    const { data, error } = await (supabase as any)
+      .from('scenarios')
+      .select(SCENARIO_SELECT)
+      .eq('id', scenarioId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ? toScenario(data) : null;
+  } catch (error) {
+    throw error;
+  }
+}
+
+export async function createScenario(name: string, description?: string): Promise<Scenario> {
+  try {
+    const { data, error } = await (supabase as any)
+      .from('scenarios')
+      .insert({
+        name: name.trim(),
+        description: description?.trim() || null,
+      })
+      .select(SCENARIO_SELECT)
+      .single();
+
+    if (error) throw error;
+    return toScenario(data);
+  } catch (error) {
+    throw error;
+  }
+}
+
+export async function deleteScenario(scenarioId: string): Promise<void> {
+  try {
+    const { error } = await (supabase as any)
+      .from('scenarios')
+      .delete()
+      .eq('id', scenarioId);
+
+    if (error) throw error;
+  } catch (error) {
+    throw error;
+  }
+}
+
+/**
+ * Record a relationship change in a scenario. Setting a relationship back to
+ * its live status drops the change from the overlay.
+ */
+export async function setScenarioChange(change: {
+  scenarioId: string;
+  accountId: string;
+  sellerId: string;
+  status: string;
+  liveStatus: string | null;
+}): Promise<void> {
+  try {
+    const revertsToLive = change.status === change.liveStatus ||
+      (change.status === 'available' && !change.liveStatus);
+
+    if (revertsToLive) {
+      const { error } = await (supabase as any)
+        .from('scenario_changes')
+        .delete()
+        .eq('scenario_id', change.scenarioId)
+        .eq('account_id', change.accountId)
+        .eq('seller_id', change.sellerId);
+
+      if (error) throw error;
+    } else {
+      const { error } = await (supabase as any)
+        .from('scenario_changes')
+        .upsert({
+          scenario_id: change.scenarioId,
+          account_id: change.accountId,
+          seller_id: change.sellerId,
+          status: change.status,
+          base_status: change.liveStatus,
+          updated_at: new Date().toISOString(),
+        }, { onConflict: 'scenario_id,account_id,seller_id' });
+
+      if (error) throw error;
+    }
+
+    await (supabase as any)
+      .from('scenarios')
+      .update({ updated_at: new Date().toISOString() })
+      .eq('id', change.scenarioId);
+  } catch (error) {
+    throw error;
+  }
+}
+
+/**
+ * Apply a scenario to live relationship_maps (scenario.promote). Live data is
+ * snapshotted first. Fails while getScenarioConflicts reports conflicts.
+ */
+export async function promoteScenario(scenarioId: string): Promise<Scenario> {
+  try {
+    const { data, error } = await (supabase as any).rpc('promote_scenario', {
+      p_scenario_id: scenarioId,
+    });
+
+    if (error) throw error;
+    return data as Scenario;
+  } catch (error) {
+    throw error;
+  }
+}
+
+/**
+ * Changes that block promotion, plus changes for deleted accounts or sellers,
+ * which promotion skips
+ */
+export async function getScenarioConflicts(scenarioId: string): Promise<ScenarioConflict[]> {
+  try {
+    const { data, error } = await (supabase as any).rpc('get_scenario_conflicts', {
+      p_scenario_id: scenarioId,
+    });
+
+    if (error) throw error;
+    return (data || []) as ScenarioConflict[];
+  } catch (error) {
+    throw error;
+  }
+}
+
+/**
+ * Load a scenario's changes together with the account details and live
+ * statuses needed to evaluate them. Pass sellerId to limit it to one seller.
+ */
+export async function getScenarioOverlay(scenarioId: string, sellerId?: string): Promise<ScenarioOverlay> {
+  try {
+    let changesQuery = (supabase as any)
+      .from('scenario_changes')
+      .select('*')
+      .eq('scenario_id', scenarioId);
+
+    if (sellerId) {
+      changesQuery = changesQuery.eq('seller_id', sellerId);
+    }
+
+    const { data: changes, error: changesError } = await changesQuery;
+    if (changesError) throw changesError;
+
+    const accountIds = Array.from(new Set<string>((changes || []).map((c: ScenarioChange) => c.account_id)));
+    const accounts = new Map<string, ScenarioAccount>();
+    const liveStatuses = new Map<string, string>();
+
+    for (const ids of chunkIds(accountIds)) {
+      const [accountsResult, relationshipsResult] = await Promise.all([
+        supabase
+          .from('accounts')
+          .select('id, name, city, state, country, industry, size, tier, type, current_division, lat, lng, account_revenues(revenue_esg, revenue_gdt, revenue_gvc, revenue_msg_us)')
+          .in('id', ids),
+        supabase
+          .from('relationship_maps')
+          .select('account_id, seller_id, status')
+          .in('account_id', ids),
+      ]);
+
+      if (accountsResult.error) throw accountsResult.error;
+      if (relationshipsResult.error) throw relationshipsResult.error;
+
+      (accountsResult.data || []).forEach((account: any) => {
+        const revenue = Array.isArray(account.account_revenues) ? account.account_revenues[0] : account.account_revenues;
+        const breakdown = {
+          esg: Number(revenue?.revenue_esg || 0),
+          gdt: Number(revenue?.revenue_gdt || 0),
+          gvc: Number(revenue?.revenue_gvc || 0),
+          msg_us: Number(revenue?.revenue_msg_us || 0),
+        };
+
+        accounts.set(account.id, {
+          id: account.id,
+          name: account.name,
+          city: account.city,
+          state: account.state,
+          country: account.country,
+          industry: account.industry,
+          size: account.size,
+          tier: account.tier,
+          type: account.type,
+          current_division: account.current_division,
+          lat: account.lat,
+          lng: account.lng,
+          total_revenue: getAccountTotalRevenue(revenue),
+          revenue_breakdown: breakdown,
+        });
+      });
+
+      (relationshipsResult.data || []).forEach(rel => {
+        liveStatuses.set(scenarioChangeKey(rel.account_id, rel.seller_id), rel.status);
+      });
+    }
+
+    return { changes: changes || [], accounts, liveStatuses };
+  } catch (error) {
+    throw error;
+  }
+}
+
+/**
+ * Change in a seller's book (must keep column) if the scenario were live
+ */
+export function getScenarioBookDelta(overlay: ScenarioOverlay, sellerId: string): { accounts: number; revenue: number } {
+  return overlay.changes
+    .filter(change => change.seller_id === sellerId)
+    .reduce((delta, change) => {
+      const liveStatus = overlay.liveStatuses.get(scenarioChangeKey(change.account_id, change.seller_id)) ?? null;
+      const inBookBefore = !!liveStatus && BOOK_STATUSES.includes(liveStatus);
+      const inBookAfter = BOOK_STATUSES.includes(change.status);
+      if (inBookBefore === inBookAfter) return delta;
+
+      const sign = inBookAfter ? 1 : -1;
+      return {
+        accounts: delta.accounts + sign,
+        revenue: delta.revenue + sign * (overlay.accounts.get(change.account_id)?.total_revenue || 0),
+      };
+    }, { accounts: 0, revenue: 0 });
+}
+
+/**
+ * Overlay a seller page column (one page of getAssignedAccountsPaginated) with
+ * the scenario: accounts moved out are dropped, accounts moved in are listed
+ * on the first page.
+ */
+export function applyScenarioToColumn<T extends { accounts: any[]; totalCount: number; currentPage: number }>(
+  column: T | undefined,
+  overlay: ScenarioOverlay | undefined,
+  sellerId: string,
+  columnStatuses: string[],
+  search?: string
+): T | undefined {
+  if (!column || !overlay || overlay.changes.length === 0) return column;
+
+  const sellerChanges = new Map<string, ScenarioChange>();
+  overlay.changes
+    .filter(change => change.seller_id === sellerId)
+    .forEach(change => sellerChanges.set(change.account_id, change));
+
+  const kept = column.accounts.filter(account => {
+    const change = sellerChanges.get(account.id);
+    return !change || columnStatuses.includes(change.status);
+  });
+  const removed = column.accounts.length - kept.length;
+
+  const listedIds = new Set(kept.map(account => account.id));
+  const searchTerm = search?.trim().toLowerCase();
+  const added = Array.from(sellerChanges.values())
+    .filter(change => {
+      if (!columnStatuses.includes(change.status) || listedIds.has(change.account_id)) return false;
+      const liveStatus = overlay.liveStatuses.get(scenarioChangeKey(change.account_id, sellerId));
+      return !liveStatus || !columnStatuses.includes(liveStatus);
+    })
+    .map(change => overlay.accounts.get(change.account_id) ? { ...overlay.accounts.get(change.account_id)!, status: change.status, isOriginal: false as const } : null)
+    .filter((account): account is ScenarioAccount & { status: string; isOriginal: false } =>
+      !!account && (!searchTerm || account.name.toLowerCase().includes(searchTerm))
+    );
+
+  const accounts = kept
+    .map(account => {
+      const change = sellerChanges.get(account.id);
+      return change ? { ...account, status: change.status } : account;
+    })
+    .concat(column.currentPage === 1 ? added : [])
+    .sort((a, b) => b.total_revenue - a.total_revenue);
+
+  return {
+    ...column,
+    accounts,
+    totalCount: Math.max(0, column.totalCount - removed + added.length),
+  };
+}
+
+/**
+ * Overlay the seller page account pool with the scenario's statuses
+ */
+export function applyScenarioToAccountPool<T extends { accounts: any[] }>(
+  pool: T | undefined,
+  overlay: ScenarioOverlay | undefined,
+  sellerId: string
+): T | undefined {
+  if (!pool || !overlay || overlay.changes.length === 0) return pool;
+
+  const sellerChanges = new Map<string, ScenarioChange>();
+  overlay.changes
+    .filter(change => change.seller_id === sellerId)
+    .forEach(change => sellerChanges.set(change.account_id, change));
+
+  return {
+    ...pool,
+    accounts: pool.accounts.map(account => {
+      const change = sellerChanges.get(account.id);
+      if (!change) return account;
+      return {
+        ...account,
+        assignment_status: change.status,
+        assigned_seller_id: change.status === 'available' ? undefined : sellerId,
+        is_available: change.status === 'available',
+      };
+    }),
+  };
+}
+
+function isSizeMismatch(sellerSize: string | null | undefined, accountSize: string | null | undefined): boolean {
+  return (sellerSize === 'enterprise' && accountSize === 'midmarket') ||
+    (sellerSize === 'midmarket' && accountSize === 'enterprise');
+}
+
+function isIndustryMismatch(specialty: string | null | undefined, industry: string | null | undefined): boolean {
+  if (!specialty || specialty === '-' || !industry) return false;
+  return specialty.trim().toLowerCase() !== industry.trim().toLowerCase();
+}
+
+/**
+ * Recompute dashboard seller metrics with a scenario applied. Only sellers
+ * touched by the scenario change; everything else keeps the live values.
+ */
+export function applyScenarioToDashboard(
+  rows: UnifiedDashboardData[],
+  overlay: ScenarioOverlay,
+  thresholds: HealthThresholds
+): Array<UnifiedDashboardData & { scenario_change_count?: number }> {
+  const changesBySeller = new Map<string, ScenarioChange[]>();
+  overlay.changes.forEach(change => {
+    const list = changesBySeller.get(change.seller_id) || [];
+    list.push(change);
+    changesBySeller.set(change.seller_id, list);
+  });
+
+  return rows.map(row => {
+    const sellerChanges = changesBySeller.get(row.seller_id);
+    if (!sellerChanges || sellerChanges.length === 0) return row;
+
+    const next: any = { ...row, scenario_change_count: sellerChanges.length };
+    let sizeMismatches = Number((row as any).size_mismatch_count || 0);
+    let industryMismatches = Number((row as any).industry_mismatch_count || 0);
+
+    sellerChanges.forEach(change => {
+      const liveStatus = overlay.liveStatuses.get(scenarioChangeKey(change.account_id, change.seller_id)) ?? null;
+      const inBookBefore = !!liveStatus && BOOK_STATUSES.includes(liveStatus);
+      const inBookAfter = BOOK_STATUSES.includes(change.status);
+      if (inBookBefore === inBookAfter) return;
+
+      const sign = inBookAfter ? 1 : -1;
+      const account = overlay.accounts.get(change.account_id);
+
+      next.account_count = (next.account_count || 0) + sign;
+      next.unique_account_count = (next.unique_account_count || 0) + sign;
+      next.total_revenue = (next.total_revenue || 0) + sign * (account?.total_revenue || 0);
+
+      if (isSizeMismatch(row.size, account?.size)) sizeMismatches += sign;
+      if (isIndustryMismatch(row.industry_specialty, account?.industry)) industryMismatches += sign;
+    });
+
+    const health = evaluateSellerHealth(thresholds, row.size, row.seniority_type, next.total_revenue, next.account_count);
+    next.is_revenue_healthy = health.is_revenue_healthy;
+    next.is_account_healthy = health.is_account_healthy;
+    next.size_mismatch_count = Math.max(0, sizeMismatches);
+    next.size_mismatch_type = next.size_mismatch_count > 0
+      ? row.size_mismatch_type || (row.size === 'enterprise' ? 'enterprise_with_midmarket' : 'midmarket_with_enterprise')
+      : null;
+    next.industry_mismatch_count = Math.max(0, industryMismatches);
+    next.has_industry_mismatch = next.industry_mismatch_count > 0;
+
+    return next;
+  });
+}
+
+/**
+ * Per seller before/after metrics for the sellers a scenario touches
+ */
+export function compareScenarioToLive(
+  liveRows: UnifiedDashboardData[],
+  scenarioRows: Array<UnifiedDashboardData & { scenario_change_count?: number }>
+): ScenarioSellerImpact[] {
+  const liveById = new Map(liveRows.map(row => [row.seller_id, row] as [string, UnifiedDashboardData]));
+
+  return scenarioRows
+    .filter(row => (row.scenario_change_count || 0) > 0)
+    .map(row => {
+      const live: any = liveById.get(row.seller_id) || row;
+      const after: any = row;
+      return {
+        seller_id: row.seller_id,
+        seller_name: row.seller_name,
+        change_count: row.scenario_change_count || 0,
+        accounts_before: live.account_count || 0,
+        accounts_after: after.account_count || 0,
+        revenue_before: live.total_revenue || 0,
+        revenue_after: after.total_revenue || 0,
+        is_revenue_healthy_before: !!live.is_revenue_healthy,
+        is_revenue_healthy_after: !!after.is_revenue_healthy,
+        is_account_healthy_before: !!live.is_account_healthy,
+        is_account_healthy_after: !!after.is_account_healthy,
+        size_mismatches_before: Number(live.size_mismatch_count || 0),
+        size_mismatches_after: Number(after.size_mismatch_count || 0),
+        industry_mismatches_before: Number(live.industry_mismatch_count || 0),
+        industry_mismatches_after: Number(after.industry_mismatch_count || 0),
+      };
+    })
+    .sort((a, b) => Math.abs(b.revenue_after - b.revenue_before) - Math.abs(a.revenue_after - a.revenue_before));
+}
@@ -7,6 +7,8 @@ import { supabase } from '@/integrations/supabase/client';
  */
 
 // New unified account type with assignment status
+export type AccountSortField = 'fit_percentage' | 'name' | 'total_revenue' | 'distance_km';
+
 export interface AccountWithAssignment {
   id: string;
   name: string;
@@ -31,6 +33,7 @@ export interface AccountWithAssignment {
   assigned_seller_id?: string;
   assigned_seller_name?: string;
   fit_percentage: number;
+  distance_km: number | null; // Seller home to account, null when either has no coordinates
   is_available: boolean; // computed field
   is_original: boolean;
   isOriginal: boolean; // Alias for compatibility
@@ -514,7 +517,7 @@ export async function getAssignedAccountsPaginated(
 }
 
 // Helper function to get status array based on column type
-function getStatusArray(status: 'must_keep' | 'for_discussion' | 'to_be_peeled'): string[] {
+export function getStatusArray(status: 'must_keep' | 'for_discussion' | 'to_be_peeled'): string[] {
   switch (status) {
     case 'must_keep':
       return ['must_keep', 'pinned', 'approval_for_pinning'];
@@ -730,7 +733,7 @@ export async function getAllAccountsWithAssignmentStatus(
   page: number = 1,
   limit: number = 50,
   search?: string,
-  sortBy: 'fit_percentage' | 'name' | 'total_revenue' = 'fit_percentage',
+  sortBy: AccountSortField = 'fit_percentage',
   sortOrder: 'asc' | 'desc' = 'desc',
   filters?: {
     division?: string;
@@ -791,6 +794,7 @@ export async function getAllAccountsWithAssignmentStatus(
       assigned_seller_id: string | null;
       assigned_seller_name: string | null;
       fit_percentage: number;
+      distance_km: number | null;
       total_count: number;
       total_pages: number;
       current_page: number;
@@ -836,6 +840,7 @@ export async function getAllAccountsWithAssignmentStatus(
         assigned_seller_id: item.assigned_seller_id || undefined,
         assigned_seller_name: item.assigned_seller_name || undefined,
         fit_percentage: item.fit_percentage,
+        distance_km: item.distance_km ?? null,
         is_available: item.assignment_status === 'available',
         is_original: false, // This would need to be determined by checking original_relationships
         isOriginal: false, // Alias for compatibility
@@ -0,0 +1,120 @@
+import { supabase } from '@/integrations/supabase/client';
+
+/**
+ * Seller health helpers
+ * Mirrors the size/seniority thresholds used by the dashboard and seller pages
+ */
+
+export interface HealthThreshold {
+  min_revenue: number;
+  max_revenue: number;
+  max_accounts: number;
+}
+
+// Keyed by `${size}${Seniority}`, e.g. midmarketJunior
+export type HealthThresholds = Record<string, HealthThreshold>;
+
+export interface SellerHealth {
+  is_revenue_healthy: boolean;
+  is_account_healthy: boolean;
+}
+
+// Statuses that count towards a seller's book (same grouping as the must keep column)
+export const BOOK_STATUSES = ['must_keep', 'pinned', 'approval_for_pinning'];
+
+const DEFAULT_THRESHOLDS: HealthThresholds = {
+  midmarketJunior: { min_revenue: 1_000_000, max_revenue: 5_000_000, max_accounts: 3 },
+  midmarketSenior: { min_revenue: 2_000_000, max_revenue: 8_000_000, max_accounts: 5 },
+  enterpriseJunior: { min_revenue: 3_000_000, max_revenue: 10_000_000, max_accounts: 4 },
+  enterpriseSenior: { min_revenue: 5_000_000, max_revenue: 20_000_000, max_accounts: 7 },
+};
+
+// Used when a seller has no size/seniority combination we know about
+const FALLBACK_THRESHOLD: HealthThreshold = { min_revenue: 5_000_000, max_revenue: 50_000_000, max_accounts: 5 };
+
+export function getThresholdKey(size: string | null | undefined, seniority: string | null | undefined): string {
+  if (!size || !seniority) return '';
+  return `${size}${seniority.charAt(0).toUpperCase() + seniority.slice(1)}`;
+}
+
+/**
+ * Sum of the four division revenue columns of an account_revenues row
+ */
+export function getAccountTotalRevenue(row: {
+  revenue_esg?: number | null;
+  revenue_gdt?: number | null;
+  revenue_gvc?: number | null;
+  revenue_msg_us?: number | null;
+} | null | undefined): number {
+  if (!row) return 0;
+  return (Number(row.revenue_esg) || 0) + (Number(row.revenue_gdt) || 0) +
+    (Number(row.revenue_gvc) || 0) + (Number(row.revenue_msg_us) || 0);
+}
+
+/**
+ * Fetch revenue range and account number settings merged into one threshold map
+ */
+export async function getHealthThresholds(): Promise<HealthThresholds> {
+  const thresholds: HealthThresholds = {};
+  Object.entries(DEFAULT_THRESHOLDS).forEach(([key, value]) => {
+    thresholds[key] = { ...value };
+  });
+
+  try {
+    const [revenueRangeResult, accountNumberResult] = await Promise.all([
+      supabase.from('revenue_range_settings').select('*'),
+      supabase.from('account_number_settings').select('*'),
+    ]);
+
+    (revenueRangeResult.data || []).forEach(item => {
+      const key = getThresholdKey(item.size_type, item.seniority_type);
+      if (!key) return;
+      thresholds[key] = {
+        ...(thresholds[key] || FALLBACK_THRESHOLD),
+        min_revenue: item.min_revenue,
+        max_revenue: item.max_revenue,
+      };
+    });
+
+    (accountNumberResult.data || []).forEach(item => {
+      const key = getThresholdKey(item.size_type, item.seniority_type);
+      if (!key) return;
+      thresholds[key] = {
+        ...(thresholds[key] || FALLBACK_THRESHOLD),
+        max_accounts: item.max_accounts,
+      };
+    });
+  } catch (error) {
+    // Fall back to the defaults, same as the dashboard
+  }
+
+  return thresholds;
+}
+
+/**
+ * Threshold for a size/seniority combination, with the fallback for unknown ones
+ */
+export function getSellerThreshold(
+  thresholds: HealthThresholds,
+  size: string | null | undefined,
+  seniority: string | null | undefined
+): HealthThreshold {
+  return thresholds[getThresholdKey(size, seniority)] || FALLBACK_THRESHOLD;
+}
+
+/**
+ * Evaluate revenue and account-count health for a seller book
+ */
+export function evaluateSellerHealth(
+  thresholds: HealthThresholds,
+  size: string | null | undefined,
+  seniority: string | null | undefined,
+  revenue: number,
+  accounts: number
+): SellerHealth {
+  const threshold = getSellerThreshold(thresholds, size, seniority);
+  return {
+    is_revenue_healthy: revenue >= threshold.min_revenue && revenue <= threshold.max_revenue,
+    is_account_healthy: accounts <= threshold.max_accounts,
+  };
+}
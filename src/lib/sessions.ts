@@ -0,0 +1,181 @@
+import { supabase } from '@/integrations/supabase/client';
+import { AUDIT_ENTITIES, createAuditLogData, logAuditEvent } from '@/lib/audit';
+
+export interface SessionSettings {
+  idle_timeout_minutes: number;
+  warning_seconds: number;
+}
+
+export const DEFAULT_SESSION_SETTINGS: SessionSettings = {
+  idle_timeout_minutes: 30,
+  warning_seconds: 60,
+};
+
+export interface UserSession {
+  id: string;
+  created_at: string;
+  last_active_at: string;
+  user_agent: string | null;
+  ip: string | null;
+  is_current: boolean;
+}
+
+/**
+ * Auth session id from the access token's session_id claim
+ */
+export function getSessionId(accessToken: string | null | undefined): string | null {
+  if (!accessToken) return null;
+  try {
+    const payload = accessToken.split('.')[1].replace(/-/g, '+').replace(/_/g, '/');
+    return JSON.parse(atob(payload)).session_id ?? null;
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * Record a sign-in, sign-out or refresh against the session it belongs to
+ */
+export async function logSessionEvent(
+  userId: string,
+  action: string,
+  accessToken: string | null | undefined,
+  details: Record<string, any> = {}
+): Promise<void> {
+  await logAuditEvent(createAuditLogData(
+    userId,
+    action,
+    AUDIT_ENTITIES.SESSION,
+    getSessionId(accessToken) ?? undefined,
+    null,
+    {
+      user_agent: typeof navigator !== 'undefined' ? navigator.userAgent : null,
+      at: new Date().toISOString(),
+      ...details,
+    }
+  ));
+}
+
+export async function getSessionSettings(): Promise<SessionSettings> {
+  try {
+    const { data, error } = await (supabase as any)
+      .from('session_settings')
+      .select('idle_timeout_minutes, warning_seconds')
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) return { ...DEFAULT_SESSION_SETTINGS };
+
+    return {
+      idle_timeout_minutes: Number(data.idle_timeout_minutes),
+      warning_seconds: Number(data.warning_seconds),
+    };
+  } catch (error) {
+    throw error;
+  }
+}
+
+/**
+ * Validation message for a settings draft, null when it can be saved
+ */
+export function validateSessionSettings(settings: SessionSettings): string | null {
+  if (!Number.isInteger(settings.idle_timeout_minutes) || settings.idle_timeout_minutes < 5 || settings.idle_timeout_minutes > 1440) {
+    return 'Idle timeout must be between 5 and 1440 minutes';
+  }
+  if (!Number.isInteger(settings.warning_seconds) || settings.warning_seconds < 10 || settings.warning_seconds > 600) {
+    return 'Warning countdown must be between 10 and 600 seconds';
+  }
+  if (settings.warning_seconds >= settings.idle_timeout_minutes * 60) {
+    return 'Warning countdown must be shorter than the idle timeout';
+  }
+  return null;
+}
+
+export async function updateSessionSettings(settings: SessionSettings, updatedBy: string): Promise<void> {
+  try {
+    const validationError = validateSessionSettings(settings);
+    if (validationError) throw new Error(validationError);
+
+    const { error } = await (supabase as any)
+      .from('session_settings')
+      .update({
+        ...settings,
+        updated_by: updatedBy,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', true);
+
+    if (error) throw error;
+  } catch (error) {
+    throw error;
+  }
+}
+
+/**
+ * Record activity on the current session for the server-side idle check.
+ * False means the session had already been idle too long and was ended.
+ */
+export async function touchSession(): Promise<boolean> {
+  try {
+    const { data, error } = await (supabase as any).rpc('touch_session', { p_active: true });
+    if (error) throw error;
+    return data !== false;
+  } catch (error) {
+    throw error;
+  }
+}
+
+export async function getMySessions(): Promise<UserSession[]> {
+  try {
+    const { data, error } = await (supabase as any).rpc('get_my_sessions');
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    throw error;
+  }
+}
+
+export async function revokeSession(sessionId: string): Promise<void> {
+  try {
+    const { data, error } = await (supabase as any).rpc('revoke_my_session', { p_session_id: sessionId });
+    if (error) throw error;
+    if (!data) throw new Error('Session not found or already ended');
+  } catch (error) {
+    throw error;
+  }
+}
+
+/**
+ * End every session except the one making the call
+ */
+export async function revokeOtherSessions(): Promise<void> {
+  try {
+    const { error } = await supabase.auth.signOut({ scope: 'others' });
+    if (error) throw error;
+  } catch (error) {
+    throw error;
+  }
+}
+
+/**
+ * Short browser and OS description from a user agent string
+ */
+export function describeUserAgent(userAgent: string | null): string {
+  if (!userAgent) return 'Unknown device';
+
+  const browser = /Edg\//.test(userAgent) ? 'Edge'
+    : /OPR\//.test(userAgent) ? 'Opera'
+    : /Chrome\//.test(userAgent) ? 'Chrome'
+    : /Firefox\//.test(userAgent) ? 'Firefox'
+    : /Safari\//.test(userAgent) ? 'Safari'
+    : null;
+  const os = /Windows/.test(userAgent) ? 'Windows'
+    : /iPhone|iPad/.test(userAgent) ? 'iOS'
+    : /Mac OS X/.test(userAgent) ? 'macOS'
+    : /Android/.test(userAgent) ? 'Android'
+    : /Linux/.test(userAgent) ? 'Linux'
+    : null;
+
+  if (browser && os) return `${browser} on ${os}`;
+  return browser || os || userAgent.slice(0, 60);
+}
@@ -1,4 +1,5 @@
 import { supabase } from '@/integrations/supabase/client';
+import type { DataScope } from '@/lib/permissions';
 
 /**
  * Unified Dashboard Query
@@ -117,6 +118,7 @@ export interface UnifiedDashboardData {
  */
 export async function getUnifiedDashboardData(filters?: {
   managerUserId?: string;
+  sellerId?: string;
   division?: string;
   size?: string;
 }): Promise<UnifiedDashboardData[]> {
@@ -153,6 +155,9 @@ export async function getUnifiedDashboardData(filters?: {
       const sellerIdList = sellerIds.map(s => s.seller_id);
       query = query.in('seller_id', sellerIdList);
     }
+    if (filters?.sellerId) {
+      query = query.eq('seller_id', filters.sellerId);
+    }
     if (filters?.division) {
       query = query.eq('division', filters.division as any);
     }
@@ -179,6 +184,7 @@ export async function getUnifiedDashboardData(filters?: {
  */
 async function getUnifiedDashboardDataFallback(filters?: {
   managerUserId?: string;
+  sellerId?: string;
   division?: string;
   size?: string;
 }): Promise<UnifiedDashboardData[]> {
@@ -205,6 +211,22 @@ export async function getMasterDashboardData(): Promise<UnifiedDashboardData[]>
   return await getUnifiedDashboardData();
 }
 
+/**
+ * Get dashboard data limited to a user's data scope (see getDataScope)
+ */
+export async function getScopedDashboardData(scope: DataScope): Promise<UnifiedDashboardData[]> {
+  switch (scope.type) {
+    case 'all':
+      return await getMasterDashboardData();
+    case 'manager':
+      return await getManagerDashboardData(scope.userId);
+    case 'division':
+      return scope.division ? await getUnifiedDashboardData({ division: scope.division }) : [];
+    case 'seller':
+      return scope.sellerId ? await getUnifiedDashboardData({ sellerId: scope.sellerId }) : [];
+  }
+}
+
 /**
  * Refresh the unified materialized view
  * Should be called periodically or after data changes
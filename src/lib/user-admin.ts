@@ -0,0 +1,78 @@
+import { z } from 'zod';
+import { DIVISIONS } from '@/lib/api/schemas';
+import { APP_ROLES, type AppRole } from '@/lib/permissions';
+
+/**
+ * Shared types and validation for the user administration console.
+ * The writes themselves run as server actions (app/actions/users.ts) because
+ * invites, bans and last sign-in times need the service-role client.
+ */
+
+export interface AdminUser {
+  id: string;
+  name: string;
+  email: string;
+  role: AppRole;
+  division: string | null;
+  seller_id: string | null;
+  deactivated_at: string | null;
+  created_at: string;
+  last_sign_in_at: string | null;
+  // Manager record linked through managers.user_id
+  manager_id: string | null;
+}
+
+export interface ManagerOption {
+  id: string;
+  name: string;
+  user_id: string | null;
+}
+
+export interface SellerOption {
+  id: string;
+  name: string;
+  division: string | null;
+}
+
+export interface UserDirectory {
+  users: AdminUser[];
+  managers: ManagerOption[];
+  sellers: SellerOption[];
+}
+
+export type UserActionResult<T = null> = { data: T; error: null } | { data: null; error: string };
+
+const roleFields = {
+  role: z.enum(APP_ROLES as [AppRole, ...AppRole[]]),
+  division: z.enum(DIVISIONS).nullable().optional(),
+  seller_id: z.string().uuid().nullable().optional(),
+};
+
+// DIVISION_LEAD and SELLER have no data scope without these
+const requireScope = (value: { role: AppRole; division?: string | null; seller_id?: string | null }, ctx: z.RefinementCtx) => {
+  if (value.role === 'DIVISION_LEAD' && !value.division) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['division'], message: 'Division leads need a division' });
+  }
+  if (value.role === 'SELLER' && !value.seller_id) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['seller_id'], message: 'Seller users need a linked seller' });
+  }
+};
+
+export const userInviteSchema = z.object({
+  email: z.string().trim().toLowerCase().email(),
+  name: z.string().trim().min(1).max(255),
+  ...roleFields,
+  manager_id: z.string().uuid().nullable().optional(),
+}).superRefine(requireScope);
+
+export const userUpdateSchema = z.object({
+  name: z.string().trim().min(1).max(255),
+  ...roleFields,
+}).superRefine(requireScope);
+
+export type UserInviteInput = z.infer<typeof userInviteSchema>;
+export type UserUpdateInput = z.infer<typeof userUpdateSchema>;
+
+export function isUserActive(user: Pick<AdminUser, 'deactivated_at'>): boolean {
+  return !user.deactivated_at;
+}
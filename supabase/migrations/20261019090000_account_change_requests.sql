@@ -0,0 +1,159 @@
+-- Manager change requests for relationship moves.
+-- MANAGER users submit pin/assign/unassign requests; MASTER users approve or
+-- reject them. Approval applies the relationship change in the same
+-- transaction that closes the request.
+
+create table if not exists public.requests (
+  id uuid primary key default gen_random_uuid(),
+  type public.request_type not null,
+  status public.request_status not null default 'pending',
+  account_id uuid not null references public.accounts(id) on delete cascade,
+  seller_id uuid not null references public.sellers(id) on delete cascade,
+  previous_status public.relationship_status,
+  requested_status public.relationship_status not null,
+  justification text not null check (length(trim(justification)) > 0),
+  requested_by uuid not null references public.profiles(id),
+  reviewed_by uuid references public.profiles(id),
+  review_note text,
+  reviewed_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+-- Only one open request per account/seller pair
+create unique index if not exists requests_one_pending_per_pair
+  on public.requests (account_id, seller_id)
+  where status = 'pending';
+
+create index if not exists requests_status_created_at_idx
+  on public.requests (status, created_at desc);
+
+alter table public.requests enable row level security;
+
+drop policy if exists "Masters can read all requests" on public.requests;
+create policy "Masters can read all requests"
+  on public.requests for select
+  using (public.get_user_role(auth.uid()) = 'MASTER');
+
+drop policy if exists "Managers can read their own requests" on public.requests;
+create policy "Managers can read their own requests"
+  on public.requests for select
+  using (requested_by = auth.uid());
+
+drop policy if exists "Managers can request changes for their sellers" on public.requests;
+create policy "Managers can request changes for their sellers"
+  on public.requests for insert
+  with check (
+    requested_by = auth.uid()
+    and status = 'pending'
+    and exists (
+      select 1
+      from public.seller_managers sm
+      join public.managers m on m.id = sm.manager_id
+      where sm.seller_id = requests.seller_id
+        and m.user_id = auth.uid()
+    )
+  );
+
+-- Decisions go through the functions below, never through direct updates.
+
+create or replace function public.approve_account_change_request(
+  p_request_id uuid,
+  p_review_note text default null
+)
+returns public.requests
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_request public.requests;
+begin
+  if public.get_user_role(auth.uid()) <> 'MASTER' then
+    raise exception 'Only MASTER users can approve requests';
+  end if;
+
+  select * into v_request
+  from public.requests
+  where id = p_request_id
+  for update;
+
+  if not found then
+    raise exception 'Request % not found', p_request_id;
+  end if;
+
+  if v_request.status <> 'pending' then
+    raise exception 'Request has already been %', v_request.status;
+  end if;
+
+  if v_request.type = 'unassign' then
+    if exists (
+      select 1 from public.original_relationships
+      where account_id = v_request.account_id
+        and seller_id = v_request.seller_id
+    ) then
+      raise exception 'Original accounts cannot be unassigned';
+    end if;
+
+    update public.relationship_maps
+    set status = 'available', updated_at = now()
+    where account_id = v_request.account_id
+      and seller_id = v_request.seller_id;
+  else
+    update public.relationship_maps
+    set status = v_request.requested_status, updated_at = now()
+    where account_id = v_request.account_id
+      and seller_id = v_request.seller_id;
+
+    if not found then
+      insert into public.relationship_maps (account_id, seller_id, status, updated_at)
+      values (v_request.account_id, v_request.seller_id, v_request.requested_status, now());
+    end if;
+  end if;
+
+  update public.requests
+  set status = 'approved',
+      reviewed_by = auth.uid(),
+      review_note = p_review_note,
+      reviewed_at = now()
+  where id = p_request_id
+  returning * into v_request;
+
+  return v_request;
+end;
+$$;
+
+create or replace function public.reject_account_change_request(
+  p_request_id uuid,
+  p_review_note text default null
+)
+returns public.requests
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_request public.requests;
+begin
+  if public.get_user_role(auth.uid()) <> 'MASTER' then
+    raise exception 'Only MASTER users can reject requests';
+  end if;
+
+  update public.requests
+  set status = 'rejected',
+      reviewed_by = auth.uid(),
+      review_note = p_review_note,
+      reviewed_at = now()
+  where id = p_request_id
+    and status = 'pending'
+  returning * into v_request;
+
+  if not found then
+    raise exception 'Request % is not pending', p_request_id;
+  end if;
+
+  return v_request;
+end;
+$$;
+
+grant execute on function public.approve_account_change_request(uuid, text) to authenticated;
+grant execute on function public.reject_account_change_request(uuid, text) to authenticated;
@@ -0,0 +1,277 @@
+-- Transactional, resumable comprehensive (replace mode) imports.
+-- Before the first truncate every table the import touches is copied into the
+-- import_backup schema. A failing step restores that copy in one transaction.
+-- A dropped connection leaves the copy and the completed steps in
+-- import_status, so importing the same file again resumes after the last
+-- completed step instead of starting over.
+
+create schema if not exists import_backup;
+revoke all on schema import_backup from public, anon, authenticated;
+
+alter table public.import_status
+  add column if not exists state text not null default 'idle'
+    check (state in ('idle', 'running', 'interrupted', 'completed', 'rolled_back')),
+  add column if not exists file_name text,
+  add column if not exists file_size bigint,
+  add column if not exists completed_steps text[] not null default '{}',
+  add column if not exists current_step text,
+  add column if not exists backup_taken_at timestamptz,
+  add column if not exists last_error text;
+
+-- Tables covered by the backup, parents before children
+create or replace function public.import_backup_tables()
+returns text[]
+language sql
+immutable
+as $$
+  select array[
+    'managers',
+    'accounts',
+    'account_revenues',
+    'sellers',
+    'seller_managers',
+    'relationship_maps',
+    'original_relationships',
+    'seller_chat_messages',
+    'requests'
+  ];
+$$;
+
+create or replace function public.drop_import_backup()
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_table text;
+begin
+  foreach v_table in array public.import_backup_tables() loop
+    execute format('drop table if exists import_backup.%I', v_table);
+  end loop;
+end;
+$$;
+
+revoke execute on function public.drop_import_backup() from public;
+
+-- Start a replace import, or resume an interrupted one for the same file
+create or replace function public.begin_comprehensive_import(
+  p_file_name text,
+  p_file_size bigint
+)
+returns public.import_status
+language plpgsql
+security definer
+set search_path = public
+set statement_timeout = 0
+as $$
+declare
+  v_status public.import_status;
+  v_table text;
+begin
+  if public.get_user_role(auth.uid()) <> 'MASTER' then
+    raise exception 'Only MASTER users can run imports';
+  end if;
+
+  select * into v_status
+  from public.import_status
+  where id = 'comprehensive_import'
+  for update;
+
+  if found and v_status.state in ('running', 'interrupted') and v_status.backup_taken_at is not null then
+    if v_status.file_name = p_file_name and v_status.file_size = p_file_size then
+      update public.import_status
+      set state = 'running',
+          is_importing = true,
+          user_id = auth.uid(),
+          last_error = null,
+          updated_at = now()
+      where id = 'comprehensive_import'
+      returning * into v_status;
+
+      return v_status;
+    end if;
+
+    raise exception 'An interrupted import of % is waiting. Import the same file again to resume it, or roll it back first.', v_status.file_name;
+  end if;
+
+  foreach v_table in array public.import_backup_tables() loop
+    execute format('drop table if exists import_backup.%I', v_table);
+    execute format('create table import_backup.%I as table public.%I', v_table, v_table);
+  end loop;
+
+  insert into public.import_status (
+    id, is_importing, started_at, user_id, updated_at,
+    state, file_name, file_size, completed_steps, current_step, backup_taken_at, last_error
+  )
+  values (
+    'comprehensive_import', true, now(), auth.uid(), now(),
+    'running', p_file_name, p_file_size, '{}', null, now(), null
+  )
+  on conflict (id) do update
+  set is_importing = excluded.is_importing,
+      started_at = excluded.started_at,
+      user_id = excluded.user_id,
+      updated_at = excluded.updated_at,
+      state = excluded.state,
+      file_name = excluded.file_name,
+      file_size = excluded.file_size,
+      completed_steps = excluded.completed_steps,
+      current_step = excluded.current_step,
+      backup_taken_at = excluded.backup_taken_at,
+      last_error = excluded.last_error
+  returning * into v_status;
+
+  return v_status;
+end;
+$$;
+
+-- Track the running step, and append it to completed_steps once it is done
+create or replace function public.record_comprehensive_import_step(
+  p_step text,
+  p_completed boolean default false
+)
+returns public.import_status
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_status public.import_status;
+begin
+  if public.get_user_role(auth.uid()) <> 'MASTER' then
+    raise exception 'Only MASTER users can run imports';
+  end if;
+
+  update public.import_status
+  set current_step = case when p_completed then null else p_step end,
+      completed_steps = case
+        when p_completed and not (p_step = any(completed_steps)) then array_append(completed_steps, p_step)
+        else completed_steps
+      end,
+      updated_at = now()
+  where id = 'comprehensive_import'
+    and state = 'running'
+  returning * into v_status;
+
+  if not found then
+    raise exception 'No comprehensive import is running';
+  end if;
+
+  return v_status;
+end;
+$$;
+
+create or replace function public.finish_comprehensive_import()
+returns public.import_status
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_status public.import_status;
+begin
+  if public.get_user_role(auth.uid()) <> 'MASTER' then
+    raise exception 'Only MASTER users can run imports';
+  end if;
+
+  perform public.drop_import_backup();
+
+  update public.import_status
+  set state = 'completed',
+      is_importing = false,
+      current_step = null,
+      backup_taken_at = null,
+      last_error = null,
+      updated_at = now()
+  where id = 'comprehensive_import'
+  returning * into v_status;
+
+  return v_status;
+end;
+$$;
+
+-- Keep the backup so the import can be resumed or rolled back later
+create or replace function public.interrupt_comprehensive_import(p_error text default null)
+returns public.import_status
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_status public.import_status;
+begin
+  if public.get_user_role(auth.uid()) <> 'MASTER' then
+    raise exception 'Only MASTER users can run imports';
+  end if;
+
+  update public.import_status
+  set state = 'interrupted',
+      is_importing = false,
+      last_error = p_error,
+      updated_at = now()
+  where id = 'comprehensive_import'
+    and state = 'running'
+  returning * into v_status;
+
+  return v_status;
+end;
+$$;
+
+-- Restore every backed up table in a single transaction
+create or replace function public.rollback_comprehensive_import(p_error text default null)
+returns public.import_status
+language plpgsql
+security definer
+set search_path = public
+set statement_timeout = 0
+as $$
+declare
+  v_status public.import_status;
+  v_tables text[] := public.import_backup_tables();
+  v_table text;
+  i integer;
+begin
+  if public.get_user_role(auth.uid()) <> 'MASTER' then
+    raise exception 'Only MASTER users can roll back imports';
+  end if;
+
+  select * into v_status
+  from public.import_status
+  where id = 'comprehensive_import'
+  for update;
+
+  if not found or v_status.backup_taken_at is null then
+    raise exception 'There is no import backup to restore';
+  end if;
+
+  -- Children first so foreign keys never block the delete
+  for i in reverse array_upper(v_tables, 1)..1 loop
+    execute format('delete from public.%I where true', v_tables[i]);
+  end loop;
+
+  foreach v_table in array v_tables loop
+    execute format('insert into public.%I select * from import_backup.%I', v_table, v_table);
+  end loop;
+
+  perform public.drop_import_backup();
+
+  update public.import_status
+  set state = 'rolled_back',
+      is_importing = false,
+      current_step = null,
+      backup_taken_at = null,
+      last_error = coalesce(p_error, last_error),
+      updated_at = now()
+  where id = 'comprehensive_import'
+  returning * into v_status;
+
+  return v_status;
+end;
+$$;
+
+grant execute on function public.begin_comprehensive_import(text, bigint) to authenticated;
+grant execute on function public.record_comprehensive_import_step(text, boolean) to authenticated;
+grant execute on function public.finish_comprehensive_import() to authenticated;
+grant execute on function public.interrupt_comprehensive_import(text) to authenticated;
+grant execute on function public.rollback_comprehensive_import(text) to authenticated;
@@ -0,0 +1,224 @@
+-- Named, timestamped snapshots of the whole assignment state: every
+-- relationship_maps row, account revenues and the seller attributes that drive
+-- health. Snapshots are taken manually, before every import and before every
+-- book finalization. MASTER users can compare and restore them.
+
+create table if not exists public.book_snapshots (
+  id uuid primary key default gen_random_uuid(),
+  name text not null check (length(trim(name)) > 0),
+  description text,
+  reason text not null default 'manual'
+    check (reason in ('manual', 'import', 'finalization', 'restore')),
+  relationship_count integer not null default 0,
+  account_count integer not null default 0,
+  seller_count integer not null default 0,
+  created_by uuid references public.profiles(id),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists book_snapshots_created_at_idx
+  on public.book_snapshots (created_at desc);
+
+create table if not exists public.book_snapshot_relationships (
+  snapshot_id uuid not null references public.book_snapshots(id) on delete cascade,
+  account_id uuid not null,
+  seller_id uuid not null,
+  status public.relationship_status not null,
+  updated_at timestamptz,
+  primary key (snapshot_id, account_id, seller_id)
+);
+
+create table if not exists public.book_snapshot_accounts (
+  snapshot_id uuid not null references public.book_snapshots(id) on delete cascade,
+  account_id uuid not null,
+  account_name text not null,
+  revenue_esg numeric,
+  revenue_gdt numeric,
+  revenue_gvc numeric,
+  revenue_msg_us numeric,
+  primary key (snapshot_id, account_id)
+);
+
+create table if not exists public.book_snapshot_sellers (
+  snapshot_id uuid not null references public.book_snapshots(id) on delete cascade,
+  seller_id uuid not null,
+  name text not null,
+  division public.division_type,
+  size public.size_type,
+  seniority_type text,
+  industry_specialty text,
+  manager_id uuid,
+  book_finalized boolean,
+  tenure_months integer,
+  primary key (snapshot_id, seller_id)
+);
+
+alter table public.book_snapshots enable row level security;
+alter table public.book_snapshot_relationships enable row level security;
+alter table public.book_snapshot_accounts enable row level security;
+alter table public.book_snapshot_sellers enable row level security;
+
+drop policy if exists "Masters can read snapshots" on public.book_snapshots;
+create policy "Masters can read snapshots"
+  on public.book_snapshots for select
+  using (public.get_user_role(auth.uid()) = 'MASTER');
+
+drop policy if exists "Masters can delete snapshots" on public.book_snapshots;
+create policy "Masters can delete snapshots"
+  on public.book_snapshots for delete
+  using (public.get_user_role(auth.uid()) = 'MASTER');
+
+drop policy if exists "Masters can read snapshot relationships" on public.book_snapshot_relationships;
+create policy "Masters can read snapshot relationships"
+  on public.book_snapshot_relationships for select
+  using (public.get_user_role(auth.uid()) = 'MASTER');
+
+drop policy if exists "Masters can read snapshot accounts" on public.book_snapshot_accounts;
+create policy "Masters can read snapshot accounts"
+  on public.book_snapshot_accounts for select
+  using (public.get_user_role(auth.uid()) = 'MASTER');
+
+drop policy if exists "Masters can read snapshot sellers" on public.book_snapshot_sellers;
+create policy "Masters can read snapshot sellers"
+  on public.book_snapshot_sellers for select
+  using (public.get_user_role(auth.uid()) = 'MASTER');
+
+-- Snapshots are written only through the functions below.
+
+-- Managers may snapshot too, since they finalize books
+create or replace function public.create_book_snapshot(
+  p_name text,
+  p_reason text default 'manual',
+  p_description text default null
+)
+returns public.book_snapshots
+language plpgsql
+security definer
+set search_path = public
+set statement_timeout = 0
+as $$
+declare
+  v_snapshot public.book_snapshots;
+begin
+  if public.get_user_role(auth.uid()) not in ('MASTER', 'MANAGER') then
+    raise exception 'Only MASTER and MANAGER users can create snapshots';
+  end if;
+
+  if p_reason = 'manual' and public.get_user_role(auth.uid()) <> 'MASTER' then
+    raise exception 'Only MASTER users can create manual snapshots';
+  end if;
+
+  insert into public.book_snapshots (name, description, reason, created_by)
+  values (p_name, p_description, p_reason, auth.uid())
+  returning * into v_snapshot;
+
+  insert into public.book_snapshot_relationships (snapshot_id, account_id, seller_id, status, updated_at)
+  select v_snapshot.id, rm.account_id, rm.seller_id, rm.status, rm.updated_at
+  from public.relationship_maps rm
+  on conflict do nothing;
+
+  insert into public.book_snapshot_accounts (
+    snapshot_id, account_id, account_name, revenue_esg, revenue_gdt, revenue_gvc, revenue_msg_us
+  )
+  select v_snapshot.id, a.id, a.name, ar.revenue_esg, ar.revenue_gdt, ar.revenue_gvc, ar.revenue_msg_us
+  from public.accounts a
+  left join public.account_revenues ar on ar.account_id = a.id;
+
+  insert into public.book_snapshot_sellers (
+    snapshot_id, seller_id, name, division, size, seniority_type,
+    industry_specialty, manager_id, book_finalized, tenure_months
+  )
+  select v_snapshot.id, s.id, s.name, s.division, s.size, s.seniority_type,
+    s.industry_specialty, s.manager_id, s.book_finalized, s.tenure_months
+  from public.sellers s;
+
+  update public.book_snapshots
+  set relationship_count = (select count(*) from public.book_snapshot_relationships where snapshot_id = v_snapshot.id),
+      account_count = (select count(*) from public.book_snapshot_accounts where snapshot_id = v_snapshot.id),
+      seller_count = (select count(*) from public.book_snapshot_sellers where snapshot_id = v_snapshot.id)
+  where id = v_snapshot.id
+  returning * into v_snapshot;
+
+  return v_snapshot;
+end;
+$$;
+
+-- Restore relationships, revenues and seller attributes from a snapshot.
+-- Accounts and sellers deleted since the snapshot are not recreated.
+create or replace function public.restore_book_snapshot(p_snapshot_id uuid)
+returns public.book_snapshots
+language plpgsql
+security definer
+set search_path = public
+set statement_timeout = 0
+as $$
+declare
+  v_snapshot public.book_snapshots;
+begin
+  if public.get_user_role(auth.uid()) <> 'MASTER' then
+    raise exception 'Only MASTER users can restore snapshots';
+  end if;
+
+  select * into v_snapshot
+  from public.book_snapshots
+  where id = p_snapshot_id;
+
+  if not found then
+    raise exception 'Snapshot % not found', p_snapshot_id;
+  end if;
+
+  -- Keep the current state so the restore itself can be undone
+  perform public.create_book_snapshot(
+    format('Before restoring "%s"', v_snapshot.name),
+    'restore',
+    null
+  );
+
+  delete from public.relationship_maps where true;
+
+  insert into public.relationship_maps (account_id, seller_id, status, updated_at)
+  select sr.account_id, sr.seller_id, sr.status, coalesce(sr.updated_at, now())
+  from public.book_snapshot_relationships sr
+  join public.accounts a on a.id = sr.account_id
+  join public.sellers s on s.id = sr.seller_id
+  where sr.snapshot_id = p_snapshot_id;
+
+  update public.account_revenues ar
+  set revenue_esg = sa.revenue_esg,
+      revenue_gdt = sa.revenue_gdt,
+      revenue_gvc = sa.revenue_gvc,
+      revenue_msg_us = sa.revenue_msg_us
+  from public.book_snapshot_accounts sa
+  where sa.snapshot_id = p_snapshot_id
+    and sa.account_id = ar.account_id;
+
+  insert into public.account_revenues (account_id, revenue_esg, revenue_gdt, revenue_gvc, revenue_msg_us)
+  select sa.account_id, sa.revenue_esg, sa.revenue_gdt, sa.revenue_gvc, sa.revenue_msg_us
+  from public.book_snapshot_accounts sa
+  join public.accounts a on a.id = sa.account_id
+  where sa.snapshot_id = p_snapshot_id
+    and not exists (select 1 from public.account_revenues ar where ar.account_id = sa.account_id)
+    and coalesce(sa.revenue_esg, sa.revenue_gdt, sa.revenue_gvc, sa.revenue_msg_us) is not null;
+
+  update public.sellers s
+  set division = coalesce(ss.division, s.division),
+      size = coalesce(ss.size, s.size),
+      seniority_type = ss.seniority_type,
+      industry_specialty = ss.industry_specialty,
+      manager_id = case
+        when ss.manager_id is null or exists (select 1 from public.managers m where m.id = ss.manager_id)
+          then ss.manager_id
+        else s.manager_id
+      end,
+      book_finalized = ss.book_finalized,
+      tenure_months = ss.tenure_months
+  from public.book_snapshot_sellers ss
+  where ss.snapshot_id = p_snapshot_id
+    and ss.seller_id = s.id;
+
+  return v_snapshot;
+end;
+$$;
+
+grant execute on function public.create_book_snapshot(text, text, text) to authenticated;
+grant execute on function public.restore_book_snapshot(uuid) to authenticated;
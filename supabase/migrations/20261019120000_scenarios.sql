@@ -0,0 +1,168 @@
+-- Scenario sandbox for what-if territory planning.
+-- A scenario is a copy-on-write overlay: scenario_changes only holds the
+-- relationships that differ from live relationship_maps. Editing a scenario
+-- never touches live data; a MASTER can promote it to live in one transaction.
+
+create table if not exists public.scenarios (
+  id uuid primary key default gen_random_uuid(),
+  name text not null check (length(trim(name)) > 0),
+  description text,
+  owner_id uuid not null default auth.uid() references public.profiles(id),
+  status text not null default 'draft' check (status in ('draft', 'promoted')),
+  promoted_by uuid references public.profiles(id),
+  promoted_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists scenarios_owner_id_idx
+  on public.scenarios (owner_id, updated_at desc);
+
+create table if not exists public.scenario_changes (
+  scenario_id uuid not null references public.scenarios(id) on delete cascade,
+  account_id uuid not null references public.accounts(id) on delete cascade,
+  seller_id uuid not null references public.sellers(id) on delete cascade,
+  status public.relationship_status not null,
+  -- Live status when the change was made, null if there was no relationship
+  base_status public.relationship_status,
+  updated_at timestamptz not null default now(),
+  primary key (scenario_id, account_id, seller_id)
+);
+
+create index if not exists scenario_changes_seller_idx
+  on public.scenario_changes (scenario_id, seller_id);
+
+alter table public.scenarios enable row level security;
+alter table public.scenario_changes enable row level security;
+
+drop policy if exists "Owners and masters can read scenarios" on public.scenarios;
+create policy "Owners and masters can read scenarios"
+  on public.scenarios for select
+  using (owner_id = auth.uid() or public.get_user_role(auth.uid()) = 'MASTER');
+
+drop policy if exists "Users can create their own scenarios" on public.scenarios;
+create policy "Users can create their own scenarios"
+  on public.scenarios for insert
+  with check (owner_id = auth.uid() and status = 'draft');
+
+drop policy if exists "Owners can update draft scenarios" on public.scenarios;
+create policy "Owners can update draft scenarios"
+  on public.scenarios for update
+  using (owner_id = auth.uid() and status = 'draft')
+  with check (owner_id = auth.uid() and status = 'draft');
+
+drop policy if exists "Owners can delete their scenarios" on public.scenarios;
+create policy "Owners can delete their scenarios"
+  on public.scenarios for delete
+  using (owner_id = auth.uid());
+
+drop policy if exists "Owners and masters can read scenario changes" on public.scenario_changes;
+create policy "Owners and masters can read scenario changes"
+  on public.scenario_changes for select
+  using (
+    exists (
+      select 1 from public.scenarios s
+      where s.id = scenario_changes.scenario_id
+        and (s.owner_id = auth.uid() or public.get_user_role(auth.uid()) = 'MASTER')
+    )
+  );
+
+drop policy if exists "Owners can edit draft scenario changes" on public.scenario_changes;
+create policy "Owners can edit draft scenario changes"
+  on public.scenario_changes for all
+  using (
+    exists (
+      select 1 from public.scenarios s
+      where s.id = scenario_changes.scenario_id
+        and s.owner_id = auth.uid()
+        and s.status = 'draft'
+    )
+  )
+  with check (
+    exists (
+      select 1 from public.scenarios s
+      where s.id = scenario_changes.scenario_id
+        and s.owner_id = auth.uid()
+        and s.status = 'draft'
+    )
+  );
+
+-- Promotions are snapshotted like imports and finalizations
+alter table public.book_snapshots drop constraint if exists book_snapshots_reason_check;
+alter table public.book_snapshots add constraint book_snapshots_reason_check
+  check (reason in ('manual', 'import', 'finalization', 'restore', 'scenario'));
+
+create or replace function public.promote_scenario(p_scenario_id uuid)
+returns public.scenarios
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_scenario public.scenarios;
+begin
+  if public.get_user_role(auth.uid()) <> 'MASTER' then
+    raise exception 'Only MASTER users can promote scenarios';
+  end if;
+
+  select * into v_scenario
+  from public.scenarios
+  where id = p_scenario_id
+  for update;
+
+  if not found then
+    raise exception 'Scenario % not found', p_scenario_id;
+  end if;
+
+  if v_scenario.status <> 'draft' then
+    raise exception 'Scenario has already been promoted';
+  end if;
+
+  if exists (
+    select 1
+    from public.scenario_changes sc
+    join public.original_relationships o
+      on o.account_id = sc.account_id and o.seller_id = sc.seller_id
+    where sc.scenario_id = p_scenario_id
+      and sc.status = 'available'
+  ) then
+    raise exception 'Scenario unassigns original accounts, which cannot be unassigned';
+  end if;
+
+  perform public.create_book_snapshot(
+    format('Before promoting scenario "%s"', v_scenario.name),
+    'scenario',
+    null
+  );
+
+  update public.relationship_maps rm
+  set status = sc.status, updated_at = now()
+  from public.scenario_changes sc
+  where sc.scenario_id = p_scenario_id
+    and rm.account_id = sc.account_id
+    and rm.seller_id = sc.seller_id;
+
+  insert into public.relationship_maps (account_id, seller_id, status, updated_at)
+  select sc.account_id, sc.seller_id, sc.status, now()
+  from public.scenario_changes sc
+  where sc.scenario_id = p_scenario_id
+    and sc.status <> 'available'
+    and not exists (
+      select 1 from public.relationship_maps rm
+      where rm.account_id = sc.account_id
+        and rm.seller_id = sc.seller_id
+    );
+
+  update public.scenarios
+  set status = 'promoted',
+      promoted_by = auth.uid(),
+      promoted_at = now(),
+      updated_at = now()
+  where id = p_scenario_id
+  returning * into v_scenario;
+
+  return v_scenario;
+end;
+$$;
+
+grant execute on function public.promote_scenario(uuid) to authenticated;
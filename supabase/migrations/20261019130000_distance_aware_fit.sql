@@ -0,0 +1,249 @@
+-- Distance-aware fit scoring.
+-- Fit used to ignore geography even though accounts and sellers carry
+-- coordinates. Fit is now a weighted blend of industry, size, division and
+-- great-circle distance, with the weights stored in fit_score_settings and
+-- editable by MASTER users from admin settings.
+
+create table if not exists public.fit_score_settings (
+  id boolean primary key default true check (id),
+  industry_weight numeric not null default 25 check (industry_weight >= 0),
+  size_weight numeric not null default 25 check (size_weight >= 0),
+  division_weight numeric not null default 30 check (division_weight >= 0),
+  distance_weight numeric not null default 20 check (distance_weight >= 0),
+  -- Accounts this far (or further) from the seller score zero on distance
+  max_distance_km numeric not null default 1500 check (max_distance_km > 0),
+  updated_by uuid references public.profiles(id),
+  updated_at timestamptz not null default now(),
+  constraint fit_score_settings_weights_check
+    check (industry_weight + size_weight + division_weight + distance_weight > 0)
+);
+
+insert into public.fit_score_settings (id) values (true)
+on conflict (id) do nothing;
+
+alter table public.fit_score_settings enable row level security;
+
+drop policy if exists "Authenticated users can read fit score settings" on public.fit_score_settings;
+create policy "Authenticated users can read fit score settings"
+  on public.fit_score_settings for select
+  using (auth.uid() is not null);
+
+drop policy if exists "Masters can update fit score settings" on public.fit_score_settings;
+create policy "Masters can update fit score settings"
+  on public.fit_score_settings for update
+  using (public.get_user_role(auth.uid()) = 'MASTER')
+  with check (public.get_user_role(auth.uid()) = 'MASTER');
+
+-- Great-circle distance in kilometres (haversine), null if either point is missing
+create or replace function public.distance_km(
+  lat1 double precision,
+  lng1 double precision,
+  lat2 double precision,
+  lng2 double precision
+)
+returns double precision
+language sql
+immutable
+as $$
+  select case
+    when lat1 is null or lng1 is null or lat2 is null or lng2 is null then null
+    else 6371 * 2 * asin(sqrt(
+      power(sin(radians(lat2 - lat1) / 2), 2) +
+      cos(radians(lat1)) * cos(radians(lat2)) * power(sin(radians(lng2 - lng1) / 2), 2)
+    ))
+  end;
+$$;
+
+grant execute on function public.distance_km(double precision, double precision, double precision, double precision) to authenticated;
+
+-- The return type gains distance_km, so the old signature has to go first
+drop function if exists public.get_all_accounts_with_assignment_status(
+  uuid, integer, integer, text, text, text, text, text, text, text, text, text, text
+);
+
+create or replace function public.get_all_accounts_with_assignment_status(
+  seller_id_param uuid,
+  page_param integer default 1,
+  limit_param integer default 50,
+  search_param text default null,
+  sort_by_param text default 'fit_percentage',
+  sort_order_param text default 'desc',
+  division_filter text default null,
+  size_filter text default null,
+  tier_filter text default null,
+  industry_filter text default null,
+  country_filter text default null,
+  state_filter text default null,
+  assignment_status_filter text default null
+)
+returns table (
+  id uuid,
+  name text,
+  city text,
+  state text,
+  country text,
+  industry text,
+  size text,
+  tier text,
+  type text,
+  current_division text,
+  lat double precision,
+  lng double precision,
+  total_revenue numeric,
+  revenue_esg numeric,
+  revenue_gdt numeric,
+  revenue_gvc numeric,
+  revenue_msg_us numeric,
+  assignment_status text,
+  assigned_seller_id uuid,
+  assigned_seller_name text,
+  fit_percentage integer,
+  distance_km double precision,
+  total_count bigint,
+  total_pages integer,
+  current_page integer,
+  limit_per_page integer
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with seller as (
+    select s.* from public.sellers s where s.id = seller_id_param
+  ),
+  weights as (
+    select
+      f.industry_weight,
+      f.size_weight,
+      f.division_weight,
+      f.distance_weight,
+      f.max_distance_km,
+      f.industry_weight + f.size_weight + f.division_weight + f.distance_weight as total_weight
+    from public.fit_score_settings f
+    where f.id
+  ),
+  -- This seller's own relationship wins; otherwise whoever else holds the account
+  assignment as (
+    select distinct on (rm.account_id)
+      rm.account_id,
+      rm.status::text as status,
+      rm.seller_id,
+      sel.name as seller_name
+    from public.relationship_maps rm
+    join public.sellers sel on sel.id = rm.seller_id
+    where rm.status <> 'available'
+    order by rm.account_id, (rm.seller_id = seller_id_param) desc, rm.updated_at desc
+  ),
+  scored as (
+    select
+      a.id,
+      a.name,
+      a.city,
+      a.state,
+      a.country,
+      a.industry,
+      a.size::text as size,
+      a.tier,
+      a.type,
+      a.current_division::text as current_division,
+      a.lat::double precision as lat,
+      a.lng::double precision as lng,
+      coalesce(r.revenue_esg, 0) + coalesce(r.revenue_gdt, 0) + coalesce(r.revenue_gvc, 0) + coalesce(r.revenue_msg_us, 0) as total_revenue,
+      coalesce(r.revenue_esg, 0) as revenue_esg,
+      coalesce(r.revenue_gdt, 0) as revenue_gdt,
+      coalesce(r.revenue_gvc, 0) as revenue_gvc,
+      coalesce(r.revenue_msg_us, 0) as revenue_msg_us,
+      coalesce(asg.status, 'available') as assignment_status,
+      asg.seller_id as assigned_seller_id,
+      asg.seller_name as assigned_seller_name,
+      public.distance_km(s.lat, s.lng, a.lat, a.lng) as distance_km,
+      s.industry_specialty,
+      s.size::text as seller_size,
+      s.division::text as seller_division
+    from public.accounts a
+    cross join seller s
+    left join public.account_revenues r on r.account_id = a.id
+    left join assignment asg on asg.account_id = a.id
+    where (search_param is null or a.name ilike '%' || search_param || '%')
+      and (division_filter is null or division_filter = 'all' or a.current_division::text = division_filter)
+      and (size_filter is null or size_filter = 'all' or a.size::text = size_filter)
+      and (tier_filter is null or tier_filter = 'all' or a.tier = tier_filter)
+      and (industry_filter is null or industry_filter = 'all' or a.industry = industry_filter)
+      and (country_filter is null or country_filter = 'all' or a.country = country_filter)
+      and (state_filter is null or state_filter = 'all' or a.state = state_filter)
+  ),
+  fitted as (
+    select
+      sc.*,
+      round(100 * (
+        w.industry_weight * case
+          when sc.industry is not null and sc.industry_specialty is not null
+            and lower(sc.industry_specialty) like '%' || lower(sc.industry) || '%' then 1 else 0 end
+        + w.size_weight * case when sc.size = sc.seller_size then 1 else 0 end
+        + w.division_weight * case when sc.current_division = sc.seller_division then 1 else 0 end
+        -- Unknown locations score neutral rather than being penalised
+        + w.distance_weight * case
+          when sc.distance_km is null then 0.5
+          else greatest(0, 1 - sc.distance_km / w.max_distance_km) end
+      ) / w.total_weight)::integer as fit_percentage
+    from scored sc
+    cross join weights w
+  ),
+  filtered as (
+    select f.*
+    from fitted f
+    where assignment_status_filter is null
+      or assignment_status_filter = 'all'
+      or (assignment_status_filter = 'available' and f.assignment_status = 'available')
+      or (assignment_status_filter = 'assigned' and f.assignment_status <> 'available')
+      or f.assignment_status = assignment_status_filter
+  ),
+  counted as (
+    select f.*, count(*) over () as total_count
+    from filtered f
+  )
+  select
+    c.id,
+    c.name,
+    c.city,
+    c.state,
+    c.country,
+    c.industry,
+    c.size,
+    c.tier,
+    c.type,
+    c.current_division,
+    c.lat,
+    c.lng,
+    c.total_revenue,
+    c.revenue_esg,
+    c.revenue_gdt,
+    c.revenue_gvc,
+    c.revenue_msg_us,
+    c.assignment_status,
+    c.assigned_seller_id,
+    c.assigned_seller_name,
+    c.fit_percentage,
+    c.distance_km,
+    c.total_count,
+    ceil(c.total_count::numeric / greatest(limit_param, 1))::integer as total_pages,
+    page_param as current_page,
+    limit_param as limit_per_page
+  from counted c
+  order by
+    case when sort_by_param = 'fit_percentage' and sort_order_param = 'asc' then c.fit_percentage end asc,
+    case when sort_by_param = 'fit_percentage' and sort_order_param <> 'asc' then c.fit_percentage end desc,
+    case when sort_by_param = 'total_revenue' and sort_order_param = 'asc' then c.total_revenue end asc,
+    case when sort_by_param = 'total_revenue' and sort_order_param <> 'asc' then c.total_revenue end desc,
+    case when sort_by_param = 'distance_km' and sort_order_param = 'asc' then c.distance_km end asc nulls last,
+    case when sort_by_param = 'distance_km' and sort_order_param <> 'asc' then c.distance_km end desc nulls last,
+    case when sort_by_param = 'name' and sort_order_param = 'desc' then c.name end desc,
+    c.name asc
+  offset (greatest(page_param, 1) - 1) * greatest(limit_param, 1)
+  limit greatest(limit_param, 1);
+$$;
+
+grant execute on function public.get_all_accounts_with_assignment_status(
+  uuid, integer, integer, text, text, text, text, text, text, text, text, text, text
+) to authenticated;
@@ -0,0 +1,221 @@
+-- Fit score model: revenue headroom factor.
+-- The fit model now lives in src/lib/fit-score.ts, which explains each
+-- account's score factor by factor. This function mirrors that formula so
+-- server-side sorting by fit agrees with the breakdown shown in the UI:
+-- industry, size, division, revenue fit against the seller's remaining
+-- headroom, and geography.
+
+alter table public.fit_score_settings
+  add column if not exists revenue_weight numeric not null default 15 check (revenue_weight >= 0);
+
+alter table public.fit_score_settings drop constraint if exists fit_score_settings_weights_check;
+alter table public.fit_score_settings add constraint fit_score_settings_weights_check
+  check (industry_weight + size_weight + division_weight + revenue_weight + distance_weight > 0);
+
+-- Same signature and return type, so a plain replace is enough
+create or replace function public.get_all_accounts_with_assignment_status(
+  seller_id_param uuid,
+  page_param integer default 1,
+  limit_param integer default 50,
+  search_param text default null,
+  sort_by_param text default 'fit_percentage',
+  sort_order_param text default 'desc',
+  division_filter text default null,
+  size_filter text default null,
+  tier_filter text default null,
+  industry_filter text default null,
+  country_filter text default null,
+  state_filter text default null,
+  assignment_status_filter text default null
+)
+returns table (
+  id uuid,
+  name text,
+  city text,
+  state text,
+  country text,
+  industry text,
+  size text,
+  tier text,
+  type text,
+  current_division text,
+  lat double precision,
+  lng double precision,
+  total_revenue numeric,
+  revenue_esg numeric,
+  revenue_gdt numeric,
+  revenue_gvc numeric,
+  revenue_msg_us numeric,
+  assignment_status text,
+  assigned_seller_id uuid,
+  assigned_seller_name text,
+  fit_percentage integer,
+  distance_km double precision,
+  total_count bigint,
+  total_pages integer,
+  current_page integer,
+  limit_per_page integer
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with seller as (
+    select
+      s.*,
+      coalesce(v.seller_total_revenue, 0) as book_revenue,
+      rr.max_revenue
+    from public.sellers s
+    left join public.seller_revenue_view v on v.seller_id = s.id
+    left join public.revenue_range_settings rr
+      on rr.size_type = s.size and rr.seniority_type = s.seniority_type
+    where s.id = seller_id_param
+  ),
+  weights as (
+    select
+      f.industry_weight,
+      f.size_weight,
+      f.division_weight,
+      f.revenue_weight,
+      f.distance_weight,
+      f.max_distance_km,
+      f.industry_weight + f.size_weight + f.division_weight + f.revenue_weight + f.distance_weight as total_weight
+    from public.fit_score_settings f
+    where f.id
+  ),
+  -- This seller's own relationship wins; otherwise whoever else holds the account
+  assignment as (
+    select distinct on (rm.account_id)
+      rm.account_id,
+      rm.status::text as status,
+      rm.seller_id,
+      sel.name as seller_name
+    from public.relationship_maps rm
+    join public.sellers sel on sel.id = rm.seller_id
+    where rm.status <> 'available'
+    order by rm.account_id, (rm.seller_id = seller_id_param) desc, rm.updated_at desc
+  ),
+  scored as (
+    select
+      a.id,
+      a.name,
+      a.city,
+      a.state,
+      a.country,
+      a.industry,
+      a.size::text as size,
+      a.tier,
+      a.type,
+      a.current_division::text as current_division,
+      a.lat::double precision as lat,
+      a.lng::double precision as lng,
+      coalesce(r.revenue_esg, 0) + coalesce(r.revenue_gdt, 0) + coalesce(r.revenue_gvc, 0) + coalesce(r.revenue_msg_us, 0) as total_revenue,
+      coalesce(r.revenue_esg, 0) as revenue_esg,
+      coalesce(r.revenue_gdt, 0) as revenue_gdt,
+      coalesce(r.revenue_gvc, 0) as revenue_gvc,
+      coalesce(r.revenue_msg_us, 0) as revenue_msg_us,
+      coalesce(asg.status, 'available') as assignment_status,
+      asg.seller_id as assigned_seller_id,
+      asg.seller_name as assigned_seller_name,
+      public.distance_km(s.lat, s.lng, a.lat, a.lng) as distance_km,
+      nullif(s.industry_specialty, '-') as industry_specialty,
+      s.size::text as seller_size,
+      s.division::text as seller_division,
+      s.max_revenue,
+      -- Headroom left under the seller's maximum; accounts already in the book give their share back
+      s.max_revenue - s.book_revenue + case
+        when asg.seller_id = seller_id_param and asg.status in ('must_keep', 'pinned', 'approval_for_pinning')
+          then coalesce(r.revenue_esg, 0) + coalesce(r.revenue_gdt, 0) + coalesce(r.revenue_gvc, 0) + coalesce(r.revenue_msg_us, 0)
+        else 0 end as revenue_headroom
+    from public.accounts a
+    cross join seller s
+    left join public.account_revenues r on r.account_id = a.id
+    left join assignment asg on asg.account_id = a.id
+    where (search_param is null or a.name ilike '%' || search_param || '%')
+      and (division_filter is null or division_filter = 'all' or a.current_division::text = division_filter)
+      and (size_filter is null or size_filter = 'all' or a.size::text = size_filter)
+      and (tier_filter is null or tier_filter = 'all' or a.tier = tier_filter)
+      and (industry_filter is null or industry_filter = 'all' or a.industry = industry_filter)
+      and (country_filter is null or country_filter = 'all' or a.country = country_filter)
+      and (state_filter is null or state_filter = 'all' or a.state = state_filter)
+  ),
+  fitted as (
+    select
+      sc.*,
+      round(100 * (
+        w.industry_weight * case
+          when sc.industry is not null and sc.industry_specialty is not null
+            and strpos(lower(sc.industry_specialty), lower(sc.industry)) > 0 then 1 else 0 end
+        + w.size_weight * case when sc.size = sc.seller_size then 1 else 0 end
+        + w.division_weight * case when sc.current_division = sc.seller_division then 1 else 0 end
+        + w.revenue_weight * case
+          when sc.max_revenue is null then 0.5
+          when sc.revenue_headroom <= 0 then 0
+          when sc.total_revenue <= sc.revenue_headroom then 1
+          else sc.revenue_headroom / sc.total_revenue end
+        -- Unknown locations score neutral rather than being penalised
+        + w.distance_weight * case
+          when sc.distance_km is null then 0.5
+          else greatest(0, 1 - sc.distance_km / w.max_distance_km) end
+      ) / w.total_weight)::integer as fit_percentage
+    from scored sc
+    cross join weights w
+  ),
+  filtered as (
+    select f.*
+    from fitted f
+    where assignment_status_filter is null
+      or assignment_status_filter = 'all'
+      or (assignment_status_filter = 'available' and f.assignment_status = 'available')
+      or (assignment_status_filter = 'assigned' and f.assignment_status <> 'available')
+      or f.assignment_status = assignment_status_filter
+  ),
+  counted as (
+    select f.*, count(*) over () as total_count
+    from filtered f
+  )
+  select
+    c.id,
+    c.name,
+    c.city,
+    c.state,
+    c.country,
+    c.industry,
+    c.size,
+    c.tier,
+    c.type,
+    c.current_division,
+    c.lat,
+    c.lng,
+    c.total_revenue,
+    c.revenue_esg,
+    c.revenue_gdt,
+    c.revenue_gvc,
+    c.revenue_msg_us,
+    c.assignment_status,
+    c.assigned_seller_id,
+    c.assigned_seller_name,
+    c.fit_percentage,
+    c.distance_km,
+    c.total_count,
+    ceil(c.total_count::numeric / greatest(limit_param, 1))::integer as total_pages,
+    page_param as current_page,
+    limit_param as limit_per_page
+  from counted c
+  order by
+    case when sort_by_param = 'fit_percentage' and sort_order_param = 'asc' then c.fit_percentage end asc,
+    case when sort_by_param = 'fit_percentage' and sort_order_param <> 'asc' then c.fit_percentage end desc,
+    case when sort_by_param = 'total_revenue' and sort_order_param = 'asc' then c.total_revenue end asc,
+    case when sort_by_param = 'total_revenue' and sort_order_param <> 'asc' then c.total_revenue end desc,
+    case when sort_by_param = 'distance_km' and sort_order_param = 'asc' then c.distance_km end asc nulls last,
+    case when sort_by_param = 'distance_km' and sort_order_param <> 'asc' then c.distance_km end desc nulls last,
+    case when sort_by_param = 'name' and sort_order_param = 'desc' then c.name end desc,
+    c.name asc
+  offset (greatest(page_param, 1) - 1) * greatest(limit_param, 1)
+  limit greatest(limit_param, 1);
+$$;
+
+grant execute on function public.get_all_accounts_with_assignment_status(
+  uuid, integer, integer, text, text, text, text, text, text, text, text, text, text
+) to authenticated;
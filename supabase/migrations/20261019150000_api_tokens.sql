@@ -0,0 +1,42 @@
+-- Per-user API tokens for the /api/v1 REST endpoints.
+-- Only a sha256 hash of each token is stored; the plaintext is shown once
+-- when the token is created. Requests authenticated with a token act as the
+-- owning user, with that user's role.
+
+create table if not exists public.api_tokens (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  name text not null check (length(trim(name)) > 0),
+  token_hash text not null unique,
+  -- First characters of the token so users can tell their tokens apart
+  token_prefix text not null,
+  last_used_at timestamptz,
+  expires_at timestamptz,
+  revoked_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists api_tokens_user_id_idx on public.api_tokens (user_id);
+
+alter table public.api_tokens enable row level security;
+
+drop policy if exists "Users can read their own api tokens" on public.api_tokens;
+create policy "Users can read their own api tokens"
+  on public.api_tokens for select
+  using (user_id = auth.uid());
+
+drop policy if exists "Users can create their own api tokens" on public.api_tokens;
+create policy "Users can create their own api tokens"
+  on public.api_tokens for insert
+  with check (user_id = auth.uid());
+
+drop policy if exists "Users can revoke their own api tokens" on public.api_tokens;
+create policy "Users can revoke their own api tokens"
+  on public.api_tokens for update
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+drop policy if exists "Masters can read all api tokens" on public.api_tokens;
+create policy "Masters can read all api tokens"
+  on public.api_tokens for select
+  using (public.get_user_role(auth.uid()) = 'MASTER');
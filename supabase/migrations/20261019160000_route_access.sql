@@ -0,0 +1,24 @@
+-- Seller-level access check for server-side route protection.
+-- MASTER users can open every seller; MANAGER users only the sellers linked
+-- to them through seller_managers (primary or secondary).
+
+create or replace function public.can_access_seller(seller_id_param uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select case
+    when public.get_user_role(auth.uid()) = 'MASTER' then true
+    else exists (
+      select 1
+      from public.seller_managers sm
+      join public.managers m on m.id = sm.manager_id
+      where sm.seller_id = seller_id_param
+        and m.user_id = auth.uid()
+    )
+  end;
+$$;
+
+grant execute on function public.can_access_seller(uuid) to authenticated;
@@ -0,0 +1,116 @@
+-- Permission matrix.
+-- Adds VIEWER (read-only, all sellers), DIVISION_LEAD (one division) and
+-- SELLER (own book only) roles next to MASTER and MANAGER, and moves role
+-- checks onto named capabilities. role_permissions mirrors ROLE_CAPABILITIES
+-- in src/lib/permissions.ts - keep the two in sync.
+
+alter type public.app_role add value if not exists 'DIVISION_LEAD';
+alter type public.app_role add value if not exists 'SELLER';
+alter type public.app_role add value if not exists 'VIEWER';
+
+-- Scope columns: division for DIVISION_LEAD, the linked seller for SELLER
+alter table public.profiles
+  add column if not exists division public.division_type,
+  add column if not exists seller_id uuid references public.sellers(id) on delete set null;
+
+-- role is text rather than app_role: new enum values can't be used in the
+-- transaction that adds them
+create table if not exists public.role_permissions (
+  role text not null,
+  capability text not null,
+  primary key (role, capability)
+);
+
+insert into public.role_permissions (role, capability) values
+  ('MASTER', 'relationship.assign'),
+  ('MASTER', 'request.review'),
+  ('MASTER', 'book.finalize'),
+  ('MASTER', 'scenario.edit'),
+  ('MASTER', 'scenario.promote'),
+  ('MASTER', 'rebalance.view'),
+  ('MASTER', 'snapshot.manage'),
+  ('MASTER', 'settings.edit'),
+  ('MASTER', 'import.run'),
+  ('MASTER', 'audit.view'),
+  ('MASTER', 'performance.view_managers'),
+  ('MANAGER', 'relationship.request'),
+  ('MANAGER', 'book.finalize'),
+  ('MANAGER', 'scenario.edit'),
+  ('MANAGER', 'rebalance.view'),
+  ('MANAGER', 'audit.view'),
+  ('DIVISION_LEAD', 'relationship.request'),
+  ('DIVISION_LEAD', 'book.finalize'),
+  ('DIVISION_LEAD', 'scenario.edit'),
+  ('DIVISION_LEAD', 'rebalance.view'),
+  ('DIVISION_LEAD', 'audit.view'),
+  ('VIEWER', 'audit.view'),
+  ('VIEWER', 'performance.view_managers')
+on conflict (role, capability) do nothing;
+
+alter table public.role_permissions enable row level security;
+
+drop policy if exists "Authenticated users can read role permissions" on public.role_permissions;
+create policy "Authenticated users can read role permissions"
+  on public.role_permissions for select
+  using (auth.uid() is not null);
+
+-- Single capability check for RLS policies and RPCs
+create or replace function public.has_permission(capability_param text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from public.profiles p
+    join public.role_permissions rp on rp.role = p.role::text
+    where p.id = auth.uid()
+      and rp.capability = capability_param
+  );
+$$;
+
+grant execute on function public.has_permission(text) to authenticated;
+
+-- Seller visibility per role: everything for MASTER/VIEWER, the division for
+-- DIVISION_LEAD, the linked seller for SELLER, managed sellers for MANAGER
+create or replace function public.can_access_seller(seller_id_param uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce((
+    select case p.role::text
+      when 'MASTER' then true
+      when 'VIEWER' then true
+      when 'DIVISION_LEAD' then exists (
+        select 1 from public.sellers s
+        where s.id = seller_id_param
+          and p.division is not null
+          and s.division = p.division
+      )
+      when 'SELLER' then p.seller_id is not null and p.seller_id = seller_id_param
+      when 'MANAGER' then exists (
+        select 1
+        from public.seller_managers sm
+        join public.managers m on m.id = sm.manager_id
+        where sm.seller_id = seller_id_param
+          and m.user_id = p.id
+      )
+      else false
+    end
+    from public.profiles p
+    where p.id = auth.uid()
+  ), false);
+$$;
+
+-- Settings edits now go through the capability rather than the role name
+drop policy if exists "Masters can update fit score settings" on public.fit_score_settings;
+drop policy if exists "Users with settings.edit can update fit score settings" on public.fit_score_settings;
+create policy "Users with settings.edit can update fit score settings"
+  on public.fit_score_settings for update
+  using (public.has_permission('settings.edit'))
+  with check (public.has_permission('settings.edit'));
@@ -0,0 +1,17 @@
+-- User administration.
+-- Deactivated users keep their profile (audit history points at it) but are
+-- banned in auth and refused by middleware.ts. Invites, role changes and
+-- manager links are written by the server actions in app/actions/users.ts.
+
+alter table public.profiles
+  add column if not exists deactivated_at timestamptz;
+
+insert into public.role_permissions (role, capability) values
+  ('MASTER', 'user.manage')
+on conflict (role, capability) do nothing;
+
+-- Users with user.manage can read every profile for the admin console
+drop policy if exists "Users with user.manage can read profiles" on public.profiles;
+create policy "Users with user.manage can read profiles"
+  on public.profiles for select
+  using (public.has_permission('user.manage'));
@@ -0,0 +1,78 @@
+-- Session auditing and idle timeout.
+-- Sign-ins, sign-outs, failed sign-ins and token refreshes are written to
+-- audit_logs (entity 'session') by the app. The idle timeout lives in
+-- session_settings, and users list and revoke their own auth sessions through
+-- the functions below since the auth schema isn't exposed to the API.
+
+create table if not exists public.session_settings (
+  id boolean primary key default true check (id),
+  -- Signed out after this long without keyboard, mouse or touch input
+  idle_timeout_minutes integer not null default 30 check (idle_timeout_minutes between 5 and 1440),
+  -- How long the "still there?" dialog counts down before signing out
+  warning_seconds integer not null default 60 check (warning_seconds between 10 and 600),
+  updated_by uuid references public.profiles(id) on delete set null,
+  updated_at timestamptz not null default now()
+);
+
+insert into public.session_settings (id) values (true)
+on conflict (id) do nothing;
+
+alter table public.session_settings enable row level security;
+
+drop policy if exists "Authenticated users can read session settings" on public.session_settings;
+create policy "Authenticated users can read session settings"
+  on public.session_settings for select
+  using (auth.uid() is not null);
+
+drop policy if exists "Users with settings.edit can update session settings" on public.session_settings;
+create policy "Users with settings.edit can update session settings"
+  on public.session_settings for update
+  using (public.has_permission('settings.edit'))
+  with check (public.has_permission('settings.edit'));
+
+-- The caller's sessions, newest activity first
+create or replace function public.get_my_sessions()
+returns table (
+  id uuid,
+  created_at timestamptz,
+  last_active_at timestamptz,
+  user_agent text,
+  ip text,
+  is_current boolean
+)
+language sql
+stable
+security definer
+set search_path = public, auth
+as $$
+  select
+    s.id,
+    s.created_at,
+    greatest(s.updated_at, s.refreshed_at at time zone 'utc', s.created_at) as last_active_at,
+    s.user_agent,
+    host(s.ip) as ip,
+    s.id::text = (auth.jwt() ->> 'session_id') as is_current
+  from auth.sessions s
+  where s.user_id = auth.uid()
+  order by last_active_at desc;
+$$;
+
+grant execute on function public.get_my_sessions() to authenticated;
+
+-- End one of the caller's sessions; its refresh tokens go with it
+create or replace function public.revoke_my_session(p_session_id uuid)
+returns boolean
+language plpgsql
+security definer
+set search_path = public, auth
+as $$
+begin
+  delete from auth.sessions
+  where id = p_session_id
+    and user_id = auth.uid();
+
+  return found;
+end;
+$$;
+
+grant execute on function public.revoke_my_session(uuid) to authenticated;
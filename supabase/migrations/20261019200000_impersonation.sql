@@ -0,0 +1,71 @@
+-- "View as" impersonation.
+-- Impersonation only swaps the profile the client renders for; the MASTER's
+-- own session and RLS stay in force. Seller access checks take the viewed
+-- profile explicitly through can_access_seller_as so seller pages follow the
+-- impersonated user's scope.
+
+insert into public.role_permissions (role, capability) values
+  ('MASTER', 'user.impersonate')
+on conflict (role, capability) do nothing;
+
+-- Role-aware seller access for any profile; internal, callers check who may ask
+create or replace function public.can_profile_access_seller(p_profile_id uuid, seller_id_param uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce((
+    select case p.role::text
+      when 'MASTER' then true
+      when 'VIEWER' then true
+      when 'DIVISION_LEAD' then exists (
+        select 1 from public.sellers s
+        where s.id = seller_id_param
+          and p.division is not null
+          and s.division = p.division
+      )
+      when 'SELLER' then p.seller_id is not null and p.seller_id = seller_id_param
+      when 'MANAGER' then exists (
+        select 1
+        from public.seller_managers sm
+        join public.managers m on m.id = sm.manager_id
+        where sm.seller_id = seller_id_param
+          and m.user_id = p.id
+      )
+      else false
+    end
+    from public.profiles p
+    where p.id = p_profile_id
+  ), false);
+$$;
+
+revoke execute on function public.can_profile_access_seller(uuid, uuid) from public, anon, authenticated;
+
+create or replace function public.can_access_seller(seller_id_param uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select public.can_profile_access_seller(auth.uid(), seller_id_param);
+$$;
+
+-- Seller access as another profile - yourself, or anyone with user.impersonate
+create or replace function public.can_access_seller_as(p_profile_id uuid, seller_id_param uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select case
+    when p_profile_id = auth.uid() or public.has_permission('user.impersonate')
+      then public.can_profile_access_seller(p_profile_id, seller_id_param)
+    else false
+  end;
+$$;
+
+grant execute on function public.can_access_seller_as(uuid, uuid) to authenticated;
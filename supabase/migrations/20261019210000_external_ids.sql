@@ -0,0 +1,25 @@
+-- Stable external keys for imports.
+-- external_id holds an ID from the source system (e.g. a CRM account ID).
+-- Importers match rows on it before falling back to names, so renamed
+-- records keep their relationships. Optional, but unique when set.
+
+alter table public.accounts
+  add column if not exists external_id text;
+
+alter table public.sellers
+  add column if not exists external_id text;
+
+alter table public.managers
+  add column if not exists external_id text;
+
+create unique index if not exists accounts_external_id_key
+  on public.accounts (external_id)
+  where external_id is not null;
+
+create unique index if not exists sellers_external_id_key
+  on public.sellers (external_id)
+  where external_id is not null;
+
+create unique index if not exists managers_external_id_key
+  on public.managers (external_id)
+  where external_id is not null;
@@ -0,0 +1,30 @@
+-- Saved column mappings for imports.
+-- A profile records which sheet and header of a non-template spreadsheet feed
+-- each template field, plus value translations (e.g. "Mid-Market" ->
+-- midmarket), so next month's extract maps in one step. Shared by everyone
+-- who can run imports.
+
+create table if not exists public.import_mapping_profiles (
+  id uuid primary key default gen_random_uuid(),
+  name text not null check (length(trim(name)) > 0),
+  import_type text not null check (import_type in ('comprehensive', 'comprehensive_add', 'sellers', 'accounts')),
+  -- { [sheet]: { source_sheet, columns: { field: header }, values: { field: { from: to } } } }
+  mapping jsonb not null default '{}'::jsonb,
+  created_by uuid references public.profiles(id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (name, import_type)
+);
+
+alter table public.import_mapping_profiles enable row level security;
+
+drop policy if exists "Users with import.run can read mapping profiles" on public.import_mapping_profiles;
+create policy "Users with import.run can read mapping profiles"
+  on public.import_mapping_profiles for select
+  using (public.has_permission('import.run'));
+
+drop policy if exists "Users with import.run can manage mapping profiles" on public.import_mapping_profiles;
+create policy "Users with import.run can manage mapping profiles"
+  on public.import_mapping_profiles for all
+  using (public.has_permission('import.run'))
+  with check (public.has_permission('import.run'));
@@ -0,0 +1,378 @@
+-- Server-side imports.
+-- The settings page uploads the file to the private imports bucket and queues
+-- an import job; the Next.js server claims queued jobs one at a time and runs
+-- them with the service-role key, so an import keeps going (and releases the
+-- import lock when it fails) after the browser tab is closed. The job row
+-- carries the progress log and debug metrics the settings page displays.
+
+create table if not exists public.import_jobs (
+  id uuid primary key default gen_random_uuid(),
+  import_type text not null check (import_type in ('comprehensive', 'comprehensive_add', 'sellers', 'accounts')),
+  state text not null default 'queued'
+    check (state in ('queued', 'running', 'succeeded', 'failed', 'cancelled')),
+  file_name text not null,
+  file_size bigint not null,
+  -- Path of the uploaded file in the imports bucket. Kept after the job ends
+  -- for re-download until the retention period is over (file_removed_at)
+  storage_path text not null,
+  -- Near-miss names the admin confirmed in the import preview
+  confirmed_matches jsonb not null default '{}'::jsonb,
+  current_step text,
+  step_number integer not null default 0,
+  total_steps integer not null default 0,
+  -- [{ at, message }] in the order the import logged them
+  logs jsonb not null default '[]'::jsonb,
+  results jsonb,
+  debug_info jsonb,
+  error text,
+  cancel_requested boolean not null default false,
+  created_by uuid references public.profiles(id) on delete set null,
+  created_at timestamptz not null default now(),
+  started_at timestamptz,
+  finished_at timestamptz,
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists import_jobs_state_created_at_idx on public.import_jobs (state, created_at);
+
+alter table public.import_jobs enable row level security;
+
+-- Jobs are written by the server with the service-role key only
+drop policy if exists "Users with import.run can read import jobs" on public.import_jobs;
+create policy "Users with import.run can read import jobs"
+  on public.import_jobs for select
+  using (public.has_permission('import.run'));
+
+insert into storage.buckets (id, name, public)
+values ('imports', 'imports', false)
+on conflict (id) do nothing;
+
+-- Take the oldest queued job, unless one is already running. A running job
+-- that stopped reporting progress belongs to a server that went away.
+create or replace function public.claim_import_job()
+returns public.import_jobs
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_job public.import_jobs;
+begin
+  update public.import_jobs
+  set state = 'failed',
+      error = 'The server stopped while running this import',
+      finished_at = now(),
+      updated_at = now()
+  where state = 'running'
+    and updated_at < now() - interval '10 minutes';
+
+  perform 1 from public.import_jobs where state = 'running';
+  if found then
+    return null;
+  end if;
+
+  update public.import_jobs
+  set state = 'running',
+      started_at = now(),
+      updated_at = now()
+  where id = (
+    select id
+    from public.import_jobs
+    where state = 'queued'
+    order by created_at
+    limit 1
+    for update skip locked
+  )
+  returning * into v_job;
+
+  return v_job;
+end;
+$$;
+
+revoke execute on function public.claim_import_job() from public, anon, authenticated;
+grant execute on function public.claim_import_job() to service_role;
+
+-- MASTER users in the browser, or the server running an import job
+create or replace function public.can_run_import()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(auth.role() = 'service_role', false)
+    or coalesce(public.get_user_role(auth.uid()) = 'MASTER', false);
+$$;
+
+-- The import functions below are unchanged apart from the role check, which
+-- now lets the service role through. Server jobs have no auth.uid(), so the
+-- import lock keeps the user_id acquire_import_lock recorded.
+
+create or replace function public.begin_comprehensive_import(
+  p_file_name text,
+  p_file_size bigint
+)
+returns public.import_status
+language plpgsql
+security definer
+set search_path = public
+set statement_timeout = 0
+as $$
+declare
+  v_status public.import_status;
+  v_table text;
+begin
+  if not public.can_run_import() then
+    raise exception 'Only MASTER users can run imports';
+  end if;
+
+  select * into v_status
+  from public.import_status
+  where id = 'comprehensive_import'
+  for update;
+
+  if found and v_status.state in ('running', 'interrupted') and v_status.backup_taken_at is not null then
+    if v_status.file_name = p_file_name and v_status.file_size = p_file_size then
+      update public.import_status
+      set state = 'running',
+          is_importing = true,
+          user_id = coalesce(auth.uid(), user_id),
+          last_error = null,
+          updated_at = now()
+      where id = 'comprehensive_import'
+      returning * into v_status;
+
+      return v_status;
+    end if;
+
+    raise exception 'An interrupted import of % is waiting. Import the same file again to resume it, or roll it back first.', v_status.file_name;
+  end if;
+
+  foreach v_table in array public.import_backup_tables() loop
+    execute format('drop table if exists import_backup.%I', v_table);
+    execute format('create table import_backup.%I as table public.%I', v_table, v_table);
+  end loop;
+
+  insert into public.import_status (
+    id, is_importing, started_at, user_id, updated_at,
+    state, file_name, file_size, completed_steps, current_step, backup_taken_at, last_error
+  )
+  values (
+    'comprehensive_import', true, now(), auth.uid(), now(),
+    'running', p_file_name, p_file_size, '{}', null, now(), null
+  )
+  on conflict (id) do update
+  set is_importing = excluded.is_importing,
+      started_at = excluded.started_at,
+      user_id = coalesce(excluded.user_id, import_status.user_id),
+      updated_at = excluded.updated_at,
+      state = excluded.state,
+      file_name = excluded.file_name,
+      file_size = excluded.file_size,
+      completed_steps = excluded.completed_steps,
+      current_step = excluded.current_step,
+      backup_taken_at = excluded.backup_taken_at,
+      last_error = excluded.last_error
+  returning * into v_status;
+
+  return v_status;
+end;
+$$;
+
+create or replace function public.record_comprehensive_import_step(
+  p_step text,
+  p_completed boolean default false
+)
+returns public.import_status
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_status public.import_status;
+begin
+  if not public.can_run_import() then
+    raise exception 'Only MASTER users can run imports';
+  end if;
+
+  update public.import_status
+  set current_step = case when p_completed then null else p_step end,
+      completed_steps = case
+        when p_completed and not (p_step = any(completed_steps)) then array_append(completed_steps, p_step)
+        else completed_steps
+      end,
+      updated_at = now()
+  where id = 'comprehensive_import'
+    and state = 'running'
+  returning * into v_status;
+
+  if not found then
+    raise exception 'No comprehensive import is running';
+  end if;
+
+  return v_status;
+end;
+$$;
+
+create or replace function public.finish_comprehensive_import()
+returns public.import_status
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_status public.import_status;
+begin
+  if not public.can_run_import() then
+    raise exception 'Only MASTER users can run imports';
+  end if;
+
+  perform public.drop_import_backup();
+
+  update public.import_status
+  set state = 'completed',
+      is_importing = false,
+      current_step = null,
+      backup_taken_at = null,
+      last_error = null,
+      updated_at = now()
+  where id = 'comprehensive_import'
+  returning * into v_status;
+
+  return v_status;
+end;
+$$;
+
+create or replace function public.interrupt_comprehensive_import(p_error text default null)
+returns public.import_status
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_status public.import_status;
+begin
+  if not public.can_run_import() then
+    raise exception 'Only MASTER users can run imports';
+  end if;
+
+  update public.import_status
+  set state = 'interrupted',
+      is_importing = false,
+      last_error = p_error,
+      updated_at = now()
+  where id = 'comprehensive_import'
+    and state = 'running'
+  returning * into v_status;
+
+  return v_status;
+end;
+$$;
+
+create or replace function public.rollback_comprehensive_import(p_error text default null)
+returns public.import_status
+language plpgsql
+security definer
+set search_path = public
+set statement_timeout = 0
+as $$
+declare
+  v_status public.import_status;
+  v_tables text[] := public.import_backup_tables();
+  v_table text;
+  i integer;
+begin
+  if not public.can_run_import() then
+    raise exception 'Only MASTER users can roll back imports';
+  end if;
+
+  select * into v_status
+  from public.import_status
+  where id = 'comprehensive_import'
+  for update;
+
+  if not found or v_status.backup_taken_at is null then
+    raise exception 'There is no import backup to restore';
+  end if;
+
+  -- Children first so foreign keys never block the delete
+  for i in reverse array_upper(v_tables, 1)..1 loop
+    execute format('delete from public.%I where true', v_tables[i]);
+  end loop;
+
+  foreach v_table in array v_tables loop
+    execute format('insert into public.%I select * from import_backup.%I', v_table, v_table);
+  end loop;
+
+  perform public.drop_import_backup();
+
+  update public.import_status
+  set state = 'rolled_back',
+      is_importing = false,
+      current_step = null,
+      backup_taken_at = null,
+      last_error = coalesce(p_error, last_error),
+      updated_at = now()
+  where id = 'comprehensive_import'
+  returning * into v_status;
+
+  return v_status;
+end;
+$$;
+
+create or replace function public.create_book_snapshot(
+  p_name text,
+  p_reason text default 'manual',
+  p_description text default null
+)
+returns public.book_snapshots
+language plpgsql
+security definer
+set search_path = public
+set statement_timeout = 0
+as $$
+declare
+  v_snapshot public.book_snapshots;
+begin
+  if not public.can_run_import() and public.get_user_role(auth.uid()) is distinct from 'MANAGER' then
+    raise exception 'Only MASTER and MANAGER users can create snapshots';
+  end if;
+
+  if p_reason = 'manual' and public.get_user_role(auth.uid()) is distinct from 'MASTER' then
+    raise exception 'Only MASTER users can create manual snapshots';
+  end if;
+
+  insert into public.book_snapshots (name, description, reason, created_by)
+  values (p_name, p_description, p_reason, auth.uid())
+  returning * into v_snapshot;
+
+  insert into public.book_snapshot_relationships (snapshot_id, account_id, seller_id, status, updated_at)
+  select v_snapshot.id, rm.account_id, rm.seller_id, rm.status, rm.updated_at
+  from public.relationship_maps rm
+  on conflict do nothing;
+
+  insert into public.book_snapshot_accounts (
+    snapshot_id, account_id, account_name, revenue_esg, revenue_gdt, revenue_gvc, revenue_msg_us
+  )
+  select v_snapshot.id, a.id, a.name, ar.revenue_esg, ar.revenue_gdt, ar.revenue_gvc, ar.revenue_msg_us
+  from public.accounts a
+  left join public.account_revenues ar on ar.account_id = a.id;
+
+  insert into public.book_snapshot_sellers (
+    snapshot_id, seller_id, name, division, size, seniority_type,
+    industry_specialty, manager_id, book_finalized, tenure_months
+  )
+  select v_snapshot.id, s.id, s.name, s.division, s.size, s.seniority_type,
+    s.industry_specialty, s.manager_id, s.book_finalized, s.tenure_months
+  from public.sellers s;
+
+  update public.book_snapshots
+  set relationship_count = (select count(*) from public.book_snapshot_relationships where snapshot_id = v_snapshot.id),
+      account_count = (select count(*) from public.book_snapshot_accounts where snapshot_id = v_snapshot.id),
+      seller_count = (select count(*) from public.book_snapshot_sellers where snapshot_id = v_snapshot.id)
+  where id = v_snapshot.id
+  returning * into v_snapshot;
+
+  return v_snapshot;
+end;
+$$;
@@ -0,0 +1,31 @@
+-- MERGE import mode.
+-- A merge updates existing records field by field instead of replacing the
+-- book. imported_status records the status the last import wrote, so a
+-- merge can leave statuses changed in the app since then alone. Rows
+-- created in the app have none and count as changed. Statuses changed
+-- before this migration can't be told apart from imported ones.
+
+alter table public.relationship_maps
+  add column if not exists imported_status public.relationship_status;
+
+update public.relationship_maps
+set imported_status = status
+where imported_status is null;
+
+-- { deleteMissing, policies } chosen for a merge job
+alter table public.import_jobs
+  add column if not exists options jsonb not null default '{}'::jsonb;
+
+alter table public.import_jobs
+  drop constraint if exists import_jobs_import_type_check;
+
+alter table public.import_jobs
+  add constraint import_jobs_import_type_check
+  check (import_type in ('comprehensive', 'comprehensive_add', 'comprehensive_merge', 'sellers', 'accounts'));
+
+alter table public.import_mapping_profiles
+  drop constraint if exists import_mapping_profiles_import_type_check;
+
+alter table public.import_mapping_profiles
+  add constraint import_mapping_profiles_import_type_check
+  check (import_type in ('comprehensive', 'comprehensive_add', 'comprehensive_merge', 'sellers', 'accounts'));
@@ -0,0 +1,21 @@
+-- Import history.
+-- Import jobs double as the record of every import. Uploads now stay in the
+-- imports bucket so the original file can be downloaded again, file_hash
+-- (SHA-256) tells re-uploads of the same file apart, and audit log entries
+-- written while a job runs point back to it.
+
+alter table public.import_jobs
+  add column if not exists file_hash text,
+  -- Template warnings and a row issue summary from validation
+  add column if not exists warnings jsonb not null default '[]'::jsonb,
+  -- [{ step, started_at, finished_at, duration_ms }] of the job's own steps
+  add column if not exists step_timings jsonb not null default '[]'::jsonb;
+
+create index if not exists import_jobs_created_at_idx on public.import_jobs (created_at desc);
+
+alter table public.audit_logs
+  add column if not exists import_job_id uuid references public.import_jobs(id) on delete set null;
+
+create index if not exists audit_logs_import_job_id_idx
+  on public.audit_logs (import_job_id)
+  where import_job_id is not null;
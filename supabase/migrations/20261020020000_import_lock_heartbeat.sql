@@ -0,0 +1,147 @@
+-- Import lock heartbeats.
+-- The import lock (import_status row 'current_import') used to be taken for a
+-- fixed 30 minutes, so a crashed import blocked everyone until it ran out.
+-- The running import now sends a heartbeat with its progress; a lock whose
+-- last heartbeat is more than 2 minutes old is stale and can be taken over.
+-- MASTER users can also force-release a lock from the settings page
+-- (/api/import-lock/release, audited with a reason).
+
+alter table public.import_status
+  add column if not exists heartbeat_at timestamptz,
+  -- Shown in the banner; profiles of other users aren't readable
+  add column if not exists holder_name text,
+  add column if not exists progress_message text,
+  add column if not exists step_number integer,
+  add column if not exists total_steps integer;
+
+-- Everyone signed in sees the import banner
+drop policy if exists "Signed-in users can read import status" on public.import_status;
+create policy "Signed-in users can read import status"
+  on public.import_status for select
+  to authenticated
+  using (true);
+
+create or replace function public.is_import_lock_stale(p_status public.import_status)
+returns boolean
+language sql
+stable
+as $$
+  select coalesce(p_status.heartbeat_at, p_status.started_at) < now() - interval '2 minutes';
+$$;
+
+drop function if exists public.acquire_import_lock(uuid, integer);
+drop function if exists public.acquire_import_lock(text, integer);
+
+-- duration_minutes is ignored: a lock lasts as long as its heartbeats
+create or replace function public.acquire_import_lock(user_id text, duration_minutes integer default null)
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := nullif(acquire_import_lock.user_id, '')::uuid;
+  v_status public.import_status;
+begin
+  if not public.can_run_import() then
+    raise exception 'Only MASTER users can run imports';
+  end if;
+
+  select * into v_status
+  from public.import_status
+  where id = 'current_import'
+  for update;
+
+  if found
+    and v_status.is_importing
+    and v_status.user_id is distinct from v_user_id
+    and not public.is_import_lock_stale(v_status) then
+    return false;
+  end if;
+
+  insert into public.import_status (
+    id, is_importing, started_at, user_id, updated_at,
+    heartbeat_at, holder_name, progress_message, step_number, total_steps
+  )
+  values (
+    'current_import', true, now(), v_user_id, now(),
+    now(), (select name from public.profiles where id = v_user_id), null, null, null
+  )
+  on conflict (id) do update
+  set is_importing = true,
+      started_at = excluded.started_at,
+      user_id = excluded.user_id,
+      updated_at = excluded.updated_at,
+      heartbeat_at = excluded.heartbeat_at,
+      holder_name = excluded.holder_name,
+      progress_message = null,
+      step_number = null,
+      total_steps = null;
+
+  return true;
+end;
+$$;
+
+-- Keeps the lock alive and publishes the import's progress. False when the
+-- lock is no longer held by this user (released or taken over).
+create or replace function public.heartbeat_import_lock(
+  user_id text,
+  p_progress_message text default null,
+  p_step_number integer default null,
+  p_total_steps integer default null
+)
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not public.can_run_import() then
+    raise exception 'Only MASTER users can run imports';
+  end if;
+
+  update public.import_status
+  set heartbeat_at = now(),
+      progress_message = coalesce(p_progress_message, progress_message),
+      step_number = coalesce(p_step_number, step_number),
+      total_steps = coalesce(p_total_steps, total_steps),
+      updated_at = now()
+  where id = 'current_import'
+    and is_importing
+    and import_status.user_id is not distinct from nullif(heartbeat_import_lock.user_id, '')::uuid;
+
+  return found;
+end;
+$$;
+
+drop function if exists public.release_import_lock(uuid);
+drop function if exists public.release_import_lock(text);
+
+-- Only releases the caller's own lock, so an import whose lock was
+-- force-released can't release the next one
+create or replace function public.release_import_lock(user_id text)
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not public.can_run_import() then
+    raise exception 'Only MASTER users can run imports';
+  end if;
+
+  update public.import_status
+  set is_importing = false,
+      progress_message = null,
+      updated_at = now()
+  where id = 'current_import'
+    and is_importing
+    and import_status.user_id is not distinct from nullif(release_import_lock.user_id, '')::uuid;
+
+  return found;
+end;
+$$;
+
+grant execute on function public.acquire_import_lock(text, integer) to authenticated, service_role;
+grant execute on function public.heartbeat_import_lock(text, text, integer, integer) to authenticated, service_role;
+grant execute on function public.release_import_lock(text) to authenticated, service_role;
@@ -0,0 +1,248 @@
+-- Restore book snapshots by natural keys.
+-- A replace import recreates accounts, sellers and managers with new ids, so
+-- snapshot ids no longer join to live rows. Snapshots now also keep each
+-- account's, seller's and manager's external_id and name; restores resolve
+-- snapshot rows to live rows by external_id first and then by name (the same
+-- order importers match in), and refuse to run while any row is unresolved.
+
+alter table public.book_snapshot_accounts
+  add column if not exists external_id text;
+
+alter table public.book_snapshot_sellers
+  add column if not exists external_id text,
+  add column if not exists manager_external_id text,
+  add column if not exists manager_name text;
+
+-- Snapshots taken before this migration: fill in what still resolves by id
+update public.book_snapshot_accounts sa
+set external_id = a.external_id
+from public.accounts a
+where a.id = sa.account_id
+  and sa.external_id is null;
+
+update public.book_snapshot_sellers ss
+set external_id = s.external_id
+from public.sellers s
+where s.id = ss.seller_id
+  and ss.external_id is null;
+
+update public.book_snapshot_sellers ss
+set manager_external_id = m.external_id,
+    manager_name = m.name
+from public.managers m
+where m.id = ss.manager_id
+  and ss.manager_name is null;
+
+create or replace function public.create_book_snapshot(
+  p_name text,
+  p_reason text default 'manual',
+  p_description text default null
+)
+returns public.book_snapshots
+language plpgsql
+security definer
+set search_path = public
+set statement_timeout = 0
+as $$
+declare
+  v_snapshot public.book_snapshots;
+begin
+  if not public.can_run_import() and public.get_user_role(auth.uid()) is distinct from 'MANAGER' then
+    raise exception 'Only MASTER and MANAGER users can create snapshots';
+  end if;
+
+  if p_reason = 'manual' and public.get_user_role(auth.uid()) is distinct from 'MASTER' then
+    raise exception 'Only MASTER users can create manual snapshots';
+  end if;
+
+  insert into public.book_snapshots (name, description, reason, created_by)
+  values (p_name, p_description, p_reason, auth.uid())
+  returning * into v_snapshot;
+
+  insert into public.book_snapshot_relationships (snapshot_id, account_id, seller_id, status, updated_at)
+  select v_snapshot.id, rm.account_id, rm.seller_id, rm.status, rm.updated_at
+  from public.relationship_maps rm
+  on conflict do nothing;
+
+  insert into public.book_snapshot_accounts (
+    snapshot_id, account_id, account_name, external_id, revenue_esg, revenue_gdt, revenue_gvc, revenue_msg_us
+  )
+  select v_snapshot.id, a.id, a.name, a.external_id, ar.revenue_esg, ar.revenue_gdt, ar.revenue_gvc, ar.revenue_msg_us
+  from public.accounts a
+  left join public.account_revenues ar on ar.account_id = a.id;
+
+  insert into public.book_snapshot_sellers (
+    snapshot_id, seller_id, name, external_id, division, size, seniority_type,
+    industry_specialty, manager_id, manager_external_id, manager_name, book_finalized, tenure_months
+  )
+  select v_snapshot.id, s.id, s.name, s.external_id, s.division, s.size, s.seniority_type,
+    s.industry_specialty, s.manager_id, m.external_id, m.name, s.book_finalized, s.tenure_months
+  from public.sellers s
+  left join public.managers m on m.id = s.manager_id;
+
+  update public.book_snapshots
+  set relationship_count = (select count(*) from public.book_snapshot_relationships where snapshot_id = v_snapshot.id),
+      account_count = (select count(*) from public.book_snapshot_accounts where snapshot_id = v_snapshot.id),
+      seller_count = (select count(*) from public.book_snapshot_sellers where snapshot_id = v_snapshot.id)
+  where id = v_snapshot.id
+  returning * into v_snapshot;
+
+  return v_snapshot;
+end;
+$$;
+
+-- Restore relationships, revenues and seller attributes from a snapshot.
+-- Every snapshot account and seller must resolve to exactly one live row;
+-- otherwise nothing is changed and the unresolved names are reported.
+create or replace function public.restore_book_snapshot(p_snapshot_id uuid)
+returns public.book_snapshots
+language plpgsql
+security definer
+set search_path = public
+set statement_timeout = 0
+as $$
+declare
+  v_snapshot public.book_snapshots;
+  v_unresolved integer;
+  v_examples text;
+begin
+  if public.get_user_role(auth.uid()) <> 'MASTER' then
+    raise exception 'Only MASTER users can restore snapshots';
+  end if;
+
+  select * into v_snapshot
+  from public.book_snapshots
+  where id = p_snapshot_id;
+
+  if not found then
+    raise exception 'Snapshot % not found', p_snapshot_id;
+  end if;
+
+  drop table if exists pg_temp.snapshot_account_ids;
+  drop table if exists pg_temp.snapshot_seller_ids;
+  drop table if exists pg_temp.snapshot_manager_ids;
+
+  -- Snapshot id -> live id, by external_id and then by a unique name
+  create temporary table snapshot_account_ids on commit drop as
+  with live_names as (
+    select lower(trim(name)) as name_key, (array_agg(id))[1] as id
+    from public.accounts
+    group by lower(trim(name))
+    having count(*) = 1
+  )
+  select sa.account_id as snapshot_id, sa.account_name as name,
+    coalesce(by_external.id, by_name.id) as live_id
+  from public.book_snapshot_accounts sa
+  left join public.accounts by_external
+    on sa.external_id is not null and by_external.external_id = sa.external_id
+  left join live_names by_name on by_name.name_key = lower(trim(sa.account_name))
+  where sa.snapshot_id = p_snapshot_id;
+
+  create temporary table snapshot_seller_ids on commit drop as
+  with live_names as (
+    select lower(trim(name)) as name_key, (array_agg(id))[1] as id
+    from public.sellers
+    group by lower(trim(name))
+    having count(*) = 1
+  )
+  select ss.seller_id as snapshot_id, ss.name,
+    coalesce(by_external.id, by_name.id) as live_id
+  from public.book_snapshot_sellers ss
+  left join public.sellers by_external
+    on ss.external_id is not null and by_external.external_id = ss.external_id
+  left join live_names by_name on by_name.name_key = lower(trim(ss.name))
+  where ss.snapshot_id = p_snapshot_id;
+
+  -- Two snapshot rows resolving to one live row is as unresolved as none
+  select count(*), string_agg(name, ', ' order by name) filter (where rn <= 5)
+  into v_unresolved, v_examples
+  from (
+    select name, row_number() over (order by name) as rn
+    from (
+      select name from pg_temp.snapshot_account_ids
+      where live_id is null
+        or live_id in (select live_id from pg_temp.snapshot_account_ids group by live_id having count(*) > 1)
+      union all
+      select name from pg_temp.snapshot_seller_ids
+      where live_id is null
+        or live_id in (select live_id from pg_temp.snapshot_seller_ids group by live_id having count(*) > 1)
+    ) unresolved
+  ) numbered;
+
+  if v_unresolved > 0 then
+    raise exception '% accounts and sellers in "%" no longer match a single live record (%). Nothing was restored.',
+      v_unresolved, v_snapshot.name, v_examples;
+  end if;
+
+  -- A seller's manager is kept as it is when it no longer resolves
+  create temporary table snapshot_manager_ids on commit drop as
+  with live_names as (
+    select lower(trim(name)) as name_key, (array_agg(id))[1] as id
+    from public.managers
+    group by lower(trim(name))
+    having count(*) = 1
+  )
+  select distinct ss.manager_id as snapshot_id,
+    coalesce(by_external.id, by_name.id, by_id.id) as live_id
+  from public.book_snapshot_sellers ss
+  left join public.managers by_external
+    on ss.manager_external_id is not null and by_external.external_id = ss.manager_external_id
+  left join live_names by_name on by_name.name_key = lower(trim(ss.manager_name))
+  left join public.managers by_id on by_id.id = ss.manager_id
+  where ss.snapshot_id = p_snapshot_id
+    and ss.manager_id is not null;
+
+  -- Keep the current state so the restore itself can be undone
+  perform public.create_book_snapshot(
+    format('Before restoring "%s"', v_snapshot.name),
+    'restore',
+    null
+  );
+
+  delete from public.relationship_maps where true;
+
+  insert into public.relationship_maps (account_id, seller_id, status, updated_at)
+  select ai.live_id, si.live_id, sr.status, coalesce(sr.updated_at, now())
+  from public.book_snapshot_relationships sr
+  join pg_temp.snapshot_account_ids ai on ai.snapshot_id = sr.account_id
+  join pg_temp.snapshot_seller_ids si on si.snapshot_id = sr.seller_id
+  where sr.snapshot_id = p_snapshot_id;
+
+  update public.account_revenues ar
+  set revenue_esg = sa.revenue_esg,
+      revenue_gdt = sa.revenue_gdt,
+      revenue_gvc = sa.revenue_gvc,
+      revenue_msg_us = sa.revenue_msg_us
+  from public.book_snapshot_accounts sa
+  join pg_temp.snapshot_account_ids ai on ai.snapshot_id = sa.account_id
+  where sa.snapshot_id = p_snapshot_id
+    and ai.live_id = ar.account_id;
+
+  insert into public.account_revenues (account_id, revenue_esg, revenue_gdt, revenue_gvc, revenue_msg_us)
+  select ai.live_id, sa.revenue_esg, sa.revenue_gdt, sa.revenue_gvc, sa.revenue_msg_us
+  from public.book_snapshot_accounts sa
+  join pg_temp.snapshot_account_ids ai on ai.snapshot_id = sa.account_id
+  where sa.snapshot_id = p_snapshot_id
+    and not exists (select 1 from public.account_revenues ar where ar.account_id = ai.live_id)
+    and coalesce(sa.revenue_esg, sa.revenue_gdt, sa.revenue_gvc, sa.revenue_msg_us) is not null;
+
+  update public.sellers s
+  set division = coalesce(ss.division, s.division),
+      size = coalesce(ss.size, s.size),
+      seniority_type = ss.seniority_type,
+      industry_specialty = ss.industry_specialty,
+      manager_id = case
+        when ss.manager_id is null then null
+        else coalesce(mi.live_id, s.manager_id)
+      end,
+      book_finalized = ss.book_finalized,
+      tenure_months = ss.tenure_months
+  from public.book_snapshot_sellers ss
+  join pg_temp.snapshot_seller_ids si on si.snapshot_id = ss.seller_id
+  left join pg_temp.snapshot_manager_ids mi on mi.snapshot_id = ss.manager_id
+  where ss.snapshot_id = p_snapshot_id
+    and si.live_id = s.id;
+
+  return v_snapshot;
+end;
+$$;
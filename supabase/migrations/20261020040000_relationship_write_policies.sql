@@ -0,0 +1,28 @@
+-- Direct relationship_maps writes need relationship.assign.
+-- Users who can only request changes (MANAGER, DIVISION_LEAD) could still
+-- write relationship_maps with their own session under the older permissive
+-- policies. These restrictive policies are combined with those, so every
+-- other change goes through approve_account_change_request, which runs as
+-- security definer. Server imports use the service role and bypass RLS.
+
+drop policy if exists "Only relationship.assign can insert relationships" on public.relationship_maps;
+create policy "Only relationship.assign can insert relationships"
+  on public.relationship_maps
+  as restrictive
+  for insert
+  with check (public.has_permission('relationship.assign'));
+
+drop policy if exists "Only relationship.assign can update relationships" on public.relationship_maps;
+create policy "Only relationship.assign can update relationships"
+  on public.relationship_maps
+  as restrictive
+  for update
+  using (public.has_permission('relationship.assign'))
+  with check (public.has_permission('relationship.assign'));
+
+drop policy if exists "Only relationship.assign can delete relationships" on public.relationship_maps;
+create policy "Only relationship.assign can delete relationships"
+  on public.relationship_maps
+  as restrictive
+  for delete
+  using (public.has_permission('relationship.assign'));
@@ -0,0 +1,122 @@
+-- Change requests on capabilities.
+-- Submitting a request needs relationship.request and a seller inside the
+-- user's scope (can_access_seller), so DIVISION_LEAD users can request
+-- changes for their division as they can through the API. Reviewing needs
+-- request.review instead of the MASTER role. Direct relationship_maps writes
+-- are limited to relationship.assign (20261020040000).
+
+drop policy if exists "Masters can read all requests" on public.requests;
+drop policy if exists "Reviewers can read all requests" on public.requests;
+create policy "Reviewers can read all requests"
+  on public.requests for select
+  using (public.has_permission('request.review'));
+
+drop policy if exists "Managers can request changes for their sellers" on public.requests;
+drop policy if exists "Users with relationship.request can request changes" on public.requests;
+create policy "Users with relationship.request can request changes"
+  on public.requests for insert
+  with check (
+    requested_by = auth.uid()
+    and status = 'pending'
+    and public.has_permission('relationship.request')
+    and public.can_access_seller(seller_id)
+  );
+
+create or replace function public.approve_account_change_request(
+  p_request_id uuid,
+  p_review_note text default null
+)
+returns public.requests
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_request public.requests;
+begin
+  if not public.has_permission('request.review') then
+    raise exception 'Only users with request.review can approve requests';
+  end if;
+
+  select * into v_request
+  from public.requests
+  where id = p_request_id
+  for update;
+
+  if not found then
+    raise exception 'Request % not found', p_request_id;
+  end if;
+
+  if v_request.status <> 'pending' then
+    raise exception 'Request has already been %', v_request.status;
+  end if;
+
+  if v_request.type = 'unassign' then
+    if exists (
+      select 1 from public.original_relationships
+      where account_id = v_request.account_id
+        and seller_id = v_request.seller_id
+    ) then
+      raise exception 'Original accounts cannot be unassigned';
+    end if;
+
+    update public.relationship_maps
+    set status = 'available', updated_at = now()
+    where account_id = v_request.account_id
+      and seller_id = v_request.seller_id;
+  else
+    update public.relationship_maps
+    set status = v_request.requested_status, updated_at = now()
+    where account_id = v_request.account_id
+      and seller_id = v_request.seller_id;
+
+    if not found then
+      insert into public.relationship_maps (account_id, seller_id, status, updated_at)
+      values (v_request.account_id, v_request.seller_id, v_request.requested_status, now());
+    end if;
+  end if;
+
+  update public.requests
+  set status = 'approved',
+      reviewed_by = auth.uid(),
+      review_note = p_review_note,
+      reviewed_at = now()
+  where id = p_request_id
+  returning * into v_request;
+
+  return v_request;
+end;
+$$;
+
+create or replace function public.reject_account_change_request(
+  p_request_id uuid,
+  p_review_note text default null
+)
+returns public.requests
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_request public.requests;
+begin
+  if not public.has_permission('request.review') then
+    raise exception 'Only users with request.review can reject requests';
+  end if;
+
+  update public.requests
+  set status = 'rejected',
+      reviewed_by = auth.uid(),
+      review_note = p_review_note,
+      reviewed_at = now()
+  where id = p_request_id
+    and status = 'pending'
+  returning * into v_request;
+
+  if not found then
+    raise exception 'Request % is not pending', p_request_id;
+  end if;
+
+  return v_request;
+end;
+$$;
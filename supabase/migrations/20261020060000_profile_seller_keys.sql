@@ -0,0 +1,72 @@
+-- Keep SELLER users linked to their seller across replace imports.
+-- A replace import deletes and recreates sellers, which sets
+-- profiles.seller_id to null. Profiles now also keep the linked seller's
+-- external_id and name, and a seller inserted with the same external_id (or,
+-- without one, the same name) is linked back. This also covers rolling an
+-- import back, which reinserts the sellers from the backup.
+
+alter table public.profiles
+  add column if not exists seller_external_id text,
+  add column if not exists seller_name text;
+
+update public.profiles p
+set seller_external_id = s.external_id,
+    seller_name = s.name
+from public.sellers s
+where s.id = p.seller_id;
+
+-- Record the seller's keys whenever a profile is linked. Clearing the link
+-- clears them too, unless the seller itself was deleted (on delete set null).
+create or replace function public.sync_profile_seller_keys()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.seller_id is not null then
+    select s.external_id, s.name
+    into new.seller_external_id, new.seller_name
+    from public.sellers s
+    where s.id = new.seller_id;
+  elsif tg_op = 'INSERT'
+    or exists (select 1 from public.sellers s where s.id = old.seller_id) then
+    new.seller_external_id := null;
+    new.seller_name := null;
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists sync_profile_seller_keys on public.profiles;
+create trigger sync_profile_seller_keys
+  before insert or update of seller_id on public.profiles
+  for each row
+  execute function public.sync_profile_seller_keys();
+
+create or replace function public.relink_profile_sellers()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.profiles p
+  set seller_id = new.id
+  where p.seller_id is null
+    and p.seller_name is not null
+    and (
+      (p.seller_external_id is not null and p.seller_external_id = new.external_id)
+      or (p.seller_external_id is null and lower(trim(p.seller_name)) = lower(trim(new.name)))
+    );
+
+  return new;
+end;
+$$;
+
+drop trigger if exists relink_profile_sellers on public.sellers;
+create trigger relink_profile_sellers
+  after insert on public.sellers
+  for each row
+  execute function public.relink_profile_sellers();
@@ -0,0 +1,261 @@
+-- Scenario changes survive imports, and promotion checks for conflicts.
+--
+-- scenario_changes cascaded on account and seller deletes, so every replace
+-- import (or rollback) emptied all scenarios. The foreign keys are dropped;
+-- each change keeps its account's and seller's external_id and name, and a
+-- recreated account or seller with the same external_id (or, without one,
+-- the same name) takes over the change.
+--
+-- base_status is the live status the change was made against. Promotion now
+-- refuses while a live relationship has changed since (a conflict), instead
+-- of overwriting it. Changes whose account or seller no longer exists are
+-- reported and skipped.
+
+alter table public.scenario_changes
+  drop constraint if exists scenario_changes_account_id_fkey,
+  drop constraint if exists scenario_changes_seller_id_fkey;
+
+alter table public.scenario_changes
+  add column if not exists account_external_id text,
+  add column if not exists account_name text,
+  add column if not exists seller_external_id text,
+  add column if not exists seller_name text;
+
+update public.scenario_changes sc
+set account_external_id = a.external_id,
+    account_name = a.name
+from public.accounts a
+where a.id = sc.account_id;
+
+update public.scenario_changes sc
+set seller_external_id = s.external_id,
+    seller_name = s.name
+from public.sellers s
+where s.id = sc.seller_id;
+
+-- Keys of the account and seller a change points at, kept while they exist
+create or replace function public.sync_scenario_change_keys()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_external_id text;
+  v_name text;
+begin
+  select a.external_id, a.name into v_external_id, v_name
+  from public.accounts a
+  where a.id = new.account_id;
+  if found then
+    new.account_external_id := v_external_id;
+    new.account_name := v_name;
+  end if;
+
+  select s.external_id, s.name into v_external_id, v_name
+  from public.sellers s
+  where s.id = new.seller_id;
+  if found then
+    new.seller_external_id := v_external_id;
+    new.seller_name := v_name;
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists sync_scenario_change_keys on public.scenario_changes;
+create trigger sync_scenario_change_keys
+  before insert or update on public.scenario_changes
+  for each row
+  execute function public.sync_scenario_change_keys();
+
+create or replace function public.relink_scenario_accounts()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.scenario_changes sc
+  set account_id = inserted.id
+  from inserted
+  where sc.account_name is not null
+    and not exists (select 1 from public.accounts a where a.id = sc.account_id)
+    and (
+      (sc.account_external_id is not null and sc.account_external_id = inserted.external_id)
+      or (sc.account_external_id is null and lower(trim(sc.account_name)) = lower(trim(inserted.name)))
+    )
+    and not exists (
+      select 1 from public.scenario_changes taken
+      where taken.scenario_id = sc.scenario_id
+        and taken.account_id = inserted.id
+        and taken.seller_id = sc.seller_id
+    );
+
+  return null;
+end;
+$$;
+
+drop trigger if exists relink_scenario_accounts on public.accounts;
+create trigger relink_scenario_accounts
+  after insert on public.accounts
+  referencing new table as inserted
+  for each statement
+  execute function public.relink_scenario_accounts();
+
+create or replace function public.relink_scenario_sellers()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.scenario_changes sc
+  set seller_id = inserted.id
+  from inserted
+  where sc.seller_name is not null
+    and not exists (select 1 from public.sellers s where s.id = sc.seller_id)
+    and (
+      (sc.seller_external_id is not null and sc.seller_external_id = inserted.external_id)
+      or (sc.seller_external_id is null and lower(trim(sc.seller_name)) = lower(trim(inserted.name)))
+    )
+    and not exists (
+      select 1 from public.scenario_changes taken
+      where taken.scenario_id = sc.scenario_id
+        and taken.account_id = sc.account_id
+        and taken.seller_id = inserted.id
+    );
+
+  return null;
+end;
+$$;
+
+drop trigger if exists relink_scenario_sellers on public.sellers;
+create trigger relink_scenario_sellers
+  after insert on public.sellers
+  referencing new table as inserted
+  for each statement
+  execute function public.relink_scenario_sellers();
+
+-- Changes that can't be promoted as made: the live status moved away from
+-- base_status (unless it already matches the scenario), or the account or
+-- seller no longer exists
+create or replace function public.get_scenario_conflicts(p_scenario_id uuid)
+returns table (
+  account_id uuid,
+  seller_id uuid,
+  account_name text,
+  seller_name text,
+  status public.relationship_status,
+  base_status public.relationship_status,
+  live_status public.relationship_status,
+  missing boolean
+)
+language sql
+stable
+set search_path = public
+as $$
+  select sc.account_id, sc.seller_id, sc.account_name, sc.seller_name,
+    sc.status, sc.base_status, rm.status,
+    a.id is null or s.id is null
+  from public.scenario_changes sc
+  left join public.accounts a on a.id = sc.account_id
+  left join public.sellers s on s.id = sc.seller_id
+  left join public.relationship_maps rm
+    on rm.account_id = sc.account_id and rm.seller_id = sc.seller_id
+  where sc.scenario_id = p_scenario_id
+    and (
+      a.id is null
+      or s.id is null
+      or (rm.status is distinct from sc.base_status and rm.status is distinct from sc.status)
+    )
+  order by sc.account_name, sc.seller_name;
+$$;
+
+grant execute on function public.get_scenario_conflicts(uuid) to authenticated;
+
+create or replace function public.promote_scenario(p_scenario_id uuid)
+returns public.scenarios
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_scenario public.scenarios;
+  v_conflicts integer;
+begin
+  if public.get_user_role(auth.uid()) <> 'MASTER' then
+    raise exception 'Only MASTER users can promote scenarios';
+  end if;
+
+  select * into v_scenario
+  from public.scenarios
+  where id = p_scenario_id
+  for update;
+
+  if not found then
+    raise exception 'Scenario % not found', p_scenario_id;
+  end if;
+
+  if v_scenario.status <> 'draft' then
+    raise exception 'Scenario has already been promoted';
+  end if;
+
+  select count(*) into v_conflicts
+  from public.get_scenario_conflicts(p_scenario_id)
+  where not missing;
+
+  if v_conflicts > 0 then
+    raise exception '% changes in this scenario conflict with live assignments changed since they were made. Re-apply them in the scenario before promoting.', v_conflicts;
+  end if;
+
+  if exists (
+    select 1
+    from public.scenario_changes sc
+    join public.original_relationships o
+      on o.account_id = sc.account_id and o.seller_id = sc.seller_id
+    where sc.scenario_id = p_scenario_id
+      and sc.status = 'available'
+  ) then
+    raise exception 'Scenario unassigns original accounts, which cannot be unassigned';
+  end if;
+
+  perform public.create_book_snapshot(
+    format('Before promoting scenario "%s"', v_scenario.name),
+    'scenario',
+    null
+  );
+
+  update public.relationship_maps rm
+  set status = sc.status, updated_at = now()
+  from public.scenario_changes sc
+  where sc.scenario_id = p_scenario_id
+    and rm.account_id = sc.account_id
+    and rm.seller_id = sc.seller_id;
+
+  -- Changes for deleted accounts or sellers have nothing to apply to
+  insert into public.relationship_maps (account_id, seller_id, status, updated_at)
+  select sc.account_id, sc.seller_id, sc.status, now()
+  from public.scenario_changes sc
+  join public.accounts a on a.id = sc.account_id
+  join public.sellers s on s.id = sc.seller_id
+  where sc.scenario_id = p_scenario_id
+    and sc.status <> 'available'
+    and not exists (
+      select 1 from public.relationship_maps rm
+      where rm.account_id = sc.account_id
+        and rm.seller_id = sc.seller_id
+    );
+
+  update public.scenarios
+  set status = 'promoted',
+      promoted_by = auth.uid(),
+      promoted_at = now(),
+      updated_at = now()
+  where id = p_scenario_id
+  returning * into v_scenario;
+
+  return v_scenario;
+end;
+$$;
@@ -0,0 +1,12 @@
+-- Import upload retention.
+-- Uploads stay in the imports bucket for re-download from the import
+-- history, but not forever: the server removes the file of a job that
+-- finished more than 90 days ago (IMPORT_FILE_RETENTION_DAYS in
+-- src/lib/import-jobs.ts) and records when. The job row itself is kept.
+
+alter table public.import_jobs
+  add column if not exists file_removed_at timestamptz;
+
+create index if not exists import_jobs_file_retention_idx
+  on public.import_jobs (finished_at)
+  where file_removed_at is null;
@@ -0,0 +1,225 @@
+-- Atomic account moves for rebalancing.
+-- Moving an account takes two relationship changes: the receiving seller
+-- keeps it and the donor releases it. Applied directly they now run in one
+-- transaction (move_account_relationship); as requests they are filed
+-- together with a shared pair_id (create_move_requests), and approving or
+-- rejecting either request decides both.
+
+alter table public.requests
+  add column if not exists pair_id uuid;
+
+create index if not exists requests_pair_id_idx
+  on public.requests (pair_id)
+  where pair_id is not null;
+
+create or replace function public.move_account_relationship(
+  p_account_id uuid,
+  p_from_seller_id uuid,
+  p_to_seller_id uuid,
+  p_status public.relationship_status
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not public.has_permission('relationship.assign') then
+    raise exception 'Only users with relationship.assign can move accounts';
+  end if;
+
+  if p_from_seller_id is not null and exists (
+    select 1 from public.original_relationships
+    where account_id = p_account_id
+      and seller_id = p_from_seller_id
+  ) then
+    raise exception 'Original accounts cannot be unassigned';
+  end if;
+
+  update public.relationship_maps
+  set status = p_status, updated_at = now()
+  where account_id = p_account_id
+    and seller_id = p_to_seller_id;
+
+  if not found then
+    insert into public.relationship_maps (account_id, seller_id, status, updated_at)
+    values (p_account_id, p_to_seller_id, p_status, now());
+  end if;
+
+  if p_from_seller_id is not null then
+    update public.relationship_maps
+    set status = 'available', updated_at = now()
+    where account_id = p_account_id
+      and seller_id = p_from_seller_id;
+  end if;
+end;
+$$;
+
+grant execute on function public.move_account_relationship(uuid, uuid, uuid, public.relationship_status) to authenticated;
+
+-- Runs as the caller, so the requests insert policy checks both requests
+create or replace function public.create_move_requests(
+  p_account_id uuid,
+  p_from_seller_id uuid,
+  p_to_seller_id uuid,
+  p_status public.relationship_status,
+  p_justification text
+)
+returns setof public.requests
+language sql
+set search_path = public
+as $$
+  with pair as (
+    select gen_random_uuid() as id
+  )
+  insert into public.requests (
+    type, status, account_id, seller_id, previous_status, requested_status,
+    justification, requested_by, pair_id
+  )
+  select
+    case
+      when moves.requested_status = 'available' then 'unassign'::public.request_type
+      when moves.requested_status in ('must_keep', 'pinned') then 'pin'::public.request_type
+      else 'assign'::public.request_type
+    end,
+    'pending'::public.request_status,
+    p_account_id,
+    moves.seller_id,
+    rm.status,
+    moves.requested_status,
+    trim(p_justification),
+    auth.uid(),
+    pair.id
+  from (
+    values (p_to_seller_id, p_status), (p_from_seller_id, 'available'::public.relationship_status)
+  ) as moves (seller_id, requested_status)
+  cross join pair
+  left join public.relationship_maps rm
+    on rm.account_id = p_account_id and rm.seller_id = moves.seller_id
+  where moves.seller_id is not null
+  returning *;
+$$;
+
+grant execute on function public.create_move_requests(uuid, uuid, uuid, public.relationship_status, text) to authenticated;
+
+create or replace function public.approve_account_change_request(
+  p_request_id uuid,
+  p_review_note text default null
+)
+returns public.requests
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_request public.requests;
+  v_change public.requests;
+begin
+  if not public.has_permission('request.review') then
+    raise exception 'Only users with request.review can approve requests';
+  end if;
+
+  select * into v_request
+  from public.requests
+  where id = p_request_id
+  for update;
+
+  if not found then
+    raise exception 'Request % not found', p_request_id;
+  end if;
+
+  if v_request.status <> 'pending' then
+    raise exception 'Request has already been %', v_request.status;
+  end if;
+
+  -- The request, or every request of its move
+  for v_change in
+    select *
+    from public.requests
+    where status = 'pending'
+      and (id = p_request_id or (v_request.pair_id is not null and pair_id = v_request.pair_id))
+    for update
+  loop
+    if v_change.type = 'unassign' then
+      if exists (
+        select 1 from public.original_relationships
+        where account_id = v_change.account_id
+          and seller_id = v_change.seller_id
+      ) then
+        raise exception 'Original accounts cannot be unassigned';
+      end if;
+
+      update public.relationship_maps
+      set status = 'available', updated_at = now()
+      where account_id = v_change.account_id
+        and seller_id = v_change.seller_id;
+    else
+      update public.relationship_maps
+      set status = v_change.requested_status, updated_at = now()
+      where account_id = v_change.account_id
+        and seller_id = v_change.seller_id;
+
+      if not found then
+        insert into public.relationship_maps (account_id, seller_id, status, updated_at)
+        values (v_change.account_id, v_change.seller_id, v_change.requested_status, now());
+      end if;
+    end if;
+  end loop;
+
+  update public.requests
+  set status = 'approved',
+      reviewed_by = auth.uid(),
+      review_note = p_review_note,
+      reviewed_at = now()
+  where status = 'pending'
+    and (id = p_request_id or (v_request.pair_id is not null and pair_id = v_request.pair_id));
+
+  select * into v_request
+  from public.requests
+  where id = p_request_id;
+
+  return v_request;
+end;
+$$;
+
+create or replace function public.reject_account_change_request(
+  p_request_id uuid,
+  p_review_note text default null
+)
+returns public.requests
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_request public.requests;
+begin
+  if not public.has_permission('request.review') then
+    raise exception 'Only users with request.review can reject requests';
+  end if;
+
+  select * into v_request
+  from public.requests
+  where id = p_request_id
+    and status = 'pending'
+  for update;
+
+  if not found then
+    raise exception 'Request % is not pending', p_request_id;
+  end if;
+
+  update public.requests
+  set status = 'rejected',
+      reviewed_by = auth.uid(),
+      review_note = p_review_note,
+      reviewed_at = now()
+  where status = 'pending'
+    and (id = p_request_id or (v_request.pair_id is not null and pair_id = v_request.pair_id));
+
+  select * into v_request
+  from public.requests
+  where id = p_request_id;
+
+  return v_request;
+end;
+$$;
@@ -0,0 +1,84 @@
+-- Resume interrupted replace imports by content hash.
+-- Matching on file name and size let a different file with the same name
+-- and size resume someone else's half-finished import. The import now passes
+-- the SHA-256 of the file, and only the same content resumes.
+
+alter table public.import_status
+  add column if not exists file_hash text;
+
+drop function if exists public.begin_comprehensive_import(text, bigint);
+
+create or replace function public.begin_comprehensive_import(
+  p_file_name text,
+  p_file_size bigint,
+  p_file_hash text
+)
+returns public.import_status
+language plpgsql
+security definer
+set search_path = public
+set statement_timeout = 0
+as $$
+declare
+  v_status public.import_status;
+  v_table text;
+begin
+  if not public.can_run_import() then
+    raise exception 'Only MASTER users can run imports';
+  end if;
+
+  select * into v_status
+  from public.import_status
+  where id = 'comprehensive_import'
+  for update;
+
+  if found and v_status.state in ('running', 'interrupted') and v_status.backup_taken_at is not null then
+    if v_status.file_hash is not null and v_status.file_hash = p_file_hash then
+      update public.import_status
+      set state = 'running',
+          is_importing = true,
+          user_id = coalesce(auth.uid(), user_id),
+          last_error = null,
+          updated_at = now()
+      where id = 'comprehensive_import'
+      returning * into v_status;
+
+      return v_status;
+    end if;
+
+    raise exception 'An interrupted import of % is waiting. Import the same file again to resume it, or roll it back first.', v_status.file_name;
+  end if;
+
+  foreach v_table in array public.import_backup_tables() loop
+    execute format('drop table if exists import_backup.%I', v_table);
+    execute format('create table import_backup.%I as table public.%I', v_table, v_table);
+  end loop;
+
+  insert into public.import_status (
+    id, is_importing, started_at, user_id, updated_at,
+    state, file_name, file_size, file_hash, completed_steps, current_step, backup_taken_at, last_error
+  )
+  values (
+    'comprehensive_import', true, now(), auth.uid(), now(),
+    'running', p_file_name, p_file_size, p_file_hash, '{}', null, now(), null
+  )
+  on conflict (id) do update
+  set is_importing = excluded.is_importing,
+      started_at = excluded.started_at,
+      user_id = coalesce(excluded.user_id, import_status.user_id),
+      updated_at = excluded.updated_at,
+      state = excluded.state,
+      file_name = excluded.file_name,
+      file_size = excluded.file_size,
+      file_hash = excluded.file_hash,
+      completed_steps = excluded.completed_steps,
+      current_step = excluded.current_step,
+      backup_taken_at = excluded.backup_taken_at,
+      last_error = excluded.last_error
+  returning * into v_status;
+
+  return v_status;
+end;
+$$;
+
+grant execute on function public.begin_comprehensive_import(text, bigint, text) to authenticated;
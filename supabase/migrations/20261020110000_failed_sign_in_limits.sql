@@ -0,0 +1,11 @@
+-- Lookups for rate limiting failed sign-in auditing.
+-- recordFailedSignIn (app/actions/sessions.ts) counts the recent login_failed
+-- rows for the email and the IP address before writing another one.
+
+create index if not exists audit_logs_failed_sign_in_email_idx
+  on public.audit_logs ((after->>'email'), created_at)
+  where action = 'login_failed' and entity = 'session';
+
+create index if not exists audit_logs_failed_sign_in_ip_idx
+  on public.audit_logs ((after->>'ip'), created_at)
+  where action = 'login_failed' and entity = 'session';
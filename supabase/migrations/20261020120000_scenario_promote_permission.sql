@@ -0,0 +1,153 @@
+-- Scenario promotion on capabilities.
+-- promote_scenario checked for the MASTER role, so the scenario.promote
+-- capability in role_permissions had no effect. It now checks the capability,
+-- and create_book_snapshot, which promotion calls first, checks the capability
+-- behind each snapshot reason instead of MASTER and MANAGER roles.
+
+create or replace function public.create_book_snapshot(
+  p_name text,
+  p_reason text default 'manual',
+  p_description text default null
+)
+returns public.book_snapshots
+language plpgsql
+security definer
+set search_path = public
+set statement_timeout = 0
+as $$
+declare
+  v_snapshot public.book_snapshots;
+  v_allowed boolean;
+begin
+  -- Each reason needs the capability of the action it is taken for
+  v_allowed := case p_reason
+    when 'import' then public.can_run_import()
+    when 'finalization' then public.has_permission('book.finalize')
+    when 'scenario' then public.has_permission('scenario.promote')
+    else public.has_permission('snapshot.manage')
+  end;
+
+  if not v_allowed then
+    raise exception 'You do not have permission to create % snapshots', p_reason;
+  end if;
+
+  insert into public.book_snapshots (name, description, reason, created_by)
+  values (p_name, p_description, p_reason, auth.uid())
+  returning * into v_snapshot;
+
+  insert into public.book_snapshot_relationships (snapshot_id, account_id, seller_id, status, updated_at)
+  select v_snapshot.id, rm.account_id, rm.seller_id, rm.status, rm.updated_at
+  from public.relationship_maps rm
+  on conflict do nothing;
+
+  insert into public.book_snapshot_accounts (
+    snapshot_id, account_id, account_name, external_id, revenue_esg, revenue_gdt, revenue_gvc, revenue_msg_us
+  )
+  select v_snapshot.id, a.id, a.name, a.external_id, ar.revenue_esg, ar.revenue_gdt, ar.revenue_gvc, ar.revenue_msg_us
+  from public.accounts a
+  left join public.account_revenues ar on ar.account_id = a.id;
+
+  insert into public.book_snapshot_sellers (
+    snapshot_id, seller_id, name, external_id, division, size, seniority_type,
+    industry_specialty, manager_id, manager_external_id, manager_name, book_finalized, tenure_months
+  )
+  select v_snapshot.id, s.id, s.name, s.external_id, s.division, s.size, s.seniority_type,
+    s.industry_specialty, s.manager_id, m.external_id, m.name, s.book_finalized, s.tenure_months
+  from public.sellers s
+  left join public.managers m on m.id = s.manager_id;
+
+  update public.book_snapshots
+  set relationship_count = (select count(*) from public.book_snapshot_relationships where snapshot_id = v_snapshot.id),
+      account_count = (select count(*) from public.book_snapshot_accounts where snapshot_id = v_snapshot.id),
+      seller_count = (select count(*) from public.book_snapshot_sellers where snapshot_id = v_snapshot.id)
+  where id = v_snapshot.id
+  returning * into v_snapshot;
+
+  return v_snapshot;
+end;
+$$;
+
+create or replace function public.promote_scenario(p_scenario_id uuid)
+returns public.scenarios
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_scenario public.scenarios;
+  v_conflicts integer;
+begin
+  if not public.has_permission('scenario.promote') then
+    raise exception 'Only users with scenario.promote can promote scenarios';
+  end if;
+
+  select * into v_scenario
+  from public.scenarios
+  where id = p_scenario_id
+  for update;
+
+  if not found then
+    raise exception 'Scenario % not found', p_scenario_id;
+  end if;
+
+  if v_scenario.status <> 'draft' then
+    raise exception 'Scenario has already been promoted';
+  end if;
+
+  select count(*) into v_conflicts
+  from public.get_scenario_conflicts(p_scenario_id)
+  where not missing;
+
+  if v_conflicts > 0 then
+    raise exception '% changes in this scenario conflict with live assignments changed since they were made. Re-apply them in the scenario before promoting.', v_conflicts;
+  end if;
+
+  if exists (
+    select 1
+    from public.scenario_changes sc
+    join public.original_relationships o
+      on o.account_id = sc.account_id and o.seller_id = sc.seller_id
+    where sc.scenario_id = p_scenario_id
+      and sc.status = 'available'
+  ) then
+    raise exception 'Scenario unassigns original accounts, which cannot be unassigned';
+  end if;
+
+  perform public.create_book_snapshot(
+    format('Before promoting scenario "%s"', v_scenario.name),
+    'scenario',
+    null
+  );
+
+  update public.relationship_maps rm
+  set status = sc.status, updated_at = now()
+  from public.scenario_changes sc
+  where sc.scenario_id = p_scenario_id
+    and rm.account_id = sc.account_id
+    and rm.seller_id = sc.seller_id;
+
+  -- Changes for deleted accounts or sellers have nothing to apply to
+  insert into public.relationship_maps (account_id, seller_id, status, updated_at)
+  select sc.account_id, sc.seller_id, sc.status, now()
+  from public.scenario_changes sc
+  join public.accounts a on a.id = sc.account_id
+  join public.sellers s on s.id = sc.seller_id
+  where sc.scenario_id = p_scenario_id
+    and sc.status <> 'available'
+    and not exists (
+      select 1 from public.relationship_maps rm
+      where rm.account_id = sc.account_id
+        and rm.seller_id = sc.seller_id
+    );
+
+  update public.scenarios
+  set status = 'promoted',
+      promoted_by = auth.uid(),
+      promoted_at = now(),
+      updated_at = now()
+  where id = p_scenario_id
+  returning * into v_scenario;
+
+  return v_scenario;
+end;
+$$;
@@ -0,0 +1,31 @@
+-- Revoke API tokens through a function.
+-- The owner update policy allowed any column to change, so a revoked token
+-- could be revived, its expiry extended or its hash swapped. Owners now
+-- revoke through revoke_api_token, which only sets revoked_at.
+
+drop policy if exists "Users can revoke their own api tokens" on public.api_tokens;
+
+create or replace function public.revoke_api_token(p_token_id uuid)
+returns public.api_tokens
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_token public.api_tokens;
+begin
+  update public.api_tokens
+  set revoked_at = coalesce(revoked_at, now())
+  where id = p_token_id
+    and user_id = auth.uid()
+  returning * into v_token;
+
+  if not found then
+    raise exception 'API token % not found', p_token_id;
+  end if;
+
+  return v_token;
+end;
+$$;
+
+grant execute on function public.revoke_api_token(uuid) to authenticated;
@@ -0,0 +1,182 @@
+-- Audit request decisions in the same transaction.
+-- The requests page wrote the approve/reject audit row after the RPC
+-- returned, so a failed call or a closed tab left an approved change without
+-- one. approve_account_change_request and reject_account_change_request now
+-- write an audit row for every request they decide, including the other
+-- request of an account move.
+
+-- Audit row for a decided request, in the shape the requests page wrote
+create or replace function public.audit_request_decision(
+  p_request public.requests,
+  p_action text,
+  p_previous_status public.relationship_status,
+  p_review_note text
+)
+returns void
+language sql
+set search_path = public
+as $$
+  insert into public.audit_logs (user_id, action, entity, entity_id, before, after)
+  values (
+    auth.uid(),
+    p_action,
+    'request',
+    p_request.id,
+    null,
+    jsonb_build_object(
+      'type', p_request.type,
+      'account_id', p_request.account_id,
+      'account_name', (select a.name from public.accounts a where a.id = p_request.account_id),
+      'seller_id', p_request.seller_id,
+      'seller_name', (select s.name from public.sellers s where s.id = p_request.seller_id),
+      'requested_by', p_request.requested_by,
+      'previous_status', p_previous_status,
+      'requested_status', p_request.requested_status,
+      'justification', p_request.justification,
+      'review_note', nullif(trim(p_review_note), ''),
+      'paired_request_id', (
+        select r.id from public.requests r
+        where p_request.pair_id is not null
+          and r.pair_id = p_request.pair_id
+          and r.id <> p_request.id
+        limit 1
+      )
+    )
+  );
+$$;
+
+create or replace function public.approve_account_change_request(
+  p_request_id uuid,
+  p_review_note text default null
+)
+returns public.requests
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_request public.requests;
+  v_change public.requests;
+  v_live_status public.relationship_status;
+begin
+  if not public.has_permission('request.review') then
+    raise exception 'Only users with request.review can approve requests';
+  end if;
+
+  select * into v_request
+  from public.requests
+  where id = p_request_id
+  for update;
+
+  if not found then
+    raise exception 'Request % not found', p_request_id;
+  end if;
+
+  if v_request.status <> 'pending' then
+    raise exception 'Request has already been %', v_request.status;
+  end if;
+
+  -- The request, or every request of its move
+  for v_change in
+    select *
+    from public.requests
+    where status = 'pending'
+      and (id = p_request_id or (v_request.pair_id is not null and pair_id = v_request.pair_id))
+    for update
+  loop
+    select rm.status into v_live_status
+    from public.relationship_maps rm
+    where rm.account_id = v_change.account_id
+      and rm.seller_id = v_change.seller_id;
+
+    if v_change.type = 'unassign' then
+      if exists (
+        select 1 from public.original_relationships
+        where account_id = v_change.account_id
+          and seller_id = v_change.seller_id
+      ) then
+        raise exception 'Original accounts cannot be unassigned';
+      end if;
+
+      update public.relationship_maps
+      set status = 'available', updated_at = now()
+      where account_id = v_change.account_id
+        and seller_id = v_change.seller_id;
+    else
+      update public.relationship_maps
+      set status = v_change.requested_status, updated_at = now()
+      where account_id = v_change.account_id
+        and seller_id = v_change.seller_id;
+
+      if not found then
+        insert into public.relationship_maps (account_id, seller_id, status, updated_at)
+        values (v_change.account_id, v_change.seller_id, v_change.requested_status, now());
+      end if;
+    end if;
+
+    perform public.audit_request_decision(v_change, 'approve', v_live_status, p_review_note);
+  end loop;
+
+  update public.requests
+  set status = 'approved',
+      reviewed_by = auth.uid(),
+      review_note = p_review_note,
+      reviewed_at = now()
+  where status = 'pending'
+    and (id = p_request_id or (v_request.pair_id is not null and pair_id = v_request.pair_id));
+
+  select * into v_request
+  from public.requests
+  where id = p_request_id;
+
+  return v_request;
+end;
+$$;
+
+create or replace function public.reject_account_change_request(
+  p_request_id uuid,
+  p_review_note text default null
+)
+returns public.requests
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_request public.requests;
+  v_change public.requests;
+begin
+  if not public.has_permission('request.review') then
+    raise exception 'Only users with request.review can reject requests';
+  end if;
+
+  select * into v_request
+  from public.requests
+  where id = p_request_id
+    and status = 'pending'
+  for update;
+
+  if not found then
+    raise exception 'Request % is not pending', p_request_id;
+  end if;
+
+  for v_change in
+    update public.requests
+    set status = 'rejected',
+        reviewed_by = auth.uid(),
+        review_note = p_review_note,
+        reviewed_at = now()
+    where status = 'pending'
+      and (id = p_request_id or (v_request.pair_id is not null and pair_id = v_request.pair_id))
+    returning *
+  loop
+    perform public.audit_request_decision(v_change, 'reject', v_change.previous_status, p_review_note);
+  end loop;
+
+  select * into v_request
+  from public.requests
+  where id = p_request_id;
+
+  return v_request;
+end;
+$$;
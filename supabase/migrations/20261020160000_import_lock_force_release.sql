@@ -0,0 +1,118 @@
+-- Force-releasing the import lock stops its import job first.
+-- Releasing only cleared import_status.is_importing, so a server import job
+-- still running kept writing while the next import started. The release now
+-- goes through force_release_import_lock: it refuses while a running job is
+-- still reporting progress (cancel that job instead), and otherwise fails the
+-- jobs that stopped reporting, rolling a replace import back to its backup.
+
+-- Running jobs save their progress every few seconds; like the import lock,
+-- one that hasn't for 2 minutes belongs to a server that went away
+create or replace function public.is_import_job_stale(p_job public.import_jobs)
+returns boolean
+language sql
+stable
+as $$
+  select p_job.updated_at < now() - interval '2 minutes';
+$$;
+
+-- Fail running jobs that stopped reporting progress. A replace import among
+-- them is rolled back, and the import lock its user held is released.
+create or replace function public.fail_stale_import_jobs(p_error text)
+returns setof public.import_jobs
+language plpgsql
+security definer
+set search_path = public
+set statement_timeout = 0
+as $$
+declare
+  v_job public.import_jobs;
+begin
+  if not public.can_run_import() then
+    raise exception 'Only MASTER users can run imports';
+  end if;
+
+  for v_job in
+    update public.import_jobs j
+    set state = 'failed',
+        error = p_error,
+        finished_at = now(),
+        updated_at = now()
+    where j.state = 'running'
+      and public.is_import_job_stale(j)
+    returning j.*
+  loop
+    if v_job.import_type = 'comprehensive' and exists (
+      select 1 from public.import_status
+      where id = 'comprehensive_import'
+        and state = 'running'
+        and backup_taken_at is not null
+    ) then
+      perform public.rollback_comprehensive_import(p_error);
+    end if;
+
+    update public.import_status
+    set is_importing = false,
+        progress_message = null,
+        updated_at = now()
+    where id = 'current_import'
+      and is_importing
+      and user_id is not distinct from v_job.created_by;
+
+    return next v_job;
+  end loop;
+end;
+$$;
+
+revoke execute on function public.fail_stale_import_jobs(text) from public, anon, authenticated;
+grant execute on function public.fail_stale_import_jobs(text) to service_role;
+
+-- Release the import lock whoever holds it. was_stale tells whether the lock
+-- had missed its heartbeats when it was released.
+create or replace function public.force_release_import_lock()
+returns table (
+  was_stale boolean,
+  failed_job_ids uuid[]
+)
+language plpgsql
+security definer
+set search_path = public
+set statement_timeout = 0
+as $$
+declare
+  v_lock public.import_status;
+  v_job_ids uuid[];
+begin
+  if not public.can_run_import() then
+    raise exception 'Only MASTER users can release the import lock';
+  end if;
+
+  select * into v_lock
+  from public.import_status
+  where id = 'current_import'
+  for update;
+
+  if exists (
+    select 1 from public.import_jobs j
+    where j.state = 'running'
+      and not public.is_import_job_stale(j)
+  ) then
+    raise exception 'An import job is still running. Cancel it instead of releasing its lock.'
+      using errcode = 'lock_not_available';
+  end if;
+
+  select coalesce(array_agg(failed.id), '{}') into v_job_ids
+  from public.fail_stale_import_jobs('The import lock was force-released after this import stopped reporting progress') failed;
+
+  update public.import_status
+  set is_importing = false,
+      progress_message = null,
+      updated_at = now()
+  where id = 'current_import';
+
+  return query
+  select coalesce(v_lock.is_importing and public.is_import_lock_stale(v_lock), false), v_job_ids;
+end;
+$$;
+
+revoke execute on function public.force_release_import_lock() from public, anon, authenticated;
+grant execute on function public.force_release_import_lock() to service_role;
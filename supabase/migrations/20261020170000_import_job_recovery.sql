@@ -0,0 +1,44 @@
+-- Recover import jobs orphaned by a server that went away.
+-- claim_import_job only marked such jobs failed after 10 minutes, leaving a
+-- replace import's backup and the import lock in place. It now goes through
+-- fail_stale_import_jobs (20261020160000), which also rolls the replace
+-- import back and releases the lock. The server claims jobs when it starts
+-- and then every 30 seconds, so this no longer waits for the next upload.
+
+create or replace function public.claim_import_job()
+returns public.import_jobs
+language plpgsql
+security definer
+set search_path = public
+set statement_timeout = 0
+as $$
+declare
+  v_job public.import_jobs;
+begin
+  perform public.fail_stale_import_jobs('The server stopped while running this import');
+
+  perform 1 from public.import_jobs where state = 'running';
+  if found then
+    return null;
+  end if;
+
+  update public.import_jobs
+  set state = 'running',
+      started_at = now(),
+      updated_at = now()
+  where id = (
+    select id
+    from public.import_jobs
+    where state = 'queued'
+    order by created_at
+    limit 1
+    for update skip locked
+  )
+  returning * into v_job;
+
+  return v_job;
+end;
+$$;
+
+revoke execute on function public.claim_import_job() from public, anon, authenticated;
+grant execute on function public.claim_import_job() to service_role;
@@ -0,0 +1,10 @@
+-- Keep the original upload of column-mapped imports.
+-- Files that went through the column mapping wizard were rebuilt in template
+-- shape in the browser and that rebuilt workbook was uploaded, so import
+-- history kept a file (and hash) the user never had. The original file is
+-- now uploaded with the mapping, and the server applies the mapping.
+
+alter table public.import_jobs
+  -- ColumnMapping from the wizard (src/lib/column-mapping.ts), null when
+  -- the file was already in template shape
+  add column if not exists column_mapping jsonb;
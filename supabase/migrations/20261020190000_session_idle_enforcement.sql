@@ -0,0 +1,72 @@
+-- Enforce the idle timeout on the server.
+-- The timeout only ran in the browser, so a session left in a closed or
+-- sleeping browser stayed usable. Each auth session now has a last_seen_at
+-- that middleware and the browser's activity heartbeat update through
+-- touch_session; once it is older than the idle timeout the session is ended
+-- and its sign-out is written to the audit log.
+
+create table if not exists public.session_activity (
+  session_id uuid primary key references auth.sessions(id) on delete cascade,
+  last_seen_at timestamptz not null default now()
+);
+
+-- Only read and written through touch_session
+alter table public.session_activity enable row level security;
+
+-- Returns false when the caller's session had been idle too long and was
+-- ended by this call; p_active = false checks without counting as activity
+create or replace function public.touch_session(p_active boolean default true)
+returns boolean
+language plpgsql
+security definer
+set search_path = public, auth
+as $$
+declare
+  v_session_id uuid := nullif(auth.jwt() ->> 'session_id', '')::uuid;
+  v_idle_minutes integer;
+  v_last_seen timestamptz;
+begin
+  if auth.uid() is null or v_session_id is null then
+    return true;
+  end if;
+
+  select s.idle_timeout_minutes into v_idle_minutes
+  from public.session_settings s
+  where s.id;
+
+  select a.last_seen_at into v_last_seen
+  from public.session_activity a
+  where a.session_id = v_session_id
+  for update;
+
+  -- The browser sends at most one heartbeat a minute, so allow for the gap
+  if v_last_seen is not null
+    and v_last_seen < now() - make_interval(mins => coalesce(v_idle_minutes, 30) + 2) then
+    insert into public.audit_logs (user_id, action, entity, entity_id, before, after)
+    values (
+      auth.uid(),
+      'logout',
+      'session',
+      v_session_id,
+      null,
+      jsonb_build_object('reason', 'idle_timeout', 'last_seen_at', v_last_seen, 'at', now())
+    );
+
+    delete from auth.sessions
+    where id = v_session_id
+      and user_id = auth.uid();
+
+    return false;
+  end if;
+
+  if p_active or v_last_seen is null then
+    insert into public.session_activity (session_id, last_seen_at)
+    values (v_session_id, now())
+    on conflict (session_id) do update set last_seen_at = excluded.last_seen_at;
+  end if;
+
+  return true;
+end;
+$$;
+
+grant execute on function public.touch_session(boolean) to authenticated;